@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "PublishStatus" AS ENUM ('SCHEDULED', 'RENDERING', 'UPLOADING', 'PUBLISHED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "scheduled_publishes" (
+    "id" TEXT NOT NULL,
+    "remixId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "status" "PublishStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "title" TEXT,
+    "description" TEXT,
+    "renderedAssetIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "publishId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_publishes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_publishes_status_scheduledFor_idx" ON "scheduled_publishes"("status", "scheduledFor");
+
+-- CreateIndex
+CREATE INDEX "scheduled_publishes_remixId_idx" ON "scheduled_publishes"("remixId");
+
+-- CreateIndex
+CREATE INDEX "scheduled_publishes_accountId_idx" ON "scheduled_publishes"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_publishes" ADD CONSTRAINT "scheduled_publishes_remixId_fkey" FOREIGN KEY ("remixId") REFERENCES "remix_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_publishes" ADD CONSTRAINT "scheduled_publishes_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "tiktok_upload_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
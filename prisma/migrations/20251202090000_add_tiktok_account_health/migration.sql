@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ACCOUNT_HEALTH';
+
+-- AlterTable
+ALTER TABLE "tiktok_upload_accounts" ADD COLUMN     "healthError" TEXT,
+ADD COLUMN     "lastHealthCheckAt" TIMESTAMP(3),
+ADD COLUMN     "lastRefreshedAt" TIMESTAMP(3);
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "profile_groups" ADD COLUMN     "monitoringActiveEnd" INTEGER,
+ADD COLUMN     "monitoringActiveStart" INTEGER,
+ADD COLUMN     "monitoringAdaptive" BOOLEAN,
+ADD COLUMN     "monitoringIntervalHours" DOUBLE PRECISION,
+ADD COLUMN     "monitoringTimezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "tiktok_profiles" ADD COLUMN     "monitoringActiveEnd" INTEGER,
+ADD COLUMN     "monitoringActiveStart" INTEGER,
+ADD COLUMN     "monitoringAdaptive" BOOLEAN,
+ADD COLUMN     "monitoringIntervalHours" DOUBLE PRECISION,
+ADD COLUMN     "monitoringTimezone" TEXT;
@@ -0,0 +1,80 @@
+-- CreateEnum
+CREATE TYPE "AlertMetric" AS ENUM ('VIEWS', 'LIKES', 'SHARES', 'COMMENTS', 'SAVES', 'ENGAGEMENT_RATE');
+
+-- CreateEnum
+CREATE TYPE "AlertCondition" AS ENUM ('ABOVE', 'BELOW', 'GROWTH_ABOVE', 'GROWTH_PERCENT_ABOVE', 'NEW_POST');
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "metric" "AlertMetric" NOT NULL DEFAULT 'VIEWS',
+    "condition" "AlertCondition" NOT NULL DEFAULT 'ABOVE',
+    "threshold" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "windowHours" INTEGER,
+    "minPostAgeHours" INTEGER,
+    "maxPostAgeHours" INTEGER,
+    "profileId" TEXT,
+    "profileGroupId" TEXT,
+    "postCategoryId" TEXT,
+    "notificationType" "NotificationType" NOT NULL DEFAULT 'HIGH_VIEWS',
+    "channels" TEXT[] DEFAULT ARRAY['in_app', 'discord']::TEXT[],
+    "cooldownHours" INTEGER,
+    "snoozedUntil" TIMESTAMP(3),
+    "lastTriggeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_events" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "notificationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_rules_enabled_idx" ON "alert_rules"("enabled");
+
+-- CreateIndex
+CREATE INDEX "alert_events_ruleId_postId_createdAt_idx" ON "alert_events"("ruleId", "postId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "alert_events_postId_idx" ON "alert_events"("postId");
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "tiktok_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_profileGroupId_fkey" FOREIGN KEY ("profileGroupId") REFERENCES "profile_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_postCategoryId_fkey" FOREIGN KEY ("postCategoryId") REFERENCES "post_categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_postId_fkey" FOREIGN KEY ("postId") REFERENCES "tiktok_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_events" ADD CONSTRAINT "alert_events_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the rule that replaces the old hard-coded 1000-view check
+INSERT INTO "alert_rules" ("id", "name", "description", "metric", "condition", "threshold", "notificationType", "updatedAt")
+VALUES ('default-high-views', 'High views', 'Post reached 1,000 views', 'VIEWS', 'ABOVE', 1000, 'HIGH_VIEWS', CURRENT_TIMESTAMP);
+
+-- Carry over already-sent high views notifications so they are not re-sent
+INSERT INTO "alert_events" ("id", "ruleId", "postId", "value", "notificationId", "createdAt")
+SELECT 'migrated-' || "id", 'default-high-views', "postId", 1000, "id", "createdAt"
+FROM "notifications"
+WHERE "type" = 'HIGH_VIEWS' AND "postId" IS NOT NULL;
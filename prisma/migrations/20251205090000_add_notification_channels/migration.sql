@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('DISCORD', 'SLACK', 'TELEGRAM', 'EMAIL', 'WEBHOOK');
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('PENDING', 'SENT', 'RETRYING', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "alert_rules" ADD COLUMN     "inApp" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "useDefaultChannels" BOOLEAN NOT NULL DEFAULT true;
+
+-- Carry over the old per-rule channel list ("discord" meant the env webhook, now a default channel)
+UPDATE "alert_rules" SET
+    "inApp" = 'in_app' = ANY("channels"),
+    "useDefaultChannels" = 'discord' = ANY("channels");
+
+-- AlterTable
+ALTER TABLE "alert_rules" DROP COLUMN "channels";
+
+-- CreateTable
+CREATE TABLE "notification_channels" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" TEXT NOT NULL,
+    "channelId" TEXT NOT NULL,
+    "notificationId" TEXT,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "payload" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AlertRuleToNotificationChannel" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_AlertRuleToNotificationChannel_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_channels_enabled_isDefault_idx" ON "notification_channels"("enabled", "isDefault");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_channelId_createdAt_idx" ON "notification_deliveries"("channelId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_idx" ON "notification_deliveries"("status");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_notificationId_idx" ON "notification_deliveries"("notificationId");
+
+-- CreateIndex
+CREATE INDEX "_AlertRuleToNotificationChannel_B_index" ON "_AlertRuleToNotificationChannel"("B");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_channelId_fkey" FOREIGN KEY ("channelId") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AlertRuleToNotificationChannel" ADD CONSTRAINT "_AlertRuleToNotificationChannel_A_fkey" FOREIGN KEY ("A") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AlertRuleToNotificationChannel" ADD CONSTRAINT "_AlertRuleToNotificationChannel_B_fkey" FOREIGN KEY ("B") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
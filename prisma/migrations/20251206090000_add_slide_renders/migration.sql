@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "slide_renders" (
+    "id" TEXT NOT NULL,
+    "remixId" TEXT NOT NULL,
+    "slideId" TEXT NOT NULL,
+    "slideIndex" INTEGER NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "cacheAssetId" UUID NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "slide_renders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "slide_renders_contentHash_format_idx" ON "slide_renders"("contentHash", "format");
+
+-- CreateIndex
+CREATE INDEX "slide_renders_cacheAssetId_idx" ON "slide_renders"("cacheAssetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slide_renders_remixId_slideId_format_key" ON "slide_renders"("remixId", "slideId", "format");
+
+-- AddForeignKey
+ALTER TABLE "slide_renders" ADD CONSTRAINT "slide_renders_remixId_fkey" FOREIGN KEY ("remixId") REFERENCES "remix_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "slide_renders" ADD CONSTRAINT "slide_renders_cacheAssetId_fkey" FOREIGN KEY ("cacheAssetId") REFERENCES "cache_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
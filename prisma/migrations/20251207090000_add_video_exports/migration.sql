@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "VideoExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "video_exports" (
+    "id" TEXT NOT NULL,
+    "remixId" TEXT NOT NULL,
+    "status" "VideoExportStatus" NOT NULL DEFAULT 'PENDING',
+    "options" JSONB NOT NULL DEFAULT '{}',
+    "musicAssetId" UUID,
+    "cacheAssetId" UUID,
+    "durationSeconds" DOUBLE PRECISION,
+    "error" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "video_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "video_exports_remixId_createdAt_idx" ON "video_exports"("remixId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "video_exports_status_idx" ON "video_exports"("status");
+
+-- AddForeignKey
+ALTER TABLE "video_exports" ADD CONSTRAINT "video_exports_remixId_fkey" FOREIGN KEY ("remixId") REFERENCES "remix_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "video_exports" ADD CONSTRAINT "video_exports_cacheAssetId_fkey" FOREIGN KEY ("cacheAssetId") REFERENCES "cache_assets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
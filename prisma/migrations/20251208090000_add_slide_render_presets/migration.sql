@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "slide_renders_remixId_slideId_format_key";
+
+-- AlterTable
+ALTER TABLE "slide_renders" ADD COLUMN     "preset" TEXT NOT NULL DEFAULT 'original';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slide_renders_remixId_slideId_format_preset_key" ON "slide_renders"("remixId", "slideId", "format", "preset");
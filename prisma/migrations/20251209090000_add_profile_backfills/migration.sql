@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ProfileBackfillStatus" AS ENUM ('PENDING', 'RUNNING', 'PAUSED', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "profile_monitoring_logs" ADD COLUMN     "maxCursor" TEXT;
+
+-- CreateTable
+CREATE TABLE "profile_backfills" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "status" "ProfileBackfillStatus" NOT NULL DEFAULT 'PENDING',
+    "maxCursor" TEXT,
+    "pageBudget" INTEGER NOT NULL,
+    "pagesScraped" INTEGER NOT NULL DEFAULT 0,
+    "postsScraped" INTEGER NOT NULL DEFAULT 0,
+    "newPosts" INTEGER NOT NULL DEFAULT 0,
+    "oldestPostAt" TIMESTAMP(3),
+    "stopReason" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "profile_backfills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "profile_backfills_profileId_createdAt_idx" ON "profile_backfills"("profileId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "profile_backfills_status_idx" ON "profile_backfills"("status");
+
+-- AddForeignKey
+ALTER TABLE "profile_backfills" ADD CONSTRAINT "profile_backfills_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "tiktok_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "tiktok_profile_metrics_history" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "followerCount" INTEGER,
+    "followingCount" INTEGER,
+    "likeCount" BIGINT,
+    "videoCount" INTEGER,
+    "recordedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tiktok_profile_metrics_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tiktok_profile_metrics_history_profileId_recordedAt_idx" ON "tiktok_profile_metrics_history"("profileId", "recordedAt");
+
+-- AddForeignKey
+ALTER TABLE "tiktok_profile_metrics_history" ADD CONSTRAINT "tiktok_profile_metrics_history_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "tiktok_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
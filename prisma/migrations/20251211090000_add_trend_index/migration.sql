@@ -0,0 +1,87 @@
+-- AlterTable
+ALTER TABLE "tiktok_posts" ADD COLUMN     "musicTiktokId" TEXT,
+ADD COLUMN     "soundId" TEXT,
+ADD COLUMN     "trendsIndexedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "sounds" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "tiktokMusicId" TEXT,
+    "title" TEXT,
+    "author" TEXT,
+    "postCount" INTEGER NOT NULL DEFAULT 0,
+    "recentPostCount" INTEGER NOT NULL DEFAULT 0,
+    "totalViews" BIGINT NOT NULL DEFAULT 0,
+    "viewsGained24h" BIGINT NOT NULL DEFAULT 0,
+    "viewsGained7d" BIGINT NOT NULL DEFAULT 0,
+    "momentum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastPostedAt" TIMESTAMP(3),
+    "statsUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hashtags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "postCount" INTEGER NOT NULL DEFAULT 0,
+    "recentPostCount" INTEGER NOT NULL DEFAULT 0,
+    "totalViews" BIGINT NOT NULL DEFAULT 0,
+    "viewsGained24h" BIGINT NOT NULL DEFAULT 0,
+    "viewsGained7d" BIGINT NOT NULL DEFAULT 0,
+    "momentum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lastPostedAt" TIMESTAMP(3),
+    "statsUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hashtags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "post_hashtags" (
+    "postId" TEXT NOT NULL,
+    "hashtagId" TEXT NOT NULL,
+
+    CONSTRAINT "post_hashtags_pkey" PRIMARY KEY ("postId","hashtagId")
+);
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_soundId_idx" ON "tiktok_posts"("soundId");
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_trendsIndexedAt_idx" ON "tiktok_posts"("trendsIndexedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sounds_key_key" ON "sounds"("key");
+
+-- CreateIndex
+CREATE INDEX "sounds_viewsGained7d_idx" ON "sounds"("viewsGained7d");
+
+-- CreateIndex
+CREATE INDEX "sounds_momentum_idx" ON "sounds"("momentum");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hashtags_name_key" ON "hashtags"("name");
+
+-- CreateIndex
+CREATE INDEX "hashtags_viewsGained7d_idx" ON "hashtags"("viewsGained7d");
+
+-- CreateIndex
+CREATE INDEX "hashtags_momentum_idx" ON "hashtags"("momentum");
+
+-- CreateIndex
+CREATE INDEX "post_hashtags_hashtagId_idx" ON "post_hashtags"("hashtagId");
+
+-- AddForeignKey
+ALTER TABLE "tiktok_posts" ADD CONSTRAINT "tiktok_posts_soundId_fkey" FOREIGN KEY ("soundId") REFERENCES "sounds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_hashtags" ADD CONSTRAINT "post_hashtags_postId_fkey" FOREIGN KEY ("postId") REFERENCES "tiktok_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_hashtags" ADD CONSTRAINT "post_hashtags_hashtagId_fkey" FOREIGN KEY ("hashtagId") REFERENCES "hashtags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "tiktok_posts" ADD COLUMN     "outlierScore" DOUBLE PRECISION,
+ADD COLUMN     "outlierScoredAt" TIMESTAMP(3),
+ADD COLUMN     "velocityScore" DOUBLE PRECISION,
+ADD COLUMN     "viewsFirst24h" INTEGER,
+ADD COLUMN     "viewsFirst48h" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_outlierScore_idx" ON "tiktok_posts"("outlierScore");
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_velocityScore_idx" ON "tiktok_posts"("velocityScore");
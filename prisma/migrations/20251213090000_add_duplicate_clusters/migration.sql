@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "tiktok_posts" ADD COLUMN     "duplicateClusterId" TEXT,
+ADD COLUMN     "imageHashedAt" TIMESTAMP(3),
+ADD COLUMN     "imageHashes" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "isDuplicate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "duplicate_clusters" (
+    "id" TEXT NOT NULL,
+    "originalPostId" TEXT,
+    "postCount" INTEGER NOT NULL DEFAULT 0,
+    "profileCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "duplicate_clusters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_imageHashedAt_idx" ON "tiktok_posts"("imageHashedAt");
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_duplicateClusterId_idx" ON "tiktok_posts"("duplicateClusterId");
+
+-- CreateIndex
+CREATE INDEX "duplicate_clusters_profileCount_idx" ON "duplicate_clusters"("profileCount");
+
+-- AddForeignKey
+ALTER TABLE "tiktok_posts" ADD CONSTRAINT "tiktok_posts_duplicateClusterId_fkey" FOREIGN KEY ("duplicateClusterId") REFERENCES "duplicate_clusters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "duplicate_clusters" ADD CONSTRAINT "duplicate_clusters_originalPostId_fkey" FOREIGN KEY ("originalPostId") REFERENCES "tiktok_posts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
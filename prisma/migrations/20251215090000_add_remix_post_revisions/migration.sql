@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "remix_post_revisions" (
+    "id" TEXT NOT NULL,
+    "remixId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "slides" JSONB NOT NULL DEFAULT '[]',
+    "source" TEXT NOT NULL,
+    "summary" TEXT,
+    "createdById" TEXT,
+    "restoredFromId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "remix_post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "remix_post_revisions_remixId_createdAt_idx" ON "remix_post_revisions"("remixId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "remix_post_revisions_remixId_revisionNumber_key" ON "remix_post_revisions"("remixId", "revisionNumber");
+
+-- AddForeignKey
+ALTER TABLE "remix_post_revisions" ADD CONSTRAINT "remix_post_revisions_remixId_fkey" FOREIGN KEY ("remixId") REFERENCES "remix_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remix_post_revisions" ADD CONSTRAINT "remix_post_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "RemixWorkflowStatus" AS ENUM ('IDEA', 'DRAFTING', 'IN_REVIEW', 'CHANGES_REQUESTED', 'APPROVED', 'SCHEDULED', 'POSTED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'REVIEW_REQUESTED';
+
+-- AlterTable
+ALTER TABLE "remix_posts" ADD COLUMN     "reviewerId" TEXT,
+ADD COLUMN     "workflowStatus" "RemixWorkflowStatus" NOT NULL DEFAULT 'DRAFTING',
+ADD COLUMN     "workflowUpdatedAt" TIMESTAMP(3);
+
+-- Backfill the status from the existing approval and posting fields
+UPDATE "remix_posts" SET "workflowStatus" = 'APPROVED' WHERE "approved" = true;
+UPDATE "remix_posts" SET "workflowStatus" = 'SCHEDULED'
+WHERE "id" IN (SELECT "remixId" FROM "scheduled_publishes" WHERE "status" IN ('SCHEDULED', 'RENDERING', 'UPLOADING'));
+UPDATE "remix_posts" SET "workflowStatus" = 'POSTED' WHERE "postedUrl" IS NOT NULL OR "postedAt" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "remix_comments" (
+    "id" TEXT NOT NULL,
+    "remixId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "slideId" TEXT,
+    "slideIndex" INTEGER,
+    "textBoxId" TEXT,
+    "body" TEXT NOT NULL,
+    "authorId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "remix_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "remix_posts_workflowStatus_idx" ON "remix_posts"("workflowStatus");
+
+-- CreateIndex
+CREATE INDEX "remix_posts_reviewerId_idx" ON "remix_posts"("reviewerId");
+
+-- CreateIndex
+CREATE INDEX "remix_comments_remixId_createdAt_idx" ON "remix_comments"("remixId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "remix_comments_parentId_idx" ON "remix_comments"("parentId");
+
+-- CreateIndex
+CREATE INDEX "remix_comments_authorId_idx" ON "remix_comments"("authorId");
+
+-- AddForeignKey
+ALTER TABLE "remix_posts" ADD CONSTRAINT "remix_posts_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remix_comments" ADD CONSTRAINT "remix_comments_remixId_fkey" FOREIGN KEY ("remixId") REFERENCES "remix_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remix_comments" ADD CONSTRAINT "remix_comments_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "remix_comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remix_comments" ADD CONSTRAINT "remix_comments_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remix_comments" ADD CONSTRAINT "remix_comments_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "product_contexts" ADD COLUMN     "brandKitId" TEXT;
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "brandKitId" TEXT;
+
+-- CreateTable
+CREATE TABLE "brand_kits" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "palette" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "headingFont" TEXT,
+    "bodyFont" TEXT,
+    "textStyles" JSONB NOT NULL DEFAULT '[]',
+    "logoAssetIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "backgroundLayers" JSONB NOT NULL DEFAULT '[]',
+    "createdById" TEXT,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "brand_kits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "brand_kits_name_idx" ON "brand_kits"("name");
+
+-- CreateIndex
+CREATE INDEX "product_contexts_brandKitId_idx" ON "product_contexts"("brandKitId");
+
+-- CreateIndex
+CREATE INDEX "projects_brandKitId_idx" ON "projects"("brandKitId");
+
+-- AddForeignKey
+ALTER TABLE "product_contexts" ADD CONSTRAINT "product_contexts_brandKitId_fkey" FOREIGN KEY ("brandKitId") REFERENCES "brand_kits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_brandKitId_fkey" FOREIGN KEY ("brandKitId") REFERENCES "brand_kits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "brand_kits" ADD CONSTRAINT "brand_kits_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "brand_kits" ADD CONSTRAINT "brand_kits_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
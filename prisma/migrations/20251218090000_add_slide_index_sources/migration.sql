@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "slide_classification_index" ADD COLUMN     "tiktokPostId" TEXT,
+ALTER COLUMN "remixPostId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slide_classification_index_tiktokPostId_slideIndex_key" ON "slide_classification_index"("tiktokPostId", "slideIndex");
+
+-- AddForeignKey
+ALTER TABLE "slide_classification_index" ADD CONSTRAINT "slide_classification_index_tiktokPostId_fkey" FOREIGN KEY ("tiktokPostId") REFERENCES "tiktok_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
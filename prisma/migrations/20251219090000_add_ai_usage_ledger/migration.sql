@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "ai_usage_events" (
+    "id" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0.0,
+    "entityType" TEXT,
+    "entityId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ai_budgets" (
+    "id" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "limitUsd" DOUBLE PRECISION NOT NULL,
+    "warnAtPercent" INTEGER NOT NULL DEFAULT 80,
+    "pauseQueues" BOOLEAN NOT NULL DEFAULT true,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_events_createdAt_idx" ON "ai_usage_events"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_events_feature_createdAt_idx" ON "ai_usage_events"("feature", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_events_entityType_entityId_idx" ON "ai_usage_events"("entityType", "entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_budgets_period_key" ON "ai_budgets"("period");
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "remix_posts" ADD COLUMN     "promptVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "pinnedVersionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prompt_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "remix_posts_promptVersionId_idx" ON "remix_posts"("promptVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_key_key" ON "prompt_templates"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_pinnedVersionId_key" ON "prompt_templates"("pinnedVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_template_versions_templateId_version_key" ON "prompt_template_versions"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "remix_posts" ADD CONSTRAINT "remix_posts_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "prompt_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_templates" ADD CONSTRAINT "prompt_templates_pinnedVersionId_fkey" FOREIGN KEY ("pinnedVersionId") REFERENCES "prompt_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_template_versions" ADD CONSTRAINT "prompt_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "prompt_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prompt_template_versions" ADD CONSTRAINT "prompt_template_versions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
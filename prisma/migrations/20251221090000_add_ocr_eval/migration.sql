@@ -0,0 +1,75 @@
+-- CreateTable
+CREATE TABLE "ocr_eval_cases" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "category" TEXT,
+    "slides" JSONB NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ocr_eval_cases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ocr_eval_runs" (
+    "id" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersionIds" JSONB NOT NULL DEFAULT '{}',
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "caseCount" INTEGER NOT NULL DEFAULT 0,
+    "completedCount" INTEGER NOT NULL DEFAULT 0,
+    "report" JSONB,
+    "error" TEXT,
+    "createdById" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ocr_eval_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ocr_eval_results" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "predicted" JSONB,
+    "score" JSONB,
+    "slideAccuracy" DOUBLE PRECISION,
+    "textSimilarity" DOUBLE PRECISION,
+    "categoryMatch" BOOLEAN,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ocr_eval_results_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ocr_eval_cases_postId_key" ON "ocr_eval_cases"("postId");
+
+-- CreateIndex
+CREATE INDEX "ocr_eval_runs_createdAt_idx" ON "ocr_eval_runs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ocr_eval_results_caseId_idx" ON "ocr_eval_results"("caseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ocr_eval_results_runId_caseId_key" ON "ocr_eval_results"("runId", "caseId");
+
+-- AddForeignKey
+ALTER TABLE "ocr_eval_cases" ADD CONSTRAINT "ocr_eval_cases_postId_fkey" FOREIGN KEY ("postId") REFERENCES "tiktok_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ocr_eval_cases" ADD CONSTRAINT "ocr_eval_cases_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ocr_eval_runs" ADD CONSTRAINT "ocr_eval_runs_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ocr_eval_results" ADD CONSTRAINT "ocr_eval_results_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ocr_eval_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ocr_eval_results" ADD CONSTRAINT "ocr_eval_results_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "ocr_eval_cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "tiktok_posts" ADD COLUMN     "velocityScore48h" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "tiktok_posts_velocityScore48h_idx" ON "tiktok_posts"("velocityScore48h");
@@ -0,0 +1,50 @@
+#!/usr/bin/env bun
+
+/**
+ * Create User Script
+ *
+ * Creates a user from the command line - use it to create the first admin,
+ * who can then add everyone else from Settings → Users.
+ *
+ * Usage:
+ *   bun scripts/create-user.ts <email> <password> [role] [name]
+ *
+ *   role: admin | editor | reviewer | viewer (default: admin)
+ */
+
+import { authService, isUserRole } from '@/lib/auth-service'
+
+async function createUser() {
+  const [email, password, role = 'admin', ...nameParts] = process.argv.slice(2)
+
+  if (!email || !password) {
+    console.error('Usage: bun scripts/create-user.ts <email> <password> [role] [name]')
+    process.exit(1)
+  }
+
+  if (!isUserRole(role)) {
+    console.error(`❌ Unknown role "${role}" - use admin, editor, reviewer or viewer`)
+    process.exit(1)
+  }
+
+  if (password.length < 8) {
+    console.error('❌ Password must be at least 8 characters')
+    process.exit(1)
+  }
+
+  try {
+    const user = await authService.createUser({
+      email,
+      password,
+      role,
+      name: nameParts.join(' ') || null
+    })
+    console.log(`✅ Created ${user.role} ${user.email} (${user.id})`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Failed to create user:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+createUser()
@@ -0,0 +1,96 @@
+#!/usr/bin/env bun
+
+/**
+ * OCR Evaluation Script
+ *
+ * Runs the OCR gold set against a model and prompt versions in this process
+ * (no worker needed) and prints the report. The run is saved like one started
+ * from Settings → OCR Evaluation, so it shows up there for comparison.
+ *
+ * Usage:
+ *   bun scripts/eval-ocr.ts [--model <model>] [--prompt <key>=<versionId>]... [--notes <text>]
+ *
+ *   key: ocr | ocr-slide-type-rules | ocr-text-rules (unset keys use the pinned version)
+ *
+ * Example:
+ *   bun scripts/eval-ocr.ts --model gemini-2.5-flash --prompt ocr=clx123 --notes "stricter CTA rules"
+ */
+
+import { ocrEvalService, OCR_PROMPT_KEYS } from '@/lib/ocr-eval-service'
+import { EVAL_SLIDE_TYPES } from '@/lib/ocr-eval-metrics'
+import type { OcrPromptKey } from '@/lib/ocr-service'
+
+const percent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`
+
+function parseArgs(args: string[]) {
+  const options: { model?: string; notes?: string; promptVersionIds: Partial<Record<OcrPromptKey, string>> } = {
+    promptVersionIds: {}
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+    switch (args[i]) {
+      case '--model':
+        options.model = value
+        i++
+        break
+      case '--notes':
+        options.notes = value
+        i++
+        break
+      case '--prompt': {
+        const [key, versionId] = (value ?? '').split('=')
+        if (!OCR_PROMPT_KEYS.includes(key as OcrPromptKey) || !versionId) {
+          throw new Error(`Invalid --prompt "${value}" - use <key>=<versionId> with key ${OCR_PROMPT_KEYS.join(', ')}`)
+        }
+        options.promptVersionIds[key as OcrPromptKey] = versionId
+        i++
+        break
+      }
+      default:
+        throw new Error(`Unknown argument: ${args[i]}`)
+    }
+  }
+
+  return options
+}
+
+async function evalOcr() {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const run = await ocrEvalService.createRun(options, null)
+
+    console.log(`🧪 Evaluating ${run.caseCount} cases on ${run.model} (run ${run.id})`)
+    const report = await ocrEvalService.executeRun(run.id)
+
+    console.log('─'.repeat(60))
+    console.log(`Cases:            ${report.cases} scored, ${report.failedCases} failed`)
+    console.log(`Slides:           ${report.slides}`)
+    console.log(`Slide accuracy:   ${percent(report.slideAccuracy)}`)
+    console.log(`Category acc.:    ${percent(report.categoryAccuracy)}`)
+    console.log(`Text similarity:  ${percent(report.textSimilarity)}`)
+    console.log(`Exact text:       ${percent(report.exactTextRate)}`)
+    console.log('─'.repeat(60))
+
+    console.log('Confusion matrix (rows: labeled, columns: predicted)')
+    console.table(Object.fromEntries(
+      EVAL_SLIDE_TYPES.map(type => [type, report.confusionMatrix[type]])
+    ))
+
+    console.table(Object.fromEntries(
+      EVAL_SLIDE_TYPES.map(type => [type, {
+        precision: percent(report.perClass[type].precision),
+        recall: percent(report.perClass[type].recall),
+        f1: percent(report.perClass[type].f1),
+        support: report.perClass[type].support
+      }])
+    ))
+
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
+
+evalOcr()
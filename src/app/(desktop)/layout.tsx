@@ -8,6 +8,7 @@ import { Toaster } from "@/components/ui/sonner";
 import NextTopLoader from 'nextjs-toploader';
 import { UploadContextProvider } from "@/lib/upload-context";
 import { UploadProgressPanel } from "@/components/upload/UploadProgressPanel";
+import { AiBudgetBanner } from "@/components/AiBudgetBanner";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -76,6 +77,8 @@ export default function RootLayout({
                 </div>
               </header>
 
+              <AiBudgetBanner />
+
               <main className="flex-1 overflow-auto min-w-0">
                 {children}
               </main>
@@ -27,12 +27,14 @@ import {
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { PageLayout } from '@/components/PageLayout'
+import { BrandKitSelector } from '@/components/BrandKitSelector'
 import { designTokens } from '@/lib/design-tokens'
 
 interface ProductContext {
   id: string
   title: string
   description: string
+  brandKitId: string | null
   createdAt: string
   updatedAt: string
 }
@@ -46,7 +48,8 @@ export default function ProductContextsPage() {
   const [editingContext, setEditingContext] = useState<ProductContext | null>(null)
   const [formData, setFormData] = useState({
     title: '',
-    description: ''
+    description: '',
+    brandKitId: null as string | null
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -71,7 +74,8 @@ export default function ProductContextsPage() {
   const resetForm = () => {
     setFormData({
       title: '',
-      description: ''
+      description: '',
+      brandKitId: null
     })
     setEditingContext(null)
   }
@@ -120,7 +124,8 @@ export default function ProductContextsPage() {
         },
         body: JSON.stringify({
           title: formData.title.trim(),
-          description: formData.description.trim()
+          description: formData.description.trim(),
+          brandKitId: formData.brandKitId
         }),
       })
 
@@ -164,7 +169,8 @@ export default function ProductContextsPage() {
     setEditingContext(context)
     setFormData({
       title: context.title,
-      description: context.description
+      description: context.description,
+      brandKitId: context.brandKitId
     })
     setShowEditDialog(true)
   }
@@ -370,6 +376,14 @@ export default function ProductContextsPage() {
                 rows={4}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Brand Kit</Label>
+              <BrandKitSelector
+                value={formData.brandKitId}
+                onChange={(brandKitId) => setFormData(prev => ({ ...prev, brandKitId }))}
+                className="w-full"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -15,6 +15,7 @@ import {
   Activity,
   Play,
   ChevronLeft,
+  TrendingUp,
 } from 'lucide-react'
 import { TikTokProfile } from '@/components/profiles-table-columns'
 import Link from 'next/link'
@@ -22,6 +23,8 @@ import { useParams } from 'next/navigation'
 import { designTokens } from '@/lib/design-tokens'
 import { PageLayout } from '@/components/PageLayout'
 import { PostsPageContent } from '@/components/PostsPageContent'
+import { ProfileBackfillPopover } from '@/components/ProfileBackfillPopover'
+import { ProfileGrowthSheet } from '@/components/ProfileGrowthSheet'
 
 function ProfileDetailPageContent() {
   const params = useParams()
@@ -33,6 +36,7 @@ function ProfileDetailPageContent() {
   const [monitoringEnabled, setMonitoringEnabled] = useState(false)
   const [monitoringLoading, setMonitoringLoading] = useState(false)
   const [triggerLoading, setTriggerLoading] = useState(false)
+  const [growthOpen, setGrowthOpen] = useState(false)
 
   const fetchProfile = useCallback(async () => {
     if (!handle) return
@@ -226,6 +230,16 @@ function ProfileDetailPageContent() {
         <Play className={`w-3 h-3 mr-1.5 ${triggerLoading ? 'animate-spin' : ''}`} />
         Update Now
       </Button>
+      <ProfileBackfillPopover profileId={profile.id} />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setGrowthOpen(true)}
+        className="h-8 px-3 text-xs"
+      >
+        <TrendingUp className="w-3 h-3 mr-1.5" />
+        Growth
+      </Button>
       <Button
         onClick={fetchProfile}
         disabled={profileLoading}
@@ -240,12 +254,20 @@ function ProfileDetailPageContent() {
   )
 
   return (
-    <PostsPageContent
-      profileId={profile.id}
-      profileHandle={handle}
-      titleElement={titleElement}
-      additionalHeaderActions={additionalHeaderActions}
-    />
+    <>
+      <PostsPageContent
+        profileId={profile.id}
+        profileHandle={handle}
+        titleElement={titleElement}
+        additionalHeaderActions={additionalHeaderActions}
+      />
+      <ProfileGrowthSheet
+        profileId={profile.id}
+        handle={profile.handle}
+        open={growthOpen}
+        onOpenChange={setGrowthOpen}
+      />
+    </>
   )
 }
 
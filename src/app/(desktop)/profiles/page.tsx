@@ -5,12 +5,13 @@ import { useRouter, useSearchParams } from 'next/navigation'
 import { Card, CardContent } from '@/components/ui/card'
 import { ProfilesTable } from '@/components/ProfilesTable'
 import { Button } from '@/components/ui/button'
-import { RefreshCw, Users, Video, Eye, Heart, MessageCircle, Bookmark, FolderPlus, Play } from 'lucide-react'
+import { RefreshCw, Users, Video, Eye, Heart, MessageCircle, Bookmark, FolderPlus, Play, Clock } from 'lucide-react'
 import { TikTokProfile } from '@/components/profiles-table-columns'
 import { PageLayout } from '@/components/PageLayout'
 import { AddProfileDialog } from '@/components/AddProfileDialog'
 import { DateRange, DateRangeFilter } from '@/components/DateRangeFilter'
 import { BulkGroupAssignDialog } from '@/components/BulkGroupAssignDialog'
+import { MonitoringSettingsDialog } from '@/components/MonitoringSettingsDialog'
 import { PostingActivityHeatmap } from '@/components/PostingActivityHeatmap'
 import { DailyViewsChart, DailyViewsDataPoint } from '@/components/DailyViewsChart'
 import { calculateProfileAggregateMetrics, compareMetrics } from '@/lib/profile-metrics-calculator'
@@ -79,6 +80,7 @@ function ProfilesPageContent() {
   const [groups, setGroups] = useState<ProfileGroup[]>([])
   const [selectedProfiles, setSelectedProfiles] = useState<Set<string>>(new Set())
   const [isBulkGroupDialogOpen, setIsBulkGroupDialogOpen] = useState(false)
+  const [isMonitoringDialogOpen, setIsMonitoringDialogOpen] = useState(false)
   const [isBulkUpdating, setIsBulkUpdating] = useState(false)
   const [activityData, setActivityData] = useState<Array<{ date: string; count: number }>>([])
   const [dailyViewsData, setDailyViewsData] = useState<DailyViewsDataPoint[]>([])
@@ -246,6 +248,14 @@ function ProfilesPageContent() {
     fetchProfiles()
   }, [fetchProfiles])
 
+  // Group shared by every selected profile, offered as a target for group-wide defaults
+  const selectedProfilesGroup = useMemo(() => {
+    const selected = profiles.filter(p => selectedProfiles.has(p.id))
+    const group = selected[0]?.profileGroup
+    if (!group) return null
+    return selected.every(p => p.profileGroup?.id === group.id) ? group : null
+  }, [profiles, selectedProfiles])
+
   const handleBulkUpdateNow = useCallback(async () => {
     if (selectedProfiles.size === 0) return
 
@@ -344,6 +354,17 @@ function ProfilesPageContent() {
             Assign Group {selectedProfiles.size > 0 && `(${selectedProfiles.size})`}
           </Button>
 
+          {/* Bulk Monitoring Schedule */}
+          <Button
+            variant="outline"
+            onClick={() => setIsMonitoringDialogOpen(true)}
+            disabled={selectedProfiles.size === 0}
+            className="w-full sm:w-auto h-8 px-3 text-xs"
+          >
+            <Clock className="h-3 w-3 mr-1.5" />
+            Schedule {selectedProfiles.size > 0 && `(${selectedProfiles.size})`}
+          </Button>
+
           {/* Add Profile */}
           <AddProfileDialog onProfileAdded={handleRefresh} />
 
@@ -511,6 +532,15 @@ function ProfilesPageContent() {
         selectedProfileIds={Array.from(selectedProfiles)}
         onSuccess={handleBulkGroupSuccess}
       />
+
+      {/* Bulk Monitoring Schedule Dialog */}
+      <MonitoringSettingsDialog
+        isOpen={isMonitoringDialogOpen}
+        onClose={() => setIsMonitoringDialogOpen(false)}
+        profileIds={Array.from(selectedProfiles)}
+        profileGroup={selectedProfilesGroup}
+        onSuccess={handleRefresh}
+      />
     </PageLayout>
   )
 }
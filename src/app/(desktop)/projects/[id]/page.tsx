@@ -16,6 +16,7 @@ import type { RemixSlideType } from '@/lib/validations/remix-schema'
 import type { TextOverlay } from '@/lib/text-overlay-utils'
 import { RowSelectionState } from '@tanstack/react-table'
 import { ProductContextSelector } from '@/components/ProductContextSelector'
+import { BrandKitSelector } from '@/components/BrandKitSelector'
 import { SearchInput } from '@/components/SearchInput'
 import {
   AlertDialog,
@@ -40,6 +41,7 @@ interface Project {
   description: string | null
   productContextId: string | null
   productContext: ProductContext | null
+  brandKitId: string | null
   posts: Array<{
     id: string
     post: TikTokPost
@@ -457,6 +459,35 @@ export default function ProjectDetailPage() {
     }
   }
 
+  const handleBrandKitChange = async (brandKitId: string | null) => {
+    if (!project) return
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ brandKitId })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to update brand kit')
+      }
+
+      const updatedProject = await response.json()
+      setProject(prev => prev ? {
+        ...prev,
+        brandKitId: updatedProject.brandKitId
+      } : null)
+
+      toast.success('Brand kit updated')
+    } catch (error) {
+      console.error('Error updating brand kit:', error)
+      toast.error('Failed to update brand kit')
+    }
+  }
+
   const handleContentGenerated = (drafts?: any[]) => {
     if (drafts && drafts.length > 0) {
       // Add new drafts to the state instead of refetching
@@ -998,6 +1029,10 @@ export default function ProjectDetailPage() {
                 value={project.productContextId}
                 onChange={handleProductContextChange}
               />
+              <BrandKitSelector
+                value={project.brandKitId}
+                onChange={handleBrandKitChange}
+              />
             </div>
           }
           headerActions={
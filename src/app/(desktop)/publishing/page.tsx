@@ -0,0 +1,356 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from 'date-fns'
+import { ChevronLeft, ChevronRight, Loader2, Plus, RotateCcw, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageLayout } from '@/components/PageLayout'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type PublishStatus = 'SCHEDULED' | 'RENDERING' | 'UPLOADING' | 'PUBLISHED' | 'FAILED' | 'CANCELLED'
+
+interface ScheduledPublish {
+  id: string
+  scheduledFor: string
+  status: PublishStatus
+  title: string | null
+  error: string | null
+  attempts: number
+  remix: { id: string; name: string; postedAt: string | null }
+  account: { id: string; username: string | null; displayName: string | null; avatarUrl: string | null }
+}
+
+interface ApprovedRemix {
+  id: string
+  name: string
+  description: string | null
+}
+
+interface UploadAccount {
+  id: string
+  username: string | null
+  displayName: string | null
+  status: 'ACTIVE' | 'EXPIRED' | 'REVOKED'
+}
+
+const STATUS_VARIANTS: Record<PublishStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  SCHEDULED: 'outline',
+  RENDERING: 'secondary',
+  UPLOADING: 'secondary',
+  PUBLISHED: 'default',
+  FAILED: 'destructive',
+  CANCELLED: 'outline',
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export default function PublishingPage() {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [publishes, setPublishes] = useState<ScheduledPublish[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Schedule dialog state
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [remixes, setRemixes] = useState<ApprovedRemix[]>([])
+  const [accounts, setAccounts] = useState<UploadAccount[]>([])
+  const [remixId, setRemixId] = useState('')
+  const [accountId, setAccountId] = useState('')
+  const [scheduledFor, setScheduledFor] = useState('')
+  const [caption, setCaption] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const days = useMemo(() => eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  }), [month])
+
+  const fetchPublishes = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({
+        from: days[0].toISOString(),
+        to: addMonths(days[0], 2).toISOString(),
+      })
+      const response = await fetch(`/api/publish?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setPublishes(data.scheduledPublishes)
+      }
+    } catch (error) {
+      console.error('Failed to fetch scheduled publishes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchPublishes()
+  }, [fetchPublishes])
+
+  const openScheduleDialog = async (day?: Date) => {
+    const initial = day ?? new Date()
+    initial.setHours(day ? 12 : initial.getHours() + 1, 0, 0, 0)
+    setScheduledFor(format(initial, "yyyy-MM-dd'T'HH:mm"))
+    setRemixId('')
+    setCaption('')
+    setIsDialogOpen(true)
+
+    try {
+      const [remixesResponse, accountsResponse] = await Promise.all([
+        fetch('/api/remixes/all?approved=true&limit=100'),
+        fetch('/api/tiktok-accounts'),
+      ])
+      if (remixesResponse.ok) {
+        const data = await remixesResponse.json()
+        setRemixes(data.drafts)
+      }
+      if (accountsResponse.ok) {
+        const data = await accountsResponse.json()
+        const activeAccounts = (data.accounts as UploadAccount[]).filter(account => account.status === 'ACTIVE')
+        setAccounts(activeAccounts)
+        if (activeAccounts.length === 1) setAccountId(activeAccounts[0].id)
+      }
+    } catch (error) {
+      console.error('Failed to load remixes/accounts:', error)
+    }
+  }
+
+  const handleSchedule = async () => {
+    if (!remixId || !accountId || !scheduledFor) {
+      toast.error('Pick a remix, an account and a time')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch('/api/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          remixId,
+          accountId,
+          scheduledFor: new Date(scheduledFor).toISOString(),
+          description: caption || undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to schedule publish')
+        return
+      }
+
+      toast.success('Publish scheduled')
+      setIsDialogOpen(false)
+      fetchPublishes()
+    } catch (error) {
+      console.error('Failed to schedule publish:', error)
+      toast.error('Failed to schedule publish')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleAction = async (publish: ScheduledPublish, action: 'cancel' | 'retry') => {
+    try {
+      const response = action === 'cancel'
+        ? await fetch(`/api/publish/${publish.id}`, { method: 'DELETE' })
+        : await fetch(`/api/publish/${publish.id}/retry`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || `Failed to ${action} publish`)
+        return
+      }
+
+      toast.success(action === 'cancel' ? 'Publish cancelled' : 'Publish re-queued')
+      fetchPublishes()
+    } catch (error) {
+      console.error(`Failed to ${action} publish:`, error)
+      toast.error(`Failed to ${action} publish`)
+    }
+  }
+
+  return (
+    <PageLayout
+      title={
+        <div className="flex items-center gap-2">
+          <span>Publishing</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setMonth(subMonths(month, 1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium w-32 text-center">{format(month, 'MMMM yyyy')}</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      }
+      description="Approved remixes scheduled for upload to connected TikTok accounts"
+      headerActions={
+        <Button size="sm" className="h-8 px-3 text-xs" onClick={() => openScheduleDialog()}>
+          <Plus className="h-3 w-3 mr-1.5" />
+          Schedule
+        </Button>
+      }
+    >
+      <div className="grid grid-cols-7 border-l border-t flex-1 min-h-0 overflow-auto auto-rows-fr">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="border-r border-b px-2 py-1 text-xs font-medium text-muted-foreground bg-muted/40">
+            {weekday}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayPublishes = publishes.filter(publish => isSameDay(new Date(publish.scheduledFor), day))
+          return (
+            <div
+              key={day.toISOString()}
+              className={`border-r border-b p-1.5 min-h-[110px] flex flex-col gap-1 group ${isSameMonth(day, month) ? '' : 'bg-muted/20 text-muted-foreground'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={`text-xs ${isSameDay(day, new Date()) ? 'font-bold text-primary' : ''}`}>
+                  {format(day, 'd')}
+                </span>
+                <button
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                  onClick={() => openScheduleDialog(new Date(day))}
+                  title="Schedule on this day"
+                >
+                  <Plus className="h-3 w-3" />
+                </button>
+              </div>
+              {dayPublishes.map(publish => (
+                <div key={publish.id} className="rounded border bg-card px-1.5 py-1 text-xs space-y-0.5" title={publish.error ?? undefined}>
+                  <div className="flex items-center justify-between gap-1">
+                    <span className="font-medium">{format(new Date(publish.scheduledFor), 'HH:mm')}</span>
+                    <Badge variant={STATUS_VARIANTS[publish.status]} className="text-[10px] px-1 py-0 h-4">
+                      {publish.status.toLowerCase()}
+                    </Badge>
+                  </div>
+                  <div className="truncate">{publish.remix.name}</div>
+                  <div className="flex items-center justify-between gap-1 text-muted-foreground">
+                    <span className="truncate">@{publish.account.username ?? publish.account.displayName}</span>
+                    {publish.status === 'SCHEDULED' && (
+                      <button onClick={() => handleAction(publish, 'cancel')} title="Cancel">
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                    {publish.status === 'FAILED' && (
+                      <button onClick={() => handleAction(publish, 'retry')} title="Retry now">
+                        <RotateCcw className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Schedule Publish</DialogTitle>
+            <DialogDescription>
+              The slides are rendered and sent to the account&apos;s TikTok inbox at the scheduled time.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Approved remix</Label>
+              <Select value={remixId} onValueChange={setRemixId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={remixes.length ? 'Select a remix' : 'No approved remixes'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {remixes.map(remix => (
+                    <SelectItem key={remix.id} value={remix.id}>{remix.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>TikTok account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={accounts.length ? 'Select an account' : 'No active accounts'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map(account => (
+                    <SelectItem key={account.id} value={account.id}>
+                      @{account.username ?? account.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="scheduledFor">Publish at</Label>
+              <Input
+                id="scheduledFor"
+                type="datetime-local"
+                value={scheduledFor}
+                onChange={(e) => setScheduledFor(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="caption">Caption (optional)</Label>
+              <Textarea
+                id="caption"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+                placeholder="Defaults to the remix description"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSchedule} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </PageLayout>
+  )
+}
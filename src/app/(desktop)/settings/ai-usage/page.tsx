@@ -0,0 +1,424 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Bar, BarChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { RefreshCw, Loader2, DollarSign, Cpu, Trash2 } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import { useCurrentUser, roleAtLeast } from '@/hooks/use-current-user'
+import { formatCost, formatTokens } from '@/lib/cost-calculation-service'
+import { toast } from 'sonner'
+
+type BudgetPeriod = 'daily' | 'monthly'
+
+interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+interface UsageSummary {
+  days: number
+  totals: UsageTotals
+  byFeature: Array<UsageTotals & { feature: string }>
+  byModel: Array<UsageTotals & { model: string }>
+  byDay: Array<UsageTotals & { day: string }>
+}
+
+interface BudgetStatus {
+  period: BudgetPeriod
+  limitUsd: number
+  warnAtPercent: number
+  pauseQueues: boolean
+  enabled: boolean
+  spentUsd: number
+  percentUsed: number
+  state: 'ok' | 'warning' | 'exceeded'
+}
+
+interface BudgetForm {
+  limitUsd: string
+  warnAtPercent: string
+  pauseQueues: boolean
+  enabled: boolean
+}
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: 'Daily budget',
+  monthly: 'Monthly budget',
+}
+
+const STATE_BADGES: Record<BudgetStatus['state'], { label: string; className: string }> = {
+  ok: { label: 'Within budget', className: 'bg-green-500/10 text-green-600' },
+  warning: { label: 'Nearing limit', className: 'bg-orange-500/10 text-orange-600' },
+  exceeded: { label: 'Exceeded', className: 'bg-red-500/10 text-red-600' },
+}
+
+function toForm(budget?: BudgetStatus): BudgetForm {
+  return {
+    limitUsd: budget ? String(budget.limitUsd) : '',
+    warnAtPercent: String(budget?.warnAtPercent ?? 80),
+    pauseQueues: budget?.pauseQueues ?? true,
+    enabled: budget?.enabled ?? true,
+  }
+}
+
+function BudgetCard({
+  period,
+  budget,
+  canEdit,
+  onSaved,
+}: {
+  period: BudgetPeriod
+  budget?: BudgetStatus
+  canEdit: boolean
+  onSaved: () => void
+}) {
+  const [form, setForm] = useState<BudgetForm>(toForm(budget))
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setForm(toForm(budget))
+  }, [budget])
+
+  const handleSave = async () => {
+    const limitUsd = parseFloat(form.limitUsd)
+    if (!(limitUsd > 0)) {
+      toast.error('Enter a limit above $0')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/ai-usage/budgets', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          period,
+          limitUsd,
+          warnAtPercent: parseInt(form.warnAtPercent) || 80,
+          pauseQueues: form.pauseQueues,
+          enabled: form.enabled,
+        }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save budget')
+      }
+      toast.success(`${PERIOD_LABELS[period]} saved`)
+      onSaved()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save budget')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove the ${period} budget?`)) return
+
+    try {
+      const response = await fetch(`/api/ai-usage/budgets?period=${period}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to remove budget')
+      toast.success(`${PERIOD_LABELS[period]} removed`)
+      onSaved()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove budget')
+    }
+  }
+
+  const badge = budget && budget.enabled ? STATE_BADGES[budget.state] : null
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">{PERIOD_LABELS[period]}</h3>
+        {badge ? (
+          <Badge variant="secondary" className={`text-xs ${badge.className}`}>{badge.label}</Badge>
+        ) : (
+          <Badge variant="outline" className="text-xs">{budget ? 'Disabled' : 'Not set'}</Badge>
+        )}
+      </div>
+
+      {budget && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              Spent this {period === 'daily' ? 'day' : 'month'} (UTC)
+            </span>
+            <span className="font-medium">
+              {formatCost(budget.spentUsd)} / ${budget.limitUsd.toFixed(2)}
+            </span>
+          </div>
+          <Progress value={Math.min(budget.percentUsed, 100)} className="h-2" />
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor={`${period}-limit`} className="text-xs">Limit (USD)</Label>
+            <Input
+              id={`${period}-limit`}
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.limitUsd}
+              onChange={(e) => setForm(prev => ({ ...prev, limitUsd: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`${period}-warn`} className="text-xs">Warn at (%)</Label>
+            <Input
+              id={`${period}-warn`}
+              type="number"
+              min="1"
+              max="100"
+              value={form.warnAtPercent}
+              onChange={(e) => setForm(prev => ({ ...prev, warnAtPercent: e.target.value }))}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={form.pauseQueues}
+              onCheckedChange={(pauseQueues) => setForm(prev => ({ ...prev, pauseQueues }))}
+            />
+            Pause background AI jobs when exceeded
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm(prev => ({ ...prev, enabled }))}
+            />
+            Enabled
+          </label>
+          <div className="col-span-2 flex justify-end gap-2">
+            {budget && (
+              <Button variant="ghost" size="sm" onClick={handleRemove}>
+                <Trash2 className="h-3 w-3 mr-1.5" />
+                Remove
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function AiUsagePage() {
+  const currentUser = useCurrentUser()
+  const [days, setDays] = useState('30')
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([])
+  const [queuesPaused, setQueuesPaused] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [usageResponse, budgetsResponse] = await Promise.all([
+        fetch(`/api/ai-usage?days=${days}`),
+        fetch('/api/ai-usage/budgets'),
+      ])
+      if (usageResponse.status === 403) throw new Error('Only editors and admins can view AI usage')
+      if (!usageResponse.ok || !budgetsResponse.ok) throw new Error('Failed to fetch AI usage')
+
+      const budgetData = await budgetsResponse.json()
+      setUsage(await usageResponse.json())
+      setBudgets(budgetData.budgets)
+      setQueuesPaused(budgetData.queuesPaused)
+    } catch (error) {
+      console.error('Failed to fetch AI usage:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load AI usage')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const chartData = (usage?.byDay ?? []).map(point => ({
+    date: new Date(`${point.day}T00:00:00Z`).toLocaleDateString('en', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    cost: point.cost,
+    calls: point.calls,
+  }))
+
+  return (
+    <PageLayout
+      title="AI Usage"
+      description="Model calls, tokens and cost across every AI feature, and the budgets that cap them"
+      headerActions={
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={fetchData} disabled={isLoading} variant="outline" className="h-8 px-3 text-xs">
+            <RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      }
+    >
+      <div className="p-4 space-y-4">
+        {queuesPaused && (
+          <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3 text-sm text-red-600">
+            A budget is exceeded: background AI jobs (OCR) are paused until spend is back under the limit.
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="rounded-lg border border-border bg-card p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <div className="w-8 h-8 rounded-lg bg-green-500/10 flex items-center justify-center">
+                <DollarSign className="w-4 h-4 text-green-500" />
+              </div>
+              <span className="text-sm text-muted-foreground">Cost</span>
+            </div>
+            <div className="text-2xl font-bold">{formatCost(usage?.totals.cost ?? 0)}</div>
+          </div>
+          <div className="rounded-lg border border-border bg-card p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <div className="w-8 h-8 rounded-lg bg-blue-500/10 flex items-center justify-center">
+                <Cpu className="w-4 h-4 text-blue-500" />
+              </div>
+              <span className="text-sm text-muted-foreground">Model calls</span>
+            </div>
+            <div className="text-2xl font-bold">{usage?.totals.calls ?? 0}</div>
+          </div>
+          <div className="rounded-lg border border-border bg-card p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <div className="w-8 h-8 rounded-lg bg-purple-500/10 flex items-center justify-center">
+                <Cpu className="w-4 h-4 text-purple-500" />
+              </div>
+              <span className="text-sm text-muted-foreground">Tokens (in / out)</span>
+            </div>
+            <div className="text-2xl font-bold">
+              {formatTokens(usage?.totals.inputTokens ?? 0)} / {formatTokens(usage?.totals.outputTokens ?? 0)}
+            </div>
+          </div>
+        </div>
+
+        {/* Budgets */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {(['daily', 'monthly'] as const).map(period => (
+            <BudgetCard
+              key={period}
+              period={period}
+              budget={budgets.find(budget => budget.period === period)}
+              canEdit={roleAtLeast(currentUser?.role, 'admin')}
+              onSaved={fetchData}
+            />
+          ))}
+        </div>
+
+        {/* Cost by day */}
+        <div className="rounded-lg border border-border bg-card p-4">
+          <h3 className="text-base font-semibold mb-4">Cost by Day (UTC)</h3>
+          <ResponsiveContainer width="100%" height={220}>
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} className="text-muted-foreground" />
+              <YAxis
+                tick={{ fontSize: 11 }}
+                className="text-muted-foreground"
+                tickFormatter={(value) => `$${Number(value).toFixed(2)}`}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '6px',
+                  fontSize: '12px'
+                }}
+                formatter={(value: any, _name: string, props: any) => [
+                  `${formatCost(Number(value))} (${props.payload.calls} calls)`,
+                  ''
+                ]}
+                labelStyle={{ fontWeight: 600 }}
+              />
+              <Bar dataKey="cost" fill="#a855f7" radius={[3, 3, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Breakdown tables */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {([
+            { title: 'By Feature', rows: usage?.byFeature.map(row => ({ key: row.feature, ...row })) },
+            { title: 'By Model', rows: usage?.byModel.map(row => ({ key: row.model, ...row })) },
+          ]).map(({ title, rows }) => (
+            <div key={title} className="rounded-lg border border-border bg-card p-4">
+              <h3 className="text-base font-semibold mb-2">{title}</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{title === 'By Feature' ? 'Feature' : 'Model'}</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Tokens in / out</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!rows || rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No model calls in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map(row => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{row.key}</TableCell>
+                        <TableCell className="text-right">{row.calls}</TableCell>
+                        <TableCell className="text-right">
+                          {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Plus, Loader2, MoreHorizontal, Pencil, Trash2, BellOff, Bell } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import {
+  AlertRuleDialog,
+  type AlertRule,
+  METRIC_LABELS,
+  CONDITION_LABELS,
+} from '@/components/AlertRuleDialog'
+import { toast } from 'sonner'
+
+const SNOOZE_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+]
+
+const describeCondition = (rule: AlertRule): string => {
+  if (rule.condition === 'NEW_POST') {
+    return `New post within ${rule.maxPostAgeHours ?? 24}h`
+  }
+
+  const threshold = rule.metric === 'ENGAGEMENT_RATE' || rule.condition === 'GROWTH_PERCENT_ABOVE'
+    ? `${rule.threshold}%`
+    : rule.threshold.toLocaleString()
+  const window = rule.condition.startsWith('GROWTH') ? ` in ${rule.windowHours ?? 24}h` : ''
+
+  return `${METRIC_LABELS[rule.metric].replace(' (%)', '')} ${CONDITION_LABELS[rule.condition].replace(' (%)', '')} ${threshold}${window}`
+}
+
+const describeScope = (rule: AlertRule): string => {
+  if (rule.profile) return `@${rule.profile.handle}`
+  if (rule.profileGroup) return `Group: ${rule.profileGroup.name}`
+  if (rule.postCategory) return `Category: ${rule.postCategory.name}`
+  return 'All posts'
+}
+
+const describeChannels = (rule: AlertRule): string => {
+  const destinations = [
+    ...(rule.inApp ? ['In-app'] : []),
+    ...(rule.useDefaultChannels ? ['Default channels'] : []),
+    ...(rule.channels ?? []).map(channel => channel.name),
+  ]
+  return destinations.length > 0 ? destinations.join(', ') : 'No channels'
+}
+
+export default function AlertRulesPage() {
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  useEffect(() => {
+    fetchRules()
+  }, [])
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/alert-rules')
+      if (!response.ok) throw new Error('Failed to fetch alert rules')
+      const data = await response.json()
+      setRules(data.rules)
+    } catch (error) {
+      console.error('Failed to fetch alert rules:', error)
+      toast.error('Failed to load alert rules')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openDialog = (rule: AlertRule | null) => {
+    setEditingRule(rule)
+    setIsDialogOpen(true)
+  }
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled } : r))
+    try {
+      const response = await fetch(`/api/alert-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled }),
+      })
+      if (!response.ok) throw new Error('Failed to update alert rule')
+    } catch (error) {
+      console.error('Failed to toggle alert rule:', error)
+      toast.error('Failed to update alert rule')
+      fetchRules()
+    }
+  }
+
+  const handleSnooze = async (rule: AlertRule, hours: number | null) => {
+    try {
+      const response = await fetch(`/api/alert-rules/${rule.id}/snooze`, {
+        method: hours === null ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: hours === null ? undefined : JSON.stringify({ hours }),
+      })
+      if (!response.ok) throw new Error('Failed to snooze alert rule')
+      toast.success(hours === null ? `Resumed "${rule.name}"` : `Snoozed "${rule.name}"`)
+      fetchRules()
+    } catch (error) {
+      console.error('Failed to snooze alert rule:', error)
+      toast.error('Failed to snooze alert rule')
+    }
+  }
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete alert rule "${rule.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/alert-rules/${rule.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete alert rule')
+      setRules(prev => prev.filter(r => r.id !== rule.id))
+      toast.success('Alert rule deleted')
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error)
+      toast.error('Failed to delete alert rule')
+    }
+  }
+
+  const isSnoozed = (rule: AlertRule) =>
+    !!rule.snoozedUntil && new Date(rule.snoozedUntil) > new Date()
+
+  return (
+    <PageLayout
+      title="Alert Rules"
+      headerActions={
+        <Button onClick={() => openDialog(null)} className="h-8 px-3 text-xs">
+          <Plus className="h-3 w-3 mr-1.5" />
+          New Rule
+        </Button>
+      }
+    >
+      <div className="p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="rounded-lg border border-border bg-card p-12 text-center">
+            <Bell className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+            <h3 className="text-base font-semibold mb-1">No alert rules</h3>
+            <p className="text-sm text-muted-foreground">
+              Create a rule to get notified when posts cross a threshold or take off.
+            </p>
+          </div>
+        ) : (
+          rules.map(rule => (
+            <div key={rule.id} className="rounded-lg border border-border bg-card p-4 flex items-center gap-4">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(checked) => handleToggle(rule, checked)}
+              />
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium truncate">{rule.name}</span>
+                  {isSnoozed(rule) && (
+                    <Badge variant="secondary" className="text-xs">
+                      Snoozed until {new Date(rule.snoozedUntil!).toLocaleString()}
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {describeCondition(rule)} · {describeScope(rule)} · {describeChannels(rule)}
+                </div>
+              </div>
+
+              <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                <div>{rule._count?.events ?? 0} alerts</div>
+                <div>
+                  {rule.lastTriggeredAt
+                    ? `Last ${new Date(rule.lastTriggeredAt).toLocaleString()}`
+                    : 'Never triggered'}
+                </div>
+              </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-44">
+                  <DropdownMenuItem onClick={() => openDialog(rule)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  {isSnoozed(rule) ? (
+                    <DropdownMenuItem onClick={() => handleSnooze(rule, null)}>
+                      <Bell className="w-4 h-4 mr-2" />
+                      Resume
+                    </DropdownMenuItem>
+                  ) : (
+                    SNOOZE_OPTIONS.map(option => (
+                      <DropdownMenuItem key={option.hours} onClick={() => handleSnooze(rule, option.hours)}>
+                        <BellOff className="w-4 h-4 mr-2" />
+                        Snooze {option.label}
+                      </DropdownMenuItem>
+                    ))
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleDelete(rule)} className="text-destructive">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </div>
+
+      <AlertRuleDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        rule={editingRule}
+        onSuccess={fetchRules}
+      />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Plus, Loader2, MoreHorizontal, Pencil, Trash2, Palette } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import { BrandKitDialog } from '@/components/BrandKitDialog'
+import type { BrandKitSummary } from '@/hooks/use-brand-kits'
+import { toast } from 'sonner'
+
+interface BrandKitRow extends BrandKitSummary {
+  _count: { projects: number; productContexts: number }
+}
+
+const describeUsage = (kit: BrandKitRow): string => {
+  const parts = [
+    ...(kit._count.projects > 0 ? [`${kit._count.projects} project${kit._count.projects === 1 ? '' : 's'}`] : []),
+    ...(kit._count.productContexts > 0
+      ? [`${kit._count.productContexts} product${kit._count.productContexts === 1 ? '' : 's'}`]
+      : []),
+  ]
+  return parts.length > 0 ? `Used by ${parts.join(', ')}` : 'Not attached'
+}
+
+export default function BrandKitsPage() {
+  const [brandKits, setBrandKits] = useState<BrandKitRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingKit, setEditingKit] = useState<BrandKitRow | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  useEffect(() => {
+    fetchBrandKits()
+  }, [])
+
+  const fetchBrandKits = async () => {
+    try {
+      const response = await fetch('/api/brand-kits')
+      if (!response.ok) throw new Error('Failed to fetch brand kits')
+      const data = await response.json()
+      setBrandKits(data.brandKits)
+    } catch (error) {
+      console.error('Failed to fetch brand kits:', error)
+      toast.error('Failed to load brand kits')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const openDialog = (kit: BrandKitRow | null) => {
+    setEditingKit(kit)
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (kit: BrandKitRow) => {
+    if (!confirm(`Delete brand kit "${kit.name}"? Projects and products using it will no longer be branded.`)) return
+
+    try {
+      const response = await fetch(`/api/brand-kits/${kit.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete brand kit')
+      setBrandKits(prev => prev.filter(k => k.id !== kit.id))
+      toast.success('Brand kit deleted')
+    } catch (error) {
+      console.error('Failed to delete brand kit:', error)
+      toast.error('Failed to delete brand kit')
+    }
+  }
+
+  return (
+    <PageLayout
+      title="Brand Kits"
+      headerActions={
+        <Button onClick={() => openDialog(null)} className="h-8 px-3 text-xs">
+          <Plus className="h-3 w-3 mr-1.5" />
+          New Brand Kit
+        </Button>
+      }
+    >
+      <div className="p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : brandKits.length === 0 ? (
+          <div className="rounded-lg border border-border bg-card p-12 text-center">
+            <Palette className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+            <h3 className="text-base font-semibold mb-1">No brand kits</h3>
+            <p className="text-sm text-muted-foreground">
+              Create a kit with your colors, fonts and text styles, then attach it to a project or product.
+            </p>
+          </div>
+        ) : (
+          brandKits.map(kit => (
+            <div key={kit.id} className="rounded-lg border border-border bg-card p-4 flex items-center gap-4">
+              <div className="flex -space-x-1.5">
+                {kit.palette.length > 0 ? kit.palette.slice(0, 5).map(color => (
+                  <span
+                    key={color}
+                    className="h-7 w-7 rounded-full border-2 border-background"
+                    style={{ backgroundColor: color }}
+                  />
+                )) : (
+                  <span className="h-7 w-7 rounded-full border-2 border-dashed border-border" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium truncate">{kit.name}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    {kit.textStyles.length} style{kit.textStyles.length === 1 ? '' : 's'}
+                  </Badge>
+                </div>
+                <div className="text-sm text-muted-foreground truncate">
+                  {[kit.headingFont, kit.bodyFont].filter(Boolean).join(' / ') || 'No fonts'}
+                  {' · '}
+                  {kit.logoAssetIds.length} logo{kit.logoAssetIds.length === 1 ? '' : 's'}
+                  {' · '}
+                  {describeUsage(kit)}
+                </div>
+              </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-40">
+                  <DropdownMenuItem onClick={() => openDialog(kit)}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleDelete(kit)} className="text-destructive">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </div>
+
+      <BrandKitDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        brandKit={editingKit}
+        onSuccess={fetchBrandKits}
+      />
+    </PageLayout>
+  )
+}
@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Plus, Loader2, MoreHorizontal, Pencil, Trash2, Send, RotateCw, RefreshCw } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import {
+  NotificationChannelDialog,
+  CHANNEL_TYPE_LABELS,
+  type NotificationChannel,
+  type NotificationChannelType,
+} from '@/components/NotificationChannelDialog'
+import { toast } from 'sonner'
+
+type DeliveryStatus = 'PENDING' | 'SENT' | 'RETRYING' | 'FAILED'
+
+interface NotificationDelivery {
+  id: string
+  status: DeliveryStatus
+  attempts: number
+  lastError: string | null
+  sentAt: string | null
+  createdAt: string
+  payload: { title?: string }
+  channel: { id: string; name: string; type: NotificationChannelType }
+}
+
+const STATUS_VARIANTS: Record<DeliveryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  SENT: 'default',
+  RETRYING: 'secondary',
+  FAILED: 'destructive',
+}
+
+export default function NotificationChannelsPage() {
+  const [channels, setChannels] = useState<NotificationChannel[]>([])
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [retryingId, setRetryingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAll()
+  }, [])
+
+  const fetchChannels = async () => {
+    try {
+      const response = await fetch('/api/notification-channels')
+      if (!response.ok) throw new Error('Failed to fetch notification channels')
+      const data = await response.json()
+      setChannels(data.channels)
+    } catch (error) {
+      console.error('Failed to fetch notification channels:', error)
+      toast.error('Failed to load notification channels')
+    }
+  }
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch('/api/notification-deliveries?limit=50')
+      if (!response.ok) throw new Error('Failed to fetch deliveries')
+      const data = await response.json()
+      setDeliveries(data.deliveries)
+    } catch (error) {
+      console.error('Failed to fetch notification deliveries:', error)
+      toast.error('Failed to load delivery log')
+    }
+  }
+
+  const fetchAll = async () => {
+    await Promise.all([fetchChannels(), fetchDeliveries()])
+    setIsLoading(false)
+  }
+
+  const openDialog = (channel: NotificationChannel | null) => {
+    setEditingChannel(channel)
+    setIsDialogOpen(true)
+  }
+
+  const handleUpdate = async (channel: NotificationChannel, data: Partial<Pick<NotificationChannel, 'enabled' | 'isDefault'>>) => {
+    setChannels(prev => prev.map(c => c.id === channel.id ? { ...c, ...data } : c))
+    try {
+      const response = await fetch(`/api/notification-channels/${channel.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+      if (!response.ok) throw new Error('Failed to update channel')
+    } catch (error) {
+      console.error('Failed to update notification channel:', error)
+      toast.error('Failed to update channel')
+      fetchChannels()
+    }
+  }
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setTestingId(channel.id)
+    try {
+      const response = await fetch(`/api/notification-channels/${channel.id}/test`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send test notification')
+      }
+
+      toast.success(result.message || 'Test notification sent successfully!')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test notification')
+    } finally {
+      setTestingId(null)
+      fetchDeliveries()
+    }
+  }
+
+  const handleRetry = async (delivery: NotificationDelivery) => {
+    setRetryingId(delivery.id)
+    try {
+      const response = await fetch(`/api/notification-deliveries/${delivery.id}/retry`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Retry failed')
+      }
+
+      toast.success('Notification delivered')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Retry failed')
+    } finally {
+      setRetryingId(null)
+      fetchDeliveries()
+    }
+  }
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete channel "${channel.name}" and its delivery log?`)) return
+
+    try {
+      const response = await fetch(`/api/notification-channels/${channel.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to delete channel')
+      setChannels(prev => prev.filter(c => c.id !== channel.id))
+      setDeliveries(prev => prev.filter(d => d.channel.id !== channel.id))
+      toast.success('Channel deleted')
+    } catch (error) {
+      console.error('Failed to delete notification channel:', error)
+      toast.error('Failed to delete channel')
+    }
+  }
+
+  return (
+    <PageLayout
+      title="Notification Channels"
+      headerActions={
+        <Button onClick={() => openDialog(null)} className="h-8 px-3 text-xs">
+          <Plus className="h-3 w-3 mr-1.5" />
+          New Channel
+        </Button>
+      }
+    >
+      <div className="p-4 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {channels.length === 0 ? (
+                <div className="rounded-lg border border-border bg-card p-12 text-center">
+                  <Send className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+                  <h3 className="text-base font-semibold mb-1">No notification channels</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Add a Discord, Slack, Telegram, email or webhook channel to receive alerts outside the app.
+                  </p>
+                </div>
+              ) : (
+                channels.map(channel => (
+                  <div key={channel.id} className="rounded-lg border border-border bg-card p-4 flex items-center gap-4">
+                    <Switch
+                      checked={channel.enabled}
+                      onCheckedChange={(checked) => handleUpdate(channel, { enabled: checked })}
+                    />
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-medium truncate">{channel.name}</span>
+                        <Badge variant="outline" className="text-xs">{CHANNEL_TYPE_LABELS[channel.type]}</Badge>
+                        {channel.isDefault && (
+                          <Badge variant="secondary" className="text-xs">Default</Badge>
+                        )}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {channel._count?.alertRules ?? 0} alert rules · {channel._count?.deliveries ?? 0} deliveries
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleTest(channel)}
+                      disabled={testingId === channel.id || !channel.enabled}
+                    >
+                      {testingId === channel.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="w-4 h-4 mr-2" />
+                      )}
+                      Test
+                    </Button>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm">
+                          <MoreHorizontal className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-44">
+                        <DropdownMenuItem onClick={() => openDialog(channel)}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleUpdate(channel, { isDefault: !channel.isDefault })}>
+                          <Send className="w-4 h-4 mr-2" />
+                          {channel.isDefault ? 'Remove from defaults' : 'Make default'}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => handleDelete(channel)} className="text-destructive">
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Recent deliveries</h3>
+                <Button variant="ghost" size="sm" onClick={fetchDeliveries}>
+                  <RefreshCw className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing has been delivered yet.</p>
+              ) : (
+                <div className="rounded-lg border border-border bg-card divide-y divide-border">
+                  {deliveries.map(delivery => (
+                    <div key={delivery.id} className="p-3 flex items-center gap-3 text-sm">
+                      <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-xs w-20 justify-center">
+                        {delivery.status.toLowerCase()}
+                      </Badge>
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate">{delivery.payload.title ?? 'Notification'}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {delivery.channel.name} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                          {delivery.lastError && ` · ${delivery.lastError}`}
+                        </div>
+                      </div>
+                      <div className="text-xs text-muted-foreground whitespace-nowrap">
+                        {new Date(delivery.sentAt ?? delivery.createdAt).toLocaleString()}
+                      </div>
+                      {delivery.status === 'FAILED' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetry(delivery)}
+                          disabled={retryingId === delivery.id}
+                        >
+                          {retryingId === delivery.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <RotateCw className="w-4 h-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <NotificationChannelDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        channel={editingChannel}
+        onSuccess={fetchChannels}
+      />
+    </PageLayout>
+  )
+}
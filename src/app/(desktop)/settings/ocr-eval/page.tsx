@@ -0,0 +1,629 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { RefreshCw, Loader2, Play, Plus, Pencil, Trash2, X } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import { OcrEvalCaseDialog } from '@/components/OcrEvalCaseDialog'
+import {
+  EVAL_SLIDE_TYPES,
+  type CaseScore,
+  type EvalSlideType,
+  type OcrEvalReport
+} from '@/lib/ocr-eval-metrics'
+import { toast } from 'sonner'
+
+type OcrPromptKey = 'ocr' | 'ocr-slide-type-rules' | 'ocr-text-rules'
+
+interface EvalCaseRow {
+  id: string
+  category: string | null
+  notes: string | null
+  slides: Array<{ imageIndex: number; slideType: EvalSlideType; ocrText: string }>
+  updatedAt: string
+  post: {
+    id: string
+    tiktokUrl: string
+    authorHandle: string | null
+    imageCount: number
+  }
+}
+
+interface EvalRunRow {
+  id: string
+  model: string
+  promptVersionIds: Partial<Record<OcrPromptKey, string>>
+  notes: string | null
+  status: 'pending' | 'running' | 'completed' | 'failed'
+  caseCount: number
+  completedCount: number
+  report: OcrEvalReport | null
+  error: string | null
+  createdAt: string
+  createdBy: { id: string; name: string | null; email: string } | null
+}
+
+interface EvalResultRow {
+  id: string
+  score: CaseScore | null
+  error: string | null
+  predicted: { category: string | null } | null
+  evalCase: {
+    id: string
+    category: string | null
+    post: { id: string; tiktokUrl: string; authorHandle: string | null }
+  }
+}
+
+interface EvalRunDetail extends EvalRunRow {
+  results: EvalResultRow[]
+}
+
+interface PromptVersionOption {
+  id: string
+  version: number
+  notes: string | null
+  isActive: boolean
+}
+
+const PROMPT_KEYS: Array<{ key: OcrPromptKey; label: string }> = [
+  { key: 'ocr', label: 'OCR instructions' },
+  { key: 'ocr-slide-type-rules', label: 'Slide type rules' },
+  { key: 'ocr-text-rules', label: 'Text rules' },
+]
+
+// Select value for "whatever version is pinned (or latest) when the run starts"
+const ACTIVE = 'active'
+
+const SLIDE_TYPE_SHORT: Record<EvalSlideType, string> = {
+  hook: 'H',
+  content: 'C',
+  cta: 'T',
+}
+
+const STATUS_VARIANTS: Record<EvalRunRow['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+}
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`
+
+export default function OcrEvalPage() {
+  const [cases, setCases] = useState<EvalCaseRow[]>([])
+  const [runs, setRuns] = useState<EvalRunRow[]>([])
+  const [promptVersions, setPromptVersions] = useState<Partial<Record<OcrPromptKey, PromptVersionOption[]>>>({})
+  const [selectedRun, setSelectedRun] = useState<EvalRunDetail | null>(null)
+  const [editingCaseId, setEditingCaseId] = useState<string | null>(null)
+  const [newPost, setNewPost] = useState('')
+  const [model, setModel] = useState('')
+  const [runNotes, setRunNotes] = useState('')
+  const [versionChoice, setVersionChoice] = useState<Record<OcrPromptKey, string>>({
+    'ocr': ACTIVE,
+    'ocr-slide-type-rules': ACTIVE,
+    'ocr-text-rules': ACTIVE,
+  })
+  const [isLoading, setIsLoading] = useState(true)
+  const [isAdding, setIsAdding] = useState(false)
+  const [isStarting, setIsStarting] = useState(false)
+
+  const hasActiveRuns = runs.some(run => run.status === 'pending' || run.status === 'running')
+
+  // Version id -> "vN" for the run table
+  const versionLabels = useMemo(() => {
+    const labels = new Map<string, string>()
+    for (const versions of Object.values(promptVersions)) {
+      for (const version of versions ?? []) labels.set(version.id, `v${version.version}`)
+    }
+    return labels
+  }, [promptVersions])
+
+  const fetchCases = async () => {
+    const response = await fetch('/api/ocr-eval/cases')
+    if (response.status === 403) throw new Error('Only editors and admins can run OCR evaluations')
+    if (!response.ok) throw new Error('Failed to fetch gold set')
+    const data = await response.json()
+    setCases(data.cases)
+  }
+
+  const fetchRuns = async () => {
+    const response = await fetch('/api/ocr-eval/runs')
+    if (!response.ok) throw new Error('Failed to fetch eval runs')
+    const data = await response.json()
+    setRuns(data.runs)
+  }
+
+  const fetchPromptVersions = async () => {
+    const entries = await Promise.all(PROMPT_KEYS.map(async ({ key }) => {
+      const response = await fetch(`/api/prompt-templates/${key}`)
+      if (!response.ok) return [key, []] as const
+      const data = await response.json()
+      return [key, data.template.versions as PromptVersionOption[]] as const
+    }))
+    setPromptVersions(Object.fromEntries(entries))
+  }
+
+  const fetchRun = async (id: string) => {
+    try {
+      const response = await fetch(`/api/ocr-eval/runs/${id}`)
+      if (!response.ok) throw new Error('Failed to fetch eval run')
+      const data = await response.json()
+      setSelectedRun(data.run)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load eval run')
+    }
+  }
+
+  const refresh = async () => {
+    setIsLoading(true)
+    try {
+      await Promise.all([fetchCases(), fetchRuns(), fetchPromptVersions()])
+    } catch (error) {
+      console.error('Failed to load OCR evaluation:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load OCR evaluation')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  // Poll while runs are queued or executing
+  useEffect(() => {
+    if (!hasActiveRuns) return
+
+    const interval = setInterval(() => {
+      fetchRuns().catch(error => console.error('Failed to refresh eval runs:', error))
+    }, 5000)
+    return () => clearInterval(interval)
+  }, [hasActiveRuns])
+
+  const handleAddCase = async () => {
+    if (!newPost.trim()) return
+
+    setIsAdding(true)
+    try {
+      const response = await fetch('/api/ocr-eval/cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ post: newPost.trim() }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add post')
+      }
+
+      toast.success('Post added - check its labels before running an evaluation')
+      setNewPost('')
+      await fetchCases()
+      setEditingCaseId(data.case.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add post')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleDeleteCase = async (evalCase: EvalCaseRow) => {
+    if (!confirm(`Remove @${evalCase.post.authorHandle ?? 'unknown'}'s post from the gold set? Its results in past runs are deleted too.`)) return
+
+    try {
+      const response = await fetch(`/api/ocr-eval/cases/${evalCase.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error('Failed to remove post')
+      toast.success('Post removed from the gold set')
+      await fetchCases()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove post')
+    }
+  }
+
+  const handleStartRun = async () => {
+    setIsStarting(true)
+    try {
+      const promptVersionIds = Object.fromEntries(
+        PROMPT_KEYS
+          .filter(({ key }) => versionChoice[key] !== ACTIVE)
+          .map(({ key }) => [key, versionChoice[key]])
+      )
+
+      const response = await fetch('/api/ocr-eval/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: model.trim() || undefined,
+          promptVersionIds,
+          notes: runNotes.trim() || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to start evaluation')
+      }
+
+      toast.success(`Evaluating ${data.run.caseCount} posts on ${data.run.model}`)
+      setRunNotes('')
+      await fetchRuns()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start evaluation')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const promptSummary = (run: EvalRunRow) =>
+    PROMPT_KEYS
+      .map(({ key }) => run.promptVersionIds[key])
+      .map(id => id ? versionLabels.get(id) ?? '?' : 'active')
+      .join(' / ')
+
+  return (
+    <PageLayout
+      title="OCR Evaluation"
+      description="Score OCR and slide classification against a labeled gold set before changing the model or pinning a prompt."
+      headerActions={
+        <Button onClick={refresh} disabled={isLoading} variant="outline" className="h-8 px-3 text-xs">
+          <RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      }
+    >
+      <div className="p-4 space-y-4">
+        {/* New run */}
+        <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+          <div>
+            <h3 className="text-base font-semibold">New Evaluation</h3>
+            <p className="text-sm text-muted-foreground">
+              Replays OCR on every gold set post with this model and these prompt versions. Posts are not updated.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="eval-model" className="text-xs">Model</Label>
+              <Input
+                id="eval-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="Configured OCR model"
+              />
+            </div>
+            {PROMPT_KEYS.map(({ key, label }) => (
+              <div key={key} className="space-y-1.5">
+                <Label className="text-xs">{label}</Label>
+                <Select
+                  value={versionChoice[key]}
+                  onValueChange={(value) => setVersionChoice(prev => ({ ...prev, [key]: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ACTIVE}>Version in use</SelectItem>
+                    {(promptVersions[key] ?? []).map(version => (
+                      <SelectItem key={version.id} value={version.id}>
+                        v{version.version}{version.notes ? ` - ${version.notes}` : ''}{version.isActive ? ' (in use)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="space-y-1.5">
+              <Label htmlFor="eval-notes" className="text-xs">Notes</Label>
+              <Input
+                id="eval-notes"
+                value={runNotes}
+                onChange={(e) => setRunNotes(e.target.value)}
+                placeholder="e.g. Stricter CTA rules"
+              />
+            </div>
+          </div>
+          <Button size="sm" onClick={handleStartRun} disabled={isStarting || cases.length === 0}>
+            {isStarting ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" /> : <Play className="h-3 w-3 mr-1.5" />}
+            Evaluate {cases.length} posts
+          </Button>
+        </div>
+
+        {/* Runs */}
+        <div className="rounded-lg border border-border bg-card p-4">
+          <h3 className="text-base font-semibold mb-2">Runs</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>Prompts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Slide type</TableHead>
+                <TableHead className="text-right">Category</TableHead>
+                <TableHead className="text-right">Text</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-muted-foreground">
+                    No evaluations yet
+                  </TableCell>
+                </TableRow>
+              ) : runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(run.createdAt).toLocaleString()}
+                    {run.notes && <div className="text-xs text-foreground">{run.notes}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm font-medium">{run.model}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{promptSummary(run)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[run.status]} className="text-xs" title={run.error ?? undefined}>
+                      {run.status === 'running' ? `${run.completedCount}/${run.caseCount}` : run.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{percent(run.report?.slideAccuracy)}</TableCell>
+                  <TableCell className="text-right text-sm">{percent(run.report?.categoryAccuracy)}</TableCell>
+                  <TableCell className="text-right text-sm">{percent(run.report?.textSimilarity)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => fetchRun(run.id)}
+                      disabled={!run.report}
+                    >
+                      Report
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {selectedRun?.report && (
+          <RunReport run={selectedRun} report={selectedRun.report} onClose={() => setSelectedRun(null)} />
+        )}
+
+        {/* Gold set */}
+        <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="text-base font-semibold">Gold Set</h3>
+              <p className="text-sm text-muted-foreground">
+                Carousel posts with checked labels. New posts start from their current OCR output - correct it before relying on the scores.
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Input
+                value={newPost}
+                onChange={(e) => setNewPost(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddCase()}
+                placeholder="Post ID or TikTok URL"
+                className="h-8 w-72 text-xs"
+              />
+              <Button size="sm" className="h-8" onClick={handleAddCase} disabled={isAdding || !newPost.trim()}>
+                {isAdding ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" /> : <Plus className="h-3 w-3 mr-1.5" />}
+                Add
+              </Button>
+            </div>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Post</TableHead>
+                <TableHead>Slides</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cases.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                    {isLoading ? 'Loading gold set...' : 'No posts in the gold set yet'}
+                  </TableCell>
+                </TableRow>
+              ) : cases.map(evalCase => (
+                <TableRow key={evalCase.id}>
+                  <TableCell className="text-sm">
+                    <a href={evalCase.post.tiktokUrl} target="_blank" rel="noreferrer" className="hover:underline">
+                      @{evalCase.post.authorHandle ?? 'unknown'}
+                    </a>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {evalCase.slides.map(slide => SLIDE_TYPE_SHORT[slide.slideType]).join(' ')}
+                  </TableCell>
+                  <TableCell className="text-sm">{evalCase.category ?? '—'}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{evalCase.notes || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditingCaseId(evalCase.id)}>
+                        <Pencil className="h-3 w-3 mr-1" />
+                        Labels
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDeleteCase(evalCase)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <OcrEvalCaseDialog
+        caseId={editingCaseId}
+        onClose={() => setEditingCaseId(null)}
+        onSuccess={fetchCases}
+      />
+    </PageLayout>
+  )
+}
+
+function RunReport({ run, report, onClose }: { run: EvalRunDetail; report: OcrEvalReport; onClose: () => void }) {
+  const metrics = [
+    { label: 'Slide type accuracy', value: percent(report.slideAccuracy) },
+    { label: 'Category accuracy', value: percent(report.categoryAccuracy) },
+    { label: 'Text similarity', value: percent(report.textSimilarity) },
+    { label: 'Exact text', value: percent(report.exactTextRate) },
+  ]
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-semibold">Report - {run.model}</h3>
+          <p className="text-sm text-muted-foreground">
+            {report.cases} posts and {report.slides} slides scored
+            {report.failedCases > 0 && `, ${report.failedCases} posts failed`}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        {metrics.map(metric => (
+          <div key={metric.label} className="rounded-lg border border-border p-3">
+            <div className="text-xs text-muted-foreground">{metric.label}</div>
+            <div className="text-2xl font-bold">{metric.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Confusion matrix</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Labeled \ Predicted</TableHead>
+                {EVAL_SLIDE_TYPES.map(type => (
+                  <TableHead key={type} className="text-right capitalize">{type}</TableHead>
+                ))}
+                <TableHead className="text-right">Missing</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {EVAL_SLIDE_TYPES.map(expected => (
+                <TableRow key={expected}>
+                  <TableCell className="font-medium capitalize">{expected}</TableCell>
+                  {[...EVAL_SLIDE_TYPES, 'missing' as const].map(predicted => (
+                    <TableCell
+                      key={predicted}
+                      className={`text-right ${predicted === expected ? 'font-semibold text-green-600' : report.confusionMatrix[expected][predicted] ? 'text-red-600' : 'text-muted-foreground'}`}
+                    >
+                      {report.confusionMatrix[expected][predicted]}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Per slide type</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Precision</TableHead>
+                <TableHead className="text-right">Recall</TableHead>
+                <TableHead className="text-right">F1</TableHead>
+                <TableHead className="text-right">Slides</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {EVAL_SLIDE_TYPES.map(type => (
+                <TableRow key={type}>
+                  <TableCell className="font-medium capitalize">{type}</TableCell>
+                  <TableCell className="text-right">{percent(report.perClass[type].precision)}</TableCell>
+                  <TableCell className="text-right">{percent(report.perClass[type].recall)}</TableCell>
+                  <TableCell className="text-right">{percent(report.perClass[type].f1)}</TableCell>
+                  <TableCell className="text-right">{report.perClass[type].support}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Posts</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Post</TableHead>
+              <TableHead>Labeled</TableHead>
+              <TableHead>Predicted</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Slide type</TableHead>
+              <TableHead className="text-right">Text</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {run.results.map(result => (
+              <TableRow key={result.id}>
+                <TableCell className="text-sm">
+                  <a href={result.evalCase.post.tiktokUrl} target="_blank" rel="noreferrer" className="hover:underline">
+                    @{result.evalCase.post.authorHandle ?? 'unknown'}
+                  </a>
+                </TableCell>
+                {result.error || !result.score ? (
+                  <TableCell colSpan={5} className="text-sm text-red-600">{result.error ?? 'Not scored'}</TableCell>
+                ) : (
+                  <>
+                    <TableCell className="font-mono text-xs">
+                      {result.score.slides.map(slide => SLIDE_TYPE_SHORT[slide.expectedType]).join(' ')}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {result.score.slides.map((slide, index) => (
+                        <span key={index} className={slide.predictedType === slide.expectedType ? '' : 'text-red-600 font-semibold'}>
+                          {slide.predictedType ? SLIDE_TYPE_SHORT[slide.predictedType] : '-'}{' '}
+                        </span>
+                      ))}
+                    </TableCell>
+                    <TableCell className={`text-sm ${result.score.categoryMatch === false ? 'text-red-600' : ''}`}>
+                      {result.predicted?.category ?? '—'}
+                      {result.score.categoryMatch === false && result.evalCase.category && (
+                        <span className="text-xs text-muted-foreground"> (expected {result.evalCase.category})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{percent(result.score.slideAccuracy)}</TableCell>
+                    <TableCell className="text-right text-sm">{percent(result.score.textSimilarity)}</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
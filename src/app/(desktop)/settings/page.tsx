@@ -2,8 +2,9 @@
 
 import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
-import { RefreshCw, Play, ScanText, CheckCircle2, XCircle, Clock, Loader2, Bell } from 'lucide-react'
+import { RefreshCw, Play, ScanText, CheckCircle2, XCircle, Clock, Loader2, Bell, Send, Users, Palette, DollarSign, FileText, FlaskConical } from 'lucide-react'
 import { PageLayout } from '@/components/PageLayout'
+import Link from 'next/link'
 import { toast } from 'sonner'
 
 interface OCRStats {
@@ -38,7 +39,6 @@ export default function AdminOCRPage() {
   const [queueStats, setQueueStats] = useState<QueueStats | null>(null)
   const [loading, setLoading] = useState(false)
   const [queueing, setQueueing] = useState(false)
-  const [sendingNotification, setSendingNotification] = useState(false)
 
   const fetchStats = async () => {
     setLoading(true)
@@ -84,27 +84,6 @@ export default function AdminOCRPage() {
     }
   }
 
-  const sendTestNotification = async () => {
-    setSendingNotification(true)
-
-    try {
-      const response = await fetch('/api/admin/notifications/test', {
-        method: 'POST'
-      })
-      const result = await response.json()
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to send test notification')
-      }
-
-      toast.success(result.message || 'Test notification sent successfully!')
-    } catch (err) {
-      toast.error(err instanceof Error ? err.message : 'Failed to send test notification')
-    } finally {
-      setSendingNotification(false)
-    }
-  }
-
   useEffect(() => {
     fetchStats()
   }, [])
@@ -265,30 +244,101 @@ export default function AdminOCRPage() {
           )}
         </div>
 
-        {/* Test Notification Card */}
+        {/* Alert Rules Card */}
         <div className="rounded-lg border border-border bg-card p-6">
-          <h3 className="text-base font-semibold mb-2">Test Discord Notification</h3>
+          <h3 className="text-base font-semibold mb-2">Alert Rules</h3>
           <p className="text-sm text-muted-foreground mb-4">
-            Send a test notification to your Discord webhook to verify the integration is working correctly.
+            Choose which post metrics, thresholds and growth rates trigger notifications after each monitoring run.
           </p>
-          <Button
-            onClick={sendTestNotification}
-            disabled={sendingNotification}
-            size="lg"
-            className="w-full"
-            variant="secondary"
-          >
-            {sendingNotification ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Sending Test Notification...
-              </>
-            ) : (
-              <>
-                <Bell className="mr-2 h-4 w-4" />
-                Send Test Notification
-              </>
-            )}
+          <Button asChild size="lg" className="w-full" variant="outline">
+            <Link href="/settings/alerts">
+              <Bell className="mr-2 h-4 w-4" />
+              Manage Alert Rules
+            </Link>
+          </Button>
+        </div>
+
+        {/* Notification Channels Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">Notification Channels</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Configure Discord, Slack, Telegram, email and webhook destinations, send test messages and review delivery logs.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="secondary">
+            <Link href="/settings/notifications">
+              <Send className="mr-2 h-4 w-4" />
+              Manage Channels
+            </Link>
+          </Button>
+        </div>
+
+        {/* Brand Kits Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">Brand Kits</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Palettes, fonts, text styles, logos and backgrounds applied to new drafts of a project or product.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="secondary">
+            <Link href="/settings/brand-kits">
+              <Palette className="mr-2 h-4 w-4" />
+              Manage Brand Kits
+            </Link>
+          </Button>
+        </div>
+
+        {/* AI Usage Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">AI Usage &amp; Budgets</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Cost of every model call by feature and day, and daily or monthly budgets that pause background AI jobs when exceeded.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="outline">
+            <Link href="/settings/ai-usage">
+              <DollarSign className="mr-2 h-4 w-4" />
+              View AI Usage
+            </Link>
+          </Button>
+        </div>
+
+        {/* Prompts Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">Prompts</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Edit the prompt templates used for generation, paraphrasing, OCR and auto-fill, compare versions and pin the one in use.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="outline">
+            <Link href="/settings/prompts">
+              <FileText className="mr-2 h-4 w-4" />
+              Manage Prompts
+            </Link>
+          </Button>
+        </div>
+
+        {/* OCR Evaluation Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">OCR Evaluation</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Label a gold set of carousels and score OCR text, slide types and categories for a model or prompt version before rolling it out.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="outline">
+            <Link href="/settings/ocr-eval">
+              <FlaskConical className="mr-2 h-4 w-4" />
+              Open OCR Evaluation
+            </Link>
+          </Button>
+        </div>
+
+        {/* Users Card */}
+        <div className="rounded-lg border border-border bg-card p-6">
+          <h3 className="text-base font-semibold mb-2">Users</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Invite teammates and choose their role: admin, editor, reviewer or viewer. Admin only.
+          </p>
+          <Button asChild size="lg" className="w-full" variant="outline">
+            <Link href="/settings/users">
+              <Users className="mr-2 h-4 w-4" />
+              Manage Users
+            </Link>
           </Button>
         </div>
       </div>
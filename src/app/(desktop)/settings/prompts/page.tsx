@@ -0,0 +1,408 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { RefreshCw, Loader2, Pin, PinOff, GitCompare, RotateCcw, Save, X } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import { useCurrentUser, roleAtLeast } from '@/hooks/use-current-user'
+import { diffLines, type LineDiff } from '@/lib/prompts/template'
+import { toast } from 'sonner'
+
+interface TemplateSummary {
+  key: string
+  title: string
+  description: string
+  feature: string
+  pinnedVersionId: string | null
+  activeVersion: number | null
+  latestVersion: number | null
+}
+
+interface VersionSummary {
+  id: string
+  version: number
+  body: string
+  notes: string | null
+  createdAt: string
+  createdBy: { id: string; name: string | null; email: string } | null
+  isPinned: boolean
+  isActive: boolean
+}
+
+interface TemplateDetail extends TemplateSummary {
+  variables: Record<string, string>
+  defaultTemplate: string
+  versions: VersionSummary[]
+}
+
+interface Comparison {
+  title: string
+  diff: LineDiff[]
+}
+
+const DIFF_LINE_CLASSES: Record<LineDiff['type'], string> = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-500/10 text-green-700',
+  removed: 'bg-red-500/10 text-red-700',
+}
+
+const DIFF_LINE_PREFIX: Record<LineDiff['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+}
+
+function DiffView({ comparison, onClose }: { comparison: Comparison; onClose?: () => void }) {
+  const changed = comparison.diff.filter(line => line.type !== 'same').length
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">{comparison.title}</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {changed === 0 ? 'No changes' : `${changed} changed line${changed === 1 ? '' : 's'}`}
+          </span>
+          {onClose && (
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <pre className="max-h-[420px] overflow-auto rounded border border-border text-xs font-mono leading-5">
+        {comparison.diff.map((line, index) => (
+          <div key={index} className={`px-2 whitespace-pre-wrap ${DIFF_LINE_CLASSES[line.type]}`}>
+            {DIFF_LINE_PREFIX[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
+
+export default function PromptsPage() {
+  const currentUser = useCurrentUser()
+  const canEdit = roleAtLeast(currentUser?.role, 'admin')
+  const [templates, setTemplates] = useState<TemplateSummary[]>([])
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [detail, setDetail] = useState<TemplateDetail | null>(null)
+  const [body, setBody] = useState('')
+  const [notes, setNotes] = useState('')
+  const [pinOnSave, setPinOnSave] = useState(false)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const activeVersion = detail?.versions.find(version => version.isActive)
+  const hasChanges = !!activeVersion && body !== activeVersion.body
+
+  const fetchTemplates = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/prompt-templates')
+      if (response.status === 403) throw new Error('Only editors and admins can view prompts')
+      if (!response.ok) throw new Error('Failed to fetch prompts')
+
+      const data = await response.json()
+      setTemplates(data.templates)
+      setSelectedKey(prev => prev ?? data.templates[0]?.key ?? null)
+    } catch (error) {
+      console.error('Failed to fetch prompts:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load prompts')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const fetchDetail = async (key: string) => {
+    try {
+      const response = await fetch(`/api/prompt-templates/${key}`)
+      if (!response.ok) throw new Error('Failed to fetch prompt')
+
+      const data = await response.json()
+      const template: TemplateDetail = data.template
+      setDetail(template)
+      setBody(template.versions.find(version => version.isActive)?.body ?? template.defaultTemplate)
+      setNotes('')
+      setPinOnSave(!!template.pinnedVersionId)
+      setComparison(null)
+    } catch (error) {
+      console.error('Failed to fetch prompt:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load prompt')
+    }
+  }
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  useEffect(() => {
+    if (selectedKey) fetchDetail(selectedKey)
+  }, [selectedKey])
+
+  const refresh = async () => {
+    await fetchTemplates()
+    if (selectedKey) await fetchDetail(selectedKey)
+  }
+
+  const handleSave = async () => {
+    if (!detail) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/prompt-templates/${detail.key}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body, notes: notes || undefined, pin: pinOnSave }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save prompt')
+      }
+      toast.success(`Saved ${detail.title} v${result.version.version}`)
+      await refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save prompt')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handlePin = async (versionId: string | null) => {
+    if (!detail) return
+
+    try {
+      const response = await fetch(`/api/prompt-templates/${detail.key}/pin`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId }),
+      })
+      if (!response.ok) throw new Error('Failed to pin version')
+      toast.success(versionId ? 'Version pinned' : 'Unpinned - the latest version is used')
+      await refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to pin version')
+    }
+  }
+
+  const handleCompare = async (version: VersionSummary) => {
+    if (!detail) return
+
+    try {
+      const response = await fetch(`/api/prompt-templates/${detail.key}/versions/${version.id}`)
+      if (!response.ok) throw new Error('Failed to compare versions')
+
+      const data = await response.json()
+      setComparison({
+        title: data.compareTo ? `v${data.compareTo.version} → v${version.version}` : `v${version.version} (first version)`,
+        diff: data.diff,
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to compare versions')
+    }
+  }
+
+  const editorDiff = useMemo<Comparison | null>(() => {
+    if (!activeVersion || !hasChanges) return null
+    return { title: `Unsaved changes against v${activeVersion.version}`, diff: diffLines(activeVersion.body, body) }
+  }, [activeVersion, body, hasChanges])
+
+  return (
+    <PageLayout
+      title="Prompts"
+      description="Versioned prompt templates used by the AI features. Generation uses the pinned version, or the latest when none is pinned."
+      headerActions={
+        <Button onClick={refresh} disabled={isLoading} variant="outline" className="h-8 px-3 text-xs">
+          <RefreshCw className={`h-3 w-3 mr-1.5 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      }
+    >
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-4">
+        {/* Template list */}
+        <div className="rounded-lg border border-border bg-card p-2 space-y-1 h-fit">
+          {templates.map(template => (
+            <button
+              key={template.key}
+              onClick={() => setSelectedKey(template.key)}
+              className={`w-full rounded-md px-3 py-2 text-left transition-colors ${
+                template.key === selectedKey ? 'bg-accent' : 'hover:bg-accent/50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{template.title}</span>
+                {template.activeVersion && (
+                  <Badge variant="outline" className="text-xs shrink-0">
+                    {template.pinnedVersionId && <Pin className="h-2.5 w-2.5 mr-1" />}
+                    v{template.activeVersion}
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">{template.feature}</div>
+            </button>
+          ))}
+        </div>
+
+        {detail ? (
+          <div className="space-y-4 min-w-0">
+            {/* Editor */}
+            <div className="rounded-lg border border-border bg-card p-4 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-base font-semibold">{detail.title}</h3>
+                  <p className="text-sm text-muted-foreground">{detail.description}</p>
+                </div>
+                {activeVersion && (
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    Using v{activeVersion.version} {detail.pinnedVersionId ? '(pinned)' : '(latest)'}
+                  </Badge>
+                )}
+              </div>
+
+              {Object.keys(detail.variables).length > 0 && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Variables</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+                    {Object.entries(detail.variables).map(([name, description]) => (
+                      <div key={name} className="text-xs">
+                        <code className="rounded bg-muted px-1 py-0.5">{`{{${name}}}`}</code>{' '}
+                        <span className="text-muted-foreground">{description}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Wrap text in <code>{'{{#name}}...{{/name}}'}</code> to include it only when a variable is set, or{' '}
+                    <code>{'{{^name}}...{{/name}}'}</code> when it is not.
+                  </p>
+                </div>
+              )}
+
+              <Textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                readOnly={!canEdit}
+                rows={22}
+                className="font-mono text-xs"
+              />
+
+              {canEdit && (
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="flex-1 min-w-[220px] space-y-1.5">
+                    <Label htmlFor="prompt-notes" className="text-xs">What changed</Label>
+                    <Input
+                      id="prompt-notes"
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="e.g. Shorter hook rules"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm h-9">
+                    <Switch checked={pinOnSave} onCheckedChange={setPinOnSave} />
+                    Pin new version
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-9"
+                    onClick={() => setBody(detail.defaultTemplate)}
+                    disabled={body === detail.defaultTemplate}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1.5" />
+                    Built-in
+                  </Button>
+                  <Button size="sm" className="h-9" onClick={handleSave} disabled={isSaving || !hasChanges}>
+                    {isSaving ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" /> : <Save className="h-3 w-3 mr-1.5" />}
+                    Save as v{(detail.latestVersion ?? 0) + 1}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {editorDiff && <DiffView comparison={editorDiff} />}
+            {comparison && <DiffView comparison={comparison} onClose={() => setComparison(null)} />}
+
+            {/* Versions */}
+            <div className="rounded-lg border border-border bg-card p-4">
+              <h3 className="text-base font-semibold mb-2">Versions</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Version</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Created</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.versions.map(version => (
+                    <TableRow key={version.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1.5">
+                          v{version.version}
+                          {version.isPinned && <Pin className="h-3 w-3 text-primary" />}
+                          {version.isActive && (
+                            <Badge variant="secondary" className="text-xs">In use</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{version.notes || '—'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {version.createdBy ? version.createdBy.name || version.createdBy.email : 'System'}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(version.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleCompare(version)}>
+                            <GitCompare className="h-3 w-3 mr-1" />
+                            Diff
+                          </Button>
+                          {canEdit && (
+                            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setBody(version.body)}>
+                              Load
+                            </Button>
+                          )}
+                          {canEdit && (version.isPinned ? (
+                            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handlePin(null)}>
+                              <PinOff className="h-3 w-3 mr-1" />
+                              Unpin
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handlePin(version.id)}>
+                              <Pin className="h-3 w-3 mr-1" />
+                              Pin
+                            </Button>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border bg-card p-8 text-center text-sm text-muted-foreground">
+            {isLoading ? 'Loading prompts...' : 'Select a prompt'}
+          </div>
+        )}
+      </div>
+    </PageLayout>
+  )
+}
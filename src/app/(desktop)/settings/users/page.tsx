@@ -0,0 +1,313 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Plus, Loader2, MoreHorizontal, KeyRound, Trash2, Users } from 'lucide-react'
+import { PageLayout } from '@/components/PageLayout'
+import { useCurrentUser, type UserRole } from '@/hooks/use-current-user'
+import { toast } from 'sonner'
+
+interface User {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+  isActive: boolean
+  lastLoginAt: string | null
+  createdAt: string
+}
+
+const ROLE_OPTIONS: Array<{ value: UserRole; label: string; description: string }> = [
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access' },
+  { value: 'reviewer', label: 'Reviewer', description: 'Can approve drafts' },
+  { value: 'editor', label: 'Editor', description: 'Can create and edit content' },
+  { value: 'admin', label: 'Admin', description: 'Manages users, accounts and channels' },
+]
+
+export default function UsersPage() {
+  const currentUser = useCurrentUser()
+  const [users, setUsers] = useState<User[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [form, setForm] = useState({ email: '', name: '', password: '', role: 'viewer' as UserRole })
+
+  useEffect(() => {
+    fetchUsers()
+  }, [])
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users')
+      if (response.status === 403) throw new Error('Only admins can manage users')
+      if (!response.ok) throw new Error('Failed to fetch users')
+      const data = await response.json()
+      setUsers(data.users)
+    } catch (error) {
+      console.error('Failed to fetch users:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load users')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateUser = async (user: User, data: Partial<Pick<User, 'role' | 'isActive'>> & { password?: string }) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to update user')
+      return true
+    } catch (error) {
+      console.error('Failed to update user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update user')
+      return false
+    } finally {
+      fetchUsers()
+    }
+  }
+
+  const handleResetPassword = async (user: User) => {
+    const password = prompt(`New password for ${user.email} (at least 8 characters)`)
+    if (!password) return
+    if (password.length < 8) {
+      toast.error('Password must be at least 8 characters')
+      return
+    }
+
+    if (await updateUser(user, { password })) {
+      toast.success('Password changed - the user was signed out everywhere')
+    }
+  }
+
+  const handleDelete = async (user: User) => {
+    if (!confirm(`Delete ${user.email}? Content they created is kept.`)) return
+
+    try {
+      const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to delete user')
+      setUsers(prev => prev.filter(u => u.id !== user.id))
+      toast.success('User deleted')
+    } catch (error) {
+      console.error('Failed to delete user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to delete user')
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, name: form.name.trim() || null }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to create user')
+      }
+      toast.success(`Created ${result.user.email}`)
+      setIsDialogOpen(false)
+      setForm({ email: '', name: '', password: '', role: 'viewer' })
+      fetchUsers()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create user')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <PageLayout
+      title="Users"
+      description="Who can sign in and what they are allowed to do"
+      headerActions={
+        <Button onClick={() => setIsDialogOpen(true)} className="h-8 px-3 text-xs">
+          <Plus className="h-3 w-3 mr-1.5" />
+          New User
+        </Button>
+      }
+    >
+      <div className="p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : users.length === 0 ? (
+          <div className="rounded-lg border border-border bg-card p-12 text-center">
+            <Users className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+            <h3 className="text-base font-semibold mb-1">No users to show</h3>
+            <p className="text-sm text-muted-foreground">
+              Users are only visible to admins.
+            </p>
+          </div>
+        ) : (
+          users.map(user => (
+            <div key={user.id} className="rounded-lg border border-border bg-card p-4 flex items-center gap-4">
+              <Switch
+                checked={user.isActive}
+                disabled={user.id === currentUser?.id}
+                onCheckedChange={(isActive) => updateUser(user, { isActive })}
+              />
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="font-medium truncate">{user.name || user.email}</span>
+                  {user.id === currentUser?.id && (
+                    <Badge variant="secondary" className="text-xs">You</Badge>
+                  )}
+                  {!user.isActive && (
+                    <Badge variant="outline" className="text-xs">Deactivated</Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground truncate">{user.email}</div>
+              </div>
+
+              <div className="text-right text-xs text-muted-foreground whitespace-nowrap">
+                {user.lastLoginAt
+                  ? `Last sign-in ${new Date(user.lastLoginAt).toLocaleString()}`
+                  : 'Never signed in'}
+              </div>
+
+              <Select
+                value={user.role}
+                onValueChange={(role) => updateUser(user, { role: role as UserRole })}
+              >
+                <SelectTrigger className="h-8 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-44">
+                  <DropdownMenuItem onClick={() => handleResetPassword(user)}>
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Set password
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => handleDelete(user)}
+                    disabled={user.id === currentUser?.id}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>New User</DialogTitle>
+            <DialogDescription>
+              Share the password with them directly - they can sign in right away.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="user-email">Email</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name <span className="text-muted-foreground">(Optional)</span></Label>
+              <Input
+                id="user-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-password">Password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm(prev => ({ ...prev, password: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(role) => setForm(prev => ({ ...prev, role: role as UserRole }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} · <span className="text-muted-foreground">{option.description}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving || !form.email || form.password.length < 8}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create User
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </PageLayout>
+  )
+}
@@ -3,7 +3,8 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { Plus, Trash2, CheckCircle, XCircle, Loader2 } from 'lucide-react'
+import { Plus, Trash2, CheckCircle, XCircle, Loader2, Ban, RefreshCw, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,6 +26,10 @@ interface TikTokAccount {
   connectedAt: string
   lastUsedAt: string | null
   tokenExpiresAt: string
+  refreshExpiresAt: string
+  lastRefreshedAt: string | null
+  lastHealthCheckAt: string | null
+  healthError: string | null
   isExpired: boolean
 }
 
@@ -34,6 +39,7 @@ export default function TikTokAccountsPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [deleteAccountId, setDeleteAccountId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [checkingAccountId, setCheckingAccountId] = useState<string | null>(null)
 
   useEffect(() => {
     fetchAccounts()
@@ -74,6 +80,40 @@ export default function TikTokAccountsPage() {
     }
   }
 
+  const handleHealthCheck = async (accountId: string) => {
+    setCheckingAccountId(accountId)
+    try {
+      const response = await fetch(`/api/tiktok-accounts/${accountId}/health`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Health check failed')
+      } else if (data.result.status !== 'ACTIVE') {
+        toast.error('Account needs to be reconnected')
+      } else {
+        toast.success(data.result.refreshed ? 'Token refreshed' : 'Account is healthy')
+      }
+
+      await fetchAccounts()
+    } catch (error) {
+      console.error('Failed to check account health:', error)
+      toast.error('Health check failed')
+    } finally {
+      setCheckingAccountId(null)
+    }
+  }
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -165,11 +205,21 @@ export default function TikTokAccountsPage() {
                         <h3 className="font-semibold truncate">
                           {account.displayName || account.username || `TikTok User (${account.openId.substring(0, 8)}...)`}
                         </h3>
-                        {account.isExpired || account.status === 'EXPIRED' ? (
+                        {account.status === 'REVOKED' ? (
+                          <span className="flex items-center gap-1 text-xs text-destructive bg-destructive/10 px-2 py-0.5 rounded-full flex-shrink-0">
+                            <Ban className="h-3 w-3" />
+                            Revoked
+                          </span>
+                        ) : account.status === 'EXPIRED' ? (
                           <span className="flex items-center gap-1 text-xs text-destructive bg-destructive/10 px-2 py-0.5 rounded-full flex-shrink-0">
                             <XCircle className="h-3 w-3" />
                             Expired
                           </span>
+                        ) : account.healthError || account.isExpired ? (
+                          <span className="flex items-center gap-1 text-xs text-amber-600 bg-amber-600/10 px-2 py-0.5 rounded-full flex-shrink-0">
+                            <AlertTriangle className="h-3 w-3" />
+                            Needs refresh
+                          </span>
                         ) : (
                           <span className="flex items-center gap-1 text-xs text-green-600 bg-green-600/10 px-2 py-0.5 rounded-full flex-shrink-0">
                             <CheckCircle className="h-3 w-3" />
@@ -186,9 +236,21 @@ export default function TikTokAccountsPage() {
                         {account.lastUsedAt && (
                           <p>Last used: {formatDate(account.lastUsedAt)}</p>
                         )}
-                        {account.isExpired && (
+                        <p>
+                          Token {account.isExpired ? 'expired' : 'expires'}: {formatDateTime(account.tokenExpiresAt)}
+                          {account.lastRefreshedAt && ` · Last refreshed: ${formatDateTime(account.lastRefreshedAt)}`}
+                        </p>
+                        {account.lastHealthCheckAt && (
+                          <p className="text-xs">Last checked: {formatDateTime(account.lastHealthCheckAt)}</p>
+                        )}
+                        {account.healthError && (
+                          <p className="text-destructive text-xs break-words">
+                            Last refresh failed: {account.healthError}
+                          </p>
+                        )}
+                        {account.status !== 'ACTIVE' && (
                           <p className="text-destructive text-xs">
-                            Token expired - please reconnect this account
+                            {account.status === 'REVOKED' ? 'Access revoked' : 'Token expired'} - please reconnect this account
                           </p>
                         )}
                       </div>
@@ -196,14 +258,36 @@ export default function TikTokAccountsPage() {
                   </div>
 
                   {/* Actions */}
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => setDeleteAccountId(account.id)}
-                    className="text-destructive hover:text-destructive hover:bg-destructive/10 flex-shrink-0"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {account.status !== 'REVOKED' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleHealthCheck(account.id)}
+                        disabled={checkingAccountId === account.id}
+                        title="Check health now"
+                      >
+                        <RefreshCw className={`h-4 w-4 ${checkingAccountId === account.id ? 'animate-spin' : ''}`} />
+                      </Button>
+                    )}
+                    {account.status !== 'ACTIVE' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => router.push('/tiktok-accounts/connect')}
+                      >
+                        Reconnect
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteAccountId(account.id)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </div>
             ))}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatDistanceToNow } from 'date-fns'
+import { Hash, Loader2, Music, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageLayout } from '@/components/PageLayout'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatCompactNumber } from '@/lib/stats-calculator'
+
+type TrendType = 'sounds' | 'hashtags'
+type TrendSort = 'viewsGained24h' | 'viewsGained7d' | 'momentum' | 'recentPostCount' | 'postCount'
+
+interface TrendItem {
+  id: string
+  name?: string
+  title?: string | null
+  author?: string | null
+  postCount: number
+  recentPostCount: number
+  totalViews: number
+  viewsGained24h: number
+  viewsGained7d: number
+  momentum: number
+  lastPostedAt: string | null
+  statsUpdatedAt: string | null
+}
+
+const SORT_OPTIONS: Array<{ value: TrendSort; label: string }> = [
+  { value: 'viewsGained24h', label: 'Views gained (24h)' },
+  { value: 'viewsGained7d', label: 'Views gained (7d)' },
+  { value: 'momentum', label: 'Momentum' },
+  { value: 'recentPostCount', label: 'New posts (7d)' },
+  { value: 'postCount', label: 'Total posts' },
+]
+
+function MomentumBadge({ momentum }: { momentum: number }) {
+  if (momentum === 0) {
+    return <span className="text-muted-foreground">—</span>
+  }
+
+  // 1× means the last 24h matched the 7-day daily average
+  const variant = momentum >= 1.5 ? 'default' : momentum >= 1 ? 'secondary' : 'outline'
+  return <Badge variant={variant} className="text-xs">{momentum.toFixed(2)}×</Badge>
+}
+
+export default function TrendingPage() {
+  const [type, setType] = useState<TrendType>('sounds')
+  const [sort, setSort] = useState<TrendSort>('viewsGained24h')
+  const [search, setSearch] = useState('')
+  const [items, setItems] = useState<TrendItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const fetchTrends = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ type, sort, limit: '100' })
+      if (search.trim()) params.set('search', search.trim())
+
+      const response = await fetch(`/api/trends?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch trends')
+      const data = await response.json()
+      setItems(data.items)
+    } catch (error) {
+      console.error('Failed to fetch trends:', error)
+      toast.error('Failed to load trends')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [type, sort, search])
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchTrends, 300)
+    return () => clearTimeout(timeout)
+  }, [fetchTrends])
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    try {
+      const response = await fetch('/api/trends/refresh', { method: 'POST' })
+      if (!response.ok) throw new Error('Failed to queue trend refresh')
+      toast.success('Trend refresh queued', {
+        description: 'Stats update in the background, reload in a minute'
+      })
+    } catch (error) {
+      toast.error('Failed to queue trend refresh', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  const statsUpdatedAt = items.find(item => item.statsUpdatedAt)?.statsUpdatedAt
+
+  return (
+    <PageLayout
+      title="Trending now"
+      description={
+        statsUpdatedAt
+          ? `Sounds and hashtags across monitored posts · updated ${formatDistanceToNow(new Date(statsUpdatedAt), { addSuffix: true })}`
+          : 'Sounds and hashtags across monitored posts'
+      }
+      headerActions={
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleRefresh} disabled={isRefreshing}>
+          {isRefreshing
+            ? <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+            : <RefreshCw className="w-3 h-3 mr-1.5" />}
+          Refresh stats
+        </Button>
+      }
+    >
+      <div className="flex items-center gap-2 pt-4 px-4 flex-wrap">
+        <Tabs value={type} onValueChange={(value) => setType(value as TrendType)}>
+          <TabsList>
+            <TabsTrigger value="sounds" className="gap-1.5 text-xs">
+              <Music className="w-3 h-3" />
+              Sounds
+            </TabsTrigger>
+            <TabsTrigger value="hashtags" className="gap-1.5 text-xs">
+              <Hash className="w-3 h-3" />
+              Hashtags
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Input
+          placeholder={type === 'sounds' ? 'Search sounds...' : 'Search hashtags...'}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="h-8 w-56 text-xs"
+        />
+        <Select value={sort} onValueChange={(value) => setSort(value as TrendSort)}>
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto px-4 pb-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-16">
+            No {type} indexed yet. They are picked up from posts on every monitoring run.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">#</TableHead>
+                <TableHead>{type === 'sounds' ? 'Sound' : 'Hashtag'}</TableHead>
+                <TableHead className="text-right">Views (24h)</TableHead>
+                <TableHead className="text-right">Views (7d)</TableHead>
+                <TableHead className="text-right">Momentum</TableHead>
+                <TableHead className="text-right">New posts (7d)</TableHead>
+                <TableHead className="text-right">Posts</TableHead>
+                <TableHead className="text-right">Total views</TableHead>
+                <TableHead className="text-right">Last posted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => {
+                const postsHref = type === 'sounds'
+                  ? `/?soundId=${item.id}`
+                  : `/?hashtag=${encodeURIComponent(item.name ?? '')}`
+
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-muted-foreground text-xs">{index + 1}</TableCell>
+                    <TableCell>
+                      <Link href={postsHref} className="hover:underline">
+                        {type === 'sounds' ? (
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium truncate max-w-xs">{item.title || 'Untitled sound'}</div>
+                            {item.author && (
+                              <div className="text-xs text-muted-foreground truncate max-w-xs">{item.author}</div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm font-medium">#{item.name}</span>
+                        )}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{formatCompactNumber(item.viewsGained24h)}</TableCell>
+                    <TableCell className="text-right text-sm">{formatCompactNumber(item.viewsGained7d)}</TableCell>
+                    <TableCell className="text-right"><MomentumBadge momentum={item.momentum} /></TableCell>
+                    <TableCell className="text-right text-sm">{item.recentPostCount}</TableCell>
+                    <TableCell className="text-right text-sm">{item.postCount}</TableCell>
+                    <TableCell className="text-right text-sm">{formatCompactNumber(item.totalViews)}</TableCell>
+                    <TableCell className="text-right text-xs text-muted-foreground">
+                      {item.lastPostedAt ? formatDistanceToNow(new Date(item.lastPostedAt), { addSuffix: true }) : '—'}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </PageLayout>
+  )
+}
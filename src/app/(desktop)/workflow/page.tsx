@@ -0,0 +1,275 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { DndContext, PointerSensor, useDraggable, useDroppable, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core'
+import { Loader2, MessageSquare, UserCircle2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { PageLayout } from '@/components/PageLayout'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RemixReviewDialog } from '@/components/RemixReviewDialog'
+import { useCurrentUser, roleAtLeast } from '@/hooks/use-current-user'
+import { cn } from '@/lib/utils'
+import {
+  WORKFLOW_LABELS,
+  canTransition,
+  requiredRoleForTransition,
+  type WorkflowStatus,
+} from '@/lib/remix-workflow'
+
+interface BoardRemix {
+  id: string
+  name: string
+  workflowStatus: WorkflowStatus
+  updatedAt: string
+  project: { id: string; name: string; color: string | null } | null
+  session: { id: string; name: string } | null
+  reviewer: { id: string; name: string | null; email: string } | null
+  openComments: number
+}
+
+interface BoardColumn {
+  status: WorkflowStatus
+  remixes: BoardRemix[]
+}
+
+const ALL = 'all'
+
+export default function WorkflowPage() {
+  const currentUser = useCurrentUser()
+  const [columns, setColumns] = useState<BoardColumn[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([])
+  const [projectId, setProjectId] = useState(ALL)
+  const [sessionId, setSessionId] = useState(ALL)
+  const [reviewerFilter, setReviewerFilter] = useState(ALL)
+  const [reviewDraftId, setReviewDraftId] = useState<string | null>(null)
+
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }))
+
+  const fetchBoard = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+      if (projectId !== ALL) params.set('projectId', projectId)
+      if (sessionId !== ALL) params.set('sessionId', sessionId)
+      if (reviewerFilter !== ALL) params.set('reviewerId', reviewerFilter)
+
+      const response = await fetch(`/api/workflow/board?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch board')
+      const data = await response.json()
+      setColumns(data.columns)
+    } catch (error) {
+      console.error('Failed to fetch workflow board:', error)
+      toast.error('Failed to load board')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [projectId, sessionId, reviewerFilter])
+
+  useEffect(() => {
+    fetchBoard()
+  }, [fetchBoard])
+
+  useEffect(() => {
+    fetch('/api/projects?limit=100')
+      .then(response => response.ok ? response.json() : { projects: [] })
+      .then(data => setProjects(data.projects || []))
+      .catch(error => console.error('Failed to fetch projects:', error))
+  }, [])
+
+  // Sessions are only known from the drafts on the board
+  const sessions = useMemo(() => {
+    const byId = new Map<string, string>()
+    columns.forEach(column => column.remixes.forEach(remix => {
+      if (remix.session) byId.set(remix.session.id, remix.session.name)
+    }))
+    return [...byId].map(([id, name]) => ({ id, name }))
+  }, [columns])
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const remix = event.active.data.current?.remix as BoardRemix | undefined
+    const to = event.over?.id as WorkflowStatus | undefined
+    if (!remix || !to || remix.workflowStatus === to) return
+
+    if (!canTransition(remix.workflowStatus, to)) {
+      toast.error(`Cannot move from ${WORKFLOW_LABELS[remix.workflowStatus]} to ${WORKFLOW_LABELS[to]}`)
+      return
+    }
+
+    const requiredRole = requiredRoleForTransition(remix.workflowStatus, to)
+    if (!roleAtLeast(currentUser?.role, requiredRole)) {
+      toast.error(`Only ${requiredRole}s can move drafts to ${WORKFLOW_LABELS[to]}`)
+      return
+    }
+
+    // Optimistic move
+    const previous = columns
+    setColumns(prev => prev.map(column => ({
+      ...column,
+      remixes: column.status === to
+        ? [{ ...remix, workflowStatus: to }, ...column.remixes]
+        : column.remixes.filter(item => item.id !== remix.id),
+    })))
+
+    try {
+      const response = await fetch(`/api/remixes/${remix.id}/workflow`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: to }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to move draft')
+    } catch (error) {
+      setColumns(previous)
+      toast.error(error instanceof Error ? error.message : 'Failed to move draft')
+    }
+  }
+
+  return (
+    <PageLayout
+      title="Workflow"
+      description="Drafts by review stage across all projects"
+      headerActions={
+        <div className="flex items-center gap-2">
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sessionId} onValueChange={setSessionId}>
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue placeholder="Session" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sessions</SelectItem>
+              {sessions.map(session => (
+                <SelectItem key={session.id} value={session.id}>{session.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={reviewerFilter} onValueChange={setReviewerFilter}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any reviewer</SelectItem>
+              <SelectItem value="me">Assigned to me</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          <div className="flex gap-3 p-4 overflow-x-auto h-full">
+            {columns.map(column => (
+              <WorkflowColumn key={column.status} column={column} onOpen={setReviewDraftId} />
+            ))}
+          </div>
+        </DndContext>
+      )}
+
+      {reviewDraftId && (
+        <RemixReviewDialog
+          open={!!reviewDraftId}
+          onClose={() => setReviewDraftId(null)}
+          draftId={reviewDraftId}
+          onWorkflowChange={fetchBoard}
+        />
+      )}
+    </PageLayout>
+  )
+}
+
+function WorkflowColumn({ column, onOpen }: { column: BoardColumn; onOpen: (id: string) => void }) {
+  const { setNodeRef, isOver } = useDroppable({ id: column.status })
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'w-64 shrink-0 rounded-lg border bg-muted/30 flex flex-col',
+        isOver && 'border-primary bg-primary/5'
+      )}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="text-sm font-medium">{WORKFLOW_LABELS[column.status]}</span>
+        <Badge variant="secondary" className="text-xs">{column.remixes.length}</Badge>
+      </div>
+      <div className="p-2 space-y-2 overflow-y-auto flex-1">
+        {column.remixes.map(remix => (
+          <WorkflowCard key={remix.id} remix={remix} onOpen={onOpen} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function WorkflowCard({ remix, onOpen }: { remix: BoardRemix; onOpen: (id: string) => void }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: remix.id,
+    data: { remix },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpen(remix.id)}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={cn(
+        'rounded-md border bg-card p-2.5 text-xs space-y-1.5 cursor-grab shadow-sm',
+        isDragging && 'opacity-70 shadow-lg z-10 relative'
+      )}
+    >
+      <div className="font-medium text-sm leading-snug line-clamp-2">{remix.name}</div>
+      {(remix.project || remix.session) && (
+        <div className="flex flex-wrap gap-1">
+          {remix.project && (
+            <Link
+              href={`/projects/${remix.project.id}`}
+              onClick={(e) => e.stopPropagation()}
+              className="inline-flex items-center gap-1 rounded bg-muted px-1.5 py-0.5 hover:underline"
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: remix.project.color || '#94a3b8' }} />
+              {remix.project.name}
+            </Link>
+          )}
+          {remix.session && (
+            <span className="rounded bg-muted px-1.5 py-0.5 text-muted-foreground">{remix.session.name}</span>
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <span className="flex items-center gap-1 truncate">
+          <UserCircle2 className="h-3 w-3 shrink-0" />
+          {remix.reviewer ? remix.reviewer.name || remix.reviewer.email : 'No reviewer'}
+        </span>
+        {remix.openComments > 0 && (
+          <span className="ml-auto flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            {remix.openComments}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { ocrQueue } from '@/lib/queue/ocr-queue'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -9,6 +10,9 @@ const prisma = new PrismaClient()
  * Queue OCR jobs for all photo posts that haven't been OCR'd yet
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     console.log(`🔍 [AdminOCR] Finding photo posts without OCR...`)
 
@@ -86,6 +90,9 @@ export async function POST(request: NextRequest) {
  * Get statistics about posts needing OCR and current queue status
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     console.log(`🔍 [AdminOCR] Getting OCR statistics...`)
 
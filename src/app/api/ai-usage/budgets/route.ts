@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { aiUsageService, shouldPauseAiQueues } from '@/lib/ai-usage-service'
+import { aiBudgetQueue } from '@/lib/queue/ai-budget-queue'
+import { AiBudgetPeriodSchema, UpsertAiBudgetSchema } from '@/lib/validations/ai-budget-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/ai-usage/budgets
+ * Budgets with spend in their current period, for the settings page and the
+ * over-budget banner
+ */
+export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const budgets = await aiUsageService.getBudgetStatus()
+
+    return NextResponse.json({ budgets, queuesPaused: shouldPauseAiQueues(budgets) })
+  } catch (error) {
+    console.error('Failed to fetch AI budgets:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch AI budgets' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/ai-usage/budgets
+ * Create or update the daily or monthly budget; queues are paused or resumed
+ * right away instead of at the next budget sweep
+ */
+export async function PUT(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = UpsertAiBudgetSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { period, ...data } = validation.data
+    const budget = await aiUsageService.upsertBudget(period, data)
+    await aiBudgetQueue.addCheckJob('budget-updated')
+
+    console.log(`💰 [AiUsage] ${period} budget set to $${budget.limitUsd} by ${auth.user.id}`)
+
+    return NextResponse.json({ budget })
+  } catch (error) {
+    console.error('Failed to update AI budget:', error)
+    return NextResponse.json(
+      { error: 'Failed to update AI budget' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/ai-usage/budgets?period=daily
+ * Remove a budget
+ */
+export async function DELETE(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const validation = AiBudgetPeriodSchema.safeParse(request.nextUrl.searchParams.get('period'))
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    await aiUsageService.deleteBudget(validation.data)
+    await aiBudgetQueue.addCheckJob('budget-deleted')
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete AI budget:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete AI budget' },
+      { status: 500 }
+    )
+  }
+}
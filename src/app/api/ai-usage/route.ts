@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { aiUsageService } from '@/lib/ai-usage-service'
+import { requireRole } from '@/lib/auth'
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+/**
+ * GET /api/ai-usage?days=30
+ * AI spend over the last N days by feature, model and day
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const requested = parseInt(request.nextUrl.searchParams.get('days') || String(DEFAULT_DAYS))
+    const days = Number.isNaN(requested) ? DEFAULT_DAYS : Math.min(Math.max(requested, 1), MAX_DAYS)
+
+    const summary = await aiUsageService.getUsageSummary(days)
+
+    return NextResponse.json({ days, ...summary })
+  } catch (error) {
+    console.error('Failed to fetch AI usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch AI usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { UpdateAlertRuleSchema } from '@/lib/validations/alert-rule-schema'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+// PATCH /api/alert-rules/[id] - Update an alert rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = UpdateAlertRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.alertRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    const { channelIds, ...data } = validation.data
+
+    const rule = await prisma.alertRule.update({
+      where: { id },
+      data: {
+        ...data,
+        channels: channelIds ? { set: channelIds.map(channelId => ({ id: channelId })) } : undefined
+      }
+    })
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Failed to update alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/alert-rules/[id] - Delete an alert rule and its firing history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+
+    const existing = await prisma.alertRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 })
+    }
+
+    await prisma.alertRule.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    )
+  }
+}
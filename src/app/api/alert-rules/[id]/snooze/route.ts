@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { alertEngine } from '@/lib/alert-engine'
+import { SnoozeAlertRuleSchema } from '@/lib/validations/alert-rule-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/alert-rules/[id]/snooze
+ * Pause a rule for a number of hours or until a date
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = SnoozeAlertRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { hours, until } = validation.data
+    const snoozedUntil = until ?? new Date(Date.now() + hours! * 60 * 60 * 1000)
+    const rule = await alertEngine.snoozeRule(id, snoozedUntil)
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Failed to snooze alert rule:', error)
+    const message = error instanceof Error ? error.message : 'Failed to snooze alert rule'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/alert-rules/[id]/snooze
+ * Resume a snoozed rule
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const rule = await alertEngine.snoozeRule(id, null)
+
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Failed to resume alert rule:', error)
+    const message = error instanceof Error ? error.message : 'Failed to resume alert rule'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { CreateAlertRuleSchema } from '@/lib/validations/alert-rule-schema'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+// GET /api/alert-rules - List alert rules with their scope and firing counts
+export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const rules = await prisma.alertRule.findMany({
+      include: {
+        profile: { select: { id: true, handle: true } },
+        profileGroup: { select: { id: true, name: true } },
+        postCategory: { select: { id: true, name: true } },
+        channels: { select: { id: true, name: true, type: true } },
+        _count: { select: { events: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Failed to fetch alert rules:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/alert-rules - Create an alert rule
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateAlertRuleSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { channelIds, ...data } = validation.data
+
+    const rule = await prisma.alertRule.create({
+      data: {
+        ...data,
+        channels: channelIds ? { connect: channelIds.map(id => ({ id })) } : undefined
+      }
+    })
+
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create alert rule:', error)
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { detectFaceForAsset } from '@/lib/face-detection-service'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -9,6 +10,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
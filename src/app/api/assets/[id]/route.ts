@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { deleteFromR2 } from '@/lib/r2'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,13 +9,19 @@ export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await context.params
     const body = await request.json()
 
     const asset = await prisma.asset.update({
       where: { id },
-      data: body
+      data: {
+        ...body,
+        updatedById: auth.user.id
+      }
     })
 
     return NextResponse.json(asset)
@@ -31,6 +38,9 @@ export async function DELETE(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await context.params
 
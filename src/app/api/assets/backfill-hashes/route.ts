@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { hashBackfillQueue } from '@/lib/queue/hash-backfill-queue'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +13,9 @@ const prisma = new PrismaClient()
  * - limit: Maximum number of assets to queue (default: 100)
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const limit = parseInt(searchParams.get('limit') || '100', 10)
@@ -71,6 +75,9 @@ export async function POST(request: NextRequest) {
  * Get statistics about assets with/without hashes
  */
 export async function GET() {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const [totalAssets, assetsWithHash, assetsWithoutHash, queueStats] = await Promise.all([
       prisma.asset.count(),
@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { detectFacesForAssets } from '@/lib/face-detection-service'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { assetIds } = body as { assetIds: string[] }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -7,6 +8,9 @@ export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await context.params
     const body = await request.json()
@@ -35,6 +39,9 @@ export async function DELETE(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await context.params
 
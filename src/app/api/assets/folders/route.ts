@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const folders = await prisma.assetFolder.findMany({
       include: {
@@ -25,6 +29,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
 
@@ -6,6 +6,7 @@ import sharp from 'sharp'
 import heicConvert from 'heic-convert'
 import { analyzeFileBuffer } from '@/lib/file-type-detector'
 import { computeImageHash, areSimilarImages } from '@/lib/image-hash-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -53,6 +54,9 @@ async function downloadImage(url: string): Promise<Buffer> {
  * }
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { imageUrl, pinUrl, name, force = false } = body
@@ -215,6 +219,8 @@ export async function POST(request: NextRequest) {
     // Create asset entry
     const asset = await prisma.asset.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         folderId: folder.id,
         cacheAssetId: cacheAsset.id,
         name: fileName,
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const folderId = searchParams.get('folderId')
@@ -53,11 +57,16 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
 
     const asset = await prisma.asset.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         folderId: body.folderId || null,
         cacheAssetId: body.cacheAssetId,
         name: body.name,
@@ -7,10 +7,14 @@ import heicConvert from 'heic-convert'
 import { analyzeFileBuffer } from '@/lib/file-type-detector'
 import { detectFace } from '@/lib/face-detection-service'
 import { computeImageHash, areSimilarImages } from '@/lib/image-hash-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const formData = await request.formData()
     const files = formData.getAll('files') as File[]
@@ -123,6 +127,8 @@ export async function POST(request: NextRequest) {
       // Create asset entry
       const asset = await prisma.asset.create({
         data: {
+          createdById: auth.user.id,
+          updatedById: auth.user.id,
           folderId: folderId || null,
           cacheAssetId: cacheAsset.id,
           name: fileName,
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authService } from '@/lib/auth-service'
+import { SESSION_COOKIE } from '@/lib/auth'
+import {
+  clearFailedLogins,
+  getClientIp,
+  getLoginRetryAfter,
+  recordFailedLogin
+} from '@/lib/login-rate-limit'
+
+const LoginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+})
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password. Sets the session cookie and also returns
+ * the token for clients that send it as a Bearer header instead.
+ * Repeated failures for an email or from an IP are answered with 429.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validation = LoginSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { email, password } = validation.data
+    const ip = getClientIp(request.headers)
+
+    const retryAfter = await getLoginRetryAfter(email, ip)
+    if (retryAfter !== null) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts. Try again later.' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const { user, token, expiresAt } = await authService
+      .signIn(email, password, request.headers.get('user-agent'))
+      .catch(async (error) => {
+        if (error instanceof Error && error.message === 'Invalid email or password') {
+          await recordFailedLogin(email, ip)
+        }
+        throw error
+      })
+
+    await clearFailedLogins(email)
+
+    const response = NextResponse.json({ user, token, expiresAt })
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: expiresAt
+    })
+
+    return response
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid email or password') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 401 }
+      )
+    }
+
+    console.error('Failed to sign in:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { authService } from '@/lib/auth-service'
+import { SESSION_COOKIE, getSessionToken } from '@/lib/auth'
+
+/**
+ * POST /api/auth/logout
+ * End the current session and clear the session cookie
+ */
+export async function POST() {
+  try {
+    const token = await getSessionToken()
+    if (token) {
+      await authService.signOut(token)
+    }
+
+    const response = NextResponse.json({ success: true })
+    response.cookies.delete(SESSION_COOKIE)
+
+    return response
+  } catch (error) {
+    console.error('Failed to sign out:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/auth/me
+ * The signed-in user
+ */
+export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  return NextResponse.json({ user: auth.user })
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UpdateBrandKitSchema } from '@/lib/validations/brand-kit-schema'
+import { brandKitService } from '@/lib/brand-kit-service'
+import { requireRole } from '@/lib/auth'
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && error.message.startsWith('Brand kit not found')
+
+// GET /api/brand-kits/[id] - A brand kit with its logos and where it is used
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const brandKit = await brandKitService.getBrandKit(id)
+
+    return NextResponse.json({ brandKit })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: 'Brand kit not found' }, { status: 404 })
+    }
+
+    console.error('Failed to fetch brand kit:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch brand kit' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/brand-kits/[id] - Update a brand kit
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = UpdateBrandKitSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const brandKit = await brandKitService.updateBrandKit(id, validation.data, auth.user.id)
+
+    return NextResponse.json({ brandKit })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: 'Brand kit not found' }, { status: 404 })
+    }
+
+    console.error('Failed to update brand kit:', error)
+    return NextResponse.json(
+      { error: 'Failed to update brand kit' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/brand-kits/[id] - Delete a brand kit; projects and product contexts using it are detached
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    await brandKitService.deleteBrandKit(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: 'Brand kit not found' }, { status: 404 })
+    }
+
+    console.error('Failed to delete brand kit:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete brand kit' },
+      { status: 500 }
+    )
+  }
+}
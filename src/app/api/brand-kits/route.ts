@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CreateBrandKitSchema } from '@/lib/validations/brand-kit-schema'
+import { brandKitService } from '@/lib/brand-kit-service'
+import { requireRole } from '@/lib/auth'
+
+// GET /api/brand-kits - List brand kits; with ?remixId=, also the kit that applies to that remix
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const remixId = request.nextUrl.searchParams.get('remixId')
+
+    const [brandKits, resolved] = await Promise.all([
+      brandKitService.listBrandKits(),
+      remixId ? brandKitService.resolveForRemix(remixId) : null
+    ])
+
+    return NextResponse.json({ brandKits, resolvedBrandKitId: resolved?.id ?? null })
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Remix not found')) {
+      return NextResponse.json({ error: 'Remix not found' }, { status: 404 })
+    }
+
+    console.error('Failed to fetch brand kits:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch brand kits' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/brand-kits - Create a brand kit
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateBrandKitSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const brandKit = await brandKitService.createBrandKit(validation.data, auth.user.id)
+
+    return NextResponse.json({ brandKit }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to create brand kit:', error)
+    return NextResponse.json(
+      { error: 'Failed to create brand kit' },
+      { status: 500 }
+    )
+  }
+}
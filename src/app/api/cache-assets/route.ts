@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { cacheAssetService } from '@/lib/cache-asset-service'
 import { PrismaClient } from '@/generated/prisma'
 import { deleteFromR2 } from '@/lib/r2'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { originalUrl, folder = 'media', filename } = body
@@ -40,6 +44,9 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const cacheAssetId = searchParams.get('id')
@@ -107,6 +114,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const ids = searchParams.get('ids')?.split(',') || []
@@ -3,10 +3,14 @@ import { uploadToR2 } from '@/lib/r2'
 import { PrismaClient, CacheStatus } from '@/generated/prisma'
 import { v4 as uuidv4 } from 'uuid'
 import sharp from 'sharp'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const formData = await request.formData()
     const files = formData.getAll('files') as File[]
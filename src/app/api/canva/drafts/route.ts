@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { renderQueue } from '@/lib/queue/render-queue'
+import { requireRole } from '@/lib/auth'
 
 // Helper function to convert BigInt and Date values for JSON serialization
 function serializeBigInt(obj: any): any {
@@ -46,6 +49,9 @@ export async function OPTIONS(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     // Get all drafts from all projects, ordered by newest updated first
     const drafts = await prisma.remixPost.findMany({
@@ -103,9 +109,23 @@ export async function GET(request: NextRequest) {
         // Bulk fetch all URLs at once
         const urlMap = await cacheAssetService.getUrls(Array.from(cacheAssetIds))
 
+        // Final rendered slides; drafts without current renders get one queued
+        let renderedUrls: string[] = []
+        if (slides.length > 0) {
+          const renderedAssetIds = await remixRenderService.getCurrentRenders(draft.id)
+          if (renderedAssetIds) {
+            renderedUrls = await cacheAssetService.getUrls(renderedAssetIds)
+          } else {
+            await renderQueue.addRenderJob(draft.id).catch(error =>
+              console.error(`Failed to queue render for draft ${draft.id}:`, error)
+            )
+          }
+        }
+
         // Add URLs to each background layer
-        const slidesWithUrls = slides.map((slide: any) => ({
+        const slidesWithUrls = slides.map((slide: any, index: number) => ({
           ...slide,
+          renderedImageUrl: renderedUrls[index] || null,
           backgroundLayers: slide.backgroundLayers?.map((layer: any) => {
             if (layer.type === 'image' && layer.cacheAssetId) {
               return {
@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
+import { generateJSON, type LLMSchema } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // Schema for AI-generated example variations
-const EXAMPLE_GENERATION_SCHEMA = {
+const EXAMPLE_GENERATION_SCHEMA: LLMSchema = {
   type: Type.OBJECT,
   properties: {
     variations: {
@@ -114,6 +116,9 @@ export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
     const body: GenerateRequest = await request.json()
@@ -175,28 +180,14 @@ export async function POST(
       variationCount
     )
 
-    // Call Gemini
-    const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY })
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: EXAMPLE_GENERATION_SCHEMA,
-      },
+    // Call the configured model
+    const { data: result } = await generateJSON<GenerationResult>({
+      feature: 'concept-examples',
+      prompt,
+      schema: EXAMPLE_GENERATION_SCHEMA,
+      entity: { type: 'conceptBank', id: conceptId },
     })
 
-    const responseText = response.text
-    if (!responseText) {
-      return NextResponse.json(
-        { error: 'AI returned empty response' },
-        { status: 500 }
-      )
-    }
-
-    const result: GenerationResult = JSON.parse(responseText)
-
     return NextResponse.json({
       variations: result.variations,
       concept: {
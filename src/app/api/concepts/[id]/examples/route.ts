@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +9,9 @@ export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
     const body = await request.json()
@@ -61,6 +65,9 @@ export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
     const { searchParams } = new URL(request.url)
@@ -104,6 +111,9 @@ export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
     const body = await request.json()
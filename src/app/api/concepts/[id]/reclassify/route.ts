@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
+import { generateJSON, type LLMSchema } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // Schema for reclassification AI output
-const RECLASSIFICATION_SCHEMA = {
+const RECLASSIFICATION_SCHEMA: LLMSchema = {
   type: Type.OBJECT,
   properties: {
     classifications: {
@@ -66,6 +68,9 @@ export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
 
@@ -242,10 +247,6 @@ async function classifyExamplesWithAI(
   examples: ExampleWithSource[],
   allConcepts: ConceptWithCount[]
 ): Promise<Classification[]> {
-  const ai = new GoogleGenAI({
-    apiKey: process.env.GEMINI_API_KEY,
-  })
-
   // Build examples list with slide 1 warnings
   const examplesList = examples.map(ex => {
     const slideWarning = ex.sourceSlideIndex === 0 ? ' ⚠️ SLIDE 1 - CANNOT BE CTA' : ''
@@ -296,23 +297,13 @@ For each example:
 Return a classification for each example.`
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: RECLASSIFICATION_SCHEMA,
-      },
+    const { data: parsed } = await generateJSON<{ classifications?: Classification[] }>({
+      feature: 'concept-reclassify',
+      prompt,
+      schema: RECLASSIFICATION_SCHEMA,
+      entity: { type: 'conceptBank', id: currentConcept.id },
     })
 
-    if (!response.text) {
-      throw new Error('No response from Gemini AI')
-    }
-
-    const parsed = JSON.parse(response.text)
     return parsed.classifications || []
   } catch (error) {
     console.error('AI classification failed:', error)
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +9,9 @@ export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
@@ -45,6 +49,9 @@ export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
@@ -65,7 +72,10 @@ export async function PATCH(
 
     const updated = await prisma.conceptBank.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        updatedById: auth.user.id
+      },
       include: {
         examples: {
           orderBy: { createdAt: 'desc' }
@@ -91,6 +101,9 @@ export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
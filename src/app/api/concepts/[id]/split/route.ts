@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
+import { generateJSON, type LLMSchema } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // Schema for split analysis AI output
-const SPLIT_ANALYSIS_SCHEMA = {
+const SPLIT_ANALYSIS_SCHEMA: LLMSchema = {
   type: Type.OBJECT,
   properties: {
     canSplit: {
@@ -74,6 +76,9 @@ export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: conceptId } = await params
     const body = await request.json()
@@ -179,6 +184,8 @@ export async function POST(
         // Create new concept
         const newConcept = await tx.conceptBank.create({
           data: {
+            createdById: auth.user.id,
+            updatedById: auth.user.id,
             title: split.title,
             coreMessage: split.coreMessage,
             type: concept.type, // Inherit parent type
@@ -259,10 +266,6 @@ async function analyzeSplitsWithAI(
     reasoning: string
   }>
 }> {
-  const ai = new GoogleGenAI({
-    apiKey: process.env.GEMINI_API_KEY,
-  })
-
   // Build examples list
   const examplesList = concept.examples.map(ex =>
     `[Example ID: ${ex.id}] "${ex.text}"`
@@ -299,24 +302,13 @@ Return splits array sorted by confidence (highest first).
 IMPORTANT: Every example ID must appear in exactly one split's exampleIds array.`
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: SPLIT_ANALYSIS_SCHEMA,
-      },
+    const { data: parsed } = await generateJSON<any>({
+      feature: 'concept-split',
+      prompt,
+      schema: SPLIT_ANALYSIS_SCHEMA,
+      entity: { type: 'conceptBank', id: concept.id },
     })
 
-    if (!response.text) {
-      throw new Error('No response from Gemini AI')
-    }
-
-    const parsed = JSON.parse(response.text)
-
     // Validate that all examples are assigned
     const assignedExampleIds = new Set<string>()
     for (const split of (parsed.splits || [])) {
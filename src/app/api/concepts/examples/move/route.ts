@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // PUT /api/concepts/examples/move - Move examples between concepts
 export async function PUT(request: Request) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { exampleIds, targetConceptId } = body
@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server'
 import { extractConceptsFromPosts } from '@/lib/concept-extraction-service'
+import { requireRole } from '@/lib/auth'
 
 // POST /api/concepts/extract - Extract concepts from posts
 export async function POST(request: Request) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { postIds } = body
@@ -14,7 +18,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const result = await extractConceptsFromPosts(postIds)
+    const result = await extractConceptsFromPosts(postIds, auth.user.id)
 
     return NextResponse.json({
       success: true,
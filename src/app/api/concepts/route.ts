@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { generateJSON } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // GET /api/concepts - List all concepts with filtering
 export async function GET(request: Request) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
 
@@ -148,23 +153,7 @@ export async function GET(request: Request) {
 
 // Helper function to generate concept title and core message from example texts using AI
 async function generateConceptFromExamples(exampleTexts: string[], type: string): Promise<{ title: string; coreMessage: string }> {
-  // Import Gemini using the same pattern as content-generation-service
-  const { GoogleGenAI } = await import('@google/genai')
-
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) {
-    // Fallback to simple title generation
-    const firstText = exampleTexts[0] || ''
-    const truncated = firstText.slice(0, 50) + (firstText.length > 50 ? '...' : '')
-    return {
-      title: `New ${type} Concept`,
-      coreMessage: truncated || 'No examples provided'
-    }
-  }
-
   try {
-    const ai = new GoogleGenAI({ apiKey })
-
     const prompt = `You are analyzing content examples for a TikTok carousel content bank.
 
 Given these example texts that belong to a ${type} slide type:
@@ -183,21 +172,14 @@ Respond in JSON format only:
   "coreMessage": "A brief description of the core message or pattern these examples share."
 }`
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.0-flash',
-      contents: prompt
+    const { data: parsed } = await generateJSON<{ title?: string; coreMessage?: string }>({
+      feature: 'concept-generation',
+      prompt
     })
 
-    const responseText = response.text || ''
-
-    // Parse JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0])
-      return {
-        title: parsed.title || `New ${type} Concept`,
-        coreMessage: parsed.coreMessage || 'Auto-generated concept'
-      }
+    return {
+      title: parsed.title || `New ${type} Concept`,
+      coreMessage: parsed.coreMessage || 'Auto-generated concept'
     }
   } catch (error) {
     console.error('Failed to generate concept with AI:', error)
@@ -214,6 +196,9 @@ Respond in JSON format only:
 
 // POST /api/concepts - Create a new concept
 export async function POST(request: Request) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
 
@@ -253,6 +238,8 @@ export async function POST(request: Request) {
     // Create the new concept
     const newConcept = await prisma.conceptBank.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         title: finalTitle,
         coreMessage: finalCoreMessage,
         type: type || 'CONTENT',
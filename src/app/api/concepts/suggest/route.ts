@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI } from '@google/genai'
+import { generateJSON } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' })
-
 interface SlideStructure {
   slideIndex: number
   type: 'HOOK' | 'CONTENT' | 'CTA'
@@ -20,6 +19,9 @@ interface ConceptSuggestion {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { topic, slideCount, projectId } = body
@@ -176,24 +178,14 @@ Respond with a JSON array of suggestions:
 If a slide type has no available concepts, use null for conceptId.
 Only respond with the JSON array, no other text.`
 
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.0-flash',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-    })
-
-    const responseText = response.text || ''
-
     // Parse AI response
     let suggestions: ConceptSuggestion[] = []
     try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        suggestions = JSON.parse(jsonMatch[0])
-      }
+      const response = await generateJSON<ConceptSuggestion[]>({
+        feature: 'concept-suggest',
+        prompt,
+      })
+      suggestions = Array.isArray(response.data) ? response.data : []
     } catch (parseError) {
       console.error('Failed to parse AI suggestions:', parseError)
       // Fallback: suggest first available concept of each type
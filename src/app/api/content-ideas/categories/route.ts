@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -20,6 +21,9 @@ const UpdateCategorySchema = z.object({
  * Get all categories, optionally filtered by type
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const searchParams = request.nextUrl.searchParams
     const type = searchParams.get('type') as 'HOOK' | 'CONTENT' | 'CTA' | null
@@ -51,6 +55,9 @@ export async function GET(request: NextRequest) {
  * Create a new category
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validation = CreateCategorySchema.safeParse(body)
@@ -98,6 +105,9 @@ export async function POST(request: NextRequest) {
  * Update a category
  */
 export async function PUT(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { id, ...updates } = body
@@ -148,6 +158,9 @@ export async function PUT(request: NextRequest) {
  * Delete a category
  */
 export async function DELETE(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
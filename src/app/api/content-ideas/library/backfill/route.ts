@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { slideIndexBackfillQueue } from '@/lib/queue/slide-index-backfill-queue'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+/**
+ * POST /api/content-ideas/library/backfill
+ * Queue indexing of every scraped post with completed OCR, then every remix,
+ * into the content ideas library
+ */
+export async function POST() {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    await slideIndexBackfillQueue.addBackfillJob({ source: 'posts' })
+
+    console.log(`✅ [SlideIndex] Library backfill queued by ${auth.user.id}`)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Library backfill queued'
+    })
+  } catch (error) {
+    console.error('Failed to queue library backfill:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to queue library backfill',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/content-ideas/library/backfill
+ * Get statistics about indexed slides and the backfill queue
+ */
+export async function GET() {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const [remixSlides, postSlides, categories, postsWithOcr, queueStats] = await Promise.all([
+      prisma.slideClassificationIndex.count({ where: { remixPostId: { not: null } } }),
+      prisma.slideClassificationIndex.count({ where: { tiktokPostId: { not: null } } }),
+      prisma.contentIdeaCategory.count(),
+      prisma.tiktokPost.count({ where: { ocrStatus: 'completed' } }),
+      slideIndexBackfillQueue.getStats()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        remixSlides,
+        postSlides,
+        categories,
+        postsWithOcr
+      },
+      queue: queueStats
+    })
+  } catch (error) {
+    console.error('Failed to get library backfill stats:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to get library backfill stats',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
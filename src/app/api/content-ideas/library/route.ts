@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +9,9 @@ const prisma = new PrismaClient()
  * Browse classified slides with filters
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const searchParams = request.nextUrl.searchParams
     const page = parseInt(searchParams.get('page') || '1', 10)
@@ -15,6 +19,7 @@ export async function GET(request: NextRequest) {
     const type = searchParams.get('type') as 'HOOK' | 'CONTENT' | 'CTA' | null
     const categoryId = searchParams.get('categoryId')
     const search = searchParams.get('search')
+    const source = searchParams.get('source') as 'remix' | 'post' | null
 
     const skip = (page - 1) * limit
 
@@ -28,6 +33,12 @@ export async function GET(request: NextRequest) {
       where.categoryId = categoryId
     }
 
+    if (source === 'remix') {
+      where.remixPostId = { not: null }
+    } else if (source === 'post') {
+      where.tiktokPostId = { not: null }
+    }
+
     if (search) {
       where.contentText = {
         contains: search,
@@ -57,6 +68,13 @@ export async function GET(request: NextRequest) {
               sourcePostIds: true,
               languageStyleTags: true
             }
+          },
+          tiktokPost: {
+            select: {
+              id: true,
+              tiktokUrl: true,
+              authorHandle: true
+            }
           }
         }
       }),
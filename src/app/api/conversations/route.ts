@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { PrismaClient } from "@/generated/prisma"
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +9,9 @@ const prisma = new PrismaClient()
  * Fetch all conversations ordered by most recent first
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const conversations = await prisma.conversation.findMany({
       orderBy: {
@@ -30,6 +34,9 @@ export async function GET(request: NextRequest) {
  * Create a new empty conversation
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { title, selectedPostIds, model } = body
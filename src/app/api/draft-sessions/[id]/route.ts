@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { draftSessionService } from '@/lib/draft-session-service'
 import { z } from 'zod'
 import * as Sentry from '@sentry/nextjs'
+import { requireRole } from '@/lib/auth'
 
 const updateSessionSchema = z.object({
   name: z.string().min(1, 'Session name is required'),
@@ -11,6 +12,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
@@ -45,6 +49,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
@@ -81,6 +88,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
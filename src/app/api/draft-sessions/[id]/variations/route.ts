@@ -4,6 +4,9 @@ import { z } from 'zod'
 import { generateContent, SourcePost } from '@/lib/content-generation-service'
 import { draftSessionService } from '@/lib/draft-session-service'
 import * as Sentry from '@sentry/nextjs'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { brandKitService, applyBrandKitToSlides } from '@/lib/brand-kit-service'
 
 const prisma = new PrismaClient()
 
@@ -15,6 +18,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: sessionId } = await params
     const body = await request.json()
@@ -94,11 +100,13 @@ export async function POST(
       slidesRange: sessionConfig.slidesRange,
     })
 
+    const brandKit = await brandKitService.resolveBrandKitSafe({ productContextId: sessionConfig.productContextId })
+
     // Save each variation as a draft RemixPost linked to the existing session
     const createdDrafts = await Promise.all(
       generationResult.variations.map(async (variation) => {
         // Build slides array in RemixPost format
-        const slides = variation.slides.map((slide) => ({
+        const baseSlides = variation.slides.map((slide) => ({
           id: crypto.randomUUID(),
           displayOrder: slide.slideIndex,
           paraphrasedText: slide.text,
@@ -124,9 +132,13 @@ export async function POST(
           categoryName: variation.metadata.mainTheme,
         }))
 
+        const slides = brandKit ? applyBrandKitToSlides(baseSlides, brandKit, slideClassifications) : baseSlides
+
         // Create the draft RemixPost
         const draft = await prisma.remixPost.create({
           data: {
+            createdById: auth.user.id,
+            updatedById: auth.user.id,
             name: `Generated: ${variation.metadata.mainTheme}`,
             description: variation.metadata.description,
             generationType: sessionConfig.generationStrategy === 'remix' ? 'ai_remix' : 'ai_inspired',
@@ -135,6 +147,7 @@ export async function POST(
             sessionId: sessionId, // Link to existing session
             languageStyleTags: [sessionConfig.languageStyle],
             generationPrompt: sessionConfig.languageStyle + (sessionConfig.contentIdeas ? `\n${sessionConfig.contentIdeas}` : ''),
+            promptVersionId: generationResult.promptVersionId ?? null,
             isDraft: true,
             slides: slides,
             slideClassifications: slideClassifications,
@@ -145,6 +158,10 @@ export async function POST(
       })
     )
 
+    for (const draft of createdDrafts) {
+      await slideIndexService.indexRemixSafe(draft.id)
+    }
+
     console.log(`✅ [API] Created ${createdDrafts.length} additional draft RemixPosts in session ${sessionId}`)
 
     return NextResponse.json({
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { duplicateDetectionQueue } from '@/lib/queue/duplicate-detection-queue'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/duplicates/detect
+ * Queue an immediate hashing and clustering pass instead of waiting for the next sweep
+ */
+export async function POST() {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    await duplicateDetectionQueue.addDetectionJob()
+    return NextResponse.json({ queued: true }, { status: 202 })
+  } catch (error) {
+    console.error('Failed to queue duplicate detection:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue duplicate detection' },
+      { status: 500 }
+    )
+  }
+}
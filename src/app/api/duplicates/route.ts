@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { normalizeBigInt } from '@/lib/stats-calculator'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+/**
+ * GET /api/duplicates?crossProfile=true&limit=50
+ * Near-duplicate carousel clusters, largest first, with their posts in publish order
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const crossProfile = searchParams.get('crossProfile') === 'true'
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+
+    const clusters = await prisma.duplicateCluster.findMany({
+      where: crossProfile ? { profileCount: { gt: 1 } } : undefined,
+      include: {
+        posts: {
+          select: {
+            id: true,
+            tiktokUrl: true,
+            authorHandle: true,
+            authorNickname: true,
+            viewCount: true,
+            publishedAt: true,
+            isDuplicate: true,
+            _count: { select: { remixes: true } }
+          },
+          orderBy: { publishedAt: 'asc' }
+        }
+      },
+      orderBy: [{ profileCount: 'desc' }, { postCount: 'desc' }],
+      take: limit
+    })
+
+    return NextResponse.json({
+      clusters: clusters.map(cluster => ({
+        ...cluster,
+        posts: cluster.posts.map(post => ({
+          ...post,
+          viewCount: normalizeBigInt(post.viewCount)
+        }))
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch duplicate clusters:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch duplicate clusters' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest } from 'next/server'
 import { sseEventEmitter, SSEEvent } from '@/lib/sse-event-emitter'
+import { requireRole } from '@/lib/auth'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   const encoder = new TextEncoder()
 
   // Create a readable stream for SSE
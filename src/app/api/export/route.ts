@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { exportSlideAsImage, exportSlidesAsZip } from '@/lib/canvas-export'
 import type { RemixSlideType } from '@/lib/validations/remix-schema'
+import { requireRole } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { slides, backgroundImageUrls, format = 'png', quality = 0.95 } = body
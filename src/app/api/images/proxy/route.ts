@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import heicConvert from 'heic-convert'
 import { PrismaClient } from '@/generated/prisma'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -33,7 +34,10 @@ export async function GET(request: NextRequest) {
         )
       }
     } else if (imageUrl) {
-      // Legacy URL-based proxy
+      // Legacy URL-based proxy: fetches a caller-chosen URL, so only for
+      // signed-in users (Telegram and other public consumers use ?id=)
+      const auth = await requireRole('viewer')
+      if (auth.response) return auth.response
       finalImageUrl = imageUrl
     } else {
       return NextResponse.json(
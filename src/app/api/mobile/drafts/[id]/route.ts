@@ -3,6 +3,10 @@ import { PrismaClient } from '@/generated/prisma';
 import { RemixSlideSchema, CANVAS_SIZES, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema';
 import { cacheAssetService } from '@/lib/cache-asset-service';
 import { z } from 'zod';
+import { remixRenderService } from '@/lib/remix-render-service';
+import { remixRevisionService } from '@/lib/remix-revision-service';
+import { slideIndexService } from '@/lib/slide-index-service';
+import { requireRole } from '@/lib/auth'
 
 // Mobile text overlay schema (simplified version for mobile editor)
 const MobileTextOverlaySchema = z.object({
@@ -86,6 +90,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params;
     const remixId = resolvedParams.id;
@@ -223,6 +230,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params;
     const remixId = resolvedParams.id;
@@ -320,11 +330,23 @@ export async function PATCH(
     await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slides: JSON.stringify(updatedSlides),
         updatedAt: new Date(),
       },
     });
 
+    await remixRenderService.invalidate(remixId);
+    await remixRevisionService.recordRevisionSafe({
+      remixId,
+      previousSlides: remix.slides,
+      slides: updatedSlides,
+      source: 'manual_edit',
+      summary: `Edited ${slideUpdates.length} slide${slideUpdates.length === 1 ? '' : 's'} on mobile`,
+      createdById: auth.user.id,
+    });
+    await slideIndexService.indexRemixSafe(remixId);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     const resolvedParams = await params;
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cacheAssetService } from '@/lib/cache-asset-service';
+import { requireRole } from '@/lib/auth'
 
 /**
  * POST /api/mobile/get-slide-urls
  * Get presigned URLs for slide background images
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json();
     const { cacheAssetIds } = body;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@/generated/prisma';
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient();
 
@@ -44,6 +45,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params;
 
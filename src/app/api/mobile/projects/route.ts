@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@/generated/prisma';
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient();
 
@@ -9,6 +10,9 @@ const prisma = new PrismaClient();
  * Read-only endpoint - only returns projects with drafts
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
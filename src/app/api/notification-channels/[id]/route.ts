@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient, Prisma } from '@/generated/prisma'
+import { UpdateNotificationChannelSchema } from '@/lib/validations/notification-channel-schema'
+import { maskChannelConfig, mergeChannelConfig, parseChannelConfig } from '@/lib/notifications'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+// PATCH /api/notification-channels/[id] - Update a channel; masked secrets are kept
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = UpdateNotificationChannelSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.notificationChannel.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Notification channel not found' }, { status: 404 })
+    }
+
+    const { config, ...data } = validation.data
+
+    let parsedConfig: Record<string, unknown> | undefined
+    if (config) {
+      try {
+        parsedConfig = parseChannelConfig(
+          existing.type,
+          mergeChannelConfig(existing.type, existing.config, config)
+        )
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid channel config' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const channel = await prisma.notificationChannel.update({
+      where: { id },
+      data: {
+        ...data,
+        config: parsedConfig as Prisma.InputJsonValue | undefined
+      }
+    })
+
+    return NextResponse.json({
+      channel: { ...channel, config: maskChannelConfig(channel.type, channel.config) }
+    })
+  } catch (error) {
+    console.error('Failed to update notification channel:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification channel' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/notification-channels/[id] - Delete a channel and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+
+    const existing = await prisma.notificationChannel.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Notification channel not found' }, { status: 404 })
+    }
+
+    await prisma.notificationChannel.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Failed to delete notification channel:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete notification channel' },
+      { status: 500 }
+    )
+  }
+}
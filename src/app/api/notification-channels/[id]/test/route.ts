@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notificationDeliveryService } from '@/lib/notification-delivery-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/notification-channels/[id]/test
+ * Send a test message through a channel and report the result
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const result = await notificationDeliveryService.testChannel(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, deliveryId: result.deliveryId, error: result.error },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      deliveryId: result.deliveryId,
+      message: 'Test notification sent successfully!'
+    })
+  } catch (error) {
+    console.error('Failed to test notification channel:', error)
+    const message = error instanceof Error ? error.message : 'Failed to test notification channel'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 500 }
+    )
+  }
+}
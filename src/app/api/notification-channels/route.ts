@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient, Prisma } from '@/generated/prisma'
+import { CreateNotificationChannelSchema } from '@/lib/validations/notification-channel-schema'
+import { maskChannelConfig, parseChannelConfig } from '@/lib/notifications'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+// GET /api/notification-channels - List channels with credentials masked
+export async function GET() {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const channels = await prisma.notificationChannel.findMany({
+      include: {
+        _count: { select: { deliveries: true, alertRules: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({
+      channels: channels.map(channel => ({
+        ...channel,
+        config: maskChannelConfig(channel.type, channel.config)
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch notification channels:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification channels' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/notification-channels - Create a channel
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateNotificationChannelSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { config, ...data } = validation.data
+
+    let parsedConfig: Record<string, unknown>
+    try {
+      parsedConfig = parseChannelConfig(data.type, config)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid channel config' },
+        { status: 400 }
+      )
+    }
+
+    const channel = await prisma.notificationChannel.create({
+      data: {
+        ...data,
+        config: parsedConfig as Prisma.InputJsonValue
+      }
+    })
+
+    return NextResponse.json(
+      { channel: { ...channel, config: maskChannelConfig(channel.type, channel.config) } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Failed to create notification channel:', error)
+    return NextResponse.json(
+      { error: 'Failed to create notification channel' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notificationDeliveryService } from '@/lib/notification-delivery-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/notification-deliveries/[id]/retry
+ * Resend a failed delivery now
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const result = await notificationDeliveryService.retryDelivery(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, deliveryId: id, error: result.error },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true, deliveryId: id })
+  } catch (error) {
+    console.error('Failed to retry notification delivery:', error)
+    const message = error instanceof Error ? error.message : 'Failed to retry notification delivery'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 500 }
+    )
+  }
+}
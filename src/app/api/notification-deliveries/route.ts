@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { notificationDeliveryService } from '@/lib/notification-delivery-service'
+import { DeliveryLogQuerySchema } from '@/lib/validations/notification-channel-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/notification-deliveries
+ * Recent delivery log, optionally filtered by channel or status
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const validation = DeliveryLogQuerySchema.safeParse({
+      channelId: searchParams.get('channelId') ?? undefined,
+      status: searchParams.get('status') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const deliveries = await notificationDeliveryService.getDeliveries(validation.data)
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error('Failed to fetch notification deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification deliveries' },
+      { status: 500 }
+    )
+  }
+}
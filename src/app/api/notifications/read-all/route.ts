@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { notificationService } from '@/lib/notification-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * POST /api/notifications/read-all
  * Mark all notifications as read
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const result = await notificationService.markAllAsRead()
 
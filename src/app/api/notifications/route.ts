@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { notificationService } from '@/lib/notification-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * GET /api/notifications
  * Get all notifications (paginated)
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
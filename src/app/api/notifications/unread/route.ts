@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { notificationService } from '@/lib/notification-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * GET /api/notifications/unread
  * Get unread notifications count and recent unread notifications
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 50)
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ocrEvalService } from '@/lib/ocr-eval-service'
+import { UpdateOcrEvalCaseSchema } from '@/lib/validations/ocr-eval-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/ocr-eval/cases/[id]
+ * A gold set case with its slide image URLs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const evalCase = await ocrEvalService.getCase(id)
+
+    return NextResponse.json({ case: evalCase })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Eval case not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to fetch eval case:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch eval case' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/ocr-eval/cases/[id]
+ * Correct a gold set case's labels: slide types, OCR text, category and notes
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = UpdateOcrEvalCaseSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const evalCase = await ocrEvalService.updateCase(id, validation.data)
+
+    return NextResponse.json({ case: evalCase })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Eval case not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to update eval case:', error)
+    return NextResponse.json(
+      { error: 'Failed to update eval case' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/ocr-eval/cases/[id]
+ * Remove a post from the gold set, along with its results in past runs
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    await ocrEvalService.deleteCase(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Eval case not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to delete eval case:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete eval case' },
+      { status: 500 }
+    )
+  }
+}
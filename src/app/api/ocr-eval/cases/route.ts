@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ocrEvalService } from '@/lib/ocr-eval-service'
+import { CreateOcrEvalCaseSchema } from '@/lib/validations/ocr-eval-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/ocr-eval/cases
+ * The OCR evaluation gold set with each case's labels
+ */
+export async function GET() {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const cases = await ocrEvalService.listCases()
+
+    return NextResponse.json({ cases })
+  } catch (error) {
+    console.error('Failed to fetch eval cases:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch eval cases' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ocr-eval/cases
+ * Add a carousel post (id or TikTok URL) to the gold set, labeled from its current OCR output
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateOcrEvalCaseSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const evalCase = await ocrEvalService.addCase(validation.data.post, auth.user.id)
+
+    return NextResponse.json({ case: evalCase }, { status: 201 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('TikTokPost not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+    if (message.includes('is not a photo carousel')) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+    if (message.startsWith('Post already in gold set')) {
+      return NextResponse.json({ error: message }, { status: 409 })
+    }
+
+    console.error('Failed to add eval case:', error)
+    return NextResponse.json(
+      { error: 'Failed to add eval case' },
+      { status: 500 }
+    )
+  }
+}
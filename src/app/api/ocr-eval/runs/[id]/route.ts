@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ocrEvalService } from '@/lib/ocr-eval-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/ocr-eval/runs/[id]
+ * A run's report with the prediction and score of every case
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const run = await ocrEvalService.getRun(id)
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Eval run not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to fetch eval run:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch eval run' },
+      { status: 500 }
+    )
+  }
+}
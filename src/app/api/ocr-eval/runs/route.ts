@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ocrEvalService } from '@/lib/ocr-eval-service'
+import { ocrEvalQueue } from '@/lib/queue/ocr-eval-queue'
+import { CreateOcrEvalRunSchema } from '@/lib/validations/ocr-eval-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/ocr-eval/runs
+ * Recent evaluation runs with their reports
+ */
+export async function GET() {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const runs = await ocrEvalService.listRuns()
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Failed to fetch eval runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch eval runs' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ocr-eval/runs
+ * Queue an evaluation of the gold set against a model and OCR prompt versions
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateOcrEvalRunSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const run = await ocrEvalService.createRun(validation.data, auth.user.id)
+    await ocrEvalQueue.addRunJob(run.id)
+
+    return NextResponse.json({ run }, { status: 201 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Prompt version not found') || message.startsWith('Eval case not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+    if (message.startsWith('Gold set is empty')) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    console.error('Failed to start eval run:', error)
+    return NextResponse.json(
+      { error: 'Failed to start eval run' },
+      { status: 500 }
+    )
+  }
+}
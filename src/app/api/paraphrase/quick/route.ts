@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { paraphraseSingleExample, ParaphraseIntensity } from '@/lib/minimal-paraphrase-service'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(req: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await req.json()
     const { text, slideType, intensity = 'minimal', draftId } = body
@@ -1,11 +1,15 @@
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // GET /api/post-categories - List all categories
 export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const categories = await prisma.postCategory.findMany({
       orderBy: [
@@ -37,6 +41,9 @@ const createCategorySchema = z.object({
 })
 
 export async function POST(request: Request) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validated = createCategorySchema.parse(body)
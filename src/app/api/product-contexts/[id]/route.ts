@@ -3,16 +3,21 @@ import { PrismaClient } from '@/generated/prisma'
 
 const prisma = new PrismaClient()
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const updateProductContextSchema = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   description: z.string().min(1, 'Description is required').optional(),
+  brandKitId: z.string().nullable().optional(),
 })
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   const { id } = await params
   try {
     const productContext = await prisma.productContext.findUnique({
@@ -40,11 +45,27 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   const { id } = await params
   try {
     const body = await request.json()
     const validatedData = updateProductContextSchema.parse(body)
 
+    if (validatedData.brandKitId) {
+      const brandKit = await prisma.brandKit.findUnique({
+        where: { id: validatedData.brandKitId },
+      })
+
+      if (!brandKit) {
+        return NextResponse.json(
+          { error: 'Brand kit not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     const productContext = await prisma.productContext.update({
       where: { id },
       data: validatedData,
@@ -78,6 +99,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   const { id } = await params
   try {
     await prisma.productContext.delete({
@@ -3,6 +3,7 @@ import { PrismaClient } from '@/generated/prisma'
 
 const prisma = new PrismaClient()
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const createProductContextSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -15,6 +16,9 @@ const updateProductContextSchema = z.object({
 })
 
 export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const productContexts = await prisma.productContext.findMany({
       orderBy: {
@@ -33,6 +37,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validatedData = createProductContextSchema.parse(body)
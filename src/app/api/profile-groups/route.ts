@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 // GET /api/profile-groups - List all profile groups
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const groups = await prisma.profileGroup.findMany({
       include: {
@@ -39,6 +43,9 @@ export async function GET(request: NextRequest) {
 
 // POST /api/profile-groups - Create a new profile group
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { name, description } = body
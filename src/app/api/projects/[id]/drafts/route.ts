@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +13,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id: projectId } = await params
 
@@ -89,6 +93,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: projectId } = await params
     const body = await request.json()
@@ -144,7 +151,7 @@ export async function POST(
         newRemixIds.map(id =>
           prisma.remixPost.update({
             where: { id },
-            data: { projectId }
+            data: { projectId, updatedById: auth.user.id }
           })
         )
       )
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -8,7 +9,8 @@ const UpdateProjectSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   description: z.string().optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i).optional(),
-  productContextId: z.string().nullable().optional()
+  productContextId: z.string().nullable().optional(),
+  brandKitId: z.string().nullable().optional()
 })
 
 // Helper function to convert BigInt and Date values for JSON serialization
@@ -47,6 +49,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
@@ -151,6 +156,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
@@ -192,7 +200,10 @@ export async function PUT(
 
     const project = await prisma.project.update({
       where: { id },
-      data: validatedData,
+      data: {
+        ...validatedData,
+        updatedById: auth.user.id
+      },
       include: {
         productContext: {
           select: {
@@ -231,6 +242,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
@@ -249,10 +263,26 @@ export async function PATCH(
       }
     }
 
+    // Validate brandKitId if provided
+    if (body.brandKitId !== undefined && body.brandKitId !== null) {
+      const brandKitExists = await prisma.brandKit.findUnique({
+        where: { id: body.brandKitId }
+      })
+
+      if (!brandKitExists) {
+        return NextResponse.json(
+          { error: 'Brand kit not found' },
+          { status: 404 }
+        )
+      }
+    }
+
     const updatedProject = await prisma.project.update({
       where: { id },
       data: {
-        productContextId: body.productContextId === null ? null : body.productContextId
+        updatedById: auth.user.id,
+        productContextId: body.productContextId === null ? null : body.productContextId,
+        brandKitId: body.brandKitId === null ? null : body.brandKitId
       },
       include: {
         productContext: {
@@ -261,6 +291,12 @@ export async function PATCH(
             title: true,
             description: true
           }
+        },
+        brandKit: {
+          select: {
+            id: true,
+            name: true
+          }
         }
       }
     })
@@ -280,6 +316,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
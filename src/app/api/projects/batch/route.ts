@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -13,6 +14,9 @@ const BatchCreateProjectsSchema = z.object({
  * Each project is named after the post's author handle and gets the post as its single reference.
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { postIds } = BatchCreateProjectsSchema.parse(body)
@@ -73,6 +77,8 @@ export async function POST(request: NextRequest) {
         // Create project
         const project = await tx.project.create({
           data: {
+            createdById: auth.user.id,
+            updatedById: auth.user.id,
             name: projectName,
             description: `Reference: ${post.contentType} post by @${post.authorHandle || 'unknown'}`
           }
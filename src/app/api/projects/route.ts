@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -11,6 +12,9 @@ const CreateProjectSchema = z.object({
 })
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
@@ -78,6 +82,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validatedData = CreateProjectSchema.parse(body)
@@ -105,6 +112,8 @@ export async function POST(request: NextRequest) {
 
     const project = await prisma.project.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         name: validatedData.name,
         description: validatedData.description,
         color: validatedData.color,
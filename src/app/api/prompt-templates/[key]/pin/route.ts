@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promptTemplateService } from '@/lib/prompt-template-service'
+import { isPromptKey } from '@/lib/prompts'
+import { PinPromptVersionSchema } from '@/lib/validations/prompt-template-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * PUT /api/prompt-templates/[key]/pin
+ * Pin the version generation uses, or unpin (versionId: null) to follow the
+ * latest version
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { key } = await params
+
+    if (!isPromptKey(key)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validation = PinPromptVersionSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    await promptTemplateService.pinVersion(key, validation.data.versionId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Prompt version not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to pin prompt version:', error)
+    return NextResponse.json(
+      { error: 'Failed to pin prompt version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promptTemplateService } from '@/lib/prompt-template-service'
+import { isPromptKey } from '@/lib/prompts'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/prompt-templates/[key]
+ * A prompt with its variables, built-in template and all versions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { key } = await params
+
+    if (!isPromptKey(key)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const template = await promptTemplateService.getTemplate(key)
+
+    return NextResponse.json({ template })
+  } catch (error) {
+    console.error('Failed to fetch prompt template:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt template' },
+      { status: 500 }
+    )
+  }
+}
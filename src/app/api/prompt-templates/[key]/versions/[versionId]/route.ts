@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promptTemplateService } from '@/lib/prompt-template-service'
+import { isPromptKey } from '@/lib/prompts'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/prompt-templates/[key]/versions/[versionId]?compareTo=
+ * A version with its line diff against another version (default: the
+ * version before it)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string; versionId: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { key, versionId } = await params
+
+    if (!isPromptKey(key)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const compareTo = request.nextUrl.searchParams.get('compareTo') || undefined
+    const comparison = await promptTemplateService.compareVersions(key, versionId, compareTo)
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Prompt version not found')) {
+      return NextResponse.json({ error: message }, { status: 404 })
+    }
+
+    console.error('Failed to compare prompt versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare prompt versions' },
+      { status: 500 }
+    )
+  }
+}
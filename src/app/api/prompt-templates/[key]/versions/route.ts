@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { promptTemplateService } from '@/lib/prompt-template-service'
+import { isPromptKey } from '@/lib/prompts'
+import { CreatePromptVersionSchema } from '@/lib/validations/prompt-template-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/prompt-templates/[key]/versions
+ * Save an edited template as a new version, optionally pinning it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { key } = await params
+
+    if (!isPromptKey(key)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validation = CreatePromptVersionSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const version = await promptTemplateService.createVersion(key, validation.data, auth.user.id)
+
+    return NextResponse.json({ version }, { status: 201 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+
+    if (message.startsWith('Invalid template')) {
+      return NextResponse.json({ error: message }, { status: 400 })
+    }
+
+    console.error('Failed to save prompt version:', error)
+    return NextResponse.json(
+      { error: 'Failed to save prompt version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { promptTemplateService } from '@/lib/prompt-template-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/prompt-templates
+ * Every editable prompt with its active and latest version
+ */
+export async function GET() {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const templates = await promptTemplateService.listTemplates()
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Failed to fetch prompt templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt templates' },
+      { status: 500 }
+    )
+  }
+}
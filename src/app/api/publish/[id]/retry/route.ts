@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { publishService } from '@/lib/publish-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/publish/[id]/retry
+ * Re-queue a failed publish to run immediately
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const scheduledPublish = await publishService.retry(id)
+
+    return NextResponse.json({ scheduledPublish })
+  } catch (error) {
+    console.error('Failed to retry publish:', error)
+    const message = error instanceof Error ? error.message : 'Failed to retry publish'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 400 }
+    )
+  }
+}
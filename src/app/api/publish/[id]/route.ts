@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { publishService } from '@/lib/publish-service'
+import { requireRole } from '@/lib/auth'
+
+const ReschedulePublishSchema = z.object({
+  scheduledFor: z.coerce.date().optional(),
+  accountId: z.string().min(1).optional(),
+  title: z.string().max(150).optional(),
+  description: z.string().max(4000).optional(),
+})
+
+/**
+ * PATCH /api/publish/[id]
+ * Reschedule a pending publish or edit its caption
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = ReschedulePublishSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const scheduledPublish = await publishService.reschedule(id, validation.data)
+
+    return NextResponse.json({ scheduledPublish })
+  } catch (error) {
+    console.error('Failed to reschedule publish:', error)
+    const message = error instanceof Error ? error.message : 'Failed to reschedule publish'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 400 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/publish/[id]
+ * Cancel a pending publish
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const scheduledPublish = await publishService.cancel(id)
+
+    return NextResponse.json({ scheduledPublish })
+  } catch (error) {
+    console.error('Failed to cancel publish:', error)
+    const message = error instanceof Error ? error.message : 'Failed to cancel publish'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 400 }
+    )
+  }
+}
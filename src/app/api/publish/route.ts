@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { publishService } from '@/lib/publish-service'
+import { requireRole } from '@/lib/auth'
+
+const SchedulePublishSchema = z.object({
+  remixId: z.string().min(1),
+  accountId: z.string().min(1),
+  scheduledFor: z.coerce.date(),
+  title: z.string().max(150).optional(),
+  description: z.string().max(4000).optional(),
+})
+
+const ListPublishesQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+/**
+ * GET /api/publish?from=ISO&to=ISO
+ * List scheduled publishes in a date range (calendar view)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const validation = ListPublishesQuerySchema.safeParse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid date range', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { from, to } = validation.data
+
+    const scheduledPublishes = await prisma.scheduledPublish.findMany({
+      where: {
+        scheduledFor: {
+          ...(from && { gte: from }),
+          ...(to && { lt: to }),
+        },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      include: {
+        remix: { select: { id: true, name: true, postedAt: true } },
+        account: { select: { id: true, username: true, displayName: true, avatarUrl: true } },
+      },
+    })
+
+    return NextResponse.json({ scheduledPublishes })
+  } catch (error) {
+    console.error('Failed to fetch scheduled publishes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scheduled publishes' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/publish
+ * Schedule an approved remix for publishing to a TikTok account
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = SchedulePublishSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const scheduledPublish = await publishService.schedulePublish(validation.data)
+
+    return NextResponse.json({ scheduledPublish }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to schedule publish:', error)
+    const message = error instanceof Error ? error.message : 'Failed to schedule publish'
+    return NextResponse.json(
+      { error: message },
+      { status: message.endsWith('not found') ? 404 : 400 }
+    )
+  }
+}
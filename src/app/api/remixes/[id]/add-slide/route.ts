@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
 import { CANVAS_SIZES, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -9,6 +13,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -62,11 +69,23 @@ export async function POST(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slides: JSON.stringify([...existingSlides, newSlide]),
         updatedAt: new Date()
       }
     })
 
+    await remixRenderService.invalidate(remixId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId,
+      previousSlides: remix.slides,
+      slides: updatedRemix.slides,
+      source: 'slide_edit',
+      summary: 'Added a slide',
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(remixId)
+
     console.log(`✅ [API] Successfully added slide to remix: ${remixId}`)
 
     return NextResponse.json({
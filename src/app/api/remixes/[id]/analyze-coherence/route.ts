@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { analyzeCoherence } from '@/lib/coherence-analysis-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -14,6 +15,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId } = await params
 
@@ -81,7 +85,8 @@ export async function POST(
     const analysis = await analyzeCoherence(
       slides,
       (draft.slideClassifications as any) || [],
-      productContext
+      productContext,
+      { type: 'remixPost', id: draftId }
     )
 
     console.log(`✅ [AnalyzeCoherence] Analysis complete: ${analysis.issues.length} issues found`)
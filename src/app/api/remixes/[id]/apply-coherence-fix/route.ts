@@ -7,6 +7,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -21,6 +25,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId } = await params
 
@@ -83,11 +90,22 @@ export async function POST(
     await prisma.remixPost.update({
       where: { id: draftId },
       data: {
+        updatedById: auth.user.id,
         slides: JSON.stringify(updatedSlides),
         updatedAt: new Date()
       }
     })
 
+    await remixRenderService.invalidate(draftId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId: draftId,
+      previousSlides: draft.slides,
+      slides: updatedSlides,
+      source: 'coherence_fix',
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(draftId)
+
     console.log(`✅ [ApplyCoherenceFix] Applied ${fixes.length} fixes`)
 
     return NextResponse.json({
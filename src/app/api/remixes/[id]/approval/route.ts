@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
+import { isApprovedStatus } from '@/lib/remix-workflow'
+import { publishService } from '@/lib/publish-service'
 
 const prisma = new PrismaClient()
 
@@ -7,6 +10,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('reviewer')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -31,7 +37,7 @@ export async function PATCH(
     // Check if remix exists
     const existingRemix = await prisma.remixPost.findUnique({
       where: { id: remixId },
-      select: { id: true, approved: true }
+      select: { id: true, approved: true, workflowStatus: true }
     })
 
     if (!existingRemix) {
@@ -41,10 +47,20 @@ export async function PATCH(
       )
     }
 
+    // Approving moves the draft to APPROVED; unapproving sends it back to review
+    const workflowChange = approved !== isApprovedStatus(existingRemix.workflowStatus)
+      ? { workflowStatus: approved ? 'APPROVED' as const : 'IN_REVIEW' as const, workflowUpdatedAt: new Date() }
+      : {}
+
+    // An unapproved draft must not be uploaded by a publish scheduled earlier
+    if (!approved) {
+      await publishService.cancelPendingForRemix(remixId)
+    }
+
     // Update approval status
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
-      data: { approved },
+      data: { approved, ...workflowChange, updatedById: auth.user.id },
       select: {
         id: true,
         approved: true
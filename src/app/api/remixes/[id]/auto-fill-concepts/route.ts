@@ -7,6 +7,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -23,6 +27,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId } = await params
 
@@ -253,6 +260,7 @@ export async function POST(
       await tx.remixPost.update({
         where: { id: draftId },
         data: {
+          updatedById: auth.user.id,
           slides: JSON.stringify(updatedSlides),
           slideClassifications: updatedClassifications,
           updatedAt: new Date()
@@ -271,6 +279,17 @@ export async function POST(
       }
     })
 
+    await remixRenderService.invalidate(draftId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId: draftId,
+      previousSlides: draft.slides,
+      slides: updatedSlides,
+      source: 'auto_fill',
+      summary: `Filled ${results.length} slides`,
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(draftId)
+
     console.log(`✅ [AutoFill] Filled ${results.length} slides`)
 
     return NextResponse.json({
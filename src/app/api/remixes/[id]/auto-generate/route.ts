@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { CANVAS_SIZES, RemixSlideSchema, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -20,6 +21,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   const resolvedParams = await params
   const remixId = resolvedParams.id
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -7,6 +8,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -35,6 +39,7 @@ export async function PATCH(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         bookmarked: !currentRemix.bookmarked
       },
       select: {
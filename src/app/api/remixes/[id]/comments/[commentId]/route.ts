@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { remixCommentService } from '@/lib/remix-comment-service'
+import { requireRole } from '@/lib/auth'
+
+const UpdateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000).optional(),
+  resolved: z.boolean().optional()
+})
+
+function errorResponse(error: unknown, fallback: string) {
+  console.error(`${fallback}:`, error)
+  const message = error instanceof Error ? error.message : fallback
+  const status = message.startsWith('Comment not found') ? 404
+    : message.startsWith('Only the author') ? 403
+    : message.startsWith('Only threads') ? 400
+    : 500
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * PATCH /api/remixes/[id]/comments/[commentId]
+ * Edit your comment, or resolve/reopen a thread with `resolved`
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const auth = await requireRole('reviewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId, commentId } = await params
+    const body = await request.json()
+    const validation = UpdateCommentSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const comment = await remixCommentService.updateComment(remixId, commentId, auth.user, validation.data)
+    return NextResponse.json({ comment })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update comment')
+  }
+}
+
+/**
+ * DELETE /api/remixes/[id]/comments/[commentId]
+ * Delete your comment (admins can delete any); deleting a thread removes its replies
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const auth = await requireRole('reviewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId, commentId } = await params
+    await remixCommentService.deleteComment(remixId, commentId, auth.user)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete comment')
+  }
+}
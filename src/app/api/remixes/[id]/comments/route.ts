@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { remixCommentService } from '@/lib/remix-comment-service'
+import { requireRole } from '@/lib/auth'
+
+const CreateCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  parentId: z.string().optional().nullable(),
+  slideId: z.string().optional().nullable(),
+  slideIndex: z.number().int().min(0).optional().nullable(),
+  textBoxId: z.string().optional().nullable()
+})
+
+/**
+ * GET /api/remixes/[id]/comments?includeResolved=true
+ * Comment threads of a draft, open threads only by default
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const threads = await remixCommentService.listThreads(remixId, {
+      includeResolved: searchParams.get('includeResolved') === 'true'
+    })
+
+    return NextResponse.json({ remixId, threads })
+  } catch (error) {
+    console.error('Failed to fetch remix comments:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch comments' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/remixes/[id]/comments
+ * Start a thread (optionally on a slide or text box) or reply with `parentId`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('reviewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json()
+    const validation = CreateCommentSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const comment = await remixCommentService.addComment({
+      ...validation.data,
+      remixId,
+      authorId: auth.user.id
+    })
+
+    return NextResponse.json({ comment }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add remix comment:', error)
+    const message = error instanceof Error ? error.message : 'Failed to add comment'
+    const status = message.startsWith('Remix not found') || message.startsWith('Comment not found') ? 404
+      : message.startsWith('Slide not found') || message.startsWith('Text box not found') || message.startsWith('A text box anchor') ? 400
+      : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { z } from 'zod'
+import sharp from 'sharp'
+import { uploadToR2, generatePresignedGetUrl } from '@/lib/r2'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { EXPORT_PRESET_IDS } from '@/lib/export-presets'
+import { buildImagePdf, type PdfImagePage } from '@/lib/pdf-writer'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+const DOWNLOAD_LINK_TTL_SECONDS = 86400 // 1 day
+
+const PdfExportRequestSchema = z.object({
+  preset: z.enum(EXPORT_PRESET_IDS).default('linkedin-document'),
+})
+
+/**
+ * POST /api/remixes/[id]/export/pdf
+ * Render every slide (re-flowed to the preset) into a multi-page PDF, e.g. a
+ * LinkedIn document carousel. Uploads to R2 and returns a 1-day download URL.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json().catch(() => ({}))
+    const validation = PdfExportRequestSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { preset } = validation.data
+
+    const remix = await prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, name: true, project: { select: { name: true } } },
+    })
+
+    if (!remix) {
+      return NextResponse.json(
+        { error: 'Draft not found' },
+        { status: 404 }
+      )
+    }
+
+    const slideUrls = await remixRenderService.getRenderedSlideUrls(remixId, 'jpeg', false, preset)
+
+    const pages: PdfImagePage[] = []
+    for (const [index, url] of slideUrls.entries()) {
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch rendered slide ${index + 1}: ${response.statusText}`)
+      }
+
+      const jpeg = Buffer.from(await response.arrayBuffer())
+      const { width, height } = await sharp(jpeg).metadata()
+      if (!width || !height) {
+        throw new Error(`Rendered slide ${index + 1} has no dimensions`)
+      }
+
+      pages.push({ jpeg, width, height })
+    }
+
+    const pdf = buildImagePdf(pages, { title: remix.name })
+
+    const projectName = remix.project?.name?.replace(/[^a-z0-9]/gi, '-') || 'project'
+    const draftName = remix.name.replace(/[^a-z0-9]/gi, '-')
+    const filename = `${projectName}-${draftName}-${preset}-${Date.now()}.pdf`
+    const { key } = await uploadToR2(pdf, 'exports', filename, 'application/pdf')
+
+    const downloadUrl = await generatePresignedGetUrl(key, DOWNLOAD_LINK_TTL_SECONDS)
+
+    return NextResponse.json({
+      downloadUrl,
+      expiresAt: new Date(Date.now() + DOWNLOAD_LINK_TTL_SECONDS * 1000).toISOString(),
+      filename,
+      size: pdf.length,
+      pageCount: pages.length,
+      preset,
+    })
+  } catch (error) {
+    console.error('Failed to generate PDF export:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to generate PDF export',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -5,9 +5,18 @@ import { uploadToR2 } from '@/lib/r2'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
 import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { z } from 'zod'
+import { EXPORT_PRESETS, EXPORT_PRESET_IDS } from '@/lib/export-presets'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
+const ExportRequestSchema = z.object({
+  // Re-flow the rendered slides to a platform preset
+  preset: z.enum(EXPORT_PRESET_IDS).default('original'),
+})
+
 // Initialize R2 client
 function getR2Client() {
   return new S3Client({
@@ -22,15 +31,37 @@ function getR2Client() {
 
 /**
  * POST /api/remixes/[id]/export
- * Generate ZIP file with draft content and background images
+ * Generate ZIP file with draft content, background images and rendered slides
  * Uploads to R2 with 1-day expiration, returns presigned download URL
+ * Body: { preset? } - export preset for the rendered slides (default: original)
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: remixId } = await params
+    const body = await request.json().catch(() => ({}))
+    const validation = ExportRequestSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { preset } = validation.data
+
+    if (EXPORT_PRESETS[preset].output === 'pdf') {
+      return NextResponse.json(
+        { error: `Preset ${preset} exports a PDF; use /api/remixes/${remixId}/export/pdf` },
+        { status: 400 }
+      )
+    }
 
     // Fetch remix with project information
     const remix = await prisma.remixPost.findUnique({
@@ -105,6 +136,26 @@ export async function POST(
       }
     }
 
+    // Add the final rendered slides (text over background), reusing cached renders
+    let renderedCount = 0
+    try {
+      const renderedUrls = await remixRenderService.getRenderedSlideUrls(remixId, 'jpeg', false, preset)
+
+      for (const [index, renderedUrl] of renderedUrls.entries()) {
+        const renderResponse = await fetch(renderedUrl)
+        if (!renderResponse.ok) {
+          console.warn(`Failed to fetch rendered slide ${index}:`, renderResponse.statusText)
+          continue
+        }
+
+        zip.file(`slides/${projectName}-${draftName}-${index}.jpg`, await renderResponse.arrayBuffer())
+        renderedCount++
+      }
+    } catch (error) {
+      // Backgrounds and text are still useful without the renders
+      console.error('Failed to render slides for export:', error)
+    }
+
     // Generate content.md
     const markdownSections: string[] = []
 
@@ -159,7 +210,8 @@ export async function POST(
     })
 
     // Upload to R2 in exports folder
-    const zipFilename = `${projectName}-${draftName}-${Date.now()}.zip`
+    const presetSuffix = preset === 'original' ? '' : `-${preset}`
+    const zipFilename = `${projectName}-${draftName}${presetSuffix}-${Date.now()}.zip`
     const { key } = await uploadToR2(
       zipBuffer,
       'exports',
@@ -186,7 +238,9 @@ export async function POST(
       filename: zipFilename,
       size: zipBuffer.length,
       imageCount,
-      slideCount: slides.length
+      renderedCount,
+      slideCount: slides.length,
+      preset
     })
   } catch (error) {
     console.error('Failed to generate export:', error)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
 import { parseTikTokUrl } from '@/lib/tiktok-url-parser'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -13,6 +14,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -74,6 +78,7 @@ export async function PUT(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         originalPostId: tiktokPost.id
       },
       include: {
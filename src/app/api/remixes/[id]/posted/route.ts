@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { parseTikTokUrl } from '@/lib/tiktok-url-parser'
+import { requireRole } from '@/lib/auth'
+import { publishService } from '@/lib/publish-service'
 
 const prisma = new PrismaClient()
 
@@ -8,6 +10,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -44,7 +49,7 @@ export async function PATCH(
     // Check if remix exists
     const existingRemix = await prisma.remixPost.findUnique({
       where: { id: remixId },
-      select: { id: true }
+      select: { id: true, workflowStatus: true }
     })
 
     if (!existingRemix) {
@@ -66,10 +71,25 @@ export async function PATCH(
       updateData.postedAt = null
     }
 
+    // Keep the review workflow in sync with the posted state
+    if (postedUrl && existingRemix.workflowStatus !== 'POSTED') {
+      Object.assign(updateData, { workflowStatus: 'POSTED', workflowUpdatedAt: new Date(), approved: true })
+    } else if (!postedUrl && existingRemix.workflowStatus === 'POSTED') {
+      Object.assign(updateData, { workflowStatus: 'APPROVED', workflowUpdatedAt: new Date() })
+    }
+
+    // Posted by hand: the scheduled upload would post it a second time
+    if (postedUrl && existingRemix.workflowStatus === 'SCHEDULED') {
+      await publishService.cancelPendingForRemix(remixId)
+    }
+
     // Update the remix
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
-      data: updateData,
+      data: {
+        ...updateData,
+        updatedById: auth.user.id
+      },
       select: {
         id: true,
         postedUrl: true,
@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { fixCoherence } from '@/lib/coherence-fixing-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -14,6 +15,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId } = await params
 
@@ -89,7 +93,8 @@ export async function POST(
     const result = await fixCoherence(
       slides,
       classifications,
-      productContext
+      productContext,
+      { type: 'remixPost', id: draftId }
     )
 
     // Helper to get slide type
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { renderQueue } from '@/lib/queue/render-queue'
+import { cacheAssetService } from '@/lib/cache-asset-service'
+import { requireRole } from '@/lib/auth'
+
+const FormatSchema = z.enum(['png', 'jpeg']).default('jpeg')
+
+const RenderRequestSchema = z.object({
+  format: FormatSchema,
+  // Render inline and return the images instead of queueing
+  wait: z.boolean().default(false),
+})
+
+/**
+ * GET /api/remixes/[id]/renders
+ * Render state of each slide, with image URLs for slides that are up to date
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const { searchParams } = new URL(request.url)
+    const format = FormatSchema.parse(searchParams.get('format') ?? undefined)
+
+    const slides = await remixRenderService.getRenderStatus(remixId, format)
+    const urls = await cacheAssetService.getUrls(slides.map(slide => slide.cacheAssetId))
+
+    return NextResponse.json({
+      remixId,
+      format,
+      ready: slides.length > 0 && slides.every(slide => slide.cacheAssetId),
+      slides: slides.map((slide, index) => ({
+        ...slide,
+        url: slide.cacheAssetId ? urls[index] : null,
+      })),
+    })
+  } catch (error) {
+    console.error('Failed to fetch remix renders:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch remix renders'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Remix not found') ? 404 : 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/remixes/[id]/renders
+ * Render the remix's slides, in the background or inline with `wait: true`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json().catch(() => ({}))
+    const validation = RenderRequestSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { format, wait } = validation.data
+
+    if (!wait) {
+      await renderQueue.addRenderJob(remixId, { format })
+      return NextResponse.json({ queued: true, remixId }, { status: 202 })
+    }
+
+    const result = await remixRenderService.renderRemix(remixId, { format })
+    const urls = await cacheAssetService.getUrls(result.cacheAssetIds)
+
+    return NextResponse.json({ ...result, urls })
+  } catch (error) {
+    console.error('Failed to render remix:', error)
+    const message = error instanceof Error ? error.message : 'Failed to render remix'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Remix not found') ? 404 : 500 }
+    )
+  }
+}
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +16,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -121,12 +128,24 @@ export async function PUT(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slides: JSON.stringify(reorderedSlides),
         slideClassifications: JSON.stringify(updatedClassifications),
         updatedAt: new Date()
       }
     })
 
+    await remixRenderService.invalidate(remixId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId,
+      previousSlides: remix.slides,
+      slides: reorderedSlides,
+      source: 'slide_edit',
+      summary: 'Reordered slides',
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(remixId)
+
     console.log(`✅ [API] Successfully reordered slides for remix: ${remixId}`)
 
     return NextResponse.json({
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { remixWorkflowService } from '@/lib/remix-workflow-service'
+import { requireRole } from '@/lib/auth'
+
+const AssignReviewerSchema = z.object({
+  reviewerId: z.string().min(1).nullable()
+})
+
+/**
+ * PATCH /api/remixes/[id]/reviewer
+ * Assign a reviewer to a draft, or unassign with `reviewerId: null`
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json()
+    const validation = AssignReviewerSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const remix = await remixWorkflowService.assignReviewer(remixId, validation.data.reviewerId, auth.user.id)
+
+    return NextResponse.json({ success: true, remix })
+  } catch (error) {
+    console.error('Failed to assign reviewer:', error)
+    const message = error instanceof Error ? error.message : 'Failed to assign reviewer'
+    const status = message.startsWith('Remix not found') || message.startsWith('User not found') ? 404
+      : message.startsWith('User cannot review') ? 400
+      : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/remixes/[id]/revisions/[revisionId]/restore
+ * Put a revision's slides back on the draft (recorded as a new revision)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId, revisionId } = await params
+
+    const remix = await remixRevisionService.restoreRevision(remixId, revisionId, auth.user.id)
+
+    return NextResponse.json({
+      success: true,
+      remixId: remix.id,
+      updatedAt: remix.updatedAt
+    })
+  } catch (error) {
+    console.error('Failed to restore remix revision:', error)
+    const message = error instanceof Error ? error.message : 'Failed to restore remix revision'
+    const notFound = message.startsWith('Remix not found') || message.startsWith('Revision not found')
+    return NextResponse.json(
+      { error: message },
+      { status: notFound ? 404 : 500 }
+    )
+  }
+}
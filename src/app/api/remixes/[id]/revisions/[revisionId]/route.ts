@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/remixes/[id]/revisions/[revisionId]?compareTo=<revisionId|current>
+ * A revision's slides with a slide-by-slide diff, by default against the
+ * revision before it
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId, revisionId } = await params
+    const { searchParams } = new URL(request.url)
+
+    const result = await remixRevisionService.getRevisionWithDiff(
+      remixId,
+      revisionId,
+      searchParams.get('compareTo') || undefined
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Failed to fetch remix revision:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch remix revision'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Revision not found') ? 404 : 500 }
+    )
+  }
+}
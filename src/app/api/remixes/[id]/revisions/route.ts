@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/remixes/[id]/revisions
+ * Slide history of a draft, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const revisions = await remixRevisionService.listRevisions(remixId)
+
+    return NextResponse.json({ remixId, revisions })
+  } catch (error) {
+    console.error('Failed to fetch remix revisions:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch remix revisions' },
+      { status: 500 }
+    )
+  }
+}
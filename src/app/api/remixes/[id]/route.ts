@@ -3,6 +3,10 @@ import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
 import { UpdateRemixSchema, RemixPostType, RemixSlideSchema, CANVAS_SIZES, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -60,6 +64,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -183,6 +190,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -211,10 +221,16 @@ export async function PUT(
 
     console.log(`📝 [API] Updating remix: ${remixId}`)
 
+    // Previous slides seed the revision history on the first tracked edit
+    const previous = slides !== undefined
+      ? await prisma.remixPost.findUnique({ where: { id: remixId }, select: { slides: true } })
+      : null
+
     // Update the remix with the new data
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         ...(name !== undefined && { name }),
         ...(description !== undefined && { description }),
         ...(slides !== undefined && { slides: JSON.stringify(slides) }),
@@ -230,6 +246,18 @@ export async function PUT(
       }
     })
 
+    if (slides !== undefined) {
+      await remixRenderService.invalidate(remixId)
+      await remixRevisionService.recordRevisionSafe({
+        remixId,
+        previousSlides: previous?.slides,
+        slides: updatedRemix.slides,
+        source: 'manual_edit',
+        createdById: auth.user.id
+      })
+      await slideIndexService.indexRemixSafe(remixId)
+    }
+
     // Normalize slides data with proper bootstrapping and defaults
     const normalizedSlides = normalizeSlides(updatedRemix.slides)
 
@@ -334,6 +362,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -345,6 +376,8 @@ export async function DELETE(
       )
     }
 
+    await slideIndexService.removeRemixSafe(remixId)
+
     // Delete the remix (cascade will handle slides and text boxes)
     await prisma.remixPost.delete({
       where: { id: remixId }
@@ -10,6 +10,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
 import { paraphraseSingleExample, ParaphraseIntensity } from '@/lib/minimal-paraphrase-service'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -26,6 +30,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; slideIndex: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId, slideIndex: slideIndexStr } = await params
     const slideIndex = parseInt(slideIndexStr, 10)
@@ -81,6 +88,9 @@ export async function POST(
       )
     }
 
+    // Slides are replaced in place below - keep the previous version for the revision history
+    const previousSlides = [...slides]
+
     // Validate slide index
     if (slideIndex >= slides.length) {
       return NextResponse.json(
@@ -184,6 +194,7 @@ export async function POST(
       prisma.remixPost.update({
         where: { id: draftId },
         data: {
+          updatedById: auth.user.id,
           slides: JSON.stringify(slides),
           slideClassifications: updatedClassifications,
           updatedAt: new Date()
@@ -199,6 +210,17 @@ export async function POST(
       })
     ])
 
+    await remixRenderService.invalidate(draftId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId: draftId,
+      previousSlides,
+      slides,
+      source: 'slide_edit',
+      summary: `Applied a concept example to slide ${slideIndex + 1}`,
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(draftId)
+
     console.log(`✅ [ApplyExample] Successfully applied example to slide ${slideIndex}`)
 
     return NextResponse.json({
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
 
 const prisma = new PrismaClient()
 
@@ -16,6 +18,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; slideIndex: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: remixId, slideIndex: slideIndexStr } = await params
     const slideIndex = parseInt(slideIndexStr, 10)
@@ -89,11 +94,14 @@ export async function PATCH(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slideClassifications: slideClassifications,
         updatedAt: new Date()
       }
     })
 
+    await slideIndexService.indexRemixSafe(remixId)
+
     return NextResponse.json({
       success: true,
       slideClassifications: slideClassifications
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -11,6 +15,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; slideIndex: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -66,6 +73,9 @@ export async function PATCH(
       )
     }
 
+    // Slides are replaced in place below - keep the previous version for the revision history
+    const previousSlides = [...slides]
+
     // Validate slide index
     if (slideIndex >= slides.length) {
       return NextResponse.json(
@@ -86,11 +96,23 @@ export async function PATCH(
     await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slides: JSON.stringify(slides),
         updatedAt: new Date()
       }
     })
 
+    await remixRenderService.invalidate(remixId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId,
+      previousSlides,
+      slides,
+      source: 'slide_edit',
+      summary: `Edited slide ${slideIndex + 1}`,
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(remixId)
+
     return NextResponse.json({
       success: true,
       message: 'Slide text updated successfully',
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -30,6 +34,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const remixId = resolvedParams.id
@@ -98,6 +105,9 @@ export async function PATCH(
       )
     }
 
+    // Slides are replaced in place below - keep the previous version for the revision history
+    const previousSlides = [...slides]
+
     // Validate all slide indices are in range
     const maxIndex = slides.length - 1
     const invalidIndices = updates.filter((u) => u.slideIndex > maxIndex)
@@ -132,11 +142,23 @@ export async function PATCH(
     const updatedRemix = await prisma.remixPost.update({
       where: { id: remixId },
       data: {
+        updatedById: auth.user.id,
         slides: slides as any, // Json field - Prisma handles serialization
         updatedAt: new Date(),
       },
     })
 
+    await remixRenderService.invalidate(remixId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId,
+      previousSlides,
+      slides,
+      source: 'slide_edit',
+      summary: `Updated backgrounds of ${updates.length} slides`,
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(remixId)
+
     console.log(`✅ [BatchSlides] Successfully updated remix ${remixId}`)
 
     return NextResponse.json({
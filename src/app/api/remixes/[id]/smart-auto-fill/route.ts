@@ -11,10 +11,14 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI } from '@google/genai'
+import { generateJSON, generateText, type LLMUsageEntity } from '@/lib/llm'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { remixRevisionService } from '@/lib/remix-revision-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { requireRole } from '@/lib/auth'
+import { promptTemplateService } from '@/lib/prompt-template-service'
 
 const prisma = new PrismaClient()
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' })
 
 const RELEVANCE_THRESHOLD = 0.5
 
@@ -48,57 +52,26 @@ interface SelectedConcept {
 async function selectRelevantConcepts(
   hookText: string,
   concepts: ConceptSummary[],
-  numToSelect: number
+  numToSelect: number,
+  entity: LLMUsageEntity
 ): Promise<SelectedConcept[]> {
-  const prompt = `You are matching TikTok carousel CONTENT concepts to a HOOK slide.
-
-HOOK:
-"${hookText}"
-
-Available CONTENT concepts:
-${concepts.map((c, i) => `${i + 1}. "${c.title}" - ${c.coreMessage} (${c.exampleCount} examples)`).join('\n')}
-
-TASK:
-Select the ${numToSelect} concepts that would BEST deliver on what the HOOK promises.
-Ensure VARIETY - pick different concepts, not the same topic multiple times.
-
-Scoring:
-- 1.0 = Perfect topical match
-- 0.7-0.9 = Strong relevance
-- 0.4-0.6 = Tangentially related
-- Below 0.4 = Weak match
-
-Return JSON (select exactly ${numToSelect}, sorted by relevanceScore descending):
-{
-  "selectedConcepts": [
-    { "conceptIndex": 1, "relevanceScore": 0.9, "reason": "Brief explanation" }
-  ]
-}
-
-Return ONLY valid JSON.`
-
-  const response = await genAI.models.generateContent({
-    model: 'gemini-2.0-flash',
-    contents: [{ role: 'user' as const, parts: [{ text: prompt }] }]
+  const { text: prompt } = await promptTemplateService.render('smart-auto-fill-concepts', {
+    hookText,
+    conceptList: concepts.map((c, i) => `${i + 1}. "${c.title}" - ${c.coreMessage} (${c.exampleCount} examples)`).join('\n'),
+    numToSelect
   })
 
-  const responseText = response.text || ''
-
-  try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) throw new Error('No JSON found in AI response')
-
-    const parsed = JSON.parse(jsonMatch[0])
+  const { data: parsed } = await generateJSON<{ selectedConcepts?: any[] }>({
+    feature: 'smart-auto-fill',
+    prompt,
+    entity
+  })
 
-    return (parsed.selectedConcepts || []).map((s: any) => ({
-      conceptId: concepts[s.conceptIndex - 1]?.id || '',
-      relevanceScore: s.relevanceScore,
-      reason: s.reason
-    })).filter((s: SelectedConcept) => s.conceptId)
-  } catch (error) {
-    console.error('[SmartAutoFill] Failed to parse concept selection:', responseText)
-    throw error
-  }
+  return (parsed.selectedConcepts || []).map((s: any) => ({
+    conceptId: concepts[s.conceptIndex - 1]?.id || '',
+    relevanceScore: s.relevanceScore,
+    reason: s.reason
+  })).filter((s: SelectedConcept) => s.conceptId)
 }
 
 // ============================================
@@ -107,7 +80,8 @@ Return ONLY valid JSON.`
 async function selectBestExample(
   hookText: string,
   concept: { id: string; title: string; coreMessage: string },
-  examples: { id: string; text: string }[]
+  examples: { id: string; text: string }[],
+  entity: LLMUsageEntity
 ): Promise<{ exampleId: string; text: string; score: number } | null> {
   if (examples.length === 0) return null
 
@@ -120,40 +94,19 @@ async function selectBestExample(
     }
   }
 
-  const prompt = `You are selecting the best example from a concept for a TikTok carousel.
-
-HOOK (what the carousel promises):
-"${hookText}"
-
-CONCEPT: "${concept.title}"
-Core message: ${concept.coreMessage}
-
-Available examples:
-${examples.map((e, i) => `${i + 1}. "${e.text.slice(0, 250)}${e.text.length > 250 ? '...' : ''}"`).join('\n\n')}
-
-TASK:
-Select the ONE example that best delivers on what the HOOK promises.
-
-Return JSON:
-{
-  "selectedIndex": 1,
-  "relevanceScore": 0.9
-}
-
-Return ONLY valid JSON.`
-
-  const response = await genAI.models.generateContent({
-    model: 'gemini-2.0-flash',
-    contents: [{ role: 'user' as const, parts: [{ text: prompt }] }]
+  const { text: prompt } = await promptTemplateService.render('smart-auto-fill-example', {
+    hookText,
+    conceptTitle: concept.title,
+    coreMessage: concept.coreMessage,
+    exampleList: examples.map((e, i) => `${i + 1}. "${e.text.slice(0, 250)}${e.text.length > 250 ? '...' : ''}"`).join('\n\n')
   })
 
-  const responseText = response.text || ''
-
   try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) throw new Error('No JSON found')
-
-    const parsed = JSON.parse(jsonMatch[0])
+    const { data: parsed } = await generateJSON<{ selectedIndex: number; relevanceScore: number }>({
+      feature: 'smart-auto-fill',
+      prompt,
+      entity
+    })
     const selectedExample = examples[parsed.selectedIndex - 1]
 
     if (!selectedExample) {
@@ -171,7 +124,7 @@ Return ONLY valid JSON.`
       score: parsed.relevanceScore
     }
   } catch (error) {
-    console.error('[SmartAutoFill] Failed to parse example selection:', responseText)
+    console.error('[SmartAutoFill] Failed to parse example selection:', error)
     // Fallback to first example
     return {
       exampleId: examples[0].id,
@@ -187,29 +140,23 @@ Return ONLY valid JSON.`
 async function generateExample(
   hookText: string,
   concept: { title: string; coreMessage: string },
-  existingExamples: { text: string }[]
+  existingExamples: { text: string }[],
+  entity: LLMUsageEntity
 ): Promise<string> {
-  const prompt = `Generate a TikTok carousel CONTENT slide that:
-1. Delivers on this HOOK's promise: "${hookText}"
-2. Fits this concept: "${concept.title}" - ${concept.coreMessage}
-
-${existingExamples.length > 0 ? `Style reference from existing examples:
-${existingExamples.slice(0, 2).map(e => `- "${e.text.slice(0, 100)}..."`).join('\n')}` : ''}
-
-Requirements:
-- Concise TikTok carousel text (2-4 short lines)
-- Casual, informative style
-- Directly address what the hook promised
-- No hashtags or emojis unless fitting the style
-
-Return ONLY the slide text.`
+  const { text: prompt } = await promptTemplateService.render('smart-auto-fill-generate', {
+    hookText,
+    conceptTitle: concept.title,
+    coreMessage: concept.coreMessage,
+    styleExamples: existingExamples.slice(0, 2).map(e => `- "${e.text.slice(0, 100)}..."`).join('\n')
+  })
 
-  const response = await genAI.models.generateContent({
-    model: 'gemini-2.0-flash',
-    contents: [{ role: 'user' as const, parts: [{ text: prompt }] }]
+  const response = await generateText({
+    feature: 'smart-auto-fill',
+    prompt,
+    entity
   })
 
-  return response.text?.trim() || ''
+  return response.text
 }
 
 // ============================================
@@ -219,8 +166,12 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: draftId } = await params
+    const usageEntity: LLMUsageEntity = { type: 'remixPost', id: draftId }
     const body = await request.json()
     const { hookText, saveGeneratedExamples = true, forceRefill = false } = body
 
@@ -342,7 +293,8 @@ export async function POST(
       selectedConcepts = await selectRelevantConcepts(
         hookText,
         contentSummaries,
-        Math.min(numContentSlides, contentSummaries.length)
+        Math.min(numContentSlides, contentSummaries.length),
+        usageEntity
       )
       console.log(`[SmartAutoFill] Selected ${selectedConcepts.length} concepts`)
     }
@@ -401,7 +353,8 @@ export async function POST(
             title: selectedConcept.title,
             coreMessage: selectedConcept.coreMessage
           },
-          selectedConcept.examples
+          selectedConcept.examples,
+          usageEntity
         )
 
         if (bestExample && bestExample.score >= RELEVANCE_THRESHOLD) {
@@ -414,7 +367,8 @@ export async function POST(
           exampleText = await generateExample(
             hookText,
             { title: selectedConcept.title, coreMessage: selectedConcept.coreMessage },
-            selectedConcept.examples
+            selectedConcept.examples,
+            usageEntity
           )
           wasGenerated = true
 
@@ -436,7 +390,8 @@ export async function POST(
         exampleText = await generateExample(
           hookText,
           { title: selectedConcept.title, coreMessage: selectedConcept.coreMessage },
-          []
+          [],
+          usageEntity
         )
         wasGenerated = true
       }
@@ -523,6 +478,7 @@ export async function POST(
       await tx.remixPost.update({
         where: { id: draftId },
         data: {
+          updatedById: auth.user.id,
           slides: JSON.stringify(updatedSlides),
           slideClassifications: updatedClassifications,
           updatedAt: new Date()
@@ -542,6 +498,17 @@ export async function POST(
       }
     })
 
+    await remixRenderService.invalidate(draftId)
+    await remixRevisionService.recordRevisionSafe({
+      remixId: draftId,
+      previousSlides: draft.slides,
+      slides: updatedSlides,
+      source: 'auto_fill',
+      summary: `Filled ${results.length} slides`,
+      createdById: auth.user.id
+    })
+    await slideIndexService.indexRemixSafe(draftId)
+
     const generatedCount = results.filter(r => r.wasGenerated).length
     console.log(`✅ [SmartAutoFill] Filled ${results.length} slides (${generatedCount} generated)`)
 
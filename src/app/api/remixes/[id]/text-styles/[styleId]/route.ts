@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -7,6 +8,9 @@ export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ id: string; styleId: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id, styleId } = await context.params
     const body = await request.json()
@@ -38,6 +42,9 @@ export async function DELETE(
   request: NextRequest,
   context: { params: Promise<{ id: string; styleId: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { styleId } = await context.params
 
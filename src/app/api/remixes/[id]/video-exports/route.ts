@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { videoExportService } from '@/lib/video-export-service'
+import { VideoExportOptionsSchema } from '@/lib/validations/video-export-schema'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/remixes/[id]/video-exports
+ * Recent MP4 exports of a remix, newest first, with download links
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const exports = await videoExportService.listExports(remixId)
+
+    return NextResponse.json({ exports })
+  } catch (error) {
+    console.error('Failed to fetch video exports:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch video exports' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/remixes/[id]/video-exports
+ * Queue an MP4 slideshow export; poll /api/video-exports/[exportId] for the result
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json().catch(() => ({}))
+    const validation = VideoExportOptionsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const videoExport = await videoExportService.createExport(remixId, validation.data)
+
+    return NextResponse.json({ export: videoExport }, { status: 202 })
+  } catch (error) {
+    console.error('Failed to create video export:', error)
+    const message = error instanceof Error ? error.message : 'Failed to create video export'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Remix not found') ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { RemixWorkflowStatus } from '@/generated/prisma'
+import { remixWorkflowService } from '@/lib/remix-workflow-service'
+import { requireRole } from '@/lib/auth'
+
+const TransitionSchema = z.object({
+  status: z.enum(RemixWorkflowStatus)
+})
+
+/**
+ * PATCH /api/remixes/[id]/workflow
+ * Move a draft to another workflow stage. Approving and requesting changes
+ * need a reviewer, other moves an editor.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('reviewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: remixId } = await params
+    const body = await request.json()
+    const validation = TransitionSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const remix = await remixWorkflowService.transition(remixId, validation.data.status, auth.user)
+
+    return NextResponse.json({ success: true, remix })
+  } catch (error) {
+    console.error('Failed to update workflow status:', error)
+    const message = error instanceof Error ? error.message : 'Failed to update workflow status'
+    const status = message.startsWith('Remix not found') ? 404
+      : message.startsWith('Invalid transition') ? 409
+      : message.startsWith('Insufficient permissions') ? 403
+      : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
 
@@ -12,10 +16,16 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '25')
     const sortParam = searchParams.get('sort')
     const searchQuery = searchParams.get('search')
+    const approvedParam = searchParams.get('approved')
 
     // Build where clause
     const where: any = {}
 
+    // Add approval filter
+    if (approvedParam !== null) {
+      where.approved = approvedParam === 'true'
+    }
+
     // Add search filter
     if (searchQuery && searchQuery.trim().length > 0) {
       const searchLower = searchQuery.toLowerCase()
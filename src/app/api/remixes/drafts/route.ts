@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getDraftRemixes } from '@/lib/multi-post-generation-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * GET /api/remixes/drafts
  * Get all draft remixes with pagination and filters
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const searchParams = request.nextUrl.searchParams
     const page = parseInt(searchParams.get('page') || '1', 10)
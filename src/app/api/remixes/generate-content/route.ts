@@ -4,6 +4,9 @@ import { z } from 'zod'
 import { generateContent, SourcePost } from '@/lib/content-generation-service'
 import { draftSessionService } from '@/lib/draft-session-service'
 import * as Sentry from '@sentry/nextjs'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { brandKitService, applyBrandKitToSlides } from '@/lib/brand-kit-service'
 
 const prisma = new PrismaClient()
 
@@ -38,6 +41,9 @@ const generateContentSchema = z.object({
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const {
@@ -184,11 +190,13 @@ export async function POST(request: NextRequest) {
 
     console.log(`📁 [API] Created draft session: ${session.id}`)
 
+    const brandKit = await brandKitService.resolveBrandKitSafe({ projectId, productContextId })
+
     // Save each variation as a draft RemixPost linked to the session
     const createdDrafts = await Promise.all(
       generationResult.variations.map(async (variation) => {
         // Build slides array in RemixPost format
-        const slides = variation.slides.map((slide) => ({
+        const baseSlides = variation.slides.map((slide) => ({
           id: crypto.randomUUID(),
           displayOrder: slide.slideIndex,
           paraphrasedText: slide.text,
@@ -214,9 +222,13 @@ export async function POST(request: NextRequest) {
           categoryName: variation.metadata.mainTheme,
         }))
 
+        const slides = brandKit ? applyBrandKitToSlides(baseSlides, brandKit, slideClassifications) : baseSlides
+
         // Create the draft RemixPost
         const draft = await prisma.remixPost.create({
           data: {
+            createdById: auth.user.id,
+            updatedById: auth.user.id,
             name: `${variation.metadata.mainTheme}`,
             description: variation.metadata.description, // AI-generated cohesive narrative
             generationType: generationStrategy === 'remix' ? 'ai_remix' : 'ai_inspired',
@@ -226,6 +238,7 @@ export async function POST(request: NextRequest) {
             sessionId: session.id, // Link to session
             languageStyleTags: [languageStyle],
             generationPrompt: languageStyle + (contentIdeas ? `\n${contentIdeas}` : ''),
+            promptVersionId: generationResult.promptVersionId ?? null,
             isDraft: true,
             slides: slides,
             slideClassifications: slideClassifications,
@@ -236,6 +249,10 @@ export async function POST(request: NextRequest) {
       })
     )
 
+    for (const draft of createdDrafts) {
+      await slideIndexService.indexRemixSafe(draft.id)
+    }
+
     console.log(`✅ [API] Created ${createdDrafts.length} draft RemixPosts in session ${session.id}`)
 
     return NextResponse.json({
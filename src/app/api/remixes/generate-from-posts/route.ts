@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { generateFromMultiplePosts, type GenerationConfig } from '@/lib/multi-post-generation-service'
+import { requireRole } from '@/lib/auth'
 
 // Schema with optional config for simple usage
 const GenerateFromPostsSchema = z.object({
@@ -24,6 +25,9 @@ const GenerateFromPostsSchema = z.object({
  * Generate remix variations from multiple source posts
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validation = GenerateFromPostsSchema.safeParse(body)
@@ -57,7 +61,7 @@ export async function POST(request: NextRequest) {
     // Generate variations
     const generatedRemixes = await generateFromMultiplePosts(
       postIds,
-      config
+      { ...config, createdById: auth.user.id }
     )
 
     console.log(`✅ [API] Successfully generated ${generatedRemixes.length} variations`)
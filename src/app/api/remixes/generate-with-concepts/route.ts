@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { z } from 'zod'
 import * as Sentry from '@sentry/nextjs'
+import { generateJSON } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
+import { promptTemplateService, type RenderedPrompt } from '@/lib/prompt-template-service'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { brandKitService } from '@/lib/brand-kit-service'
 
 const prisma = new PrismaClient()
 
@@ -77,6 +82,9 @@ const CONCEPT_DRAFT_SCHEMA = {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { projectId, topic, languageStyle, slides } = generateWithConceptsSchema.parse(body)
@@ -165,33 +173,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Build reference posts context
-    let referenceContext = ''
-    if (project.posts.length > 0) {
-      const postContexts = project.posts.map((p, idx) => {
-        const post = p.post
-        const ocrTexts = typeof post.ocrTexts === 'string'
-          ? JSON.parse(post.ocrTexts)
-          : post.ocrTexts
-
-        const ocrText = Array.isArray(ocrTexts)
-          ? ocrTexts
-              .filter((t: any) => t.success && t.text)
-              .map((t: any) => `  Slide ${t.imageIndex + 1}: ${t.text}`)
-              .join('\n')
-          : ''
-
-        return `Reference Post ${idx + 1}:
+    const referencePosts = project.posts.map((p, idx) => {
+      const post = p.post
+      const ocrTexts = typeof post.ocrTexts === 'string'
+        ? JSON.parse(post.ocrTexts)
+        : post.ocrTexts
+
+      const ocrText = Array.isArray(ocrTexts)
+        ? ocrTexts
+            .filter((t: any) => t.success && t.text)
+            .map((t: any) => `  Slide ${t.imageIndex + 1}: ${t.text}`)
+            .join('\n')
+        : ''
+
+      return `Reference Post ${idx + 1}:
 - Category: ${post.postCategory?.name || 'Uncategorized'}
 - Description: ${post.description || 'No description'}
 - Content:
 ${ocrText || '  No text extracted'}`
-      }).join('\n\n')
-
-      referenceContext = `\n**REFERENCE POSTS FOR STYLE:**
-Study these posts for tone, voice, and style. Mirror their casual, authentic energy.
-
-${postContexts}\n`
-    }
+    }).join('\n\n')
 
     // Build slide structure with concepts
     const slideStructure = slides.map(slide => {
@@ -217,47 +217,27 @@ ${postContexts}\n`
     })
 
     // Build the prompt
-    const prompt = buildConceptDraftPrompt({
+    const { text: prompt, versionId: promptVersionId } = await buildConceptDraftPrompt({
       topic,
       languageStyle,
       slideStructure,
-      referenceContext
+      referencePosts
     })
 
-    // Initialize Gemini AI
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is required')
-    }
+    console.log(`🤖 [API] Calling model for concept-based generation...`)
 
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
+    const response = await generateJSON<any>({
+      feature: 'concept-draft',
+      prompt,
+      schema: CONCEPT_DRAFT_SCHEMA,
     })
 
-    console.log(`🤖 [API] Calling Gemini for concept-based generation...`)
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: CONCEPT_DRAFT_SCHEMA,
-      },
-    })
-
-    if (!response.text) {
-      throw new Error('No response from Gemini AI')
-    }
+    console.log(`✅ [API] Received response from ${response.provider} (${response.model})`)
 
-    console.log(`✅ [API] Received response from Gemini`)
-
-    // Parse the response
-    const generationResult = JSON.parse(response.text)
+    const generationResult = response.data
 
     // Build slides array in RemixPost format
-    const remixSlides = generationResult.slides.map((slide: any) => ({
+    const baseSlides = generationResult.slides.map((slide: any) => ({
       id: crypto.randomUUID(),
       displayOrder: slide.slideIndex,
       paraphrasedText: slide.text,
@@ -285,15 +265,20 @@ ${postContexts}\n`
       conceptTitle: slide.conceptTitle || null
     }))
 
+    const remixSlides = await brandKitService.applyToNewSlides(baseSlides, { projectId }, slideClassifications)
+
     // Create the draft RemixPost
     const draft = await prisma.remixPost.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         name: generationResult.metadata.title,
         description: generationResult.metadata.description,
         generationType: 'ai_concept_guided',
         sourcePostIds: project.posts.map(p => p.post.id),
         projectId: projectId,
         languageStyleTags: [languageStyle],
+        promptVersionId,
         generationPrompt: `Topic: ${topic}\nSlide concepts: ${slideStructure.map(s => s.concept?.title || 'AI decided').join(' → ')}`,
         isDraft: true,
         slides: remixSlides,
@@ -316,6 +301,8 @@ ${postContexts}\n`
       })
     }
 
+    await slideIndexService.indexRemixSafe(draft.id)
+
     console.log(`✅ [API] Created draft: ${draft.id}`)
 
     return NextResponse.json({
@@ -366,11 +353,11 @@ interface PromptConfig {
       examples: string[]
     }>
   }>
-  referenceContext: string
+  referencePosts: string
 }
 
-function buildConceptDraftPrompt(config: PromptConfig): string {
-  const { topic, languageStyle, slideStructure, referenceContext } = config
+function buildConceptDraftPrompt(config: PromptConfig): Promise<RenderedPrompt> {
+  const { topic, languageStyle, slideStructure, referencePosts } = config
 
   const slidesDescription = slideStructure.map(slide => {
     if (slide.concept) {
@@ -403,43 +390,11 @@ ${slide.availableConcepts.map((c, i) => `  ${i + 1}. "${c.title}" - ${c.coreMess
     }
   }).join('\n')
 
-  return `You are creating a TikTok carousel about: "${topic}"
-
-**YOUR TASK:**
-Generate content for ${slideStructure.length} slides, using the specified concepts for each slide.
-The concepts provide the PATTERN and MESSAGE - adapt them to fit the TOPIC.
-${referenceContext}
-**SLIDE STRUCTURE:**
-${slidesDescription}
-
-**LANGUAGE STYLE:**
-${languageStyle}
-
-**CRITICAL RULES FOR FLOW:**
-
-1. **COHESIVE NARRATIVE**: All slides must flow as one story. Each slide should naturally lead to the next.
-
-2. **SLIDE TYPE PATTERNS:**
-   - HOOK: Create curiosity gap, establish authority, end with "heres what..." pattern
-   - CONTENT: Bold statement → Why it matters → Personal reaction (use "i" lowercase)
-   - CTA: If last slide, provide satisfying closure. If product mention needed, keep it authentic.
-
-3. **AUTHENTICITY (CRITICAL):**
-   - Always lowercase "i" (never "I")
-   - Drop apostrophes: "heres", "ive", "dont", "youre", "thats"
-   - Use casual grammar - write like texting a friend
-   - Include authenticity markers: "honestly", "literally", "ngl", "i swear"
-   - Emojis only at end of slides if appropriate: 🫶💗🥺✨
-
-4. **CONCEPT ADAPTATION:**
-   - Don't copy examples literally - use them as PATTERNS
-   - Adapt the core message to fit "${topic}"
-   - Maintain the essence while making it fresh
-
-5. **OPEN LOOPS:**
-   - Each slide should create curiosity for the next
-   - Never reveal everything in one slide
-   - Build anticipation throughout
-
-Generate the draft now. Make it feel authentic, like a real creator sharing insights - not marketing copy.`
+  return promptTemplateService.render('concept-draft', {
+    topic,
+    slideCount: slideStructure.length,
+    referencePosts,
+    slidesDescription,
+    languageStyle
+  })
 }
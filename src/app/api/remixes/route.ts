@@ -3,6 +3,9 @@ import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
 import { CANVAS_SIZES, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema'
 import { suggestLayout } from '@/lib/style-presets'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { brandKitService } from '@/lib/brand-kit-service'
 
 const prisma = new PrismaClient()
 
@@ -23,6 +26,9 @@ const CreateStandaloneRemixSchema = z.object({
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validation = CreateStandaloneRemixSchema.safeParse(body)
@@ -75,7 +81,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Create slides with smart layout presets - empty text by default
-    const slides = Array.from({ length: slideCount }, (_, index) => {
+    const baseSlides = Array.from({ length: slideCount }, (_, index) => {
       const slideType = getSlideTypeForIndex(index)
       const placeholderText = '' // Empty text for all slides
 
@@ -103,15 +109,19 @@ export async function POST(request: NextRequest) {
           type: c.slideType.toUpperCase(), // Normalize to uppercase
           categoryName: c.slideType.charAt(0).toUpperCase() + c.slideType.slice(1)
         }))
-      : slides.map((_, index) => ({
+      : baseSlides.map((_, index) => ({
           slideIndex: index,
           type: getSlideType(index, slideCount).toUpperCase(), // Normalize to uppercase
           categoryName: getSlideType(index, slideCount)
         }))
 
+    const slides = await brandKitService.applyToNewSlides(baseSlides, { projectId }, slideClassifications)
+
     // Create the remix without an original post
     const createdRemix = await prisma.remixPost.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         originalPostId: null, // No original post
         productContextId: null,
         projectId: projectId || null, // Associate with project if provided
@@ -124,6 +134,8 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await slideIndexService.indexRemixSafe(createdRemix.id)
+
     console.log(`✅ [API] Successfully created standalone remix: ${createdRemix.id}`)
 
     return NextResponse.json({
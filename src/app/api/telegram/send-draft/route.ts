@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cacheAssetService } from '@/lib/cache-asset-service'
 import { isHeicUrl } from '@/lib/image-proxy'
+import { remixRenderService } from '@/lib/remix-render-service'
+import { requireRole } from '@/lib/auth'
 
 const TELEGRAM_BOT_API_TOKEN = process.env.TELEGRAM_BOT_API_TOKEN
 const TELEGRAM_BOT_CHAT_ID = process.env.TELEGRAM_BOT_CHAT_ID
@@ -14,12 +16,16 @@ interface Slide {
 }
 
 interface SendDraftRequest {
+  remixId?: string // When set, slides are sent as final rendered images
   draftName: string
   draftDescription?: string
   slides: Slide[]
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     console.log('[Telegram] Starting draft send process')
 
@@ -35,7 +41,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: SendDraftRequest = await request.json()
-    const { draftName, draftDescription, slides } = body
+    const { remixId, draftName, draftDescription, slides } = body
 
     console.log('[Telegram] Draft details:', {
       draftName,
@@ -48,6 +54,17 @@ export async function POST(request: NextRequest) {
       draftDescription ? `\n\n${escapeMarkdown(draftDescription)}` : ''
     }`
 
+    // Rendered slides (text over background), in slide order
+    let renderedAssetIds: string[] = []
+    if (remixId) {
+      try {
+        const rendered = await remixRenderService.renderRemix(remixId)
+        renderedAssetIds = rendered.cacheAssetIds
+      } catch (error) {
+        console.error('[Telegram] Failed to render slides, falling back to backgrounds:', error)
+      }
+    }
+
     console.log('[Telegram] Sending header message')
     await sendTelegramMessage(headerText)
 
@@ -58,20 +75,21 @@ export async function POST(request: NextRequest) {
       const slideLabel = `*Slide ${slideNumber}*`
       const slideText = escapeMarkdown(slide.paraphrasedText || 'No text')
 
-      // Find background image
+      // Prefer the rendered slide, then the raw background image
       const backgroundImage = slide.backgroundLayers?.find(
         (layer) => layer.type === 'image' && layer.cacheAssetId
       )
+      const imageAssetId = renderedAssetIds[i] ?? backgroundImage?.cacheAssetId
 
       console.log(`[Telegram] Processing slide ${slideNumber}:`, {
-        hasBackgroundImage: !!backgroundImage,
-        cacheAssetId: backgroundImage?.cacheAssetId,
+        isRendered: !!renderedAssetIds[i],
+        cacheAssetId: imageAssetId,
         textLength: slide.paraphrasedText?.length || 0
       })
 
-      if (backgroundImage?.cacheAssetId) {
+      if (imageAssetId) {
         // Send slide image with just the slide number as caption
-        await sendTelegramPhoto(backgroundImage.cacheAssetId, slideLabel)
+        await sendTelegramPhoto(imageAssetId, slideLabel)
         // Small delay
         await new Promise((resolve) => setTimeout(resolve, 300))
         // Send slide text as separate message
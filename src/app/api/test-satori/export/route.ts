@@ -6,8 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { satoriExportService } from '@/lib/satori-export-service'
 import type { SlideData } from '@/lib/satori-renderer'
+import { requireRole } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { slide, options } = body as {
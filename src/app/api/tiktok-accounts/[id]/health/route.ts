@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { tiktokAccountService } from '@/lib/tiktok-account-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/tiktok-accounts/[id]/health
+ * Run a health check (token refresh if due) for one account right away
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const result = await tiktokAccountService.checkAccountHealth(id)
+
+    return NextResponse.json({ success: true, result })
+  } catch (error) {
+    console.error('Failed to check TikTok account health:', error)
+    const message = error instanceof Error ? error.message : 'Failed to check account health'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Account not found') ? 404 : 500 }
+    )
+  }
+}
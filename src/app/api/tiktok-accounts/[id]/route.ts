@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { tiktokAPIService } from '@/lib/tiktok-api-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * DELETE /api/tiktok-accounts/[id]
@@ -10,6 +11,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { tiktokAPIService } from '@/lib/tiktok-api-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * POST /api/tiktok-accounts/callback
  * Handle OAuth callback and save account
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { code, state } = body
@@ -49,6 +53,7 @@ export async function POST(request: NextRequest) {
       ),
       scope: tokenData.scope,
       status: 'ACTIVE' as const,
+      healthError: null, // Reconnecting clears any previous refresh failure
     }
 
     let account
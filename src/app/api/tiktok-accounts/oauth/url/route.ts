@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { tiktokAPIService } from '@/lib/tiktok-api-service'
+import { requireRole } from '@/lib/auth'
 
 /**
  * POST /api/tiktok-accounts/oauth/url
  * Generate TikTok OAuth authorization URL
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     // Validate credentials are present
     if (!process.env.TIKTOK_CLIENT_KEY || !process.env.TIKTOK_CLIENT_SECRET || !process.env.TIKTOK_REDIRECT_URI) {
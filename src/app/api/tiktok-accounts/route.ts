@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { requireRole } from '@/lib/auth'
 
 /**
  * GET /api/tiktok-accounts
  * List all connected TikTok upload accounts
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
   try {
     const accounts = await prisma.tiktokUploadAccount.findMany({
       orderBy: {
@@ -21,6 +25,10 @@ export async function GET(request: NextRequest) {
         connectedAt: true,
         lastUsedAt: true,
         tokenExpiresAt: true,
+        refreshExpiresAt: true,
+        lastRefreshedAt: true,
+        lastHealthCheckAt: true,
+        healthError: true,
       },
     })
 
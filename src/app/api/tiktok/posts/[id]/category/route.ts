@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
 
 const prisma = new PrismaClient()
 
@@ -12,6 +14,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
@@ -92,6 +97,9 @@ export async function PATCH(
       return updatedPost
     })
 
+    // Index rows carry the post category, so refresh them
+    await slideIndexService.indexTiktokPostSafe(id)
+
     return NextResponse.json({
       success: true,
       data: result
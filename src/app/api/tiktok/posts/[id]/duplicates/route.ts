@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { normalizeBigInt } from '@/lib/stats-calculator'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+/**
+ * GET /api/tiktok/posts/[id]/duplicates
+ * The other posts in this post's near-duplicate cluster, with how often each was remixed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+
+    const post = await prisma.tiktokPost.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        duplicateClusterId: true,
+        isDuplicate: true,
+        duplicateCluster: {
+          select: { id: true, originalPostId: true, postCount: true, profileCount: true }
+        }
+      }
+    })
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!post.duplicateClusterId) {
+      return NextResponse.json({ cluster: null, duplicates: [] })
+    }
+
+    const duplicates = await prisma.tiktokPost.findMany({
+      where: {
+        duplicateClusterId: post.duplicateClusterId,
+        id: { not: id }
+      },
+      select: {
+        id: true,
+        tiktokUrl: true,
+        authorHandle: true,
+        viewCount: true,
+        publishedAt: true,
+        isDuplicate: true,
+        _count: { select: { remixes: true } }
+      },
+      orderBy: { publishedAt: 'asc' }
+    })
+
+    return NextResponse.json({
+      cluster: post.duplicateCluster,
+      isDuplicate: post.isDuplicate,
+      duplicates: duplicates.map(duplicate => ({
+        ...duplicate,
+        viewCount: normalizeBigInt(duplicate.viewCount)
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch post duplicates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch post duplicates' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,9 @@ import { z } from 'zod'
 import { PrismaClient } from '@/generated/prisma'
 import { CreateRemixSchema, GenerateRemixOptions, CANVAS_SIZES, createDefaultBackgroundLayers } from '@/lib/validations/remix-schema'
 import { generateRemixContent } from '@/lib/paraphrasing-service'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
+import { brandKitService } from '@/lib/brand-kit-service'
 
 const prisma = new PrismaClient()
 
@@ -10,6 +13,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const postId = resolvedParams.id
@@ -92,10 +98,10 @@ export async function POST(
       productContextDescription: productContext?.description,
       additionalPrompt
     }
-    const remixContent = await generateRemixContent(originalPost, remixOptions)
+    const { slides: remixContent, promptVersionId } = await generateRemixContent(originalPost, remixOptions)
 
     // Transform remix content to new slide structure
-    const slides = remixContent.map((content, index) => ({
+    const baseSlides = remixContent.map((content, index) => ({
       id: `slide_${Date.now()}_${index}`,
       displayOrder: index,
       canvas: options.canvasSize || CANVAS_SIZES.INSTAGRAM_STORY,
@@ -127,13 +133,18 @@ export async function POST(
       console.error('Failed to parse slide classifications from OCR data:', error)
     }
 
+    const slides = await brandKitService.applyToNewSlides(baseSlides, { productContextId }, slideClassifications)
+
     // Create the remix with new JSON structure
     console.log(`🏗️ [API] Creating remix with ${slides.length} slides...`)
     const createdRemix = await prisma.remixPost.create({
       data: {
+        createdById: auth.user.id,
+        updatedById: auth.user.id,
         originalPostId: postId,
         productContextId: productContextId || null,
         additionalPrompt: additionalPrompt || null,
+        promptVersionId,
         name,
         description,
         generationType: 'ai_paraphrase',
@@ -167,6 +178,8 @@ export async function POST(
       slides: slides
     }
 
+    await slideIndexService.indexRemixSafe(createdRemix.id)
+
     console.log(`✅ [API] Successfully created remix: ${createdRemix.id}`)
 
     return NextResponse.json({
@@ -194,6 +207,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const resolvedParams = await params
     const postId = resolvedParams.id
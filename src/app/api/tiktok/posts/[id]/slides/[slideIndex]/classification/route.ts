@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { requireRole } from '@/lib/auth'
+import { slideIndexService } from '@/lib/slide-index-service'
 
 const prisma = new PrismaClient()
 
@@ -16,6 +18,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; slideIndex: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id: postId, slideIndex: slideIndexStr } = await params
     const slideIndex = parseInt(slideIndexStr, 10)
@@ -96,6 +101,8 @@ export async function PATCH(
       }
     })
 
+    await slideIndexService.indexTiktokPostSafe(postId)
+
     return NextResponse.json({
       success: true,
       slideClassifications: slideClassifications
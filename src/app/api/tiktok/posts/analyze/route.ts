@@ -1,23 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
 import { z } from "zod"
-import { streamText } from "ai"
-import { createGoogleGenerativeAI } from "@ai-sdk/google"
 import { PrismaClient } from "@/generated/prisma"
-import {
-  fetchPostsForAnalysis,
-  buildAnalysisContext,
-  buildConversationHistory,
-} from "@/lib/content-analysis-service"
+import type { LLMUsage } from "@/lib/llm"
+import { streamAnalysisChat } from "@/lib/content-analysis-service"
 import { calculateCost, formatCost } from "@/lib/cost-calculation-service"
-import { AnalyzeRequest, GeminiModel, Message } from "@/types/conversation"
+import { GeminiModel, Message, ToolCall } from "@/types/conversation"
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
-// Create Google AI provider with API key
-const google = createGoogleGenerativeAI({
-  apiKey: process.env.GEMINI_API_KEY || "",
-})
-
 /**
  * Map our custom model names to actual Gemini API model IDs
  */
@@ -35,7 +26,7 @@ function getGeminiModelId(model: GeminiModel): string {
 
 const AnalyzeRequestSchema = z.object({
   conversationId: z.string().nullish(), // Accepts string, null, or undefined
-  postIds: z.array(z.string()).min(1).max(20),
+  postIds: z.array(z.string()).max(200).default([]),
   prompt: z.string().min(1),
   model: z.enum([
     "gemini-2.5-flash",
@@ -47,7 +38,16 @@ const AnalyzeRequestSchema = z.object({
   ]) as z.ZodType<GeminiModel>,
 })
 
+/**
+ * POST /api/tiktok/posts/analyze
+ * Chat about the scraped posts. The model answers by calling database tools
+ * (see analysis-tools-service); selected posts are only a hint. Streams SSE
+ * events: chunk, tool_call, tool_result, usage, conversationId.
+ */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     // Validate request body
     const body = await request.json()
@@ -55,29 +55,8 @@ export async function POST(request: NextRequest) {
 
     const { conversationId, postIds, prompt, model } = validatedData
 
-    // Check for API key
-    if (!process.env.GEMINI_API_KEY) {
-      return NextResponse.json(
-        { error: "GEMINI_API_KEY not configured" },
-        { status: 500 }
-      )
-    }
-
-    // Fetch posts with OCR data
-    const posts = await fetchPostsForAnalysis(postIds)
-
-    if (posts.length === 0) {
-      return NextResponse.json(
-        {
-          error:
-            "No posts with completed OCR found. Please run OCR on photo posts first.",
-        },
-        { status: 400 }
-      )
-    }
-
     console.log(
-      `🔍 [Analysis] Analyzing ${posts.length} posts with model ${model}`
+      `🔍 [Analysis] Chat with model ${model} (${postIds.length} selected posts)`
     )
 
     // Load existing conversation if provided
@@ -98,24 +77,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Build context
-    const context = await buildAnalysisContext(posts)
-
-    // Build conversation history
-    const historyText = buildConversationHistory(
-      previousMessages.map((m) => ({
-        role: m.role,
-        content: m.content,
-      }))
-    )
-
-    // Combine everything for the full prompt
-    const fullPrompt = historyText + context + prompt
-
-    // Use Vercel AI SDK to stream the response
+    // Stream the response through the configured LLM provider
     const encoder = new TextEncoder()
     let streamedText = ""
     let thinkingContent = ""
+    const toolCalls: ToolCall[] = []
 
     // Estimate user prompt tokens (rough approximation: ~4 chars per token)
     const estimatedUserPromptTokens = Math.ceil(prompt.length / 4)
@@ -124,35 +90,37 @@ export async function POST(request: NextRequest) {
     const customStream = new ReadableStream({
       async start(controller) {
         try {
-          // Call Vercel AI SDK's streamText
-          const geminiModelId = getGeminiModelId(model)
-          const result = await streamText({
-            model: google(geminiModelId),
-            system: "You are an expert TikTok content analyst. Keep responses concise and focused. Aim for 3-5 key insights rather than exhaustive analysis. Use bullet points when appropriate.",
-            messages: [
-              {
-                role: "user",
-                content: fullPrompt,
-              },
-            ],
+          const stream = streamAnalysisChat({
+            model: getGeminiModelId(model),
+            previousMessages,
+            prompt,
+            selectedPostIds: postIds,
           })
 
-          // Stream text chunks
-          for await (const chunk of result.fullStream) {
-            if (chunk.type === "text-delta") {
-              streamedText += chunk.text
-              const data = JSON.stringify({ type: "chunk", content: chunk.text })
+          // Stream text chunks and tool activity
+          let usage: LLMUsage | undefined
+          for await (const event of stream) {
+            if (event.type === "text") {
+              streamedText += event.text
+              const data = JSON.stringify({ type: "chunk", content: event.text })
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`))
+            } else if (event.type === "tool_call" || event.type === "tool_result") {
+              if (event.type === "tool_result") {
+                toolCalls.push(event.call)
+              }
+              const data = JSON.stringify({ type: event.type, call: event.call })
               controller.enqueue(encoder.encode(`data: ${data}\n\n`))
+            } else {
+              usage = event.usage
             }
           }
 
-          // Extract usage metadata from result
-          const usage = await result.usage
-          const totalInputTokens = (usage as any)?.promptTokens || (usage as any)?.input_tokens || 0
-          const outputTokens = (usage as any)?.completionTokens || (usage as any)?.output_tokens || 0
+          const totalInputTokens = usage?.inputTokens || 0
+          const outputTokens = usage?.outputTokens || 0
 
           // Calculate context tokens (everything except the user's current prompt)
-          // This includes previous messages, OCR data, and system prompt
+          // This includes previous messages, tool results, and system prompt,
+          // summed over every tool round
           const contextTokens = Math.max(0, totalInputTokens - estimatedUserPromptTokens)
 
           // Calculate costs for each part
@@ -174,7 +142,7 @@ export async function POST(request: NextRequest) {
             existingConversation?.title ||
             prompt.substring(0, 50).trim() + "..."
 
-          // User message contains the context (previous messages + OCR data + system prompt)
+          // User message contains the context (previous messages + tool results + system prompt)
           const userMessage: Message = {
             role: "user",
             content: prompt,
@@ -190,6 +158,7 @@ export async function POST(request: NextRequest) {
             role: "assistant",
             content: streamedText,
             thinking: thinkingContent || undefined,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
             model,
             inputTokens: 0, // Assistant doesn't consume input tokens, only outputs
             outputTokens,
@@ -206,6 +175,7 @@ export async function POST(request: NextRequest) {
                 role: m.role,
                 content: m.content,
                 thinking: m.thinking,
+                toolCalls: m.toolCalls,
                 model: m.model,
                 inputTokens: m.inputTokens,
                 outputTokens: m.outputTokens,
@@ -225,6 +195,7 @@ export async function POST(request: NextRequest) {
                 role: assistantMessage.role,
                 content: assistantMessage.content,
                 thinking: assistantMessage.thinking,
+                toolCalls: assistantMessage.toolCalls,
                 model: assistantMessage.model,
                 inputTokens: assistantMessage.inputTokens,
                 outputTokens: assistantMessage.outputTokens,
@@ -268,6 +239,7 @@ export async function POST(request: NextRequest) {
                 role: assistantMessage.role,
                 content: assistantMessage.content,
                 thinking: assistantMessage.thinking,
+                toolCalls: assistantMessage.toolCalls,
                 model: assistantMessage.model,
                 inputTokens: assistantMessage.inputTokens,
                 outputTokens: assistantMessage.outputTokens,
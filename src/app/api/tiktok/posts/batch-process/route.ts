@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { performOCRForTikTokPost } from '@/lib/ocr-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -9,6 +10,9 @@ const prisma = new PrismaClient()
  * Run OCR + Classification on multiple posts
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { postIds } = body as { postIds: string[] }
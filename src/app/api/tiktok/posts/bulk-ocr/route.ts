@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { performBatchOCRForTikTokPosts } from '@/lib/ocr-service'
+import { requireRole } from '@/lib/auth'
 
 const BulkOCRSchema = z.object({
   postIds: z.array(z.string()).min(1).max(50), // Limit to 50 posts per batch
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const validation = BulkOCRSchema.safeParse(body)
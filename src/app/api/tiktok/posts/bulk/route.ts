@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
 import { TikTokBulkUpsertService } from '@/lib/tiktok-bulk-upsert-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 const bulkUpsertService = new TikTokBulkUpsertService(prisma)
@@ -41,6 +42,9 @@ const BulkUpsertSchema = z.object({
     videoUrl: z.string().optional(),
     coverUrl: z.string().optional(),
     musicUrl: z.string().optional(),
+    musicTiktokId: z.string().optional(),
+    musicTitle: z.string().optional(),
+    musicAuthor: z.string().optional(),
     images: z.array(z.object({
       url: z.string(),
       width: z.number(),
@@ -51,6 +55,9 @@ const BulkUpsertSchema = z.object({
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { profile: profileData, posts: postsData } = BulkUpsertSchema.parse(body)
@@ -3,11 +3,16 @@ import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
 import { mediaCacheServiceV2 } from '@/lib/media-cache-service-v2'
 import { cacheAssetService } from '@/lib/cache-asset-service'
-import { notificationService } from '@/lib/notification-service'
+import { alertEngine } from '@/lib/alert-engine'
+import { normalizeHashtag } from '@/lib/trend-index-service'
 import * as Sentry from '@sentry/nextjs'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
+// Nullable sort columns where Postgres would otherwise put NULLs first on desc
+const NULLS_LAST_SORT_FIELDS = ['outlierScore', 'velocityScore', 'velocityScore48h', 'viewsFirst24h', 'viewsFirst48h']
+
 // Helper function to cache TikTok post media
 async function cacheTikTokPostMedia(validatedData: any) {
   const {
@@ -86,6 +91,9 @@ const SavePostSchema = z.object({
 })
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   let body: any
   try {
     body = await request.json()
@@ -156,9 +164,9 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Check for high views and send notification if needed (non-blocking)
-    notificationService.checkAndNotifyHighViews(post).catch(error => {
-      console.error('Failed to check for notifications:', error)
+    // Evaluate alert rules for this post (non-blocking)
+    alertEngine.evaluatePosts([post.id]).catch(error => {
+      console.error('Failed to evaluate alert rules:', error)
       // Don't fail the request if notification check fails
     })
 
@@ -197,6 +205,9 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
@@ -217,6 +228,11 @@ export async function GET(request: NextRequest) {
     const viewCountGt = searchParams.get('viewCountGt')
     const viewCountLt = searchParams.get('viewCountLt')
     const ocrStatus = searchParams.get('ocrStatus') || 'all'
+    const soundId = searchParams.get('soundId')
+    const hashtag = searchParams.get('hashtag')
+    const minOutlierScore = parseFloat(searchParams.get('minOutlierScore') || '')
+    const collapseDuplicates = searchParams.get('collapseDuplicates') === 'true'
+    const duplicateClusterId = searchParams.get('duplicateClusterId')
 
     // Parse sorting from URL - supports multi-column sorting
     // Format: ?sort=viewCount.desc,likeCount.asc,publishedAt.desc
@@ -231,6 +247,10 @@ export async function GET(request: NextRequest) {
       // New format: multi-column sorting
       orderBy = sortParam.split(',').map(sort => {
         const [field, direction] = sort.trim().split('.')
+        // Unscored posts go last in both directions
+        if (NULLS_LAST_SORT_FIELDS.includes(field)) {
+          return { [field]: { sort: direction || 'desc', nulls: 'last' } }
+        }
         return { [field]: direction || 'desc' }
       })
     } else if (oldSortBy) {
@@ -293,6 +313,32 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Filter by outlier score (views vs. the author's rolling median)
+    if (!isNaN(minOutlierScore)) {
+      where.outlierScore = {
+        gte: minOutlierScore
+      }
+    }
+
+    // Filter by sound or hashtag (linked by the trend index)
+    if (soundId) {
+      where.soundId = soundId
+    }
+
+    const hashtagName = hashtag ? normalizeHashtag(hashtag) : null
+    if (hashtagName) {
+      where.postHashtags = {
+        some: { hashtag: { name: hashtagName } }
+      }
+    }
+
+    // Near-duplicate carousels: show one post per cluster, or every post of one cluster
+    if (duplicateClusterId) {
+      where.duplicateClusterId = duplicateClusterId
+    } else if (collapseDuplicates) {
+      where.isDuplicate = false
+    }
+
     // Date range filtering on publishedAt
     if (dateFrom || dateTo) {
       where.publishedAt = {}
@@ -372,6 +418,19 @@ export async function GET(request: NextRequest) {
               name: true
             }
           },
+          duplicateCluster: {
+            select: {
+              id: true,
+              postCount: true,
+              profileCount: true,
+              originalPost: {
+                select: {
+                  id: true,
+                  authorHandle: true
+                }
+              }
+            }
+          },
           _count: {
             select: {
               remixes: true
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { scrapeProfileVideos } from '@/lib/tiktok-scraping'
+import { requireRole } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const handle = searchParams.get('handle')
@@ -68,6 +72,9 @@ export async function GET(request: NextRequest) {
           videoUrl: post.videoUrl,
           coverUrl: post.coverUrl,
           musicUrl: post.musicUrl,
+          musicTiktokId: post.musicTiktokId,
+          musicTitle: post.musicTitle,
+          musicAuthor: post.musicAuthor,
           images: post.images,
           publishedAt: post.publishedAt instanceof Date ? post.publishedAt.toISOString() : post.publishedAt
         }))
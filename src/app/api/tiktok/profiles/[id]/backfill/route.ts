@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import {
+  profileBackfillService,
+  DEFAULT_BACKFILL_PAGE_BUDGET,
+  MAX_BACKFILL_PAGE_BUDGET
+} from '@/lib/profile-backfill-service'
+import { requireRole } from '@/lib/auth'
+
+const StartBackfillSchema = z.object({
+  pageBudget: z.number().int().min(1).max(MAX_BACKFILL_PAGE_BUDGET).default(DEFAULT_BACKFILL_PAGE_BUDGET)
+})
+
+/**
+ * GET /api/tiktok/profiles/[id]/backfill
+ * Progress of the profile's most recent history backfill
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const backfill = await profileBackfillService.getLatestBackfill(id)
+
+    return NextResponse.json({ backfill })
+  } catch (error) {
+    console.error('Failed to fetch backfill status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch backfill status' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/tiktok/profiles/[id]/backfill
+ * Start a full-history backfill, or resume a paused/failed one with
+ * `pageBudget` more pages (one API credit each)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const validation = StartBackfillSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const backfill = await profileBackfillService.startBackfill(id, {
+      pageBudget: validation.data.pageBudget
+    })
+
+    return NextResponse.json({ backfill }, { status: 202 })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error('Failed to start backfill:', error)
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Profile not found') ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import {
+  calculateFollowerEngagementRate,
+  calculateFollowerGrowth,
+  calculateViewsPerFollower,
+  normalizeBigInt
+} from '@/lib/stats-calculator'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 730
+
+/**
+ * GET /api/tiktok/profiles/[id]/metrics-history?days=90
+ * Follower/heart/video count snapshots for growth charts, with follower
+ * growth and follower-normalized rates
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id: profileId } = await params
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '', 10) || DEFAULT_DAYS, 1), MAX_DAYS)
+
+    const profile = await prisma.tiktokProfile.findUnique({
+      where: { id: profileId },
+      select: {
+        id: true,
+        followerCount: true,
+        totalPosts: true,
+        totalViews: true,
+        totalLikes: true,
+        totalShares: true,
+        totalComments: true,
+        totalSaves: true
+      }
+    })
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const snapshots = await prisma.tikTokProfileMetricsHistory.findMany({
+      where: {
+        profileId,
+        recordedAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) }
+      },
+      orderBy: { recordedAt: 'asc' }
+    })
+
+    const history = snapshots.map(snapshot => ({
+      recordedAt: snapshot.recordedAt,
+      followerCount: snapshot.followerCount ?? 0,
+      followingCount: snapshot.followingCount ?? 0,
+      likeCount: normalizeBigInt(snapshot.likeCount),
+      videoCount: snapshot.videoCount ?? 0
+    }))
+
+    const followerCount = profile.followerCount ?? 0
+    const postCount = profile.totalPosts || 1
+    const avgPostMetrics = {
+      viewCount: normalizeBigInt(profile.totalViews) / postCount,
+      likeCount: normalizeBigInt(profile.totalLikes) / postCount,
+      shareCount: normalizeBigInt(profile.totalShares) / postCount,
+      commentCount: normalizeBigInt(profile.totalComments) / postCount,
+      saveCount: normalizeBigInt(profile.totalSaves) / postCount
+    }
+
+    return NextResponse.json({
+      history,
+      summary: {
+        followerCount,
+        followerGrowth7d: calculateFollowerGrowth(history, 7),
+        followerGrowth30d: calculateFollowerGrowth(history, 30),
+        viewsPerFollower: calculateViewsPerFollower(avgPostMetrics.viewCount, followerCount),
+        followerEngagementRate: calculateFollowerEngagementRate(avgPostMetrics, followerCount)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to fetch profile metrics history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch profile metrics history' },
+      { status: 500 }
+    )
+  }
+}
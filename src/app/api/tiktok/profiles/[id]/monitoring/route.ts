@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { calculateNextMonitoringRun, rescheduleMonitoredProfiles } from '@/lib/monitoring-schedule'
+import { MonitoringSettingsSchema, toMonitoringScheduleData } from '@/lib/validations/monitoring-schema'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -11,6 +14,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
 
@@ -22,6 +28,11 @@ export async function GET(
         monitoringEnabled: true,
         lastMonitoringRun: true,
         nextMonitoringRun: true,
+        monitoringIntervalHours: true,
+        monitoringActiveStart: true,
+        monitoringActiveEnd: true,
+        monitoringTimezone: true,
+        monitoringAdaptive: true,
         monitoringLogs: {
           orderBy: {
             startedAt: 'desc'
@@ -38,10 +49,21 @@ export async function GET(
       )
     }
 
+    // Effective settings after group/app defaults are applied
+    const { settings } = await calculateNextMonitoringRun(prisma, id)
+
     return NextResponse.json({
       monitoringEnabled: profile.monitoringEnabled,
       lastMonitoringRun: profile.lastMonitoringRun,
       nextMonitoringRun: profile.nextMonitoringRun,
+      overrides: {
+        intervalHours: profile.monitoringIntervalHours,
+        activeStart: profile.monitoringActiveStart,
+        activeEnd: profile.monitoringActiveEnd,
+        timezone: profile.monitoringTimezone,
+        adaptive: profile.monitoringAdaptive
+      },
+      settings,
       recentLogs: profile.monitoringLogs
     })
   } catch (error) {
@@ -55,37 +77,75 @@ export async function GET(
 
 /**
  * PATCH /api/tiktok/profiles/[id]/monitoring
- * Enable or disable monitoring for a profile
+ * Enable or disable monitoring for a profile and/or update its schedule
+ * (intervalHours, activeStart, activeEnd, timezone, adaptive; null = inherit)
  */
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json()
-    const { enabled } = body
+    const { enabled, ...settingsBody } = body
 
-    if (typeof enabled !== 'boolean') {
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
       return NextResponse.json(
         { error: 'Invalid request: enabled must be a boolean' },
         { status: 400 }
       )
     }
 
-    // Calculate next monitoring run (24 hours from now if enabling)
-    const nextMonitoringRun = enabled ? new Date(Date.now() + 24 * 60 * 60 * 1000) : null
+    const validation = MonitoringSettingsSchema.safeParse(settingsBody)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid monitoring settings', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const scheduleData = toMonitoringScheduleData(validation.data)
+
+    if (enabled === undefined && Object.keys(scheduleData).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
 
-    const profile = await prisma.tiktokProfile.update({
+    const existing = await prisma.tiktokProfile.findUnique({
+      where: { id },
+      select: { monitoringEnabled: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Profile not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.tiktokProfile.update({
       where: { id },
       data: {
-        monitoringEnabled: enabled,
-        nextMonitoringRun: enabled ? nextMonitoringRun : null,
+        ...scheduleData,
+        ...(enabled !== undefined && { monitoringEnabled: enabled }),
+        ...(enabled === false && { nextMonitoringRun: null }),
         updatedAt: new Date()
       }
     })
 
-    console.log(`${enabled ? '✅ Enabled' : '⏸️ Disabled'} monitoring for @${profile.handle}`)
+    // Newly enabled profiles count from now, settings changes from the last run
+    await rescheduleMonitoredProfiles(prisma, [id], {
+      fromNow: enabled === true && !existing.monitoringEnabled
+    })
+
+    const profile = await prisma.tiktokProfile.findUniqueOrThrow({ where: { id } })
+
+    console.log(`${profile.monitoringEnabled ? '✅ Enabled' : '⏸️ Disabled'} monitoring for @${profile.handle}`, scheduleData)
 
     return NextResponse.json({
       success: true,
@@ -94,7 +154,12 @@ export async function PATCH(
         handle: profile.handle,
         monitoringEnabled: profile.monitoringEnabled,
         lastMonitoringRun: profile.lastMonitoringRun,
-        nextMonitoringRun: profile.nextMonitoringRun
+        nextMonitoringRun: profile.nextMonitoringRun,
+        monitoringIntervalHours: profile.monitoringIntervalHours,
+        monitoringActiveStart: profile.monitoringActiveStart,
+        monitoringActiveEnd: profile.monitoringActiveEnd,
+        monitoringTimezone: profile.monitoringTimezone,
+        monitoringAdaptive: profile.monitoringAdaptive
       }
     })
   } catch (error) {
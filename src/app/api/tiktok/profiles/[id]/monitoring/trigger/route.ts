@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { profileMonitorQueue } from '@/lib/queue/profile-monitor-queue'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -15,6 +16,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { id } = await params
     const body = await request.json().catch(() => ({}))
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { mediaCacheServiceV2 } from '@/lib/media-cache-service-v2'
 import { scrapeProfileVideos, TikTokPost, ProfileData } from '@/lib/tiktok-scraping'
+import { profileBackfillService } from '@/lib/profile-backfill-service'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -126,6 +128,9 @@ async function updateProfileMetrics(profileId: string) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const { handle, isOwnProfile = false } = await request.json()
 
@@ -139,7 +144,7 @@ export async function POST(request: NextRequest) {
     const cleanHandle = handle.startsWith('@') ? handle.slice(1) : handle
 
     // Fetch profile and initial posts using existing service
-    console.log(`📥 Fetching profile @${cleanHandle} from ScrapeCreators...`)
+    console.log(`📥 Fetching profile @${cleanHandle}...`)
     const result = await scrapeProfileVideos(cleanHandle, undefined, true)
 
     if (!result.profile) {
@@ -165,8 +170,16 @@ export async function POST(request: NextRequest) {
     console.log(`   - Posts created: ${postStats.created}`)
     console.log(`   - Posts updated: ${postStats.updated}`)
 
-    // TODO: Queue background job for fetching remaining posts if hasMore is true
-    // For now, we'll just process the first batch
+    // Backfill the rest of the history in the background, after the first page
+    let backfillId: string | undefined
+    if (result.hasMore && result.maxCursor) {
+      try {
+        const backfill = await profileBackfillService.startBackfill(profile.id, { startCursor: result.maxCursor })
+        backfillId = backfill.id
+      } catch (backfillError) {
+        console.error(`⚠️ Failed to queue history backfill for @${cleanHandle}:`, backfillError)
+      }
+    }
 
     return NextResponse.json({
       success: true,
@@ -175,7 +188,8 @@ export async function POST(request: NextRequest) {
         handle: profile.handle
       },
       stats: postStats,
-      processing: result.hasMore // Indicate if more posts need processing
+      processing: result.hasMore, // Indicate if more posts need processing
+      backfillId
     })
   } catch (error) {
     console.error('Failed to add profile:', error)
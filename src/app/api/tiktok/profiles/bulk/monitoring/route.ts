@@ -1,53 +1,126 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
+import { rescheduleMonitoredProfiles } from '@/lib/monitoring-schedule'
+import { MonitoringSettingsSchema, toMonitoringScheduleData } from '@/lib/validations/monitoring-schema'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 /**
  * PATCH /api/tiktok/profiles/bulk/monitoring
- * Bulk enable or disable monitoring for multiple profiles
+ * Bulk enable/disable monitoring and/or update schedule settings.
+ *
+ * Body:
+ *   profileIds?: string[]       - profiles to update (overrides)
+ *   profileGroupIds?: string[]  - groups whose defaults to update
+ *   enabled?: boolean           - profiles only
+ *   intervalHours, activeStart, activeEnd, timezone, adaptive (null = inherit)
  */
 export async function PATCH(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
-    const { profileIds, enabled } = body
+    const { profileIds = [], profileGroupIds = [], enabled, ...settingsBody } = body
 
-    if (!Array.isArray(profileIds) || profileIds.length === 0) {
+    if (!Array.isArray(profileIds) || !Array.isArray(profileGroupIds) ||
+        (profileIds.length === 0 && profileGroupIds.length === 0)) {
       return NextResponse.json(
-        { error: 'Invalid request: profileIds must be a non-empty array' },
+        { error: 'Invalid request: profileIds or profileGroupIds must be a non-empty array' },
         { status: 400 }
       )
     }
 
-    if (typeof enabled !== 'boolean') {
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
       return NextResponse.json(
         { error: 'Invalid request: enabled must be a boolean' },
         { status: 400 }
       )
     }
 
-    // Calculate next monitoring run (24 hours from now if enabling)
-    const nextMonitoringRun = enabled ? new Date(Date.now() + 24 * 60 * 60 * 1000) : null
+    const validation = MonitoringSettingsSchema.safeParse(settingsBody)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid monitoring settings', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
 
-    // Update all profiles in a single transaction
-    const result = await prisma.tiktokProfile.updateMany({
-      where: {
-        id: {
-          in: profileIds
-        }
-      },
-      data: {
-        monitoringEnabled: enabled,
-        nextMonitoringRun: enabled ? nextMonitoringRun : null,
-        updatedAt: new Date()
+    const scheduleData = toMonitoringScheduleData(validation.data)
+
+    if (enabled === undefined && Object.keys(scheduleData).length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: nothing to update' },
+        { status: 400 }
+      )
+    }
+
+    let updatedCount = 0
+    let updatedGroupCount = 0
+    const affectedProfileIds = new Set<string>(profileIds)
+
+    // Group defaults
+    if (profileGroupIds.length > 0 && Object.keys(scheduleData).length > 0) {
+      const groupResult = await prisma.profileGroup.updateMany({
+        where: { id: { in: profileGroupIds } },
+        data: scheduleData
+      })
+      updatedGroupCount = groupResult.count
+
+      const groupProfiles = await prisma.tiktokProfile.findMany({
+        where: { profileGroupId: { in: profileGroupIds } },
+        select: { id: true }
+      })
+      groupProfiles.forEach(profile => affectedProfileIds.add(profile.id))
+    }
+
+    // Profile overrides / monitoring toggle
+    let newlyEnabledIds: string[] = []
+    if (profileIds.length > 0) {
+      if (enabled === true) {
+        const disabled = await prisma.tiktokProfile.findMany({
+          where: { id: { in: profileIds }, monitoringEnabled: false },
+          select: { id: true }
+        })
+        newlyEnabledIds = disabled.map(profile => profile.id)
       }
-    })
 
-    console.log(`${enabled ? '✅ Enabled' : '⏸️ Disabled'} monitoring for ${result.count} profiles`)
+      const result = await prisma.tiktokProfile.updateMany({
+        where: {
+          id: {
+            in: profileIds
+          }
+        },
+        data: {
+          ...scheduleData,
+          ...(enabled !== undefined && { monitoringEnabled: enabled }),
+          ...(enabled === false && { nextMonitoringRun: null }),
+          updatedAt: new Date()
+        }
+      })
+      updatedCount = result.count
+    }
+
+    // Newly enabled profiles count from now, settings changes from the last run
+    await rescheduleMonitoredProfiles(prisma, newlyEnabledIds, { fromNow: true })
+    const rescheduledCount = await rescheduleMonitoredProfiles(
+      prisma,
+      Array.from(affectedProfileIds).filter(id => !newlyEnabledIds.includes(id))
+    )
+
+    if (enabled !== undefined) {
+      console.log(`${enabled ? '✅ Enabled' : '⏸️ Disabled'} monitoring for ${updatedCount} profiles`)
+    }
+    if (Object.keys(scheduleData).length > 0) {
+      console.log(`⏱️ Updated monitoring schedule for ${updatedCount} profiles and ${updatedGroupCount} groups`, scheduleData)
+    }
 
     return NextResponse.json({
       success: true,
-      updatedCount: result.count,
+      updatedCount,
+      updatedGroupCount,
+      rescheduledCount: rescheduledCount + newlyEnabledIds.length,
       enabled
     })
   } catch (error) {
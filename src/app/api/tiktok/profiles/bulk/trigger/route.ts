@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { profileMonitorQueue } from '@/lib/queue/profile-monitor-queue'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -13,6 +14,9 @@ const prisma = new PrismaClient()
  * - forceRecache: boolean - If true, forces recaching of all media assets
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { profileIds, forceRecache = false } = body
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { startOfDay, format } from 'date-fns'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
@@ -14,6 +15,9 @@ const prisma = new PrismaClient()
  * - groupId: string (optional) - filter by profile group
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const dateFrom = searchParams.get('dateFrom')
@@ -2,10 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
 import { cacheAssetService } from '@/lib/cache-asset-service'
 import { startOfDay } from 'date-fns'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
   try {
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
@@ -89,7 +93,8 @@ export async function GET(request: NextRequest) {
           profileGroup: {
             select: {
               id: true,
-              name: true
+              name: true,
+              monitoringIntervalHours: true
             }
           },
           // Fetch ALL posts (no date filter) - we calculate gains from metrics history
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { tiktokAPIService } from '@/lib/tiktok-api-service'
 import { cacheAssetService } from '@/lib/cache-asset-service'
+import { tiktokAccountService } from '@/lib/tiktok-account-service'
+import { requireRole } from '@/lib/auth'
 
 interface UploadRequest {
   accountId: string
@@ -15,6 +17,9 @@ interface UploadRequest {
  * Upload carousel photos as draft to TikTok
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     console.log('🚀 [TikTok Upload API] ==================== START ====================')
     const body = (await request.json()) as UploadRequest
@@ -69,45 +74,15 @@ export async function POST(request: NextRequest) {
       tokenExpiresAt: account.tokenExpiresAt
     })
 
-    // Check if token is expired
-    const now = new Date()
-    let accessToken = account.accessToken
-
-    if (account.tokenExpiresAt < now) {
-      // Try to refresh token
-      try {
-        const tokenData = await tiktokAPIService.refreshAccessToken(
-          account.refreshToken
-        )
-
-        // Update account with new tokens
-        await prisma.tiktokUploadAccount.update({
-          where: { id: accountId },
-          data: {
-            accessToken: tokenData.access_token,
-            refreshToken: tokenData.refresh_token,
-            tokenExpiresAt: new Date(Date.now() + tokenData.expires_in * 1000),
-            refreshExpiresAt: new Date(
-              Date.now() + tokenData.refresh_expires_in * 1000
-            ),
-            status: 'ACTIVE',
-          },
-        })
-
-        accessToken = tokenData.access_token
-      } catch (error) {
-        console.error('Failed to refresh token:', error)
-        // Mark account as expired
-        await prisma.tiktokUploadAccount.update({
-          where: { id: accountId },
-          data: { status: 'EXPIRED' },
-        })
-
-        return NextResponse.json(
-          { error: 'Account token expired. Please reconnect your account.' },
-          { status: 401 }
-        )
-      }
+    // Refresh the token if it has expired
+    let accessToken: string
+    try {
+      accessToken = await tiktokAccountService.getValidAccessToken(accountId)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Account token expired. Please reconnect your account.' },
+        { status: 401 }
+      )
     }
 
     // Get image URLs from cache assets (using PULL_FROM_URL method)
@@ -175,10 +150,7 @@ export async function POST(request: NextRequest) {
     console.log('✅ [TikTok Upload API] Upload successful! Publish ID:', uploadResult.publish_id)
 
     // Update last used time
-    await prisma.tiktokUploadAccount.update({
-      where: { id: accountId },
-      data: { lastUsedAt: new Date() },
-    })
+    await tiktokAccountService.markUsed(accountId)
 
     console.log('🎉 [TikTok Upload API] ==================== SUCCESS ====================')
     return NextResponse.json({
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@/generated/prisma'
-import { GoogleGenAI } from '@google/genai'
+import { generateJSON } from '@/lib/llm'
+import { requireRole } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' })
-
 interface TopicSuggestion {
   topic: string
   angle: string
@@ -13,6 +12,9 @@ interface TopicSuggestion {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
   try {
     const body = await request.json()
     const { projectId, count = 3 } = body
@@ -123,24 +125,14 @@ Respond with a JSON array only:
   }
 ]`
 
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.0-flash',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-    })
-
-    const responseText = response.text || ''
-
     // Parse AI response
     let suggestions: TopicSuggestion[] = []
     try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        suggestions = JSON.parse(jsonMatch[0])
-      }
+      const response = await generateJSON<TopicSuggestion[]>({
+        feature: 'topic-suggest',
+        prompt,
+      })
+      suggestions = Array.isArray(response.data) ? response.data : []
     } catch (parseError) {
       console.error('Failed to parse AI suggestions:', parseError)
       return NextResponse.json(
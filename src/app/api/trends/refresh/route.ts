@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { trendRefreshQueue } from '@/lib/queue/trend-refresh-queue'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * POST /api/trends/refresh
+ * Queue an immediate sound/hashtag trend refresh instead of waiting for the next sweep
+ */
+export async function POST() {
+  const auth = await requireRole('editor')
+  if (auth.response) return auth.response
+
+  try {
+    await trendRefreshQueue.addRefreshJob()
+    return NextResponse.json({ queued: true }, { status: 202 })
+  } catch (error) {
+    console.error('Failed to queue trend refresh:', error)
+    return NextResponse.json(
+      { error: 'Failed to queue trend refresh' },
+      { status: 500 }
+    )
+  }
+}
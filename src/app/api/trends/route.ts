@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@/generated/prisma'
+import { normalizeBigInt } from '@/lib/stats-calculator'
+import { normalizeHashtag } from '@/lib/trend-index-service'
+import { requireRole } from '@/lib/auth'
+
+const prisma = new PrismaClient()
+
+const SORT_FIELDS = ['viewsGained24h', 'viewsGained7d', 'momentum', 'recentPostCount', 'postCount', 'totalViews'] as const
+type TrendSortField = typeof SORT_FIELDS[number]
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+const serializeStats = (item: {
+  postCount: number
+  recentPostCount: number
+  totalViews: bigint
+  viewsGained24h: bigint
+  viewsGained7d: bigint
+  momentum: number
+  lastPostedAt: Date | null
+  statsUpdatedAt: Date | null
+}) => ({
+  postCount: item.postCount,
+  recentPostCount: item.recentPostCount,
+  totalViews: normalizeBigInt(item.totalViews),
+  viewsGained24h: normalizeBigInt(item.viewsGained24h),
+  viewsGained7d: normalizeBigInt(item.viewsGained7d),
+  momentum: item.momentum,
+  lastPostedAt: item.lastPostedAt,
+  statsUpdatedAt: item.statsUpdatedAt
+})
+
+/**
+ * GET /api/trends?type=sounds|hashtags&sort=viewsGained7d&limit=50&search=
+ * Sounds or hashtags across monitored posts, ranked by usage or views-weighted momentum
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type') === 'hashtags' ? 'hashtags' : 'sounds'
+    const sortParam = searchParams.get('sort') as TrendSortField | null
+    const sort: TrendSortField = sortParam && SORT_FIELDS.includes(sortParam) ? sortParam : 'viewsGained7d'
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1), MAX_LIMIT)
+    const search = searchParams.get('search')?.trim() || ''
+
+    // Ties (e.g. everything at 0 momentum) fall back to the weekly views
+    const orderBy = [{ [sort]: 'desc' as const }, { viewsGained7d: 'desc' as const }]
+
+    if (type === 'hashtags') {
+      const name = search ? normalizeHashtag(search) : null
+      const hashtags = await prisma.hashtag.findMany({
+        where: {
+          postCount: { gt: 0 },
+          ...(name && { name: { contains: name } })
+        },
+        orderBy,
+        take: limit
+      })
+
+      return NextResponse.json({
+        type,
+        items: hashtags.map(hashtag => ({
+          id: hashtag.id,
+          name: hashtag.name,
+          ...serializeStats(hashtag)
+        }))
+      })
+    }
+
+    const sounds = await prisma.sound.findMany({
+      where: {
+        postCount: { gt: 0 },
+        ...(search && {
+          OR: [
+            { title: { contains: search, mode: 'insensitive' as const } },
+            { author: { contains: search, mode: 'insensitive' as const } }
+          ]
+        })
+      },
+      orderBy,
+      take: limit
+    })
+
+    return NextResponse.json({
+      type,
+      items: sounds.map(sound => ({
+        id: sound.id,
+        tiktokMusicId: sound.tiktokMusicId,
+        title: sound.title,
+        author: sound.author,
+        ...serializeStats(sound)
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch trends:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch trends' },
+      { status: 500 }
+    )
+  }
+}
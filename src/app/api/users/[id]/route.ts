@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authService, USER_ROLES } from '@/lib/auth-service'
+import { requireRole } from '@/lib/auth'
+
+const UpdateUserSchema = z.object({
+  name: z.string().trim().max(100).optional().nullable(),
+  role: z.enum(USER_ROLES).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(8).optional()
+})
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof Error) {
+    if (error.message.startsWith('User not found')) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error.message.startsWith('Cannot remove the last active admin')) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+  }
+
+  console.error(`${fallback}:`, error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+/**
+ * PATCH /api/users/[id]
+ * Change a user's name, role, password or active state (admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const validation = UpdateUserSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const user = await authService.updateUser(id, validation.data)
+    return NextResponse.json({ user })
+  } catch (error) {
+    return errorResponse(error, 'Failed to update user')
+  }
+}
+
+/**
+ * DELETE /api/users/[id]
+ * Delete a user (admin only). Content they created is kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+
+    if (id === auth.user.id) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 400 }
+      )
+    }
+
+    await authService.deleteUser(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete user')
+  }
+}
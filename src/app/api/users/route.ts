@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authService, USER_ROLES } from '@/lib/auth-service'
+import { requireRole } from '@/lib/auth'
+
+const CreateUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().trim().max(100).optional().nullable(),
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES).default('viewer')
+})
+
+/**
+ * GET /api/users
+ * List all users (admin only)
+ */
+export async function GET() {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const users = await authService.listUsers()
+    return NextResponse.json({ users })
+  } catch (error) {
+    console.error('Failed to fetch users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/users
+ * Create a user (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireRole('admin')
+  if (auth.response) return auth.response
+
+  try {
+    const body = await request.json()
+    const validation = CreateUserSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const user = await authService.createUser(validation.data)
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('User already exists')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Failed to create user:', error)
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    )
+  }
+}
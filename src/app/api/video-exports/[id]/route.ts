@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { videoExportService } from '@/lib/video-export-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/video-exports/[id]
+ * Status of a video export, with a download link once it has completed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { id } = await params
+    const videoExport = await videoExportService.getExport(id)
+
+    return NextResponse.json({ export: videoExport })
+  } catch (error) {
+    console.error('Failed to fetch video export:', error)
+    const message = error instanceof Error ? error.message : 'Failed to fetch video export'
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith('Video export not found') ? 404 : 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { remixWorkflowService } from '@/lib/remix-workflow-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/workflow/board?projectId=&sessionId=&reviewerId=
+ * Drafts grouped by workflow stage, across projects and draft sessions
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const reviewerId = searchParams.get('reviewerId')
+
+    const columns = await remixWorkflowService.getBoard({
+      projectId: searchParams.get('projectId') || undefined,
+      sessionId: searchParams.get('sessionId') || undefined,
+      reviewerId: reviewerId === 'me' ? auth.user.id : reviewerId || undefined
+    })
+
+    return NextResponse.json({ columns })
+  } catch (error) {
+    console.error('Failed to fetch workflow board:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch workflow board' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { remixWorkflowService } from '@/lib/remix-workflow-service'
+import { requireRole } from '@/lib/auth'
+
+/**
+ * GET /api/workflow/reviewers
+ * Users who can be assigned to review drafts
+ */
+export async function GET() {
+  const auth = await requireRole('viewer')
+  if (auth.response) return auth.response
+
+  try {
+    const reviewers = await remixWorkflowService.listReviewers()
+    return NextResponse.json({ reviewers })
+  } catch (error) {
+    console.error('Failed to fetch reviewers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch reviewers' },
+      { status: 500 }
+    )
+  }
+}
@@ -27,6 +27,11 @@ export interface AdvancedFiltersValue {
   viewCountGt?: number
   viewCountLt?: number
   ocrStatus?: 'all' | 'processed' | 'unprocessed'
+  soundId?: string
+  hashtag?: string
+  minOutlierScore?: number
+  collapseDuplicates?: boolean
+  duplicateClusterId?: string
 }
 
 interface Profile {
@@ -37,6 +42,13 @@ interface Profile {
   postCount: number
 }
 
+interface Sound {
+  id: string
+  title: string | null
+  author: string | null
+  postCount: number
+}
+
 interface ProfileGroup {
   id: string
   name: string
@@ -44,6 +56,8 @@ interface ProfileGroup {
   profileCount: number
 }
 
+const OUTLIER_SCORE_OPTIONS = [1.5, 2, 3, 5, 10]
+
 interface AdvancedFiltersProps {
   value: AdvancedFiltersValue
   onChange: (value: AdvancedFiltersValue) => void
@@ -57,6 +71,7 @@ export function AdvancedFilters({ value, onChange, hideAccountFilter = false }:
   const [isOpen, setIsOpen] = useState(false)
   const [profiles, setProfiles] = useState<Profile[]>([])
   const [profileGroups, setProfileGroups] = useState<ProfileGroup[]>([])
+  const [sounds, setSounds] = useState<Sound[]>([])
   const [isLoadingProfiles, setIsLoadingProfiles] = useState(false)
   const [isLoadingProfileGroups, setIsLoadingProfileGroups] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
@@ -93,8 +108,19 @@ export function AdvancedFilters({ value, onChange, hideAccountFilter = false }:
       }
     }
 
+    const fetchSounds = async () => {
+      try {
+        const response = await fetch('/api/trends?type=sounds&sort=postCount&limit=100')
+        const data = await response.json()
+        setSounds(data.items || [])
+      } catch (error) {
+        console.error('Failed to fetch sounds:', error)
+      }
+    }
+
     fetchProfiles()
     fetchProfileGroups()
+    fetchSounds()
   }, [])
 
   // Update local filters when prop changes
@@ -146,7 +172,12 @@ export function AdvancedFilters({ value, onChange, hideAccountFilter = false }:
       profileGroupIds: [],
       viewCountGt: undefined,
       viewCountLt: undefined,
-      ocrStatus: 'all'
+      ocrStatus: 'all',
+      soundId: undefined,
+      hashtag: undefined,
+      minOutlierScore: undefined,
+      collapseDuplicates: undefined,
+      duplicateClusterId: undefined
     }
     setLocalFilters(resetFilters)
     onChange(resetFilters)
@@ -157,7 +188,11 @@ export function AdvancedFilters({ value, onChange, hideAccountFilter = false }:
     (hideAccountFilter ? 0 : localFilters.profileGroupIds.length) +
     (localFilters.viewCountGt ? 1 : 0) +
     (localFilters.viewCountLt ? 1 : 0) +
-    (localFilters.ocrStatus && localFilters.ocrStatus !== 'all' ? 1 : 0)
+    (localFilters.ocrStatus && localFilters.ocrStatus !== 'all' ? 1 : 0) +
+    (localFilters.soundId ? 1 : 0) +
+    (localFilters.hashtag ? 1 : 0) +
+    (localFilters.minOutlierScore ? 1 : 0) +
+    (localFilters.collapseDuplicates || localFilters.duplicateClusterId ? 1 : 0)
 
   const selectedProfiles = profiles.filter(p => localFilters.accountIds.includes(p.id))
   const selectedProfileGroups = profileGroups.filter(g => localFilters.profileGroupIds.includes(g.id))
@@ -405,6 +440,91 @@ export function AdvancedFilters({ value, onChange, hideAccountFilter = false }:
             </Select>
           </div>
 
+          {/* Outlier Score Filter */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Outlier Score</Label>
+            <Select
+              value={localFilters.minOutlierScore?.toString() || 'any'}
+              onValueChange={(value) => setLocalFilters(prev => ({
+                ...prev,
+                minOutlierScore: value === 'any' ? undefined : parseFloat(value)
+              }))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Any score" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any score</SelectItem>
+                {OUTLIER_SCORE_OPTIONS.map(score => (
+                  <SelectItem key={score} value={score.toString()}>
+                    {score}× the author&apos;s median or more
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Duplicate Carousels Filter */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Duplicates</Label>
+            <Select
+              value={localFilters.duplicateClusterId ? 'cluster' : localFilters.collapseDuplicates ? 'collapse' : 'all'}
+              onValueChange={(value) => setLocalFilters(prev => ({
+                ...prev,
+                collapseDuplicates: value === 'collapse' ? true : undefined,
+                duplicateClusterId: value === 'cluster' ? prev.duplicateClusterId : undefined
+              }))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Show copies" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Show copies</SelectItem>
+                <SelectItem value="collapse">Hide copies (originals only)</SelectItem>
+                {localFilters.duplicateClusterId && (
+                  <SelectItem value="cluster">Only this duplicate cluster</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Sound & Hashtag Filters */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Sound &amp; Hashtag</Label>
+            <Select
+              value={localFilters.soundId || 'any'}
+              onValueChange={(value) => setLocalFilters(prev => ({
+                ...prev,
+                soundId: value === 'any' ? undefined : value
+              }))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Any sound" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any sound</SelectItem>
+                {localFilters.soundId && !sounds.some(sound => sound.id === localFilters.soundId) && (
+                  <SelectItem value={localFilters.soundId}>Selected sound</SelectItem>
+                )}
+                {sounds.map(sound => (
+                  <SelectItem key={sound.id} value={sound.id}>
+                    {sound.title || 'Untitled sound'}
+                    {sound.author ? ` · ${sound.author}` : ''} ({sound.postCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="#hashtag"
+              value={localFilters.hashtag || ''}
+              onChange={(e) => setLocalFilters(prev => ({
+                ...prev,
+                hashtag: e.target.value.trim() || undefined
+              }))}
+              className="h-8 text-xs"
+            />
+          </div>
+
           {/* Actions */}
           <div className="flex gap-2 pt-2">
             <Button
@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertTriangle } from 'lucide-react'
+import { formatCost } from '@/lib/cost-calculation-service'
+
+interface BudgetStatus {
+  period: 'daily' | 'monthly'
+  limitUsd: number
+  spentUsd: number
+  percentUsed: number
+  state: 'ok' | 'warning' | 'exceeded'
+}
+
+// Spend moves slowly; the budget sweep itself runs every few minutes
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000
+
+/**
+ * Warns across the app when AI spend nears or exceeds a budget
+ */
+export function AiBudgetBanner() {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([])
+  const [queuesPaused, setQueuesPaused] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchBudgets = async () => {
+      try {
+        const response = await fetch('/api/ai-usage/budgets')
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (cancelled) return
+        setBudgets(data.budgets.filter((budget: BudgetStatus) => budget.state !== 'ok'))
+        setQueuesPaused(data.queuesPaused)
+      } catch (error) {
+        console.error('Failed to fetch AI budgets:', error)
+      }
+    }
+
+    fetchBudgets()
+    const interval = setInterval(fetchBudgets, REFRESH_INTERVAL_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  if (budgets.length === 0) return null
+
+  const exceeded = budgets.some(budget => budget.state === 'exceeded')
+
+  return (
+    <div
+      className={`flex items-center gap-2 border-b px-4 py-2 text-xs ${
+        exceeded ? 'border-red-500/30 bg-red-500/10 text-red-600' : 'border-orange-500/30 bg-orange-500/10 text-orange-600'
+      }`}
+    >
+      <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+      <span className="flex-1">
+        {budgets.map(budget =>
+          `${budget.period === 'daily' ? 'Daily' : 'Monthly'} AI budget ${budget.state === 'exceeded' ? 'exceeded' : `at ${Math.round(budget.percentUsed)}%`}: ${formatCost(budget.spentUsd)} of $${budget.limitUsd.toFixed(2)}`
+        ).join(' · ')}
+        {queuesPaused && ' · Background AI jobs are paused'}
+      </span>
+      <Link href="/settings/ai-usage" className="font-medium underline underline-offset-2">
+        View usage
+      </Link>
+    </div>
+  )
+}
@@ -0,0 +1,445 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export type AlertMetric = 'VIEWS' | 'LIKES' | 'SHARES' | 'COMMENTS' | 'SAVES' | 'ENGAGEMENT_RATE'
+export type AlertCondition = 'ABOVE' | 'BELOW' | 'GROWTH_ABOVE' | 'GROWTH_PERCENT_ABOVE' | 'NEW_POST'
+
+export interface AlertRule {
+  id: string
+  name: string
+  description: string | null
+  enabled: boolean
+  metric: AlertMetric
+  condition: AlertCondition
+  threshold: number
+  windowHours: number | null
+  minPostAgeHours: number | null
+  maxPostAgeHours: number | null
+  profileId: string | null
+  profileGroupId: string | null
+  postCategoryId: string | null
+  notificationType: string
+  inApp: boolean
+  useDefaultChannels: boolean
+  channels?: Array<{ id: string; name: string; type: string }>
+  cooldownHours: number | null
+  snoozedUntil: string | null
+  lastTriggeredAt: string | null
+  profile?: { id: string; handle: string } | null
+  profileGroup?: { id: string; name: string } | null
+  postCategory?: { id: string; name: string } | null
+  _count?: { events: number }
+}
+
+export const METRIC_LABELS: Record<AlertMetric, string> = {
+  VIEWS: 'Views',
+  LIKES: 'Likes',
+  SHARES: 'Shares',
+  COMMENTS: 'Comments',
+  SAVES: 'Saves',
+  ENGAGEMENT_RATE: 'Engagement rate (%)',
+}
+
+export const CONDITION_LABELS: Record<AlertCondition, string> = {
+  ABOVE: 'is at least',
+  BELOW: 'is below',
+  GROWTH_ABOVE: 'grows by at least',
+  GROWTH_PERCENT_ABOVE: 'grows by at least (%)',
+  NEW_POST: 'New post published',
+}
+
+const NOTIFICATION_TYPES = [
+  { value: 'HIGH_VIEWS', label: 'High performance' },
+  { value: 'VIRAL_CONTENT', label: 'Viral content' },
+  { value: 'LOW_PERFORMANCE', label: 'Low performance' },
+  { value: 'NEW_POST', label: 'New post' },
+]
+
+type ScopeType = 'all' | 'profile' | 'group' | 'category'
+
+interface ScopeOption {
+  id: string
+  label: string
+}
+
+interface ChannelOption {
+  id: string
+  name: string
+  type: string
+  enabled: boolean
+  isDefault: boolean
+}
+
+interface AlertRuleDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  rule?: AlertRule | null
+  onSuccess: () => void
+}
+
+const parseOptionalInt = (value: string): number | null =>
+  value.trim() === '' ? null : parseInt(value, 10)
+
+export function AlertRuleDialog({ isOpen, onClose, rule, onSuccess }: AlertRuleDialogProps) {
+  const [name, setName] = useState('')
+  const [metric, setMetric] = useState<AlertMetric>('VIEWS')
+  const [condition, setCondition] = useState<AlertCondition>('ABOVE')
+  const [threshold, setThreshold] = useState('1000')
+  const [windowHours, setWindowHours] = useState('')
+  const [minPostAgeHours, setMinPostAgeHours] = useState('')
+  const [maxPostAgeHours, setMaxPostAgeHours] = useState('')
+  const [scopeType, setScopeType] = useState<ScopeType>('all')
+  const [scopeId, setScopeId] = useState('')
+  const [notificationType, setNotificationType] = useState('HIGH_VIEWS')
+  const [inApp, setInApp] = useState(true)
+  const [useDefaultChannels, setUseDefaultChannels] = useState(true)
+  const [channelIds, setChannelIds] = useState<string[]>([])
+  const [channelOptions, setChannelOptions] = useState<ChannelOption[]>([])
+  const [cooldownHours, setCooldownHours] = useState('')
+  const [scopeOptions, setScopeOptions] = useState<ScopeOption[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const isGrowth = condition === 'GROWTH_ABOVE' || condition === 'GROWTH_PERCENT_ABOVE'
+  const isNewPost = condition === 'NEW_POST'
+
+  // Reset form each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(rule?.name ?? '')
+    setMetric(rule?.metric ?? 'VIEWS')
+    setCondition(rule?.condition ?? 'ABOVE')
+    setThreshold(String(rule?.threshold ?? 1000))
+    setWindowHours(rule?.windowHours?.toString() ?? '')
+    setMinPostAgeHours(rule?.minPostAgeHours?.toString() ?? '')
+    setMaxPostAgeHours(rule?.maxPostAgeHours?.toString() ?? '')
+    setScopeType(rule?.profileId ? 'profile' : rule?.profileGroupId ? 'group' : rule?.postCategoryId ? 'category' : 'all')
+    setScopeId(rule?.profileId ?? rule?.profileGroupId ?? rule?.postCategoryId ?? '')
+    setNotificationType(rule?.notificationType ?? 'HIGH_VIEWS')
+    setInApp(rule?.inApp ?? true)
+    setUseDefaultChannels(rule?.useDefaultChannels ?? true)
+    setChannelIds(rule?.channels?.map(channel => channel.id) ?? [])
+    setCooldownHours(rule?.cooldownHours?.toString() ?? '')
+  }, [isOpen, rule])
+
+  // Load delivery channels
+  useEffect(() => {
+    if (!isOpen) return
+
+    fetch('/api/notification-channels')
+      .then(response => response.json())
+      .then(data => setChannelOptions(data.channels || []))
+      .catch(error => {
+        console.error('Failed to load notification channels:', error)
+        toast.error('Failed to load notification channels')
+      })
+  }, [isOpen])
+
+  // Load targets for the selected scope
+  useEffect(() => {
+    if (!isOpen || scopeType === 'all') {
+      setScopeOptions([])
+      return
+    }
+
+    const load = async () => {
+      try {
+        if (scopeType === 'profile') {
+          const response = await fetch('/api/tiktok/profiles?limit=100')
+          const data = await response.json()
+          setScopeOptions((data.profiles || []).map((p: { id: string; handle: string }) => ({ id: p.id, label: `@${p.handle}` })))
+        } else {
+          const response = await fetch(scopeType === 'group' ? '/api/profile-groups' : '/api/post-categories')
+          const data = await response.json()
+          setScopeOptions((data.data || []).map((item: { id: string; name: string }) => ({ id: item.id, label: item.name })))
+        }
+      } catch (error) {
+        console.error('Failed to load scope options:', error)
+        toast.error('Failed to load scope options')
+      }
+    }
+
+    load()
+  }, [isOpen, scopeType])
+
+  const toggleChannel = (channelId: string, checked: boolean) => {
+    setChannelIds(prev => checked ? [...prev, channelId] : prev.filter(id => id !== channelId))
+  }
+
+  const hasDestination = inApp || useDefaultChannels || channelIds.length > 0
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Rule name is required')
+      return
+    }
+    if (scopeType !== 'all' && !scopeId) {
+      toast.error('Select a scope target')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const body = {
+        name: name.trim(),
+        metric,
+        condition,
+        threshold: isNewPost ? 0 : parseFloat(threshold) || 0,
+        windowHours: isGrowth ? parseOptionalInt(windowHours) : null,
+        minPostAgeHours: isNewPost ? null : parseOptionalInt(minPostAgeHours),
+        maxPostAgeHours: parseOptionalInt(maxPostAgeHours),
+        profileId: scopeType === 'profile' ? scopeId : null,
+        profileGroupId: scopeType === 'group' ? scopeId : null,
+        postCategoryId: scopeType === 'category' ? scopeId : null,
+        notificationType,
+        inApp,
+        useDefaultChannels,
+        channelIds,
+        cooldownHours: parseOptionalInt(cooldownHours),
+      }
+
+      const response = await fetch(rule ? `/api/alert-rules/${rule.id}` : '/api/alert-rules', {
+        method: rule ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save alert rule')
+        return
+      }
+
+      toast.success(rule ? 'Alert rule updated' : 'Alert rule created')
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save alert rule:', error)
+      toast.error('Failed to save alert rule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Alert Rule' : 'New Alert Rule'}</DialogTitle>
+          <DialogDescription>
+            Rules are checked against posts every time a profile is scraped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Breakout posts" />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Condition</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={metric} onValueChange={(v) => setMetric(v as AlertMetric)} disabled={isNewPost}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(METRIC_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={condition} onValueChange={(v) => setCondition(v as AlertCondition)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                disabled={isNewPost}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label className="text-xs">Growth window (h)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={windowHours}
+                onChange={(e) => setWindowHours(e.target.value)}
+                placeholder="24"
+                disabled={!isGrowth}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Min post age (h)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={minPostAgeHours}
+                onChange={(e) => setMinPostAgeHours(e.target.value)}
+                placeholder="Any"
+                disabled={isNewPost}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Max post age (h)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={maxPostAgeHours}
+                onChange={(e) => setMaxPostAgeHours(e.target.value)}
+                placeholder={isNewPost ? '24' : 'Any'}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scope</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={scopeType}
+                onValueChange={(v) => {
+                  setScopeType(v as ScopeType)
+                  setScopeId('')
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All posts</SelectItem>
+                  <SelectItem value="profile">Profile</SelectItem>
+                  <SelectItem value="group">Profile group</SelectItem>
+                  <SelectItem value="category">Post category</SelectItem>
+                </SelectContent>
+              </Select>
+              {scopeType !== 'all' && (
+                <Select value={scopeId} onValueChange={setScopeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {scopeOptions.map(option => (
+                      <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label>Notification type</Label>
+              <Select value={notificationType} onValueChange={setNotificationType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-cooldown">Re-alert after (h)</Label>
+              <Input
+                id="rule-cooldown"
+                type="number"
+                min={1}
+                value={cooldownHours}
+                onChange={(e) => setCooldownHours(e.target.value)}
+                placeholder="Never (once per post)"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Deliver to</Label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="channel-in-app"
+                  checked={inApp}
+                  onCheckedChange={(checked) => setInApp(checked === true)}
+                />
+                <Label htmlFor="channel-in-app" className="font-normal">In-app notification</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="channel-defaults"
+                  checked={useDefaultChannels}
+                  onCheckedChange={(checked) => setUseDefaultChannels(checked === true)}
+                />
+                <Label htmlFor="channel-defaults" className="font-normal">Default channels</Label>
+              </div>
+              {channelOptions
+                .filter(channel => !(useDefaultChannels && channel.isDefault))
+                .map(channel => (
+                  <div key={channel.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`channel-${channel.id}`}
+                      checked={channelIds.includes(channel.id)}
+                      onCheckedChange={(checked) => toggleChannel(channel.id, checked === true)}
+                      disabled={!channel.enabled}
+                    />
+                    <Label htmlFor={`channel-${channel.id}`} className="font-normal">
+                      {channel.name}
+                      <span className="text-muted-foreground ml-1 text-xs">
+                        {channel.type.toLowerCase()}{!channel.enabled && ' · disabled'}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !hasDestination}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {rule ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
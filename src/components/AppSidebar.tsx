@@ -3,7 +3,7 @@
 import { useState, useEffect } from 'react'
 import { usePathname, useRouter } from 'next/navigation'
 import Link from 'next/link'
-import { FileText, Users, BookmarkCheck, Edit, Library, Tag, ImageIcon, CogIcon, FolderPlus, Folder, Check, X, Trash2, GalleryHorizontalEnd, LibraryIcon, SquareLibrary, Lightbulb } from 'lucide-react'
+import { FileText, Users, BookmarkCheck, Edit, Library, Tag, ImageIcon, CogIcon, FolderPlus, Folder, Check, X, Trash2, GalleryHorizontalEnd, LibraryIcon, SquareLibrary, Lightbulb, CalendarClock, TrendingUp, LogOut, SquareKanban } from 'lucide-react'
 import {
   Sidebar,
   SidebarContent,
@@ -37,6 +37,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
+import { useCurrentUser } from '@/hooks/use-current-user'
 
 interface Project {
   id: string
@@ -51,6 +52,7 @@ interface Project {
 export function AppSidebar() {
   const pathname = usePathname()
   const router = useRouter()
+  const currentUser = useCurrentUser()
 
   const [projects, setProjects] = useState<Project[]>([])
   const [isLoadingProjects, setIsLoadingProjects] = useState(false)
@@ -71,6 +73,11 @@ export function AppSidebar() {
       url: '/drafts',
       icon: LibraryIcon,
     },
+    {
+      title: 'Workflow',
+      url: '/workflow',
+      icon: SquareKanban,
+    },
     {
       title: 'Concepts',
       url: '/concepts',
@@ -86,6 +93,11 @@ export function AppSidebar() {
       url: '/product-contexts',
       icon: SquareLibrary,
     },
+    {
+      title: 'Publishing',
+      url: '/publishing',
+      icon: CalendarClock,
+    },
     // Hidden for now
     // {
     //   title: 'Upload',
@@ -105,6 +117,11 @@ export function AppSidebar() {
       url: '/profiles',
       icon: Users,
     },
+    {
+      title: 'Trending',
+      url: '/trending',
+      icon: TrendingUp,
+    },
   ]
 
   // Fetch projects on mount
@@ -112,6 +129,14 @@ export function AppSidebar() {
     fetchProjects()
   }, [])
 
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' })
+    } finally {
+      window.location.href = '/login'
+    }
+  }
+
   const fetchProjects = async () => {
     setIsLoadingProjects(true)
     try {
@@ -414,6 +439,15 @@ export function AppSidebar() {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          {currentUser && (
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={handleSignOut} tooltip="Sign out">
+                <LogOut className="h-4 w-4" />
+                <span className="truncate">{currentUser.name || currentUser.email}</span>
+                <Badge variant="outline" className="ml-auto text-[10px] capitalize">{currentUser.role}</Badge>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          )}
         </SidebarMenu>
       </SidebarFooter>
 
@@ -0,0 +1,497 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, Plus, Star, Trash2, X, ImagePlus } from 'lucide-react'
+import { toast } from 'sonner'
+import { AssetPicker, type AssetItem } from '@/components/AssetPicker'
+import { FONT_FAMILIES } from '@/components/TextStylePanel'
+import { STYLE_PRESETS } from '@/lib/style-presets'
+import { BRAND_TEXT_STYLE_FIELDS, type BrandTextStyle } from '@/lib/validations/brand-kit-schema'
+import type { BackgroundLayerType } from '@/lib/validations/remix-schema'
+import type { BrandKitSummary } from '@/hooks/use-brand-kits'
+
+type BackgroundMode = 'none' | 'color' | 'gradient'
+
+interface Logo {
+  id: string
+  url: string
+  name: string | null
+}
+
+interface BrandKitDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  brandKit?: BrandKitSummary | null
+  onSuccess: () => void
+}
+
+const NONE = 'none'
+
+const FONT_WEIGHTS = ['normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900'] as const
+
+const SLIDE_TYPES = [
+  { value: NONE, label: 'Any slide' },
+  { value: 'Hook', label: 'Hook' },
+  { value: 'Content', label: 'Content' },
+  { value: 'CTA', label: 'CTA' },
+]
+
+const newTextStyle = (name: string): BrandTextStyle => ({
+  ...(Object.fromEntries(
+    BRAND_TEXT_STYLE_FIELDS.map(field => [field, STYLE_PRESETS.CENTERED_BOLD_BOX[field]])
+  ) as Omit<BrandTextStyle, 'id' | 'name' | 'isDefault' | 'slideType'>),
+  id: `style_${Date.now()}`,
+  name,
+  isDefault: false,
+  slideType: null,
+})
+
+const backgroundLayer = (mode: BackgroundMode, color: string, gradientTo: string): BackgroundLayerType[] => {
+  const base = {
+    id: 'bg_brand_1',
+    x: 0,
+    y: 0,
+    width: 1,
+    height: 1,
+    rotation: 0,
+    fitMode: 'cover' as const,
+    opacity: 1,
+    blendMode: 'normal' as const,
+    zIndex: 1,
+  }
+
+  if (mode === 'color') return [{ ...base, type: 'color', color }]
+  if (mode === 'gradient') {
+    return [{ ...base, type: 'gradient', gradient: { type: 'linear', colors: [color, gradientTo], angle: 180 } }]
+  }
+  return []
+}
+
+export function BrandKitDialog({ isOpen, onClose, brandKit, onSuccess }: BrandKitDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [palette, setPalette] = useState<string[]>([])
+  const [newColor, setNewColor] = useState('#000000')
+  const [headingFont, setHeadingFont] = useState<string>(NONE)
+  const [bodyFont, setBodyFont] = useState<string>(NONE)
+  const [textStyles, setTextStyles] = useState<BrandTextStyle[]>([])
+  const [logos, setLogos] = useState<Logo[]>([])
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>('none')
+  const [backgroundColor, setBackgroundColor] = useState('#ffffff')
+  const [gradientTo, setGradientTo] = useState('#000000')
+  const [isPickingLogos, setIsPickingLogos] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset form each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    const layer = brandKit?.backgroundLayers?.[0]
+    setName(brandKit?.name ?? '')
+    setDescription(brandKit?.description ?? '')
+    setPalette(brandKit?.palette ?? [])
+    setHeadingFont(brandKit?.headingFont ?? NONE)
+    setBodyFont(brandKit?.bodyFont ?? NONE)
+    setTextStyles(brandKit?.textStyles ?? [])
+    setLogos([])
+    setBackgroundMode(layer?.type === 'color' || layer?.type === 'gradient' ? layer.type : 'none')
+    setBackgroundColor(layer?.color ?? layer?.gradient?.colors[0] ?? '#ffffff')
+    setGradientTo(layer?.gradient?.colors[1] ?? '#000000')
+  }, [isOpen, brandKit])
+
+  // Logo URLs are only resolved by the single-kit endpoint
+  useEffect(() => {
+    if (!isOpen || !brandKit?.logoAssetIds.length) return
+
+    fetch(`/api/brand-kits/${brandKit.id}`)
+      .then(response => response.json())
+      .then(data => setLogos(data.brandKit?.logos ?? []))
+      .catch(error => console.error('Failed to load brand kit logos:', error))
+  }, [isOpen, brandKit])
+
+  const addColor = () => {
+    const color = newColor.toLowerCase()
+    if (!palette.includes(color)) setPalette(prev => [...prev, color])
+  }
+
+  const updateStyle = (id: string, updates: Partial<BrandTextStyle>) => {
+    setTextStyles(prev => prev.map(style => style.id === id ? { ...style, ...updates } : style))
+  }
+
+  const setDefaultStyle = (id: string) => {
+    setTextStyles(prev => prev.map(style => ({ ...style, isDefault: style.id === id })))
+  }
+
+  const handleLogosPicked = (assets: AssetItem[]) => {
+    setLogos(prev => [
+      ...prev,
+      ...assets
+        .filter(asset => !prev.some(logo => logo.id === asset.id))
+        .map(asset => ({ id: asset.id, url: asset.url, name: asset.name })),
+    ])
+    setIsPickingLogos(false)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Brand kit name is required')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const body = {
+        name: name.trim(),
+        description: description.trim() || null,
+        palette,
+        headingFont: headingFont === NONE ? null : headingFont,
+        bodyFont: bodyFont === NONE ? null : bodyFont,
+        textStyles,
+        logoAssetIds: logos.map(logo => logo.id),
+        backgroundLayers: backgroundLayer(backgroundMode, backgroundColor, gradientTo),
+      }
+
+      const response = await fetch(brandKit ? `/api/brand-kits/${brandKit.id}` : '/api/brand-kits', {
+        method: brandKit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save brand kit')
+        return
+      }
+
+      toast.success(brandKit ? 'Brand kit updated' : 'Brand kit created')
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save brand kit:', error)
+      toast.error('Failed to save brand kit')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{brandKit ? 'Edit Brand Kit' : 'New Brand Kit'}</DialogTitle>
+          <DialogDescription>
+            Attach the kit to a project or product context to brand every new draft made for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="kit-name">Name</Label>
+              <Input id="kit-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Acme Spring" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kit-description">Description</Label>
+              <Textarea
+                id="kit-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={1}
+                className="min-h-9 resize-none"
+              />
+            </div>
+          </div>
+
+          {/* Palette */}
+          <div className="space-y-2">
+            <Label>Palette</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {palette.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  title={`Remove ${color}`}
+                  onClick={() => setPalette(prev => prev.filter(c => c !== color))}
+                  className="group relative h-8 w-8 rounded border border-input"
+                  style={{ backgroundColor: color }}
+                >
+                  <X className="absolute inset-0 m-auto h-3 w-3 text-white mix-blend-difference opacity-0 group-hover:opacity-100" />
+                </button>
+              ))}
+              <input
+                type="color"
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="h-8 w-10 rounded border border-input cursor-pointer"
+              />
+              <Button type="button" variant="outline" size="sm" className="h-8" onClick={addColor}>
+                <Plus className="h-3 w-3 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Fonts */}
+          <div className="grid grid-cols-2 gap-3">
+            <FontSelect label="Heading font" value={headingFont} onChange={setHeadingFont} />
+            <FontSelect label="Body font" value={bodyFont} onChange={setBodyFont} />
+          </div>
+
+          {/* Default background */}
+          <div className="space-y-2">
+            <Label>Default slide background</Label>
+            <div className="flex items-center gap-2">
+              <Select value={backgroundMode} onValueChange={(value) => setBackgroundMode(value as BackgroundMode)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Keep default</SelectItem>
+                  <SelectItem value="color">Solid color</SelectItem>
+                  <SelectItem value="gradient">Gradient</SelectItem>
+                </SelectContent>
+              </Select>
+              {backgroundMode !== 'none' && (
+                <input
+                  type="color"
+                  value={backgroundColor}
+                  onChange={(e) => setBackgroundColor(e.target.value)}
+                  className="h-9 w-12 rounded border border-input cursor-pointer"
+                />
+              )}
+              {backgroundMode === 'gradient' && (
+                <input
+                  type="color"
+                  value={gradientTo}
+                  onChange={(e) => setGradientTo(e.target.value)}
+                  className="h-9 w-12 rounded border border-input cursor-pointer"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Logos */}
+          <div className="space-y-2">
+            <Label>Logos</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {logos.map(logo => (
+                <div key={logo.id} className="group relative h-14 w-14 rounded border bg-muted/30">
+                  <img src={logo.url} alt={logo.name ?? 'Logo'} className="h-full w-full object-contain" />
+                  <button
+                    type="button"
+                    onClick={() => setLogos(prev => prev.filter(l => l.id !== logo.id))}
+                    className="absolute -top-1.5 -right-1.5 hidden group-hover:flex h-4 w-4 items-center justify-center rounded-full bg-destructive text-destructive-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" className="h-14" onClick={() => setIsPickingLogos(true)}>
+                <ImagePlus className="h-4 w-4 mr-1" />
+                Add logos
+              </Button>
+            </div>
+          </div>
+
+          {/* Text styles */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Text styles</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setTextStyles(prev => [...prev, newTextStyle(`Style ${prev.length + 1}`)])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add style
+              </Button>
+            </div>
+            {textStyles.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Without styles, new text boxes only take the kit&apos;s fonts.
+              </p>
+            )}
+            {textStyles.map(style => (
+              <div key={style.id} className="rounded-md border p-2 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Default style"
+                    onClick={() => setDefaultStyle(style.id)}
+                  >
+                    <Star className={style.isDefault ? 'h-3.5 w-3.5 text-yellow-500 fill-yellow-500' : 'h-3.5 w-3.5'} />
+                  </Button>
+                  <Input
+                    value={style.name}
+                    onChange={(e) => updateStyle(style.id, { name: e.target.value })}
+                    className="h-7 text-xs flex-1"
+                  />
+                  <Select
+                    value={style.slideType ?? NONE}
+                    onValueChange={(value) => updateStyle(style.id, {
+                      slideType: value === NONE ? null : value as BrandTextStyle['slideType'],
+                    })}
+                  >
+                    <SelectTrigger className="h-7 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SLIDE_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value} className="text-xs">{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-destructive"
+                    onClick={() => setTextStyles(prev => prev.filter(s => s.id !== style.id))}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select value={style.fontFamily} onValueChange={(fontFamily) => updateStyle(style.id, { fontFamily })}>
+                    <SelectTrigger className="h-7 w-36 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FONT_FAMILIES.map(font => (
+                        <SelectItem key={font} value={font} className="text-xs" style={{ fontFamily: font }}>{font}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={8}
+                    max={200}
+                    value={style.fontSize}
+                    onChange={(e) => updateStyle(style.id, { fontSize: parseInt(e.target.value) || 8 })}
+                    className="h-7 w-16 text-xs"
+                  />
+                  <Select
+                    value={style.fontWeight}
+                    onValueChange={(fontWeight) => updateStyle(style.id, { fontWeight: fontWeight as BrandTextStyle['fontWeight'] })}
+                  >
+                    <SelectTrigger className="h-7 w-24 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FONT_WEIGHTS.map(weight => (
+                        <SelectItem key={weight} value={weight} className="text-xs">{weight}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Text
+                    <input
+                      type="color"
+                      value={style.color}
+                      onChange={(e) => updateStyle(style.id, { color: e.target.value })}
+                      className="h-7 w-8 rounded border border-input cursor-pointer"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Box
+                    <input
+                      type="color"
+                      value={style.backgroundColor}
+                      onChange={(e) => updateStyle(style.id, { backgroundColor: e.target.value })}
+                      className="h-7 w-8 rounded border border-input cursor-pointer"
+                    />
+                  </label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    title="Box opacity (%)"
+                    value={Math.round(style.backgroundOpacity * 100)}
+                    onChange={(e) => updateStyle(style.id, { backgroundOpacity: (parseInt(e.target.value) || 0) / 100 })}
+                    className="h-7 w-16 text-xs"
+                  />
+                </div>
+                {palette.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {palette.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        title={`Use ${color} for text`}
+                        onClick={() => updateStyle(style.id, { color })}
+                        className="h-4 w-4 rounded border border-input"
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {brandKit ? 'Save Changes' : 'Create Brand Kit'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      <AssetPicker
+        open={isPickingLogos}
+        onClose={() => setIsPickingLogos(false)}
+        onSelectMultiple={handleLogosPicked}
+        multiSelect
+        title="Choose Logos"
+        description="Select logo images from your assets or upload new ones"
+      />
+    </Dialog>
+  )
+}
+
+function FontSelect({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Not set</SelectItem>
+          {FONT_FAMILIES.map(font => (
+            <SelectItem key={font} value={font} style={{ fontFamily: font }}>{font}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface BrandKitOption {
+  id: string
+  name: string
+  palette: string[]
+}
+
+interface BrandKitSelectorProps {
+  value: string | null
+  onChange: (brandKitId: string | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function BrandKitSelector({
+  value,
+  onChange,
+  disabled = false,
+  className = 'w-[200px]'
+}: BrandKitSelectorProps) {
+  const [brandKits, setBrandKits] = useState<BrandKitOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function fetchBrandKits() {
+      try {
+        const response = await fetch('/api/brand-kits')
+        if (!response.ok) throw new Error('Failed to fetch')
+        const data = await response.json()
+        setBrandKits(data.brandKits)
+      } catch (error) {
+        console.error('Error fetching brand kits:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchBrandKits()
+  }, [])
+
+  if (isLoading) {
+    return (
+      <div className={`${className} h-9 bg-muted animate-pulse rounded-md`} />
+    )
+  }
+
+  return (
+    <Select
+      value={value || 'none'}
+      onValueChange={(val) => onChange(val === 'none' ? null : val)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select brand kit..." />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">No Brand Kit</SelectItem>
+        {brandKits.map((kit) => (
+          <SelectItem key={kit.id} value={kit.id}>
+            <span className="flex items-center gap-2">
+              <span className="flex -space-x-1">
+                {kit.palette.slice(0, 3).map(color => (
+                  <span
+                    key={color}
+                    className="h-3 w-3 rounded-full border border-background"
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </span>
+              {kit.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
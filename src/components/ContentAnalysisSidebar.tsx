@@ -28,6 +28,8 @@ import {
   MessageSquare,
   History,
   Trash2,
+  Database,
+  AlertCircle,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { getProxiedImageUrlById } from "@/lib/image-proxy"
@@ -37,6 +39,7 @@ import {
   Conversation,
   GeminiModel,
   Message as ConversationMessage,
+  ToolCall,
 } from "@/types/conversation"
 import {
   calculateCost,
@@ -102,6 +105,51 @@ const PRESET_PROMPTS = [
   },
 ]
 
+const TOOL_LABELS: Record<string, string> = {
+  aggregate_post_metrics: "Aggregated metrics",
+  get_post_ocr: "Read slide text",
+  list_top_hooks: "Listed top hooks",
+  compare_groups: "Compared groups",
+}
+
+const describeToolArgs = (args: Record<string, unknown>): string =>
+  Object.entries(args)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join(" · ")
+
+function ToolCallList({ toolCalls }: { toolCalls: ToolCall[] }) {
+  return (
+    <details className="mb-3 cursor-pointer">
+      <summary className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:opacity-80">
+        <Database className="w-3 h-3 inline mr-1" />
+        Queried data {toolCalls.length} time{toolCalls.length === 1 ? "" : "s"}
+      </summary>
+      <div className="mt-2 space-y-1.5">
+        {toolCalls.map((call) => (
+          <div key={call.id} className="p-2 bg-background rounded text-xs">
+            <div className="flex items-center gap-1.5 font-medium">
+              {call.error ? (
+                <AlertCircle className="w-3 h-3 text-destructive" />
+              ) : call.durationMs === undefined ? (
+                <Loader2 className="w-3 h-3 animate-spin" />
+              ) : null}
+              {TOOL_LABELS[call.name] ?? call.name}
+              {call.durationMs !== undefined && (
+                <span className="font-normal text-muted-foreground">{call.durationMs}ms</span>
+              )}
+            </div>
+            {describeToolArgs(call.args) && (
+              <div className="text-muted-foreground break-all mt-0.5">{describeToolArgs(call.args)}</div>
+            )}
+            {call.error && <div className="text-destructive mt-0.5">{call.error}</div>}
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
+
 const MODELS: { value: GeminiModel; label: string }[] = [
   { value: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
   { value: "gemini-2.5-flash-thinking", label: "Gemini 2.5 Flash (Thinking)" },
@@ -211,7 +259,7 @@ export function ContentAnalysisSidebar({
 
   const handleSendMessage = async (promptText?: string) => {
     const messageText = promptText || input.trim()
-    if (!messageText || isStreaming || selectedPosts.length === 0) return
+    if (!messageText || isStreaming) return
 
     setIsStreaming(true)
     setInput("")
@@ -268,6 +316,7 @@ export function ContentAnalysisSidebar({
 
       let accumulatedContent = ""
       let thinkingContent = ""
+      let toolCalls: ToolCall[] = []
       let messageInputTokens = 0
       let messageOutputTokens = 0
       let messageCost = 0
@@ -310,6 +359,20 @@ export function ContentAnalysisSidebar({
                 )
               }
 
+              if (parsed.type === "tool_call" || parsed.type === "tool_result") {
+                const call = parsed.call as ToolCall
+                toolCalls = toolCalls.some((c) => c.id === call.id)
+                  ? toolCalls.map((c) => (c.id === call.id ? call : c))
+                  : [...toolCalls, call]
+                setMessages((prev) =>
+                  prev.map((msg) =>
+                    msg.id === assistantMessageId
+                      ? { ...msg, toolCalls }
+                      : msg
+                  )
+                )
+              }
+
               if (parsed.type === "usage") {
                 messageInputTokens = parsed.inputTokens
                 messageOutputTokens = parsed.outputTokens
@@ -566,8 +629,8 @@ export function ContentAnalysisSidebar({
                 <Sparkles className="w-12 h-12 text-muted-foreground mb-4" />
                 <h3 className="font-semibold mb-2">Start Analyzing</h3>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Select posts from the table and use the preset prompts or ask
-                  your own questions to discover trends and insights.
+                  Ask about all your scraped posts, or select posts from the
+                  table and use the preset prompts to dig into them.
                 </p>
               </div>
             ) : (
@@ -596,6 +659,9 @@ export function ContentAnalysisSidebar({
                         </p>
                       ) : (
                         <div>
+                          {message.toolCalls && message.toolCalls.length > 0 && (
+                            <ToolCallList toolCalls={message.toolCalls} />
+                          )}
                           {message.thinking && (
                             <details className="mb-3 cursor-pointer">
                               <summary className="text-xs font-medium text-amber-600 dark:text-amber-400 hover:opacity-80">
@@ -732,20 +798,16 @@ export function ContentAnalysisSidebar({
             onKeyDown={handleKeyDown}
             placeholder={
               selectedPosts.length === 0
-                ? "Select posts to analyze..."
+                ? "Ask about your posts..."
                 : "Ask about the selected posts..."
             }
-            disabled={selectedPosts.length === 0 || isStreaming}
+            disabled={isStreaming}
             className="resize-none min-h-[40px] max-h-[120px]"
             rows={1}
           />
           <Button
             onClick={() => handleSendMessage()}
-            disabled={
-              !input.trim() ||
-              isStreaming ||
-              selectedPosts.length === 0
-            }
+            disabled={!input.trim() || isStreaming}
             size="icon"
           >
             {isStreaming ? (
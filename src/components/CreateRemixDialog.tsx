@@ -19,7 +19,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Sparkles } from 'lucide-react'
+import { Sparkles, AlertTriangle } from 'lucide-react'
 import { toast } from 'sonner'
 
 interface ProductContext {
@@ -28,6 +28,14 @@ interface ProductContext {
   description: string
 }
 
+interface DuplicatePost {
+  id: string
+  authorHandle: string | null
+  _count: {
+    remixes: number
+  }
+}
+
 interface CreateRemixDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -46,13 +54,31 @@ export function CreateRemixDialog({
   const [additionalPrompt, setAdditionalPrompt] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [isFetchingContexts, setIsFetchingContexts] = useState(false)
+  const [remixedDuplicates, setRemixedDuplicates] = useState<DuplicatePost[]>([])
 
   // Fetch product contexts when dialog opens
   useEffect(() => {
     if (open) {
       fetchProductContexts()
+      fetchRemixedDuplicates()
+    }
+  }, [open, postId])
+
+  // Near-duplicates of this carousel that were already remixed
+  const fetchRemixedDuplicates = async () => {
+    try {
+      const response = await fetch(`/api/tiktok/posts/${postId}/duplicates`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch duplicates')
+      }
+      const data = await response.json()
+      setRemixedDuplicates(data.duplicates.filter((post: DuplicatePost) => post._count.remixes > 0))
+    } catch (error) {
+      // Only informational - don't block remixing
+      console.error('Failed to fetch duplicates:', error)
+      setRemixedDuplicates([])
     }
-  }, [open])
+  }
 
   const fetchProductContexts = async () => {
     setIsFetchingContexts(true)
@@ -136,6 +162,17 @@ export function CreateRemixDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4 overflow-hidden">
+          {remixedDuplicates.length > 0 && (
+            <div className="flex gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-xs">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-500" />
+              <p>
+                This carousel is a near-duplicate of {remixedDuplicates.length === 1 ? 'a post' : `${remixedDuplicates.length} posts`} that
+                {remixedDuplicates.length === 1 ? ' was' : ' were'} already remixed
+                ({remixedDuplicates.map(post => `@${post.authorHandle}`).join(', ')}).
+              </p>
+            </div>
+          )}
+
           {/* Product Context Selector */}
           <div className="space-y-2 overflow-hidden">
             <Label htmlFor="product-context">
@@ -0,0 +1,263 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export interface MonitoringSettingsValues {
+  monitoringEnabled?: boolean
+  monitoringIntervalHours?: number | null
+  monitoringActiveStart?: number | null
+  monitoringActiveEnd?: number | null
+  monitoringTimezone?: string | null
+  monitoringAdaptive?: boolean | null
+}
+
+interface MonitoringSettingsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  profileIds: string[]
+  // When every selected profile shares a group, offer saving as the group default
+  profileGroup?: { id: string; name: string } | null
+  // Current values when editing a single profile
+  initialValues?: MonitoringSettingsValues
+  onSuccess: () => void
+}
+
+const INHERIT = 'inherit'
+
+const INTERVAL_OPTIONS = [
+  { value: '1', label: 'Every hour' },
+  { value: '3', label: 'Every 3 hours' },
+  { value: '6', label: 'Every 6 hours' },
+  { value: '12', label: 'Every 12 hours' },
+  { value: '24', label: 'Daily' },
+  { value: '72', label: 'Every 3 days' },
+  { value: '168', label: 'Weekly' },
+]
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`
+
+export function MonitoringSettingsDialog({
+  isOpen,
+  onClose,
+  profileIds,
+  profileGroup,
+  initialValues,
+  onSuccess
+}: MonitoringSettingsDialogProps) {
+  const [enabled, setEnabled] = useState<string>('unchanged')
+  const [interval, setInterval] = useState<string>(INHERIT)
+  const [limitHours, setLimitHours] = useState(false)
+  const [activeStart, setActiveStart] = useState('8')
+  const [activeEnd, setActiveEnd] = useState('22')
+  const [timezone, setTimezone] = useState('')
+  const [adaptive, setAdaptive] = useState<string>(INHERIT)
+  const [applyToGroup, setApplyToGroup] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset form from the current values each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    const values = initialValues ?? {}
+    setEnabled(values.monitoringEnabled === undefined ? 'unchanged' : values.monitoringEnabled ? 'on' : 'off')
+    setInterval(values.monitoringIntervalHours != null ? String(values.monitoringIntervalHours) : INHERIT)
+    setLimitHours(values.monitoringActiveStart != null && values.monitoringActiveEnd != null)
+    setActiveStart(String(values.monitoringActiveStart ?? 8))
+    setActiveEnd(String(values.monitoringActiveEnd ?? 22))
+    setTimezone(values.monitoringTimezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone)
+    setAdaptive(values.monitoringAdaptive == null ? INHERIT : values.monitoringAdaptive ? 'on' : 'off')
+    setApplyToGroup(false)
+  }, [isOpen, initialValues])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const settings = {
+        intervalHours: interval === INHERIT ? null : parseFloat(interval),
+        activeStart: limitHours ? parseInt(activeStart) : null,
+        activeEnd: limitHours ? parseInt(activeEnd) : null,
+        timezone: limitHours ? timezone.trim() || null : null,
+        adaptive: adaptive === INHERIT ? null : adaptive === 'on',
+      }
+
+      const body = applyToGroup && profileGroup
+        ? { profileGroupIds: [profileGroup.id], ...settings }
+        : {
+            profileIds,
+            ...settings,
+            ...(enabled !== 'unchanged' && { enabled: enabled === 'on' }),
+          }
+
+      const response = await fetch('/api/tiktok/profiles/bulk/monitoring', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save monitoring settings')
+        return
+      }
+
+      toast.success(
+        applyToGroup && profileGroup
+          ? `Saved as default for ${profileGroup.name}`
+          : `Updated monitoring for ${data.updatedCount} profile${data.updatedCount === 1 ? '' : 's'}`
+      )
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save monitoring settings:', error)
+      toast.error('Failed to save monitoring settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Monitoring Schedule</DialogTitle>
+          <DialogDescription>
+            {applyToGroup && profileGroup
+              ? `Default for every profile in ${profileGroup.name} without its own override.`
+              : `${profileIds.length} profile${profileIds.length === 1 ? '' : 's'} selected. "Inherit" uses the group default, then daily.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!applyToGroup && (
+            <div className="space-y-2">
+              <Label>Monitoring</Label>
+              <Select value={enabled} onValueChange={setEnabled}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unchanged">Leave as is</SelectItem>
+                  <SelectItem value="on">Enabled</SelectItem>
+                  <SelectItem value="off">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Interval</Label>
+            <Select value={interval} onValueChange={setInterval}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT}>Inherit</SelectItem>
+                {INTERVAL_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="limit-hours">Only during active hours</Label>
+              <Switch id="limit-hours" checked={limitHours} onCheckedChange={setLimitHours} />
+            </div>
+            {limitHours && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={activeStart} onValueChange={setActiveStart}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map(hour => (
+                      <SelectItem key={hour} value={String(hour)}>From {formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={activeEnd} onValueChange={setActiveEnd}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map(hour => (
+                      <SelectItem key={hour} value={String(hour)}>Until {formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="Timezone, e.g. Asia/Jakarta"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Adaptive scheduling</Label>
+            <Select value={adaptive} onValueChange={setAdaptive}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT}>Inherit</SelectItem>
+                <SelectItem value="on">On - check more often while recent posts take off</SelectItem>
+                <SelectItem value="off">Off</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {profileGroup && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="apply-to-group"
+                checked={applyToGroup}
+                onCheckedChange={(checked) => setApplyToGroup(checked === true)}
+              />
+              <Label htmlFor="apply-to-group" className="font-normal">
+                Save as default for group {profileGroup.name}
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
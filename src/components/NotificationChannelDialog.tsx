@@ -0,0 +1,278 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export type NotificationChannelType = 'DISCORD' | 'SLACK' | 'TELEGRAM' | 'EMAIL' | 'WEBHOOK'
+
+export interface NotificationChannel {
+  id: string
+  name: string
+  type: NotificationChannelType
+  enabled: boolean
+  isDefault: boolean
+  config: Record<string, unknown>
+  createdAt: string
+  _count?: { deliveries: number; alertRules: number }
+}
+
+export const CHANNEL_TYPE_LABELS: Record<NotificationChannelType, string> = {
+  DISCORD: 'Discord',
+  SLACK: 'Slack',
+  TELEGRAM: 'Telegram',
+  EMAIL: 'Email (SMTP)',
+  WEBHOOK: 'Webhook',
+}
+
+interface ConfigField {
+  key: string
+  label: string
+  placeholder?: string
+  type?: 'text' | 'password' | 'number' | 'checkbox'
+  /** Stored as a list; edited as comma separated text */
+  list?: boolean
+  optional?: boolean
+  hint?: string
+}
+
+const CONFIG_FIELDS: Record<NotificationChannelType, ConfigField[]> = {
+  DISCORD: [
+    { key: 'webhookUrl', label: 'Webhook URL', placeholder: 'https://discord.com/api/webhooks/...', type: 'password' },
+  ],
+  SLACK: [
+    { key: 'webhookUrl', label: 'Incoming webhook URL', placeholder: 'https://hooks.slack.com/services/...', type: 'password' },
+  ],
+  TELEGRAM: [
+    { key: 'botToken', label: 'Bot token', placeholder: '123456:ABC...', type: 'password' },
+    { key: 'chatId', label: 'Chat ID', placeholder: '-1001234567890' },
+  ],
+  EMAIL: [
+    { key: 'host', label: 'SMTP host', placeholder: 'smtp.example.com' },
+    { key: 'port', label: 'Port', placeholder: '587', type: 'number' },
+    { key: 'secure', label: 'Use implicit TLS (port 465)', type: 'checkbox' },
+    { key: 'user', label: 'Username', optional: true },
+    { key: 'password', label: 'Password', type: 'password', optional: true },
+    { key: 'allowInsecureAuth', label: 'Allow login without TLS (trusted local relays only)', type: 'checkbox' },
+    { key: 'from', label: 'From', placeholder: 'ViralSense <alerts@example.com>' },
+    { key: 'to', label: 'Recipients', placeholder: 'team@example.com, me@example.com', list: true },
+  ],
+  WEBHOOK: [
+    { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/viralsense' },
+    {
+      key: 'secret',
+      label: 'Signing secret',
+      type: 'password',
+      hint: 'Requests carry X-ViralSense-Signature: sha256=HMAC(secret, "<timestamp>.<body>")',
+    },
+  ],
+}
+
+type FormValues = Record<string, string | boolean>
+
+const toFormValues = (type: NotificationChannelType, config: Record<string, unknown>): FormValues =>
+  Object.fromEntries(
+    CONFIG_FIELDS[type].map(field => {
+      const value = config[field.key]
+      if (field.type === 'checkbox') return [field.key, value === true]
+      if (field.list) return [field.key, Array.isArray(value) ? value.join(', ') : '']
+      return [field.key, value == null ? '' : String(value)]
+    })
+  )
+
+const toConfig = (type: NotificationChannelType, values: FormValues): Record<string, unknown> => {
+  const config: Record<string, unknown> = {}
+
+  for (const field of CONFIG_FIELDS[type]) {
+    const value = values[field.key]
+
+    if (field.type === 'checkbox') {
+      config[field.key] = value === true
+    } else if (field.list) {
+      config[field.key] = String(value ?? '').split(',').map(item => item.trim()).filter(Boolean)
+    } else if (String(value ?? '').trim() === '') {
+      if (!field.optional && field.type !== 'number') config[field.key] = ''
+    } else if (field.type === 'number') {
+      config[field.key] = parseInt(String(value), 10)
+    } else {
+      config[field.key] = String(value).trim()
+    }
+  }
+
+  return config
+}
+
+interface NotificationChannelDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  channel?: NotificationChannel | null
+  onSuccess: () => void
+}
+
+export function NotificationChannelDialog({ isOpen, onClose, channel, onSuccess }: NotificationChannelDialogProps) {
+  const [name, setName] = useState('')
+  const [type, setType] = useState<NotificationChannelType>('DISCORD')
+  const [isDefault, setIsDefault] = useState(true)
+  const [values, setValues] = useState<FormValues>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Reset form each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    const initialType = channel?.type ?? 'DISCORD'
+    setName(channel?.name ?? '')
+    setType(initialType)
+    setIsDefault(channel?.isDefault ?? true)
+    setValues(toFormValues(initialType, channel?.config ?? {}))
+  }, [isOpen, channel])
+
+  const handleTypeChange = (nextType: NotificationChannelType) => {
+    setType(nextType)
+    setValues(toFormValues(nextType, {}))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Channel name is required')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const body = {
+        name: name.trim(),
+        isDefault,
+        config: toConfig(type, values),
+        ...(channel ? {} : { type }),
+      }
+
+      const response = await fetch(channel ? `/api/notification-channels/${channel.id}` : '/api/notification-channels', {
+        method: channel ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save channel')
+        return
+      }
+
+      toast.success(channel ? 'Channel updated' : 'Channel created')
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save notification channel:', error)
+      toast.error('Failed to save channel')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{channel ? 'Edit Channel' : 'New Channel'}</DialogTitle>
+          <DialogDescription>
+            Default channels receive every alert rule that uses them and account health notices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="channel-name">Name</Label>
+              <Input id="channel-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. #growth-alerts" />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(v) => handleTypeChange(v as NotificationChannelType)}
+                disabled={!!channel}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CHANNEL_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {CONFIG_FIELDS[type].map(field => (
+            field.type === 'checkbox' ? (
+              <div key={field.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`config-${field.key}`}
+                  checked={values[field.key] === true}
+                  onCheckedChange={(checked) => setValues(prev => ({ ...prev, [field.key]: checked === true }))}
+                />
+                <Label htmlFor={`config-${field.key}`} className="font-normal">{field.label}</Label>
+              </div>
+            ) : (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`config-${field.key}`}>
+                  {field.label}
+                  {field.optional && <span className="text-muted-foreground font-normal ml-1">(optional)</span>}
+                </Label>
+                <Input
+                  id={`config-${field.key}`}
+                  type={field.type ?? 'text'}
+                  value={String(values[field.key] ?? '')}
+                  onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  autoComplete="off"
+                />
+                {field.hint && <p className="text-xs text-muted-foreground">{field.hint}</p>}
+              </div>
+            )
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="channel-default"
+              checked={isDefault}
+              onCheckedChange={(checked) => setIsDefault(checked === true)}
+            />
+            <Label htmlFor="channel-default" className="font-normal">Use as a default channel</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {channel ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
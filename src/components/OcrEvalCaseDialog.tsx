@@ -0,0 +1,210 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { EVAL_SLIDE_TYPES, type EvalSlide, type EvalSlideType } from '@/lib/ocr-eval-metrics'
+
+interface CaseDetail {
+  id: string
+  category: string | null
+  notes: string | null
+  slides: EvalSlide[]
+  post: {
+    id: string
+    tiktokUrl: string
+    authorHandle: string | null
+    imageUrls: string[]
+  }
+}
+
+interface OcrEvalCaseDialogProps {
+  caseId: string | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const SLIDE_TYPE_LABELS: Record<EvalSlideType, string> = {
+  hook: 'Hook',
+  content: 'Content',
+  cta: 'CTA',
+}
+
+export function OcrEvalCaseDialog({ caseId, onClose, onSuccess }: OcrEvalCaseDialogProps) {
+  const [detail, setDetail] = useState<CaseDetail | null>(null)
+  const [slides, setSlides] = useState<EvalSlide[]>([])
+  const [category, setCategory] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Load the case each time the dialog opens
+  useEffect(() => {
+    if (!caseId) return
+
+    setDetail(null)
+    fetch(`/api/ocr-eval/cases/${caseId}`)
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to load eval case')
+        return response.json()
+      })
+      .then(data => {
+        const evalCase: CaseDetail = data.case
+        setDetail(evalCase)
+        setSlides(evalCase.slides)
+        setCategory(evalCase.category ?? '')
+        setNotes(evalCase.notes ?? '')
+      })
+      .catch(error => {
+        console.error('Failed to load eval case:', error)
+        toast.error('Failed to load eval case')
+      })
+  }, [caseId])
+
+  const updateSlide = (imageIndex: number, updates: Partial<EvalSlide>) => {
+    setSlides(prev => prev.map(slide => slide.imageIndex === imageIndex ? { ...slide, ...updates } : slide))
+  }
+
+  const handleSave = async () => {
+    if (!detail) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/ocr-eval/cases/${detail.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slides,
+          category: category.trim() || null,
+          notes: notes.trim() || null,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.[0]?.message || data.error || 'Failed to save labels')
+        return
+      }
+
+      toast.success('Labels saved')
+      onSuccess()
+      onClose()
+    } catch (error) {
+      console.error('Failed to save labels:', error)
+      toast.error('Failed to save labels')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!caseId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Labels</DialogTitle>
+          <DialogDescription>
+            The expected slide types, text and category for this post. Runs are scored against these labels.
+          </DialogDescription>
+        </DialogHeader>
+
+        {detail ? (
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="eval-category">Category</Label>
+                <Input
+                  id="eval-category"
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  placeholder="Leave empty to skip category scoring"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eval-notes">Notes</Label>
+                <Input
+                  id="eval-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="e.g. Tricky CTA on the last slide"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {slides.map(slide => (
+                <div key={slide.imageIndex} className="flex gap-3 rounded-lg border border-border p-3">
+                  {detail.post.imageUrls[slide.imageIndex] ? (
+                    <img
+                      src={detail.post.imageUrls[slide.imageIndex]}
+                      alt={`Slide ${slide.imageIndex + 1}`}
+                      className="w-28 aspect-[3/4] rounded object-cover bg-muted shrink-0"
+                    />
+                  ) : (
+                    <div className="w-28 aspect-[3/4] rounded bg-muted shrink-0" />
+                  )}
+                  <div className="flex-1 space-y-2 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">Slide {slide.imageIndex + 1}</span>
+                      <Select
+                        value={slide.slideType}
+                        onValueChange={(value) => updateSlide(slide.imageIndex, { slideType: value as EvalSlideType })}
+                      >
+                        <SelectTrigger className="h-8 w-32 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {EVAL_SLIDE_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{SLIDE_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Textarea
+                      value={slide.ocrText}
+                      onChange={(e) => updateSlide(slide.imageIndex, { ocrText: e.target.value })}
+                      rows={4}
+                      className="text-xs"
+                      placeholder="Text on the slide, exactly as it should be extracted"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !detail}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Labels
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
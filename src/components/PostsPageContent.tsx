@@ -161,7 +161,12 @@ export function PostsPageContent({
     profileGroupIds: profileGroupIdsParam ? profileGroupIdsParam.split(',').filter(Boolean) : [],
     viewCountGt: searchParams.get('viewCountGt') ? parseInt(searchParams.get('viewCountGt')!) : undefined,
     viewCountLt: searchParams.get('viewCountLt') ? parseInt(searchParams.get('viewCountLt')!) : undefined,
-    ocrStatus: (searchParams.get('ocrStatus') as 'all' | 'processed' | 'unprocessed') || 'all'
+    ocrStatus: (searchParams.get('ocrStatus') as 'all' | 'processed' | 'unprocessed') || 'all',
+    soundId: searchParams.get('soundId') || undefined,
+    hashtag: searchParams.get('hashtag') || undefined,
+    minOutlierScore: searchParams.get('minOutlierScore') ? parseFloat(searchParams.get('minOutlierScore')!) : undefined,
+    collapseDuplicates: searchParams.get('collapseDuplicates') === 'true' || undefined,
+    duplicateClusterId: searchParams.get('duplicateClusterId') || undefined
   }
 
   const [posts, setPosts] = useState<TikTokPost[]>([])
@@ -284,6 +289,21 @@ export function PostsPageContent({
     if (filters.ocrStatus && filters.ocrStatus !== 'all') {
       params.set('ocrStatus', filters.ocrStatus)
     }
+    if (filters.soundId) {
+      params.set('soundId', filters.soundId)
+    }
+    if (filters.hashtag) {
+      params.set('hashtag', filters.hashtag)
+    }
+    if (filters.minOutlierScore) {
+      params.set('minOutlierScore', filters.minOutlierScore.toString())
+    }
+    if (filters.collapseDuplicates) {
+      params.set('collapseDuplicates', 'true')
+    }
+    if (filters.duplicateClusterId) {
+      params.set('duplicateClusterId', filters.duplicateClusterId)
+    }
 
     const queryString = params.toString()
     const newUrl = queryString ? `${basePath}?${queryString}` : basePath
@@ -354,6 +374,21 @@ export function PostsPageContent({
       if (filters.ocrStatus && filters.ocrStatus !== 'all') {
         params.append('ocrStatus', filters.ocrStatus)
       }
+      if (filters.soundId) {
+        params.append('soundId', filters.soundId)
+      }
+      if (filters.hashtag) {
+        params.append('hashtag', filters.hashtag)
+      }
+      if (filters.minOutlierScore) {
+        params.append('minOutlierScore', filters.minOutlierScore.toString())
+      }
+      if (filters.collapseDuplicates) {
+        params.append('collapseDuplicates', 'true')
+      }
+      if (filters.duplicateClusterId) {
+        params.append('duplicateClusterId', filters.duplicateClusterId)
+      }
 
       const response = await fetch(`/api/tiktok/posts?${params}`)
       const data: PostsResponse = await response.json()
@@ -525,7 +560,12 @@ export function PostsPageContent({
       profileGroupIds: profileGroupIdsParam ? profileGroupIdsParam.split(',').filter(Boolean) : [],
       viewCountGt: viewCountGtParam ? parseInt(viewCountGtParam) : undefined,
       viewCountLt: viewCountLtParam ? parseInt(viewCountLtParam) : undefined,
-      ocrStatus: (ocrStatusParam as 'all' | 'processed' | 'unprocessed') || 'all'
+      ocrStatus: (ocrStatusParam as 'all' | 'processed' | 'unprocessed') || 'all',
+      soundId: searchParams.get('soundId') || undefined,
+      hashtag: searchParams.get('hashtag') || undefined,
+      minOutlierScore: searchParams.get('minOutlierScore') ? parseFloat(searchParams.get('minOutlierScore')!) : undefined,
+      collapseDuplicates: searchParams.get('collapseDuplicates') === 'true' || undefined,
+      duplicateClusterId: searchParams.get('duplicateClusterId') || undefined
     }
 
     // Check if URL state is different from current state
@@ -964,6 +1004,9 @@ export function PostsPageContent({
                             <SelectItem value="commentCount">Comments</SelectItem>
                             <SelectItem value="shareCount">Shares</SelectItem>
                             <SelectItem value="saveCount">Saves</SelectItem>
+                            <SelectItem value="outlierScore">Outlier Score</SelectItem>
+                            <SelectItem value="velocityScore">Early Velocity</SelectItem>
+                            <SelectItem value="velocityScore48h">48h Velocity</SelectItem>
                             <SelectItem value="publishedAt">Published Date</SelectItem>
                             <SelectItem value="authorHandle">Author</SelectItem>
                           </SelectContent>
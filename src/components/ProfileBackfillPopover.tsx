@@ -0,0 +1,174 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Progress } from '@/components/ui/progress'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { History, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type ProfileBackfillStatus = 'PENDING' | 'RUNNING' | 'PAUSED' | 'COMPLETED' | 'FAILED'
+
+interface ProfileBackfill {
+  id: string
+  status: ProfileBackfillStatus
+  pageBudget: number
+  pagesScraped: number
+  postsScraped: number
+  newPosts: number
+  oldestPostAt: string | null
+  stopReason: string | null
+  error: string | null
+}
+
+const STATUS_VARIANTS: Record<ProfileBackfillStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  RUNNING: 'secondary',
+  PAUSED: 'outline',
+  COMPLETED: 'default',
+  FAILED: 'destructive',
+}
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  'end-of-history': 'Reached the first post',
+  'reached-existing': 'Caught up with stored posts',
+  'budget-exhausted': 'Page budget used up',
+}
+
+const POLL_INTERVAL_MS = 5000
+
+interface ProfileBackfillPopoverProps {
+  profileId: string
+}
+
+export function ProfileBackfillPopover({ profileId }: ProfileBackfillPopoverProps) {
+  const [backfill, setBackfill] = useState<ProfileBackfill | null>(null)
+  const [pageBudget, setPageBudget] = useState('50')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchBackfill = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tiktok/profiles/${profileId}/backfill`)
+      if (!response.ok) throw new Error('Failed to fetch backfill status')
+      const data = await response.json()
+      setBackfill(data.backfill)
+    } catch (error) {
+      console.error('Failed to fetch backfill status:', error)
+    }
+  }, [profileId])
+
+  useEffect(() => {
+    fetchBackfill()
+  }, [fetchBackfill])
+
+  // Poll while a backfill is queued or running
+  const isActive = backfill?.status === 'PENDING' || backfill?.status === 'RUNNING'
+  useEffect(() => {
+    if (!isActive) return
+    const interval = setInterval(fetchBackfill, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isActive, fetchBackfill])
+
+  const isResumable = backfill?.status === 'PAUSED' || backfill?.status === 'FAILED'
+
+  const handleStart = async () => {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/tiktok/profiles/${profileId}/backfill`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pageBudget: parseInt(pageBudget, 10) }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to start backfill')
+      }
+
+      setBackfill(data.backfill)
+      toast.success(isResumable ? 'Backfill resumed' : 'Backfill started', {
+        description: `Up to ${data.backfill.pageBudget - data.backfill.pagesScraped} more pages will be fetched`
+      })
+    } catch (error) {
+      toast.error('Failed to start backfill', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 px-3 text-xs">
+          {isActive
+            ? <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />
+            : <History className="w-3 h-3 mr-1.5" />}
+          {isActive && backfill ? `Backfill ${backfill.pagesScraped}/${backfill.pageBudget}` : 'Backfill'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold">History backfill</h4>
+          {backfill && (
+            <Badge variant={STATUS_VARIANTS[backfill.status]} className="text-xs">
+              {backfill.status.toLowerCase()}
+            </Badge>
+          )}
+        </div>
+
+        {backfill ? (
+          <div className="space-y-2 text-xs">
+            <Progress value={Math.min(100, (backfill.pagesScraped / backfill.pageBudget) * 100)} />
+            <div className="grid grid-cols-2 gap-1 text-muted-foreground">
+              <span>Pages: {backfill.pagesScraped} / {backfill.pageBudget}</span>
+              <span>New posts: {backfill.newPosts}</span>
+              <span>Posts seen: {backfill.postsScraped}</span>
+              <span>
+                Back to: {backfill.oldestPostAt ? format(new Date(backfill.oldestPostAt), 'MMM d, yyyy') : '—'}
+              </span>
+            </div>
+            {backfill.stopReason && (
+              <p className="text-muted-foreground">{STOP_REASON_LABELS[backfill.stopReason] ?? backfill.stopReason}</p>
+            )}
+            {backfill.error && (
+              <p className="text-destructive break-words">{backfill.error}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Fetch this profile&apos;s entire post history. Each page costs one API credit.
+          </p>
+        )}
+
+        {!isActive && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="backfill-page-budget" className="text-xs">
+                {isResumable ? 'Additional pages' : 'Page budget'}
+              </Label>
+              <Input
+                id="backfill-page-budget"
+                type="number"
+                min={1}
+                max={2000}
+                value={pageBudget}
+                onChange={(e) => setPageBudget(e.target.value)}
+                className="h-8 text-xs"
+              />
+            </div>
+            <Button size="sm" className="h-8" onClick={handleStart} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-3 h-3 mr-1.5 animate-spin" />}
+              {isResumable ? 'Resume' : backfill ? 'Run again' : 'Start'}
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
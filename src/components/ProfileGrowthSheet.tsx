@@ -0,0 +1,181 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { format } from 'date-fns'
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart'
+import { Loader2 } from 'lucide-react'
+import {
+  formatCompactNumber,
+  formatPercentChange,
+  type FollowerGrowth,
+} from '@/lib/stats-calculator'
+
+interface ProfileMetricsPoint {
+  recordedAt: string
+  followerCount: number
+  followingCount: number
+  likeCount: number
+  videoCount: number
+}
+
+interface ProfileMetricsSummary {
+  followerCount: number
+  followerGrowth7d: FollowerGrowth | null
+  followerGrowth30d: FollowerGrowth | null
+  viewsPerFollower: number
+  followerEngagementRate: number
+}
+
+const GROWTH_CHARTS = [
+  { key: 'followerCount', label: 'Followers', color: 'rgb(147, 51, 234)' },
+  { key: 'likeCount', label: 'Likes', color: 'rgb(236, 72, 153)' },
+  { key: 'videoCount', label: 'Videos', color: 'rgb(59, 130, 246)' },
+] as const
+
+interface ProfileGrowthSheetProps {
+  profileId: string
+  handle: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function GrowthStat({ label, growth }: { label: string; growth: FollowerGrowth | null }) {
+  if (!growth) {
+    return (
+      <div className="rounded-lg border border-border p-3">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-lg font-semibold">—</p>
+      </div>
+    )
+  }
+
+  const percent = formatPercentChange(growth.changePercent)
+  return (
+    <div className="rounded-lg border border-border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold">
+        {growth.change >= 0 ? '+' : '-'}{formatCompactNumber(Math.abs(growth.change))}
+        <span className={`ml-2 text-xs ${percent.colorClass}`}>{percent.text}</span>
+      </p>
+      <p className="text-xs text-muted-foreground">{formatCompactNumber(Math.round(growth.perDay))}/day</p>
+    </div>
+  )
+}
+
+export function ProfileGrowthSheet({ profileId, handle, open, onOpenChange }: ProfileGrowthSheetProps) {
+  const [history, setHistory] = useState<ProfileMetricsPoint[]>([])
+  const [summary, setSummary] = useState<ProfileMetricsSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchHistory = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/tiktok/profiles/${profileId}/metrics-history?days=90`)
+        if (!response.ok) throw new Error('Failed to fetch profile metrics history')
+        const data = await response.json()
+        setHistory(data.history)
+        setSummary(data.summary)
+      } catch (error) {
+        console.error('Failed to fetch profile metrics history:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchHistory()
+  }, [open, profileId])
+
+  const chartData = useMemo(() => history.map(point => ({
+    ...point,
+    date: format(new Date(point.recordedAt), 'MMM d'),
+  })), [history])
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>@{handle} growth</SheetTitle>
+          <SheetDescription>
+            Profile stats recorded on every monitoring run (last 90 days)
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4 p-4">
+            {summary && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="rounded-lg border border-border p-3">
+                  <p className="text-xs text-muted-foreground">Followers</p>
+                  <p className="text-lg font-semibold">{formatCompactNumber(summary.followerCount)}</p>
+                </div>
+                <div className="rounded-lg border border-border p-3">
+                  <p className="text-xs text-muted-foreground">Views per follower</p>
+                  <p className="text-lg font-semibold">{summary.viewsPerFollower.toFixed(2)}×</p>
+                  <p className="text-xs text-muted-foreground">
+                    {summary.followerEngagementRate.toFixed(2)}% engagement / follower
+                  </p>
+                </div>
+                <GrowthStat label="Followers, 7 days" growth={summary.followerGrowth7d} />
+                <GrowthStat label="Followers, 30 days" growth={summary.followerGrowth30d} />
+              </div>
+            )}
+
+            {chartData.length < 2 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Not enough snapshots yet. Stats are recorded each time the profile is monitored.
+              </p>
+            ) : (
+              GROWTH_CHARTS.map(chart => (
+                <div key={chart.key} className="rounded-lg border border-border bg-card p-4">
+                  <h3 className="text-sm font-semibold mb-2">{chart.label}</h3>
+                  <ChartContainer
+                    config={{ [chart.key]: { label: chart.label, color: chart.color } }}
+                    className="h-[160px] w-full"
+                  >
+                    <AreaChart data={chartData} margin={{ top: 0, right: 10, bottom: 0, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} className="opacity-30" />
+                      <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} className="text-[10px]" />
+                      <YAxis
+                        tickLine={false}
+                        axisLine={false}
+                        tickMargin={8}
+                        tickFormatter={(value) => formatCompactNumber(value)}
+                        domain={['auto', 'auto']}
+                        className="text-[10px]"
+                        width={40}
+                      />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Area
+                        type="monotone"
+                        dataKey={chart.key}
+                        stroke={chart.color}
+                        fill={chart.color}
+                        fillOpacity={0.08}
+                        strokeWidth={2}
+                      />
+                    </AreaChart>
+                  </ChartContainer>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -15,6 +15,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
+import { MonitoringSettingsDialog } from '@/components/MonitoringSettingsDialog'
 import { ExternalLink, Users, Heart, Video, CheckCircle, PlayCircle, PauseCircle, RefreshCw } from 'lucide-react'
 
 interface ProfilesTableProps {
@@ -32,6 +33,7 @@ export function ProfilesTable({
 }: ProfilesTableProps) {
   const router = useRouter()
   const [selectedProfile, setSelectedProfile] = useState<TikTokProfile | null>(null)
+  const [scheduleProfile, setScheduleProfile] = useState<TikTokProfile | null>(null)
   const [internalSelectedProfiles, setInternalSelectedProfiles] = useState<Set<string>>(new Set())
 
   // Use external selection state if provided, otherwise use internal state
@@ -218,6 +220,7 @@ export function ProfilesTable({
     onPreviewProfile: handlePreviewProfile,
     onToggleMonitoring: handleToggleMonitoring,
     onTriggerUpdate: handleTriggerUpdate,
+    onEditMonitoringSchedule: setScheduleProfile,
     onProfileUpdate: onProfilesChange,
     onNavigateToProfile: handleNavigateToProfile,
     selectedProfiles,
@@ -241,6 +244,16 @@ export function ProfilesTable({
         }}
       />
 
+      {/* Monitoring Schedule Dialog */}
+      <MonitoringSettingsDialog
+        isOpen={!!scheduleProfile}
+        onClose={() => setScheduleProfile(null)}
+        profileIds={scheduleProfile ? [scheduleProfile.id] : []}
+        profileGroup={scheduleProfile?.profileGroup}
+        initialValues={scheduleProfile ?? undefined}
+        onSuccess={() => onProfilesChange?.()}
+      />
+
       {/* Profile Preview Dialog */}
       <Dialog open={!!selectedProfile} onOpenChange={() => setSelectedProfile(null)}>
         <DialogContent className="max-w-2xl">
@@ -21,9 +21,12 @@ import { DraftSettingsDialog } from '@/components/DraftSettingsDialog'
 import { ConceptSelectorPopover } from '@/components/ConceptSelectorPopover'
 import { ConceptQuickSelector } from '@/components/ConceptQuickSelector'
 import { FixCoherenceDialog } from '@/components/FixCoherenceDialog'
+import { VideoExportDialog } from '@/components/VideoExportDialog'
+import { RemixHistoryDialog } from '@/components/RemixHistoryDialog'
+import { RemixReviewDialog } from '@/components/RemixReviewDialog'
 import type { RemixSlideType } from '@/lib/validations/remix-schema'
 import { SortingState, RowSelectionState } from '@tanstack/react-table'
-import { FileText, Loader2, Sparkles, Edit, ExternalLink, Trash2, Copy, Plus, GripVertical, Settings, Download, Pencil, Send, Lightbulb, RefreshCw, Wand2 } from 'lucide-react'
+import { FileText, Loader2, Sparkles, Edit, ExternalLink, Trash2, Copy, Plus, GripVertical, Settings, Download, Pencil, Send, Lightbulb, RefreshCw, Wand2, Film, History, MessageSquare } from 'lucide-react'
 import { toast } from 'sonner'
 import { DateRange } from '@/components/DateRangeFilter'
 import { useSearchParams, useRouter, usePathname } from 'next/navigation'
@@ -40,6 +43,15 @@ import {
 } from '@/components/ui/tooltip'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Star } from 'lucide-react'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { EXPORT_PRESETS, type ExportPresetId } from '@/lib/export-presets'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -415,6 +427,9 @@ export function ProjectPostsTable({
   const [selectedDraftForSettings, setSelectedDraftForSettings] = useState<{ id: string; canvasSize?: { width: number; height: number } } | null>(null)
   const [coherenceDialogOpen, setCoherenceDialogOpen] = useState(false)
   const [selectedDraftForCoherence, setSelectedDraftForCoherence] = useState<string | null>(null)
+  const [draftForVideoExport, setDraftForVideoExport] = useState<{ id: string; slideCount: number } | null>(null)
+  const [draftForHistory, setDraftForHistory] = useState<string | null>(null)
+  const [draftForReview, setDraftForReview] = useState<string | null>(null)
 
   // Track loading state for individual slides during concept application
   const [applyingConceptSlides, setApplyingConceptSlides] = useState<Set<string>>(new Set())
@@ -755,15 +770,18 @@ export function ProjectPostsTable({
     }
   }, [optimisticRows, getSlidesArray])
 
-  // Handler to download draft as ZIP
-  const handleDownloadDraft = useCallback(async (draft: RemixPost) => {
+  // Handler to download draft as ZIP, or as a PDF for document presets
+  const handleDownloadDraft = useCallback(async (draft: RemixPost, preset: ExportPresetId = 'original') => {
+    const isPdf = EXPORT_PRESETS[preset].output === 'pdf'
     try {
       toast.info('Generating export...', {
         description: 'This may take a moment'
       })
 
-      const response = await fetch(`/api/remixes/${draft.id}/export`, {
-        method: 'POST'
+      const response = await fetch(`/api/remixes/${draft.id}/export${isPdf ? '/pdf' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preset })
       })
 
       if (!response.ok) {
@@ -782,7 +800,9 @@ export function ProjectPostsTable({
       document.body.removeChild(link)
 
       toast.success('Export ready', {
-        description: `${result.slideCount} slides, ${result.imageCount} images`
+        description: isPdf
+          ? `${result.pageCount} page PDF`
+          : `${result.slideCount} slides, ${result.imageCount} images`
       })
     } catch (error) {
       console.error('Failed to download draft:', error)
@@ -792,6 +812,11 @@ export function ProjectPostsTable({
     }
   }, [])
 
+  // Handler to open the video export dialog
+  const handleExportVideoClick = useCallback((draft: RemixPost) => {
+    setDraftForVideoExport({ id: draft.id, slideCount: getSlidesArray(draft.slides).length })
+  }, [getSlidesArray])
+
   // Handler to send draft to Telegram
   const handleSendToTelegram = useCallback(async (draft: RemixPost) => {
     try {
@@ -807,6 +832,7 @@ export function ProjectPostsTable({
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
+          remixId: draft.id,
           draftName: draft.name,
           draftDescription: draft.description,
           slides: slides
@@ -2384,6 +2410,46 @@ export function ProjectPostsTable({
             </TooltipContent>
           </Tooltip>
 
+          {/* Review & Comments */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setDraftForReview(draft.id)
+                }}
+                className="h-8 w-8 p-0"
+              >
+                <MessageSquare className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+              <p>Review & Comments</p>
+            </TooltipContent>
+          </Tooltip>
+
+          {/* Revision History */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  setDraftForHistory(draft.id)
+                }}
+                className="h-8 w-8 p-0"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="left">
+              <p>History</p>
+            </TooltipContent>
+          </Tooltip>
+
           {/* Smart Auto-fill */}
           {(() => {
             const { hasHook, hookText } = hasHookSlideWithConcept(draft)
@@ -2414,7 +2480,50 @@ export function ProjectPostsTable({
             )
           })()}
 
-          {/* Download ZIP */}
+          {/* Download ZIP / PDF per export preset */}
+          <DropdownMenu>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-8 w-8 p-0"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+              </TooltipTrigger>
+              <TooltipContent side="left">
+                <p>Download</p>
+              </TooltipContent>
+            </Tooltip>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuLabel>Download ZIP</DropdownMenuLabel>
+              {Object.values(EXPORT_PRESETS).filter(preset => preset.output === 'images').map(preset => (
+                <DropdownMenuItem key={preset.id} onClick={() => handleDownloadDraft(draft, preset.id)}>
+                  <div className="flex flex-col">
+                    <span>{preset.label}</span>
+                    <span className="text-xs text-muted-foreground">{preset.description}</span>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Download PDF</DropdownMenuLabel>
+              {Object.values(EXPORT_PRESETS).filter(preset => preset.output === 'pdf').map(preset => (
+                <DropdownMenuItem key={preset.id} onClick={() => handleDownloadDraft(draft, preset.id)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  <div className="flex flex-col">
+                    <span>{preset.label}</span>
+                    <span className="text-xs text-muted-foreground">{preset.description}</span>
+                  </div>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Export Video */}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -2422,15 +2531,15 @@ export function ProjectPostsTable({
                 size="sm"
                 onClick={(e) => {
                   e.stopPropagation()
-                  handleDownloadDraft(draft)
+                  handleExportVideoClick(draft)
                 }}
                 className="h-8 w-8 p-0"
               >
-                <Download className="h-4 w-4" />
+                <Film className="h-4 w-4" />
               </Button>
             </TooltipTrigger>
             <TooltipContent side="left">
-              <p>Download ZIP</p>
+              <p>Export Video</p>
             </TooltipContent>
           </Tooltip>
 
@@ -2456,7 +2565,7 @@ export function ProjectPostsTable({
         </div>
       </TooltipProvider>
     )
-  }, [viewMode, handleToggleBookmark, handleCopyDraftToClipboard, handleSendToTelegram, handleSettingsClick, handleFixCoherenceClick, handleDownloadDraft, handleDeleteClick, hasHookSlideWithConcept, handleAutoFillSlides])
+  }, [viewMode, handleToggleBookmark, handleCopyDraftToClipboard, handleSendToTelegram, handleSettingsClick, handleFixCoherenceClick, handleDownloadDraft, handleExportVideoClick, handleDeleteClick, hasHookSlideWithConcept, handleAutoFillSlides])
 
   // Create columns - memoized with all necessary dependencies
   const columns = useMemo(() => {
@@ -2760,6 +2869,36 @@ export function ProjectPostsTable({
         />
       )}
 
+      {/* Video Export Dialog */}
+      {draftForVideoExport && (
+        <VideoExportDialog
+          open={!!draftForVideoExport}
+          onClose={() => setDraftForVideoExport(null)}
+          draftId={draftForVideoExport.id}
+          slideCount={draftForVideoExport.slideCount}
+        />
+      )}
+
+      {/* Revision History Dialog */}
+      {draftForHistory && (
+        <RemixHistoryDialog
+          open={!!draftForHistory}
+          onClose={() => setDraftForHistory(null)}
+          draftId={draftForHistory}
+          onRestored={() => onRefetchData?.()}
+        />
+      )}
+
+      {/* Review Dialog */}
+      {draftForReview && (
+        <RemixReviewDialog
+          open={!!draftForReview}
+          onClose={() => setDraftForReview(null)}
+          draftId={draftForReview}
+          onWorkflowChange={() => onRefetchData?.()}
+        />
+      )}
+
       </>
   )
 }
@@ -0,0 +1,263 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, RotateCcw, History } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import type { SlideDiff, SlideDiffStatus } from '@/lib/remix-revision-service'
+
+interface Revision {
+  id: string
+  revisionNumber: number
+  source: string
+  summary: string | null
+  restoredFromId: string | null
+  createdAt: string
+  createdBy: { id: string; name: string | null; email: string } | null
+}
+
+type CompareMode = 'previous' | 'current'
+
+const SOURCE_LABELS: Record<string, string> = {
+  initial: 'Original',
+  manual_edit: 'Edited',
+  slide_edit: 'Slide edit',
+  coherence_fix: 'Coherence fix',
+  auto_fill: 'Auto-fill',
+  restore: 'Restore',
+}
+
+const STATUS_STYLES: Record<SlideDiffStatus, string> = {
+  added: 'border-green-500/40 bg-green-500/5',
+  removed: 'border-red-500/40 bg-red-500/5',
+  changed: 'border-amber-500/40 bg-amber-500/5',
+  unchanged: 'border-border',
+}
+
+interface RemixHistoryDialogProps {
+  open: boolean
+  onClose: () => void
+  draftId: string
+  onRestored?: () => void
+}
+
+export function RemixHistoryDialog({ open, onClose, draftId, onRestored }: RemixHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous')
+  const [diff, setDiff] = useState<SlideDiff[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDiffLoading, setIsDiffLoading] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const fetchRevisions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/revisions`)
+      if (!response.ok) throw new Error('Failed to fetch history')
+      const data = await response.json()
+      setRevisions(data.revisions)
+      setSelectedId(prev => prev ?? data.revisions[0]?.id ?? null)
+    } catch (error) {
+      console.error('Failed to fetch remix history:', error)
+      toast.error('Failed to load history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [draftId])
+
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null)
+      fetchRevisions()
+    }
+  }, [open, fetchRevisions])
+
+  useEffect(() => {
+    if (!open || !selectedId) return
+
+    const fetchDiff = async () => {
+      setIsDiffLoading(true)
+      try {
+        const query = compareMode === 'current' ? '?compareTo=current' : ''
+        const response = await fetch(`/api/remixes/${draftId}/revisions/${selectedId}${query}`)
+        if (!response.ok) throw new Error('Failed to fetch revision')
+        const data = await response.json()
+        setDiff(data.diff)
+      } catch (error) {
+        console.error('Failed to fetch revision diff:', error)
+        toast.error('Failed to load changes')
+      } finally {
+        setIsDiffLoading(false)
+      }
+    }
+
+    fetchDiff()
+  }, [open, draftId, selectedId, compareMode])
+
+  const handleRestore = async (revision: Revision) => {
+    if (!confirm(`Restore revision ${revision.revisionNumber}? The current slides stay in the history.`)) return
+
+    setIsRestoring(true)
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/revisions/${revision.id}/restore`, { method: 'POST' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to restore revision')
+
+      toast.success(`Restored revision ${revision.revisionNumber}`)
+      setSelectedId(null)
+      await fetchRevisions()
+      onRestored?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const selected = revisions.find(revision => revision.id === selectedId)
+  const changedSlides = diff.filter(slide => slide.status !== 'unchanged')
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Draft History
+          </DialogTitle>
+          <DialogDescription>
+            Every change to this draft&apos;s slides. Restoring a revision keeps the current version in the history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && revisions.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">
+            No changes recorded yet - history starts with the next edit.
+          </div>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            <div className="w-64 shrink-0 overflow-y-auto space-y-1 pr-1">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    'w-full text-left rounded-md border p-2 text-xs transition-colors',
+                    revision.id === selectedId ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                  )}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium">#{revision.revisionNumber}</span>
+                    <Badge variant="secondary" className="text-[10px]">
+                      {SOURCE_LABELS[revision.source] ?? revision.source}
+                    </Badge>
+                    {revision.id === revisions[0].id && (
+                      <Badge variant="outline" className="text-[10px]">Current</Badge>
+                    )}
+                  </div>
+                  {revision.summary && <div className="truncate">{revision.summary}</div>}
+                  <div className="text-muted-foreground truncate">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.createdBy && ` · ${revision.createdBy.name || revision.createdBy.email}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 flex flex-col">
+              {selected && (
+                <div className="flex items-center gap-2 mb-3">
+                  <div className="flex rounded-md border text-xs">
+                    {(['previous', 'current'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setCompareMode(mode)}
+                        className={cn('px-2 py-1', compareMode === mode && 'bg-muted font-medium')}
+                      >
+                        {mode === 'previous' ? 'Changes in this revision' : 'Compared to current'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex-1" />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRestore(selected)}
+                    disabled={isRestoring || selected.id === revisions[0].id}
+                    className="h-7 text-xs"
+                  >
+                    {isRestoring
+                      ? <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+                      : <RotateCcw className="h-3 w-3 mr-1.5" />}
+                    Restore
+                  </Button>
+                </div>
+              )}
+
+              <div className="overflow-y-auto space-y-2 flex-1">
+                {isDiffLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : changedSlides.length === 0 ? (
+                  <div className="py-12 text-center text-sm text-muted-foreground">No slide changes</div>
+                ) : (
+                  changedSlides.map(slide => (
+                    <div key={slide.index} className={cn('rounded-md border p-3 text-xs', STATUS_STYLES[slide.status])}>
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="font-medium">Slide {slide.index + 1}</span>
+                        <Badge variant="outline" className="text-[10px] capitalize">{slide.status}</Badge>
+                        {slide.layoutChanges.length > 0 && (
+                          <span className="text-muted-foreground">Layout: {slide.layoutChanges.join(', ')}</span>
+                        )}
+                      </div>
+
+                      {slide.textBefore !== slide.textAfter && (
+                        <TextChange before={slide.textBefore} after={slide.textAfter} />
+                      )}
+
+                      {slide.textBoxes.filter(box => box.status !== 'unchanged').map(box => (
+                        <div key={box.index} className="mt-2 pl-2 border-l">
+                          <div className="text-muted-foreground mb-1">
+                            Text box {box.index + 1} · {box.status}
+                            {box.layoutChanges.length > 0 && ` · ${box.layoutChanges.join(', ')}`}
+                          </div>
+                          {box.textBefore !== box.textAfter && (
+                            <TextChange before={box.textBefore} after={box.textAfter} />
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function TextChange({ before, after }: { before: string | null; after: string | null }) {
+  return (
+    <div className="space-y-1 whitespace-pre-wrap">
+      {before && <div className="text-red-600 dark:text-red-400 line-through">{before}</div>}
+      {after && <div className="text-green-700 dark:text-green-400">{after}</div>}
+    </div>
+  )
+}
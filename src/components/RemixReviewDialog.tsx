@@ -0,0 +1,478 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2, MessageSquare, CheckCircle2, RotateCcw, Trash2, Reply } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { useCurrentUser, roleAtLeast } from '@/hooks/use-current-user'
+import {
+  WORKFLOW_LABELS,
+  WORKFLOW_TRANSITIONS,
+  requiredRoleForTransition,
+  type WorkflowStatus,
+} from '@/lib/remix-workflow'
+
+interface CommentUser {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface Comment {
+  id: string
+  body: string
+  slideId: string | null
+  slideIndex: number | null
+  textBoxId: string | null
+  resolvedAt: string | null
+  createdAt: string
+  author: CommentUser | null
+  resolvedBy: CommentUser | null
+}
+
+interface Thread extends Comment {
+  replies: Comment[]
+}
+
+interface DraftSlide {
+  id?: string
+  paraphrasedText?: string
+  textBoxes?: Array<{ id?: string; text?: string }>
+}
+
+interface Reviewer extends CommentUser {
+  role: string
+}
+
+const GENERAL_ANCHOR = 'general'
+const NO_TEXT_BOX = 'none'
+const UNASSIGNED = 'unassigned'
+
+const displayName = (user: CommentUser | null) => user ? user.name || user.email : 'Deleted user'
+
+const truncate = (text: string | undefined, length = 40) =>
+  !text ? '' : text.length > length ? `${text.slice(0, length)}…` : text
+
+interface RemixReviewDialogProps {
+  open: boolean
+  onClose: () => void
+  draftId: string
+  onWorkflowChange?: () => void
+}
+
+export function RemixReviewDialog({ open, onClose, draftId, onWorkflowChange }: RemixReviewDialogProps) {
+  const currentUser = useCurrentUser()
+  const [draft, setDraft] = useState<{
+    name: string
+    workflowStatus: WorkflowStatus
+    reviewerId: string | null
+    slides: DraftSlide[]
+  } | null>(null)
+  const [reviewers, setReviewers] = useState<Reviewer[]>([])
+  const [threads, setThreads] = useState<Thread[]>([])
+  const [showResolved, setShowResolved] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  // New thread form
+  const [body, setBody] = useState('')
+  const [slideAnchor, setSlideAnchor] = useState(GENERAL_ANCHOR)
+  const [textBoxAnchor, setTextBoxAnchor] = useState(NO_TEXT_BOX)
+  const [isPosting, setIsPosting] = useState(false)
+
+  // Reply form
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const [replyBody, setReplyBody] = useState('')
+
+  const canComment = roleAtLeast(currentUser?.role, 'reviewer')
+  const canAssign = roleAtLeast(currentUser?.role, 'editor')
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/comments?includeResolved=${showResolved}`)
+      if (!response.ok) throw new Error('Failed to fetch comments')
+      const data = await response.json()
+      setThreads(data.threads)
+    } catch (error) {
+      console.error('Failed to fetch comments:', error)
+      toast.error('Failed to load comments')
+    }
+  }, [draftId, showResolved])
+
+  useEffect(() => {
+    if (!open) return
+
+    const fetchDraft = async () => {
+      setIsLoading(true)
+      try {
+        const [draftResponse, reviewersResponse] = await Promise.all([
+          fetch(`/api/remixes/${draftId}`),
+          fetch('/api/workflow/reviewers'),
+        ])
+        if (!draftResponse.ok) throw new Error('Failed to fetch draft')
+        const data = await draftResponse.json()
+        setDraft({
+          name: data.name,
+          workflowStatus: data.workflowStatus,
+          reviewerId: data.reviewerId,
+          slides: Array.isArray(data.slides) ? data.slides : [],
+        })
+        if (reviewersResponse.ok) {
+          const reviewersData = await reviewersResponse.json()
+          setReviewers(reviewersData.reviewers)
+        }
+      } catch (error) {
+        console.error('Failed to fetch draft for review:', error)
+        toast.error('Failed to load draft')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchDraft()
+  }, [open, draftId])
+
+  useEffect(() => {
+    if (open) fetchThreads()
+  }, [open, fetchThreads])
+
+  const handleStatusChange = async (status: WorkflowStatus) => {
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/workflow`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to update status')
+
+      setDraft(prev => prev ? { ...prev, workflowStatus: result.remix.workflowStatus } : prev)
+      toast.success(`Moved to ${WORKFLOW_LABELS[status]}`)
+      onWorkflowChange?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update status')
+    }
+  }
+
+  const handleReviewerChange = async (value: string) => {
+    const reviewerId = value === UNASSIGNED ? null : value
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/reviewer`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerId }),
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to assign reviewer')
+
+      setDraft(prev => prev ? { ...prev, reviewerId } : prev)
+      toast.success(reviewerId ? 'Reviewer assigned' : 'Reviewer removed')
+      onWorkflowChange?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assign reviewer')
+    }
+  }
+
+  const postComment = async (payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/remixes/${draftId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error || 'Failed to add comment')
+    await fetchThreads()
+  }
+
+  const handleAddThread = async () => {
+    setIsPosting(true)
+    try {
+      const slideIndex = slideAnchor === GENERAL_ANCHOR ? null : parseInt(slideAnchor, 10)
+      await postComment({
+        body,
+        slideIndex,
+        textBoxId: slideIndex !== null && textBoxAnchor !== NO_TEXT_BOX ? textBoxAnchor : null,
+      })
+      setBody('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment')
+    } finally {
+      setIsPosting(false)
+    }
+  }
+
+  const handleReply = async (threadId: string) => {
+    try {
+      await postComment({ body: replyBody, parentId: threadId })
+      setReplyTo(null)
+      setReplyBody('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reply')
+    }
+  }
+
+  const handleResolve = async (thread: Thread) => {
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/comments/${thread.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved: !thread.resolvedAt }),
+      })
+      if (!response.ok) throw new Error('Failed to update thread')
+      await fetchThreads()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update thread')
+    }
+  }
+
+  const handleDelete = async (comment: Comment) => {
+    if (!confirm('Delete this comment?')) return
+
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/comments/${comment.id}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error || 'Failed to delete comment')
+      await fetchThreads()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete comment')
+    }
+  }
+
+  const anchorLabel = (comment: Comment) => {
+    if (comment.slideIndex === null && !comment.slideId) return 'General'
+
+    // Follow the slide by id in case slides were reordered since
+    const currentIndex = comment.slideId && draft
+      ? draft.slides.findIndex(slide => slide.id === comment.slideId)
+      : -1
+    const index = currentIndex !== -1 ? currentIndex : comment.slideIndex
+    const slide = index !== null ? draft?.slides[index] : undefined
+    const label = index !== null ? `Slide ${index + 1}` : 'Removed slide'
+
+    if (!comment.textBoxId) return label
+    const textBox = slide?.textBoxes?.find(box => box.id === comment.textBoxId)
+    return `${label} · ${textBox ? `"${truncate(textBox.text, 24)}"` : 'text box'}`
+  }
+
+  const selectedSlide = slideAnchor === GENERAL_ANCHOR ? undefined : draft?.slides[parseInt(slideAnchor, 10)]
+  const availableStatuses = draft
+    ? WORKFLOW_TRANSITIONS[draft.workflowStatus].filter(status =>
+      roleAtLeast(currentUser?.role, requiredRoleForTransition(draft.workflowStatus, status)))
+    : []
+
+  const renderComment = (comment: Comment) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{displayName(comment.author)}</span>
+        <span>{new Date(comment.createdAt).toLocaleString()}</span>
+        {(comment.author?.id === currentUser?.id || currentUser?.role === 'admin') && (
+          <button onClick={() => handleDelete(comment)} className="ml-auto hover:text-destructive">
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Review{draft ? `: ${draft.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Move the draft through review, assign a reviewer and discuss individual slides.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !draft ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 min-h-0 flex-1">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Status</Label>
+                <Select
+                  value={draft.workflowStatus}
+                  onValueChange={(status) => handleStatusChange(status as WorkflowStatus)}
+                  disabled={availableStatuses.length === 0}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={draft.workflowStatus}>{WORKFLOW_LABELS[draft.workflowStatus]}</SelectItem>
+                    {availableStatuses.map(status => (
+                      <SelectItem key={status} value={status}>→ {WORKFLOW_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Reviewer</Label>
+                <Select
+                  value={draft.reviewerId ?? UNASSIGNED}
+                  onValueChange={handleReviewerChange}
+                  disabled={!canAssign}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {reviewers.map(reviewer => (
+                      <SelectItem key={reviewer.id} value={reviewer.id}>{displayName(reviewer)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Comments</span>
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Checkbox checked={showResolved} onCheckedChange={(checked) => setShowResolved(checked === true)} />
+                Show resolved
+              </label>
+            </div>
+
+            <div className="overflow-y-auto space-y-3 flex-1 min-h-[120px]">
+              {threads.length === 0 ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">No comments</div>
+              ) : (
+                threads.map(thread => (
+                  <div
+                    key={thread.id}
+                    className={cn('rounded-md border p-3 space-y-2', thread.resolvedAt && 'opacity-60')}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-[10px]">{anchorLabel(thread)}</Badge>
+                      {thread.resolvedAt && (
+                        <span className="text-xs text-muted-foreground">
+                          Resolved by {displayName(thread.resolvedBy)}
+                        </span>
+                      )}
+                      {canComment && (
+                        <div className="ml-auto flex gap-1">
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplyTo(thread.id)}>
+                            <Reply className="h-3 w-3 mr-1" />
+                            Reply
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleResolve(thread)}>
+                            {thread.resolvedAt
+                              ? <><RotateCcw className="h-3 w-3 mr-1" />Reopen</>
+                              : <><CheckCircle2 className="h-3 w-3 mr-1" />Resolve</>}
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+
+                    {renderComment(thread)}
+
+                    {thread.replies.map(reply => (
+                      <div key={reply.id} className="ml-4 pl-3 border-l">
+                        {renderComment(reply)}
+                      </div>
+                    ))}
+
+                    {replyTo === thread.id && (
+                      <div className="ml-4 flex gap-2">
+                        <Textarea
+                          value={replyBody}
+                          onChange={(e) => setReplyBody(e.target.value)}
+                          placeholder="Reply..."
+                          className="min-h-[60px] text-sm"
+                          autoFocus
+                        />
+                        <div className="flex flex-col gap-1">
+                          <Button size="sm" className="h-7 text-xs" disabled={!replyBody.trim()} onClick={() => handleReply(thread.id)}>
+                            Send
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setReplyTo(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {canComment && (
+              <div className="space-y-2 border-t pt-3">
+                <div className="flex gap-2">
+                  <Select
+                    value={slideAnchor}
+                    onValueChange={(value) => {
+                      setSlideAnchor(value)
+                      setTextBoxAnchor(NO_TEXT_BOX)
+                    }}
+                  >
+                    <SelectTrigger className="h-8 text-xs w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={GENERAL_ANCHOR}>Whole draft</SelectItem>
+                      {draft.slides.map((slide, index) => (
+                        <SelectItem key={slide.id ?? index} value={String(index)}>Slide {index + 1}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedSlide && (selectedSlide.textBoxes?.some(box => box.id) ?? false) && (
+                    <Select value={textBoxAnchor} onValueChange={setTextBoxAnchor}>
+                      <SelectTrigger className="h-8 text-xs flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TEXT_BOX}>Whole slide</SelectItem>
+                        {selectedSlide.textBoxes!.filter(box => box.id).map(box => (
+                          <SelectItem key={box.id} value={box.id!}>{truncate(box.text) || 'Empty text box'}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Textarea
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    placeholder="Add a comment..."
+                    className="min-h-[60px] text-sm"
+                  />
+                  <Button onClick={handleAddThread} disabled={isPosting || !body.trim()} className="self-end">
+                    {isPosting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Comment
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
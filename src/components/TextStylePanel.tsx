@@ -5,7 +5,16 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
 // import { Slider } from '@/components/ui/slider' // Not available
 import {
   AlignLeft,
@@ -24,14 +33,17 @@ import {
   Square
 } from 'lucide-react'
 import type { RemixTextBoxType } from '@/lib/validations/remix-schema'
+import type { BrandKitSummary } from '@/hooks/use-brand-kits'
 
 interface TextStylePanelProps {
   selectedTextBox: RemixTextBoxType
   onUpdate: (updates: Partial<RemixTextBoxType>) => void
   onDelete: () => void
+  // Brand kit whose fonts and palette are offered first
+  brandKit?: Pick<BrandKitSummary, 'name' | 'palette' | 'headingFont' | 'bodyFont'> | null
 }
 
-const FONT_FAMILIES = [
+export const FONT_FAMILIES = [
   'Arial',
   'Helvetica',
   'Times New Roman',
@@ -66,7 +78,10 @@ const FONT_WEIGHTS = [
   { value: '900', label: 'Black' }
 ]
 
-export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStylePanelProps) {
+export function TextStylePanel({ selectedTextBox, onUpdate, onDelete, brandKit }: TextStylePanelProps) {
+  const brandFonts = [...new Set([brandKit?.headingFont, brandKit?.bodyFont].filter((font): font is string => !!font))]
+  const palette = brandKit?.palette ?? []
+
   const updateTransform = (partial: Partial<NonNullable<RemixTextBoxType['transform']>>) => {
     const current = selectedTextBox.transform || {
       rotation: 0,
@@ -135,7 +150,20 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {FONT_FAMILIES.map((font) => (
+              {brandFonts.length > 0 && (
+                <>
+                  <SelectGroup>
+                    <SelectLabel>{brandKit?.name}</SelectLabel>
+                    {brandFonts.map((font) => (
+                      <SelectItem key={`brand-${font}`} value={font} style={{ fontFamily: font }}>
+                        {font}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectSeparator />
+                </>
+              )}
+              {FONT_FAMILIES.filter((font) => !brandFonts.includes(font)).map((font) => (
                 <SelectItem key={font} value={font} style={{ fontFamily: font }}>
                   {font}
                 </SelectItem>
@@ -288,6 +316,7 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
               placeholder="#ffffff"
             />
           </div>
+          <PaletteSwatches colors={palette} onPick={(color) => onUpdate({ color })} />
         </div>
 
         {/* Background Color */}
@@ -319,6 +348,7 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
                   placeholder="#000000"
                 />
               </div>
+              <PaletteSwatches colors={palette} onPick={(color) => onUpdate({ backgroundColor: color })} />
               {/* Background Opacity */}
               <div className="space-y-1">
                 <label className="text-xs text-muted-foreground">
@@ -493,6 +523,7 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
                   placeholder="#000000"
                 />
               </div>
+              <PaletteSwatches colors={palette} onPick={(color) => onUpdate({ shadowColor: color })} />
             </div>
             {/* Shadow Blur */}
             <div className="space-y-2">
@@ -589,6 +620,7 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
                   placeholder="#000000"
                 />
               </div>
+              <PaletteSwatches colors={palette} onPick={(color) => onUpdate({ outlineColor: color })} />
             </div>
           </div>
         )}
@@ -608,4 +640,23 @@ export function TextStylePanel({ selectedTextBox, onUpdate, onDelete }: TextStyl
       </Button>
     </div>
   )
-}
\ No newline at end of file
+}
+
+function PaletteSwatches({ colors, onPick }: { colors: string[]; onPick: (color: string) => void }) {
+  if (colors.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {colors.map((color) => (
+        <button
+          key={color}
+          type="button"
+          title={color}
+          onClick={() => onPick(color)}
+          className="h-5 w-5 rounded border border-input"
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  )
+}
@@ -26,10 +26,19 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Plus, Star, Trash2, Check } from 'lucide-react'
+import { Plus, Star, Trash2, Check, Palette, BookmarkPlus } from 'lucide-react'
 import type { RemixTextBoxType } from '@/lib/validations/remix-schema'
+import { BRAND_TEXT_STYLE_FIELDS, type BrandTextStyle } from '@/lib/validations/brand-kit-schema'
+import { useBrandKits, type BrandKitSummary } from '@/hooks/use-brand-kits'
 
 interface TextStyle {
   id: string
@@ -68,14 +77,23 @@ interface TextStylesManagerProps {
   selectedTextBox?: RemixTextBoxType
   onApplyStyle: (style: TextStyle) => void
   onSaveCurrentAsStyle: (name: string) => void
+  // Called with the brand kit picked here, e.g. to feed TextStylePanel
+  onBrandKitChange?: (brandKit: BrandKitSummary | null) => void
 }
 
+const fromBrandStyle = (style: BrandTextStyle): TextStyle => ({
+  ...style,
+  borderWidth: style.borderWidth ?? 0
+})
+
 export function TextStylesManager({
   remixId,
   selectedTextBox,
   onApplyStyle,
-  onSaveCurrentAsStyle
+  onSaveCurrentAsStyle,
+  onBrandKitChange
 }: TextStylesManagerProps) {
+  const { brandKits, activeKit, resolvedKitId, setActiveKitId, refresh: refreshBrandKits } = useBrandKits(remixId)
   const [styles, setStyles] = useState<TextStyle[]>([])
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [showApplyAllDialog, setShowApplyAllDialog] = useState(false)
@@ -89,6 +107,10 @@ export function TextStylesManager({
     fetchStyles()
   }, [remixId])
 
+  useEffect(() => {
+    onBrandKitChange?.(activeKit)
+  }, [activeKit, onBrandKitChange])
+
   const fetchStyles = async () => {
     try {
       const response = await fetch(`/api/remixes/${remixId}/text-styles`)
@@ -194,6 +216,39 @@ export function TextStylesManager({
     }
   }
 
+  // Copy a remix style into the active brand kit so other remixes can use it
+  const handleAddToBrandKit = async (style: TextStyle) => {
+    if (!activeKit) return
+
+    const fields = Object.fromEntries(
+      BRAND_TEXT_STYLE_FIELDS
+        .map(field => [field, style[field]])
+        .filter(([, value]) => value !== null && value !== undefined)
+    )
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/brand-kits/${activeKit.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          textStyles: [
+            ...activeKit.textStyles,
+            { ...fields, id: `style_${Date.now()}`, name: style.name, isDefault: false }
+          ]
+        })
+      })
+
+      if (response.ok) {
+        await refreshBrandKits()
+      }
+    } catch (error) {
+      console.error('Failed to add style to brand kit:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleApplyToAll = () => {
     if (!selectedStyleForAction) return
     onApplyStyle(selectedStyleForAction)
@@ -203,6 +258,58 @@ export function TextStylesManager({
 
   return (
     <div className="space-y-3">
+      {brandKits.length > 0 && (
+        <div className="space-y-2 pb-3 border-b">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-medium flex items-center gap-1.5">
+              <Palette className="h-3.5 w-3.5" />
+              Brand Kit
+            </h3>
+            <Select value={activeKit?.id} onValueChange={setActiveKitId}>
+              <SelectTrigger className="h-7 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {brandKits.map(kit => (
+                  <SelectItem key={kit.id} value={kit.id} className="text-xs">
+                    {kit.name}{kit.id === resolvedKitId ? ' (this draft)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {activeKit && activeKit.textStyles.length === 0 ? (
+            <p className="text-xs text-muted-foreground">This kit has no text styles yet</p>
+          ) : (
+            activeKit?.textStyles.map(brandStyle => {
+              const style = fromBrandStyle(brandStyle)
+              return (
+                <ContextMenu key={style.id}>
+                  <ContextMenuTrigger>
+                    <StyleCard style={style} onClick={() => onApplyStyle(style)} />
+                  </ContextMenuTrigger>
+                  <ContextMenuContent>
+                    <ContextMenuItem onClick={() => onApplyStyle(style)}>
+                      <Check className="h-3 w-3 mr-2" />
+                      Apply to Selected
+                    </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={() => {
+                        setSelectedStyleForAction(style)
+                        setShowApplyAllDialog(true)
+                      }}
+                    >
+                      Apply to All Text Boxes
+                    </ContextMenuItem>
+                  </ContextMenuContent>
+                </ContextMenu>
+              )
+            })
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium">Text Styles</h3>
         <Button
@@ -227,33 +334,7 @@ export function TextStylesManager({
           {styles.map((style) => (
             <ContextMenu key={style.id}>
               <ContextMenuTrigger>
-                <button
-                  onClick={() => onApplyStyle(style)}
-                  className="w-full p-3 bg-muted/30 hover:bg-muted/50 rounded border border-border/40 transition-colors text-left"
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2 min-w-0 flex-1">
-                      {style.isDefault && (
-                        <Star className="h-3 w-3 text-yellow-500 fill-yellow-500 flex-shrink-0" />
-                      )}
-                      <span className="text-sm font-medium truncate">{style.name}</span>
-                    </div>
-                  </div>
-                  <div
-                    className="mt-2 text-xs px-2 py-1 rounded"
-                    style={{
-                      fontFamily: style.fontFamily,
-                      fontSize: Math.min(style.fontSize * 0.5, 14),
-                      fontWeight: style.fontWeight,
-                      color: style.color,
-                      backgroundColor: style.backgroundColor,
-                      opacity: style.backgroundOpacity,
-                      borderRadius: style.borderRadius * 0.5
-                    }}
-                  >
-                    Preview Text
-                  </div>
-                </button>
+                <StyleCard style={style} onClick={() => onApplyStyle(style)} />
               </ContextMenuTrigger>
               <ContextMenuContent>
                 <ContextMenuItem onClick={() => onApplyStyle(style)}>
@@ -274,6 +355,12 @@ export function TextStylesManager({
                     Set as Default
                   </ContextMenuItem>
                 )}
+                {activeKit && (
+                  <ContextMenuItem onClick={() => handleAddToBrandKit(style)}>
+                    <BookmarkPlus className="h-3 w-3 mr-2" />
+                    Add to {activeKit.name}
+                  </ContextMenuItem>
+                )}
                 <ContextMenuItem
                   onClick={() => {
                     setSelectedStyleForAction(style)
@@ -390,3 +477,35 @@ export function TextStylesManager({
     </div>
   )
 }
+
+function StyleCard({ style, onClick }: { style: TextStyle; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full p-3 bg-muted/30 hover:bg-muted/50 rounded border border-border/40 transition-colors text-left"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0 flex-1">
+          {style.isDefault && (
+            <Star className="h-3 w-3 text-yellow-500 fill-yellow-500 flex-shrink-0" />
+          )}
+          <span className="text-sm font-medium truncate">{style.name}</span>
+        </div>
+      </div>
+      <div
+        className="mt-2 text-xs px-2 py-1 rounded"
+        style={{
+          fontFamily: style.fontFamily,
+          fontSize: Math.min(style.fontSize * 0.5, 14),
+          fontWeight: style.fontWeight,
+          color: style.color,
+          backgroundColor: style.backgroundColor,
+          opacity: style.backgroundOpacity,
+          borderRadius: style.borderRadius * 0.5
+        }}
+      >
+        Preview Text
+      </div>
+    </button>
+  )
+}
@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Loader2, Download, Film } from 'lucide-react'
+import { toast } from 'sonner'
+import { VIDEO_TRANSITIONS, type VideoTransition } from '@/lib/validations/video-export-schema'
+
+type VideoExportStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED'
+
+interface VideoExport {
+  id: string
+  status: VideoExportStatus
+  durationSeconds: number | null
+  musicAssetId: string | null
+  error: string | null
+  downloadUrl: string | null
+  createdAt: string
+}
+
+const TRANSITION_LABELS: Record<VideoTransition, string> = {
+  none: 'Hard cut',
+  fade: 'Crossfade',
+  fadeblack: 'Fade through black',
+  dissolve: 'Dissolve',
+  slideleft: 'Slide left',
+  slideright: 'Slide right',
+  slideup: 'Slide up',
+  wipeleft: 'Wipe left',
+  circleopen: 'Circle open',
+  zoomin: 'Zoom in',
+}
+
+const STATUS_VARIANTS: Record<VideoExportStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  PROCESSING: 'secondary',
+  COMPLETED: 'default',
+  FAILED: 'destructive',
+}
+
+const POLL_INTERVAL_MS = 3000
+
+interface VideoExportDialogProps {
+  open: boolean
+  onClose: () => void
+  draftId: string
+  slideCount: number
+}
+
+export function VideoExportDialog({ open, onClose, draftId, slideCount }: VideoExportDialogProps) {
+  const [slideDuration, setSlideDuration] = useState('3')
+  const [slideDurations, setSlideDurations] = useState<string[]>([])
+  const [transition, setTransition] = useState<VideoTransition>('fade')
+  const [transitionDuration, setTransitionDuration] = useState('0.5')
+  const [includeMusic, setIncludeMusic] = useState(true)
+  const [exports, setExports] = useState<VideoExport[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const fetchExports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/remixes/${draftId}/video-exports`)
+      if (!response.ok) throw new Error('Failed to fetch video exports')
+      const data = await response.json()
+      setExports(data.exports)
+    } catch (error) {
+      console.error('Failed to fetch video exports:', error)
+    }
+  }, [draftId])
+
+  // Reset per-slide timing each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSlideDurations(Array(slideCount).fill(''))
+    fetchExports()
+  }, [open, slideCount, fetchExports])
+
+  // Poll while an export is still being encoded
+  const hasActiveExport = exports.some(e => e.status === 'PENDING' || e.status === 'PROCESSING')
+  useEffect(() => {
+    if (!open || !hasActiveExport) return
+    pollRef.current = setInterval(fetchExports, POLL_INTERVAL_MS)
+    return () => {
+      if (pollRef.current) clearInterval(pollRef.current)
+    }
+  }, [open, hasActiveExport, fetchExports])
+
+  const handleExport = async () => {
+    setIsSubmitting(true)
+    try {
+      const overrides = slideDurations.map(value => parseFloat(value))
+      const hasOverrides = overrides.some(value => !Number.isNaN(value))
+      const base = parseFloat(slideDuration)
+
+      const response = await fetch(`/api/remixes/${draftId}/video-exports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slideDuration: base,
+          slideDurations: hasOverrides
+            ? overrides.map(value => Number.isNaN(value) ? base : value)
+            : undefined,
+          transition,
+          transitionDuration: parseFloat(transitionDuration),
+          includeMusic,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to start video export')
+      }
+
+      toast.success('Video export started', {
+        description: 'It will appear below when it is ready'
+      })
+      fetchExports()
+    } catch (error) {
+      toast.error('Failed to start video export', {
+        description: error instanceof Error ? error.message : 'Please try again'
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Film className="h-5 w-5" />
+            Export Video
+          </DialogTitle>
+          <DialogDescription>
+            Render the draft as an MP4 slideshow, with the source post&apos;s music when available.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="video-slide-duration">Seconds per slide</Label>
+              <Input
+                id="video-slide-duration"
+                type="number"
+                min={0.5}
+                max={30}
+                step={0.5}
+                value={slideDuration}
+                onChange={(e) => setSlideDuration(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Transition</Label>
+              <Select value={transition} onValueChange={(v) => setTransition(v as VideoTransition)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VIDEO_TRANSITIONS.map(value => (
+                    <SelectItem key={value} value={value}>{TRANSITION_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="video-transition-duration">Transition (s)</Label>
+              <Input
+                id="video-transition-duration"
+                type="number"
+                min={0.1}
+                max={2}
+                step={0.1}
+                value={transitionDuration}
+                onChange={(e) => setTransitionDuration(e.target.value)}
+                disabled={transition === 'none'}
+              />
+            </div>
+          </div>
+
+          {slideCount > 0 && (
+            <div className="space-y-2">
+              <Label>Per-slide timing <span className="text-muted-foreground font-normal">(optional)</span></Label>
+              <div className="grid grid-cols-6 gap-2">
+                {slideDurations.map((value, index) => (
+                  <Input
+                    key={index}
+                    type="number"
+                    min={0.5}
+                    max={30}
+                    step={0.5}
+                    placeholder={`#${index + 1}`}
+                    value={value}
+                    onChange={(e) => setSlideDurations(prev => prev.map((v, i) => i === index ? e.target.value : v))}
+                    className="h-8 text-xs"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="video-include-music"
+              checked={includeMusic}
+              onCheckedChange={(checked) => setIncludeMusic(checked === true)}
+            />
+            <Label htmlFor="video-include-music" className="font-normal">Use the original post&apos;s music</Label>
+          </div>
+
+          {exports.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Recent exports</h4>
+              <div className="rounded-lg border border-border divide-y divide-border">
+                {exports.map(videoExport => (
+                  <div key={videoExport.id} className="p-2 flex items-center gap-3 text-sm">
+                    <Badge variant={STATUS_VARIANTS[videoExport.status]} className="text-xs w-24 justify-center">
+                      {videoExport.status === 'PROCESSING' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      {videoExport.status.toLowerCase()}
+                    </Badge>
+                    <div className="flex-1 min-w-0 text-xs text-muted-foreground truncate">
+                      {new Date(videoExport.createdAt).toLocaleString()}
+                      {videoExport.durationSeconds != null && ` · ${videoExport.durationSeconds}s`}
+                      {videoExport.status === 'COMPLETED' && (videoExport.musicAssetId ? ' · with music' : ' · silent')}
+                      {videoExport.error && ` · ${videoExport.error}`}
+                    </div>
+                    {videoExport.downloadUrl && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={videoExport.downloadUrl} download>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={isSubmitting || slideCount === 0}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Export MP4
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
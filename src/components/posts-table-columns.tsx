@@ -24,7 +24,9 @@ import {
   Clock,
   CheckIcon,
   XIcon,
-  Lightbulb
+  Lightbulb,
+  Rocket,
+  Layers
 } from 'lucide-react'
 import { SlideTypeDropdown } from '@/components/SlideTypeDropdown'
 import { InlineEditableText } from '@/components/InlineEditableText'
@@ -82,6 +84,23 @@ export interface TikTokPost {
   slideClassifications?: any
   classificationStatus?: 'pending' | 'processing' | 'completed' | 'failed'
   classificationProcessedAt?: string | null
+  // Outlier detection (relative to the author's baseline)
+  outlierScore?: number | null
+  velocityScore?: number | null
+  velocityScore48h?: number | null
+  viewsFirst24h?: number | null
+  viewsFirst48h?: number | null
+  // Near-duplicate carousel cluster (reposts across profiles)
+  isDuplicate?: boolean
+  duplicateCluster?: {
+    id: string
+    postCount: number
+    profileCount: number
+    originalPost: {
+      id: string
+      authorHandle: string | null
+    } | null
+  } | null
   // Post category
   postCategory?: {
     id: string
@@ -113,6 +132,16 @@ const formatNumber = (num: number): string => {
   return num.toString()
 }
 
+// First-24h views this far above the author's median mark a breakout
+const BREAKOUT_VELOCITY_SCORE = 3
+
+const getOutlierColorClass = (score: number): string => {
+  if (score >= 5) return 'text-purple-600'
+  if (score >= 2) return 'text-green-600'
+  if (score >= 1) return 'text-foreground'
+  return 'text-muted-foreground'
+}
+
 const formatDateTime = (dateString: string): { date: string; time: string } => {
   const date = new Date(dateString)
 
@@ -631,6 +660,25 @@ export const createPostsTableColumns = ({
               </a>
             )}
 
+            {/* Row 2.6: Near-duplicate cluster */}
+            {post.duplicateCluster && (
+              <a
+                href={`/?duplicateClusterId=${post.duplicateCluster.id}`}
+                className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400 hover:underline"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <Layers className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">
+                  {post.isDuplicate && post.duplicateCluster.originalPost
+                    ? `Copy of @${post.duplicateCluster.originalPost.authorHandle}`
+                    : `Copied ${post.duplicateCluster.postCount - 1}×`}
+                  {post.duplicateCluster.profileCount > 1 && (
+                    <span className="text-muted-foreground ml-1">· {post.duplicateCluster.profileCount} profiles</span>
+                  )}
+                </span>
+              </a>
+            )}
+
             {/* Row 3: Description */}
             <div className="w-full overflow-y-auto h-24" onClick={(e) => e.stopPropagation()}>
               <InlineEditableText
@@ -721,6 +769,64 @@ export const createPostsTableColumns = ({
       )
     }
   },
+  {
+    accessorKey: 'outlierScore',
+    header: 'Outlier',
+    enableSorting: true,
+    size: 130,
+    cell: ({ row }) => {
+      const post = row.original
+
+      if (post.outlierScore == null && post.velocityScore == null) {
+        return <span className="text-xs text-muted-foreground">—</span>
+      }
+
+      const isBreakout = (post.velocityScore ?? 0) >= BREAKOUT_VELOCITY_SCORE
+
+      return (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="flex flex-col items-start gap-1">
+                {post.outlierScore != null ? (
+                  <span className={`text-sm font-mono font-semibold ${getOutlierColorClass(post.outlierScore)}`}>
+                    {post.outlierScore.toFixed(1)}×
+                  </span>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Too new</span>
+                )}
+                {isBreakout && (
+                  <span className="inline-flex items-center gap-1 rounded bg-purple-500/10 px-1.5 py-0.5 text-[10px] font-medium text-purple-600">
+                    <Rocket className="w-3 h-3" />
+                    Breakout
+                  </span>
+                )}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent side="right">
+              {post.outlierScore != null ? (
+                <p>Views vs. @{post.authorHandle}&apos;s median: {post.outlierScore.toFixed(2)}×</p>
+              ) : (
+                <p>Lifetime views are compared once the post is a week old</p>
+              )}
+              {post.velocityScore != null && (
+                <p>First 24h vs. median: {post.velocityScore.toFixed(2)}×</p>
+              )}
+              {post.velocityScore48h != null && (
+                <p>First 48h vs. median: {post.velocityScore48h.toFixed(2)}×</p>
+              )}
+              {post.viewsFirst24h != null && (
+                <p>
+                  Views after 24h: {formatNumber(post.viewsFirst24h)}
+                  {post.viewsFirst48h != null && ` · 48h: ${formatNumber(post.viewsFirst48h)}`}
+                </p>
+              )}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      )
+    }
+  },
   {
     accessorKey: 'title',
     header: 'Content',
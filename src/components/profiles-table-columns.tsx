@@ -29,7 +29,8 @@ import {
   PlayCircle,
   PauseCircle,
   MoreHorizontal,
-  RefreshCw
+  RefreshCw,
+  Clock
 } from 'lucide-react'
 // import { createSortableHeader } from '@/components/ui/data-table'
 import Link from 'next/link'
@@ -45,7 +46,7 @@ export interface TikTokProfile {
   verified: boolean
 
   // Group assignment
-  profileGroup?: { id: string; name: string } | null
+  profileGroup?: { id: string; name: string; monitoringIntervalHours?: number | null } | null
 
   // Deprecated - kept for backwards compatibility
   followerCount?: number
@@ -65,6 +66,11 @@ export interface TikTokProfile {
   monitoringEnabled: boolean
   lastMonitoringRun?: string | null
   nextMonitoringRun?: string | null
+  monitoringIntervalHours?: number | null
+  monitoringActiveStart?: number | null
+  monitoringActiveEnd?: number | null
+  monitoringTimezone?: string | null
+  monitoringAdaptive?: boolean | null
 
   createdAt: string
   updatedAt: string
@@ -77,6 +83,7 @@ interface ProfilesTableColumnsProps {
   onPreviewProfile: (profile: TikTokProfile) => void
   onToggleMonitoring?: (profileId: string, enabled: boolean) => Promise<void>
   onTriggerUpdate?: (profileId: string) => Promise<void>
+  onEditMonitoringSchedule?: (profile: TikTokProfile) => void
   onProfileUpdate?: () => void
   onNavigateToProfile?: (handle: string) => void
   selectedProfiles?: Set<string>
@@ -124,13 +131,21 @@ const formatDateTime = (dateString: string): { date: string; time: string } => {
   return { date: dateStr, time: timeStr }
 }
 
+const formatInterval = (hours: number): string => {
+  if (hours >= 24 && hours % 24 === 0) {
+    return hours === 24 ? 'day' : `${hours / 24} days`
+  }
+  return hours === 1 ? 'hour' : `${hours}h`
+}
+
 interface ProfileActionsCellProps {
   profile: TikTokProfile
   onToggleMonitoring?: (profileId: string, enabled: boolean) => Promise<void>
   onTriggerUpdate?: (profileId: string) => Promise<void>
+  onEditMonitoringSchedule?: (profile: TikTokProfile) => void
 }
 
-function ProfileActionsCell({ profile, onToggleMonitoring, onTriggerUpdate }: ProfileActionsCellProps) {
+function ProfileActionsCell({ profile, onToggleMonitoring, onTriggerUpdate, onEditMonitoringSchedule }: ProfileActionsCellProps) {
   const [isUpdating, setIsUpdating] = React.useState(false)
 
   const handleToggleMonitoring = async () => {
@@ -203,6 +218,14 @@ function ProfileActionsCell({ profile, onToggleMonitoring, onTriggerUpdate }: Pr
               </>
             )}
           </DropdownMenuItem>
+
+          <DropdownMenuItem
+            onClick={() => onEditMonitoringSchedule?.(profile)}
+            disabled={!onEditMonitoringSchedule}
+          >
+            <Clock className="w-4 h-4 mr-2" />
+            Monitoring Schedule...
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
@@ -213,6 +236,7 @@ export const createProfilesTableColumns = ({
   onPreviewProfile,
   onToggleMonitoring,
   onTriggerUpdate,
+  onEditMonitoringSchedule,
   onProfileUpdate,
   onNavigateToProfile,
   selectedProfiles = new Set(),
@@ -374,12 +398,19 @@ export const createProfilesTableColumns = ({
     header: 'Monitoring',
     cell: ({ row }) => {
       const profile = row.original
+      const intervalHours = profile.monitoringIntervalHours ?? profile.profileGroup?.monitoringIntervalHours ?? 24
       return (
         <div className="flex items-center justify-center">
           {profile.monitoringEnabled ? (
-            <div className="flex items-center gap-1.5 text-green-600">
-              <Bell className="w-4 h-4" />
-              <span className="text-sm font-medium">Enabled</span>
+            <div className="flex flex-col items-center">
+              <div className="flex items-center gap-1.5 text-green-600">
+                <Bell className="w-4 h-4" />
+                <span className="text-sm font-medium">Enabled</span>
+              </div>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                Every {formatInterval(intervalHours)}
+                {profile.nextMonitoringRun && ` · next ${formatDateTime(profile.nextMonitoringRun).time}`}
+              </span>
             </div>
           ) : (
             <div className="flex items-center gap-1.5 text-muted-foreground">
@@ -415,6 +446,7 @@ export const createProfilesTableColumns = ({
         profile={profile}
         onToggleMonitoring={onToggleMonitoring}
         onTriggerUpdate={onTriggerUpdate}
+        onEditMonitoringSchedule={onEditMonitoringSchedule}
       />
     },
     size: 80,
@@ -0,0 +1,53 @@
+import * as React from "react"
+import type { BrandTextStyle } from "@/lib/validations/brand-kit-schema"
+import type { BackgroundLayerType } from "@/lib/validations/remix-schema"
+
+export interface BrandKitSummary {
+  id: string
+  name: string
+  description: string | null
+  palette: string[]
+  headingFont: string | null
+  bodyFont: string | null
+  textStyles: BrandTextStyle[]
+  logoAssetIds: string[]
+  backgroundLayers: BackgroundLayerType[]
+}
+
+/**
+ * All brand kits, with the one that applies to the remix (through its project
+ * or product context) selected first. Any other kit can be picked, so kits
+ * are usable on every remix.
+ */
+export function useBrandKits(remixId?: string) {
+  const [brandKits, setBrandKits] = React.useState<BrandKitSummary[]>([])
+  const [activeKitId, setActiveKitId] = React.useState<string | null>(null)
+  const [resolvedKitId, setResolvedKitId] = React.useState<string | null>(null)
+
+  const refresh = React.useCallback(async () => {
+    try {
+      const query = remixId ? `?remixId=${encodeURIComponent(remixId)}` : ''
+      const response = await fetch(`/api/brand-kits${query}`)
+      if (!response.ok) return
+
+      const data = await response.json()
+      setBrandKits(data.brandKits)
+      setResolvedKitId(data.resolvedBrandKitId)
+      setActiveKitId(current =>
+        current && data.brandKits.some((kit: BrandKitSummary) => kit.id === current)
+          ? current
+          : data.resolvedBrandKitId ?? data.brandKits[0]?.id ?? null
+      )
+    } catch (error) {
+      console.error('Failed to fetch brand kits:', error)
+    }
+  }, [remixId])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const activeKit = brandKits.find(kit => kit.id === activeKitId) ?? null
+
+  return { brandKits, activeKit, resolvedKitId, setActiveKitId, refresh }
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+export type UserRole = 'viewer' | 'reviewer' | 'editor' | 'admin'
+
+export interface CurrentUser {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+}
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'reviewer', 'editor', 'admin']
+
+export function roleAtLeast(role: UserRole | undefined, minRole: UserRole) {
+  return !!role && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minRole)
+}
+
+/**
+ * The signed-in user. Sends the browser to the login page when the session
+ * is missing or has expired.
+ */
+export function useCurrentUser() {
+  const [user, setUser] = React.useState<CurrentUser | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    fetch('/api/auth/me')
+      .then(async (response) => {
+        if (response.status === 401) {
+          const next = window.location.pathname + window.location.search
+          window.location.href = `/login?next=${encodeURIComponent(next)}`
+          return
+        }
+        if (!response.ok) return
+
+        const data = await response.json()
+        if (!cancelled) setUser(data.user)
+      })
+      .catch((error) => console.error('Failed to fetch current user:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return user
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+import { getBudgetState, getPeriodStart, shouldPauseAiQueues, type AiBudgetStatus } from '../ai-usage-service'
+import { calculateModelCost } from '../cost-calculation-service'
+
+const budget = { limitUsd: 10, warnAtPercent: 80, enabled: true }
+
+describe('getBudgetState', () => {
+  it('should warn from the threshold and be exceeded at the limit', () => {
+    expect(getBudgetState(budget, 7.99)).toBe('ok')
+    expect(getBudgetState(budget, 8)).toBe('warning')
+    expect(getBudgetState(budget, 10)).toBe('exceeded')
+  })
+
+  it('should treat a disabled budget as ok', () => {
+    expect(getBudgetState({ ...budget, enabled: false }, 50)).toBe('ok')
+  })
+})
+
+describe('getPeriodStart', () => {
+  it('should start periods at UTC midnight and the first of the month', () => {
+    const now = new Date('2025-12-19T23:30:00-05:00')
+
+    expect(getPeriodStart('daily', now).toISOString()).toBe('2025-12-20T00:00:00.000Z')
+    expect(getPeriodStart('monthly', now).toISOString()).toBe('2025-12-01T00:00:00.000Z')
+  })
+})
+
+describe('shouldPauseAiQueues', () => {
+  const status = (overrides: Partial<AiBudgetStatus>): AiBudgetStatus => ({
+    period: 'daily',
+    limitUsd: 10,
+    warnAtPercent: 80,
+    pauseQueues: true,
+    enabled: true,
+    spentUsd: 0,
+    percentUsed: 0,
+    state: 'ok',
+    periodStart: '2025-12-19T00:00:00.000Z',
+    ...overrides,
+  })
+
+  it('should pause only for an exceeded budget that pauses queues', () => {
+    expect(shouldPauseAiQueues([status({ state: 'warning' })])).toBe(false)
+    expect(shouldPauseAiQueues([status({ state: 'exceeded', pauseQueues: false })])).toBe(false)
+    expect(shouldPauseAiQueues([
+      status({ state: 'ok' }),
+      status({ period: 'monthly', state: 'exceeded' }),
+    ])).toBe(true)
+  })
+})
+
+describe('calculateModelCost', () => {
+  it('should price chat models, background-only models and unknown models', () => {
+    expect(calculateModelCost('gemini-2.5-flash', 1_000_000, 1_000_000)).toBeCloseTo(2.8)
+    expect(calculateModelCost('gemini-2.0-flash', 1_000_000, 0)).toBeCloseTo(0.1)
+    expect(calculateModelCost('some-new-model', 1_000_000, 1_000_000)).toBe(0)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Only the pure evaluation helpers are under test - keep the DB and delivery out
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(),
+}))
+vi.mock('../notification-service', () => ({
+  notificationService: { notifyAlert: vi.fn() },
+}))
+
+import {
+  evaluateRule,
+  matchesScope,
+  selectBaseline,
+  getMetricValue,
+  type AlertPost,
+  type AlertRuleCondition,
+  type MetricHistoryEntry,
+} from '../alert-engine'
+
+const now = new Date('2025-01-10T12:00:00Z')
+
+const rule = (overrides: Partial<AlertRuleCondition> = {}): AlertRuleCondition => ({
+  metric: 'VIEWS',
+  condition: 'ABOVE',
+  threshold: 1000,
+  windowHours: null,
+  minPostAgeHours: null,
+  maxPostAgeHours: null,
+  profileId: null,
+  profileGroupId: null,
+  postCategoryId: null,
+  ...overrides,
+})
+
+const post = (overrides: Partial<AlertPost> = {}): AlertPost => ({
+  id: 'post-1',
+  profileId: 'profile-1',
+  postCategoryId: null,
+  publishedAt: new Date('2025-01-05T12:00:00Z'),
+  createdAt: new Date('2025-01-05T13:00:00Z'),
+  viewCount: BigInt(5000),
+  likeCount: 400,
+  shareCount: 50,
+  commentCount: 40,
+  saveCount: 10,
+  ...overrides,
+})
+
+const snapshot = (hoursAgo: number, viewCount: number): MetricHistoryEntry => ({
+  recordedAt: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000),
+  viewCount: BigInt(viewCount),
+  likeCount: 0,
+  shareCount: 0,
+  commentCount: 0,
+  saveCount: 0,
+})
+
+describe('alert engine', () => {
+  it('computes engagement rate as a percentage of views', () => {
+    expect(getMetricValue('ENGAGEMENT_RATE', post())).toBe(10)
+    expect(getMetricValue('ENGAGEMENT_RATE', post({ viewCount: null }))).toBe(0)
+  })
+
+  it('fires threshold rules and respects post age bounds', () => {
+    expect(evaluateRule(rule(), post(), [], now)).toBe(5000)
+    expect(evaluateRule(rule({ threshold: 10000 }), post(), [], now)).toBeNull()
+    expect(evaluateRule(rule({ condition: 'BELOW', threshold: 10000, minPostAgeHours: 24 }), post(), [], now)).toBe(5000)
+    expect(evaluateRule(rule({ maxPostAgeHours: 48 }), post(), [], now)).toBeNull()
+  })
+
+  it('measures growth from the snapshot at the window start', () => {
+    const history = [snapshot(48, 1000), snapshot(30, 2000), snapshot(6, 4500)]
+
+    expect(selectBaseline(history, new Date(now.getTime() - 24 * 60 * 60 * 1000))).toBe(history[1])
+    expect(evaluateRule(rule({ condition: 'GROWTH_ABOVE', threshold: 2500, windowHours: 24 }), post(), history, now)).toBe(3000)
+    expect(evaluateRule(rule({ condition: 'GROWTH_PERCENT_ABOVE', threshold: 200, windowHours: 24 }), post(), history, now)).toBeNull()
+    expect(evaluateRule(rule({ condition: 'GROWTH_PERCENT_ABOVE', threshold: 100, windowHours: 24 }), post(), history, now)).toBe(150)
+  })
+
+  it('treats posts published inside the window as growing from zero', () => {
+    const fresh = post({ publishedAt: new Date('2025-01-10T06:00:00Z'), viewCount: BigInt(3000) })
+
+    expect(evaluateRule(rule({ condition: 'GROWTH_ABOVE', threshold: 2500, windowHours: 24 }), fresh, [], now)).toBe(3000)
+    expect(evaluateRule(rule({ condition: 'GROWTH_ABOVE', threshold: 1, windowHours: 24 }), post(), [], now)).toBeNull()
+    expect(evaluateRule(rule({ condition: 'NEW_POST' }), fresh, [], now)).toBe(6)
+    expect(evaluateRule(rule({ condition: 'NEW_POST' }), post(), [], now)).toBeNull()
+  })
+
+  it('limits rules to their profile, group or category scope', () => {
+    expect(matchesScope(rule({ profileId: 'profile-1' }), post(), null)).toBe(true)
+    expect(matchesScope(rule({ profileId: 'profile-2' }), post(), null)).toBe(false)
+    expect(matchesScope(rule({ profileGroupId: 'group-1' }), post(), 'group-1')).toBe(true)
+    expect(matchesScope(rule({ profileGroupId: 'group-1' }), post(), null)).toBe(false)
+    expect(matchesScope(rule({ postCategoryId: 'cat-1' }), post({ postCategoryId: 'cat-1' }), null)).toBe(true)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    session: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+
+import { authService, hasRole, hashPassword, hashSessionToken, verifyPassword } from '../auth-service'
+
+describe('Passwords', () => {
+  it('should verify a password against its salted hash', async () => {
+    const passwordHash = await hashPassword('correct horse battery')
+
+    expect(passwordHash).not.toContain('correct horse battery')
+    expect(await hashPassword('correct horse battery')).not.toBe(passwordHash)
+    expect(await verifyPassword('correct horse battery', passwordHash)).toBe(true)
+    expect(await verifyPassword('wrong password', passwordHash)).toBe(false)
+    expect(await verifyPassword('correct horse battery', 'malformed')).toBe(false)
+  })
+
+  it('should store session tokens as a stable digest', () => {
+    expect(hashSessionToken('token')).toBe(hashSessionToken('token'))
+    expect(hashSessionToken('token')).toHaveLength(64)
+  })
+})
+
+describe('hasRole', () => {
+  it('should let higher roles do everything lower roles can', () => {
+    expect(hasRole('admin', 'editor')).toBe(true)
+    expect(hasRole('editor', 'reviewer')).toBe(true)
+    expect(hasRole('reviewer', 'editor')).toBe(false)
+    expect(hasRole('viewer', 'viewer')).toBe(true)
+    expect(hasRole('owner', 'viewer')).toBe(false)
+  })
+})
+
+describe('getUserBySessionToken', () => {
+  const HOUR_MS = 60 * 60 * 1000
+
+  const session = (overrides: { expiresAt?: Date; lastUsedAt?: Date; isActive?: boolean; role?: string } = {}) => ({
+    id: 'session-1',
+    expiresAt: overrides.expiresAt ?? new Date(Date.now() + 24 * HOUR_MS),
+    lastUsedAt: overrides.lastUsedAt ?? new Date(),
+    user: {
+      id: 'user-1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      role: overrides.role ?? 'editor',
+      isActive: overrides.isActive ?? true,
+    },
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma.session.update.mockResolvedValue({})
+    prisma.session.delete.mockResolvedValue({})
+  })
+
+  it('should look sessions up by the token digest', async () => {
+    prisma.session.findUnique.mockResolvedValue(session())
+
+    expect(await authService.getUserBySessionToken('token')).toEqual({
+      id: 'user-1',
+      email: 'ana@example.com',
+      name: 'Ana',
+      role: 'editor',
+    })
+    expect(prisma.session.findUnique.mock.calls[0][0].where).toEqual({ tokenHash: hashSessionToken('token') })
+  })
+
+  it('should return null for unknown tokens', async () => {
+    prisma.session.findUnique.mockResolvedValue(null)
+
+    expect(await authService.getUserBySessionToken('token')).toBeNull()
+  })
+
+  it('should reject and delete an expired session', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ expiresAt: new Date(Date.now() - 1000) }))
+
+    expect(await authService.getUserBySessionToken('token')).toBeNull()
+    expect(prisma.session.delete).toHaveBeenCalledWith({ where: { id: 'session-1' } })
+  })
+
+  it('should reject sessions of deactivated users', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ isActive: false }))
+
+    expect(await authService.getUserBySessionToken('token')).toBeNull()
+    expect(prisma.session.update).not.toHaveBeenCalled()
+  })
+
+  it('should only touch lastUsedAt once the interval has passed', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ lastUsedAt: new Date(Date.now() - 10 * 60 * 1000) }))
+    await authService.getUserBySessionToken('token')
+    expect(prisma.session.update).not.toHaveBeenCalled()
+
+    prisma.session.findUnique.mockResolvedValue(session({ lastUsedAt: new Date(Date.now() - 2 * HOUR_MS) }))
+    await authService.getUserBySessionToken('token')
+    expect(prisma.session.update).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      data: { lastUsedAt: expect.any(Date) },
+    })
+  })
+
+  it('should treat unknown roles as viewer', async () => {
+    prisma.session.findUnique.mockResolvedValue(session({ role: 'owner' }))
+
+    expect((await authService.getUserBySessionToken('token'))?.role).toBe('viewer')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { request, authService } = vi.hoisted(() => ({
+  request: {
+    cookies: new Map<string, string>(),
+    headers: new Headers(),
+  },
+  authService: {
+    getUserBySessionToken: vi.fn(),
+  },
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (request.cookies.has(name) ? { name, value: request.cookies.get(name) } : undefined),
+  }),
+  headers: async () => request.headers,
+}))
+
+vi.mock('../auth-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../auth-service')>()),
+  authService,
+}))
+
+import { getSessionToken, requireRole, SESSION_COOKIE } from '../auth'
+
+const user = (role: string) => ({ id: 'user-1', email: 'ana@example.com', name: 'Ana', role })
+
+describe('getSessionToken', () => {
+  beforeEach(() => {
+    request.cookies.clear()
+    request.headers = new Headers()
+  })
+
+  it('should prefer the session cookie and fall back to a Bearer header', async () => {
+    expect(await getSessionToken()).toBeNull()
+
+    request.headers = new Headers({ authorization: 'Bearer header-token' })
+    expect(await getSessionToken()).toBe('header-token')
+
+    request.cookies.set(SESSION_COOKIE, 'cookie-token')
+    expect(await getSessionToken()).toBe('cookie-token')
+  })
+})
+
+describe('requireRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    request.cookies.clear()
+    request.headers = new Headers()
+  })
+
+  it('should answer 401 without a session token', async () => {
+    const auth = await requireRole('viewer')
+
+    expect(auth.user).toBeNull()
+    expect(auth.response?.status).toBe(401)
+    expect(authService.getUserBySessionToken).not.toHaveBeenCalled()
+  })
+
+  it('should answer 401 when the session does not resolve to a user', async () => {
+    request.cookies.set(SESSION_COOKIE, 'expired-token')
+    authService.getUserBySessionToken.mockResolvedValue(null)
+
+    const auth = await requireRole('viewer')
+
+    expect(auth.response?.status).toBe(401)
+    expect(authService.getUserBySessionToken).toHaveBeenCalledWith('expired-token')
+  })
+
+  it('should answer 403 with the required role when the user ranks below it', async () => {
+    request.cookies.set(SESSION_COOKIE, 'token')
+    authService.getUserBySessionToken.mockResolvedValue(user('reviewer'))
+
+    const auth = await requireRole('editor')
+
+    expect(auth.user).toBeNull()
+    expect(auth.response?.status).toBe(403)
+    expect(await auth.response?.json()).toEqual({ error: 'Insufficient permissions', requiredRole: 'editor' })
+  })
+
+  it('should return the user when the role is high enough', async () => {
+    request.headers = new Headers({ authorization: 'Bearer token' })
+    authService.getUserBySessionToken.mockResolvedValue(user('admin'))
+
+    const auth = await requireRole('editor')
+
+    expect(auth.response).toBeNull()
+    expect(auth.user).toEqual(user('admin'))
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+vi.mock('../cache-asset-service', () => ({
+  cacheAssetService: {},
+}))
+
+import { applyBrandKitToSlides } from '../brand-kit-service'
+
+const style = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  isDefault: false,
+  fontSize: 40,
+  fontFamily: 'Inter',
+  fontWeight: 'bold',
+  color: '#111111',
+  textAlign: 'center',
+  ...overrides,
+})
+
+const slide = (backgroundLayers: Array<Record<string, unknown>>, textBoxes: Array<Record<string, unknown>> = []) => ({
+  id: 'slide',
+  paraphrasedText: 'Text',
+  backgroundLayers,
+  textBoxes,
+})
+
+const kit = {
+  headingFont: 'Oswald',
+  bodyFont: 'Lato',
+  textStyles: [
+    style('body', { isDefault: true, color: '#222222' }),
+    style('cta', { slideType: 'CTA', color: '#ff0000', fontSize: 32 }),
+  ],
+  backgroundLayers: [{ id: 'kit-bg', type: 'gradient', gradient: { type: 'linear', colors: ['#000000', '#ffffff'] } }],
+}
+
+describe('applyBrandKitToSlides', () => {
+  it('should replace default backgrounds but keep chosen images', () => {
+    const [plain, empty, image] = applyBrandKitToSlides(
+      [
+        slide([{ id: 'bg', type: 'color', color: '#ffffff' }]),
+        slide([]),
+        slide([{ id: 'bg', type: 'image', cacheAssetId: 'asset' }]),
+      ],
+      kit
+    )
+
+    expect(plain.backgroundLayers).toEqual([expect.objectContaining({ type: 'gradient' })])
+    expect(plain.backgroundLayers[0].id).not.toBe('kit-bg')
+    expect(empty.backgroundLayers).toHaveLength(1)
+    expect(image.backgroundLayers).toEqual([{ id: 'bg', type: 'image', cacheAssetId: 'asset' }])
+  })
+
+  it('should style text boxes by slide role without moving them', () => {
+    const textBox = { id: 't', text: 'Hi', x: 0.1, y: 0.7, fontSize: 44, fontFamily: 'Poppins', color: '#000000' }
+    const [hook, cta] = applyBrandKitToSlides(
+      [slide([], [textBox]), slide([], [textBox])],
+      kit,
+      [{ slideIndex: 0, type: 'HOOK' }, { slideIndex: 1, type: 'CTA' }]
+    )
+
+    expect(hook.textBoxes[0]).toMatchObject({ text: 'Hi', x: 0.1, y: 0.7, color: '#222222', fontFamily: 'Inter' })
+    expect(cta.textBoxes[0]).toMatchObject({ text: 'Hi', x: 0.1, y: 0.7, color: '#ff0000', fontSize: 32 })
+  })
+
+  it('should fall back to the kit fonts when it has no text styles', () => {
+    const textBox = { id: 't', text: 'Hi', fontFamily: 'Poppins' }
+    const [hook, content] = applyBrandKitToSlides(
+      [slide([], [textBox]), slide([], [textBox])],
+      { ...kit, textStyles: [] }
+    )
+
+    expect(hook.textBoxes[0].fontFamily).toBe('Oswald')
+    expect(content.textBoxes[0].fontFamily).toBe('Lato')
+  })
+})
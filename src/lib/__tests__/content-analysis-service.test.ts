@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../analysis-tools-service', () => ({
+  ANALYSIS_TOOLS: [{ name: 'aggregate_post_metrics', description: 'Metrics', parameters: { type: 'OBJECT' } }],
+  runAnalysisTool: vi.fn(async (call: { args: Record<string, unknown> }) => {
+    if (!call.args.groupBy) throw new Error('Invalid arguments for aggregate_post_metrics: groupBy: Required')
+    return { groups: [{ group: 'fitness', posts: 12 }] }
+  }),
+}))
+
+import { getFixtureProvider, type LLMRequest } from '../llm'
+import { streamAnalysisChat, MAX_TOOL_ROUNDS, type AnalysisChatEvent } from '../content-analysis-service'
+
+const collect = async (events: AsyncIterable<AnalysisChatEvent>) => {
+  const collected: AnalysisChatEvent[] = []
+  for await (const event of events) collected.push(event)
+  return collected
+}
+
+describe('streamAnalysisChat', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fixture'
+    getFixtureProvider().reset()
+  })
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER
+  })
+
+  it('should run tool calls and answer with their results', async () => {
+    const requests: LLMRequest[] = []
+    getFixtureProvider().register('post-analysis', (request) => {
+      requests.push(structuredClone(request))
+      return requests.length === 1
+        ? { toolCalls: [{ id: 'a', name: 'aggregate_post_metrics', args: { groupBy: 'category' } }] }
+        : 'Fitness leads with 12 posts'
+    })
+
+    const events = await collect(streamAnalysisChat({
+      model: 'fixture',
+      previousMessages: [],
+      prompt: 'Which category posts most?',
+      selectedPostIds: [],
+    }))
+
+    const result = events.find(event => event.type === 'tool_result')
+    expect(result).toMatchObject({ call: { name: 'aggregate_post_metrics', result: { groups: [{ posts: 12 }] } } })
+    expect(requests[1].messages?.at(-1)?.parts[0]).toEqual({
+      functionResponse: { id: 'a', name: 'aggregate_post_metrics', response: { groups: [{ group: 'fitness', posts: 12 }] } },
+    })
+    expect(events.filter(event => event.type === 'text').map(event => (event as { text: string }).text).join(''))
+      .toBe('Fitness leads with 12 posts')
+    expect(events.at(-1)?.type).toBe('usage')
+  })
+
+  it('should send tool errors back to the model and stop offering tools after the last round', async () => {
+    getFixtureProvider().register('post-analysis', { toolCalls: [{ name: 'aggregate_post_metrics', args: {} }] })
+
+    const events = await collect(streamAnalysisChat({
+      model: 'fixture',
+      previousMessages: [],
+      prompt: 'Loop forever',
+      selectedPostIds: [],
+    }))
+
+    const results = events.filter(event => event.type === 'tool_result')
+    expect(results).toHaveLength(MAX_TOOL_ROUNDS)
+    expect(results[0]).toMatchObject({ call: { error: expect.stringContaining('groupBy') } })
+    expect(events.at(-1)?.type).toBe('usage')
+  })
+})
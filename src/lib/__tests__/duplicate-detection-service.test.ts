@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+vi.mock('../cache-asset-service', () => ({
+  cacheAssetService: {},
+}))
+
+import {
+  areNearDuplicateCarousels,
+  clusterNearDuplicates,
+  DUPLICATE_HASH_THRESHOLD,
+  hashBandKeys,
+  parseImageHashes,
+} from '../duplicate-detection-service'
+
+// Each slide and a re-encoded copy a couple of bits away
+const SLIDE_A = 'f0f0f0f0f0f0f0f0'
+const SLIDE_A_COPY = 'f0f0f0f0f0f0f0f3'
+const SLIDE_B = '0123456789abcdef'
+const SLIDE_B_COPY = '0123456789abcdee'
+const SLIDE_C = 'ffff0000ffff0000'
+const OTHER_1 = '5555555555555555'
+const OTHER_2 = '3c3c3c3c3c3c3c3c'
+
+describe('parseImageHashes', () => {
+  it('should drop missing, malformed and blank-image hashes', () => {
+    expect(parseImageHashes([SLIDE_A, null, 'xyz', '0000000000000000', 'ffffffffffffffff', SLIDE_B]))
+      .toEqual([SLIDE_A, SLIDE_B])
+    expect(parseImageHashes({})).toEqual([])
+  })
+})
+
+describe('hashBandKeys', () => {
+  it('should give hashes within the threshold a shared band however their bits differ', () => {
+    // One flipped bit in each of the first bands, the worst case for bucketing
+    const flipped = [0, 11, 22, 33, 44].slice(0, DUPLICATE_HASH_THRESHOLD)
+      .reduce((hash, bit) => hash ^ (BigInt(1) << BigInt(63 - bit)), BigInt('0x' + SLIDE_B))
+    const copy = flipped.toString(16).padStart(16, '0')
+
+    const shared = hashBandKeys(SLIDE_B).filter(key => hashBandKeys(copy).includes(key))
+    expect(shared.length).toBeGreaterThan(0)
+  })
+})
+
+describe('areNearDuplicateCarousels', () => {
+  it('should require most slides of the longer carousel to match', () => {
+    expect(areNearDuplicateCarousels([SLIDE_A, SLIDE_B, SLIDE_C], [SLIDE_A_COPY, SLIDE_B_COPY, SLIDE_C])).toBe(true)
+    expect(areNearDuplicateCarousels([SLIDE_A, SLIDE_B, SLIDE_C], [SLIDE_A_COPY, SLIDE_B_COPY, SLIDE_C, OTHER_1])).toBe(true)
+    expect(areNearDuplicateCarousels([SLIDE_A, SLIDE_B], [SLIDE_A, SLIDE_B, OTHER_1, OTHER_2])).toBe(false)
+    // One shared slide is not enough between multi-slide carousels
+    expect(areNearDuplicateCarousels([SLIDE_A, OTHER_1], [SLIDE_A_COPY, OTHER_2])).toBe(false)
+  })
+})
+
+describe('clusterNearDuplicates', () => {
+  it('should group reposts across profiles and leave distinct carousels out', () => {
+    const groups = clusterNearDuplicates([
+      { id: 'original', profileId: 'profile-1', hashes: [SLIDE_A, SLIDE_B, SLIDE_C] },
+      { id: 'repost', profileId: 'profile-2', hashes: [SLIDE_A_COPY, SLIDE_B_COPY, SLIDE_C] },
+      { id: 'repost-of-repost', profileId: 'profile-3', hashes: [SLIDE_A_COPY, SLIDE_B_COPY, SLIDE_C] },
+      { id: 'same-hook', profileId: 'profile-2', hashes: [SLIDE_A, OTHER_1, OTHER_2] },
+    ])
+
+    expect(groups).toEqual([['original', 'repost', 'repost-of-repost']])
+  })
+
+  it('should not group a profile with its own reposts', () => {
+    const groups = clusterNearDuplicates([
+      { id: 'post', profileId: 'profile-1', hashes: [SLIDE_A, SLIDE_B, SLIDE_C] },
+      { id: 'own-repost', profileId: 'profile-1', hashes: [SLIDE_A_COPY, SLIDE_B_COPY, SLIDE_C] },
+    ])
+
+    expect(groups).toEqual([])
+  })
+})
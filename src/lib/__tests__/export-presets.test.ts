@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import { applyExportPreset, reflowSlide } from '../export-presets'
+import { buildImagePdf } from '../pdf-writer'
+import { RemixSlideSchema } from '../validations/remix-schema'
+
+const slide = RemixSlideSchema.parse({
+  displayOrder: 0,
+  originalImageIndex: 0,
+  paraphrasedText: 'Hook',
+  canvas: { width: 1080, height: 1920 },
+  backgroundLayers: [
+    { type: 'color', color: '#ffffff', x: 0, y: 0, width: 1, height: 1 },
+    { type: 'color', color: '#ff0000', x: 0.1, y: 0.6, width: 0.2, height: 0.1 },
+  ],
+  textBoxes: [{
+    text: 'Hook',
+    x: 0.25,
+    y: 0.4,
+    width: 0.5,
+    height: 0.2,
+    fontSize: 60,
+    fontFamily: 'Poppins',
+    fontWeight: 'bold',
+    color: '#000000',
+    textAlign: 'center',
+  }],
+})
+
+describe('reflowSlide', () => {
+  it('keeps text at its size and position when the narrower canvas has room', () => {
+    const reflowed = reflowSlide(slide, { width: 1080, height: 1350 })
+    const textBox = reflowed.textBoxes[0]
+
+    expect(reflowed.canvas).toMatchObject({ width: 1080, height: 1350 })
+    // Same canvas width, so the text keeps its size and wraps as before
+    expect(textBox.fontSize).toBe(60)
+    expect(textBox.x).toBe(0.25)
+    expect(textBox.width).toBe(0.5)
+    expect(textBox.height * 1350).toBeCloseTo(0.2 * 1920, 0)
+    expect(textBox.y + textBox.height / 2).toBeCloseTo(0.5, 3)
+  })
+
+  it('anchors boxes to the nearest edge', () => {
+    const reflowed = reflowSlide({
+      ...slide,
+      textBoxes: [
+        { ...slide.textBoxes[0], y: 0.05, height: 0.1 },
+        { ...slide.textBoxes[0], y: 0.85, height: 0.1 },
+      ],
+    }, { width: 1080, height: 1440 })
+    const [top, bottom] = reflowed.textBoxes
+
+    expect(top.y).toBeCloseTo(0.05, 3)
+    expect(bottom.y + bottom.height).toBeCloseTo(0.95, 3)
+    expect(top.fontSize).toBe(60)
+  })
+
+  it('shrinks text just enough for stacked boxes to stay apart', () => {
+    const reflowed = reflowSlide({
+      ...slide,
+      textBoxes: [
+        { ...slide.textBoxes[0], y: 0.25, height: 0.2 },
+        { ...slide.textBoxes[0], y: 0.45, height: 0.2 },
+        // Beside the others, so it does not limit them
+        { ...slide.textBoxes[0], x: 0.8, width: 0.15, y: 0.3, height: 0.3 },
+      ],
+    }, { width: 1080, height: 1350 })
+    const [first, second, beside] = reflowed.textBoxes
+
+    expect(first.fontSize).toBeLessThan(60)
+    expect(first.fontSize).toBe(second.fontSize)
+    expect(second.y).toBeCloseTo(first.y + first.height, 3)
+    expect(beside.fontSize).toBe(first.fontSize)
+    for (const textBox of reflowed.textBoxes) {
+      expect(textBox.y).toBeGreaterThanOrEqual(0)
+      expect(textBox.y + textBox.height).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('scales text with the canvas width', () => {
+    const reflowed = reflowSlide(slide, { width: 540, height: 960 })
+
+    expect(reflowed.textBoxes[0].fontSize).toBe(30)
+    expect(reflowed.textBoxes[0].paddingLeft).toBe(6)
+    expect(reflowed.textBoxes[0].height).toBeCloseTo(0.2, 3)
+  })
+
+  it('keeps full-bleed backgrounds covering the canvas', () => {
+    const reflowed = reflowSlide(slide, { width: 1080, height: 1350 })
+
+    expect(reflowed.backgroundLayers[0]).toBe(slide.backgroundLayers[0])
+    expect(reflowed.backgroundLayers[1].width).toBeLessThan(0.2)
+  })
+
+  it('leaves slides alone for the original preset', () => {
+    expect(applyExportPreset(slide, 'original')).toBe(slide)
+    expect(() => applyExportPreset(slide, 'unknown' as never)).toThrow('Unknown export preset')
+  })
+})
+
+describe('buildImagePdf', () => {
+  it('writes one page per image with a valid cross-reference table', () => {
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xd9])
+    const pdf = buildImagePdf([
+      { jpeg, width: 1080, height: 1350 },
+      { jpeg, width: 1080, height: 1350 },
+    ], { title: 'My (draft)' })
+    const text = pdf.toString('latin1')
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true)
+    expect(text).toContain('/Count 2')
+    expect(text).toContain('/MediaBox [0 0 810 1012.5]')
+    expect(text).toContain('/Title (My \\(draft\\))')
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1])
+    expect(text.slice(startxref, startxref + 4)).toBe('xref')
+
+    // Every xref entry points at the start of its object
+    const entries = text.slice(startxref).match(/^\d{10} 00000 n $/gm)!
+    expect(entries).toHaveLength(9)
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10))
+      expect(text.slice(offset, offset + 10)).toMatch(new RegExp(`^${index + 1} 0 obj`))
+    })
+  })
+
+  it('refuses to build an empty document', () => {
+    expect(() => buildImagePdf([])).toThrow('Cannot build a PDF without pages')
+  })
+})
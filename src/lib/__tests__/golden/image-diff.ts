@@ -0,0 +1,94 @@
+/**
+ * Image diff for golden-image tests
+ *
+ * Decodes both images to raw RGBA with sharp and counts pixels whose largest
+ * channel difference exceeds a tolerance. Renderers anti-alias glyph edges
+ * differently, so tests assert on the ratio of differing pixels rather than
+ * exact equality.
+ */
+
+import sharp from 'sharp'
+
+export interface ImageDiffOptions {
+  /** Per-channel difference (0-255) a pixel may have before it counts as changed */
+  tolerance?: number
+}
+
+export interface ImageDiffResult {
+  width: number
+  height: number
+  diffPixels: number
+  /** diffPixels / total pixels; 1 when the sizes differ */
+  diffRatio: number
+  sizeMismatch: boolean
+  /** PNG with changed pixels in red over a faded copy of the expected image */
+  diffImage: Buffer
+}
+
+const DEFAULT_TOLERANCE = 32
+
+async function decode(image: Buffer) {
+  const { data, info } = await sharp(image)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+export async function diffImages(
+  actual: Buffer,
+  expected: Buffer,
+  options: ImageDiffOptions = {}
+): Promise<ImageDiffResult> {
+  const { tolerance = DEFAULT_TOLERANCE } = options
+  const [a, e] = await Promise.all([decode(actual), decode(expected)])
+
+  if (a.width !== e.width || a.height !== e.height) {
+    return {
+      width: a.width,
+      height: a.height,
+      diffPixels: a.width * a.height,
+      diffRatio: 1,
+      sizeMismatch: true,
+      diffImage: actual,
+    }
+  }
+
+  const total = e.width * e.height
+  const out = Buffer.alloc(total * 4)
+  let diffPixels = 0
+
+  for (let i = 0; i < total * 4; i += 4) {
+    const delta = Math.max(
+      Math.abs(a.data[i] - e.data[i]),
+      Math.abs(a.data[i + 1] - e.data[i + 1]),
+      Math.abs(a.data[i + 2] - e.data[i + 2]),
+      Math.abs(a.data[i + 3] - e.data[i + 3])
+    )
+
+    if (delta > tolerance) {
+      diffPixels++
+      out[i] = 255
+      out[i + 1] = 0
+      out[i + 2] = 0
+      out[i + 3] = 255
+    } else {
+      const gray = Math.round((e.data[i] + e.data[i + 1] + e.data[i + 2]) / 3)
+      out[i] = out[i + 1] = out[i + 2] = 255 - Math.round((255 - gray) * 0.25)
+      out[i + 3] = 255
+    }
+  }
+
+  const diffImage = await sharp(out, { raw: { width: e.width, height: e.height, channels: 4 } })
+    .png()
+    .toBuffer()
+
+  return {
+    width: e.width,
+    height: e.height,
+    diffPixels,
+    diffRatio: diffPixels / total,
+    sizeMismatch: false,
+    diffImage,
+  }
+}
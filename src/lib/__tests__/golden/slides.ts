@@ -0,0 +1,161 @@
+/**
+ * Golden slide fixtures
+ *
+ * Representative slides covering the features where the slide renderers have
+ * drifted apart: gradients, blend modes, rotated and wrapped text, shadows,
+ * outlines and pill (blob) backgrounds. Only color and gradient backgrounds
+ * are used so the fixtures render without network access.
+ */
+
+import type { RemixSlideType, RemixTextBoxType, BackgroundLayerType } from '../../validations/remix-schema'
+
+// Half of 1080x1920 keeps the goldens small while staying 9:16
+const CANVAS = { width: 540, height: 960, unit: 'px' as const }
+
+// Every layer and text box has an id, as saved slides do, so the same fixture
+// satisfies both the Satori and the canvas export slide types
+export type GoldenSlideData = RemixSlideType & {
+  id: string
+  backgroundLayers: Array<BackgroundLayerType & { id: string }>
+  textBoxes: Array<RemixTextBoxType & { id: string }>
+}
+
+export interface GoldenSlide {
+  name: string
+  slide: GoldenSlideData
+}
+
+const layer = (overrides: Partial<BackgroundLayerType>): BackgroundLayerType => ({
+  type: 'color',
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  rotation: 0,
+  fitMode: 'cover',
+  opacity: 1,
+  blendMode: 'normal',
+  zIndex: 1,
+  ...overrides,
+} as BackgroundLayerType)
+
+// Editor-only fields (blob background) are not part of the schema type
+const textBox = (overrides: Partial<RemixTextBoxType> & Record<string, unknown>): RemixTextBoxType => ({
+  text: 'Sample text',
+  x: 0.1,
+  y: 0.4,
+  width: 0.8,
+  height: 0.2,
+  fontSize: 36,
+  fontFamily: 'Poppins',
+  fontWeight: '600',
+  fontStyle: 'normal',
+  textDecoration: 'none',
+  color: '#ffffff',
+  textAlign: 'center',
+  zIndex: 10,
+  textWrap: 'wrap',
+  enableShadow: false,
+  shadowColor: '#000000',
+  shadowBlur: 0,
+  shadowOffsetX: 0,
+  shadowOffsetY: 0,
+  outlineWidth: 0,
+  outlineColor: '#000000',
+  backgroundColor: '#ffffff',
+  backgroundOpacity: 0,
+  borderRadius: 0,
+  paddingTop: 8,
+  paddingRight: 12,
+  paddingBottom: 8,
+  paddingLeft: 12,
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  wordSpacing: 0,
+  transform: { rotation: 0, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0 },
+  lockAspectRatio: false,
+  ...overrides,
+} as RemixTextBoxType)
+
+const slide = (
+  name: string,
+  backgroundLayers: BackgroundLayerType[],
+  textBoxes: RemixTextBoxType[]
+): GoldenSlide => ({
+  name,
+  slide: {
+    id: name,
+    displayOrder: 0,
+    canvas: CANVAS,
+    viewport: { zoom: 1, offsetX: 0, offsetY: 0 },
+    backgroundLayers: backgroundLayers.map((backgroundLayer, index) => ({ ...backgroundLayer, id: `${name}-layer-${index}` })),
+    originalImageIndex: 0,
+    paraphrasedText: textBoxes.map(box => box.text).join('\n') || name,
+    textBoxes: textBoxes.map((box, index) => ({ ...box, id: `${name}-text-${index}` })),
+  },
+})
+
+export const GOLDEN_SLIDES: GoldenSlide[] = [
+  slide(
+    'linear-gradient',
+    [layer({ type: 'gradient', gradient: { type: 'linear', colors: ['#ff0050', '#00f2ea'], angle: 135 } })],
+    [textBox({ text: 'Linear gradient', y: 0.45, height: 0.1 })]
+  ),
+  slide(
+    'radial-gradient',
+    [layer({ type: 'gradient', gradient: { type: 'radial', colors: ['#fde68a', '#7c3aed', '#111827'] } })],
+    [textBox({ text: 'Radial gradient', y: 0.45, height: 0.1, color: '#111827' })]
+  ),
+  slide(
+    'blend-multiply',
+    [
+      layer({ color: '#38bdf8' }),
+      layer({ type: 'gradient', gradient: { type: 'linear', colors: ['#ffffff', '#f97316'], angle: 90 }, blendMode: 'multiply', opacity: 0.8, zIndex: 2 }),
+    ],
+    []
+  ),
+  slide(
+    'rotated-text',
+    [layer({ color: '#111827' })],
+    [textBox({ text: 'Rotated twelve degrees', fontSize: 40, fontWeight: '700', transform: { rotation: -12, scaleX: 1, scaleY: 1, skewX: 0, skewY: 0 } })]
+  ),
+  slide(
+    'wrapped-text',
+    [layer({ color: '#ffffff' })],
+    [
+      textBox({
+        text: 'A long hook that has to wrap across several lines so every renderer breaks it at the same words',
+        color: '#111827',
+        textAlign: 'left',
+        fontWeight: '400',
+        fontSize: 32,
+        y: 0.3,
+        height: 0.4,
+      }),
+    ]
+  ),
+  slide(
+    'shadow-outline',
+    [layer({ color: '#f472b6' })],
+    [
+      textBox({ text: 'Drop shadow', y: 0.3, height: 0.1, enableShadow: true, shadowColor: '#000000', shadowBlur: 8, shadowOffsetX: 4, shadowOffsetY: 4 }),
+      textBox({ text: 'Outlined', y: 0.55, height: 0.1, fontSize: 48, fontWeight: '800', outlineWidth: 3, outlineColor: '#000000' }),
+    ]
+  ),
+  slide(
+    'pill-background',
+    [layer({ type: 'gradient', gradient: { type: 'linear', colors: ['#0f172a', '#334155'], angle: 180 } })],
+    [
+      textBox({
+        text: 'Pill background\nover two lines',
+        color: '#111827',
+        fontWeight: '700',
+        enableBlobBackground: true,
+        blobColor: '#ffffff',
+        blobOpacity: 1,
+        blobSpread: 16,
+        blobRoundness: 0.6,
+      }),
+    ]
+  ),
+]
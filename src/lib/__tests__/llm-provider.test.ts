@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { z } from 'zod'
+
+const { recordSafe } = vi.hoisted(() => ({ recordSafe: vi.fn() }))
+vi.mock('../ai-usage-service', () => ({ aiUsageService: { recordSafe } }))
+
+import {
+  generateJSON,
+  generateText,
+  streamText,
+  getFixtureProvider,
+  getModelForFeature,
+  getProviderForFeature,
+  setProvider,
+  parseJSONResponse,
+  synthesizeFromSchema,
+} from '../llm'
+
+describe('LLM provider layer', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'fixture'
+    getFixtureProvider().reset()
+  })
+
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER
+    delete process.env.LLM_PROVIDER_OCR
+    delete process.env.LLM_MODEL_OCR
+  })
+
+  describe('Provider and model resolution', () => {
+    it('should use the per-feature provider override before the global one', () => {
+      process.env.LLM_PROVIDER = 'gemini'
+      process.env.LLM_PROVIDER_OCR = 'fixture'
+
+      expect(getProviderForFeature('ocr').name).toBe('fixture')
+      expect(getProviderForFeature('paraphrasing').name).toBe('gemini')
+    })
+
+    it('should use the per-feature model override when set', () => {
+      expect(getModelForFeature('ocr')).toBe('gemini-2.5-flash-lite')
+
+      process.env.LLM_MODEL_OCR = 'gemini-2.5-pro'
+      expect(getModelForFeature('ocr')).toBe('gemini-2.5-pro')
+    })
+  })
+
+  describe('Fixture provider', () => {
+    it('should return registered fixtures as parsed JSON', async () => {
+      getFixtureProvider().register('topic-suggest', [{ topic: 'a', angle: 'b', description: 'c' }])
+
+      const result = await generateJSON({ feature: 'topic-suggest', prompt: 'suggest' })
+
+      expect(result.provider).toBe('fixture')
+      expect(result.data).toEqual([{ topic: 'a', angle: 'b', description: 'c' }])
+    })
+
+    it('should pass the request to fixture functions', async () => {
+      getFixtureProvider().register('minimal-paraphrase', (request) => `echo: ${request.prompt}`)
+
+      const result = await generateText({ feature: 'minimal-paraphrase', prompt: 'hello' })
+
+      expect(result.text).toBe('echo: hello')
+    })
+
+    it('should synthesize a schema-shaped response when no fixture exists', async () => {
+      const result = await generateJSON({
+        feature: 'face-detection',
+        prompt: 'face?',
+        schema: {
+          type: 'OBJECT',
+          properties: {
+            hasFace: { type: 'BOOLEAN' },
+            confidence: { type: 'NUMBER' },
+          },
+        },
+      })
+
+      expect(result.data).toEqual({ hasFace: false, confidence: 0 })
+    })
+
+    it('should validate fixtures with the provided zod schema', async () => {
+      getFixtureProvider().register('coherence-analysis', { issues: 'not-an-array' })
+
+      await expect(
+        generateJSON(
+          { feature: 'coherence-analysis', prompt: 'check' },
+          z.object({ issues: z.array(z.string()) })
+        )
+      ).rejects.toThrow('Response does not match expected structure')
+    })
+
+    it('should stream text chunks followed by usage', async () => {
+      getFixtureProvider().register('post-analysis', 'three word answer')
+
+      const chunks = []
+      for await (const chunk of streamText({ feature: 'post-analysis', prompt: 'analyze' })) {
+        chunks.push(chunk)
+      }
+
+      const text = chunks.filter(c => c.type === 'text').map(c => (c as { text: string }).text).join('')
+      expect(text).toBe('three word answer')
+      expect(chunks[chunks.length - 1].type).toBe('usage')
+    })
+
+    it('should replay tool call fixtures only when tools are offered', async () => {
+      getFixtureProvider().register('post-analysis', { toolCalls: [{ name: 'list_top_hooks', args: { limit: 3 } }] })
+      const tools = [{ name: 'list_top_hooks', description: 'Top hooks', parameters: { type: 'OBJECT' } }]
+
+      const chunks = []
+      for await (const chunk of streamText({ feature: 'post-analysis', prompt: 'hooks?', tools })) {
+        chunks.push(chunk)
+      }
+      const forced = []
+      for await (const chunk of streamText({ feature: 'post-analysis', prompt: 'hooks?', tools, toolChoice: 'none' })) {
+        forced.push(chunk)
+      }
+
+      expect(chunks[0]).toEqual({ type: 'tool_call', call: { name: 'list_top_hooks', args: { limit: 3 } } })
+      expect(forced.some(chunk => chunk.type === 'tool_call')).toBe(false)
+    })
+  })
+
+  describe('Usage ledger', () => {
+    const gemini = getProviderForFeature('ocr')
+
+    afterEach(() => {
+      setProvider('gemini', gemini)
+      recordSafe.mockReset()
+    })
+
+    it('should record provider calls with their entity but not fixture calls', async () => {
+      setProvider('gemini', {
+        name: 'gemini',
+        generateText: async () => ({ text: 'ok', model: 'gemini-2.5-flash-lite', provider: 'gemini', usage: { inputTokens: 120, outputTokens: 30 } }),
+        generateJSONText: async () => ({ text: '{}', model: 'gemini-2.5-flash-lite', provider: 'gemini' }),
+        async *streamText() {
+          yield { type: 'text', text: 'hi' }
+          yield { type: 'usage', usage: { inputTokens: 5, outputTokens: 2 } }
+        },
+      })
+
+      await generateText({ feature: 'ocr', prompt: 'x' })
+      process.env.LLM_PROVIDER = 'gemini'
+      await generateText({ feature: 'ocr', prompt: 'x', entity: { type: 'tiktokPost', id: 'post-1' } })
+      await generateJSON({ feature: 'ocr', prompt: 'x' })
+      for await (const chunk of streamText({ feature: 'post-analysis', prompt: 'x' })) void chunk
+
+      expect(recordSafe.mock.calls.map(([usage]) => usage)).toEqual([
+        {
+          feature: 'ocr',
+          provider: 'gemini',
+          model: 'gemini-2.5-flash-lite',
+          inputTokens: 120,
+          outputTokens: 30,
+          entityType: 'tiktokPost',
+          entityId: 'post-1',
+        },
+        {
+          feature: 'post-analysis',
+          provider: 'gemini',
+          model: 'gemini-2.5-flash',
+          inputTokens: 5,
+          outputTokens: 2,
+          entityType: undefined,
+          entityId: undefined,
+        },
+      ])
+    })
+  })
+
+  describe('synthesizeFromSchema', () => {
+    it('should pick the first enum value and one array item', () => {
+      const value = synthesizeFromSchema({
+        type: 'object',
+        properties: {
+          slides: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                slideType: { type: 'string', enum: ['hook', 'content', 'cta'] },
+                ocrText: { type: 'string' },
+              },
+            },
+          },
+        },
+      })
+
+      expect(value).toEqual({ slides: [{ slideType: 'hook', ocrText: '<ocrText>' }] })
+    })
+  })
+
+  describe('parseJSONResponse', () => {
+    it('should strip markdown code fences', () => {
+      expect(parseJSONResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+    })
+
+    it('should extract JSON embedded in prose', () => {
+      expect(parseJSONResponse('Here you go: [{"a": 1}] hope it helps')).toEqual([{ a: 1 }])
+    })
+
+    it('should throw on empty responses', () => {
+      expect(() => parseJSONResponse('   ')).toThrow('Empty response text after cleaning')
+    })
+  })
+})
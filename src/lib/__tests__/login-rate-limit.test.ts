@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { counters, redisCache } = vi.hoisted(() => {
+  const counters = new Map<string, number>()
+  return {
+    counters,
+    redisCache: {
+      incrementCounter: vi.fn(async (key: string) => {
+        counters.set(key, (counters.get(key) ?? 0) + 1)
+        return { count: counters.get(key)!, ttlSeconds: 900 }
+      }),
+      getCounter: vi.fn(async (key: string) => ({
+        count: counters.get(key) ?? 0,
+        ttlSeconds: counters.has(key) ? 600 : 0,
+      })),
+      deleteCounter: vi.fn(async (key: string) => {
+        counters.delete(key)
+      }),
+    },
+  }
+})
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+vi.mock('../redis-cache', () => redisCache)
+
+import {
+  clearFailedLogins,
+  getClientIp,
+  getLoginRetryAfter,
+  LOGIN_ATTEMPT_LIMITS,
+  recordFailedLogin,
+} from '../login-rate-limit'
+
+const failTimes = async (times: number, email: string, ip: string) => {
+  for (let i = 0; i < times; i++) await recordFailedLogin(email, ip)
+}
+
+describe('getClientIp', () => {
+  it('should take the address appended by the trusted proxy, then X-Real-IP', () => {
+    // The client spoofed 198.51.100.9; the proxy appended the real 203.0.113.7
+    const spoofed = new Headers({ 'x-forwarded-for': '198.51.100.9, 203.0.113.7' })
+    expect(getClientIp(spoofed)).toBe('203.0.113.7')
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '198.51.100.9, 203.0.113.7, 10.0.0.1' }), 2)).toBe('203.0.113.7')
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }), 2)).toBe('203.0.113.7')
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8')
+    expect(getClientIp(new Headers())).toBe('unknown')
+  })
+})
+
+describe('login rate limit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    counters.clear()
+  })
+
+  it('should block an email once its failures reach the limit, whatever the case', async () => {
+    await failTimes(LOGIN_ATTEMPT_LIMITS.email - 1, 'Ana@Example.com', '203.0.113.7')
+    expect(await getLoginRetryAfter('ana@example.com', '198.51.100.1')).toBeNull()
+
+    await recordFailedLogin('ana@example.com ', '203.0.113.7')
+    expect(await getLoginRetryAfter('ANA@example.com', '198.51.100.1')).toBe(600)
+    expect(await getLoginRetryAfter('bob@example.com', '198.51.100.1')).toBeNull()
+  })
+
+  it('should block an IP across emails once its failures reach the limit', async () => {
+    for (let i = 0; i < LOGIN_ATTEMPT_LIMITS.ip; i++) {
+      await recordFailedLogin(`user${i}@example.com`, '203.0.113.7')
+    }
+
+    expect(await getLoginRetryAfter('new@example.com', '203.0.113.7')).toBe(600)
+    expect(await getLoginRetryAfter('new@example.com', '198.51.100.1')).toBeNull()
+  })
+
+  it('should clear the email count after a successful sign-in', async () => {
+    await failTimes(LOGIN_ATTEMPT_LIMITS.email, 'ana@example.com', '203.0.113.7')
+    await clearFailedLogins('ana@example.com')
+
+    expect(await getLoginRetryAfter('ana@example.com', '198.51.100.1')).toBeNull()
+  })
+
+  it('should let sign-ins through when Redis is unavailable', async () => {
+    redisCache.getCounter.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    redisCache.incrementCounter.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+    await expect(recordFailedLogin('ana@example.com', '203.0.113.7')).resolves.toBeUndefined()
+    expect(await getLoginRetryAfter('ana@example.com', '203.0.113.7')).toBeNull()
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  resolveMonitoringSettings,
+  isWithinActiveHours,
+  computeRecentViewVelocity,
+  computeNextMonitoringRun,
+  getEffectiveIntervalHours,
+  type MonitoringScheduleFields,
+  type MonitoringSettings,
+} from '../monitoring-schedule'
+
+const empty: MonitoringScheduleFields = {
+  monitoringIntervalHours: null,
+  monitoringActiveStart: null,
+  monitoringActiveEnd: null,
+  monitoringTimezone: null,
+  monitoringAdaptive: null,
+}
+
+const settings = (overrides: Partial<MonitoringSettings> = {}): MonitoringSettings => ({
+  intervalHours: 24,
+  activeStart: null,
+  activeEnd: null,
+  timezone: 'UTC',
+  adaptive: false,
+  ...overrides,
+})
+
+describe('monitoring schedule', () => {
+  it('resolves profile overrides before group defaults', () => {
+    const resolved = resolveMonitoringSettings(
+      { ...empty, monitoringIntervalHours: 6 },
+      { ...empty, monitoringIntervalHours: 12, monitoringActiveStart: 8, monitoringActiveEnd: 20, monitoringAdaptive: true }
+    )
+
+    expect(resolved).toEqual({
+      intervalHours: 6,
+      activeStart: 8,
+      activeEnd: 20,
+      timezone: 'UTC',
+      adaptive: true,
+    })
+    expect(resolveMonitoringSettings(empty, null).intervalHours).toBe(24)
+  })
+
+  it('handles active windows that wrap past midnight', () => {
+    const night = settings({ activeStart: 22, activeEnd: 2 })
+
+    expect(isWithinActiveHours(new Date('2025-01-01T23:00:00Z'), night)).toBe(true)
+    expect(isWithinActiveHours(new Date('2025-01-01T01:30:00Z'), night)).toBe(true)
+    expect(isWithinActiveHours(new Date('2025-01-01T12:00:00Z'), night)).toBe(false)
+  })
+
+  it('pushes the next run to the start of the active window', () => {
+    const next = computeNextMonitoringRun(
+      settings({ intervalHours: 6, activeStart: 8, activeEnd: 18 }),
+      { now: new Date('2025-01-01T16:30:00Z') }
+    )
+
+    expect(next.toISOString()).toBe('2025-01-02T08:00:00.000Z')
+  })
+
+  it('respects the active window timezone', () => {
+    // 08:00 in Jakarta (UTC+7) is 01:00 UTC
+    const next = computeNextMonitoringRun(
+      settings({ intervalHours: 1, activeStart: 8, activeEnd: 18, timezone: 'Asia/Jakarta' }),
+      { now: new Date('2025-01-01T12:00:00Z') }
+    )
+
+    expect(next.toISOString()).toBe('2025-01-02T01:00:00.000Z')
+  })
+
+  it('shortens the interval for fast-growing posts when adaptive', () => {
+    const now = new Date('2025-01-01T12:00:00Z')
+    const velocity = computeRecentViewVelocity([
+      { viewCount: BigInt(60000), publishedAt: new Date('2025-01-01T02:00:00Z') },
+      { viewCount: BigInt(900000), publishedAt: new Date('2024-12-20T00:00:00Z') }, // outside window
+    ], now)
+
+    expect(velocity).toBe(6000)
+    expect(getEffectiveIntervalHours(settings({ adaptive: true }), velocity)).toBe(6)
+    expect(getEffectiveIntervalHours(settings({ adaptive: false }), velocity)).toBe(24)
+    expect(getEffectiveIntervalHours(settings({ intervalHours: 2, adaptive: true }), velocity)).toBe(1)
+  })
+})
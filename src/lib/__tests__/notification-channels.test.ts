@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import net from 'net'
+import {
+  SECRET_MASK,
+  maskChannelConfig,
+  mergeChannelConfig,
+  parseChannelConfig,
+  signWebhookPayload,
+} from '../notifications'
+import { buildMimeMessage, sendSmtpMail } from '../notifications/smtp-client'
+
+// A plaintext relay that never offers STARTTLS and records the commands it gets
+async function startPlainSmtpServer() {
+  const commands: string[] = []
+  const server = net.createServer(socket => {
+    socket.write('220 test ESMTP\r\n')
+    let buffer = ''
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n')
+        else if (line.startsWith('AUTH')) socket.write('235 OK\r\n')
+        else if (line === 'DATA') socket.write('354 go\r\n')
+        else if (line === '.') socket.write('250 queued\r\n')
+        else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else if (/^(MAIL|RCPT)/.test(line)) socket.write('250 OK\r\n')
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const port = (server.address() as net.AddressInfo).port
+  return { port, commands, close: () => new Promise(resolve => server.close(resolve)) }
+}
+
+describe('notification channels', () => {
+  it('signs webhook payloads over the timestamp and raw body', () => {
+    const secret = 'a-very-secret-signing-key'
+    const body = JSON.stringify({ event: 'notification' })
+    const expected = createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex')
+
+    expect(signWebhookPayload(secret, '1700000000', body)).toBe(`sha256=${expected}`)
+    expect(signWebhookPayload(secret, '1700000001', body)).not.toBe(`sha256=${expected}`)
+  })
+
+  it('masks secrets and keeps them when the masked value is sent back', () => {
+    const stored = { botToken: '123:abc', chatId: '-100' }
+
+    const masked = maskChannelConfig('TELEGRAM', stored)
+    expect(masked).toEqual({ botToken: SECRET_MASK, chatId: '-100' })
+
+    const merged = mergeChannelConfig('TELEGRAM', stored, { ...masked, chatId: '-200' })
+    expect(merged).toEqual({ botToken: '123:abc', chatId: '-200' })
+  })
+
+  it('validates config per channel type', () => {
+    expect(() => parseChannelConfig('WEBHOOK', { url: 'https://example.com', secret: 'short' }))
+      .toThrow(/Invalid webhook config: secret/)
+
+    expect(parseChannelConfig('EMAIL', { host: 'smtp.example.com', from: 'a@example.com', to: ['b@example.com'] }))
+      .toMatchObject({ port: 587, secure: false })
+  })
+
+  it('builds a multipart email with encoded subject', () => {
+    const mime = buildMimeMessage({
+      from: 'ViralSense <alerts@example.com>',
+      to: ['team@example.com'],
+      subject: '🔥 High views',
+      text: 'plain',
+      html: '<p>html</p>',
+    })
+
+    expect(mime).toContain('Subject: =?UTF-8?B?')
+    expect(mime).toContain('Content-Type: text/plain; charset=utf-8')
+    expect(mime).toContain('Content-Type: text/html; charset=utf-8')
+    expect(mime).toMatch(/@example\.com>/)
+  })
+
+  it('refuses to send SMTP credentials without TLS unless allowed', async () => {
+    const server = await startPlainSmtpServer()
+    const mail = {
+      host: '127.0.0.1',
+      port: server.port,
+      secure: false,
+      user: 'alerts',
+      password: 'hunter2',
+      from: 'alerts@example.com',
+      to: ['team@example.com'],
+      subject: 'Test',
+      text: 'plain',
+    }
+
+    try {
+      await expect(sendSmtpMail(mail)).rejects.toThrow(/refusing to send credentials without TLS/)
+      expect(server.commands.some(command => command.startsWith('AUTH'))).toBe(false)
+
+      await sendSmtpMail({ ...mail, allowInsecureAuth: true })
+      expect(server.commands.some(command => command.startsWith('AUTH PLAIN'))).toBe(true)
+    } finally {
+      await server.close()
+    }
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { buildEvalReport, scoreCase, textSimilarity, type EvalLabels } from '../ocr-eval-metrics'
+
+const expected: EvalLabels = {
+  category: 'Skincare',
+  slides: [
+    { imageIndex: 0, slideType: 'hook', ocrText: 'things i wish i knew' },
+    { imageIndex: 1, slideType: 'content', ocrText: 'use spf daily' },
+    { imageIndex: 2, slideType: 'cta', ocrText: 'follow for more' }
+  ]
+}
+
+describe('textSimilarity', () => {
+  it('should ignore case and whitespace differences', () => {
+    expect(textSimilarity('Use SPF\n daily', 'use spf daily')).toBe(1)
+    expect(textSimilarity('', '')).toBe(1)
+  })
+
+  it('should scale with the edit distance', () => {
+    expect(textSimilarity('abcd', 'abcx')).toBe(0.75)
+    expect(textSimilarity('abc', '')).toBe(0)
+  })
+})
+
+describe('scoreCase', () => {
+  it('should match slides by image index and count missing slides as wrong', () => {
+    const score = scoreCase(expected, {
+      category: 'skincare',
+      slides: [
+        { imageIndex: 1, slideType: 'content', ocrText: 'use spf daily' },
+        { imageIndex: 0, slideType: 'hook', ocrText: 'things i wish i knew' },
+        { imageIndex: 5, slideType: 'cta', ocrText: 'extra slide' }
+      ]
+    })
+
+    expect(score.slides.map(slide => slide.predictedType)).toEqual(['hook', 'content', null])
+    expect(score.slideAccuracy).toBeCloseTo(2 / 3)
+    expect(score.textSimilarity).toBeCloseTo(2 / 3)
+    expect(score.categoryMatch).toBe(true)
+  })
+
+  it('should skip category scoring without an expected category', () => {
+    const score = scoreCase({ ...expected, category: null }, { category: 'Fitness', slides: [] })
+    expect(score.categoryMatch).toBeNull()
+  })
+})
+
+describe('buildEvalReport', () => {
+  it('should pool slides into a confusion matrix and per-class metrics', () => {
+    const perfect = scoreCase(expected, expected)
+    const confused = scoreCase(expected, {
+      category: 'Fitness',
+      slides: [
+        { imageIndex: 0, slideType: 'hook', ocrText: 'things i wish i knew' },
+        { imageIndex: 1, slideType: 'cta', ocrText: 'use spf daily' },
+        { imageIndex: 2, slideType: 'content', ocrText: 'follow for more' }
+      ]
+    })
+
+    const report = buildEvalReport([perfect, confused], 1)
+
+    expect(report.cases).toBe(2)
+    expect(report.failedCases).toBe(1)
+    expect(report.slides).toBe(6)
+    expect(report.slideAccuracy).toBeCloseTo(4 / 6)
+    expect(report.categoryAccuracy).toBe(0.5)
+    expect(report.textSimilarity).toBe(1)
+    expect(report.confusionMatrix.content).toEqual({ hook: 0, content: 1, cta: 1, missing: 0 })
+    expect(report.perClass.hook).toEqual({ precision: 1, recall: 1, f1: 1, support: 2 })
+    expect(report.perClass.cta.precision).toBe(0.5)
+    expect(report.perClass.cta.recall).toBe(0.5)
+  })
+
+  it('should report no category accuracy when nothing was labeled', () => {
+    expect(buildEvalReport([]).categoryAccuracy).toBeNull()
+    expect(buildEvalReport([]).slideAccuracy).toBe(0)
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+import { calculateOutlierScores, estimateViewsAt } from '../outlier-service'
+
+const publishedAt = new Date('2025-01-01T00:00:00Z')
+const hoursAfter = (hours: number) => new Date(publishedAt.getTime() + hours * 60 * 60 * 1000)
+
+const post = (day: number, viewCount: number, viewsFirst24h: number | null = null, viewsFirst48h: number | null = null) => ({
+  id: `post-${day}`,
+  viewCount,
+  publishedAt: new Date(Date.UTC(2025, 0, day)),
+  viewsFirst24h,
+  viewsFirst48h,
+})
+
+// Every post above has matured by then
+const later = new Date('2025-03-01T00:00:00Z')
+
+describe('estimateViewsAt', () => {
+  it('should interpolate between the snapshots around the mark', () => {
+    const snapshots = [
+      { viewCount: BigInt(1000), recordedAt: hoursAfter(12) },
+      { viewCount: BigInt(5000), recordedAt: hoursAfter(30) },
+      { viewCount: BigInt(8000), recordedAt: hoursAfter(54) },
+    ]
+
+    expect(estimateViewsAt(snapshots, publishedAt, 24)).toBe(3667)
+    expect(estimateViewsAt(snapshots, publishedAt, 48)).toBe(7250)
+  })
+
+  it('should wait for a snapshot close enough past the mark', () => {
+    expect(estimateViewsAt([{ viewCount: 1000, recordedAt: hoursAfter(12) }], publishedAt, 24)).toBeNull()
+    expect(estimateViewsAt([{ viewCount: 90000, recordedAt: hoursAfter(240) }], publishedAt, 24)).toBeNull()
+  })
+})
+
+describe('calculateOutlierScores', () => {
+  it('should compare each post to the median of the author\'s previous posts', () => {
+    const scores = calculateOutlierScores([
+      post(1, 1000, 400, 500),
+      post(2, 2000, 500, 800),
+      post(3, 3000, 600, 900),
+      post(4, 30000, 6000, 8000),
+    ], later)
+
+    expect(scores.get('post-4')).toEqual({ outlierScore: 15, velocityScore: 12, velocityScore48h: 10 })
+  })
+
+  it('should fall back to the earliest posts for the author\'s first posts', () => {
+    const scores = calculateOutlierScores([post(1, 500), post(2, 1000), post(3, 2000), post(4, 3000)], later)
+
+    // Baseline for the first post is posts 2-4 (median 2000)
+    expect(scores.get('post-1')).toEqual({ outlierScore: 0.25, velocityScore: null, velocityScore48h: null })
+    expect(calculateOutlierScores([post(1, 500), post(2, 1000)], later).get('post-1'))
+      .toEqual({ outlierScore: null, velocityScore: null, velocityScore48h: null })
+  })
+
+  it('should only compare lifetime views once a post and its baseline have matured', () => {
+    // Posts 9 and 10 are two days and one day old
+    const now = new Date(Date.UTC(2025, 0, 11))
+    const scores = calculateOutlierScores([
+      post(1, 10000, 400),
+      post(2, 12000, 500),
+      post(3, 14000, 600),
+      post(9, 40000, 500),
+      post(10, 3000, 1500),
+    ], now)
+
+    // Young posts get no lifetime comparison, only early velocity
+    expect(scores.get('post-10')).toMatchObject({ outlierScore: null, velocityScore: 3 })
+    // ...and are left out of the baseline the author's first posts fall back to
+    expect(calculateOutlierScores([post(1, 10000), post(2, 12000), post(3, 14000), post(9, 100), post(10, 100)], now)
+      .get('post-1')?.outlierScore).toBeNull()
+  })
+})
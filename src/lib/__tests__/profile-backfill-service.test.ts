@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { prisma, scrapeProfileVideos, bulkUpsert } = vi.hoisted(() => ({
+  prisma: {
+    profileBackfill: { findUnique: vi.fn(), update: vi.fn(), count: vi.fn() },
+    tiktokPost: { count: vi.fn() },
+  },
+  scrapeProfileVideos: vi.fn(),
+  bulkUpsert: vi.fn(),
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+vi.mock('../tiktok-scraping', () => ({ scrapeProfileVideos }))
+vi.mock('../tiktok-bulk-upsert-service', () => ({
+  TikTokBulkUpsertService: vi.fn(() => ({ bulkUpsert })),
+}))
+vi.mock('../queue/profile-backfill-queue', () => ({ profileBackfillQueue: { addBackfillJob: vi.fn() } }))
+
+import { getBackfillStopReason, profileBackfillService } from '../profile-backfill-service'
+
+const progress = { pagesScraped: 1, pageBudget: 10, newPosts: 0, historyCovered: false }
+const page = { postCount: 10, knownPostCount: 0, hasMore: true, maxCursor: '100' }
+
+const scrapedPage = (ids: string[], maxCursor: string, hasMore = true) => ({
+  posts: ids.map(id => ({ tiktokId: id, images: [], hashtags: [], mentions: [], publishedAt: new Date('2024-01-01') })),
+  hasMore,
+  maxCursor,
+})
+
+describe('getBackfillStopReason', () => {
+  it('stops at the end of the history', () => {
+    expect(getBackfillStopReason({ ...page, hasMore: false }, progress)).toBe('end-of-history')
+    expect(getBackfillStopReason({ ...page, maxCursor: undefined }, progress)).toBe('end-of-history')
+  })
+
+  it('walks past the known newest pages until it has found new posts', () => {
+    const allKnown = { ...page, knownPostCount: 10 }
+
+    expect(getBackfillStopReason(allKnown, progress)).toBeNull()
+    expect(getBackfillStopReason(allKnown, { ...progress, newPosts: 5 })).toBe('reached-existing')
+    expect(getBackfillStopReason(allKnown, { ...progress, historyCovered: true })).toBe('reached-existing')
+  })
+
+  it('pauses when the page budget is used up', () => {
+    expect(getBackfillStopReason(page, { ...progress, pagesScraped: 10 })).toBe('budget-exhausted')
+  })
+})
+
+describe('processBackfill', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma.profileBackfill.count.mockResolvedValue(0)
+  })
+
+  it('resumes from the checkpoint cursor and saves one after every page', async () => {
+    prisma.profileBackfill.findUnique.mockResolvedValue({
+      id: 'bf-1',
+      status: 'FAILED',
+      maxCursor: '500',
+      pageBudget: 10,
+      pagesScraped: 3,
+      postsScraped: 30,
+      newPosts: 30,
+      oldestPostAt: null,
+      startedAt: new Date(),
+      profile: { id: 'p-1', handle: 'competitor', nickname: null, bio: null, verified: false },
+    })
+    scrapeProfileVideos
+      .mockResolvedValueOnce(scrapedPage(['a', 'b'], '400'))
+      .mockResolvedValueOnce(scrapedPage(['cc', 'dd'], '300'))
+    // First page is new, second page is already stored
+    prisma.tiktokPost.count.mockResolvedValueOnce(0).mockResolvedValueOnce(2)
+
+    const result = await profileBackfillService.processBackfill('bf-1')
+
+    expect(scrapeProfileVideos.mock.calls.map(call => call[1])).toEqual(['500', '400'])
+    expect(result).toMatchObject({ status: 'COMPLETED', stopReason: 'reached-existing', pagesScraped: 5, newPosts: 32 })
+    expect(bulkUpsert).toHaveBeenCalledWith(expect.anything(), expect.anything(), { skipAlerts: true })
+
+    const checkpoints = prisma.profileBackfill.update.mock.calls
+      .map(([{ data }]) => data)
+      .filter(data => 'maxCursor' in data)
+    expect(checkpoints.map(data => data.maxCursor)).toEqual(['400', '300'])
+  }, 10000)
+
+  it('keeps the checkpoint and reports the error when a page fails', async () => {
+    prisma.profileBackfill.findUnique.mockResolvedValue({
+      id: 'bf-2',
+      status: 'PENDING',
+      maxCursor: '200',
+      pageBudget: 10,
+      pagesScraped: 1,
+      postsScraped: 10,
+      newPosts: 10,
+      oldestPostAt: null,
+      startedAt: null,
+      profile: { id: 'p-1', handle: 'competitor', nickname: null, bio: null, verified: false },
+    })
+    scrapeProfileVideos.mockRejectedValue(new Error('API request failed with status 429: Too Many Requests'))
+
+    await expect(profileBackfillService.processBackfill('bf-2', { isFinalAttempt: true })).rejects.toThrow('429')
+
+    const lastUpdate = prisma.profileBackfill.update.mock.calls.at(-1)![0].data
+    expect(lastUpdate).toEqual({ status: 'FAILED', error: 'API request failed with status 429: Too Many Requests' })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PROMPT_DEFAULTS,
+  PROMPT_KEYS,
+  diffLines,
+  getTemplateVariables,
+  renderTemplate,
+  validateTemplate
+} from '../prompts'
+
+describe('renderTemplate', () => {
+  it('should fill variables and leave missing ones empty', () => {
+    expect(renderTemplate('Hi {{name}}, {{count}} slides{{missing}}', { name: 'Ana', count: 0 }))
+      .toBe('Hi Ana, 0 slides')
+  })
+
+  it('should include sections when set and inverted sections when not', () => {
+    const template = '{{#product}}Promote {{product}}{{/product}}{{^product}}No product{{/product}}'
+
+    expect(renderTemplate(template, { product: 'ContentIQ' })).toBe('Promote ContentIQ')
+    expect(renderTemplate(template, { product: '' })).toBe('No product')
+    expect(renderTemplate(template, {})).toBe('No product')
+  })
+
+  it('should not parse placeholders inside inserted values', () => {
+    expect(renderTemplate('{{text}}', { text: '{{secret}}', secret: 'leaked' })).toBe('{{secret}}')
+  })
+
+  it('should reject unclosed and mismatched sections', () => {
+    expect(() => renderTemplate('{{#a}}text', {})).toThrow('Unclosed section {{#a}}')
+    expect(() => renderTemplate('{{#a}}text{{/b}}', {})).toThrow('expected {{/a}}')
+  })
+})
+
+describe('validateTemplate', () => {
+  it('should report unknown variables and syntax errors', () => {
+    expect(getTemplateVariables('{{#a}}{{b}}{{/a}} {{a}}')).toEqual(['a', 'b'])
+    expect(validateTemplate('{{a}} {{typo}}', ['a'])).toEqual(['Unknown variable {{typo}}'])
+    expect(validateTemplate('{{/a}}', ['a'])).toEqual(['Unexpected {{/a}}'])
+    expect(validateTemplate('  ', [])).toEqual(['Template is empty'])
+  })
+
+  it('should accept every built-in template', () => {
+    for (const key of PROMPT_KEYS) {
+      const { template, variables } = PROMPT_DEFAULTS[key]
+      expect(validateTemplate(template, Object.keys(variables)), key).toEqual([])
+    }
+  })
+})
+
+describe('diffLines', () => {
+  it('should mark added and removed lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' }
+    ])
+  })
+})
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { prisma, publishQueue } = vi.hoisted(() => ({
+  prisma: {
+    remixPost: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    scheduledPublish: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn(), updateMany: vi.fn(), count: vi.fn() },
+    tiktokUploadAccount: { findUnique: vi.fn() },
+    $transaction: vi.fn(),
+  },
+  publishQueue: { addPublishJob: vi.fn(), removePublishJob: vi.fn() },
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+vi.mock('../queue/publish-queue', () => ({ publishQueue }))
+vi.mock('../remix-render-service', () => ({ remixRenderService: { renderRemix: vi.fn() } }))
+vi.mock('../tiktok-account-service', () => ({ tiktokAccountService: { getValidAccessToken: vi.fn(), markUsed: vi.fn() } }))
+vi.mock('../tiktok-api-service', () => ({ tiktokAPIService: { uploadCarouselDraft: vi.fn() } }))
+vi.mock('../cache-asset-service', () => ({ cacheAssetService: { getUrls: vi.fn() } }))
+
+import { publishService } from '../publish-service'
+import { remixRenderService } from '../remix-render-service'
+import { tiktokAccountService } from '../tiktok-account-service'
+import { tiktokAPIService } from '../tiktok-api-service'
+import { cacheAssetService } from '../cache-asset-service'
+
+const scheduled = {
+  id: 'p1',
+  remixId: 'r1',
+  accountId: 'a1',
+  status: 'SCHEDULED',
+  scheduledFor: new Date('2025-01-01T10:00:00Z'),
+  renderedAssetIds: [],
+  title: 'Title',
+  description: null,
+}
+
+describe('publishService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma.scheduledPublish.update.mockImplementation(async ({ data }) => ({ ...scheduled, ...data }))
+    prisma.$transaction.mockImplementation(async (operations: Promise<unknown>[]) => Promise.all(operations))
+  })
+
+  const statusUpdates = () => prisma.scheduledPublish.update.mock.calls.map(([{ data }]) => data.status)
+
+  describe('schedulePublish', () => {
+    const input = { remixId: 'r1', accountId: 'a1', scheduledFor: scheduled.scheduledFor }
+
+    it('should queue the publish and move the remix to SCHEDULED', async () => {
+      prisma.remixPost.findUnique.mockResolvedValue({ id: 'r1', name: 'Draft', description: 'Caption', approved: true })
+      prisma.tiktokUploadAccount.findUnique.mockResolvedValue({ id: 'a1', status: 'ACTIVE' })
+      prisma.scheduledPublish.create.mockResolvedValue(scheduled)
+
+      await publishService.schedulePublish(input)
+
+      expect(prisma.scheduledPublish.create.mock.calls[0][0].data).toMatchObject({ title: 'Draft', description: 'Caption' })
+      expect(publishQueue.addPublishJob).toHaveBeenCalledWith('p1', scheduled.scheduledFor)
+      expect(prisma.remixPost.update.mock.calls[0][0].data).toMatchObject({ workflowStatus: 'SCHEDULED' })
+    })
+
+    it('should refuse unapproved remixes and inactive accounts', async () => {
+      prisma.remixPost.findUnique.mockResolvedValue({ id: 'r1', name: 'Draft', description: null, approved: false })
+      await expect(publishService.schedulePublish(input)).rejects.toThrow('Only approved remixes')
+
+      prisma.remixPost.findUnique.mockResolvedValue({ id: 'r1', name: 'Draft', description: null, approved: true })
+      prisma.tiktokUploadAccount.findUnique.mockResolvedValue({ id: 'a1', status: 'EXPIRED' })
+      await expect(publishService.schedulePublish(input)).rejects.toThrow('Account is not active')
+
+      expect(publishQueue.addPublishJob).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reschedule', () => {
+    it('should reset a failed publish to SCHEDULED and queue it again', async () => {
+      const scheduledFor = new Date('2025-01-02T10:00:00Z')
+      prisma.scheduledPublish.findUnique.mockResolvedValue({ ...scheduled, status: 'FAILED', error: 'Upload failed' })
+
+      const result = await publishService.reschedule('p1', { scheduledFor })
+
+      expect(result).toMatchObject({ status: 'SCHEDULED', error: null, scheduledFor })
+      expect(publishQueue.addPublishJob).toHaveBeenCalledWith('p1', scheduledFor)
+    })
+
+    it('should only move a publish to an existing, active account', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+
+      prisma.tiktokUploadAccount.findUnique.mockResolvedValue(null)
+      await expect(publishService.reschedule('p1', { accountId: 'missing' })).rejects.toThrow('Account not found')
+
+      prisma.tiktokUploadAccount.findUnique.mockResolvedValue({ id: 'a2', status: 'REVOKED' })
+      await expect(publishService.reschedule('p1', { accountId: 'a2' })).rejects.toThrow('Account is not active')
+
+      expect(prisma.scheduledPublish.update).not.toHaveBeenCalled()
+
+      prisma.tiktokUploadAccount.findUnique.mockResolvedValue({ id: 'a2', status: 'ACTIVE' })
+      const result = await publishService.reschedule('p1', { accountId: 'a2' })
+      expect(result.accountId).toBe('a2')
+    })
+
+    it('should not touch a publish that already went out', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue({ ...scheduled, status: 'PUBLISHED' })
+
+      await expect(publishService.reschedule('p1', {})).rejects.toThrow('Cannot modify a publish with status PUBLISHED')
+      expect(publishQueue.addPublishJob).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancel', () => {
+    it('should drop the job and move the remix back to APPROVED', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+      prisma.scheduledPublish.count.mockResolvedValue(0)
+
+      const result = await publishService.cancel('p1')
+
+      expect(result.status).toBe('CANCELLED')
+      expect(publishQueue.removePublishJob).toHaveBeenCalledWith('p1')
+      expect(prisma.remixPost.updateMany.mock.calls[0][0]).toMatchObject({
+        where: { id: 'r1', workflowStatus: 'SCHEDULED' },
+        data: { workflowStatus: 'APPROVED' },
+      })
+    })
+
+    it('should keep the remix SCHEDULED while another publish is pending', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+      prisma.scheduledPublish.count.mockResolvedValue(1)
+
+      await publishService.cancel('p1')
+
+      expect(prisma.remixPost.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('processScheduledPublish', () => {
+    beforeEach(() => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+      prisma.remixPost.findUnique.mockResolvedValue({ approved: true, workflowStatus: 'SCHEDULED' })
+      vi.mocked(remixRenderService.renderRemix).mockResolvedValue({ cacheAssetIds: ['asset-1', 'asset-2'] } as never)
+      vi.mocked(tiktokAccountService.getValidAccessToken).mockResolvedValue('token')
+      vi.mocked(cacheAssetService.getUrls).mockResolvedValue(['https://cdn/1.png', 'https://cdn/2.png'])
+      vi.mocked(tiktokAPIService.uploadCarouselDraft).mockResolvedValue({ publish_id: 'tt-1' } as never)
+    })
+
+    it('should render, upload and mark the publish and remix as posted', async () => {
+      const result = await publishService.processScheduledPublish('p1')
+
+      expect(statusUpdates()).toEqual(['RENDERING', 'UPLOADING', 'PUBLISHED'])
+      expect(result).toMatchObject({ status: 'PUBLISHED', publishId: 'tt-1' })
+      expect(prisma.remixPost.update.mock.calls[0][0].data).toMatchObject({ workflowStatus: 'POSTED' })
+      expect(tiktokAccountService.markUsed).toHaveBeenCalledWith('a1')
+    })
+
+    it('should skip publishes that are no longer pending', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue({ ...scheduled, status: 'PUBLISHED' })
+
+      await publishService.processScheduledPublish('p1')
+
+      expect(prisma.scheduledPublish.update).not.toHaveBeenCalled()
+    })
+
+    it('should fail on an unresolved image URL and leave the publish SCHEDULED for a retry', async () => {
+      vi.mocked(cacheAssetService.getUrls).mockResolvedValue(['https://cdn/1.png', ''])
+
+      await expect(publishService.processScheduledPublish('p1')).rejects.toThrow('Failed to resolve all rendered image URLs')
+
+      expect(tiktokAPIService.uploadCarouselDraft).not.toHaveBeenCalled()
+      expect(statusUpdates()).toEqual(['RENDERING', 'UPLOADING', 'SCHEDULED'])
+    })
+
+    it('should mark the publish FAILED on the final attempt', async () => {
+      vi.mocked(tiktokAPIService.uploadCarouselDraft).mockResolvedValue({ error: { message: 'spam_risk' } } as never)
+
+      await expect(publishService.processScheduledPublish('p1', { isFinalAttempt: true })).rejects.toThrow('spam_risk')
+
+      expect(prisma.scheduledPublish.update.mock.calls.at(-1)?.[0].data).toEqual({ status: 'FAILED', error: 'spam_risk' })
+      expect(prisma.remixPost.update).not.toHaveBeenCalled()
+    })
+
+    it('should reuse renders from an earlier attempt', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue({ ...scheduled, status: 'SCHEDULED', renderedAssetIds: ['asset-1', 'asset-2'] })
+
+      await publishService.processScheduledPublish('p1')
+
+      expect(remixRenderService.renderRemix).not.toHaveBeenCalled()
+    })
+
+    it('should cancel instead of uploading a remix that was pulled back', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+      prisma.remixPost.findUnique.mockResolvedValue({ approved: true, workflowStatus: 'APPROVED' })
+
+      const result = await publishService.processScheduledPublish('p1')
+
+      expect(result.status).toBe('CANCELLED')
+      expect(remixRenderService.renderRemix).not.toHaveBeenCalled()
+      expect(prisma.remixPost.update).not.toHaveBeenCalled()
+    })
+
+    it('should cancel a publish whose remix lost its approval', async () => {
+      prisma.scheduledPublish.findUnique.mockResolvedValue(scheduled)
+      prisma.remixPost.findUnique.mockResolvedValue({ approved: false, workflowStatus: 'SCHEDULED' })
+
+      const result = await publishService.processScheduledPublish('p1')
+
+      expect(result.status).toBe('CANCELLED')
+      expect(remixRenderService.renderRemix).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancelPendingForRemix', () => {
+    it('should drop the queued jobs and mark every pending publish cancelled', async () => {
+      prisma.scheduledPublish.findMany.mockResolvedValue([{ id: 'p1' }, { id: 'p2' }])
+
+      await expect(publishService.cancelPendingForRemix('r1')).resolves.toBe(2)
+
+      expect(publishQueue.removePublishJob).toHaveBeenCalledWith('p1')
+      expect(publishQueue.removePublishJob).toHaveBeenCalledWith('p2')
+      expect(prisma.scheduledPublish.updateMany.mock.calls[0][0].data).toEqual({ status: 'CANCELLED' })
+    })
+
+    it('should do nothing without pending publishes', async () => {
+      prisma.scheduledPublish.findMany.mockResolvedValue([])
+
+      await expect(publishService.cancelPendingForRemix('r1')).resolves.toBe(0)
+      expect(prisma.scheduledPublish.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    remixPost: { findUnique: vi.fn() },
+    remixComment: { findFirst: vi.fn(), findUniqueOrThrow: vi.fn(), create: vi.fn() },
+  },
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+vi.mock('../remix-render-service', () => ({ remixRenderService: {} }))
+
+import { remixCommentService } from '../remix-comment-service'
+
+const slides = [
+  { id: 's1', paraphrasedText: 'Hook', textBoxes: [{ id: 't1', text: 'Hook' }] },
+  { id: 's2', paraphrasedText: 'Tip', textBoxes: [] },
+]
+
+const comment = { remixId: 'r1', authorId: 'u1', body: 'Tighten this' }
+
+const createdData = () => prisma.remixComment.create.mock.calls[0][0].data
+
+describe('addComment anchors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma.remixPost.findUnique.mockResolvedValue({ id: 'r1', slides })
+    prisma.remixComment.create.mockImplementation(async ({ data }) => data)
+  })
+
+  it('should fill in the slide position from its id and vice versa', async () => {
+    await remixCommentService.addComment({ ...comment, slideId: 's2' })
+    expect(createdData()).toMatchObject({ slideId: 's2', slideIndex: 1, textBoxId: null })
+
+    prisma.remixComment.create.mockClear()
+    await remixCommentService.addComment({ ...comment, slideIndex: 0, textBoxId: 't1' })
+    expect(createdData()).toMatchObject({ slideId: 's1', slideIndex: 0, textBoxId: 't1' })
+  })
+
+  it('should leave a general comment unanchored', async () => {
+    await remixCommentService.addComment(comment)
+    expect(createdData()).toMatchObject({ slideId: null, slideIndex: null, textBoxId: null })
+  })
+
+  it('should reject anchors that do not exist on the draft', async () => {
+    await expect(remixCommentService.addComment({ ...comment, slideId: 'gone' })).rejects.toThrow('Slide not found: gone')
+    await expect(remixCommentService.addComment({ ...comment, slideIndex: 5 })).rejects.toThrow('Slide not found: 5')
+    await expect(remixCommentService.addComment({ ...comment, slideId: 's2', textBoxId: 't1' })).rejects.toThrow('Text box not found: t1')
+    await expect(remixCommentService.addComment({ ...comment, textBoxId: 't1' })).rejects.toThrow('A text box anchor needs a slide')
+    expect(prisma.remixComment.create).not.toHaveBeenCalled()
+  })
+
+  it('should attach replies to the thread root with its anchor', async () => {
+    prisma.remixComment.findFirst.mockResolvedValue({ id: 'c2', parentId: 'c1' })
+    prisma.remixComment.findUniqueOrThrow.mockResolvedValue({ id: 'c1', parentId: null, slideId: 's1', slideIndex: 0, textBoxId: 't1' })
+
+    await remixCommentService.addComment({ ...comment, parentId: 'c2', slideId: 's2' })
+
+    expect(createdData()).toMatchObject({ parentId: 'c1', slideId: 's1', slideIndex: 0, textBoxId: 't1' })
+  })
+
+  it('should reject replies to a comment on another draft', async () => {
+    prisma.remixComment.findFirst.mockResolvedValue(null)
+    await expect(remixCommentService.addComment({ ...comment, parentId: 'other' })).rejects.toThrow('Comment not found: other')
+  })
+})
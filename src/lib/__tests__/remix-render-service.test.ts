@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Only the content hash is under test - keep the DB, R2, queue and renderer out
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(),
+}))
+vi.mock('../r2', () => ({ uploadToR2: vi.fn() }))
+vi.mock('../cache-asset-service', () => ({ cacheAssetService: {} }))
+vi.mock('../satori-export-service', () => ({ satoriExportService: {} }))
+vi.mock('sharp', () => ({ default: vi.fn() }))
+vi.mock('../queue/render-queue', () => ({ renderQueue: { addRenderJob: vi.fn() } }))
+
+import { getSlideContentHash } from '../remix-render-service'
+import type { RemixSlideType } from '../validations/remix-schema'
+
+const slide = (overrides: Record<string, unknown> = {}): RemixSlideType => ({
+  id: 'slide-a',
+  displayOrder: 0,
+  canvas: { width: 1080, height: 1920, unit: 'px' },
+  viewport: { zoom: 1, offsetX: 0, offsetY: 0 },
+  backgroundLayers: [
+    { id: 'bg-1', type: 'image', cacheAssetId: 'asset-1', x: 0, y: 0, width: 1, height: 1, opacity: 1, zIndex: 1 },
+  ],
+  textBoxes: [
+    { id: 'text-1', text: 'Hook line', x: 0.1, y: 0.2, width: 0.8, height: 0.1, fontSize: 48, color: '#ffffff' },
+  ],
+  paraphrasedText: 'Hook line',
+  ...overrides,
+} as unknown as RemixSlideType)
+
+describe('getSlideContentHash', () => {
+  it('ignores key order and editor-only state', () => {
+    const reordered = {
+      textBoxes: slide().textBoxes.map(textBox => Object.fromEntries(Object.entries(textBox).reverse())),
+      backgroundLayers: slide().backgroundLayers,
+      canvas: slide().canvas,
+      displayOrder: 3,
+      id: 'slide-b',
+      viewport: { zoom: 2, offsetX: 40, offsetY: 10 },
+      paraphrasedText: 'Different source text',
+    } as unknown as RemixSlideType
+
+    expect(getSlideContentHash(reordered)).toBe(getSlideContentHash(slide()))
+  })
+
+  it('changes when anything visible is edited', () => {
+    const base = getSlideContentHash(slide())
+
+    const editedText = slide()
+    editedText.textBoxes[0].text = 'New hook'
+
+    const swappedImage = slide()
+    swappedImage.backgroundLayers[0].cacheAssetId = 'asset-2'
+
+    const resized = slide({ canvas: { width: 1080, height: 1350, unit: 'px' } })
+
+    expect(getSlideContentHash(editedText)).not.toBe(base)
+    expect(getSlideContentHash(swappedImage)).not.toBe(base)
+    expect(getSlideContentHash(resized)).not.toBe(base)
+  })
+})
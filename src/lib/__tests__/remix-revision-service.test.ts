@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const { prisma, tx } = vi.hoisted(() => {
+  const tx = { remixPostRevision: { findFirst: vi.fn(), create: vi.fn() } }
+  return { tx, prisma: { $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)) } }
+})
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+
+vi.mock('../remix-render-service', () => ({
+  remixRenderService: {},
+}))
+
+import { Prisma } from '@/generated/prisma'
+import { diffSlides, parseSlides, remixRevisionService } from '../remix-revision-service'
+
+const slide = (id: string, text: string, textBoxes: Array<Record<string, unknown>> = []) => ({
+  id,
+  paraphrasedText: text,
+  canvas: { width: 1080, height: 1920 },
+  backgroundLayers: [],
+  textBoxes,
+})
+
+describe('diffSlides', () => {
+  it('should report text and layout changes per slide and text box', () => {
+    const before = [
+      slide('a', 'Hook', [{ id: 't1', text: 'Hook', x: 0.1, fontSize: 48 }]),
+      slide('b', 'Tip one'),
+    ]
+    const after = [
+      slide('a', 'Hook', [{ id: 't1', text: 'Hook', x: 0.2, fontSize: 48 }]),
+      slide('b', 'Tip one, rewritten'),
+    ]
+
+    const diff = diffSlides(before, after)
+
+    expect(diff[0]).toMatchObject({ status: 'changed', layoutChanges: [] })
+    expect(diff[0].textBoxes[0]).toMatchObject({ status: 'changed', layoutChanges: ['x'] })
+    expect(diff[1]).toMatchObject({ status: 'changed', textBefore: 'Tip one', textAfter: 'Tip one, rewritten' })
+  })
+
+  it('should follow slides by id across reorders, additions and removals', () => {
+    const diff = diffSlides(
+      [slide('a', 'One'), slide('b', 'Two'), slide('c', 'Three')],
+      [slide('c', 'Three'), slide('a', 'One'), slide('d', 'Four')]
+    )
+
+    expect(diff.map(entry => [entry.index, entry.status])).toEqual([
+      [0, 'unchanged'],
+      [1, 'unchanged'],
+      [1, 'removed'],
+      [2, 'added'],
+    ])
+  })
+
+  it('should ignore key order from jsonb round-trips', () => {
+    const stored = parseSlides(JSON.stringify([{ textBoxes: [], paraphrasedText: 'x', id: 'a' }]))
+
+    expect(diffSlides(stored, [{ id: 'a', paraphrasedText: 'x', textBoxes: [] }])[0].status).toBe('unchanged')
+  })
+})
+
+describe('recordRevision', () => {
+  const conflict = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+
+  it('should retry with the next free number when a concurrent save took it', async () => {
+    tx.remixPostRevision.findFirst
+      .mockResolvedValueOnce({ revisionNumber: 1, slides: '[]' })
+      .mockResolvedValueOnce({ revisionNumber: 2, slides: '[]' })
+    tx.remixPostRevision.create
+      .mockRejectedValueOnce(conflict())
+      .mockImplementationOnce(async ({ data }) => data)
+
+    const revision = await remixRevisionService.recordRevision({
+      remixId: 'r1',
+      slides: [slide('a', 'Hook')],
+      source: 'manual_edit',
+    })
+
+    expect(revision).toMatchObject({ revisionNumber: 3 })
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2)
+  })
+
+  it('should give up after repeated conflicts', async () => {
+    tx.remixPostRevision.findFirst.mockResolvedValue({ revisionNumber: 1, slides: '[]' })
+    tx.remixPostRevision.create.mockRejectedValue(conflict())
+
+    await expect(remixRevisionService.recordRevision({
+      remixId: 'r1',
+      slides: [slide('a', 'Hook')],
+      source: 'manual_edit',
+    })).rejects.toThrow('Unique constraint failed')
+  })
+})
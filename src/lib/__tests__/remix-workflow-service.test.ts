@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { prisma, cancelPendingForRemix, countPendingForRemix } = vi.hoisted(() => ({
+  prisma: {
+    remixPost: { findUnique: vi.fn(), update: vi.fn() },
+  },
+  cancelPendingForRemix: vi.fn(),
+  countPendingForRemix: vi.fn(),
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+vi.mock('../publish-service', () => ({ publishService: { cancelPendingForRemix, countPendingForRemix } }))
+vi.mock('../notification-service', () => ({ notificationService: { createNotification: vi.fn() } }))
+
+import { remixWorkflowService } from '../remix-workflow-service'
+import type { AuthUser } from '../auth-service'
+
+const editor = { id: 'u1', email: 'editor@example.com', name: null, role: 'editor' } as AuthUser
+
+describe('remixWorkflowService.transition', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    prisma.remixPost.update.mockImplementation(async ({ data }) => data)
+  })
+
+  const remixIn = (workflowStatus: string) =>
+    prisma.remixPost.findUnique.mockResolvedValue({ id: 'r1', name: 'Draft', workflowStatus, reviewerId: null })
+
+  it('should cancel pending publishes when a draft leaves SCHEDULED', async () => {
+    remixIn('SCHEDULED')
+
+    await remixWorkflowService.transition('r1', 'APPROVED', editor)
+
+    expect(cancelPendingForRemix).toHaveBeenCalledWith('r1')
+    expect(prisma.remixPost.update.mock.calls[0][0].data).toMatchObject({ workflowStatus: 'APPROVED', approved: true })
+  })
+
+  it('should refuse a manual move to SCHEDULED without a pending publish', async () => {
+    remixIn('APPROVED')
+    countPendingForRemix.mockResolvedValue(0)
+
+    await expect(remixWorkflowService.transition('r1', 'SCHEDULED', editor)).rejects.toThrow('Invalid transition')
+    expect(prisma.remixPost.update).not.toHaveBeenCalled()
+  })
+
+  it('should allow the move to SCHEDULED while a publish is pending', async () => {
+    remixIn('APPROVED')
+    countPendingForRemix.mockResolvedValue(1)
+
+    await remixWorkflowService.transition('r1', 'SCHEDULED', editor)
+
+    expect(cancelPendingForRemix).not.toHaveBeenCalled()
+    expect(prisma.remixPost.update.mock.calls[0][0].data).toMatchObject({ workflowStatus: 'SCHEDULED' })
+  })
+})
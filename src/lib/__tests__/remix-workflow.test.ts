@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { canTransition, isApprovedStatus, requiredRoleForTransition } from '../remix-workflow'
+
+describe('remix workflow', () => {
+  it('should only allow moves along the review flow', () => {
+    expect(canTransition('DRAFTING', 'IN_REVIEW')).toBe(true)
+    expect(canTransition('IN_REVIEW', 'APPROVED')).toBe(true)
+    expect(canTransition('DRAFTING', 'APPROVED')).toBe(false)
+    expect(canTransition('POSTED', 'DRAFTING')).toBe(false)
+  })
+
+  it('should require a reviewer for review decisions', () => {
+    expect(requiredRoleForTransition('IN_REVIEW', 'APPROVED')).toBe('reviewer')
+    expect(requiredRoleForTransition('IN_REVIEW', 'CHANGES_REQUESTED')).toBe('reviewer')
+    expect(requiredRoleForTransition('APPROVED', 'IN_REVIEW')).toBe('reviewer')
+    expect(requiredRoleForTransition('DRAFTING', 'IN_REVIEW')).toBe('editor')
+    expect(requiredRoleForTransition('APPROVED', 'SCHEDULED')).toBe('editor')
+  })
+
+  it('should count approved, scheduled and posted drafts as approved', () => {
+    expect(['APPROVED', 'SCHEDULED', 'POSTED'].every(status => isApprovedStatus(status as never))).toBe(true)
+    expect(isApprovedStatus('CHANGES_REQUESTED')).toBe(false)
+  })
+})
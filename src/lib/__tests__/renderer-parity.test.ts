@@ -0,0 +1,147 @@
+// @vitest-environment node
+import fs from 'fs'
+import path from 'path'
+import { describe, it, expect, vi } from 'vitest'
+import sharp from 'sharp'
+
+// Renderers run for real; only the DB, storage and queue are kept out
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(),
+}))
+vi.mock('../r2', () => ({ uploadToR2: vi.fn() }))
+vi.mock('../cache-asset-service', () => ({ cacheAssetService: { getUrl: vi.fn() } }))
+vi.mock('../queue/render-queue', () => ({ renderQueue: { addRenderJob: vi.fn() } }))
+
+import { remixRenderService } from '../remix-render-service'
+import { remixExportService } from '../remix-export-service'
+import { diffImages } from './golden/image-diff'
+import { GOLDEN_SLIDES, type GoldenSlideData } from './golden/slides'
+
+/**
+ * Golden-image tests for the server-side slide renderers.
+ *
+ * Every renderer draws the fixtures in ./golden/slides.ts and is compared to
+ * one shared golden per slide, recorded from Satori (the canonical renderer)
+ * with the Poppins fonts bundled in public/fonts/poppins. Goldens are
+ * committed; re-record them after an intended change with:
+ *
+ *   bun run test:goldens
+ *
+ * Failed comparisons write the actual image and a diff to golden/__diffs__.
+ *
+ * Both server renderers are required: Satori (slide previews and
+ * remix-render-service) and the @napi-rs/canvas export (remix-export-service).
+ * Divergences a renderer cannot fix yet are listed in its knownDivergences and
+ * run as expected failures, so they are flagged once the renderers agree.
+ *
+ * The browser renderers (slide-renderer.ts for thumbnails and
+ * mobile-text-renderer.ts for mobile text overlays) draw on a DOM canvas and
+ * are not covered here; they need a browser, which this node test lacks.
+ */
+
+const GOLDEN_DIR = path.join(__dirname, 'golden', '__goldens__')
+const DIFF_DIR = path.join(__dirname, 'golden', '__diffs__')
+const UPDATE_GOLDENS = process.env.UPDATE_GOLDENS === '1'
+
+interface ServerRenderer {
+  name: string
+  /** Goldens are recorded from this renderer */
+  reference?: boolean
+  /** Share of pixels allowed to differ from the golden */
+  maxDiffRatio: number
+  /** Fixtures this renderer is known to draw differently, with the reason */
+  knownDivergences?: Record<string, string>
+  render: (slide: GoldenSlideData) => Promise<Buffer>
+}
+
+const RENDERERS: ServerRenderer[] = [
+  {
+    name: 'satori',
+    reference: true,
+    maxDiffRatio: 0.002,
+    render: slide => remixRenderService.renderSlide(slide, 'png'),
+  },
+  {
+    name: 'canvas-export',
+    // Canvas and Satori anti-alias and wrap text differently
+    maxDiffRatio: 0.05,
+    knownDivergences: {
+      'blend-multiply': 'Satori has no mix-blend-mode, so the golden only applies the opacity; the export blends like the editor',
+      'pill-background': 'The export does not draw blob (pill) backgrounds yet',
+    },
+    render: slide => remixExportService.exportSlide(structuredClone(slide), { format: 'png' }),
+  },
+]
+
+const goldenPath = (name: string) => path.join(GOLDEN_DIR, `${name}.png`)
+
+function writeDiffArtifacts(slideName: string, rendererName: string, actual: Buffer, diff: Buffer) {
+  fs.mkdirSync(DIFF_DIR, { recursive: true })
+  fs.writeFileSync(path.join(DIFF_DIR, `${slideName}.${rendererName}.actual.png`), actual)
+  fs.writeFileSync(path.join(DIFF_DIR, `${slideName}.${rendererName}.diff.png`), diff)
+}
+
+describe('diffImages', () => {
+  const solid = (r: number, g: number, b: number) =>
+    sharp({ create: { width: 20, height: 10, channels: 4, background: { r, g, b, alpha: 1 } } }).png().toBuffer()
+
+  it('reports identical and near-identical images as matching', async () => {
+    const result = await diffImages(await solid(200, 40, 40), await solid(210, 40, 30))
+
+    expect(result.diffPixels).toBe(0)
+    expect(result.diffRatio).toBe(0)
+  })
+
+  it('counts pixels beyond the tolerance', async () => {
+    const base = await solid(255, 255, 255)
+    const patch = await sharp({ create: { width: 5, height: 10, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 1 } } })
+      .png()
+      .toBuffer()
+    const changed = await sharp(base).composite([{ input: patch, left: 0, top: 0 }]).png().toBuffer()
+
+    const result = await diffImages(changed, base)
+
+    expect(result.diffPixels).toBe(50)
+    expect(result.diffRatio).toBe(0.25)
+    expect(result.sizeMismatch).toBe(false)
+  })
+
+  it('treats a size mismatch as a full diff', async () => {
+    const wide = await sharp({ create: { width: 40, height: 10, channels: 4, background: '#ffffff' } }).png().toBuffer()
+
+    const result = await diffImages(wide, await solid(255, 255, 255))
+
+    expect(result.sizeMismatch).toBe(true)
+    expect(result.diffRatio).toBe(1)
+  })
+})
+
+describe.each(RENDERERS)('$name renderer matches goldens', (renderer) => {
+  for (const { name, slide } of GOLDEN_SLIDES) {
+    const test = renderer.knownDivergences?.[name] ? it.fails : it
+
+    test(name, { timeout: 60000 }, async () => {
+      const actual = await renderer.render(slide)
+      const golden = goldenPath(name)
+
+      if (renderer.reference && UPDATE_GOLDENS) {
+        fs.mkdirSync(GOLDEN_DIR, { recursive: true })
+        fs.writeFileSync(golden, actual)
+        return
+      }
+
+      if (!fs.existsSync(golden)) {
+        throw new Error(`Missing golden ${path.relative(process.cwd(), golden)}; run with UPDATE_GOLDENS=1`)
+      }
+
+      const result = await diffImages(actual, fs.readFileSync(golden))
+      if (result.diffRatio > renderer.maxDiffRatio) {
+        writeDiffArtifacts(name, renderer.name, actual, result.diffImage)
+      }
+
+      expect(result.sizeMismatch).toBe(false)
+      expect(result.diffRatio).toBeLessThanOrEqual(renderer.maxDiffRatio)
+    })
+  }
+})
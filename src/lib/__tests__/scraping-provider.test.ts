@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  getFixtureKey,
+  getReplayProvider,
+  getScrapingProvider,
+  RecordingProvider,
+  ReplayProvider,
+  type ScrapingProvider,
+} from '../scraping'
+import { scrapeProfileInfo, scrapeProfileVideos } from '../tiktok-scraping'
+
+vi.mock('../redis-cache', () => ({
+  getCachedData: vi.fn().mockResolvedValue(null),
+  setCachedData: vi.fn(),
+  CACHE_KEYS: { PROFILE_VIDEOS: 'tiktok:profile:videos' },
+  CACHE_TTL: { ONE_HOUR: 3600 }
+}))
+
+const page = (ids: string[], hasMore: boolean, maxCursor?: number) => ({
+  status_code: 0,
+  has_more: hasMore ? 1 : 0,
+  max_cursor: maxCursor,
+  aweme_list: ids.map(id => ({
+    aweme_id: id,
+    desc: `Post ${id} #fyp`,
+    create_time: 1700000000,
+    author: { nickname: 'Replay', unique_id: 'replayuser', avatar_medium: { url_list: ['https://example.com/a.jpg'] } },
+    statistics: { play_count: 100, digg_count: 10, comment_count: 1, share_count: 1, collect_count: 1 },
+    image_post_info: { images: [{ display_image: { width: 1080, height: 1920, url_list: ['https://example.com/1.jpg'] } }] }
+  }))
+})
+
+describe('Scraping providers', () => {
+  beforeEach(() => {
+    process.env.SCRAPING_PROVIDER = 'replay'
+    getReplayProvider().reset()
+  })
+
+  afterEach(() => {
+    delete process.env.SCRAPING_PROVIDER
+    delete process.env.SCRAPING_RECORD
+  })
+
+  it('should paginate through replayed profile pages', async () => {
+    getReplayProvider()
+      .register({ kind: 'profile-videos', handle: 'replayuser', trim: true }, page(['1', '2'], true, 1699999999))
+      .register({ kind: 'profile-videos', handle: 'replayuser', maxCursor: '1699999999', trim: true }, page(['3'], false))
+
+    const first = await scrapeProfileVideos('replayuser')
+    const second = await scrapeProfileVideos('replayuser', first.maxCursor)
+
+    expect(first.posts.map(p => p.tiktokId)).toEqual(['1', '2'])
+    expect(first.posts[0].contentType).toBe('photo')
+    expect(first.hasMore).toBe(true)
+    expect(second.posts.map(p => p.tiktokId)).toEqual(['3'])
+    expect(second.hasMore).toBe(false)
+  })
+
+  it('should fail clearly when a response was never recorded', async () => {
+    await expect(scrapeProfileVideos('nobody')).rejects.toThrow('No recorded profile-videos response for profile-videos/nobody')
+  })
+
+  it('should parse profile info with follower stats', async () => {
+    getReplayProvider().register({ kind: 'profile-info', handle: 'replayuser' }, {
+      user: { uniqueId: 'replayuser', nickname: 'Replay', signature: 'bio', verified: true },
+      stats: { followerCount: 1200, followingCount: 5, heartCount: 34000, videoCount: 42 }
+    })
+
+    const info = await scrapeProfileInfo('replayuser')
+
+    expect(info).toMatchObject({ handle: 'replayuser', bio: 'bio', followerCount: 1200, likeCount: 34000, videoCount: 42 })
+  })
+
+  it('should key posts by TikTok id so short and long URLs stay distinct', () => {
+    expect(getFixtureKey({ kind: 'post', url: 'https://www.tiktok.com/@a/photo/7301234567890' })).toBe('7301234567890')
+    expect(getFixtureKey({ kind: 'post', url: 'https://vm.tiktok.com/ZMabc/' })).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('should record live responses so they replay offline', async () => {
+    const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scraping-fixtures-'))
+    const live: ScrapingProvider = {
+      name: 'scrapecreators',
+      fetchProfileVideos: vi.fn().mockResolvedValue(page(['9'], false)),
+      fetchPost: vi.fn(),
+      fetchProfileInfo: vi.fn(),
+    }
+
+    try {
+      await new RecordingProvider(live, fixturesDir).fetchProfileVideos('replayuser', '123', true)
+
+      const replayed = await new ReplayProvider(fixturesDir).fetchProfileVideos('replayuser', '123', false)
+      expect(replayed).toEqual(page(['9'], false))
+    } finally {
+      fs.rmSync(fixturesDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should only wrap live providers for recording', () => {
+    process.env.SCRAPING_RECORD = 'true'
+    expect(getScrapingProvider()).toBeInstanceOf(ReplayProvider)
+
+    process.env.SCRAPING_PROVIDER = 'scrapecreators'
+    expect(getScrapingProvider()).toBeInstanceOf(RecordingProvider)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    slideClassificationIndex: { findMany: vi.fn(), deleteMany: vi.fn(), groupBy: vi.fn() },
+    contentIdeaCategory: { update: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => prisma),
+}))
+
+import { extractPostSlides, extractRemixSlides, slideIndexService } from '../slide-index-service'
+
+describe('extractPostSlides', () => {
+  it('should pair OCR text with classifications and skip empty slides', () => {
+    const slides = extractPostSlides({
+      ocrTexts: JSON.stringify([
+        { imageIndex: 0, text: ' Stop scrolling ' },
+        { imageIndex: 1, text: '' },
+        { imageIndex: 2, text: 'Try it free' },
+      ]),
+      slideClassifications: JSON.stringify([
+        { slideIndex: 0, slideType: 'hook', confidence: 0.9 },
+        { slideIndex: 1, slideType: 'content', confidence: 0.8 },
+        { slideIndex: 2, slideType: 'cta', confidence: 0.7 },
+      ]),
+    })
+
+    expect(slides).toEqual([
+      { slideIndex: 0, type: 'HOOK', contentText: 'Stop scrolling' },
+      { slideIndex: 2, type: 'CTA', contentText: 'Try it free' },
+    ])
+  })
+})
+
+describe('extractRemixSlides', () => {
+  it('should use text boxes when there is no paraphrased text and ignore placeholder categories', () => {
+    const slides = extractRemixSlides({
+      slides: [
+        { paraphrasedText: 'Three habits', textBoxes: [{ text: 'ignored' }] },
+        { paraphrasedText: '', textBoxes: [{ text: 'Wake early' }, { text: 'Walk daily' }] },
+        { paraphrasedText: 'Unclassified' },
+      ],
+      slideClassifications: [
+        { slideIndex: 0, type: 'HOOK', categoryName: 'Morning routines' },
+        { slideIndex: 1, type: 'CONTENT', categoryName: 'CONTENT', categoryId: 'cat_1' },
+      ],
+    })
+
+    expect(slides).toEqual([
+      { slideIndex: 0, type: 'HOOK', contentText: 'Three habits', categoryName: 'Morning routines' },
+      { slideIndex: 1, type: 'CONTENT', contentText: 'Wake early\nWalk daily', categoryId: 'cat_1' },
+    ])
+  })
+})
+
+describe('removeRemixesSafe', () => {
+  it('should delete the rows of every remix and recount the categories they were in', async () => {
+    prisma.slideClassificationIndex.findMany.mockResolvedValue([{ categoryId: 'cat_1' }, { categoryId: 'cat_2' }, { categoryId: 'cat_1' }])
+    prisma.slideClassificationIndex.groupBy.mockResolvedValue([{ categoryId: 'cat_2', _count: { _all: 4 } }])
+    prisma.contentIdeaCategory.update.mockImplementation(args => args)
+
+    await slideIndexService.removeRemixesSafe(['r1', 'r2'])
+
+    expect(prisma.slideClassificationIndex.deleteMany).toHaveBeenCalledWith({ where: { remixPostId: { in: ['r1', 'r2'] } } })
+    expect(prisma.$transaction).toHaveBeenCalledWith([
+      { where: { id: 'cat_1' }, data: { slideCount: 0 } },
+      { where: { id: 'cat_2' }, data: { slideCount: 4 } },
+    ])
+  })
+})
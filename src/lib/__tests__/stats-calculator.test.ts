@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateFollowerEngagementRate,
+  calculateFollowerGrowth,
+  calculateViewsPerFollower,
+} from '../stats-calculator'
+
+const snapshot = (daysAgo: number, followerCount: number) => ({
+  followerCount,
+  recordedAt: new Date(Date.UTC(2025, 0, 31) - daysAgo * 24 * 60 * 60 * 1000),
+})
+
+describe('Follower-normalized stats', () => {
+  it('should measure growth from the oldest snapshot inside the window', () => {
+    const history = [snapshot(40, 500), snapshot(30, 1000), snapshot(7, 1400), snapshot(0, 1500)]
+
+    expect(calculateFollowerGrowth(history, 30)).toEqual({ change: 500, changePercent: 50, perDay: 500 / 30 })
+    expect(calculateFollowerGrowth(history, 7)).toMatchObject({ change: 100, perDay: 100 / 7 })
+  })
+
+  it('should return null without two snapshots in the window', () => {
+    expect(calculateFollowerGrowth([snapshot(0, 10)], 7)).toBeNull()
+    expect(calculateFollowerGrowth([snapshot(20, 10), snapshot(0, 20)], 7)).toBeNull()
+  })
+
+  it('should normalize views and engagement by followers', () => {
+    const metrics = { viewCount: 5000, likeCount: 300, shareCount: 50, commentCount: 100, saveCount: 50 }
+
+    expect(calculateViewsPerFollower(5000, 2000)).toBe(2.5)
+    expect(calculateFollowerEngagementRate(metrics, 2000)).toBe(25)
+    expect(calculateFollowerEngagementRate(metrics, 0)).toBe(0)
+  })
+})
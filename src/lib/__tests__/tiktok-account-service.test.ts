@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+vi.mock('../tiktok-api-service', () => ({ tiktokAPIService: {} }))
+vi.mock('../notification-service', () => ({ notificationService: {} }))
+
+import { classifyRefreshFailure } from '../tiktok-account-service'
+
+const now = new Date('2025-01-10T12:00:00Z')
+const hours = (offset: number) => new Date(now.getTime() + offset * 60 * 60 * 1000)
+
+const account = (tokenExpiresIn: number, refreshExpiresIn: number) => ({
+  tokenExpiresAt: hours(tokenExpiresIn),
+  refreshExpiresAt: hours(refreshExpiresIn),
+})
+
+describe('classifyRefreshFailure', () => {
+  it('should mark the account EXPIRED once the refresh token has expired', () => {
+    expect(classifyRefreshFailure(account(-1, -1), 'fetch failed', now)).toBe('EXPIRED')
+    // An expired refresh token wins over a revocation error
+    expect(classifyRefreshFailure(account(5, -1), 'invalid_grant', now)).toBe('EXPIRED')
+  })
+
+  it('should mark the account REVOKED on authorization errors', () => {
+    expect(classifyRefreshFailure(account(5, 100), 'Token refresh failed: invalid_grant', now)).toBe('REVOKED')
+    expect(classifyRefreshFailure(account(5, 100), 'ACCESS_TOKEN_INVALID', now)).toBe('REVOKED')
+    expect(classifyRefreshFailure(account(5, 100), 'scope_not_authorized', now)).toBe('REVOKED')
+  })
+
+  it('should ignore transient failures while the access token still works', () => {
+    expect(classifyRefreshFailure(account(5, 100), 'fetch failed', now)).toBeNull()
+    expect(classifyRefreshFailure(account(5, 100), 'HTTP 503 Service Unavailable', now)).toBeNull()
+  })
+
+  it('should mark the account EXPIRED on a transient failure once the access token is unusable', () => {
+    expect(classifyRefreshFailure(account(-1, 100), 'fetch failed', now)).toBe('EXPIRED')
+  })
+})
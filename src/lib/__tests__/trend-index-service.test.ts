@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(() => ({})),
+}))
+
+import {
+  calculateMomentum,
+  calculatePostViewGains,
+  getSoundKey,
+  parseHashtagNames,
+} from '../trend-index-service'
+
+const now = new Date('2025-02-01T12:00:00Z')
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+describe('Trend index keys', () => {
+  it('should normalize hashtags from either storage shape', () => {
+    const hashtags = [{ text: '#FYP', url: '' }, { text: 'fyp', url: '' }, { text: '#', url: '' }, { text: '#BookTok', url: '' }]
+
+    expect(parseHashtagNames(hashtags)).toEqual(['fyp', 'booktok'])
+    expect(parseHashtagNames(JSON.stringify(hashtags))).toEqual(['fyp', 'booktok'])
+    expect(parseHashtagNames('not json')).toEqual([])
+  })
+
+  it('should key sounds by music id, falling back to title and author', () => {
+    expect(getSoundKey({ musicTiktokId: '7301', musicTitle: 'Song' })).toBe('7301')
+    expect(getSoundKey({ musicTitle: ' Original Sound ', musicAuthor: 'Creator' })).toBe('original sound|creator')
+    expect(getSoundKey({ musicAuthor: 'Creator' })).toBeNull()
+  })
+})
+
+describe('Views-weighted momentum', () => {
+  it('should measure gains from the last snapshot before each window', () => {
+    const history = [
+      { viewCount: BigInt(1000), recordedAt: hoursAgo(200) },
+      { viewCount: BigInt(4000), recordedAt: hoursAgo(30) },
+      { viewCount: BigInt(7000), recordedAt: hoursAgo(6) },
+    ]
+
+    const gains = calculatePostViewGains({ viewCount: BigInt(10000), publishedAt: hoursAgo(400) }, history, now)
+
+    expect(gains).toEqual({ gained24h: 6000, gained7d: 9000 })
+    expect(calculateMomentum(gains.gained24h, gains.gained7d)).toBe(4.67)
+  })
+
+  it('should count every view of posts published inside the window', () => {
+    expect(calculatePostViewGains({ viewCount: 500, publishedAt: hoursAgo(2) }, [], now))
+      .toEqual({ gained24h: 500, gained7d: 500 })
+    expect(calculatePostViewGains({ viewCount: 500, publishedAt: hoursAgo(400) }, [], now))
+      .toEqual({ gained24h: 0, gained7d: 0 })
+    expect(calculateMomentum(0, 0)).toBe(0)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+
+// Only the ffmpeg argument building is under test
+vi.mock('@/generated/prisma', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/generated/prisma')>()),
+  PrismaClient: vi.fn(),
+}))
+vi.mock('sharp', () => ({ default: vi.fn() }))
+vi.mock('../r2', () => ({ uploadToR2: vi.fn(), generatePresignedGetUrl: vi.fn() }))
+vi.mock('../cache-asset-service', () => ({ cacheAssetService: {} }))
+vi.mock('../remix-render-service', () => ({ remixRenderService: {} }))
+vi.mock('../queue/video-export-queue', () => ({ videoExportQueue: { addVideoExportJob: vi.fn() } }))
+
+import { buildSlideshowArgs, getSlideDurations } from '../video-export-service'
+import { VideoExportOptionsSchema } from '../validations/video-export-schema'
+
+const filterOf = (args: string[]) => args[args.indexOf('-filter_complex') + 1]
+
+describe('buildSlideshowArgs', () => {
+  const base = {
+    imagePaths: ['a.jpg', 'b.jpg', 'c.jpg'],
+    durations: [2, 3, 4],
+    width: 1081,
+    height: 1920,
+    fps: 30,
+    transitionDuration: 0.5,
+    outputPath: 'out.mp4',
+  }
+
+  it('starts each transition when the next slide is due', () => {
+    const args = buildSlideshowArgs({ ...base, transition: 'fade' })
+
+    // Inputs run into the following transition, except the last
+    expect(args.filter((_, i) => args[i - 1] === '-t').slice(0, 3)).toEqual(['2.5', '3.5', '4'])
+    expect(filterOf(args)).toContain('[v0][v1]xfade=transition=fade:duration=0.5:offset=2[x1]')
+    expect(filterOf(args)).toContain('[x1][v2]xfade=transition=fade:duration=0.5:offset=5[vout]')
+    expect(filterOf(args)).toContain('scale=1080:1920')
+    expect(args.slice(-7)).toEqual(['-r', '30', '-t', '9', '-movflags', '+faststart', 'out.mp4'])
+  })
+
+  it('concatenates without transitions and trims looped music to the video', () => {
+    const args = buildSlideshowArgs({ ...base, transition: 'none', audioPath: 'music' })
+
+    expect(args).toContain('-stream_loop')
+    expect(filterOf(args)).toContain('[v0][v1][v2]concat=n=3:v=1:a=0[vout]')
+    expect(filterOf(args)).toContain('[3:a]atrim=0:9,asetpts=PTS-STARTPTS,afade=t=out:st=8:d=1[aout]')
+    expect(args).toEqual(expect.arrayContaining(['-map', '[aout]']))
+  })
+})
+
+describe('getSlideDurations', () => {
+  it('applies per-slide overrides on top of the default', () => {
+    const options = VideoExportOptionsSchema.parse({ slideDuration: 3, slideDurations: [5] })
+
+    expect(getSlideDurations(3, options)).toEqual([5, 3, 3])
+  })
+
+  it('rejects transitions longer than a slide', () => {
+    const result = VideoExportOptionsSchema.safeParse({ slideDuration: 1, transitionDuration: 1.5 })
+
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * AI Usage Service
+ *
+ * Ledger of every model call (feature, model, tokens, cost, what it was for)
+ * and the daily/monthly spend budgets checked against it. The LLM layer
+ * records each call; the AI budget sweep and the background AI workers use
+ * the budget status to pause work while a budget is exceeded.
+ */
+
+import { PrismaClient, type AiBudget } from '@/generated/prisma'
+import { calculateModelCost } from './cost-calculation-service'
+
+export type AiBudgetPeriod = 'daily' | 'monthly'
+
+export type AiBudgetState = 'ok' | 'warning' | 'exceeded'
+
+export const AI_BUDGET_PERIODS: AiBudgetPeriod[] = ['daily', 'monthly']
+
+// How long workers reuse a budget check before querying the ledger again
+const BUDGET_CACHE_MS = 60 * 1000
+
+export interface AiUsageRecord {
+  feature: string
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  entityType?: string
+  entityId?: string
+}
+
+export interface AiUsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+export interface AiUsageSummary {
+  from: string
+  to: string
+  totals: AiUsageTotals
+  byFeature: Array<AiUsageTotals & { feature: string }>
+  byModel: Array<AiUsageTotals & { model: string }>
+  byDay: Array<AiUsageTotals & { day: string }>
+}
+
+export interface AiBudgetStatus {
+  period: AiBudgetPeriod
+  limitUsd: number
+  warnAtPercent: number
+  pauseQueues: boolean
+  enabled: boolean
+  spentUsd: number
+  percentUsed: number
+  state: AiBudgetState
+  periodStart: string
+}
+
+/**
+ * Start of the current budget period (UTC day or month)
+ */
+export function getPeriodStart(period: AiBudgetPeriod, now = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+export function getBudgetState(
+  budget: Pick<AiBudget, 'limitUsd' | 'warnAtPercent' | 'enabled'>,
+  spentUsd: number
+): AiBudgetState {
+  if (!budget.enabled) return 'ok'
+  if (spentUsd >= budget.limitUsd) return 'exceeded'
+  if (spentUsd >= budget.limitUsd * (budget.warnAtPercent / 100)) return 'warning'
+  return 'ok'
+}
+
+/**
+ * Whether background AI work should stop: an enabled budget that pauses
+ * queues has been exceeded
+ */
+export function shouldPauseAiQueues(statuses: AiBudgetStatus[]): boolean {
+  return statuses.some(status => status.state === 'exceeded' && status.pauseQueues)
+}
+
+class AiUsageService {
+  private prisma: PrismaClient
+  private pauseCache: { value: boolean; expiresAt: number } | null = null
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Add a model call to the ledger, priced from its token usage
+   */
+  async record(usage: AiUsageRecord): Promise<void> {
+    await this.prisma.aiUsageEvent.create({
+      data: {
+        ...usage,
+        cost: calculateModelCost(usage.model, usage.inputTokens, usage.outputTokens)
+      }
+    })
+  }
+
+  /**
+   * Recording must never fail the model call it describes; errors are logged
+   */
+  async recordSafe(usage: AiUsageRecord): Promise<void> {
+    try {
+      await this.record(usage)
+    } catch (error) {
+      console.error(`❌ [AiUsage] Failed to record ${usage.feature} usage:`, error)
+    }
+  }
+
+  /**
+   * Spend over the last `days` days (UTC, including today) by feature, model and day
+   */
+  async getUsageSummary(days: number, now = new Date()): Promise<AiUsageSummary> {
+    const from = new Date(getPeriodStart('daily', now).getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+    const where = { createdAt: { gte: from } }
+    const sums = {
+      _count: { _all: true },
+      _sum: { inputTokens: true, outputTokens: true, cost: true }
+    } as const
+
+    const [totals, byFeature, byModel, byDay] = await Promise.all([
+      this.prisma.aiUsageEvent.aggregate({ where, ...sums }),
+      this.prisma.aiUsageEvent.groupBy({ by: ['feature'], where, ...sums }),
+      this.prisma.aiUsageEvent.groupBy({ by: ['model'], where, ...sums }),
+      this.prisma.$queryRaw<Array<{ day: Date; calls: number; inputTokens: number; outputTokens: number; cost: number }>>`
+        SELECT date_trunc('day', "createdAt") AS "day",
+          COUNT(*)::int AS "calls",
+          COALESCE(SUM("inputTokens"), 0)::int AS "inputTokens",
+          COALESCE(SUM("outputTokens"), 0)::int AS "outputTokens",
+          COALESCE(SUM("cost"), 0)::float AS "cost"
+        FROM "ai_usage_events"
+        WHERE "createdAt" >= ${from}
+        GROUP BY 1
+        ORDER BY 1
+      `
+    ])
+
+    const toTotals = (row: { _count: { _all: number }; _sum: { inputTokens: number | null; outputTokens: number | null; cost: number | null } }): AiUsageTotals => ({
+      calls: row._count._all,
+      inputTokens: row._sum.inputTokens ?? 0,
+      outputTokens: row._sum.outputTokens ?? 0,
+      cost: row._sum.cost ?? 0
+    })
+
+    // Days without calls are filled in so charts show the gaps
+    const dayTotals = new Map(byDay.map(row => [row.day.toISOString().slice(0, 10), row]))
+    const dayList = Array.from({ length: days }, (_, index) => {
+      const day = new Date(from.getTime() + index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      const row = dayTotals.get(day)
+      return {
+        day,
+        calls: row?.calls ?? 0,
+        inputTokens: row?.inputTokens ?? 0,
+        outputTokens: row?.outputTokens ?? 0,
+        cost: row?.cost ?? 0
+      }
+    })
+
+    return {
+      from: from.toISOString(),
+      to: now.toISOString(),
+      totals: toTotals(totals),
+      byFeature: byFeature
+        .map(row => ({ feature: row.feature, ...toTotals(row) }))
+        .sort((a, b) => b.cost - a.cost),
+      byModel: byModel
+        .map(row => ({ model: row.model, ...toTotals(row) }))
+        .sort((a, b) => b.cost - a.cost),
+      byDay: dayList
+    }
+  }
+
+  async listBudgets(): Promise<AiBudget[]> {
+    return this.prisma.aiBudget.findMany({ orderBy: { period: 'asc' } })
+  }
+
+  /**
+   * Create or update the budget for a period
+   */
+  async upsertBudget(
+    period: AiBudgetPeriod,
+    data: Pick<AiBudget, 'limitUsd'> & Partial<Pick<AiBudget, 'warnAtPercent' | 'pauseQueues' | 'enabled'>>
+  ): Promise<AiBudget> {
+    const budget = await this.prisma.aiBudget.upsert({
+      where: { period },
+      create: { period, ...data },
+      update: data
+    })
+    this.pauseCache = null
+    return budget
+  }
+
+  async deleteBudget(period: AiBudgetPeriod): Promise<void> {
+    await this.prisma.aiBudget.deleteMany({ where: { period } })
+    this.pauseCache = null
+  }
+
+  /**
+   * Spend against each configured budget in its current period
+   */
+  async getBudgetStatus(now = new Date()): Promise<AiBudgetStatus[]> {
+    const budgets = await this.listBudgets()
+
+    return Promise.all(budgets.map(async budget => {
+      const period = budget.period as AiBudgetPeriod
+      const periodStart = getPeriodStart(period, now)
+      const spent = await this.prisma.aiUsageEvent.aggregate({
+        where: { createdAt: { gte: periodStart } },
+        _sum: { cost: true }
+      })
+      const spentUsd = spent._sum.cost ?? 0
+
+      return {
+        period,
+        limitUsd: budget.limitUsd,
+        warnAtPercent: budget.warnAtPercent,
+        pauseQueues: budget.pauseQueues,
+        enabled: budget.enabled,
+        spentUsd,
+        percentUsed: budget.limitUsd > 0 ? (spentUsd / budget.limitUsd) * 100 : 100,
+        state: getBudgetState(budget, spentUsd),
+        periodStart: periodStart.toISOString()
+      }
+    }))
+  }
+
+  /**
+   * Whether background AI queues should be paused, cached briefly so workers
+   * can check before every job
+   */
+  async isOverBudget(): Promise<boolean> {
+    if (this.pauseCache && this.pauseCache.expiresAt > Date.now()) {
+      return this.pauseCache.value
+    }
+
+    const value = shouldPauseAiQueues(await this.getBudgetStatus())
+    this.pauseCache = { value, expiresAt: Date.now() + BUDGET_CACHE_MS }
+    return value
+  }
+}
+
+// Export singleton instance
+export const aiUsageService = new AiUsageService()
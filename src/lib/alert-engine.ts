@@ -0,0 +1,355 @@
+/**
+ * Alert Engine
+ *
+ * Evaluates user-defined alert rules against posts after they are scraped.
+ * Rules compare a metric (or its growth over a window of metrics history) to a
+ * threshold, can be scoped to a profile, profile group or post category, and
+ * are deduplicated per post via AlertEvent rows. Snoozed rules are skipped.
+ */
+
+import {
+  PrismaClient,
+  AlertCondition,
+  AlertMetric,
+  type AlertRule,
+} from '@/generated/prisma'
+import { notificationService } from './notification-service'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Defaults when a rule leaves its window unset
+const DEFAULT_GROWTH_WINDOW_HOURS = 24
+const DEFAULT_NEW_POST_MAX_AGE_HOURS = 24
+
+export interface MetricSnapshot {
+  viewCount: bigint | number | null
+  likeCount: number | null
+  shareCount: number | null
+  commentCount: number | null
+  saveCount: number | null
+}
+
+export interface AlertPost extends MetricSnapshot {
+  id: string
+  profileId: string
+  postCategoryId: string | null
+  publishedAt: Date | null
+  createdAt: Date
+}
+
+export interface MetricHistoryEntry extends MetricSnapshot {
+  recordedAt: Date
+}
+
+export type AlertRuleCondition = Pick<
+  AlertRule,
+  | 'metric'
+  | 'condition'
+  | 'threshold'
+  | 'windowHours'
+  | 'minPostAgeHours'
+  | 'maxPostAgeHours'
+  | 'profileId'
+  | 'profileGroupId'
+  | 'postCategoryId'
+>
+
+export type ActiveAlertRule = AlertRule & { channels: Array<{ id: string }> }
+
+export interface AlertEvaluationResult {
+  rulesEvaluated: number
+  postsEvaluated: number
+  alertsTriggered: number
+}
+
+export function getMetricValue(metric: AlertMetric, snapshot: MetricSnapshot): number {
+  const views = Number(snapshot.viewCount ?? 0)
+
+  switch (metric) {
+    case AlertMetric.VIEWS:
+      return views
+    case AlertMetric.LIKES:
+      return snapshot.likeCount ?? 0
+    case AlertMetric.SHARES:
+      return snapshot.shareCount ?? 0
+    case AlertMetric.COMMENTS:
+      return snapshot.commentCount ?? 0
+    case AlertMetric.SAVES:
+      return snapshot.saveCount ?? 0
+    case AlertMetric.ENGAGEMENT_RATE: {
+      if (views === 0) return 0
+      const engagements =
+        (snapshot.likeCount ?? 0) +
+        (snapshot.commentCount ?? 0) +
+        (snapshot.shareCount ?? 0) +
+        (snapshot.saveCount ?? 0)
+      return (engagements / views) * 100
+    }
+  }
+}
+
+/**
+ * Whether a post falls inside the rule's profile/group/category scope
+ */
+export function matchesScope(
+  rule: AlertRuleCondition,
+  post: AlertPost,
+  profileGroupId: string | null
+): boolean {
+  if (rule.profileId && rule.profileId !== post.profileId) return false
+  if (rule.profileGroupId && rule.profileGroupId !== profileGroupId) return false
+  if (rule.postCategoryId && rule.postCategoryId !== post.postCategoryId) return false
+  return true
+}
+
+/**
+ * Snapshot to measure growth from: the latest history entry at or before the
+ * window start, otherwise the oldest entry inside the window. History must be
+ * sorted by recordedAt ascending.
+ */
+export function selectBaseline(
+  history: MetricHistoryEntry[],
+  windowStart: Date
+): MetricHistoryEntry | null {
+  let baseline: MetricHistoryEntry | null = null
+
+  for (const entry of history) {
+    if (entry.recordedAt <= windowStart) {
+      baseline = entry
+    } else {
+      return baseline ?? entry
+    }
+  }
+
+  return baseline
+}
+
+/**
+ * Evaluate one rule against one post. Returns the value that triggered the
+ * rule (metric, growth or growth %), or null when it does not fire.
+ */
+export function evaluateRule(
+  rule: AlertRuleCondition,
+  post: AlertPost,
+  history: MetricHistoryEntry[],
+  now: Date = new Date()
+): number | null {
+  const postDate = post.publishedAt ?? post.createdAt
+  const ageHours = (now.getTime() - postDate.getTime()) / HOUR_MS
+
+  if (rule.condition === AlertCondition.NEW_POST) {
+    const maxAge = rule.maxPostAgeHours ?? DEFAULT_NEW_POST_MAX_AGE_HOURS
+    return ageHours <= maxAge ? ageHours : null
+  }
+
+  if (rule.minPostAgeHours != null && ageHours < rule.minPostAgeHours) return null
+  if (rule.maxPostAgeHours != null && ageHours > rule.maxPostAgeHours) return null
+
+  const current = getMetricValue(rule.metric, post)
+
+  switch (rule.condition) {
+    case AlertCondition.ABOVE:
+      return current >= rule.threshold ? current : null
+
+    case AlertCondition.BELOW:
+      return current < rule.threshold ? current : null
+
+    case AlertCondition.GROWTH_ABOVE:
+    case AlertCondition.GROWTH_PERCENT_ABOVE: {
+      const windowHours = rule.windowHours ?? DEFAULT_GROWTH_WINDOW_HOURS
+      const windowStart = new Date(now.getTime() - windowHours * HOUR_MS)
+
+      // Posts published inside the window grew from zero
+      const baseline = postDate >= windowStart ? null : selectBaseline(history, windowStart)
+      if (!baseline && postDate < windowStart) return null
+
+      const previous = baseline ? getMetricValue(rule.metric, baseline) : 0
+      const growth = current - previous
+
+      if (rule.condition === AlertCondition.GROWTH_ABOVE) {
+        return growth >= rule.threshold ? growth : null
+      }
+
+      if (previous <= 0) return null
+      const growthPercent = (growth / previous) * 100
+      return growthPercent >= rule.threshold ? growthPercent : null
+    }
+  }
+
+  return null
+}
+
+class AlertEngine {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Active (enabled, not snoozed) rules
+   */
+  async getActiveRules(now: Date = new Date()): Promise<ActiveAlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: {
+        enabled: true,
+        OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }],
+      },
+      include: {
+        channels: { select: { id: true } },
+      },
+    })
+  }
+
+  /**
+   * Evaluate all active rules against the given posts and deliver alerts
+   */
+  async evaluatePosts(postIds: string[], now: Date = new Date()): Promise<AlertEvaluationResult> {
+    const rules = await this.getActiveRules(now)
+
+    if (rules.length === 0 || postIds.length === 0) {
+      return { rulesEvaluated: rules.length, postsEvaluated: 0, alertsTriggered: 0 }
+    }
+
+    const posts = await this.prisma.tiktokPost.findMany({
+      where: { id: { in: postIds } },
+      select: {
+        id: true,
+        profileId: true,
+        postCategoryId: true,
+        publishedAt: true,
+        createdAt: true,
+        tiktokUrl: true,
+        title: true,
+        description: true,
+        viewCount: true,
+        likeCount: true,
+        shareCount: true,
+        commentCount: true,
+        saveCount: true,
+        profile: { select: { handle: true, profileGroupId: true } },
+      },
+    })
+
+    const historyByPost = await this.loadHistory(rules, posts.map(post => post.id), now)
+    const lastFiredAt = await this.loadLastEvents(rules.map(rule => rule.id), posts.map(post => post.id))
+
+    let alertsTriggered = 0
+    const firedRuleIds = new Set<string>()
+
+    for (const rule of rules) {
+      for (const post of posts) {
+        if (!matchesScope(rule, post, post.profile.profileGroupId)) continue
+
+        const value = evaluateRule(rule, post, historyByPost.get(post.id) ?? [], now)
+        if (value === null) continue
+
+        // Dedupe: once per post, or once per cooldown period
+        const previous = lastFiredAt.get(`${rule.id}:${post.id}`)
+        if (previous) {
+          if (rule.cooldownHours == null) continue
+          if (now.getTime() - previous.getTime() < rule.cooldownHours * HOUR_MS) continue
+        }
+
+        try {
+          const notificationId = await notificationService.notifyAlert(rule, post, value)
+
+          await this.prisma.alertEvent.create({
+            data: { ruleId: rule.id, postId: post.id, value, notificationId },
+          })
+
+          alertsTriggered++
+          firedRuleIds.add(rule.id)
+        } catch (error) {
+          console.error(`❌ [AlertEngine] Failed to deliver alert "${rule.name}" for post ${post.id}:`, error)
+        }
+      }
+    }
+
+    if (firedRuleIds.size > 0) {
+      await this.prisma.alertRule.updateMany({
+        where: { id: { in: Array.from(firedRuleIds) } },
+        data: { lastTriggeredAt: now },
+      })
+    }
+
+    console.log(`🔔 [AlertEngine] Evaluated ${rules.length} rule(s) on ${posts.length} post(s), ${alertsTriggered} alert(s) triggered`)
+
+    return { rulesEvaluated: rules.length, postsEvaluated: posts.length, alertsTriggered }
+  }
+
+  /**
+   * Snooze a rule until the given time (null to unsnooze)
+   */
+  async snoozeRule(ruleId: string, until: Date | null): Promise<AlertRule> {
+    const rule = await this.prisma.alertRule.findUnique({ where: { id: ruleId } })
+    if (!rule) {
+      throw new Error('Alert rule not found')
+    }
+
+    return this.prisma.alertRule.update({
+      where: { id: ruleId },
+      data: { snoozedUntil: until },
+    })
+  }
+
+  /**
+   * Metrics history covering the longest growth window among the rules
+   */
+  private async loadHistory(
+    rules: ActiveAlertRule[],
+    postIds: string[],
+    now: Date
+  ): Promise<Map<string, MetricHistoryEntry[]>> {
+    const historyByPost = new Map<string, MetricHistoryEntry[]>()
+
+    const growthWindows = rules
+      .filter(rule =>
+        rule.condition === AlertCondition.GROWTH_ABOVE ||
+        rule.condition === AlertCondition.GROWTH_PERCENT_ABOVE
+      )
+      .map(rule => rule.windowHours ?? DEFAULT_GROWTH_WINDOW_HOURS)
+
+    if (growthWindows.length === 0) return historyByPost
+
+    // Look back twice the window so a baseline before the window start is usually available
+    const since = new Date(now.getTime() - Math.max(...growthWindows) * 2 * HOUR_MS)
+
+    const history = await this.prisma.tikTokPostMetricsHistory.findMany({
+      where: { postId: { in: postIds }, recordedAt: { gte: since } },
+      orderBy: { recordedAt: 'asc' },
+    })
+
+    for (const entry of history) {
+      const entries = historyByPost.get(entry.postId) ?? []
+      entries.push(entry)
+      historyByPost.set(entry.postId, entries)
+    }
+
+    return historyByPost
+  }
+
+  /**
+   * Most recent firing per rule/post pair
+   */
+  private async loadLastEvents(ruleIds: string[], postIds: string[]): Promise<Map<string, Date>> {
+    const events = await this.prisma.alertEvent.findMany({
+      where: { ruleId: { in: ruleIds }, postId: { in: postIds } },
+      select: { ruleId: true, postId: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const lastFiredAt = new Map<string, Date>()
+    for (const event of events) {
+      const key = `${event.ruleId}:${event.postId}`
+      if (!lastFiredAt.has(key)) {
+        lastFiredAt.set(key, event.createdAt)
+      }
+    }
+
+    return lastFiredAt
+  }
+}
+
+export const alertEngine = new AlertEngine()
+export default AlertEngine
@@ -0,0 +1,451 @@
+/**
+ * Analysis Tools Service
+ *
+ * Typed tools the content analysis chat can call to query the database,
+ * instead of having post data pasted into its prompt. Arguments from the
+ * model are validated with zod; results are plain JSON (no BigInt) kept
+ * small enough to send back to the model.
+ */
+
+import { Type } from '@google/genai'
+import { z } from 'zod'
+import { PrismaClient, Prisma } from '@/generated/prisma'
+import type { LLMSchema, LLMTool, LLMToolCall } from './llm'
+
+const prisma = new PrismaClient()
+
+type ToolResult = Record<string, unknown>
+
+const DateString = z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date')
+
+const PostFiltersSchema = z.object({
+  profileHandles: z.array(z.string()).max(50).optional(),
+  categories: z.array(z.string()).max(50).optional(),
+  postIds: z.array(z.string()).max(200).optional(),
+  dateFrom: DateString.optional(),
+  dateTo: DateString.optional(),
+  contentType: z.enum(['photo', 'video']).optional(),
+})
+
+export type PostFilters = z.infer<typeof PostFiltersSchema>
+
+const POST_FILTERS_SCHEMA: LLMSchema = {
+  type: Type.OBJECT,
+  description: 'Optional filters. Omit to use every scraped post.',
+  properties: {
+    profileHandles: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Author handles, without the @'
+    },
+    categories: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Post category names'
+    },
+    postIds: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Restrict to these post ids (e.g. the posts the user selected)'
+    },
+    dateFrom: {
+      type: Type.STRING,
+      description: 'ISO date; only posts published on or after it'
+    },
+    dateTo: {
+      type: Type.STRING,
+      description: 'ISO date; only posts published on or before it'
+    },
+    contentType: {
+      type: Type.STRING,
+      enum: ['photo', 'video']
+    }
+  }
+}
+
+const METRIC_ORDERS = {
+  posts: Prisma.raw('"posts"'),
+  totalViews: Prisma.raw('"totalViews"'),
+  avgViews: Prisma.raw('"avgViews"'),
+  engagementRate: Prisma.raw('"engagementRate"'),
+}
+
+const GROUP_KEYS = {
+  profile: Prisma.sql`p."authorHandle"`,
+  category: Prisma.sql`COALESCE(c."name", 'Uncategorized')`,
+  week: Prisma.sql`to_char(date_trunc('week', p."publishedAt"), 'YYYY-MM-DD')`,
+  month: Prisma.sql`to_char(date_trunc('month', p."publishedAt"), 'YYYY-MM')`,
+}
+
+const METRIC_COLUMNS = Prisma.sql`
+  COUNT(*)::int AS "posts",
+  COALESCE(SUM(p."viewCount"), 0)::float8 AS "totalViews",
+  COALESCE(AVG(p."viewCount"), 0)::float8 AS "avgViews",
+  COALESCE(AVG(p."likeCount"), 0)::float8 AS "avgLikes",
+  COALESCE(AVG(p."commentCount"), 0)::float8 AS "avgComments",
+  COALESCE(AVG(p."shareCount"), 0)::float8 AS "avgShares",
+  COALESCE(AVG(p."saveCount"), 0)::float8 AS "avgSaves",
+  COALESCE(
+    SUM(COALESCE(p."likeCount", 0) + COALESCE(p."commentCount", 0) + COALESCE(p."shareCount", 0) + COALESCE(p."saveCount", 0))::float8
+      / NULLIF(SUM(p."viewCount"), 0) * 100,
+    0
+  )::float8 AS "engagementRate"
+`
+
+interface MetricsRow {
+  group?: string | null
+  posts: number
+  totalViews: number
+  avgViews: number
+  avgLikes: number
+  avgComments: number
+  avgShares: number
+  avgSaves: number
+  engagementRate: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function formatMetrics({ group, ...metrics }: MetricsRow) {
+  return {
+    ...(group !== undefined && { group }),
+    ...Object.fromEntries(Object.entries(metrics).map(([key, value]) => [key, round(Number(value))]))
+  }
+}
+
+function normalizeHandles(handles: string[]): string[] {
+  return handles.map(handle => handle.replace(/^@/, '').trim()).filter(Boolean)
+}
+
+function parseJsonArray(value: unknown): any[] {
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function toWhereSql(filters: PostFilters = {}): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`]
+
+  if (filters.profileHandles?.length) {
+    conditions.push(Prisma.sql`p."authorHandle" IN (${Prisma.join(normalizeHandles(filters.profileHandles))})`)
+  }
+  if (filters.categories?.length) {
+    conditions.push(Prisma.sql`c."name" IN (${Prisma.join(filters.categories)})`)
+  }
+  if (filters.postIds?.length) {
+    conditions.push(Prisma.sql`p."id" IN (${Prisma.join(filters.postIds)})`)
+  }
+  if (filters.dateFrom) {
+    conditions.push(Prisma.sql`p."publishedAt" >= ${new Date(filters.dateFrom)}`)
+  }
+  if (filters.dateTo) {
+    conditions.push(Prisma.sql`p."publishedAt" <= ${new Date(filters.dateTo)}`)
+  }
+  if (filters.contentType) {
+    conditions.push(Prisma.sql`p."contentType" = ${filters.contentType}`)
+  }
+
+  return Prisma.join(conditions, ' AND ')
+}
+
+function toPostWhere(filters: PostFilters = {}): Prisma.TiktokPostWhereInput {
+  return {
+    ...(filters.profileHandles?.length && { authorHandle: { in: normalizeHandles(filters.profileHandles) } }),
+    ...(filters.categories?.length && { postCategory: { name: { in: filters.categories } } }),
+    ...(filters.postIds?.length && { id: { in: filters.postIds } }),
+    ...(filters.contentType && { contentType: filters.contentType }),
+    ...((filters.dateFrom || filters.dateTo) && {
+      publishedAt: {
+        ...(filters.dateFrom && { gte: new Date(filters.dateFrom) }),
+        ...(filters.dateTo && { lte: new Date(filters.dateTo) })
+      }
+    })
+  }
+}
+
+async function queryMetrics(filters: PostFilters | undefined): Promise<MetricsRow | undefined> {
+  const [row] = await prisma.$queryRaw<MetricsRow[]>`
+    SELECT ${METRIC_COLUMNS}
+    FROM "tiktok_posts" p
+    LEFT JOIN "post_categories" c ON c."id" = p."postCategoryId"
+    WHERE ${toWhereSql(filters)}
+  `
+  return row
+}
+
+const AggregateMetricsArgs = z.object({
+  groupBy: z.enum(['profile', 'category', 'week', 'month']),
+  orderBy: z.enum(['posts', 'totalViews', 'avgViews', 'engagementRate']).optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+  filters: PostFiltersSchema.optional(),
+})
+
+async function aggregateMetrics(args: z.infer<typeof AggregateMetricsArgs>): Promise<ToolResult> {
+  const isTimeSeries = args.groupBy === 'week' || args.groupBy === 'month'
+  const limit = args.limit ?? 20
+  const orderBy = isTimeSeries && !args.orderBy
+    ? Prisma.raw('"group"')
+    : METRIC_ORDERS[args.orderBy ?? 'posts']
+
+  const rows = await prisma.$queryRaw<MetricsRow[]>`
+    SELECT ${GROUP_KEYS[args.groupBy]} AS "group", ${METRIC_COLUMNS}
+    FROM "tiktok_posts" p
+    LEFT JOIN "post_categories" c ON c."id" = p."postCategoryId"
+    WHERE ${toWhereSql(args.filters)}${isTimeSeries ? Prisma.sql` AND p."publishedAt" IS NOT NULL` : Prisma.empty}
+    GROUP BY 1
+    ORDER BY ${orderBy} DESC NULLS LAST
+    LIMIT ${limit}
+  `
+
+  // Time series read best oldest first
+  const groups = (isTimeSeries && !args.orderBy ? [...rows].reverse() : rows).map(formatMetrics)
+  return { groupBy: args.groupBy, groups }
+}
+
+const PostOcrArgs = z.object({
+  postIds: z.array(z.string()).min(1).max(10),
+  includeVisuals: z.boolean().optional(),
+})
+
+async function getPostOcr(args: z.infer<typeof PostOcrArgs>): Promise<ToolResult> {
+  const posts = await prisma.tiktokPost.findMany({
+    where: { id: { in: args.postIds } },
+    select: {
+      id: true,
+      tiktokUrl: true,
+      authorHandle: true,
+      publishedAt: true,
+      description: true,
+      viewCount: true,
+      likeCount: true,
+      commentCount: true,
+      shareCount: true,
+      saveCount: true,
+      ocrStatus: true,
+      ocrTexts: true,
+      imageDescriptions: true,
+      slideClassifications: true,
+      postCategory: { select: { name: true } }
+    }
+  })
+
+  return {
+    posts: posts.map(post => {
+      const classifications = parseJsonArray(post.slideClassifications)
+      const visuals = parseJsonArray(post.imageDescriptions)
+
+      return {
+        id: post.id,
+        url: post.tiktokUrl,
+        author: post.authorHandle,
+        publishedAt: post.publishedAt?.toISOString() ?? null,
+        category: post.postCategory?.name ?? null,
+        description: post.description,
+        views: Number(post.viewCount ?? 0),
+        likes: post.likeCount ?? 0,
+        comments: post.commentCount ?? 0,
+        shares: post.shareCount ?? 0,
+        saves: post.saveCount ?? 0,
+        ocrStatus: post.ocrStatus,
+        slides: parseJsonArray(post.ocrTexts).map(ocr => ({
+          index: ocr.imageIndex,
+          type: classifications.find(c => c.slideIndex === ocr.imageIndex)?.slideType ?? null,
+          text: typeof ocr.text === 'string' ? ocr.text.trim() : '',
+          ...(args.includeVisuals && {
+            visual: visuals.find(v => v.imageIndex === ocr.imageIndex)?.imageDescription ?? null
+          })
+        }))
+      }
+    }),
+    notFound: args.postIds.filter(id => !posts.some(post => post.id === id))
+  }
+}
+
+const HOOK_SORT_FIELDS = {
+  views: 'viewCount',
+  likes: 'likeCount',
+  comments: 'commentCount',
+  shares: 'shareCount',
+  saves: 'saveCount',
+} as const
+
+const TopHooksArgs = z.object({
+  sortBy: z.enum(['views', 'likes', 'comments', 'shares', 'saves']).optional(),
+  limit: z.number().int().min(1).max(30).optional(),
+  filters: PostFiltersSchema.optional(),
+})
+
+async function listTopHooks(args: z.infer<typeof TopHooksArgs>): Promise<ToolResult> {
+  const sortBy = args.sortBy ?? 'views'
+
+  const posts = await prisma.tiktokPost.findMany({
+    where: { ...toPostWhere(args.filters), ocrStatus: 'completed' },
+    orderBy: { [HOOK_SORT_FIELDS[sortBy]]: { sort: 'desc', nulls: 'last' } },
+    take: args.limit ?? 10,
+    select: {
+      id: true,
+      tiktokUrl: true,
+      authorHandle: true,
+      publishedAt: true,
+      viewCount: true,
+      likeCount: true,
+      commentCount: true,
+      shareCount: true,
+      saveCount: true,
+      ocrTexts: true,
+      slideClassifications: true,
+      postCategory: { select: { name: true } }
+    }
+  })
+
+  return {
+    sortBy,
+    hooks: posts.map(post => {
+      // The slide classified as the hook, else the first slide
+      const hookIndex = parseJsonArray(post.slideClassifications)
+        .find(c => c.slideType === 'hook')?.slideIndex ?? 0
+      const hook = parseJsonArray(post.ocrTexts).find(ocr => ocr.imageIndex === hookIndex)?.text
+      const views = Number(post.viewCount ?? 0)
+      const interactions = (post.likeCount ?? 0) + (post.commentCount ?? 0) + (post.shareCount ?? 0) + (post.saveCount ?? 0)
+
+      return {
+        postId: post.id,
+        url: post.tiktokUrl,
+        author: post.authorHandle,
+        publishedAt: post.publishedAt?.toISOString() ?? null,
+        category: post.postCategory?.name ?? null,
+        hook: typeof hook === 'string' ? hook.trim() : '',
+        views,
+        likes: post.likeCount ?? 0,
+        shares: post.shareCount ?? 0,
+        saves: post.saveCount ?? 0,
+        engagementRate: views > 0 ? round((interactions / views) * 100) : 0
+      }
+    })
+  }
+}
+
+const CompareGroupsArgs = z.object({
+  groups: z.array(z.object({
+    label: z.string().min(1),
+    filters: PostFiltersSchema.optional(),
+  })).min(2).max(4),
+})
+
+async function compareGroups(args: z.infer<typeof CompareGroupsArgs>): Promise<ToolResult> {
+  const groups = []
+  for (const group of args.groups) {
+    const row = await queryMetrics(group.filters)
+    groups.push({ label: group.label, ...(row ? formatMetrics(row) : { posts: 0 }) })
+  }
+  return { groups }
+}
+
+interface AnalysisTool {
+  definition: LLMTool
+  run(args: unknown): Promise<ToolResult>
+}
+
+function defineTool<T>(
+  definition: LLMTool,
+  input: z.ZodType<T>,
+  run: (args: T) => Promise<ToolResult>
+): AnalysisTool {
+  return {
+    definition,
+    async run(args) {
+      const parsed = input.safeParse(args)
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'args'}: ${issue.message}`)
+        throw new Error(`Invalid arguments for ${definition.name}: ${issues.join('; ')}`)
+      }
+      return run(parsed.data)
+    }
+  }
+}
+
+const TOOLS: AnalysisTool[] = [
+  defineTool({
+    name: 'aggregate_post_metrics',
+    description: 'Count posts and aggregate views, likes, comments, shares, saves and engagement rate, grouped by profile, post category, week or month.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        groupBy: { type: Type.STRING, enum: ['profile', 'category', 'week', 'month'] },
+        orderBy: {
+          type: Type.STRING,
+          enum: ['posts', 'totalViews', 'avgViews', 'engagementRate'],
+          description: 'Metric to sort groups by (descending). Time groupings default to chronological order.'
+        },
+        limit: { type: Type.INTEGER, description: 'Max groups to return (default 20, max 50)' },
+        filters: POST_FILTERS_SCHEMA
+      },
+      required: ['groupBy']
+    }
+  }, AggregateMetricsArgs, aggregateMetrics),
+
+  defineTool({
+    name: 'get_post_ocr',
+    description: 'Fetch the slide-by-slide OCR text, slide types (hook/content/cta), category and metrics of specific posts.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        postIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Up to 10 post ids' },
+        includeVisuals: { type: Type.BOOLEAN, description: 'Also return the visual description of each slide' }
+      },
+      required: ['postIds']
+    }
+  }, PostOcrArgs, getPostOcr),
+
+  defineTool({
+    name: 'list_top_hooks',
+    description: 'List the hook (opening slide) text of the best performing OCR-processed posts, with their metrics.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        sortBy: { type: Type.STRING, enum: ['views', 'likes', 'comments', 'shares', 'saves'] },
+        limit: { type: Type.INTEGER, description: 'Max posts to return (default 10, max 30)' },
+        filters: POST_FILTERS_SCHEMA
+      }
+    }
+  }, TopHooksArgs, listTopHooks),
+
+  defineTool({
+    name: 'compare_groups',
+    description: 'Compare aggregate metrics of 2 to 4 groups of posts, each defined by its own filters (e.g. two profiles, two categories or two time ranges).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        groups: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING, description: 'Name for the group in the comparison' },
+              filters: POST_FILTERS_SCHEMA
+            },
+            required: ['label']
+          }
+        }
+      },
+      required: ['groups']
+    }
+  }, CompareGroupsArgs, compareGroups),
+]
+
+export const ANALYSIS_TOOLS: LLMTool[] = TOOLS.map(tool => tool.definition)
+
+/**
+ * Run a tool call from the model. Throws for unknown tools and invalid
+ * arguments; the caller reports the message back to the model.
+ */
+export async function runAnalysisTool(call: LLMToolCall): Promise<ToolResult> {
+  const tool = TOOLS.find(candidate => candidate.definition.name === call.name)
+  if (!tool) {
+    throw new Error(`Unknown tool: ${call.name}`)
+  }
+  return tool.run(call.args)
+}
@@ -0,0 +1,248 @@
+/**
+ * Auth Service
+ *
+ * User accounts and database-backed sessions. Passwords are hashed with
+ * scrypt; session tokens are random and only their SHA-256 is stored, so a
+ * database leak does not hand out live sessions.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { PrismaClient } from '@/generated/prisma'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+const PASSWORD_KEY_LENGTH = 64
+const DAY_MS = 24 * 60 * 60 * 1000
+// lastUsedAt is only written this often to keep reads cheap
+const SESSION_TOUCH_INTERVAL_MS = 60 * 60 * 1000
+
+export const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '30', 10)
+
+// Ordered from least to most privileged - each role can do everything the previous ones can
+export const USER_ROLES = ['viewer', 'reviewer', 'editor', 'admin'] as const
+export type UserRole = typeof USER_ROLES[number]
+
+export interface AuthUser {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+export function hasRole(role: string, minRole: UserRole): boolean {
+  return isUserRole(role) && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minRole)
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const hash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)
+  return `${salt}:${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [salt, hash] = passwordHash.split(':')
+  if (!salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, salt, expected.length)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase()
+
+const toAuthUser = (user: { id: string; email: string; name: string | null; role: string }): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: isUserRole(user.role) ? user.role : 'viewer'
+})
+
+class AuthService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  async createUser(data: { email: string; password: string; name?: string | null; role?: UserRole }): Promise<AuthUser> {
+    const email = normalizeEmail(data.email)
+
+    const existing = await this.prisma.user.findUnique({ where: { email } })
+    if (existing) {
+      throw new Error(`User already exists: ${email}`)
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email,
+        name: data.name ?? null,
+        passwordHash: await hashPassword(data.password),
+        role: data.role ?? 'viewer'
+      }
+    })
+
+    console.log(`👤 [AuthService] Created ${user.role} user ${email}`)
+
+    return toAuthUser(user)
+  }
+
+  /**
+   * Check credentials and open a new session. The returned token is only
+   * available here - store it in the session cookie.
+   */
+  async signIn(
+    email: string,
+    password: string,
+    userAgent?: string | null
+  ): Promise<{ user: AuthUser; token: string; expiresAt: Date }> {
+    const user = await this.prisma.user.findUnique({ where: { email: normalizeEmail(email) } })
+
+    // Same message for unknown emails, wrong passwords and deactivated users
+    if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+      throw new Error('Invalid email or password')
+    }
+
+    const token = randomBytes(32).toString('base64url')
+    const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * DAY_MS)
+
+    await this.prisma.$transaction([
+      this.prisma.session.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashSessionToken(token),
+          userAgent: userAgent?.slice(0, 500) ?? null,
+          expiresAt
+        }
+      }),
+      this.prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() }
+      })
+    ])
+
+    console.log(`🔐 [AuthService] ${user.email} signed in`)
+
+    return { user: toAuthUser(user), token, expiresAt }
+  }
+
+  async signOut(token: string): Promise<void> {
+    await this.prisma.session.deleteMany({ where: { tokenHash: hashSessionToken(token) } })
+  }
+
+  /**
+   * Resolve a session token to its user, or null when the session is unknown,
+   * expired or belongs to a deactivated user
+   */
+  async getUserBySessionToken(token: string): Promise<AuthUser | null> {
+    const session = await this.prisma.session.findUnique({
+      where: { tokenHash: hashSessionToken(token) },
+      include: {
+        user: { select: { id: true, email: true, name: true, role: true, isActive: true } }
+      }
+    })
+
+    if (!session || !session.user.isActive) return null
+
+    const now = Date.now()
+    if (session.expiresAt.getTime() <= now) {
+      await this.prisma.session.delete({ where: { id: session.id } }).catch(() => undefined)
+      return null
+    }
+
+    if (now - session.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await this.prisma.session.update({
+        where: { id: session.id },
+        data: { lastUsedAt: new Date(now) }
+      })
+    }
+
+    return toAuthUser(session.user)
+  }
+
+  async listUsers() {
+    return this.prisma.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isActive: true,
+        lastLoginAt: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  /**
+   * Update a user. Changing the password or deactivating the user signs out
+   * all of their sessions.
+   */
+  async updateUser(
+    id: string,
+    data: { name?: string | null; role?: UserRole; isActive?: boolean; password?: string }
+  ): Promise<AuthUser> {
+    const user = await this.prisma.user.findUnique({ where: { id } })
+    if (!user) {
+      throw new Error(`User not found: ${id}`)
+    }
+
+    const losesAdmin = user.role === 'admin' && user.isActive &&
+      ((data.role !== undefined && data.role !== 'admin') || data.isActive === false)
+    if (losesAdmin) {
+      await this.assertAnotherActiveAdmin(id)
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id },
+      data: {
+        name: data.name,
+        role: data.role,
+        isActive: data.isActive,
+        ...(data.password && { passwordHash: await hashPassword(data.password) })
+      }
+    })
+
+    if (data.password || data.isActive === false) {
+      await this.prisma.session.deleteMany({ where: { userId: id } })
+    }
+
+    return toAuthUser(updated)
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id } })
+    if (!user) {
+      throw new Error(`User not found: ${id}`)
+    }
+
+    if (user.role === 'admin' && user.isActive) {
+      await this.assertAnotherActiveAdmin(id)
+    }
+
+    // Sessions cascade; attributed content keeps existing with createdBy cleared
+    await this.prisma.user.delete({ where: { id } })
+  }
+
+  private async assertAnotherActiveAdmin(userId: string): Promise<void> {
+    const otherAdmins = await this.prisma.user.count({
+      where: { role: 'admin', isActive: true, id: { not: userId } }
+    })
+
+    if (otherAdmins === 0) {
+      throw new Error('Cannot remove the last active admin')
+    }
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService()
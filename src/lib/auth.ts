@@ -0,0 +1,68 @@
+/**
+ * Route handler authentication helpers
+ *
+ * Every API route calls requireRole() first:
+ *
+ *   const auth = await requireRole('editor')
+ *   if (auth.response) return auth.response
+ *
+ * The session token comes from the session cookie, or from an
+ * `Authorization: Bearer` header for clients that cannot keep cookies.
+ */
+
+import { cookies, headers } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { authService, hasRole, type AuthUser, type UserRole } from './auth-service'
+
+export const SESSION_COOKIE = 'session'
+
+type AuthResult =
+  | { user: AuthUser; response: null }
+  | { user: null; response: NextResponse }
+
+export async function getSessionToken(): Promise<string | null> {
+  const cookieStore = await cookies()
+  const cookieToken = cookieStore.get(SESSION_COOKIE)?.value
+  if (cookieToken) return cookieToken
+
+  const authorization = (await headers()).get('authorization')
+  const match = authorization?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const token = await getSessionToken()
+  if (!token) return null
+
+  return authService.getUserBySessionToken(token)
+}
+
+/**
+ * Require a signed-in user with at least `minRole`
+ * (viewer < reviewer < editor < admin)
+ */
+export async function requireRole(minRole: UserRole): Promise<AuthResult> {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    return {
+      user: null,
+      response: NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+  }
+
+  if (!hasRole(user.role, minRole)) {
+    return {
+      user: null,
+      response: NextResponse.json(
+        { error: 'Insufficient permissions', requiredRole: minRole },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user, response: null }
+}
@@ -0,0 +1,293 @@
+/**
+ * Brand Kit Service
+ *
+ * Brand kits hold a palette, fonts, text style presets, logos and default
+ * slide backgrounds. A kit is attached to a Project or a ProductContext and
+ * applied to drafts when they are created. A project's own kit wins over the
+ * kit of its product context.
+ */
+
+import { PrismaClient, type BrandKit, type Prisma } from '@/generated/prisma'
+import { cacheAssetService } from './cache-asset-service'
+import {
+  BRAND_TEXT_STYLE_FIELDS,
+  type BrandTextStyle,
+  type CreateBrandKitInput,
+  type UpdateBrandKitInput
+} from './validations/brand-kit-schema'
+
+export type SlideRole = 'Hook' | 'Content' | 'CTA'
+
+export interface BrandKitScope {
+  projectId?: string | null
+  productContextId?: string | null
+}
+
+type KitForSlides = Pick<BrandKit, 'headingFont' | 'bodyFont' | 'textStyles' | 'backgroundLayers'>
+
+type Slide = Record<string, any>
+
+export function parseTextStyles(value: unknown): BrandTextStyle[] {
+  return Array.isArray(value) ? (value as BrandTextStyle[]) : []
+}
+
+/**
+ * Style for a slide: the one made for its role, else the default, else the
+ * first style of the kit
+ */
+export function pickTextStyle(styles: BrandTextStyle[], role?: SlideRole): BrandTextStyle | undefined {
+  return (role && styles.find(style => style.slideType === role))
+    || styles.find(style => style.isDefault)
+    || styles[0]
+}
+
+/**
+ * Copy the style fields of a preset onto a text box, leaving its text,
+ * position and size alone
+ */
+export function applyTextStyle<T extends Record<string, any>>(textBox: T, style: Partial<BrandTextStyle>): T {
+  const styled: Record<string, any> = { ...textBox }
+  for (const field of BRAND_TEXT_STYLE_FIELDS) {
+    if (style[field] !== undefined) {
+      styled[field] = style[field]
+    }
+  }
+  return styled as T
+}
+
+function roleFromClassification(type: string | undefined): SlideRole | undefined {
+  switch (type?.toLowerCase()) {
+    case 'hook': return 'Hook'
+    case 'cta': return 'CTA'
+    case 'content': return 'Content'
+    default: return undefined
+  }
+}
+
+/**
+ * Only a plain colour fill (the default for new slides) or no background at
+ * all is replaced; images and gradients were picked on purpose
+ */
+function hasDefaultBackground(slide: Slide): boolean {
+  const layers = Array.isArray(slide.backgroundLayers) ? slide.backgroundLayers : []
+  return layers.length === 0 || (layers.length === 1 && layers[0]?.type === 'color')
+}
+
+/**
+ * Apply a brand kit to freshly created slides: default backgrounds become
+ * the kit's background layers and text boxes take the text style for their
+ * slide's role (or the kit's fonts when it has no styles).
+ */
+export function applyBrandKitToSlides<T extends Slide>(
+  slides: T[],
+  kit: KitForSlides,
+  slideClassifications?: Array<{ slideIndex: number; type?: string }> | null
+): T[] {
+  const styles = parseTextStyles(kit.textStyles)
+  const backgroundLayers = Array.isArray(kit.backgroundLayers) ? (kit.backgroundLayers as Slide[]) : []
+  const stamp = Date.now()
+
+  return slides.map((slide, index) => {
+    const role = roleFromClassification(
+      slideClassifications?.find(classification => classification.slideIndex === index)?.type
+    ) ?? (index === 0 ? 'Hook' : undefined)
+
+    const style = pickTextStyle(styles, role)
+    const font = role === 'Hook' ? kit.headingFont || kit.bodyFont : kit.bodyFont
+    const textStyle: Partial<BrandTextStyle> | undefined = style ?? (font ? { fontFamily: font } : undefined)
+
+    return {
+      ...slide,
+      ...(backgroundLayers.length > 0 && hasDefaultBackground(slide) && {
+        backgroundLayers: backgroundLayers.map((layer, layerIndex) => ({
+          ...layer,
+          id: `bg_${stamp}_${index}_${layerIndex}`
+        }))
+      }),
+      ...(textStyle && Array.isArray(slide.textBoxes) && {
+        textBoxes: slide.textBoxes.map((textBox: Slide) => applyTextStyle(textBox, textStyle))
+      })
+    }
+  })
+}
+
+class BrandKitService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  async listBrandKits() {
+    return this.prisma.brandKit.findMany({
+      include: {
+        _count: { select: { projects: true, productContexts: true } }
+      },
+      orderBy: { name: 'asc' }
+    })
+  }
+
+  /**
+   * A kit with its logo assets resolved to URLs
+   */
+  async getBrandKit(id: string) {
+    const kit = await this.prisma.brandKit.findUnique({
+      where: { id },
+      include: {
+        projects: { select: { id: true, name: true } },
+        productContexts: { select: { id: true, title: true } }
+      }
+    })
+
+    if (!kit) {
+      throw new Error(`Brand kit not found: ${id}`)
+    }
+
+    return { ...kit, logos: await this.getLogos(kit.logoAssetIds) }
+  }
+
+  async createBrandKit(input: CreateBrandKitInput, userId: string) {
+    const kit = await this.prisma.brandKit.create({
+      data: {
+        ...this.toData(input),
+        name: input.name,
+        createdById: userId,
+        updatedById: userId
+      }
+    })
+
+    console.log(`🎨 [BrandKit] Created "${kit.name}" (${kit.id})`)
+    return kit
+  }
+
+  async updateBrandKit(id: string, input: UpdateBrandKitInput, userId: string) {
+    await this.ensureExists(id)
+
+    return this.prisma.brandKit.update({
+      where: { id },
+      data: { ...this.toData(input), updatedById: userId }
+    })
+  }
+
+  /**
+   * Delete a kit; projects and product contexts using it fall back to none
+   */
+  async deleteBrandKit(id: string): Promise<void> {
+    await this.ensureExists(id)
+    await this.prisma.brandKit.delete({ where: { id } })
+    console.log(`🗑️ [BrandKit] Deleted ${id}`)
+  }
+
+  /**
+   * The kit that applies to a draft: the project's own kit, then the kit of
+   * the project's product context, then the kit of the draft's product context
+   */
+  async resolveBrandKit(scope: BrandKitScope): Promise<BrandKit | null> {
+    if (scope.projectId) {
+      const project = await this.prisma.project.findUnique({
+        where: { id: scope.projectId },
+        select: {
+          brandKit: true,
+          productContext: { select: { brandKit: true } }
+        }
+      })
+
+      const kit = project?.brandKit ?? project?.productContext?.brandKit
+      if (kit) return kit
+    }
+
+    if (scope.productContextId) {
+      const productContext = await this.prisma.productContext.findUnique({
+        where: { id: scope.productContextId },
+        select: { brandKit: true }
+      })
+
+      return productContext?.brandKit ?? null
+    }
+
+    return null
+  }
+
+  async resolveForRemix(remixId: string): Promise<BrandKit | null> {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { projectId: true, productContextId: true }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    return this.resolveBrandKit(remix)
+  }
+
+  /**
+   * Like resolveBrandKit, but branding is a nicety: lookup failures are
+   * logged and treated as no kit so draft creation goes on
+   */
+  async resolveBrandKitSafe(scope: BrandKitScope): Promise<BrandKit | null> {
+    try {
+      return await this.resolveBrandKit(scope)
+    } catch (error) {
+      console.error('❌ [BrandKit] Failed to resolve brand kit:', error)
+      return null
+    }
+  }
+
+  /**
+   * Apply the kit for a new draft's scope to its slides
+   */
+  async applyToNewSlides<T extends Slide>(
+    slides: T[],
+    scope: BrandKitScope,
+    slideClassifications?: Array<{ slideIndex: number; type?: string }> | null
+  ): Promise<T[]> {
+    const kit = await this.resolveBrandKitSafe(scope)
+    if (!kit) return slides
+
+    console.log(`🎨 [BrandKit] Applying "${kit.name}" to ${slides.length} new slides`)
+    return applyBrandKitToSlides(slides, kit, slideClassifications)
+  }
+
+  private async getLogos(assetIds: string[]) {
+    if (assetIds.length === 0) return []
+
+    const assets = await this.prisma.asset.findMany({
+      where: { id: { in: assetIds } },
+      select: { id: true, name: true, cacheAssetId: true, width: true, height: true }
+    })
+
+    // Keep the kit's order
+    const ordered = assetIds
+      .map(id => assets.find(asset => asset.id === id))
+      .filter((asset): asset is (typeof assets)[number] => !!asset)
+
+    const urls = await cacheAssetService.getUrls(ordered.map(asset => asset.cacheAssetId))
+    return ordered.map((asset, index) => ({ ...asset, url: urls[index] }))
+  }
+
+  private async ensureExists(id: string): Promise<void> {
+    const kit = await this.prisma.brandKit.findUnique({ where: { id }, select: { id: true } })
+    if (!kit) {
+      throw new Error(`Brand kit not found: ${id}`)
+    }
+  }
+
+  private toData(input: UpdateBrandKitInput) {
+    return {
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.palette !== undefined && { palette: input.palette }),
+      ...(input.headingFont !== undefined && { headingFont: input.headingFont }),
+      ...(input.bodyFont !== undefined && { bodyFont: input.bodyFont }),
+      ...(input.textStyles !== undefined && { textStyles: input.textStyles as Prisma.InputJsonValue }),
+      ...(input.logoAssetIds !== undefined && { logoAssetIds: input.logoAssetIds }),
+      ...(input.backgroundLayers !== undefined && {
+        backgroundLayers: input.backgroundLayers as Prisma.InputJsonValue
+      })
+    }
+  }
+}
+
+// Export singleton instance
+export const brandKitService = new BrandKitService()
@@ -5,8 +5,9 @@
  * Only analyzes CONTENT slides against HOOK and CTA reference slides.
  */
 
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { z } from 'zod'
+import { generateJSON, type LLMUsageEntity } from './llm'
 
 export interface CoherenceIssue {
   type: 'pov_inconsistency' | 'voice_mismatch' | 'tone_jump' | 'product_mismatch'
@@ -54,20 +55,18 @@ const CoherenceAnalysisSchema = z.object({
  * @param slides - All slides in the carousel
  * @param classifications - Slide type classifications
  * @param productContext - Optional product context for CTA validation
+ * @param entity - Draft being analyzed, recorded with the AI usage
  * @returns Coherence analysis with issues found
  */
 export async function analyzeCoherence(
   slides: Array<{ paraphrasedText: string }>,
   classifications: SlideClassification[],
-  productContext?: { title: string; description: string } | null
+  productContext?: { title: string; description: string } | null,
+  entity?: LLMUsageEntity
 ): Promise<CoherenceAnalysis> {
   try {
     console.log(`🔍 [CoherenceAnalysis] Analyzing ${slides.length} slides`)
 
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is required')
-    }
-
     // Helper to get slide type
     const getSlideType = (index: number) =>
       Array.isArray(classifications)
@@ -94,60 +93,37 @@ export async function analyzeCoherence(
 
     const prompt = buildAnalysisPrompt(contentSlides, hookSlide, ctaSlide)
 
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    })
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user',
-        parts: [{ text: prompt }]
-      }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            issues: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  type: { type: Type.STRING },
-                  slideIndices: {
-                    type: Type.ARRAY,
-                    items: { type: Type.NUMBER }
-                  },
-                  description: { type: Type.STRING },
-                  severity: { type: Type.STRING }
+    // Generate and validate response
+    const { data: analysis } = await generateJSON({
+      feature: 'coherence-analysis',
+      prompt,
+      entity,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          issues: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                type: { type: Type.STRING },
+                slideIndices: {
+                  type: Type.ARRAY,
+                  items: { type: Type.NUMBER }
                 },
-                required: ["type", "slideIndices", "description", "severity"]
-              }
-            },
-            affectedSlideCount: { type: Type.NUMBER },
-            recommendation: { type: Type.STRING }
+                description: { type: Type.STRING },
+                severity: { type: Type.STRING }
+              },
+              required: ["type", "slideIndices", "description", "severity"]
+            }
           },
-          required: ["issues", "affectedSlideCount", "recommendation"]
+          affectedSlideCount: { type: Type.NUMBER },
+          recommendation: { type: Type.STRING }
         },
-        temperature: 0.9 // Higher temp for better pattern recognition
-      }
-    })
-
-    if (!response.text) {
-      throw new Error('No response from AI model')
-    }
-
-    // Parse and validate response
-    const parsed = JSON.parse(response.text)
-    const validation = CoherenceAnalysisSchema.safeParse(parsed)
-
-    if (!validation.success) {
-      console.error(`❌ [CoherenceAnalysis] Invalid response structure:`, validation.error)
-      throw new Error('AI response does not match expected structure')
-    }
-
-    const analysis = validation.data
+        required: ["issues", "affectedSlideCount", "recommendation"]
+      },
+      temperature: 0.9 // Higher temp for better pattern recognition
+    }, CoherenceAnalysisSchema)
 
     // Add product context validation for CTA slides if product context is provided
     if (productContext) {
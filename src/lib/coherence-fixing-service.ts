@@ -5,8 +5,9 @@
  * Only fixes CONTENT slides using HOOK and CTA as reference points.
  */
 
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { z } from 'zod'
+import { generateJSON, generateText, type LLMSchema, type LLMUsageEntity } from './llm'
 
 export interface FixedSlide {
   slideIndex: number
@@ -42,20 +43,18 @@ const SlideFixSchema = z.object({
  * @param slides - All slides in the carousel
  * @param classifications - Slide type classifications
  * @param productContext - Optional product context for CTA product replacement
+ * @param entity - Draft the fix is for, recorded with the AI usage
  * @returns Fixed slides with changes summary
  */
 export async function fixCoherence(
   slides: Array<{ paraphrasedText: string }>,
   classifications: SlideClassification[],
-  productContext?: { title: string; description: string } | null
+  productContext?: { title: string; description: string } | null,
+  entity?: LLMUsageEntity
 ): Promise<CoherenceFixResult> {
   try {
     console.log(`🔧 [CoherenceFix] Fixing coherence for ${slides.length} slides`)
 
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is required')
-    }
-
     // Helper to get slide type
     const getSlideType = (index: number) =>
       Array.isArray(classifications)
@@ -84,12 +83,8 @@ export async function fixCoherence(
 
     const prompt = buildFixPrompt(contentSlides, hookSlide, ctaSlide)
 
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    })
-
     // Build dynamic schema properties for each content slide index
-    const slideProperties: Record<string, any> = {}
+    const slideProperties: Record<string, LLMSchema> = {}
     for (const idx of contentSlideIndices) {
       slideProperties[`slide_${idx}`] = {
         type: Type.OBJECT,
@@ -101,33 +96,21 @@ export async function fixCoherence(
       }
     }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user',
-        parts: [{ text: prompt }]
-      }],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            ...slideProperties,
-            summary: { type: Type.STRING }
-          },
-          required: [...contentSlideIndices.map(idx => `slide_${idx}`), "summary"]
+    const { data: parsed } = await generateJSON<Record<string, any>>({
+      feature: 'coherence-fixing',
+      prompt,
+      entity,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          ...slideProperties,
+          summary: { type: Type.STRING }
         },
-        temperature: 0.8 // Balanced between consistency and creativity
-      }
+        required: [...contentSlideIndices.map(idx => `slide_${idx}`), "summary"]
+      },
+      temperature: 0.8 // Balanced between consistency and creativity
     })
 
-    if (!response.text) {
-      throw new Error('No response from AI model')
-    }
-
-    // Parse response
-    const parsed = JSON.parse(response.text)
-
     // Convert object-based response to array format
     const fixedSlides: FixedSlide[] = []
     for (const idx of contentSlideIndices) {
@@ -153,7 +136,7 @@ export async function fixCoherence(
 
     // Fix CTA slides for product mentions if product context provided
     if (productContext) {
-      const ctaFixes = await fixCTAProductMentions(slides, classifications, productContext)
+      const ctaFixes = await fixCTAProductMentions(slides, classifications, productContext, entity)
       result.slides.push(...ctaFixes)
       if (ctaFixes.length > 0) {
         result.summary += ` Product mentions updated in CTA slides.`
@@ -217,12 +200,14 @@ ${contentSlides.map(({ index }) => `  "slide_${index}": { "fixedText": "minimall
  * @param slides - All slides in the carousel
  * @param classifications - Slide type classifications
  * @param productContext - Product context to use for replacement
+ * @param entity - Draft the fix is for, recorded with the AI usage
  * @returns Fixed CTA slides
  */
 async function fixCTAProductMentions(
   slides: Array<{ paraphrasedText: string }>,
   classifications: SlideClassification[],
-  productContext: { title: string; description: string }
+  productContext: { title: string; description: string },
+  entity?: LLMUsageEntity
 ): Promise<FixedSlide[]> {
   const fixedSlides: FixedSlide[] = []
 
@@ -275,7 +260,7 @@ async function fixCTAProductMentions(
     // If no product mention found but should have one, add it naturally
     if (!hasChanges && !text.toLowerCase().includes(productContext.title.toLowerCase())) {
       // Use AI to insert product mention naturally
-      fixedText = await insertProductMentionWithAI(text, productContext)
+      fixedText = await insertProductMentionWithAI(text, productContext, entity)
       if (fixedText !== text) {
         hasChanges = true
         changes.push(`Added product mention "${productContext.title}"`)
@@ -299,13 +284,10 @@ async function fixCTAProductMentions(
  */
 async function insertProductMentionWithAI(
   text: string,
-  productContext: { title: string; description: string }
+  productContext: { title: string; description: string },
+  entity?: LLMUsageEntity
 ): Promise<string> {
   try {
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY!,
-    })
-
     const prompt = `You are fixing a CTA (call-to-action) slide that is missing a product mention.
 
 Current slide text:
@@ -326,22 +308,14 @@ Instructions:
 
 Return ONLY the fixed text, no explanations or additional text.`
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user',
-        parts: [{ text: prompt }]
-      }],
-      config: {
-        temperature: 0.8
-      }
+    const response = await generateText({
+      feature: 'coherence-fixing',
+      prompt,
+      temperature: 0.8,
+      entity
     })
 
-    if (response.text) {
-      return response.text.trim()
-    }
-
-    return text
+    return response.text || text
   } catch (error) {
     console.error('[CoherenceFix] Failed to insert product mention with AI:', error)
     return text
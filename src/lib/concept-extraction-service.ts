@@ -1,10 +1,11 @@
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { PrismaClient } from '@/generated/prisma'
+import { generateJSON, type LLMSchema } from './llm'
 
 const prisma = new PrismaClient()
 
 // Schema for concept extraction
-const CONCEPT_EXTRACTION_SCHEMA = {
+const CONCEPT_EXTRACTION_SCHEMA: LLMSchema = {
   type: Type.OBJECT,
   properties: {
     concepts: {
@@ -65,7 +66,7 @@ interface ExtractionResult {
  * Extract concepts from posts using AI
  * Groups similar slide content into concepts with examples
  */
-export async function extractConceptsFromPosts(postIds: string[]): Promise<ExtractionResult> {
+export async function extractConceptsFromPosts(postIds: string[], createdById?: string): Promise<ExtractionResult> {
   const result: ExtractionResult = {
     conceptsCreated: 0,
     examplesAdded: 0,
@@ -169,6 +170,8 @@ export async function extractConceptsFromPosts(postIds: string[]): Promise<Extra
             title: concept.title,
             coreMessage: concept.coreMessage,
             type: concept.type,
+            createdById: createdById ?? null,
+            updatedById: createdById ?? null,
             examples: {
               create: {
                 text: concept.exampleText,
@@ -224,10 +227,6 @@ async function findSimilarConcept(title: string, coreMessage: string) {
 async function extractConceptsWithAI(
   slides: SlideContent[]
 ): Promise<ExtractedConcept[]> {
-  const ai = new GoogleGenAI({
-    apiKey: process.env.GEMINI_API_KEY,
-  })
-
   // Group slides by their pre-classified type for better extraction
   const hookSlides = slides.filter(s => s.slideType === 'hook')
   const contentSlides = slides.filter(s => s.slideType === 'content')
@@ -268,24 +267,12 @@ IMPORTANT RULES:
 - Create separate concepts for HOOK, CONTENT, and CTA patterns`
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user' as const,
-        parts: [{ text: prompt }],
-      }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: CONCEPT_EXTRACTION_SCHEMA,
-      },
+    const { data: parsed } = await generateJSON<{ concepts?: any[] }>({
+      feature: 'concept-extraction',
+      prompt,
+      schema: CONCEPT_EXTRACTION_SCHEMA,
     })
 
-    if (!response.text) {
-      console.error('No response from Gemini AI')
-      return []
-    }
-
-    const parsed = JSON.parse(response.text)
     const concepts = parsed.concepts || []
 
     // Convert to ExtractedConcept format
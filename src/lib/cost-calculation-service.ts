@@ -85,6 +85,40 @@ export function calculateCost(
   return inputCost + outputCost
 }
 
+/**
+ * Rates for models used by background features but not offered in the chat
+ * model picker (per 1 million tokens in USD)
+ */
+const OTHER_MODEL_RATES: Record<string, { input: number; output: number }> = {
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+}
+
+/**
+ * Calculate cost for any model name a provider reports (e.g. for the AI
+ * usage ledger). Unlike calculateCost, an unpriced model costs 0 instead of
+ * throwing, so recording usage never fails a model call.
+ * @param model - Model name as sent to the provider
+ * @param inputTokens - Number of input tokens
+ * @param outputTokens - Number of output tokens
+ * @returns Cost in USD
+ */
+export function calculateModelCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const pricing = MODEL_PRICING[model as GeminiModel]
+  const rates = pricing
+    ? { input: pricing.inputCostPerMillionTokens, output: pricing.outputCostPerMillionTokens }
+    : OTHER_MODEL_RATES[model]
+  if (!rates) {
+    return 0
+  }
+
+  return (inputTokens / 1000000) * rates.input + (outputTokens / 1000000) * rates.output
+}
+
 /**
  * Get context usage percentage
  * @param inputTokens - Current input tokens used
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@/generated/prisma/client'
 import { cacheAssetService } from './cache-asset-service'
+import { slideIndexService } from './slide-index-service'
 
 const prisma = new PrismaClient()
 
@@ -171,6 +172,15 @@ class DraftSessionService {
    * Delete draft session and all associated drafts
    */
   async deleteDraftSession(sessionId: string) {
+    const drafts = await prisma.remixPost.findMany({
+      where: { sessionId },
+      select: { id: true },
+    })
+
+    // Take the drafts out of the content ideas library first; the cascade
+    // would drop their index rows without updating the category counts
+    await slideIndexService.removeRemixesSafe(drafts.map(draft => draft.id))
+
     // Delete all drafts in the session (will cascade delete text styles and classifications)
     await prisma.remixPost.deleteMany({
       where: { sessionId },
@@ -0,0 +1,312 @@
+/**
+ * Duplicate Detection Service
+ *
+ * Hashes every cached carousel image of TiktokPost.images and clusters posts
+ * whose slides are near-identical - typically the same carousel reposted by
+ * another profile. The earliest published post of a cluster is treated as the
+ * original and every later one as a copy.
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+import { computeImageHashFromCacheAsset, hammingDistance } from './image-hash-service'
+
+// Max Hamming distance between two slide hashes to count as the same image
+export const DUPLICATE_HASH_THRESHOLD = 5
+// Share of the longer carousel's slides that must match
+export const MIN_MATCHED_SLIDE_RATIO = 0.75
+
+// Hashes are bucketed by bit bands. Hashes within the threshold differ in at
+// most that many bands, so with one band more they always share one
+const HASH_BITS = 64
+const HASH_BANDS = DUPLICATE_HASH_THRESHOLD + 1
+// Bands shared by this many posts are uninformative (e.g. plain white slides)
+const MAX_BAND_BUCKET_SIZE = 200
+
+export interface HashedPost {
+  id: string
+  profileId: string
+  hashes: string[]
+}
+
+/**
+ * Nearly blank or nearly solid images hash to almost all 0s or 1s and match everything
+ */
+export function isInformativeHash(hash: string): boolean {
+  const bits = BigInt('0x' + hash).toString(2).replace(/0/g, '').length
+  return bits >= 8 && bits <= 56
+}
+
+/**
+ * Parse a post's imageHashes column into its informative hashes
+ */
+export function parseImageHashes(imageHashes: unknown): string[] {
+  if (!Array.isArray(imageHashes)) return []
+  return imageHashes.filter(
+    (hash): hash is string => typeof hash === 'string' && /^[0-9a-f]{16}$/.test(hash) && isInformativeHash(hash)
+  )
+}
+
+/**
+ * Bucket keys of a hash: its bits split into HASH_BANDS contiguous bands
+ */
+export function hashBandKeys(hash: string): string[] {
+  const bits = BigInt('0x' + hash).toString(2).padStart(HASH_BITS, '0')
+  return Array.from({ length: HASH_BANDS }, (_, band) => {
+    const start = Math.floor((band * HASH_BITS) / HASH_BANDS)
+    const end = Math.floor(((band + 1) * HASH_BITS) / HASH_BANDS)
+    return `${band}:${bits.slice(start, end)}`
+  })
+}
+
+/**
+ * Number of slides in `a` with a near-identical slide in `b`
+ */
+export function countMatchingSlides(a: string[], b: string[], threshold = DUPLICATE_HASH_THRESHOLD): number {
+  return a.filter(hashA => b.some(hashB => hammingDistance(hashA, hashB) <= threshold)).length
+}
+
+/**
+ * Two carousels are near-duplicates when most slides of the longer one match
+ * (at least two, unless one of them is a single image)
+ */
+export function areNearDuplicateCarousels(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return false
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  const matched = countMatchingSlides(shorter, longer)
+
+  return matched >= Math.min(2, shorter.length) && matched / longer.length >= MIN_MATCHED_SLIDE_RATIO
+}
+
+/**
+ * Group near-duplicate posts. Candidate pairs share at least one hash band,
+ * then are verified slide by slide. Posts of the same profile are never
+ * paired, so every group spans two or more profiles. Returns groups of two
+ * or more post ids.
+ */
+export function clusterNearDuplicates(posts: HashedPost[]): string[][] {
+  const buckets = new Map<string, number[]>()
+  posts.forEach((post, index) => {
+    for (const hash of post.hashes) {
+      for (const key of hashBandKeys(hash)) {
+        const bucket = buckets.get(key) ?? []
+        if (bucket[bucket.length - 1] !== index) bucket.push(index)
+        buckets.set(key, bucket)
+      }
+    }
+  })
+
+  // Union-find over post indexes
+  const parent = posts.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const checked = new Set<string>()
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2 || bucket.length > MAX_BAND_BUCKET_SIZE) continue
+
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        // A profile reposting its own carousel is not a copy
+        if (posts[bucket[i]].profileId === posts[bucket[j]].profileId) continue
+
+        const pairKey = `${bucket[i]}:${bucket[j]}`
+        if (checked.has(pairKey)) continue
+        checked.add(pairKey)
+
+        const rootA = find(bucket[i])
+        const rootB = find(bucket[j])
+        if (rootA === rootB) continue
+
+        if (areNearDuplicateCarousels(posts[bucket[i]].hashes, posts[bucket[j]].hashes)) {
+          parent[rootB] = rootA
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>()
+  posts.forEach((post, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) ?? []), post.id])
+  })
+
+  return [...groups.values()].filter(group => group.length > 1)
+}
+
+class DuplicateDetectionService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Compute perceptual hashes for a post's cached carousel images
+   */
+  async hashPostImages(postId: string): Promise<Array<string | null>> {
+    const post = await this.prisma.tiktokPost.findUnique({
+      where: { id: postId },
+      select: { id: true, images: true }
+    })
+
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`)
+    }
+
+    const images = Array.isArray(post.images) ? post.images as Array<{ cacheAssetId?: string }> : []
+    const imageHashes: Array<string | null> = []
+
+    // Sequential - each hash downloads the full image
+    for (const image of images) {
+      if (!image?.cacheAssetId) {
+        imageHashes.push(null)
+        continue
+      }
+
+      try {
+        imageHashes.push(await computeImageHashFromCacheAsset(image.cacheAssetId))
+      } catch (error) {
+        console.warn(`⚠️ [DuplicateDetectionService] Could not hash image ${image.cacheAssetId} of post ${postId}:`, error)
+        imageHashes.push(null)
+      }
+    }
+
+    await this.prisma.tiktokPost.update({
+      where: { id: postId },
+      data: {
+        imageHashes,
+        imageHashedAt: new Date()
+      }
+    })
+
+    return imageHashes
+  }
+
+  /**
+   * Hash carousel posts that have not been hashed yet, newest first
+   */
+  async hashPendingPosts(limit = 200): Promise<number> {
+    const pending = await this.prisma.tiktokPost.findMany({
+      where: {
+        contentType: 'photo',
+        imageHashedAt: null
+      },
+      select: { id: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    if (pending.length === 0) return 0
+
+    console.log(`🔑 [DuplicateDetectionService] Hashing images of ${pending.length} posts`)
+
+    let hashed = 0
+    for (const { id } of pending) {
+      try {
+        await this.hashPostImages(id)
+        hashed++
+      } catch (error) {
+        console.error(`❌ [DuplicateDetectionService] Failed to hash post ${id}:`, error)
+      }
+    }
+
+    return hashed
+  }
+
+  /**
+   * Rebuild duplicate clusters from all hashed posts. Clusters keep their id
+   * while most of their posts stay together, so links to them stay valid.
+   */
+  async detectDuplicates(): Promise<{ clusters: number; duplicatePosts: number }> {
+    const posts = await this.prisma.tiktokPost.findMany({
+      where: {
+        contentType: 'photo',
+        imageHashedAt: { not: null }
+      },
+      select: {
+        id: true,
+        profileId: true,
+        publishedAt: true,
+        createdAt: true,
+        imageHashes: true,
+        duplicateClusterId: true
+      }
+    })
+
+    const postsById = new Map(posts.map(post => [post.id, post]))
+    const groups = clusterNearDuplicates(
+      posts
+        .map(post => ({ id: post.id, profileId: post.profileId, hashes: parseImageHashes(post.imageHashes) }))
+        .filter(post => post.hashes.length > 0)
+    )
+
+    const claimedClusterIds = new Set<string>()
+    let duplicatePosts = 0
+
+    for (const group of groups) {
+      const members = group
+        .map(id => postsById.get(id)!)
+        .sort((a, b) => (a.publishedAt ?? a.createdAt).getTime() - (b.publishedAt ?? b.createdAt).getTime())
+      const original = members[0]
+
+      // Reuse the cluster id most members already had
+      const previousIds = new Map<string, number>()
+      for (const member of members) {
+        if (member.duplicateClusterId && !claimedClusterIds.has(member.duplicateClusterId)) {
+          previousIds.set(member.duplicateClusterId, (previousIds.get(member.duplicateClusterId) ?? 0) + 1)
+        }
+      }
+      const reusedId = [...previousIds].sort((a, b) => b[1] - a[1])[0]?.[0]
+
+      const clusterData = {
+        originalPostId: original.id,
+        postCount: members.length,
+        profileCount: new Set(members.map(member => member.profileId)).size
+      }
+
+      const cluster = reusedId
+        ? await this.prisma.duplicateCluster.update({ where: { id: reusedId }, data: clusterData })
+        : await this.prisma.duplicateCluster.create({ data: clusterData })
+      claimedClusterIds.add(cluster.id)
+
+      await this.prisma.$transaction([
+        this.prisma.tiktokPost.updateMany({
+          where: { id: { in: members.map(member => member.id) } },
+          data: { duplicateClusterId: cluster.id, isDuplicate: true }
+        }),
+        this.prisma.tiktokPost.update({
+          where: { id: original.id },
+          data: { isDuplicate: false }
+        })
+      ])
+
+      duplicatePosts += members.length - 1
+    }
+
+    // Posts that no longer match anything
+    const clusteredPostIds = groups.flat()
+    await this.prisma.tiktokPost.updateMany({
+      where: {
+        duplicateClusterId: { not: null },
+        id: { notIn: clusteredPostIds }
+      },
+      data: { duplicateClusterId: null, isDuplicate: false }
+    })
+    await this.prisma.duplicateCluster.deleteMany({
+      where: { id: { notIn: [...claimedClusterIds] } }
+    })
+
+    console.log(`🧬 [DuplicateDetectionService] Found ${groups.length} clusters with ${duplicatePosts} duplicate posts`)
+
+    return { clusters: groups.length, duplicatePosts }
+  }
+}
+
+// Export singleton instance
+export const duplicateDetectionService = new DuplicateDetectionService()
@@ -0,0 +1,268 @@
+/**
+ * Export Presets
+ *
+ * Named target formats for repurposing a draft on other platforms. Exporting
+ * to a preset re-flows each slide to the preset's canvas. Text boxes keep their
+ * horizontal layout and stay anchored to the nearest edge (or the middle);
+ * their text scales with the canvas width and only shrinks as far as needed
+ * for every box to fit the new height without running into its neighbours.
+ * Other layers keep their shape, and full-bleed backgrounds keep covering the
+ * whole canvas.
+ */
+
+import type { RemixSlideType, RemixTextBoxType, BackgroundLayerType } from './validations/remix-schema'
+
+export type ExportPresetId =
+  | 'original'
+  | 'tiktok-vertical'
+  | 'tiktok-photo'
+  | 'instagram-portrait'
+  | 'linkedin-document'
+
+export interface ExportPreset {
+  id: ExportPresetId
+  label: string
+  description: string
+  /** Null keeps each slide's own canvas */
+  width: number | null
+  height: number | null
+  output: 'images' | 'pdf'
+}
+
+export const EXPORT_PRESETS: Record<ExportPresetId, ExportPreset> = {
+  'original': {
+    id: 'original',
+    label: 'Original',
+    description: 'Slides as designed',
+    width: null,
+    height: null,
+    output: 'images',
+  },
+  'tiktok-vertical': {
+    id: 'tiktok-vertical',
+    label: 'TikTok 9:16',
+    description: '1080 × 1920 vertical',
+    width: 1080,
+    height: 1920,
+    output: 'images',
+  },
+  'tiktok-photo': {
+    id: 'tiktok-photo',
+    label: 'TikTok photo 3:4',
+    description: '1080 × 1440 photo mode',
+    width: 1080,
+    height: 1440,
+    output: 'images',
+  },
+  'instagram-portrait': {
+    id: 'instagram-portrait',
+    label: 'Instagram 4:5',
+    description: '1080 × 1350 feed carousel',
+    width: 1080,
+    height: 1350,
+    output: 'images',
+  },
+  'linkedin-document': {
+    id: 'linkedin-document',
+    label: 'LinkedIn document',
+    description: '1080 × 1350 multi-page PDF',
+    width: 1080,
+    height: 1350,
+    output: 'pdf',
+  },
+}
+
+export const EXPORT_PRESET_IDS = Object.keys(EXPORT_PRESETS) as [ExportPresetId, ...ExportPresetId[]]
+
+const MIN_FONT_SIZE = 8 // RemixTextBoxSchema minimum
+// Floor for the text scale, so a box already hanging off the source canvas
+// cannot shrink every text on the slide to nothing
+const MIN_TEXT_SCALE = 0.25
+const FULL_BLEED_EPSILON = 0.001
+
+interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+const isFullBleed = (layer: Box) =>
+  layer.x <= FULL_BLEED_EPSILON &&
+  layer.y <= FULL_BLEED_EPSILON &&
+  layer.x + layer.width >= 1 - FULL_BLEED_EPSILON &&
+  layer.y + layer.height >= 1 - FULL_BLEED_EPSILON
+
+/**
+ * Move a relative layer to the target canvas: its pixel size scales by `scale`,
+ * its centre keeps the same relative position, and it is pushed back inside
+ * the canvas when the new aspect ratio leaves it hanging off an edge
+ */
+function reflowBox(box: Box, scaleX: number, scaleY: number): Box {
+  const width = box.width * scaleX
+  const height = box.height * scaleY
+  const centerX = box.x + box.width / 2
+  const centerY = box.y + box.height / 2
+
+  const fit = (center: number, size: number) =>
+    size >= 1 ? center - size / 2 : clamp(center - size / 2, 0, 1 - size)
+
+  return {
+    x: round(fit(centerX, width)),
+    y: round(fit(centerY, height)),
+    width: round(width),
+    height: round(height),
+  }
+}
+
+// Pixel-valued text box fields that scale with the layout
+const SCALED_TEXT_FIELDS = [
+  'paddingTop',
+  'paddingRight',
+  'paddingBottom',
+  'paddingLeft',
+  'outlineWidth',
+  'shadowBlur',
+  'shadowOffsetX',
+  'shadowOffsetY',
+  'borderWidth',
+  'borderRadius',
+  'letterSpacing',
+  'wordSpacing',
+  'blobSpread',
+] as const
+
+type VerticalAnchor = 'top' | 'middle' | 'bottom'
+
+interface TextBoxPlacement {
+  box: Box
+  /** Height in source pixels */
+  pixelHeight: number
+  /** Top edge in target pixels at text scale s is `offset + slope * s` */
+  offset: number
+  slope: number
+}
+
+/**
+ * Boxes in the top or bottom third keep their relative distance to that edge;
+ * the rest keep their relative centre
+ */
+function placeTextBox(box: Box, sourceHeight: number, targetHeight: number): TextBoxPlacement {
+  const pixelHeight = box.height * sourceHeight
+  const center = box.y + box.height / 2
+  const anchor: VerticalAnchor = center < 1 / 3 ? 'top' : center > 2 / 3 ? 'bottom' : 'middle'
+
+  switch (anchor) {
+    case 'top':
+      return { box, pixelHeight, offset: box.y * targetHeight, slope: 0 }
+    case 'middle':
+      return { box, pixelHeight, offset: center * targetHeight, slope: -pixelHeight / 2 }
+    case 'bottom':
+      return { box, pixelHeight, offset: (box.y + box.height) * targetHeight, slope: -pixelHeight }
+  }
+}
+
+const overlapsHorizontally = (a: Box, b: Box) => a.x < b.x + b.width && b.x < a.x + a.width
+
+/**
+ * Largest text scale (up to `maxScale`) at which every placed box stays on
+ * the canvas and boxes that were stacked apart still do not overlap
+ */
+function fitTextScale(placements: TextBoxPlacement[], targetHeight: number, maxScale: number): number {
+  let scale = maxScale
+
+  for (const { offset, slope, pixelHeight } of placements) {
+    // Top edge stays on the canvas
+    if (slope < 0) scale = Math.min(scale, offset / -slope)
+    // So does the bottom edge
+    if (slope + pixelHeight > 0) scale = Math.min(scale, (targetHeight - offset) / (slope + pixelHeight))
+  }
+
+  for (const above of placements) {
+    for (const below of placements) {
+      const separated = above.box.y + above.box.height <= below.box.y
+      if (!separated || !overlapsHorizontally(above.box, below.box)) continue
+
+      // top(below) >= bottom(above)
+      const closing = above.slope + above.pixelHeight - below.slope
+      if (closing > 0) scale = Math.min(scale, (below.offset - above.offset) / closing)
+    }
+  }
+
+  return Math.max(scale, MIN_TEXT_SCALE)
+}
+
+/**
+ * Re-flow a slide onto a canvas of a different size
+ */
+export function reflowSlide(slide: RemixSlideType, target: { width: number; height: number }): RemixSlideType {
+  const source = {
+    width: slide.canvas?.width || 1080,
+    height: slide.canvas?.height || 1920,
+  }
+
+  if (source.width === target.width && source.height === target.height) {
+    return slide
+  }
+
+  // Uniform pixel scale that fits a layer's original shape inside the target
+  const scale = Math.min(target.width / source.width, target.height / source.height)
+  // The same scale expressed in each axis's relative units
+  const scaleX = (source.width * scale) / target.width
+  const scaleY = (source.height * scale) / target.height
+
+  const backgroundLayers = (slide.backgroundLayers || []).map((layer): BackgroundLayerType => {
+    const box = { x: layer.x ?? 0, y: layer.y ?? 0, width: layer.width ?? 1, height: layer.height ?? 1 }
+    return isFullBleed(box) ? layer : { ...layer, ...reflowBox(box, scaleX, scaleY) }
+  })
+
+  const placements = (slide.textBoxes || []).map(textBox => placeTextBox(textBox, source.height, target.height))
+  // Text keeps its size relative to the canvas width, so lines wrap as before
+  const textScale = fitTextScale(placements, target.height, target.width / source.width)
+
+  const textBoxes = (slide.textBoxes || []).map((textBox, index): RemixTextBoxType => {
+    const { offset, slope, pixelHeight } = placements[index]
+    const height = Math.min((pixelHeight * textScale) / target.height, 1)
+    const top = (offset + slope * textScale) / target.height
+
+    const scaled: Record<string, unknown> = {
+      ...textBox,
+      y: round(clamp(top, 0, 1 - height)),
+      height: round(height),
+      fontSize: Math.max(MIN_FONT_SIZE, round(textBox.fontSize * textScale)),
+    }
+
+    for (const field of SCALED_TEXT_FIELDS) {
+      const value = (textBox as Record<string, unknown>)[field]
+      if (typeof value === 'number') {
+        scaled[field] = round(value * textScale)
+      }
+    }
+
+    return scaled as RemixTextBoxType
+  })
+
+  return {
+    ...slide,
+    canvas: { ...slide.canvas, width: target.width, height: target.height },
+    backgroundLayers,
+    textBoxes,
+  }
+}
+
+/**
+ * A slide as it should be rendered for an export preset
+ */
+export function applyExportPreset(slide: RemixSlideType, presetId: ExportPresetId): RemixSlideType {
+  const preset = EXPORT_PRESETS[presetId]
+  if (!preset) {
+    throw new Error(`Unknown export preset: ${presetId}`)
+  }
+  if (preset.width === null || preset.height === null) {
+    return slide
+  }
+  return reflowSlide(slide, { width: preset.width, height: preset.height })
+}
@@ -1,11 +1,12 @@
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { cacheAssetService } from './cache-asset-service'
 import { PrismaClient } from '@/generated/prisma'
+import { generateJSON, type LLMSchema } from './llm'
 
 const prisma = new PrismaClient()
 
 // Simple schema for face detection
-const FACE_DETECTION_SCHEMA = {
+const FACE_DETECTION_SCHEMA: LLMSchema = {
   type: Type.OBJECT,
   properties: {
     hasFace: {
@@ -49,20 +50,12 @@ export interface FaceDetectionResult {
  * Detect if an image contains a human face using Gemini Vision
  */
 export async function detectFace(cacheAssetId: string): Promise<FaceDetectionResult> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is required')
-  }
-
   const base64Image = await fetchImageFromCacheAsset(cacheAssetId)
 
-  const ai = new GoogleGenAI({
-    apiKey: process.env.GEMINI_API_KEY,
-  })
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-lite',
-    contents: [{
-      role: 'user' as const,
+  const { data: result } = await generateJSON<FaceDetectionResult>({
+    feature: 'face-detection',
+    messages: [{
+      role: 'user',
       parts: [
         {
           inlineData: {
@@ -75,24 +68,10 @@ export async function detectFace(cacheAssetId: string): Promise<FaceDetectionRes
         },
       ],
     }],
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: FACE_DETECTION_SCHEMA,
-    },
+    schema: FACE_DETECTION_SCHEMA,
+    entity: { type: 'cacheAsset', id: cacheAssetId },
   })
 
-  if (!response.text) {
-    throw new Error('No response from Gemini AI')
-  }
-
-  // Parse the response
-  let cleanedText = response.text.trim()
-  if (cleanedText.startsWith('```')) {
-    cleanedText = cleanedText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-  }
-
-  const result = JSON.parse(cleanedText) as FaceDetectionResult
-
   return {
     hasFace: result.hasFace,
     confidence: result.confidence
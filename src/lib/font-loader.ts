@@ -16,7 +16,8 @@ export interface FontData {
   style: 'normal' | 'italic'
 }
 
-// Google Fonts URLs for Poppins
+// Google Fonts URLs for Poppins. The weights the renderers use are bundled in
+// public/fonts/poppins; the others are downloaded there on first use.
 const POPPINS_FONT_URLS: Record<string, string> = {
   'Poppins-100': 'https://fonts.gstatic.com/s/poppins/v21/pxiGyp8kv8JHgFVrLPTed3FBGPaTSQ.ttf',
   'Poppins-100italic': 'https://fonts.gstatic.com/s/poppins/v21/pxiAyp8kv8JHgFVrJJLmE3tFOvODSVFF.ttf',
@@ -134,6 +135,15 @@ class FontLoaderService {
     return arrayBuffer
   }
 
+  /**
+   * Path of a font file on disk, downloading it first if needed (for
+   * renderers that register fonts by file, like the canvas export)
+   */
+  async getFontFile(weight: PoppinsWeight = 400, style: PoppinsStyle = 'normal'): Promise<string> {
+    await this.downloadFont(weight, style)
+    return this.getFontPath(weight, style)
+  }
+
   /**
    * Get font data for Satori
    */
@@ -0,0 +1,170 @@
+/**
+ * Fixture LLM Provider
+ *
+ * Deterministic local stand-in for a real model. Responses come from, in order:
+ *   1. fixtures registered in code via `register()` (tests)
+ *   2. `<LLM_FIXTURES_DIR>/<feature>.json` files on disk (offline runs)
+ *   3. a value synthesized from the request's structured output schema
+ *
+ * When streaming with tools, a fixture of the form `{ toolCalls: [...] }`
+ * (optionally with `text`) is replayed as tool_call chunks.
+ *
+ * No network access, no API key required.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type {
+  LLMFeature,
+  LLMProvider,
+  LLMRequest,
+  LLMSchema,
+  LLMStructuredRequest,
+  LLMTextResult,
+  LLMStreamChunk,
+  LLMToolCall,
+} from './types'
+
+export type LLMFixture =
+  | string
+  | object
+  | ((request: LLMStructuredRequest) => string | object)
+
+const FIXTURE_MODEL = 'fixture'
+
+/**
+ * Build a stable placeholder value matching a schema: first enum value for
+ * enums, `<name>` strings, zeros, one array item.
+ */
+export function synthesizeFromSchema(schema: LLMSchema | undefined, name = 'value'): unknown {
+  if (!schema) return {}
+
+  switch (schema.type.toLowerCase()) {
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        result[key] = synthesizeFromSchema(property, key)
+      }
+      return result
+    }
+    case 'array':
+      return [synthesizeFromSchema(schema.items, name)]
+    case 'string':
+      return schema.enum?.length ? schema.enum[0] : `<${name}>`
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    default:
+      return null
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function requestText(request: LLMRequest): string {
+  if (request.messages) {
+    return request.messages
+      .flatMap(message => message.parts)
+      .map(part => ('text' in part ? part.text : ''))
+      .join('\n')
+  }
+  return request.prompt ?? ''
+}
+
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const
+  private fixtures = new Map<LLMFeature, LLMFixture>()
+
+  constructor(private readonly fixturesDir: string | undefined = process.env.LLM_FIXTURES_DIR) {}
+
+  /**
+   * Register a fixture for a feature (overrides any on-disk fixture)
+   */
+  register(feature: LLMFeature, fixture: LLMFixture): this {
+    this.fixtures.set(feature, fixture)
+    return this
+  }
+
+  /**
+   * Remove all registered fixtures
+   */
+  reset(): void {
+    this.fixtures.clear()
+  }
+
+  private loadFromDisk(feature: LLMFeature): LLMFixture | undefined {
+    if (!this.fixturesDir) return undefined
+
+    const filePath = path.join(this.fixturesDir, `${feature}.json`)
+    if (!fs.existsSync(filePath)) return undefined
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  }
+
+  private resolveValue(request: LLMStructuredRequest): string | object | undefined {
+    const fixture = this.fixtures.get(request.feature) ?? this.loadFromDisk(request.feature)
+    return typeof fixture === 'function' ? fixture(request) : fixture
+  }
+
+  private resolve(request: LLMStructuredRequest, json: boolean): string {
+    const value = this.resolveValue(request)
+
+    if (value === undefined) {
+      return json
+        ? JSON.stringify(synthesizeFromSchema(request.schema))
+        : `[fixture:${request.feature}]`
+    }
+
+    return typeof value === 'string' ? value : JSON.stringify(value)
+  }
+
+  private respond(request: LLMStructuredRequest, json: boolean): LLMTextResult {
+    const text = this.resolve(request, json)
+    return {
+      text,
+      model: request.model ?? FIXTURE_MODEL,
+      provider: this.name,
+      usage: {
+        inputTokens: estimateTokens(requestText(request)),
+        outputTokens: estimateTokens(text),
+      },
+    }
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMTextResult> {
+    return this.respond(request, false)
+  }
+
+  async generateJSONText(request: LLMStructuredRequest): Promise<LLMTextResult> {
+    return this.respond(request, true)
+  }
+
+  async *streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const value = request.tools?.length && request.toolChoice !== 'none' ? this.resolveValue(request) : undefined
+    if (value && typeof value === 'object' && Array.isArray((value as { toolCalls?: unknown }).toolCalls)) {
+      const { toolCalls, text = '' } = value as { toolCalls: LLMToolCall[]; text?: string }
+      if (text) yield { type: 'text', text }
+      for (const call of toolCalls) {
+        yield { type: 'tool_call', call }
+      }
+      yield {
+        type: 'usage',
+        usage: { inputTokens: estimateTokens(requestText(request)), outputTokens: estimateTokens(text) },
+      }
+      return
+    }
+
+    const result = this.respond(request, false)
+
+    // Split on word boundaries so consumers exercise their chunk handling
+    for (const piece of result.text.match(/\S+\s*/g) ?? [result.text]) {
+      yield { type: 'text', text: piece }
+    }
+
+    yield { type: 'usage', usage: result.usage! }
+  }
+}
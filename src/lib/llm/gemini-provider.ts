@@ -0,0 +1,166 @@
+/**
+ * Gemini LLM Provider
+ *
+ * Wraps @google/genai behind the LLMProvider interface, with retries for
+ * transient API failures (rate limits, overloaded model, 5xx)
+ */
+
+import { GoogleGenAI, FunctionCallingConfigMode, type Schema } from '@google/genai'
+import type {
+  LLMProvider,
+  LLMRequest,
+  LLMStructuredRequest,
+  LLMTextResult,
+  LLMStreamChunk,
+  LLMUsage,
+  LLMMessage,
+} from './types'
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-lite'
+const MAX_ATTEMPTS = 3
+const BASE_RETRY_DELAY_MS = 1000
+
+function isRetryableError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error)
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|ECONNRESET|ETIMEDOUT|fetch failed/i.test(message)
+}
+
+async function withRetry<T>(operation: () => Promise<T>, label: string): Promise<T> {
+  let lastError: unknown
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      lastError = error
+      if (attempt === MAX_ATTEMPTS || !isRetryableError(error)) {
+        throw error
+      }
+      const delay = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1)
+      console.warn(`⚠️ [LLM:gemini] ${label} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms:`,
+        error instanceof Error ? error.message : error)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  throw lastError
+}
+
+function toContents(request: LLMRequest) {
+  const messages: LLMMessage[] = request.messages ?? [
+    { role: 'user', parts: [{ text: request.prompt ?? '' }] },
+  ]
+
+  return messages.map(message => ({
+    // Gemini calls the assistant role "model"
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: message.parts,
+  }))
+}
+
+function toUsage(metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined): LLMUsage | undefined {
+  if (!metadata) return undefined
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0,
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const
+  private client: GoogleGenAI | null = null
+
+  private getClient(): GoogleGenAI {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error('GEMINI_API_KEY environment variable is required')
+    }
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY })
+    }
+    return this.client
+  }
+
+  private buildConfig(request: LLMStructuredRequest, json: boolean) {
+    return {
+      ...(request.system && { systemInstruction: request.system }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxOutputTokens !== undefined && { maxOutputTokens: request.maxOutputTokens }),
+      ...(json && { responseMimeType: 'application/json' }),
+      ...(json && request.schema && { responseSchema: request.schema as Schema }),
+      ...(request.tools?.length && {
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters as Schema,
+          })),
+        }],
+      }),
+      ...(request.toolChoice === 'none' && {
+        toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } },
+      }),
+    }
+  }
+
+  private async generate(request: LLMStructuredRequest, json: boolean): Promise<LLMTextResult> {
+    const ai = this.getClient()
+    const model = request.model ?? DEFAULT_MODEL
+
+    const response = await withRetry(
+      () => ai.models.generateContent({
+        model,
+        contents: toContents(request),
+        config: this.buildConfig(request, json),
+      }),
+      request.feature
+    )
+
+    if (!response.text) {
+      throw new Error(`No response from Gemini AI (${request.feature})`)
+    }
+
+    return {
+      text: response.text,
+      model,
+      provider: this.name,
+      usage: toUsage(response.usageMetadata),
+    }
+  }
+
+  generateText(request: LLMRequest): Promise<LLMTextResult> {
+    return this.generate(request, false)
+  }
+
+  generateJSONText(request: LLMStructuredRequest): Promise<LLMTextResult> {
+    return this.generate(request, true)
+  }
+
+  async *streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+    const ai = this.getClient()
+    const model = request.model ?? DEFAULT_MODEL
+
+    const stream = await withRetry(
+      () => ai.models.generateContentStream({
+        model,
+        contents: toContents(request),
+        config: this.buildConfig(request, false),
+      }),
+      request.feature
+    )
+
+    let usage: LLMUsage | undefined
+    for await (const chunk of stream) {
+      for (const call of chunk.functionCalls ?? []) {
+        yield { type: 'tool_call', call: { id: call.id, name: call.name ?? '', args: call.args ?? {} } }
+      }
+      if (chunk.text) {
+        yield { type: 'text', text: chunk.text }
+      }
+      usage = toUsage(chunk.usageMetadata) ?? usage
+    }
+
+    if (usage) {
+      yield { type: 'usage', usage }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single entry point for every model call in the app. Each feature resolves to
+ * a provider and a model, overridable per environment:
+ *
+ *   LLM_PROVIDER=fixture             - route every feature to the fixture provider
+ *   LLM_PROVIDER_OCR=gemini          - per-feature provider override
+ *   LLM_MODEL_OCR=gemini-2.5-flash   - per-feature model override
+ *   LLM_FIXTURES_DIR=./fixtures/llm  - on-disk fixtures for the fixture provider
+ *
+ * Every call with reported token usage is recorded in the AI usage ledger
+ * (fixture calls cost nothing and are skipped).
+ *
+ * Feature names map to env suffixes by upper-casing and replacing '-' with '_'
+ * (e.g. 'smart-auto-fill' -> LLM_MODEL_SMART_AUTO_FILL).
+ */
+
+import type { z } from 'zod'
+import { GeminiProvider } from './gemini-provider'
+import { FixtureProvider } from './fixture-provider'
+import { parseJSONResponse } from './json'
+import type {
+  LLMFeature,
+  LLMProvider,
+  LLMProviderName,
+  LLMRequest,
+  LLMStructuredRequest,
+  LLMTextResult,
+  LLMJSONResult,
+  LLMStreamChunk,
+  LLMUsage,
+} from './types'
+
+export * from './types'
+export { parseJSONResponse, cleanJSONText } from './json'
+export { FixtureProvider, synthesizeFromSchema } from './fixture-provider'
+export type { LLMFixture } from './fixture-provider'
+
+// Default model per feature (matches what each feature used before the provider layer)
+export const LLM_FEATURE_DEFAULTS: Record<LLMFeature, string> = {
+  'ocr': 'gemini-2.5-flash-lite',
+  'content-generation': 'gemini-2.5-flash-lite',
+  'concept-extraction': 'gemini-2.5-flash-lite',
+  'concept-generation': 'gemini-2.0-flash',
+  'concept-draft': 'gemini-2.5-flash-lite',
+  'concept-examples': 'gemini-2.5-flash-lite',
+  'concept-reclassify': 'gemini-2.5-flash-lite',
+  'concept-split': 'gemini-2.5-flash-lite',
+  'concept-suggest': 'gemini-2.0-flash',
+  'coherence-analysis': 'gemini-2.5-flash-lite',
+  'coherence-fixing': 'gemini-2.5-flash-lite',
+  'paraphrasing': 'gemini-2.5-flash-lite',
+  'minimal-paraphrase': 'gemini-2.5-flash-lite',
+  'multi-post-generation': 'gemini-2.5-flash-lite',
+  'face-detection': 'gemini-2.5-flash-lite',
+  'smart-auto-fill': 'gemini-2.0-flash',
+  'topic-suggest': 'gemini-2.0-flash',
+  'post-analysis': 'gemini-2.5-flash',
+}
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  gemini: new GeminiProvider(),
+  fixture: new FixtureProvider(),
+}
+
+function envKey(feature: LLMFeature): string {
+  return feature.toUpperCase().replace(/-/g, '_')
+}
+
+/**
+ * Resolve which provider handles a feature
+ */
+export function getProviderForFeature(feature: LLMFeature): LLMProvider {
+  const name = (process.env[`LLM_PROVIDER_${envKey(feature)}`] || process.env.LLM_PROVIDER || 'gemini') as LLMProviderName
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown LLM provider "${name}" for feature ${feature}`)
+  }
+  return provider
+}
+
+/**
+ * Resolve which model a feature uses
+ */
+export function getModelForFeature(feature: LLMFeature): string {
+  return process.env[`LLM_MODEL_${envKey(feature)}`] || LLM_FEATURE_DEFAULTS[feature]
+}
+
+/**
+ * Replace a provider implementation (tests, custom backends)
+ */
+export function setProvider(name: LLMProviderName, provider: LLMProvider): void {
+  providers[name] = provider
+}
+
+/**
+ * Shared fixture provider instance, for registering fixtures in tests
+ */
+export function getFixtureProvider(): FixtureProvider {
+  return providers.fixture as FixtureProvider
+}
+
+function withModel<T extends LLMRequest>(request: T): T {
+  return { ...request, model: request.model ?? getModelForFeature(request.feature) }
+}
+
+async function recordUsage(
+  request: LLMRequest,
+  provider: LLMProviderName,
+  model: string,
+  usage: LLMUsage | undefined
+): Promise<void> {
+  if (!usage || provider === 'fixture') return
+
+  // Loaded on first use so fixture-only runs (tests, offline dev) never open a database client
+  const { aiUsageService } = await import('../ai-usage-service')
+  await aiUsageService.recordSafe({
+    feature: request.feature,
+    provider,
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    entityType: request.entity?.type,
+    entityId: request.entity?.id,
+  })
+}
+
+/**
+ * Generate free-form text for a feature
+ */
+export async function generateText(request: LLMRequest): Promise<LLMTextResult> {
+  const provider = getProviderForFeature(request.feature)
+  const result = await provider.generateText(withModel(request))
+  await recordUsage(request, result.provider, result.model, result.usage)
+  return { ...result, text: result.text.trim() }
+}
+
+/**
+ * Generate structured JSON for a feature, parsed and optionally zod-validated
+ */
+export async function generateJSON<T = unknown>(
+  request: LLMStructuredRequest,
+  validator?: z.ZodType<T>
+): Promise<LLMJSONResult<T>> {
+  const provider = getProviderForFeature(request.feature)
+  const result = await provider.generateJSONText(withModel(request))
+  await recordUsage(request, result.provider, result.model, result.usage)
+
+  try {
+    return { ...result, data: parseJSONResponse<T>(result.text, validator) }
+  } catch (error) {
+    console.error(`❌ [LLM:${provider.name}] Invalid JSON for ${request.feature}:`, result.text.substring(0, 500))
+    throw error
+  }
+}
+
+/**
+ * Stream text for a feature. Usage is recorded when the provider's usage
+ * chunk passes through.
+ */
+export async function* streamText(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  const provider = getProviderForFeature(request.feature)
+  const resolved = withModel(request)
+
+  for await (const chunk of provider.streamText(resolved)) {
+    if (chunk.type === 'usage') {
+      await recordUsage(request, provider.name, resolved.model!, chunk.usage)
+    }
+    yield chunk
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * LLM JSON helpers
+ *
+ * Shared parsing for structured model output (markdown fences, stray prose
+ * around the payload) so individual services stop re-implementing it.
+ */
+
+import type { z } from 'zod'
+
+/**
+ * Strip markdown code fences and surrounding whitespace from a model response
+ */
+export function cleanJSONText(text: string): string {
+  let cleaned = text.trim()
+
+  // Remove markdown code blocks (```json ... ```)
+  if (cleaned.startsWith('```')) {
+    cleaned = cleaned.replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```\s*$/, '')
+  }
+
+  return cleaned.trim()
+}
+
+/**
+ * Parse JSON from a model response.
+ *
+ * Falls back to the first top-level object/array embedded in the text when the
+ * model wraps its answer in prose. Optionally validates with a zod schema.
+ */
+export function parseJSONResponse<T = unknown>(text: string, schema?: z.ZodType<T>): T {
+  const cleaned = cleanJSONText(text)
+
+  if (!cleaned) {
+    throw new Error('Empty response text after cleaning')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(cleaned)
+  } catch (error) {
+    const embedded = cleaned.match(/[[{][\s\S]*[\]}]/)
+    if (!embedded) {
+      throw new Error(`Failed to parse JSON response: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+    parsed = JSON.parse(embedded[0])
+  }
+
+  if (!schema) {
+    return parsed as T
+  }
+
+  const validation = schema.safeParse(parsed)
+  if (!validation.success) {
+    throw new Error(`Response does not match expected structure: ${validation.error.message}`)
+  }
+
+  return validation.data
+}
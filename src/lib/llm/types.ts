@@ -0,0 +1,147 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-agnostic request/response shapes shared by every AI feature
+ */
+
+/**
+ * Features that call a language model. Each feature can be routed to its own
+ * provider and model (see `LLM_FEATURE_DEFAULTS` in ./index.ts).
+ */
+export type LLMFeature =
+  | 'ocr'
+  | 'content-generation'
+  | 'concept-extraction'
+  | 'concept-generation'
+  | 'concept-draft'
+  | 'concept-examples'
+  | 'concept-reclassify'
+  | 'concept-split'
+  | 'concept-suggest'
+  | 'coherence-analysis'
+  | 'coherence-fixing'
+  | 'paraphrasing'
+  | 'minimal-paraphrase'
+  | 'multi-post-generation'
+  | 'face-detection'
+  | 'smart-auto-fill'
+  | 'topic-suggest'
+  | 'post-analysis'
+
+export type LLMProviderName = 'gemini' | 'fixture'
+
+/**
+ * Structured output schema. Uses the OpenAPI-style subset understood by Gemini
+ * (`type`, `properties`, `items`, `enum`, `required`, `description`), with type
+ * names in either case ('OBJECT' or 'object').
+ */
+export interface LLMSchema {
+  type: string
+  description?: string
+  properties?: Record<string, LLMSchema>
+  items?: LLMSchema
+  enum?: string[]
+  required?: string[]
+  propertyOrdering?: string[]
+  nullable?: boolean
+}
+
+/**
+ * A function the model asked to call, with its arguments
+ */
+export interface LLMToolCall {
+  id?: string
+  name: string
+  args: Record<string, unknown>
+}
+
+/**
+ * A function the model may call. Parameters use the same schema subset as
+ * structured output.
+ */
+export interface LLMTool {
+  name: string
+  description: string
+  parameters: LLMSchema
+}
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: LLMToolCall }
+  | { functionResponse: { id?: string; name: string; response: Record<string, unknown> } }
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  parts: LLMPart[]
+}
+
+/**
+ * What a model call was made for, recorded with its usage (e.g. the post
+ * being OCR'd or the remix being filled)
+ */
+export interface LLMUsageEntity {
+  type: string
+  id: string
+}
+
+export interface LLMRequest {
+  feature: LLMFeature
+  /** Plain prompt, shorthand for a single user message with one text part */
+  prompt?: string
+  /** Full message list (takes precedence over `prompt`) */
+  messages?: LLMMessage[]
+  system?: string
+  /** Overrides the model configured for the feature */
+  model?: string
+  temperature?: number
+  maxOutputTokens?: number
+  /** Functions the model may call instead of answering (streamText only) */
+  tools?: LLMTool[]
+  /** 'none' keeps the tools declared but makes the model answer in text */
+  toolChoice?: 'auto' | 'none'
+  /** Recorded in the AI usage ledger with the call's tokens and cost */
+  entity?: LLMUsageEntity
+}
+
+export interface LLMStructuredRequest extends LLMRequest {
+  schema?: LLMSchema
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMTextResult {
+  text: string
+  model: string
+  provider: LLMProviderName
+  usage?: LLMUsage
+}
+
+export interface LLMJSONResult<T> extends LLMTextResult {
+  data: T
+}
+
+export type LLMStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: LLMToolCall }
+  | { type: 'usage'; usage: LLMUsage }
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+
+  /** Free-form text generation */
+  generateText(request: LLMRequest): Promise<LLMTextResult>
+
+  /** Raw JSON text generation (parsing is done by the caller via ./json.ts) */
+  generateJSONText(request: LLMStructuredRequest): Promise<LLMTextResult>
+
+  /**
+   * Incremental text generation, ending with a usage chunk when available.
+   * With `tools`, the model may answer with tool_call chunks instead; the
+   * caller runs them and sends the results back as functionResponse parts.
+   */
+  streamText(request: LLMRequest): AsyncIterable<LLMStreamChunk>
+}
@@ -0,0 +1,77 @@
+/**
+ * Login Rate Limit
+ *
+ * Counts failed sign-ins per email and per client IP in fixed Redis windows
+ * and blocks further attempts once either count reaches its limit. A
+ * successful sign-in clears the email's count. When Redis is unavailable
+ * sign-ins are let through rather than locking every user out.
+ */
+
+import { normalizeEmail } from './auth-service'
+import { deleteCounter, getCounter, incrementCounter } from './redis-cache'
+
+export const LOGIN_WINDOW_SECONDS = 15 * 60
+
+// Failed attempts allowed per window
+export const LOGIN_ATTEMPT_LIMITS = {
+  email: parseInt(process.env.LOGIN_ATTEMPTS_PER_EMAIL || '5', 10),
+  ip: parseInt(process.env.LOGIN_ATTEMPTS_PER_IP || '20', 10)
+}
+
+// Reverse proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXY_COUNT = Math.max(1, parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10) || 1)
+
+const emailKey = (email: string) => `auth:login-failures:email:${normalizeEmail(email)}`
+const ipKey = (ip: string) => `auth:login-failures:ip:${ip}`
+
+/**
+ * Client IP from the proxy headers. Clients can send their own
+ * X-Forwarded-For, so only the entry appended by the outermost trusted proxy
+ * is used: the TRUSTED_PROXY_COUNT-th from the end
+ */
+export function getClientIp(headers: Headers, trustedProxies = TRUSTED_PROXY_COUNT): string {
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  const forwarded = hops[Math.max(0, hops.length - trustedProxies)]
+  return forwarded || headers.get('x-real-ip')?.trim() || 'unknown'
+}
+
+/**
+ * Seconds until the email or IP may try again, or null when it is not blocked
+ */
+export async function getLoginRetryAfter(email: string, ip: string): Promise<number | null> {
+  try {
+    const [byEmail, byIp] = await Promise.all([getCounter(emailKey(email)), getCounter(ipKey(ip))])
+
+    const waits = [
+      byEmail.count >= LOGIN_ATTEMPT_LIMITS.email ? byEmail.ttlSeconds : null,
+      byIp.count >= LOGIN_ATTEMPT_LIMITS.ip ? byIp.ttlSeconds : null
+    ].filter((wait): wait is number => wait !== null)
+
+    return waits.length > 0 ? Math.max(...waits, 1) : null
+  } catch (error) {
+    console.error('⚠️ [LoginRateLimit] Failed to read attempt counters, allowing sign-in:', error)
+    return null
+  }
+}
+
+export async function recordFailedLogin(email: string, ip: string): Promise<void> {
+  try {
+    await Promise.all([
+      incrementCounter(emailKey(email), LOGIN_WINDOW_SECONDS),
+      incrementCounter(ipKey(ip), LOGIN_WINDOW_SECONDS)
+    ])
+  } catch (error) {
+    console.error('⚠️ [LoginRateLimit] Failed to record failed sign-in:', error)
+  }
+}
+
+export async function clearFailedLogins(email: string): Promise<void> {
+  try {
+    await deleteCounter(emailKey(email))
+  } catch (error) {
+    console.error('⚠️ [LoginRateLimit] Failed to clear failed sign-ins:', error)
+  }
+}
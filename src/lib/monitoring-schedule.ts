@@ -0,0 +1,241 @@
+/**
+ * Monitoring Schedule
+ *
+ * Works out when a monitored profile should next be scraped. Settings resolve
+ * profile override -> profile group default -> app default, and the next run is
+ * pushed into the configured active hours. With adaptive scheduling enabled the
+ * interval shrinks while the profile's recent posts are gaining views quickly.
+ */
+
+import type { PrismaClient } from '@/generated/prisma'
+
+export const DEFAULT_MONITORING_INTERVAL_HOURS = 24
+export const MIN_MONITORING_INTERVAL_HOURS = 1 // trigger-monitoring runs hourly
+export const MAX_MONITORING_INTERVAL_HOURS = 24 * 30
+
+// Posts younger than this count towards the adaptive view velocity
+export const ADAPTIVE_WINDOW_HOURS = 72
+
+// Views/hour on the fastest recent post -> interval divisor
+const ADAPTIVE_TIERS: Array<{ minViewsPerHour: number; divisor: number }> = [
+  { minViewsPerHour: 5000, divisor: 4 },
+  { minViewsPerHour: 1000, divisor: 2 },
+]
+
+export interface MonitoringScheduleFields {
+  monitoringIntervalHours: number | null
+  monitoringActiveStart: number | null
+  monitoringActiveEnd: number | null
+  monitoringTimezone: string | null
+  monitoringAdaptive: boolean | null
+}
+
+export interface MonitoringSettings {
+  intervalHours: number
+  activeStart: number | null
+  activeEnd: number | null
+  timezone: string
+  adaptive: boolean
+}
+
+/**
+ * Merge profile overrides with group defaults and app defaults.
+ * Active hours are only taken as a start/end pair from a single level.
+ */
+export function resolveMonitoringSettings(
+  profile: MonitoringScheduleFields,
+  group?: MonitoringScheduleFields | null
+): MonitoringSettings {
+  const hasHours = (fields?: MonitoringScheduleFields | null) =>
+    fields?.monitoringActiveStart != null && fields?.monitoringActiveEnd != null
+
+  const hoursSource = hasHours(profile) ? profile : hasHours(group) ? group : null
+
+  return {
+    intervalHours: profile.monitoringIntervalHours ?? group?.monitoringIntervalHours ?? DEFAULT_MONITORING_INTERVAL_HOURS,
+    activeStart: hoursSource?.monitoringActiveStart ?? null,
+    activeEnd: hoursSource?.monitoringActiveEnd ?? null,
+    timezone: profile.monitoringTimezone ?? group?.monitoringTimezone ?? 'UTC',
+    adaptive: profile.monitoringAdaptive ?? group?.monitoringAdaptive ?? false,
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getLocalHour(date: Date, timezone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date)
+  return parseInt(hour, 10)
+}
+
+/**
+ * Whether a moment falls inside the active window. The window may wrap past
+ * midnight (e.g. 20 -> 2); start === end means all day.
+ */
+export function isWithinActiveHours(date: Date, settings: MonitoringSettings): boolean {
+  const { activeStart, activeEnd } = settings
+  if (activeStart == null || activeEnd == null || activeStart === activeEnd) {
+    return true
+  }
+
+  const hour = getLocalHour(date, settings.timezone)
+  return activeStart < activeEnd
+    ? hour >= activeStart && hour < activeEnd
+    : hour >= activeStart || hour < activeEnd
+}
+
+/**
+ * Highest views-per-hour among posts published within the adaptive window
+ */
+export function computeRecentViewVelocity(
+  posts: Array<{ viewCount: bigint | number | null; publishedAt: Date | null }>,
+  now: Date = new Date()
+): number {
+  let maxVelocity = 0
+
+  for (const post of posts) {
+    if (!post.publishedAt || !post.viewCount) continue
+
+    const ageHours = (now.getTime() - post.publishedAt.getTime()) / (60 * 60 * 1000)
+    if (ageHours > ADAPTIVE_WINDOW_HOURS) continue
+
+    const velocity = Number(post.viewCount) / Math.max(ageHours, 1)
+    maxVelocity = Math.max(maxVelocity, velocity)
+  }
+
+  return maxVelocity
+}
+
+/**
+ * Interval after applying adaptive speed-up for fast-growing posts
+ */
+export function getEffectiveIntervalHours(settings: MonitoringSettings, viewsPerHour = 0): number {
+  let interval = settings.intervalHours
+
+  if (settings.adaptive) {
+    const tier = ADAPTIVE_TIERS.find(t => viewsPerHour >= t.minViewsPerHour)
+    if (tier) interval = interval / tier.divisor
+  }
+
+  return Math.min(Math.max(interval, MIN_MONITORING_INTERVAL_HOURS), MAX_MONITORING_INTERVAL_HOURS)
+}
+
+/**
+ * Next monitoring run: now + effective interval, moved forward to the start of
+ * the next active window when it lands outside active hours.
+ */
+export function computeNextMonitoringRun(
+  settings: MonitoringSettings,
+  options: { now?: Date; viewsPerHour?: number } = {}
+): Date {
+  const now = options.now ?? new Date()
+  const intervalMs = getEffectiveIntervalHours(settings, options.viewsPerHour) * 60 * 60 * 1000
+  const next = new Date(now.getTime() + intervalMs)
+
+  if (isWithinActiveHours(next, settings)) {
+    return next
+  }
+
+  // Walk forward hour by hour (on the hour) until the window opens
+  const candidate = new Date(next)
+  candidate.setUTCMinutes(0, 0, 0)
+  for (let i = 0; i < 24; i++) {
+    candidate.setUTCHours(candidate.getUTCHours() + 1)
+    if (isWithinActiveHours(candidate, settings)) {
+      return candidate
+    }
+  }
+
+  return next
+}
+
+/**
+ * Load a profile's schedule settings and recent posts and compute its next run
+ */
+export async function calculateNextMonitoringRun(
+  prisma: PrismaClient,
+  profileId: string,
+  now: Date = new Date()
+): Promise<{ nextRun: Date; settings: MonitoringSettings; viewsPerHour: number }> {
+  const profile = await prisma.tiktokProfile.findUnique({
+    where: { id: profileId },
+    select: {
+      monitoringIntervalHours: true,
+      monitoringActiveStart: true,
+      monitoringActiveEnd: true,
+      monitoringTimezone: true,
+      monitoringAdaptive: true,
+      profileGroup: {
+        select: {
+          monitoringIntervalHours: true,
+          monitoringActiveStart: true,
+          monitoringActiveEnd: true,
+          monitoringTimezone: true,
+          monitoringAdaptive: true,
+        },
+      },
+    },
+  })
+
+  if (!profile) {
+    throw new Error(`Profile not found: ${profileId}`)
+  }
+
+  const settings = resolveMonitoringSettings(profile, profile.profileGroup)
+
+  let viewsPerHour = 0
+  if (settings.adaptive) {
+    const recentPosts = await prisma.tiktokPost.findMany({
+      where: {
+        profileId,
+        publishedAt: { gte: new Date(now.getTime() - ADAPTIVE_WINDOW_HOURS * 60 * 60 * 1000) },
+      },
+      select: { viewCount: true, publishedAt: true },
+    })
+    viewsPerHour = computeRecentViewVelocity(recentPosts, now)
+  }
+
+  return {
+    nextRun: computeNextMonitoringRun(settings, { now, viewsPerHour }),
+    settings,
+    viewsPerHour,
+  }
+}
+
+/**
+ * Recompute nextMonitoringRun for monitored profiles after their settings
+ * changed. By default the new cadence counts from each profile's last run, so
+ * shortening an interval can make a profile due immediately.
+ */
+export async function rescheduleMonitoredProfiles(
+  prisma: PrismaClient,
+  profileIds: string[],
+  options: { fromNow?: boolean } = {}
+): Promise<number> {
+  const profiles = await prisma.tiktokProfile.findMany({
+    where: { id: { in: profileIds }, monitoringEnabled: true },
+    select: { id: true, lastMonitoringRun: true },
+  })
+
+  for (const profile of profiles) {
+    const base = options.fromNow ? new Date() : profile.lastMonitoringRun ?? new Date()
+    const { nextRun } = await calculateNextMonitoringRun(prisma, profile.id, base)
+
+    await prisma.tiktokProfile.update({
+      where: { id: profile.id },
+      data: { nextMonitoringRun: nextRun },
+    })
+  }
+
+  return profiles.length
+}
@@ -1,8 +1,9 @@
-import { GoogleGenAI } from '@google/genai'
+import { generateJSON } from './llm'
+import { promptTemplateService } from './prompt-template-service'
 import { PrismaClient } from '@/generated/prisma'
 import { CANVAS_SIZES, createDefaultBackgroundLayers } from './validations/remix-schema'
+import { brandKitService } from './brand-kit-service'
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! })
 const prisma = new PrismaClient()
 
 export interface GenerationConfig {
@@ -16,6 +17,7 @@ export interface GenerationConfig {
   }
   additionalPrompt?: string
   productContextId?: string
+  createdById?: string // User who requested the generation
 }
 
 export interface GeneratedRemix {
@@ -116,57 +118,17 @@ async function analyzePostPatterns(posts: any[]) {
       }
     })
 
-    const prompt = `You are an expert at analyzing TikTok carousel content patterns.
-
-ANALYZE THESE SUCCESSFUL POSTS:
-${JSON.stringify(postsData, null, 2)}
-
-IDENTIFY:
-1. Common structural patterns (slide counts, hook/content/CTA distribution)
-2. Language style patterns (tone, sentence length, emoji usage, punctuation)
-3. Content themes and categories
-4. Hook strategies
-5. CTA approaches
-6. Common phrases and writing patterns
-
-RESPOND WITH VALID JSON ONLY (no markdown):
-{
-  "structuralPatterns": {
-    "avgSlideCount": 6,
-    "slideCountRange": { "min": 5, "max": 8 },
-    "commonPattern": "1 hook + 4-6 content + 1 cta"
-  },
-  "languageStyle": {
-    "tone": "casual-professional",
-    "avgSentenceLength": 12,
-    "emojiUsage": "moderate",
-    "commonPhrases": ["here's the truth", "game changer"],
-    "punctuationStyle": "exclamatory",
-    "writingPatterns": "Short punchy sentences with personal voice"
-  },
-  "contentThemes": ["lessons learned", "tips and tricks", "mistakes to avoid"],
-  "hookStrategies": ["bold claims", "personal stories", "shocking stats"],
-  "ctaApproaches": ["feature highlight", "problem solution"],
-  "styleProfile": "Educational content with authentic personal experience, using casual but authoritative tone"
-}`
-
-    const contents = [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }]
-      }
-    ]
+    const { text: prompt } = await promptTemplateService.render('multi-post-analysis', {
+      postsJson: JSON.stringify(postsData, null, 2)
+    })
 
-    const result = await genAI.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents,
-      config: {
-        temperature: 0.3,
-        responseMimeType: 'application/json'
-      }
+    const result = await generateJSON<any>({
+      feature: 'multi-post-generation',
+      prompt,
+      temperature: 0.3
     })
 
-    return JSON.parse(result.text)
+    return result.data
   } catch (error) {
     console.error('Pattern analysis failed:', error)
     throw error
@@ -208,73 +170,25 @@ async function generateSingleVariation(
       }
     })
 
-    const prompt = `You are an expert content creator specializing in viral TikTok carousels.
-
-SOURCE POSTS FOR REFERENCE (learn the style, don't copy):
-${JSON.stringify(sourceContent, null, 2)}
-
-LEARNED STYLE PROFILE:
-${JSON.stringify(analysis.languageStyle, null, 2)}
-
-${productContext ? `PRODUCT CONTEXT:
-${productContext.description}
-` : ''}
-
-${config.additionalPrompt ? `ADDITIONAL INSTRUCTIONS:
-${config.additionalPrompt}
-` : ''}
-
-CREATE A NEW ${slideCount}-SLIDE CAROUSEL:
-
-CRITICAL STRUCTURE REQUIREMENTS:
-1. Exactly ONE HOOK slide (must be the first slide)
-2. Exactly ONE CTA slide (must be the last slide)${productContext ? ' - mention the product ONLY here' : ''}
-3. All middle slides must be CONTENT slides
-
-CONTENT FLOW REQUIREMENTS:
-4. Create a natural conversation that builds progressively - each slide should flow into the next
-5. H slide: Create curiosity with the main topic
-6. CONTENT slides: Build knowledge step-by-step, each slide expanding on the previous
-7. CTA slide: Compelling call-to-action${productContext ? ' that naturally incorporates the product' : ''}
-
-STYLE REQUIREMENTS:
-8. Match the learned language style exactly (tone, sentence length, emoji usage, punctuation)
-9. Use similar writing patterns but with completely unique content
-10. Make each slide engaging and swipeable
-11. Variation ${variationIndex + 1} should be unique from other variations
-
-RESPOND WITH VALID JSON ONLY (no markdown):
-{
-  "slides": [
-    {
-      "text": "Slide text here",
-      "type": "HOOK" | "CONTENT" | "CTA",
-      "suggestedCategory": "Category name"
-    }
-  ],
-  "languageStyleTags": ["casual", "emoji-moderate", "short-punchy"]
-}`
-
-    const contents = [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }]
-      }
-    ]
+    const { text: prompt, versionId: promptVersionId } = await promptTemplateService.render('multi-post-generation', {
+      sourceContent: JSON.stringify(sourceContent, null, 2),
+      languageStyle: JSON.stringify(analysis.languageStyle, null, 2),
+      productContext: productContext?.description,
+      additionalPrompt: config.additionalPrompt,
+      slideCount,
+      variationNumber: variationIndex + 1
+    })
 
-    const result = await genAI.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents,
-      config: {
-        temperature: 0.8, // Higher temperature for more variation
-        responseMimeType: 'application/json'
-      }
+    const result = await generateJSON<any>({
+      feature: 'multi-post-generation',
+      prompt,
+      temperature: 0.8 // Higher temperature for more variation
     })
 
-    const generated = JSON.parse(result.text)
+    const generated = result.data
 
     // Transform to remix slide structure
-    const slides = generated.slides.map((slide: any, index: number) => ({
+    const baseSlides = generated.slides.map((slide: any, index: number) => ({
       id: `slide_${Date.now()}_${variationIndex}_${index}`,
       displayOrder: index,
       canvas: CANVAS_SIZES.INSTAGRAM_STORY,
@@ -284,6 +198,12 @@ RESPOND WITH VALID JSON ONLY (no markdown):
       textBoxes: []
     }))
 
+    const slides = await brandKitService.applyToNewSlides(
+      baseSlides,
+      { productContextId: config.productContextId },
+      generated.slides.map((slide: any, index: number) => ({ slideIndex: index, type: slide.type }))
+    )
+
     // Generate a compelling description based on the actual content
     const firstHookSlide = generated.slides.find(s => s.type === 'HOOK')?.text || ''
     const contentThemes = generated.slides.filter(s => s.type === 'CONTENT').slice(0, 2).map(s => {
@@ -315,9 +235,12 @@ RESPOND WITH VALID JSON ONLY (no markdown):
         description: description,
         generationType: 'ai_multi_post',
         generationPrompt: prompt,
+        promptVersionId,
         languageStyleTags: generated.languageStyleTags || [],
         isDraft: true,
-        slides: JSON.stringify(slides)
+        slides: JSON.stringify(slides),
+        createdById: config.createdById ?? null,
+        updatedById: config.createdById ?? null
       }
     })
 
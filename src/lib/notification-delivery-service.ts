@@ -0,0 +1,242 @@
+/**
+ * Notification Delivery Service
+ *
+ * Fans a notification out to the configured notification channels. Every
+ * send is recorded as a NotificationDelivery row; the first attempt happens
+ * inline and failures are retried by the notification delivery queue with
+ * exponential backoff until the attempts run out.
+ */
+
+import { PrismaClient, DeliveryStatus, Prisma } from '@/generated/prisma'
+import { sendToChannel, type NotificationMessage } from './notifications'
+import {
+  notificationDeliveryQueue,
+  NOTIFICATION_DELIVERY_MAX_ATTEMPTS,
+} from './queue/notification-delivery-queue'
+
+const prisma = new PrismaClient()
+
+export interface DispatchOptions {
+  /** In-app notification this delivery belongs to */
+  notificationId?: string | null
+  /** Channels to deliver to in addition to the defaults */
+  channelIds?: string[]
+  /** Whether to include channels marked as default. Defaults to true. */
+  useDefaultChannels?: boolean
+}
+
+export interface DispatchResult {
+  deliveryId: string
+  channelId: string
+  success: boolean
+  error?: string
+}
+
+const errorMessage = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error)).substring(0, 1000)
+
+class NotificationDeliveryService {
+  private bootstrapped = false
+
+  /**
+   * Installs that only set DISCORD_WEBHOOK_URL keep receiving notifications:
+   * the env webhook becomes the default channel until channels are configured.
+   */
+  private async ensureEnvChannel(): Promise<void> {
+    if (this.bootstrapped) return
+    this.bootstrapped = true
+
+    const webhookUrl = process.env.DISCORD_WEBHOOK_URL
+    if (!webhookUrl) return
+
+    const existing = await prisma.notificationChannel.count()
+    if (existing > 0) return
+
+    await prisma.notificationChannel.create({
+      data: {
+        name: 'Discord',
+        type: 'DISCORD',
+        isDefault: true,
+        config: { webhookUrl },
+      },
+    })
+    console.log('📣 [NotificationDelivery] Created default Discord channel from DISCORD_WEBHOOK_URL')
+  }
+
+  /**
+   * Deliver a message to the default channels and/or specific channels
+   */
+  async dispatch(message: NotificationMessage, options: DispatchOptions = {}): Promise<DispatchResult[]> {
+    const { notificationId, channelIds = [], useDefaultChannels = true } = options
+
+    await this.ensureEnvChannel()
+
+    const targets: Prisma.NotificationChannelWhereInput[] = []
+    if (channelIds.length > 0) targets.push({ id: { in: channelIds } })
+    if (useDefaultChannels) targets.push({ isDefault: true })
+    if (targets.length === 0) return []
+
+    const channels = await prisma.notificationChannel.findMany({
+      where: { enabled: true, OR: targets },
+      select: { id: true },
+    })
+
+    const results: DispatchResult[] = []
+
+    for (const channel of channels) {
+      const delivery = await prisma.notificationDelivery.create({
+        data: {
+          channelId: channel.id,
+          notificationId: notificationId ?? null,
+          payload: message as unknown as Prisma.InputJsonValue,
+        },
+      })
+
+      try {
+        await this.attemptDelivery(delivery.id, { isFinalAttempt: false })
+        results.push({ deliveryId: delivery.id, channelId: channel.id, success: true })
+      } catch (error) {
+        results.push({ deliveryId: delivery.id, channelId: channel.id, success: false, error: errorMessage(error) })
+        await notificationDeliveryQueue
+          .addRetryJob(delivery.id, NOTIFICATION_DELIVERY_MAX_ATTEMPTS - 1)
+          .catch(queueError => console.error(`❌ [NotificationDelivery] Failed to queue retry for ${delivery.id}:`, queueError))
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Send a logged delivery once. Throws when the channel rejects it so the
+   * caller (or BullMQ) can retry.
+   */
+  async attemptDelivery(deliveryId: string, { isFinalAttempt }: { isFinalAttempt: boolean }): Promise<void> {
+    const delivery = await prisma.notificationDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { channel: true },
+    })
+
+    if (!delivery) {
+      throw new Error(`Notification delivery not found: ${deliveryId}`)
+    }
+
+    if (delivery.status === DeliveryStatus.SENT) {
+      return
+    }
+
+    if (!delivery.channel.enabled) {
+      await prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: { status: DeliveryStatus.FAILED, lastError: 'Channel is disabled' },
+      })
+      return
+    }
+
+    try {
+      await sendToChannel(delivery.channel, delivery.payload as unknown as NotificationMessage)
+
+      await prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: DeliveryStatus.SENT,
+          attempts: { increment: 1 },
+          lastError: null,
+          sentAt: new Date(),
+        },
+      })
+    } catch (error) {
+      const message = errorMessage(error)
+      console.error(`❌ [NotificationDelivery] ${delivery.channel.type} delivery ${deliveryId} failed: ${message}`)
+
+      await prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: isFinalAttempt ? DeliveryStatus.FAILED : DeliveryStatus.RETRYING,
+          attempts: { increment: 1 },
+          lastError: message,
+        },
+      })
+
+      throw error
+    }
+  }
+
+  /**
+   * Send a sample message through a channel right away
+   */
+  async testChannel(channelId: string): Promise<DispatchResult> {
+    const channel = await prisma.notificationChannel.findUnique({ where: { id: channelId } })
+
+    if (!channel) {
+      throw new Error('Notification channel not found')
+    }
+
+    const message: NotificationMessage = {
+      title: '🧪 Test Notification',
+      message: `This is a test notification for the "${channel.name}" channel.`,
+      details: 'If you can see this, the channel is configured correctly.',
+      fields: [
+        { name: 'Channel', value: channel.name, inline: true },
+        { name: 'Type', value: channel.type, inline: true },
+      ],
+      color: 0x5865f2,
+      type: 'TEST',
+      timestamp: new Date().toISOString(),
+    }
+
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        channelId,
+        payload: message as unknown as Prisma.InputJsonValue,
+      },
+    })
+
+    try {
+      // Tests are not retried - the user sees the error immediately
+      await this.attemptDelivery(delivery.id, { isFinalAttempt: true })
+      return { deliveryId: delivery.id, channelId, success: true }
+    } catch (error) {
+      return { deliveryId: delivery.id, channelId, success: false, error: errorMessage(error) }
+    }
+  }
+
+  /**
+   * Manually resend a failed delivery
+   */
+  async retryDelivery(deliveryId: string): Promise<DispatchResult> {
+    const delivery = await prisma.notificationDelivery.findUnique({ where: { id: deliveryId } })
+
+    if (!delivery) {
+      throw new Error('Notification delivery not found')
+    }
+
+    try {
+      await this.attemptDelivery(deliveryId, { isFinalAttempt: true })
+      return { deliveryId, channelId: delivery.channelId, success: true }
+    } catch (error) {
+      return { deliveryId, channelId: delivery.channelId, success: false, error: errorMessage(error) }
+    }
+  }
+
+  /**
+   * Recent delivery log, newest first
+   */
+  async getDeliveries(filters: { channelId?: string; status?: DeliveryStatus; limit?: number } = {}) {
+    return prisma.notificationDelivery.findMany({
+      where: {
+        channelId: filters.channelId,
+        status: filters.status,
+      },
+      include: {
+        channel: {
+          select: { id: true, name: true, type: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+    })
+  }
+}
+
+// Export singleton instance
+export const notificationDeliveryService = new NotificationDeliveryService()
@@ -1,7 +1,53 @@
-import { PrismaClient, NotificationType } from '@/generated/prisma';
+import { PrismaClient, NotificationType, AlertCondition, AlertMetric, type AlertRule } from '@/generated/prisma';
+import { notificationDeliveryService } from './notification-delivery-service';
 
 const prisma = new PrismaClient();
 
+const ALERT_EMOJI: Record<AlertCondition, string> = {
+  ABOVE: '🔥',
+  BELOW: '📉',
+  GROWTH_ABOVE: '🚀',
+  GROWTH_PERCENT_ABOVE: '🚀',
+  NEW_POST: '🆕',
+};
+
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  VIEWS: 'views',
+  LIKES: 'likes',
+  SHARES: 'shares',
+  COMMENTS: 'comments',
+  SAVES: 'saves',
+  ENGAGEMENT_RATE: 'engagement rate',
+};
+
+/**
+ * Human readable summary of why an alert rule fired
+ */
+export function describeAlert(
+  rule: Pick<AlertRule, 'metric' | 'condition' | 'windowHours'>,
+  value: number,
+  handle?: string | null
+): string {
+  const label = METRIC_LABELS[rule.metric];
+  const amount = rule.metric === 'ENGAGEMENT_RATE'
+    ? `${value.toFixed(1)}%`
+    : Math.round(value).toLocaleString();
+  const window = `${rule.windowHours ?? 24}h`;
+
+  switch (rule.condition) {
+    case 'ABOVE':
+      return `Post has reached ${amount} ${label}`;
+    case 'BELOW':
+      return `Post is at only ${amount} ${label}`;
+    case 'GROWTH_ABOVE':
+      return `Post gained ${amount} ${label} in the last ${window}`;
+    case 'GROWTH_PERCENT_ABOVE':
+      return `Post ${label} grew ${value.toFixed(0)}% in the last ${window}`;
+    case 'NEW_POST':
+      return handle ? `New post from @${handle}` : 'New post detected';
+  }
+}
+
 interface CreateNotificationData {
   type: NotificationType;
   title: string;
@@ -10,46 +56,7 @@ interface CreateNotificationData {
   metadata?: Record<string, any>;
 }
 
-interface DiscordWebhookEmbed {
-  title: string;
-  description: string;
-  color?: number;
-  fields?: Array<{
-    name: string;
-    value: string;
-    inline?: boolean;
-  }>;
-  thumbnail?: {
-    url: string;
-  };
-  url?: string;
-  timestamp?: string;
-  footer?: {
-    text: string;
-  };
-}
-
 class NotificationService {
-  private webhookUrl: string | undefined;
-
-  constructor() {
-    this.webhookUrl = process.env.DISCORD_WEBHOOK_URL;
-  }
-
-  /**
-   * Check if a notification has already been sent for a specific post and type
-   */
-  async hasNotificationBeenSent(postId: string, type: NotificationType): Promise<boolean> {
-    const existing = await prisma.notification.findFirst({
-      where: {
-        postId,
-        type,
-      },
-    });
-
-    return !!existing;
-  }
-
   /**
    * Create a notification in the database
    */
@@ -73,89 +80,64 @@ class NotificationService {
   }
 
   /**
-   * Send a notification to Discord webhook
-   */
-  async sendToDiscord(embed: DiscordWebhookEmbed): Promise<boolean> {
-    if (!this.webhookUrl) {
-      console.warn('Discord webhook URL not configured, skipping Discord notification');
-      return false;
-    }
-
-    try {
-      const response = await fetch(this.webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          embeds: [embed],
-        }),
-      });
-
-      if (!response.ok) {
-        console.error('Discord webhook failed:', response.status, await response.text());
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Failed to send Discord notification:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Check if a post has reached high views threshold and send notification if needed
+   * Deliver a fired alert rule to the rule's channels.
+   * Returns the in-app notification id when one was created.
    */
-  async checkAndNotifyHighViews(post: {
-    id: string;
-    tiktokUrl: string;
-    viewCount: bigint | null;
-    likeCount: number | null;
-    shareCount: number | null;
-    commentCount: number | null;
-    title?: string | null;
-    description?: string | null;
-    coverId?: string | null;
-  }): Promise<void> {
-    const HIGH_VIEWS_THRESHOLD = 1000;
-
-    // Check if views meet threshold
-    if (!post.viewCount || post.viewCount < HIGH_VIEWS_THRESHOLD) {
-      return;
-    }
-
-    // Check if notification already sent
-    const alreadySent = await this.hasNotificationBeenSent(post.id, NotificationType.HIGH_VIEWS);
-    if (alreadySent) {
-      return;
-    }
+  async notifyAlert(
+    rule: Pick<
+      AlertRule,
+      'id' | 'name' | 'metric' | 'condition' | 'threshold' | 'windowHours' | 'notificationType' | 'inApp' | 'useDefaultChannels'
+    > & { channels: Array<{ id: string }> },
+    post: {
+      id: string;
+      tiktokUrl: string;
+      viewCount: bigint | null;
+      likeCount: number | null;
+      shareCount: number | null;
+      commentCount: number | null;
+      title?: string | null;
+      description?: string | null;
+      profile?: { handle: string } | null;
+    },
+    value: number
+  ): Promise<string | null> {
+    const title = `${ALERT_EMOJI[rule.condition]} ${rule.name}`;
+    const message = describeAlert(rule, value, post.profile?.handle);
+    const metadata = {
+      ruleId: rule.id,
+      metric: rule.metric,
+      condition: rule.condition,
+      threshold: rule.threshold,
+      value,
+      viewCount: post.viewCount?.toString() || '0',
+      likeCount: post.likeCount,
+      shareCount: post.shareCount,
+      commentCount: post.commentCount,
+      tiktokUrl: post.tiktokUrl,
+    };
+    let notificationId: string | null = null;
 
-    try {
-      // Create notification in database
+    if (rule.inApp) {
       const notification = await this.createNotification({
-        type: NotificationType.HIGH_VIEWS,
-        title: '🔥 Content Performing Well!',
-        message: `Your post has reached ${post.viewCount.toLocaleString()} views`,
+        type: rule.notificationType,
+        title,
+        message,
         postId: post.id,
-        metadata: {
-          viewCount: post.viewCount.toString(),
-          likeCount: post.likeCount,
-          shareCount: post.shareCount,
-          commentCount: post.commentCount,
-          tiktokUrl: post.tiktokUrl,
-        },
+        metadata,
       });
+      notificationId = notification.id;
+    }
 
-      // Build Discord embed
-      const embed: DiscordWebhookEmbed = {
-        title: '🔥 Content Performing Well!',
-        description: post.title || post.description || 'A post is gaining traction!',
-        color: 0x00ff00, // Green color
+    await notificationDeliveryService.dispatch(
+      {
+        title,
+        message,
+        details: post.title || post.description || undefined,
+        color: rule.condition === 'BELOW' ? 0xffa500 : 0x00ff00, // Orange / green
         fields: [
           {
             name: '👁️ Views',
-            value: post.viewCount.toLocaleString(),
+            value: post.viewCount?.toLocaleString() || '0',
             inline: true,
           },
           {
@@ -175,25 +157,69 @@ class NotificationService {
           },
         ],
         url: post.tiktokUrl,
+        type: rule.notificationType,
+        metadata,
         timestamp: new Date().toISOString(),
-        footer: {
-          text: 'ViralSense Notification',
-        },
-      };
-
-      // Add thumbnail if cover image exists
-      if (post.coverId) {
-        // We'll need to resolve the cover URL later
-        // For now, we'll skip the thumbnail
+      },
+      {
+        notificationId,
+        channelIds: rule.channels.map(channel => channel.id),
+        useDefaultChannels: rule.useDefaultChannels,
       }
+    );
 
-      // Send to Discord (non-blocking)
-      await this.sendToDiscord(embed);
+    console.log(`✅ Alert "${rule.name}" sent for post ${post.id}`);
+    return notificationId;
+  }
+
+  /**
+   * Notify that a TikTok upload account can no longer be used for uploads
+   */
+  async notifyAccountHealth(account: {
+    id: string;
+    username: string | null;
+    displayName: string | null;
+    status: 'EXPIRED' | 'REVOKED';
+    reason: string;
+  }): Promise<void> {
+    const handle = account.username ? `@${account.username}` : account.displayName || account.id;
+    const title = account.status === 'REVOKED'
+      ? '🚫 TikTok Account Access Revoked'
+      : '⚠️ TikTok Account Token Expired';
+
+    try {
+      const notification = await this.createNotification({
+        type: NotificationType.ACCOUNT_HEALTH,
+        title,
+        message: `${handle} needs to be reconnected before it can upload again`,
+        metadata: {
+          accountId: account.id,
+          status: account.status,
+          reason: account.reason,
+        },
+      });
+
+      await notificationDeliveryService.dispatch(
+        {
+          title,
+          message: `${handle} needs to be reconnected before it can upload again.`,
+          color: account.status === 'REVOKED' ? 0xff0000 : 0xffa500, // Red / orange
+          fields: [
+            {
+              name: 'Reason',
+              value: account.reason.substring(0, 1024),
+            },
+          ],
+          type: NotificationType.ACCOUNT_HEALTH,
+          timestamp: new Date().toISOString(),
+        },
+        { notificationId: notification.id }
+      );
 
-      console.log(`✅ High views notification sent for post ${post.id}`);
+      console.log(`✅ Account health notification sent for ${handle}`);
     } catch (error) {
-      console.error('Failed to send high views notification:', error);
-      // Don't throw - we don't want to break the main flow
+      console.error('Failed to send account health notification:', error);
+      // Don't throw - we don't want to break the health check
     }
   }
 
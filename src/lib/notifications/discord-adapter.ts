@@ -0,0 +1,63 @@
+/**
+ * Discord channel - posts an embed to an incoming webhook
+ */
+
+import { z } from 'zod'
+import { NOTIFICATION_FOOTER, type NotificationChannelAdapter } from './types'
+
+const DiscordConfigSchema = z.object({
+  webhookUrl: z.string().url(),
+})
+
+type DiscordConfig = z.infer<typeof DiscordConfigSchema>
+
+interface DiscordWebhookEmbed {
+  title: string
+  description: string
+  color?: number
+  fields?: Array<{
+    name: string
+    value: string
+    inline?: boolean
+  }>
+  url?: string
+  timestamp?: string
+  footer?: {
+    text: string
+  }
+}
+
+export const discordAdapter: NotificationChannelAdapter<DiscordConfig> = {
+  type: 'DISCORD',
+  configSchema: DiscordConfigSchema,
+  secretFields: ['webhookUrl'],
+
+  async send(config, message) {
+    const embed: DiscordWebhookEmbed = {
+      title: message.title.substring(0, 256),
+      description: [message.message, message.details].filter(Boolean).join('\n\n').substring(0, 4096),
+      color: message.color,
+      // Discord caps field values at 1024 characters
+      fields: message.fields?.map(field => ({ ...field, value: field.value.substring(0, 1024) })),
+      url: message.url,
+      timestamp: message.timestamp,
+      footer: {
+        text: NOTIFICATION_FOOTER,
+      },
+    }
+
+    const response = await fetch(config.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        embeds: [embed],
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Discord webhook failed: ${response.status} ${await response.text()}`)
+    }
+  },
+}
@@ -0,0 +1,63 @@
+/**
+ * Email channel - sends a plain text + HTML email over SMTP
+ */
+
+import { z } from 'zod'
+import { sendSmtpMail } from './smtp-client'
+import { NOTIFICATION_FOOTER, type NotificationChannelAdapter, type NotificationMessage } from './types'
+
+const EmailConfigSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535).default(587),
+  secure: z.boolean().default(false),
+  user: z.string().optional(),
+  password: z.string().optional(),
+  allowInsecureAuth: z.boolean().default(false),
+  from: z.string().min(3),
+  to: z.array(z.string().email()).min(1),
+})
+
+type EmailConfig = z.infer<typeof EmailConfigSchema>
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function renderText(message: NotificationMessage): string {
+  const lines = [message.message]
+  if (message.details) lines.push('', message.details)
+  if (message.fields?.length) lines.push('', ...message.fields.map(field => `${field.name}: ${field.value}`))
+  if (message.url) lines.push('', message.url)
+  lines.push('', '--', NOTIFICATION_FOOTER)
+  return lines.join('\n')
+}
+
+function renderHtml(message: NotificationMessage): string {
+  const accent = `#${(message.color ?? 0x5865f2).toString(16).padStart(6, '0')}`
+  const rows = (message.fields ?? [])
+    .map(field => `<tr><td style="padding:4px 12px 4px 0;color:#666">${escapeHtml(field.name)}</td><td style="padding:4px 0"><strong>${escapeHtml(field.value)}</strong></td></tr>`)
+    .join('')
+
+  return `<div style="font-family:sans-serif;max-width:560px;border-left:4px solid ${accent};padding-left:16px">
+<h2 style="margin:0 0 8px">${escapeHtml(message.title)}</h2>
+<p style="margin:0 0 12px">${escapeHtml(message.message)}</p>
+${message.details ? `<p style="margin:0 0 12px;color:#444">${escapeHtml(message.details)}</p>` : ''}
+${rows ? `<table style="border-collapse:collapse;margin:0 0 12px">${rows}</table>` : ''}
+${message.url ? `<p style="margin:0 0 12px"><a href="${escapeHtml(message.url)}">Open</a></p>` : ''}
+<p style="margin:16px 0 0;color:#999;font-size:12px">${NOTIFICATION_FOOTER}</p>
+</div>`
+}
+
+export const emailAdapter: NotificationChannelAdapter<EmailConfig> = {
+  type: 'EMAIL',
+  configSchema: EmailConfigSchema,
+  secretFields: ['password'],
+
+  async send(config, message) {
+    await sendSmtpMail({
+      ...config,
+      subject: message.title,
+      text: renderText(message),
+      html: renderHtml(message),
+    })
+  },
+}
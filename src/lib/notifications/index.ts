@@ -0,0 +1,84 @@
+/**
+ * Notification Channel Registry
+ *
+ * Maps each NotificationChannelType to its adapter and handles the stored
+ * channel config: validation, masking credentials for the UI, and merging
+ * edits that leave masked secrets untouched.
+ */
+
+import type { NotificationChannelType } from '@/generated/prisma'
+import { discordAdapter } from './discord-adapter'
+import { slackAdapter } from './slack-adapter'
+import { telegramAdapter } from './telegram-adapter'
+import { emailAdapter } from './email-adapter'
+import { webhookAdapter } from './webhook-adapter'
+import type { NotificationChannelAdapter, NotificationMessage } from './types'
+
+export * from './types'
+export { signWebhookPayload } from './webhook-adapter'
+
+// Returned in place of stored secrets; sending it back keeps the stored value
+export const SECRET_MASK = '••••••••'
+
+const ADAPTERS: Record<NotificationChannelType, NotificationChannelAdapter<any>> = {
+  DISCORD: discordAdapter,
+  SLACK: slackAdapter,
+  TELEGRAM: telegramAdapter,
+  EMAIL: emailAdapter,
+  WEBHOOK: webhookAdapter,
+}
+
+export function getChannelAdapter(type: NotificationChannelType): NotificationChannelAdapter<any> {
+  const adapter = ADAPTERS[type]
+  if (!adapter) {
+    throw new Error(`Unsupported notification channel type: ${type}`)
+  }
+  return adapter
+}
+
+/**
+ * Validate a channel config, throwing a readable error when it is invalid
+ */
+export function parseChannelConfig(type: NotificationChannelType, config: unknown): Record<string, unknown> {
+  const result = getChannelAdapter(type).configSchema.safeParse(config)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new Error(`Invalid ${type.toLowerCase()} config: ${issue.path.join('.') || 'config'} ${issue.message}`)
+  }
+  return result.data
+}
+
+export function maskChannelConfig(type: NotificationChannelType, config: unknown): Record<string, unknown> {
+  const masked = { ...(config as Record<string, unknown>) }
+  for (const field of getChannelAdapter(type).secretFields) {
+    if (masked[field]) masked[field] = SECRET_MASK
+  }
+  return masked
+}
+
+/**
+ * Apply an edited config on top of the stored one; masked secrets keep their stored value
+ */
+export function mergeChannelConfig(
+  type: NotificationChannelType,
+  existing: unknown,
+  incoming: Record<string, unknown>
+): Record<string, unknown> {
+  const stored = existing as Record<string, unknown>
+  const merged = { ...incoming }
+  for (const field of getChannelAdapter(type).secretFields) {
+    if (merged[field] === SECRET_MASK) merged[field] = stored[field]
+  }
+  return merged
+}
+
+/**
+ * Format and send a message through a channel. Throws when delivery fails.
+ */
+export async function sendToChannel(
+  channel: { type: NotificationChannelType; config: unknown },
+  message: NotificationMessage
+): Promise<void> {
+  const adapter = getChannelAdapter(channel.type)
+  await adapter.send(parseChannelConfig(channel.type, channel.config), message)
+}
@@ -0,0 +1,67 @@
+/**
+ * Slack channel - posts Block Kit blocks to an incoming webhook
+ */
+
+import { z } from 'zod'
+import { NOTIFICATION_FOOTER, type NotificationChannelAdapter } from './types'
+
+const SlackConfigSchema = z.object({
+  webhookUrl: z.string().url(),
+})
+
+type SlackConfig = z.infer<typeof SlackConfigSchema>
+
+// Slack mrkdwn only needs &, < and > escaped
+const escapeSlack = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const slackAdapter: NotificationChannelAdapter<SlackConfig> = {
+  type: 'SLACK',
+  configSchema: SlackConfigSchema,
+  secretFields: ['webhookUrl'],
+
+  async send(config, message) {
+    const body = [message.message, message.details].filter(Boolean).map(text => escapeSlack(text!)).join('\n\n')
+    const link = message.url ? `\n<${message.url}|Open>` : ''
+
+    const blocks: Array<Record<string, unknown>> = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: message.title.substring(0, 150), emoji: true },
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `${body}${link}`.substring(0, 3000) },
+      },
+    ]
+
+    if (message.fields && message.fields.length > 0) {
+      blocks.push({
+        type: 'section',
+        // Slack allows at most 10 fields per section
+        fields: message.fields.slice(0, 10).map(field => ({
+          type: 'mrkdwn',
+          text: `*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}`.substring(0, 2000),
+        })),
+      })
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: NOTIFICATION_FOOTER }],
+    })
+
+    const response = await fetch(config.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      // `text` is the fallback used for push notifications
+      body: JSON.stringify({ text: `${message.title}: ${message.message}`, blocks }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Slack webhook failed: ${response.status} ${await response.text()}`)
+    }
+  },
+}
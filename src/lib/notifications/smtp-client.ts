@@ -0,0 +1,232 @@
+/**
+ * Minimal SMTP client
+ *
+ * Just enough of RFC 5321 to hand a message to a relay: implicit TLS (465) or
+ * STARTTLS, AUTH PLAIN, one sender and a few recipients, multipart text/HTML
+ * body. Credentials are only sent over TLS unless explicitly allowed. Used by
+ * the email notification channel.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import { randomUUID } from 'crypto'
+
+const SMTP_TIMEOUT_MS = 30000
+
+export interface SmtpMail {
+  host: string
+  port: number
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when offered. */
+  secure: boolean
+  user?: string
+  password?: string
+  /** Send credentials even when the server offers no STARTTLS */
+  allowInsecureAuth?: boolean
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  html?: string
+}
+
+interface SmtpResponse {
+  code: number
+  lines: string[]
+}
+
+class SmtpConnection {
+  private socket: net.Socket
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: ((response: SmtpResponse) => void) | null = null
+  private failure: ((error: Error) => void) | null = null
+  private error: Error | null = null
+
+  constructor(socket: net.Socket) {
+    this.socket = socket
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS)
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')))
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')))
+    socket.on('error', (error) => this.fail(error))
+  }
+
+  private onData(data: string): void {
+    this.buffer += data
+    let index: number
+
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.lines.push(line)
+
+      // "250 OK" ends a reply, "250-..." continues it
+      if (/^\d{3}( |$)/.test(line)) {
+        const response = { code: parseInt(line.slice(0, 3), 10), lines: this.lines }
+        this.lines = []
+        const resolve = this.waiting
+        this.waiting = null
+        this.failure = null
+        resolve?.(response)
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error = error
+    const reject = this.failure
+    this.waiting = null
+    this.failure = null
+    this.socket.destroy()
+    reject?.(error)
+  }
+
+  read(): Promise<SmtpResponse> {
+    return new Promise((resolve, reject) => {
+      // The socket may have failed while no reply was awaited
+      if (this.error) return reject(this.error)
+      this.waiting = resolve
+      this.failure = reject
+    })
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpResponse> {
+    const reply = this.read()
+    this.socket.write(`${line}\r\n`)
+    return this.expect(reply, expected, line.split(' ')[0])
+  }
+
+  async expect(reply: Promise<SmtpResponse>, expected: number[], step: string): Promise<SmtpResponse> {
+    const response = await reply
+    if (!expected.includes(response.code)) {
+      throw new Error(`SMTP ${step} failed: ${response.lines.join(' ')}`)
+    }
+    return response
+  }
+
+  async upgradeToTls(host: string): Promise<void> {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('timeout')
+    this.socket.removeAllListeners('error')
+
+    const secureSocket = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', () => resolve())
+      secureSocket.once('error', reject)
+    })
+
+    this.socket = secureSocket
+    this.attach(secureSocket)
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+}
+
+// "Name <user@example.com>" -> "user@example.com"
+const extractAddress = (address: string) => address.match(/<([^>]+)>/)?.[1] ?? address.trim()
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+
+const encodeBody = (value: string) =>
+  Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+
+/**
+ * Build the RFC 5322 message, including headers
+ */
+export function buildMimeMessage(mail: Pick<SmtpMail, 'from' | 'to' | 'subject' | 'text' | 'html'>): string {
+  const boundary = `----=_Part_${randomUUID()}`
+  const domain = extractAddress(mail.from).split('@')[1] || 'localhost'
+
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ]
+
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(body),
+  ].join('\r\n')
+
+  const parts = [part('text/plain', mail.text)]
+  if (mail.html) parts.push(part('text/html', mail.html))
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    ...parts,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+/**
+ * Deliver one message. Throws with the server's reply when a step is rejected.
+ */
+export async function sendSmtpMail(mail: SmtpMail): Promise<void> {
+  const socket = mail.secure
+    ? tls.connect({ host: mail.host, port: mail.port, servername: mail.host })
+    : net.connect({ host: mail.host, port: mail.port })
+
+  const connection = new SmtpConnection(socket)
+
+  try {
+    await connection.expect(connection.read(), [220], 'greeting')
+
+    const hostname = os.hostname() || 'localhost'
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250])
+
+    let encrypted = mail.secure
+    if (!mail.secure && ehlo.lines.some(line => /STARTTLS/i.test(line))) {
+      await connection.command('STARTTLS', [220])
+      await connection.upgradeToTls(mail.host)
+      await connection.command(`EHLO ${hostname}`, [250])
+      encrypted = true
+    }
+
+    if (mail.user && mail.password) {
+      // A missing (or stripped) STARTTLS must not leak the password
+      if (!encrypted && !mail.allowInsecureAuth) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials without TLS')
+      }
+
+      const credentials = Buffer.from(`\u0000${mail.user}\u0000${mail.password}`, 'utf8').toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(mail.from)}>`, [250])
+    for (const recipient of mail.to) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251])
+    }
+
+    await connection.command('DATA', [354])
+
+    // Dot-stuff lines starting with "." and terminate with <CRLF>.<CRLF>
+    const message = buildMimeMessage(mail).replace(/^\./gm, '..')
+    const accepted = connection.read()
+    connection.write(`${message}\r\n.\r\n`)
+    await connection.expect(accepted, [250], 'DATA')
+
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    connection.close()
+  }
+}
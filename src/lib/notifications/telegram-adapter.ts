@@ -0,0 +1,56 @@
+/**
+ * Telegram channel - sends an HTML formatted message through a bot
+ */
+
+import { z } from 'zod'
+import type { NotificationChannelAdapter } from './types'
+
+const TelegramConfigSchema = z.object({
+  botToken: z.string().min(1),
+  chatId: z.string().min(1),
+})
+
+type TelegramConfig = z.infer<typeof TelegramConfigSchema>
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+export const telegramAdapter: NotificationChannelAdapter<TelegramConfig> = {
+  type: 'TELEGRAM',
+  configSchema: TelegramConfigSchema,
+  secretFields: ['botToken'],
+
+  async send(config, message) {
+    const lines = [`<b>${escapeHtml(message.title)}</b>`, '', escapeHtml(message.message)]
+
+    if (message.details) {
+      lines.push('', escapeHtml(message.details))
+    }
+
+    if (message.fields && message.fields.length > 0) {
+      lines.push('', ...message.fields.map(field => `<b>${escapeHtml(field.name)}:</b> ${escapeHtml(field.value)}`))
+    }
+
+    if (message.url) {
+      lines.push('', `<a href="${escapeHtml(message.url)}">Open</a>`)
+    }
+
+    const response = await fetch(`https://api.telegram.org/bot${config.botToken}/sendMessage`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chat_id: config.chatId,
+        // Telegram rejects messages over 4096 characters
+        text: lines.join('\n').substring(0, 4096),
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Telegram API failed: ${response.status} ${await response.text()}`)
+    }
+  },
+}
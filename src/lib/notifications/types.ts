@@ -0,0 +1,47 @@
+/**
+ * Notification Channel Types
+ *
+ * Channel-agnostic message shape plus the adapter contract every delivery
+ * channel (Discord, Slack, Telegram, email, webhook) implements.
+ */
+
+import type { z } from 'zod'
+import type { NotificationChannelType } from '@/generated/prisma'
+
+export interface NotificationField {
+  name: string
+  value: string
+  inline?: boolean
+}
+
+/**
+ * What gets delivered. Each adapter formats it for its own channel; it is also
+ * stored on the delivery log so retries resend the exact same content.
+ */
+export interface NotificationMessage {
+  title: string
+  message: string
+  /** Longer body shown below the message (e.g. a post caption) */
+  details?: string
+  url?: string
+  fields?: NotificationField[]
+  /** Accent colour as 0xRRGGBB */
+  color?: number
+  /** Notification type, forwarded to webhooks */
+  type?: string
+  /** Extra structured data, forwarded to webhooks */
+  metadata?: Record<string, unknown>
+  timestamp: string
+}
+
+export interface NotificationChannelAdapter<TConfig = Record<string, unknown>> {
+  type: NotificationChannelType
+  /** Validates the channel's stored config */
+  configSchema: z.ZodType<TConfig>
+  /** Config keys holding credentials, masked when channels are listed */
+  secretFields: ReadonlyArray<keyof TConfig & string>
+  /** Throws with a readable message when the channel rejects the message */
+  send(config: TConfig, message: NotificationMessage): Promise<void>
+}
+
+export const NOTIFICATION_FOOTER = 'ViralSense Notification'
@@ -0,0 +1,53 @@
+/**
+ * Generic webhook channel - POSTs the message as JSON, signed with HMAC-SHA256
+ *
+ * Receivers verify `X-ViralSense-Signature` by computing
+ * `sha256=` + hex(HMAC_SHA256(secret, `${X-ViralSense-Timestamp}.${rawBody}`))
+ * and should reject timestamps older than a few minutes to prevent replays.
+ */
+
+import { createHmac } from 'crypto'
+import { z } from 'zod'
+import type { NotificationChannelAdapter } from './types'
+
+const WebhookConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16, 'Signing secret must be at least 16 characters'),
+  headers: z.record(z.string(), z.string()).optional(),
+})
+
+type WebhookConfig = z.infer<typeof WebhookConfigSchema>
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+export const webhookAdapter: NotificationChannelAdapter<WebhookConfig> = {
+  type: 'WEBHOOK',
+  configSchema: WebhookConfigSchema,
+  secretFields: ['secret'],
+
+  async send(config, message) {
+    const body = JSON.stringify({
+      event: 'notification',
+      notification: message,
+    })
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        ...config.headers,
+        'Content-Type': 'application/json',
+        'X-ViralSense-Timestamp': timestamp,
+        'X-ViralSense-Signature': signWebhookPayload(config.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(15000),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Webhook failed: ${response.status} ${(await response.text()).substring(0, 500)}`)
+    }
+  },
+}
@@ -0,0 +1,178 @@
+/**
+ * OCR Evaluation Metrics
+ *
+ * Pure scoring for the OCR evaluation harness: compares the slides and
+ * category predicted by a run against the labeled gold set, and aggregates
+ * per-case scores into accuracy, a slide type confusion matrix and text
+ * similarity.
+ */
+
+export const EVAL_SLIDE_TYPES = ['hook', 'content', 'cta'] as const
+export type EvalSlideType = typeof EVAL_SLIDE_TYPES[number]
+
+export interface EvalSlide {
+  imageIndex: number
+  slideType: EvalSlideType
+  ocrText: string
+}
+
+export interface EvalLabels {
+  category: string | null
+  slides: EvalSlide[]
+}
+
+export interface SlideScore {
+  imageIndex: number
+  expectedType: EvalSlideType
+  predictedType: EvalSlideType | null // null when the model returned no slide for this image
+  textSimilarity: number
+}
+
+export interface CaseScore {
+  slides: SlideScore[]
+  slideAccuracy: number
+  textSimilarity: number
+  categoryMatch: boolean | null // null when the case has no expected category
+}
+
+export interface ClassMetrics {
+  precision: number
+  recall: number
+  f1: number
+  support: number // Labeled slides of this type
+}
+
+// expected type -> predicted type (or 'missing') -> slide count
+export type ConfusionMatrix = Record<EvalSlideType, Record<EvalSlideType | 'missing', number>>
+
+export interface OcrEvalReport {
+  cases: number // Cases scored
+  failedCases: number // Cases where the model call failed
+  slides: number
+  slideAccuracy: number
+  categoryAccuracy: number | null // null when no case has an expected category
+  textSimilarity: number // Mean per-slide similarity
+  exactTextRate: number // Share of slides whose normalized text matches exactly
+  confusionMatrix: ConfusionMatrix
+  perClass: Record<EvalSlideType, ClassMetrics>
+}
+
+/**
+ * Lowercase and collapse whitespace so line breaks and spacing differences
+ * don't count against the model
+ */
+export function normalizeEvalText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Normalized edit similarity between two texts: 1 for identical text
+ * (after normalization), 0 when nothing overlaps
+ */
+export function textSimilarity(expected: string, predicted: string): number {
+  const a = normalizeEvalText(expected)
+  const b = normalizeEvalText(predicted)
+  const longest = Math.max(a.length, b.length)
+  if (longest === 0) return 1
+  return 1 - levenshtein(a, b) / longest
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function sameCategory(expected: string, predicted: string | null): boolean {
+  return predicted !== null && normalizeEvalText(expected) === normalizeEvalText(predicted)
+}
+
+/**
+ * Score one prediction against its labels. Slides are matched by image
+ * index; labeled slides the model skipped count as wrong with no text
+ * overlap, and extra predicted slides are ignored.
+ */
+export function scoreCase(expected: EvalLabels, predicted: EvalLabels): CaseScore {
+  const predictedByIndex = new Map(predicted.slides.map(slide => [slide.imageIndex, slide]))
+
+  const slides = expected.slides.map((slide): SlideScore => {
+    const match = predictedByIndex.get(slide.imageIndex)
+    return {
+      imageIndex: slide.imageIndex,
+      expectedType: slide.slideType,
+      predictedType: match?.slideType ?? null,
+      textSimilarity: match ? textSimilarity(slide.ocrText, match.ocrText) : 0
+    }
+  })
+
+  return {
+    slides,
+    slideAccuracy: mean(slides.map(slide => slide.predictedType === slide.expectedType ? 1 : 0)),
+    textSimilarity: mean(slides.map(slide => slide.textSimilarity)),
+    categoryMatch: expected.category ? sameCategory(expected.category, predicted.category) : null
+  }
+}
+
+export function emptyConfusionMatrix(): ConfusionMatrix {
+  const row = () => ({ hook: 0, content: 0, cta: 0, missing: 0 })
+  return { hook: row(), content: row(), cta: row() }
+}
+
+/**
+ * Aggregate case scores into a run report. Slide metrics are pooled across
+ * all labeled slides, so long carousels weigh more than short ones.
+ */
+export function buildEvalReport(scores: CaseScore[], failedCases = 0): OcrEvalReport {
+  const slides = scores.flatMap(score => score.slides)
+  const confusionMatrix = emptyConfusionMatrix()
+  for (const slide of slides) {
+    confusionMatrix[slide.expectedType][slide.predictedType ?? 'missing']++
+  }
+
+  const perClass = {} as Record<EvalSlideType, ClassMetrics>
+  for (const type of EVAL_SLIDE_TYPES) {
+    const truePositives = confusionMatrix[type][type]
+    const support = EVAL_SLIDE_TYPES.reduce((sum, predicted) => sum + confusionMatrix[type][predicted], 0) +
+      confusionMatrix[type].missing
+    const predictedCount = EVAL_SLIDE_TYPES.reduce((sum, expected) => sum + confusionMatrix[expected][type], 0)
+    const precision = predictedCount ? truePositives / predictedCount : 0
+    const recall = support ? truePositives / support : 0
+    perClass[type] = {
+      precision,
+      recall,
+      f1: precision + recall ? (2 * precision * recall) / (precision + recall) : 0,
+      support
+    }
+  }
+
+  const categoryScores = scores.filter(score => score.categoryMatch !== null)
+
+  return {
+    cases: scores.length,
+    failedCases,
+    slides: slides.length,
+    slideAccuracy: mean(slides.map(slide => slide.predictedType === slide.expectedType ? 1 : 0)),
+    categoryAccuracy: categoryScores.length
+      ? mean(categoryScores.map(score => score.categoryMatch ? 1 : 0))
+      : null,
+    textSimilarity: mean(slides.map(slide => slide.textSimilarity)),
+    exactTextRate: mean(slides.map(slide => slide.textSimilarity === 1 ? 1 : 0)),
+    confusionMatrix,
+    perClass
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * OCR Evaluation Service
+ *
+ * A gold set of carousel posts with hand-checked labels (slide types, OCR
+ * text and post category), and evaluation runs that replay the OCR model
+ * call against a chosen model and prompt versions without touching the
+ * posts. Each run stores a score per case and a report, so prompt or model
+ * changes can be measured before they are pinned or configured.
+ */
+
+import { PrismaClient, type Prisma } from '@/generated/prisma'
+import { getModelForFeature } from './llm'
+import {
+  analyzeCarouselImages,
+  loadCarouselImages,
+  parseCarouselImages,
+  type OcrPromptKey
+} from './ocr-service'
+import {
+  buildEvalReport,
+  scoreCase,
+  EVAL_SLIDE_TYPES,
+  type CaseScore,
+  type EvalLabels,
+  type EvalSlide,
+  type EvalSlideType
+} from './ocr-eval-metrics'
+import { promptTemplateService } from './prompt-template-service'
+import { cacheAssetService } from './cache-asset-service'
+import type { CreateOcrEvalRunInput, UpdateOcrEvalCaseInput } from './validations/ocr-eval-schema'
+
+export const OCR_PROMPT_KEYS: OcrPromptKey[] = ['ocr', 'ocr-slide-type-rules', 'ocr-text-rules']
+
+type PromptVersionIds = Partial<Record<OcrPromptKey, string>>
+
+const postSummarySelect = {
+  id: true,
+  tiktokUrl: true,
+  authorHandle: true,
+  images: true,
+  ocrStatus: true,
+} as const
+
+function toSlideType(value: unknown): EvalSlideType {
+  return EVAL_SLIDE_TYPES.includes(value as EvalSlideType) ? value as EvalSlideType : 'content'
+}
+
+export function parseEvalSlides(value: unknown): EvalSlide[] {
+  return Array.isArray(value) ? value as EvalSlide[] : []
+}
+
+/**
+ * Slides and category from a structured OCR response, in the gold set's shape
+ */
+export function labelsFromOcrData(ocrData: any): EvalLabels {
+  const slides: any[] = Array.isArray(ocrData?.slides) ? ocrData.slides : []
+  return {
+    category: ocrData?.postCategory?.category ?? null,
+    slides: slides.map(slide => ({
+      imageIndex: Number(slide.imageIndex),
+      slideType: toSlideType(slide.slideType),
+      ocrText: typeof slide.ocrText === 'string' ? slide.ocrText : ''
+    }))
+  }
+}
+
+class OcrEvalService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  async listCases() {
+    const cases = await this.prisma.ocrEvalCase.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: { post: { select: postSummarySelect } }
+    })
+
+    return cases.map(({ post, ...evalCase }) => ({
+      ...evalCase,
+      slides: parseEvalSlides(evalCase.slides),
+      post: {
+        id: post.id,
+        tiktokUrl: post.tiktokUrl,
+        authorHandle: post.authorHandle,
+        imageCount: parseCarouselImages(post.images).length
+      }
+    }))
+  }
+
+  /**
+   * One case with its slide image URLs, for labeling
+   */
+  async getCase(id: string) {
+    const evalCase = await this.prisma.ocrEvalCase.findUnique({
+      where: { id },
+      include: { post: { select: postSummarySelect } }
+    })
+
+    if (!evalCase) {
+      throw new Error(`Eval case not found: ${id}`)
+    }
+
+    const { post, ...rest } = evalCase
+    const images = parseCarouselImages(post.images)
+
+    return {
+      ...rest,
+      slides: parseEvalSlides(evalCase.slides),
+      post: {
+        id: post.id,
+        tiktokUrl: post.tiktokUrl,
+        authorHandle: post.authorHandle,
+        imageCount: images.length,
+        imageUrls: await cacheAssetService.getUrls(images.map(image => image.cacheAssetId))
+      }
+    }
+  }
+
+  /**
+   * Add a carousel to the gold set. Labels start from the post's current OCR
+   * output (or one empty slide per image) and are meant to be corrected by hand.
+   */
+  async addCase(postIdOrUrl: string, userId: string) {
+    const post = await this.prisma.tiktokPost.findFirst({
+      where: { OR: [{ id: postIdOrUrl }, { tiktokUrl: postIdOrUrl }] },
+      include: { postCategory: { select: { name: true } } }
+    })
+
+    if (!post) {
+      throw new Error(`TikTokPost not found: ${postIdOrUrl}`)
+    }
+    if (post.contentType !== 'photo') {
+      throw new Error(`TikTokPost ${post.id} is not a photo carousel`)
+    }
+
+    const existing = await this.prisma.ocrEvalCase.findUnique({ where: { postId: post.id } })
+    if (existing) {
+      throw new Error(`Post already in gold set: ${post.id}`)
+    }
+
+    const images = parseCarouselImages(post.images)
+    const fromOcr = post.ocrStatus === 'completed' ? labelsFromOcrData(post.ocrData) : null
+    const slides: EvalSlide[] = images.map((_, imageIndex) => {
+      const slide = fromOcr?.slides.find(s => s.imageIndex === imageIndex)
+      return slide ?? { imageIndex, slideType: imageIndex === 0 ? 'hook' : 'content', ocrText: '' }
+    })
+
+    const evalCase = await this.prisma.ocrEvalCase.create({
+      data: {
+        postId: post.id,
+        category: post.postCategory?.name ?? fromOcr?.category ?? null,
+        slides: slides as unknown as Prisma.InputJsonValue,
+        createdById: userId
+      }
+    })
+
+    console.log(`🏷️ [OcrEval] Added post ${post.id} to the gold set (${slides.length} slides)`)
+    return evalCase
+  }
+
+  async updateCase(id: string, input: UpdateOcrEvalCaseInput) {
+    await this.ensureCase(id)
+
+    return this.prisma.ocrEvalCase.update({
+      where: { id },
+      data: {
+        category: input.category,
+        notes: input.notes,
+        slides: input.slides
+          ? [...input.slides].sort((a, b) => a.imageIndex - b.imageIndex) as unknown as Prisma.InputJsonValue
+          : undefined
+      }
+    })
+  }
+
+  async deleteCase(id: string): Promise<void> {
+    await this.ensureCase(id)
+    await this.prisma.ocrEvalCase.delete({ where: { id } })
+  }
+
+  async listRuns(limit = 50) {
+    return this.prisma.ocrEvalRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { createdBy: { select: { id: true, name: true, email: true } } }
+    })
+  }
+
+  async getRun(id: string) {
+    const run = await this.prisma.ocrEvalRun.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+        results: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            evalCase: {
+              select: {
+                id: true,
+                category: true,
+                slides: true,
+                post: { select: { id: true, tiktokUrl: true, authorHandle: true } }
+              }
+            }
+          }
+        }
+      }
+    })
+
+    if (!run) {
+      throw new Error(`Eval run not found: ${id}`)
+    }
+
+    return run
+  }
+
+  /**
+   * Create a pending run over the chosen cases (the whole gold set by
+   * default). Queue it with ocrEvalQueue or execute it directly.
+   */
+  async createRun(input: CreateOcrEvalRunInput, userId: string | null) {
+    const promptVersionIds: PromptVersionIds = {}
+    for (const key of OCR_PROMPT_KEYS) {
+      const versionId = input.promptVersionIds?.[key]
+      if (versionId) {
+        // Throws "Prompt version not found" for a version of another key
+        await promptTemplateService.getVersion(key, versionId)
+        promptVersionIds[key] = versionId
+      }
+    }
+
+    const cases = await this.prisma.ocrEvalCase.findMany({
+      where: input.caseIds ? { id: { in: input.caseIds } } : undefined,
+      select: { id: true }
+    })
+
+    if (!cases.length) {
+      throw new Error('Gold set is empty: add posts before running an evaluation')
+    }
+    if (input.caseIds && cases.length !== new Set(input.caseIds).size) {
+      throw new Error('Eval case not found: some case ids do not exist')
+    }
+
+    const run = await this.prisma.ocrEvalRun.create({
+      data: {
+        model: input.model || getModelForFeature('ocr'),
+        promptVersionIds,
+        notes: input.notes,
+        caseCount: cases.length,
+        createdById: userId,
+        results: {
+          create: cases.map(evalCase => ({ caseId: evalCase.id }))
+        }
+      }
+    })
+
+    console.log(`🧪 [OcrEval] Created run ${run.id}: ${cases.length} cases on ${run.model}`)
+    return run
+  }
+
+  /**
+   * Replay OCR on every case of a run that has no result yet (so a retried
+   * job resumes where it stopped), score it and store the run report.
+   */
+  async executeRun(runId: string) {
+    const run = await this.prisma.ocrEvalRun.findUnique({ where: { id: runId } })
+    if (!run) {
+      throw new Error(`Eval run not found: ${runId}`)
+    }
+
+    await this.prisma.ocrEvalRun.update({
+      where: { id: runId },
+      data: { status: 'running', startedAt: run.startedAt ?? new Date(), error: null }
+    })
+
+    try {
+      const categories = await this.prisma.postCategory.findMany({ select: { name: true } })
+      const categoryList = categories.map(c => c.name).join(', ')
+      const promptVersionIds = { ...(run.promptVersionIds as PromptVersionIds) }
+
+      const pending = await this.prisma.ocrEvalResult.findMany({
+        where: { runId, slideAccuracy: null, error: null },
+        include: { evalCase: { include: { post: { select: { id: true, images: true } } } } }
+      })
+
+      console.log(`🧪 [OcrEval] Run ${runId}: scoring ${pending.length} cases on ${run.model}`)
+
+      for (const result of pending) {
+        const { evalCase } = result
+        try {
+          const images = await loadCarouselImages(parseCarouselImages(evalCase.post.images))
+          const analysis = await analyzeCarouselImages(images, categoryList, {
+            model: run.model,
+            promptVersionIds,
+            entity: { type: 'ocrEvalRun', id: runId }
+          })
+
+          // The first case settles which versions were active; later cases reuse them
+          // so a pin changing mid-run doesn't mix prompts
+          const missing = OCR_PROMPT_KEYS.filter(key => !promptVersionIds[key] && analysis.promptVersionIds[key])
+          if (missing.length) {
+            for (const key of missing) {
+              promptVersionIds[key] = analysis.promptVersionIds[key]!
+            }
+            await this.prisma.ocrEvalRun.update({ where: { id: runId }, data: { promptVersionIds } })
+          }
+
+          const predicted = labelsFromOcrData(analysis.ocrData)
+          const score = scoreCase(
+            { category: evalCase.category, slides: parseEvalSlides(evalCase.slides) },
+            predicted
+          )
+
+          await this.prisma.ocrEvalResult.update({
+            where: { id: result.id },
+            data: {
+              predicted: predicted as unknown as Prisma.InputJsonValue,
+              score: score as unknown as Prisma.InputJsonValue,
+              slideAccuracy: score.slideAccuracy,
+              textSimilarity: score.textSimilarity,
+              categoryMatch: score.categoryMatch
+            }
+          })
+        } catch (error) {
+          console.error(`❌ [OcrEval] Case ${evalCase.id} failed in run ${runId}:`, error)
+          await this.prisma.ocrEvalResult.update({
+            where: { id: result.id },
+            data: { error: error instanceof Error ? error.message : 'Unknown error' }
+          })
+        }
+
+        await this.prisma.ocrEvalRun.update({
+          where: { id: runId },
+          data: { completedCount: { increment: 1 } }
+        })
+      }
+
+      const results = await this.prisma.ocrEvalResult.findMany({
+        where: { runId },
+        select: { score: true, error: true }
+      })
+      const scores = results.filter(r => r.score && !r.error).map(r => r.score as unknown as CaseScore)
+      const report = buildEvalReport(scores, results.filter(r => r.error).length)
+
+      await this.prisma.ocrEvalRun.update({
+        where: { id: runId },
+        data: {
+          status: 'completed',
+          report: report as unknown as Prisma.InputJsonValue,
+          completedAt: new Date()
+        }
+      })
+
+      console.log(`✅ [OcrEval] Run ${runId} completed: slide accuracy ${(report.slideAccuracy * 100).toFixed(1)}%, text similarity ${(report.textSimilarity * 100).toFixed(1)}%`)
+      return report
+    } catch (error) {
+      await this.prisma.ocrEvalRun.update({
+        where: { id: runId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      })
+      throw error
+    }
+  }
+
+  private async ensureCase(id: string): Promise<void> {
+    const evalCase = await this.prisma.ocrEvalCase.findUnique({ where: { id }, select: { id: true } })
+    if (!evalCase) {
+      throw new Error(`Eval case not found: ${id}`)
+    }
+  }
+}
+
+export const ocrEvalService = new OcrEvalService()
@@ -1,86 +1,115 @@
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { cacheAssetService } from './cache-asset-service'
 import { PrismaClient } from '@/generated/prisma'
 import * as Sentry from '@sentry/nextjs'
 import { sseEventEmitter } from './sse-event-emitter'
+import { slideIndexService } from './slide-index-service'
+import { generateJSON, type LLMPart, type LLMSchema, type LLMUsageEntity } from './llm'
+import { promptTemplateService } from './prompt-template-service'
 
 const prisma = new PrismaClient()
 
-// Response schema for structured OCR output
-const OCR_RESPONSE_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    postCategory: {
-      type: Type.OBJECT,
-      description: "Overall category classification for the entire post",
-      properties: {
-        category: {
-          type: Type.STRING,
-          description: "The category name. Use existing category if it fits, or create a new one if confident it's needed."
-        },
-        confidence: {
-          type: Type.NUMBER,
-          description: "Confidence score for the category classification (0-1)"
-        },
-        isNewCategory: {
-          type: Type.BOOLEAN,
-          description: "Set to true if this is a new category not in the existing list, false if using an existing category"
-        },
-      },
-      propertyOrdering: ['category', 'confidence', 'isNewCategory'],
-    },
-    slides: {
-      type: Type.ARRAY,
-      description: "Analysis of each individual slide in the carousel",
-      items: {
+export type OcrPromptKey = 'ocr' | 'ocr-slide-type-rules' | 'ocr-text-rules'
+
+export interface CarouselImage {
+  cacheAssetId: string
+  width: number
+  height: number
+}
+
+export interface OcrAnalysisOptions {
+  model?: string // Overrides the model configured for the ocr feature
+  promptVersionIds?: Partial<Record<OcrPromptKey, string>> // Render these versions instead of the pinned ones
+  entity?: LLMUsageEntity
+}
+
+export interface OcrAnalysis {
+  ocrData: any // { postCategory: {...}, slides: [...], processingMetadata: {...} }
+  provider: string
+  model: string
+  promptVersionIds: Record<OcrPromptKey, string | null>
+}
+
+/**
+ * Response schema for structured OCR output. The slide type and text
+ * extraction rules come from the editable prompt templates.
+ */
+function buildOcrResponseSchema(slideTypeRules: string, ocrTextRules: string): LLMSchema {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      postCategory: {
         type: Type.OBJECT,
+        description: "Overall category classification for the entire post",
         properties: {
-          imageIndex: {
-            type: Type.NUMBER,
-            description: "Zero-based index of the slide in the carousel"
-          },
-          slideType: {
+          category: {
             type: Type.STRING,
-            enum: ['hook', 'content', 'cta'],
-            description: "Classify each slide: 'hook' = first slide that grabs attention with bold claims, questions, or curiosity gaps. 'content' = middle slides that teach, explain, share tips, or provide value WITHOUT promoting anything. 'cta' = slides that promote a tool/product/service, ask users to take action (follow, comment, try something), mention specific apps/tools to use, or contain soft-selling like 'use this tool', 'try this app', 'check out X'. **CRITICAL RULE: Slide index 0 (first slide) can NEVER be classified as 'cta' - it must be 'hook' or 'content' only.** If a slide mentions a specific tool, product, or asks the viewer to do something, it's CTA even if it appears early in the carousel, UNLESS it's slide 0."
-          },
-          ocrText: {
-            type: Type.STRING,
-            description: "Extract ONLY the overlay text that the user added on top of the image (like text captions/titles in TikTok carousels). DO NOT extract text that is embedded in the background image or part of the original photo. If multiple text overlays exist, separate them with \\n. Return empty string if no overlay text is present."
-          },
-          imageDescription: {
-            type: Type.STRING,
-            description: "Detailed visual description of the slide including colors, layout, objects, style, mood, and composition. Be specific and comprehensive."
+            description: "The category name. Use existing category if it fits, or create a new one if confident it's needed."
           },
           confidence: {
             type: Type.NUMBER,
-            description: "Confidence score for this slide's classification (0-1)"
+            description: "Confidence score for the category classification (0-1)"
+          },
+          isNewCategory: {
+            type: Type.BOOLEAN,
+            description: "Set to true if this is a new category not in the existing list, false if using an existing category"
           },
         },
-        propertyOrdering: ['imageIndex', 'slideType', 'ocrText', 'imageDescription', 'confidence'],
+        propertyOrdering: ['category', 'confidence', 'isNewCategory'],
       },
-    },
-    processingMetadata: {
-      type: Type.OBJECT,
-      description: "Metadata about the processing operation",
-      properties: {
-        totalSlides: {
-          type: Type.NUMBER,
-          description: "Total number of slides processed"
-        },
-        processedAt: {
-          type: Type.STRING,
-          description: "ISO timestamp of when processing completed"
+      slides: {
+        type: Type.ARRAY,
+        description: "Analysis of each individual slide in the carousel",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            imageIndex: {
+              type: Type.NUMBER,
+              description: "Zero-based index of the slide in the carousel"
+            },
+            slideType: {
+              type: Type.STRING,
+              enum: ['hook', 'content', 'cta'],
+              description: slideTypeRules
+            },
+            ocrText: {
+              type: Type.STRING,
+              description: ocrTextRules
+            },
+            imageDescription: {
+              type: Type.STRING,
+              description: "Detailed visual description of the slide including colors, layout, objects, style, mood, and composition. Be specific and comprehensive."
+            },
+            confidence: {
+              type: Type.NUMBER,
+              description: "Confidence score for this slide's classification (0-1)"
+            },
+          },
+          propertyOrdering: ['imageIndex', 'slideType', 'ocrText', 'imageDescription', 'confidence'],
         },
-        allSlidesProcessed: {
-          type: Type.BOOLEAN,
-          description: "Whether all slides were successfully processed"
+      },
+      processingMetadata: {
+        type: Type.OBJECT,
+        description: "Metadata about the processing operation",
+        properties: {
+          totalSlides: {
+            type: Type.NUMBER,
+            description: "Total number of slides processed"
+          },
+          processedAt: {
+            type: Type.STRING,
+            description: "ISO timestamp of when processing completed"
+          },
+          allSlidesProcessed: {
+            type: Type.BOOLEAN,
+            description: "Whether all slides were successfully processed"
+          },
         },
+        propertyOrdering: ['totalSlides', 'processedAt', 'allSlidesProcessed'],
       },
-      propertyOrdering: ['totalSlides', 'processedAt', 'allSlidesProcessed'],
     },
-  },
-  propertyOrdering: ['postCategory', 'slides', 'processingMetadata'],
+    propertyOrdering: ['postCategory', 'slides', 'processingMetadata'],
+  }
 }
 
 async function fetchImageAsBase64(imageUrl: string): Promise<string> {
@@ -107,6 +136,94 @@ async function fetchImageFromCacheAsset(cacheAssetId: string): Promise<string> {
   return fetchImageAsBase64(imageUrl)
 }
 
+/**
+ * Parse a post's images column (stored as JSON or a JSON string)
+ */
+export function parseCarouselImages(images: unknown): CarouselImage[] {
+  const parsed = typeof images === 'string' ? JSON.parse(images) : images
+  return Array.isArray(parsed) ? parsed as CarouselImage[] : []
+}
+
+/**
+ * Load carousel images from the media cache as base64, in slide order
+ */
+export async function loadCarouselImages(images: CarouselImage[]): Promise<string[]> {
+  console.log(`📥 [OCR] Loading ${images.length} images...`)
+  const imageData = await Promise.all(images.map(async (image, index) => {
+    console.log(`🔍 [OCR] Loading image ${index + 1}/${images.length}: ${image.cacheAssetId}`)
+    return fetchImageFromCacheAsset(image.cacheAssetId)
+  }))
+  console.log(`✅ [OCR] All images loaded successfully`)
+  return imageData
+}
+
+/**
+ * Run the OCR and slide classification model call on a carousel without
+ * saving anything. Used by performOCRForTikTokPost and by the OCR evaluation
+ * runner, which replays it against other models and prompt versions.
+ */
+export async function analyzeCarouselImages(
+  imagesBase64: string[],
+  categoryList: string,
+  options: OcrAnalysisOptions = {}
+): Promise<OcrAnalysis> {
+  const { promptVersionIds = {} } = options
+
+  // Build the prompt parts with all images
+  const promptParts: LLMPart[] = imagesBase64.map(data => ({
+    inlineData: {
+      mimeType: 'image/jpeg',
+      data,
+    },
+  }))
+
+  // Add the instruction text
+  const [instruction, slideTypeRules, ocrTextRules] = await Promise.all([
+    promptTemplateService.render('ocr', { slideCount: imagesBase64.length, categoryList }, { versionId: promptVersionIds['ocr'] }),
+    promptTemplateService.render('ocr-slide-type-rules', {}, { versionId: promptVersionIds['ocr-slide-type-rules'] }),
+    promptTemplateService.render('ocr-text-rules', {}, { versionId: promptVersionIds['ocr-text-rules'] })
+  ])
+
+  promptParts.push({ text: instruction.text })
+
+  console.log(`🤖 [OCR] Calling model with batch structured output...`)
+
+  // Call the configured provider with structured output
+  const response = await generateJSON<any>({
+    feature: 'ocr',
+    messages: [{ role: 'user', parts: promptParts }],
+    schema: buildOcrResponseSchema(slideTypeRules.text, ocrTextRules.text),
+    model: options.model,
+    entity: options.entity,
+  })
+  const ocrData = response.data
+  console.log(`✅ [OCR] Received structured response from ${response.provider} (${response.model})`)
+
+  // CRITICAL: Enforce slide 1 rule - validate and correct any violations
+  ocrData.slides = ocrData.slides.map((slide: any) => {
+    if (slide.imageIndex === 0 && slide.slideType === 'cta') {
+      console.warn(`⚠️ [OCR] Slide 0 was classified as CTA, correcting to HOOK`)
+      return {
+        ...slide,
+        slideType: 'hook' as const,
+        confidence: Math.max(0.5, slide.confidence * 0.8) // Reduce confidence for overridden classification
+      }
+    }
+    return slide
+  })
+
+  return {
+    ocrData,
+    provider: response.provider,
+    model: response.model,
+    promptVersionIds: {
+      'ocr': instruction.versionId,
+      'ocr-slide-type-rules': slideTypeRules.versionId,
+      'ocr-text-rules': ocrTextRules.versionId
+    }
+  }
+}
+
 export async function performOCRForTikTokPost(postId: string): Promise<void> {
   try {
     console.log(`🚀 [OCR] Starting batch OCR processing for TikTokPost: ${postId}`)
@@ -142,11 +259,9 @@ export async function performOCRForTikTokPost(postId: string): Promise<void> {
     })
 
     // Parse the JSON string properly
-    const images = typeof post.images === 'string'
-      ? JSON.parse(post.images) as Array<{ cacheAssetId: string; width: number; height: number }>
-      : post.images as Array<{ cacheAssetId: string; width: number; height: number }>
+    const images = parseCarouselImages(post.images)
 
-    if (!Array.isArray(images) || !images.length) {
+    if (!images.length) {
       const error = new Error(`No valid images array found in TikTokPost: ${postId}`)
       Sentry.captureException(error, {
         tags: { operation: 'ocr', postId },
@@ -164,107 +279,20 @@ export async function performOCRForTikTokPost(postId: string): Promise<void> {
     const categoryList = existingCategories.map(c => c.name).join(', ')
 
     // Load all images in parallel
-    console.log(`📥 [OCR] Loading ${images.length} images...`)
-    const imageDataPromises = images.map(async (image, index) => {
-      console.log(`🔍 [OCR] Loading image ${index + 1}/${images.length}: ${image.cacheAssetId}`)
-      const base64 = await fetchImageFromCacheAsset(image.cacheAssetId)
-      return { index, base64 }
-    })
+    const imageData = await loadCarouselImages(images)
 
-    const imageDataResults = await Promise.all(imageDataPromises)
-    console.log(`✅ [OCR] All images loaded successfully`)
-
-    // Initialize Gemini AI
-    if (!process.env.GEMINI_API_KEY) {
-      const error = new Error('GEMINI_API_KEY environment variable is required')
-      Sentry.captureException(error, {
-        tags: { operation: 'ocr', postId }
-      })
-      throw error
-    }
-
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    })
-
-    // Build the prompt parts with all images
-    const promptParts: Array<{ inlineData: { mimeType: string; data: string } } | { text: string }> = []
-
-    // Add all images
-    imageDataResults.forEach((imageData) => {
-      promptParts.push({
-        inlineData: {
-          mimeType: 'image/jpeg',
-          data: imageData.base64,
-        },
-      })
-    })
-
-    // Add the instruction text
-    const instruction = `You are analyzing a TikTok photo carousel with ${images.length} slides.
-
-EXISTING POST CATEGORIES IN DATABASE:
-${categoryList || 'None yet - you can create new categories'}
-
-Analyze the carousel and provide:
-1. Post-level category classification
-2. Detailed analysis for each of the ${images.length} slides
-
-Follow the schema definitions for all fields. Return the structured JSON response.`
-
-    promptParts.push({ text: instruction })
-
-    console.log(`🤖 [OCR] Calling Gemini with batch structured output...`)
-
-    // Call Gemini with structured output
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents: [{
-        role: 'user' as const,
-        parts: promptParts,
-      }],
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: OCR_RESPONSE_SCHEMA,
-      },
-    })
-
-    if (!response.text) {
-      const error = new Error('No response from Gemini AI')
-      Sentry.captureException(error, {
-        tags: { operation: 'ocr', postId },
-        extra: { response }
-      })
-      throw error
-    }
-
-    console.log(`✅ [OCR] Received structured response from Gemini`)
-    console.log(`📝 [OCR] Raw response text (first 500 chars):`, response.text.substring(0, 500))
-
-    // Parse the structured response with error handling
     let ocrData
     try {
-      // Clean the response text - remove markdown code blocks if present
-      let cleanedText = response.text.trim()
-
-      // Remove markdown code blocks (```json ... ```)
-      if (cleanedText.startsWith('```')) {
-        cleanedText = cleanedText.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-      }
-
-      if (!cleanedText) {
-        throw new Error('Empty response text after cleaning')
-      }
-
-      ocrData = JSON.parse(cleanedText)
-      console.log(`✅ [OCR] Successfully parsed JSON response`)
-    } catch (parseError) {
-      const error = new Error(`Failed to parse Gemini response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`)
+      const analysis = await analyzeCarouselImages(imageData, categoryList, {
+        entity: { type: 'tiktokPost', id: postId },
+      })
+      ocrData = analysis.ocrData
+    } catch (generationError) {
+      const error = new Error(`Failed to get OCR response: ${generationError instanceof Error ? generationError.message : 'Unknown error'}`)
       Sentry.captureException(error, {
         tags: { operation: 'ocr', postId },
         extra: {
-          responseText: response.text,
-          parseError: parseError instanceof Error ? parseError.message : String(parseError)
+          generationError: generationError instanceof Error ? generationError.message : String(generationError)
         }
       })
       throw error
@@ -278,22 +306,6 @@ Follow the schema definitions for all fields. Return the structured JSON respons
       slidesProcessed: ocrData.slides.length
     })
 
-    // CRITICAL: Enforce slide 1 rule - validate and correct any violations
-    const validatedSlides = ocrData.slides.map((slide: any) => {
-      if (slide.imageIndex === 0 && slide.slideType === 'cta') {
-        console.warn(`⚠️ [OCR] Slide 0 was classified as CTA, correcting to HOOK`)
-        return {
-          ...slide,
-          slideType: 'hook' as const,
-          confidence: Math.max(0.5, slide.confidence * 0.8) // Reduce confidence for overridden classification
-        }
-      }
-      return slide
-    })
-
-    // Use validated slides for further processing
-    ocrData.slides = validatedSlides
-
     // Handle category - create if new
     let postCategoryId: string | null = null
 
@@ -383,6 +395,9 @@ Follow the schema definitions for all fields. Return the structured JSON respons
       allSlidesProcessed: ocrData.processingMetadata.allSlidesProcessed
     })
 
+    // Add the classified slides to the content ideas library
+    await slideIndexService.indexTiktokPostSafe(postId)
+
     // Emit SSE event for real-time UI update
     await sseEventEmitter.emitOCRCompleted(postId, true)
 
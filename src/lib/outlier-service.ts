@@ -0,0 +1,217 @@
+/**
+ * Outlier Service
+ *
+ * Scores every post against its author's own baseline so over-performers
+ * stand out regardless of account size:
+ * - outlierScore: views / median views of the author's previous posts, once
+ *   the post has matured (a day-old post is not compared with month-old ones)
+ * - velocityScore: first-24h views / median first-24h views of those posts
+ * - velocityScore48h: the same for the first 48h
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+import { normalizeBigInt } from './stats-calculator'
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_INT32 = 2147483647
+
+// Baseline = the author's previous N posts
+export const ROLLING_BASELINE_POSTS = 30
+export const MIN_BASELINE_POSTS = 3
+
+// A snapshot further than this past the 24h/48h mark is too coarse to interpolate from
+const MAX_SNAPSHOT_GAP_MS = 12 * HOUR_MS
+// Early views are only (re)computed for posts this young; older values are final
+const EARLY_VIEWS_LOOKBACK_MS = 7 * 24 * HOUR_MS
+// Lifetime views are compared once a post is this old and most of its views are in
+export const OUTLIER_MATURITY_MS = 7 * 24 * HOUR_MS
+
+const UPDATE_BATCH_SIZE = 200
+
+export interface ViewSnapshot {
+  viewCount: bigint | number | null
+  recordedAt: Date
+}
+
+export interface OutlierPostInput {
+  id: string
+  viewCount: number
+  publishedAt: Date
+  viewsFirst24h: number | null
+  viewsFirst48h: number | null
+}
+
+export interface OutlierScores {
+  outlierScore: number | null
+  velocityScore: number | null
+  velocityScore48h: number | null
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function ratio(value: number, baseline: number | null): number | null {
+  if (baseline === null || baseline <= 0) return null
+  return Math.round((value / baseline) * 100) / 100
+}
+
+/**
+ * Views a post had `hours` after publishing, linearly interpolated between the
+ * snapshots either side of that mark (publishing counts as a 0-view snapshot).
+ * Null until a snapshot past the mark exists. Snapshots must be sorted ascending.
+ */
+export function estimateViewsAt(snapshots: ViewSnapshot[], publishedAt: Date, hours: number): number | null {
+  const target = publishedAt.getTime() + hours * HOUR_MS
+  let previous = { time: publishedAt.getTime(), views: 0 }
+
+  for (const snapshot of snapshots) {
+    const time = snapshot.recordedAt.getTime()
+    if (time < previous.time) continue
+
+    const views = normalizeBigInt(snapshot.viewCount)
+    if (time >= target) {
+      if (time - target > MAX_SNAPSHOT_GAP_MS) return null
+      if (time === previous.time) return views
+      return Math.round(previous.views + (views - previous.views) * (target - previous.time) / (time - previous.time))
+    }
+    previous = { time, views }
+  }
+
+  return null
+}
+
+/**
+ * Ratio of a post's value to the baseline's median, when the post and enough
+ * of the baseline have one
+ */
+function baselineRatio(value: number | null, baselineValues: Array<number | null>): number | null {
+  const known = baselineValues.filter((other): other is number => other !== null)
+  if (value === null || known.length < MIN_BASELINE_POSTS) return null
+  return ratio(value, median(known))
+}
+
+/**
+ * Score each post against the median of the author's previous posts. The
+ * author's first few posts, which have no history of their own yet, are
+ * compared against the author's earliest posts instead. Lifetime views are
+ * only compared between matured posts; younger posts are scored on their
+ * early views alone.
+ */
+export function calculateOutlierScores(posts: OutlierPostInput[], now: Date = new Date()): Map<string, OutlierScores> {
+  const sorted = [...posts].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime())
+  const maturedBefore = now.getTime() - OUTLIER_MATURITY_MS
+  const isMatured = (post: OutlierPostInput) => post.publishedAt.getTime() <= maturedBefore
+  const scores = new Map<string, OutlierScores>()
+
+  sorted.forEach((post, index) => {
+    let baseline = sorted.slice(Math.max(0, index - ROLLING_BASELINE_POSTS), index)
+    if (baseline.length < MIN_BASELINE_POSTS) {
+      baseline = sorted.filter(other => other.id !== post.id).slice(0, ROLLING_BASELINE_POSTS)
+    }
+
+    scores.set(post.id, {
+      outlierScore: isMatured(post)
+        ? baselineRatio(post.viewCount, baseline.filter(isMatured).map(other => other.viewCount))
+        : null,
+      velocityScore: baselineRatio(post.viewsFirst24h, baseline.map(other => other.viewsFirst24h)),
+      velocityScore48h: baselineRatio(post.viewsFirst48h, baseline.map(other => other.viewsFirst48h))
+    })
+  })
+
+  return scores
+}
+
+class OutlierService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Recompute early views and outlier/velocity scores for every post of a profile
+   */
+  async scoreProfilePosts(profileId: string, now: Date = new Date()): Promise<number> {
+    const posts = await this.prisma.tiktokPost.findMany({
+      where: { profileId, publishedAt: { not: null } },
+      select: {
+        id: true,
+        viewCount: true,
+        publishedAt: true,
+        updatedAt: true,
+        viewsFirst24h: true,
+        viewsFirst48h: true
+      }
+    })
+
+    if (posts.length === 0) return 0
+
+    // Only young posts can still gain a 24h/48h estimate
+    const earlyViewsSince = new Date(now.getTime() - EARLY_VIEWS_LOOKBACK_MS)
+    const youngPosts = posts.filter(post => post.viewsFirst48h === null && post.publishedAt! >= earlyViewsSince)
+
+    const snapshots = youngPosts.length > 0
+      ? await this.prisma.tikTokPostMetricsHistory.findMany({
+          where: { postId: { in: youngPosts.map(post => post.id) } },
+          select: { postId: true, viewCount: true, recordedAt: true },
+          orderBy: { recordedAt: 'asc' }
+        })
+      : []
+
+    const snapshotsByPost = new Map<string, ViewSnapshot[]>()
+    for (const snapshot of snapshots) {
+      const postSnapshots = snapshotsByPost.get(snapshot.postId) ?? []
+      postSnapshots.push(snapshot)
+      snapshotsByPost.set(snapshot.postId, postSnapshots)
+    }
+
+    const earlyViews = new Map<string, { viewsFirst24h: number | null; viewsFirst48h: number | null }>()
+    for (const post of youngPosts) {
+      // The current count is the most recent data point
+      const postSnapshots = [
+        ...(snapshotsByPost.get(post.id) ?? []),
+        { viewCount: post.viewCount, recordedAt: post.updatedAt }
+      ]
+      const viewsFirst24h = estimateViewsAt(postSnapshots, post.publishedAt!, 24)
+      const viewsFirst48h = estimateViewsAt(postSnapshots, post.publishedAt!, 48)
+      earlyViews.set(post.id, {
+        viewsFirst24h: viewsFirst24h === null ? null : Math.min(viewsFirst24h, MAX_INT32),
+        viewsFirst48h: viewsFirst48h === null ? null : Math.min(viewsFirst48h, MAX_INT32)
+      })
+    }
+
+    const scores = calculateOutlierScores(posts.map(post => ({
+      id: post.id,
+      viewCount: normalizeBigInt(post.viewCount),
+      publishedAt: post.publishedAt!,
+      viewsFirst24h: earlyViews.get(post.id)?.viewsFirst24h ?? post.viewsFirst24h,
+      viewsFirst48h: earlyViews.get(post.id)?.viewsFirst48h ?? post.viewsFirst48h
+    })), now)
+
+    for (let i = 0; i < posts.length; i += UPDATE_BATCH_SIZE) {
+      await this.prisma.$transaction(
+        posts.slice(i, i + UPDATE_BATCH_SIZE).map(post =>
+          this.prisma.tiktokPost.update({
+            where: { id: post.id },
+            data: {
+              ...scores.get(post.id),
+              ...earlyViews.get(post.id),
+              outlierScoredAt: now
+            }
+          })
+        )
+      )
+    }
+
+    console.log(`🚀 [OutlierService] Scored ${posts.length} posts for profile ${profileId}`)
+
+    return posts.length
+  }
+}
+
+// Export singleton instance
+export const outlierService = new OutlierService()
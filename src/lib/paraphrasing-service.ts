@@ -4,9 +4,11 @@
  * Service for generating paraphrased content variations using Gemini AI
  */
 
-import { GoogleGenAI, Type } from '@google/genai'
+import { Type } from '@google/genai'
 import { PrismaClient } from '@/generated/prisma'
 import { z } from 'zod'
+import { generateJSON } from './llm'
+import { promptTemplateService, type RenderedPrompt } from './prompt-template-service'
 
 const prisma = new PrismaClient()
 
@@ -23,6 +25,11 @@ export interface RemixContent {
   paraphrasedText: string
 }
 
+export interface RemixGenerationResult {
+  slides: RemixContent[]
+  promptVersionId: string | null // Prompt template version the request was rendered from
+}
+
 export interface GenerateRemixOptions {
   theme?: string
   style?: 'casual' | 'professional' | 'trendy' | 'educational' | 'humorous'
@@ -34,14 +41,10 @@ export interface GenerateRemixOptions {
 export async function generateRemixContent(
   originalPost: any, // TikTokPost with relations
   options: GenerateRemixOptions = {}
-): Promise<RemixContent[]> {
+): Promise<RemixGenerationResult> {
   try {
     console.log(`🤖 [Paraphrasing] Starting content generation for post: ${originalPost.id}`)
 
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is required')
-    }
-
     if (originalPost.contentType !== 'photo') {
       throw new Error('Post must be a photo carousel for remix generation')
     }
@@ -87,74 +90,41 @@ export async function generateRemixContent(
       throw new Error('No successful OCR text results found')
     }
 
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY,
-    })
-
     // Build the prompt
-    const prompt = buildParaphrasingPrompt(originalPost, originalTexts, options)
+    const { text: prompt, versionId: promptVersionId } = await buildParaphrasingPrompt(originalPost, originalTexts, options)
 
     console.log(`📝 [Paraphrasing] Generated prompt for ${originalTexts.length} slides`)
 
-    const contents = [
-      {
-        role: 'user' as const,
-        parts: [{ text: prompt }]
-      }
-    ]
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-lite',
-      contents,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            slides: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  imageIndex: { type: Type.NUMBER },
-                  paraphrasedText: { type: Type.STRING }
-                },
-                required: ["imageIndex", "paraphrasedText"]
-              }
+    // Generate and validate the structured JSON response
+    const response = await generateJSON({
+      feature: 'paraphrasing',
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          slides: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                imageIndex: { type: Type.NUMBER },
+                paraphrasedText: { type: Type.STRING }
+              },
+              required: ["imageIndex", "paraphrasedText"]
             }
-          },
-          required: ["slides"]
-        }
+          }
+        },
+        required: ["slides"]
       }
-    })
-
-    if (!response.text) {
-      throw new Error('No response from AI model')
-    }
+    }, RemixContentSchema)
 
     console.log(`🔍 [Paraphrasing] Raw AI response:`, response.text)
 
-    // Parse the structured JSON response (should be pure JSON now)
-    let parsedResponse
-    try {
-      parsedResponse = JSON.parse(response.text)
-    } catch (parseError) {
-      console.error(`❌ [Paraphrasing] Failed to parse JSON response:`, response.text)
-      throw new Error('Failed to parse AI structured response as JSON')
-    }
-
-    // Validate the response structure
-    const validation = RemixContentSchema.safeParse(parsedResponse)
-    if (!validation.success) {
-      console.error(`❌ [Paraphrasing] Invalid response structure:`, validation.error)
-      throw new Error('AI response does not match expected structure')
-    }
-
-    const remixContent = validation.data.slides
+    const remixContent = response.data.slides
 
     console.log(`✅ [Paraphrasing] Successfully generated ${remixContent.length} remix variations`)
 
-    return remixContent
+    return { slides: remixContent, promptVersionId }
 
   } catch (error) {
     console.error(`❌ [Paraphrasing] Failed to generate remix content:`, error)
@@ -162,78 +132,31 @@ export async function generateRemixContent(
   }
 }
 
-function buildParaphrasingPrompt(
+async function buildParaphrasingPrompt(
   originalPost: any,
   originalTexts: Array<{ imageIndex: number; originalText: string }>,
   options: GenerateRemixOptions
-): string {
+): Promise<RenderedPrompt> {
   const { theme, style = 'casual', targetAudience, productContextDescription, additionalPrompt } = options
 
-  let prompt = `
-You are an expert content creator specializing in social media remix generation.
-
-Given a TikTok photo carousel post, create paraphrased variations of the text content while maintaining the same message and impact.
-
-ORIGINAL POST CONTEXT:
-- Post URL: ${originalPost.tiktokUrl}
-- Author: ${originalPost.authorNickname || originalPost.authorHandle || 'Unknown'}
-- Description: ${originalPost.description || 'No description'}
-- Content Type: Photo Carousel
-- Total Images: ${originalPost.images.length}
-
-STYLE REQUIREMENTS:
-- Writing Style: ${style}
-- Theme: ${theme || 'Keep original theme'}
-- Target Audience: ${targetAudience || 'General social media users'}
-`
-
-  // Add product context section if provided
-  if (productContextDescription) {
-    prompt += `
-PRODUCT CONTEXT:
-${productContextDescription}
-
-IMPORTANT: Paraphrase the content to align with the above product context. The remix should feel natural for promoting or discussing this product/service while maintaining the original message structure.
-`
-  }
-
-  // Add additional prompt if provided
-  if (additionalPrompt) {
-    prompt += `
-ADDITIONAL INSTRUCTIONS:
-${additionalPrompt}
-`
-  }
-
-  prompt += `
-ORIGINAL TEXT CONTENT:
-${originalTexts.map(item => `
+  const rendered = await promptTemplateService.render('paraphrasing', {
+    postUrl: originalPost.tiktokUrl,
+    author: originalPost.authorNickname || originalPost.authorHandle,
+    postDescription: originalPost.description,
+    imageCount: originalPost.images.length,
+    style,
+    theme,
+    targetAudience,
+    productContext: productContextDescription,
+    additionalPrompt,
+    originalTexts: originalTexts.map(item => `
 Slide ${item.imageIndex + 1}:
 "${item.originalText}"
-`).join('')}
-
-TASK:
-For each slide, create a paraphrased version that:
-1. Maintains the core message and intent
-2. Uses different wording and structure
-3. Matches the specified style (${style})
-4. Stays engaging for social media
-5. Preserves any key numbers, facts, or calls-to-action${productContextDescription ? '\n6. Aligns with the product context provided above' : ''}${additionalPrompt ? '\n7. Follows the additional instructions provided' : ''}
-
-IMPORTANT: Respond with ONLY a valid JSON object in this exact format:
-{
-  "slides": [
-    {
-      "imageIndex": 0,
-      "paraphrasedText": "Your paraphrased version here"
-    }
-  ]
-}
-
-Generate content for all ${originalTexts.length} slides. Do not include any other text outside the JSON.
-`
+`).join(''),
+    slideCount: originalTexts.length
+  })
 
-  return prompt.trim()
+  return { ...rendered, text: rendered.text.trim() }
 }
 
 // Note: This function is deprecated with the new JSON structure
@@ -0,0 +1,94 @@
+/**
+ * Minimal PDF writer
+ *
+ * Builds a PDF with one full-page JPEG per page, which is all a document
+ * carousel needs. JPEG data is embedded as-is (DCTDecode), so pages keep the
+ * rendered slide's quality and the file stays close to the sum of the images.
+ */
+
+export interface PdfImagePage {
+  jpeg: Buffer
+  width: number // Pixels
+  height: number
+}
+
+export interface PdfOptions {
+  title?: string
+}
+
+// CSS pixels to PDF points (96 dpi -> 72 dpi)
+const PX_TO_PT = 0.75
+
+const pdfNumber = (value: number) => String(Math.round(value * 100) / 100)
+
+// PDF literal strings only need backslashes and parentheses escaped
+const pdfString = (value: string) =>
+  `(${value.replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, '')})`
+
+export function buildImagePdf(pages: PdfImagePage[], options: PdfOptions = {}): Buffer {
+  if (pages.length === 0) {
+    throw new Error('Cannot build a PDF without pages')
+  }
+
+  const chunks: Buffer[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data
+    chunks.push(buffer)
+    length += buffer.length
+  }
+
+  const writeObject = (id: number, body: string | Buffer[]) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n`)
+    if (typeof body === 'string') {
+      write(body)
+    } else {
+      body.forEach(write)
+    }
+    write('\nendobj\n')
+  }
+
+  // Object ids: 1 catalog, 2 page tree, 3 info, then page/content/image triples
+  const pageId = (index: number) => 4 + index * 3
+  const objectCount = 3 + pages.length * 3
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+  writeObject(3, `<< /Producer (ViralSense)${options.title ? ` /Title ${pdfString(options.title)}` : ''} >>`)
+
+  pages.forEach((page, index) => {
+    const id = pageId(index)
+    const width = pdfNumber(page.width * PX_TO_PT)
+    const height = pdfNumber(page.height * PX_TO_PT)
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`
+
+    writeObject(id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`
+    )
+    writeObject(id + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    writeObject(id + 2, [
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+        'latin1'
+      ),
+      page.jpeg,
+      Buffer.from('\nendstream', 'latin1'),
+    ])
+  })
+
+  const xrefOffset = length
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`)
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,309 @@
+/**
+ * Profile Backfill Service
+ *
+ * Walks a profile's entire post history, newest to oldest, and stores every
+ * post. Each page's `max_cursor` is persisted as a checkpoint on the
+ * ProfileBackfill row, so a backfill resumes where it stopped after a crash,
+ * a rate limit or an exhausted page budget (each page costs one API credit).
+ *
+ * A backfill ends when the history runs out, when it reconnects with posts
+ * that were already stored (a page of only known posts after new ones, or any
+ * such page once a previous backfill has covered the history), or when its
+ * page budget is used up (PAUSED, resumable with more budget).
+ */
+
+import { PrismaClient, ProfileBackfillStatus } from '@/generated/prisma'
+import { scrapeProfileVideos, type TikTokPost } from './tiktok-scraping'
+import { TikTokBulkUpsertService, type PostData } from './tiktok-bulk-upsert-service'
+import { profileBackfillQueue } from './queue/profile-backfill-queue'
+
+export const DEFAULT_BACKFILL_PAGE_BUDGET = 50
+export const MAX_BACKFILL_PAGE_BUDGET = 2000
+const PAGE_DELAY_MS = 1000
+
+export type BackfillStopReason = 'end-of-history' | 'reached-existing' | 'budget-exhausted'
+
+const ACTIVE_STATUSES: ProfileBackfillStatus[] = [ProfileBackfillStatus.PENDING, ProfileBackfillStatus.RUNNING]
+const RESUMABLE_STATUSES: ProfileBackfillStatus[] = [ProfileBackfillStatus.PAUSED, ProfileBackfillStatus.FAILED]
+
+export interface BackfillPage {
+  postCount: number
+  knownPostCount: number // Posts already stored before this page was upserted
+  hasMore: boolean
+  maxCursor?: string
+}
+
+export interface BackfillProgress {
+  pagesScraped: number // Including this page
+  pageBudget: number
+  newPosts: number // Including this page
+  historyCovered: boolean // A previous backfill already reached stored history
+}
+
+/**
+ * Whether a backfill should stop after a page, and why
+ */
+export function getBackfillStopReason(page: BackfillPage, progress: BackfillProgress): BackfillStopReason | null {
+  if (!page.hasMore || !page.maxCursor) {
+    return 'end-of-history'
+  }
+
+  // The newest pages are usually known already (added or monitored), so only
+  // stop on a fully known page once the backfill has gone past them
+  const allKnown = page.postCount > 0 && page.knownPostCount === page.postCount
+  if (allKnown && (progress.newPosts > 0 || progress.historyCovered)) {
+    return 'reached-existing'
+  }
+
+  if (progress.pagesScraped >= progress.pageBudget) {
+    return 'budget-exhausted'
+  }
+
+  return null
+}
+
+export interface StartBackfillOptions {
+  pageBudget?: number
+  /** Skip pages that were just fetched elsewhere (e.g. when adding a profile) */
+  startCursor?: string
+}
+
+export interface ProcessBackfillResult {
+  backfillId: string
+  status: ProfileBackfillStatus
+  pagesScraped: number
+  newPosts: number
+  stopReason: BackfillStopReason | null
+}
+
+function toPostData(post: TikTokPost): PostData {
+  return {
+    tiktokId: post.tiktokId,
+    tiktokUrl: post.tiktokUrl,
+    contentType: post.contentType,
+    title: post.title,
+    description: post.description,
+    authorNickname: post.authorNickname,
+    authorHandle: post.authorHandle,
+    authorAvatar: post.authorAvatar,
+    hashtags: post.hashtags,
+    mentions: post.mentions,
+    viewCount: post.viewCount,
+    likeCount: post.likeCount,
+    shareCount: post.shareCount,
+    commentCount: post.commentCount,
+    saveCount: post.saveCount,
+    duration: post.duration,
+    videoUrl: post.videoUrl,
+    coverUrl: post.coverUrl,
+    musicUrl: post.musicUrl,
+    musicTiktokId: post.musicTiktokId,
+    musicTitle: post.musicTitle,
+    musicAuthor: post.musicAuthor,
+    images: post.images,
+    publishedAt: post.publishedAt instanceof Date ? post.publishedAt.toISOString() : post.publishedAt
+  }
+}
+
+class ProfileBackfillService {
+  private prisma: PrismaClient
+  private bulkUpsertService: TikTokBulkUpsertService
+
+  constructor() {
+    this.prisma = new PrismaClient()
+    this.bulkUpsertService = new TikTokBulkUpsertService(this.prisma)
+  }
+
+  /**
+   * Start a backfill for a profile, or resume its paused/failed one with
+   * `pageBudget` more pages. An active backfill is returned unchanged.
+   */
+  async startBackfill(profileId: string, options: StartBackfillOptions = {}) {
+    const pageBudget = options.pageBudget ?? DEFAULT_BACKFILL_PAGE_BUDGET
+
+    const profile = await this.prisma.tiktokProfile.findUnique({
+      where: { id: profileId },
+      select: { id: true, handle: true }
+    })
+
+    if (!profile) {
+      throw new Error(`Profile not found: ${profileId}`)
+    }
+
+    const unfinished = await this.prisma.profileBackfill.findFirst({
+      where: { profileId, status: { in: [...ACTIVE_STATUSES, ...RESUMABLE_STATUSES] } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    if (unfinished && ACTIVE_STATUSES.includes(unfinished.status)) {
+      console.log(`ℹ️ [Backfill] @${profile.handle} already has an active backfill: ${unfinished.id}`)
+      return unfinished
+    }
+
+    const backfill = unfinished
+      ? await this.prisma.profileBackfill.update({
+          where: { id: unfinished.id },
+          data: {
+            status: ProfileBackfillStatus.PENDING,
+            pageBudget: unfinished.pagesScraped + pageBudget,
+            stopReason: null,
+            error: null
+          }
+        })
+      : await this.prisma.profileBackfill.create({
+          data: { profileId, pageBudget, maxCursor: options.startCursor }
+        })
+
+    await profileBackfillQueue.addBackfillJob(backfill.id)
+    console.log(`📚 [Backfill] ${unfinished ? 'Resumed' : 'Started'} backfill ${backfill.id} for @${profile.handle} (budget ${backfill.pageBudget} pages)`)
+
+    return backfill
+  }
+
+  /**
+   * Most recent backfill of a profile
+   */
+  async getLatestBackfill(profileId: string) {
+    return this.prisma.profileBackfill.findFirst({
+      where: { profileId },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Fetch pages from the backfill's checkpoint until it stops. Called by the
+   * worker; a thrown error leaves the checkpoint in place for the next attempt.
+   */
+  async processBackfill(backfillId: string, options: { isFinalAttempt?: boolean } = {}): Promise<ProcessBackfillResult> {
+    const backfill = await this.prisma.profileBackfill.findUnique({
+      where: { id: backfillId },
+      include: { profile: true }
+    })
+
+    if (!backfill) {
+      throw new Error(`Backfill not found: ${backfillId}`)
+    }
+
+    const { profile } = backfill
+
+    if (backfill.status === ProfileBackfillStatus.COMPLETED) {
+      return {
+        backfillId,
+        status: backfill.status,
+        pagesScraped: backfill.pagesScraped,
+        newPosts: backfill.newPosts,
+        stopReason: backfill.stopReason as BackfillStopReason | null
+      }
+    }
+
+    await this.prisma.profileBackfill.update({
+      where: { id: backfillId },
+      data: { status: ProfileBackfillStatus.RUNNING, startedAt: backfill.startedAt ?? new Date(), error: null }
+    })
+
+    const historyCovered = (await this.prisma.profileBackfill.count({
+      where: {
+        profileId: profile.id,
+        id: { not: backfillId },
+        status: ProfileBackfillStatus.COMPLETED,
+        stopReason: { in: ['end-of-history', 'reached-existing'] }
+      }
+    })) > 0
+
+    let { maxCursor, pagesScraped, postsScraped, newPosts, oldestPostAt } = backfill
+    let stopReason: BackfillStopReason | null = null
+
+    try {
+      while (!stopReason) {
+        if (pagesScraped >= backfill.pageBudget) {
+          stopReason = 'budget-exhausted'
+          break
+        }
+
+        console.log(`📄 [Backfill] @${profile.handle} page ${pagesScraped + 1}/${backfill.pageBudget}`, { cursor: maxCursor })
+        const result = await scrapeProfileVideos(profile.handle, maxCursor ?? undefined, true)
+
+        const knownPostCount = result.posts.length > 0
+          ? await this.prisma.tiktokPost.count({
+              where: { tiktokId: { in: result.posts.map(post => post.tiktokId) } }
+            })
+          : 0
+
+        if (result.posts.length > 0) {
+          await this.bulkUpsertService.bulkUpsert(
+            {
+              handle: profile.handle,
+              nickname: result.profile?.nickname || profile.nickname || undefined,
+              avatar: result.profile?.avatar || undefined,
+              bio: result.profile?.bio || profile.bio || undefined,
+              verified: result.profile?.verified ?? profile.verified
+            },
+            result.posts.map(toPostData),
+            // Years of old posts would each trip the alert rules at once
+            { skipAlerts: true }
+          )
+        }
+
+        pagesScraped++
+        postsScraped += result.posts.length
+        newPosts += result.posts.length - knownPostCount
+        for (const post of result.posts) {
+          const publishedAt = new Date(post.publishedAt)
+          if (!oldestPostAt || publishedAt < oldestPostAt) {
+            oldestPostAt = publishedAt
+          }
+        }
+
+        stopReason = getBackfillStopReason(
+          { postCount: result.posts.length, knownPostCount, hasMore: result.hasMore, maxCursor: result.maxCursor },
+          { pagesScraped, pageBudget: backfill.pageBudget, newPosts, historyCovered }
+        )
+        maxCursor = result.maxCursor ?? maxCursor
+
+        // Checkpoint after every page
+        await this.prisma.profileBackfill.update({
+          where: { id: backfillId },
+          data: { maxCursor, pagesScraped, postsScraped, newPosts, oldestPostAt }
+        })
+
+        if (!stopReason) {
+          await new Promise(resolve => setTimeout(resolve, PAGE_DELAY_MS))
+        }
+      }
+
+      const status = stopReason === 'budget-exhausted'
+        ? ProfileBackfillStatus.PAUSED
+        : ProfileBackfillStatus.COMPLETED
+
+      await this.prisma.profileBackfill.update({
+        where: { id: backfillId },
+        data: {
+          status,
+          stopReason,
+          completedAt: status === ProfileBackfillStatus.COMPLETED ? new Date() : null
+        }
+      })
+
+      console.log(`✅ [Backfill] @${profile.handle} ${status.toLowerCase()} (${stopReason}): ${pagesScraped} pages, ${newPosts} new posts`)
+
+      return { backfillId, status, pagesScraped, newPosts, stopReason }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ [Backfill] @${profile.handle} failed on page ${pagesScraped + 1}:`, error)
+
+      // Back to PENDING while the queue retries, FAILED once it gives up
+      await this.prisma.profileBackfill.update({
+        where: { id: backfillId },
+        data: {
+          status: options.isFinalAttempt ? ProfileBackfillStatus.FAILED : ProfileBackfillStatus.PENDING,
+          error: message
+        }
+      })
+
+      throw error
+    }
+  }
+}
+
+// Export singleton instance
+export const profileBackfillService = new ProfileBackfillService()
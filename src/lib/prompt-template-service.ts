@@ -0,0 +1,324 @@
+/**
+ * Prompt Template Service
+ *
+ * Versioned prompt templates stored in the database. Each prompt key starts
+ * out with its built-in template as version 1; saving an edit adds a version.
+ * Features render the pinned version of a key, or the latest one when nothing
+ * is pinned, and keep the returned version id with what they generated.
+ */
+
+import { PrismaClient, type PromptTemplate, type PromptTemplateVersion } from '@/generated/prisma'
+import {
+  PROMPT_DEFAULTS,
+  PROMPT_KEYS,
+  renderTemplate,
+  validateTemplate,
+  diffLines,
+  type LineDiff,
+  type PromptKey,
+  type PromptVariables
+} from './prompts'
+
+// How long a resolved version is reused before checking for a new pin or edit
+const ACTIVE_VERSION_CACHE_MS = 30 * 1000
+
+export interface RenderedPrompt {
+  text: string
+  versionId: string | null // null when the built-in template was used because the database was unavailable
+}
+
+export interface PromptTemplateSummary {
+  key: PromptKey
+  title: string
+  description: string
+  feature: string
+  pinnedVersionId: string | null
+  activeVersion: number | null
+  latestVersion: number | null
+  updatedAt: string | null
+}
+
+export interface PromptVersionSummary {
+  id: string
+  version: number
+  body: string
+  notes: string | null
+  createdAt: string
+  createdBy: { id: string; name: string | null; email: string } | null
+  isPinned: boolean
+  isActive: boolean
+}
+
+export interface PromptTemplateDetail extends PromptTemplateSummary {
+  variables: Record<string, string>
+  defaultTemplate: string
+  versions: PromptVersionSummary[]
+}
+
+export interface PromptVersionComparison {
+  version: Pick<PromptTemplateVersion, 'id' | 'version' | 'body'>
+  compareTo: Pick<PromptTemplateVersion, 'id' | 'version' | 'body'> | null
+  diff: LineDiff[]
+}
+
+type ActiveVersion = Pick<PromptTemplateVersion, 'id' | 'version' | 'body'>
+
+class PromptTemplateService {
+  private prisma: PrismaClient
+  private activeCache = new Map<PromptKey, { version: ActiveVersion; expiresAt: number }>()
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Render a prompt with the key's active version, or a specific version
+   * (e.g. when replaying an older prompt). Without a version id, a database
+   * failure falls back to the built-in template so generation keeps working.
+   */
+  async render(
+    key: PromptKey,
+    variables: PromptVariables,
+    options: { versionId?: string } = {}
+  ): Promise<RenderedPrompt> {
+    if (options.versionId) {
+      const version = await this.getVersion(key, options.versionId)
+      return { text: renderTemplate(version.body, variables), versionId: version.id }
+    }
+
+    let version: ActiveVersion
+    try {
+      version = await this.getActiveVersion(key)
+    } catch (error) {
+      console.error(`❌ [PromptTemplates] Failed to load ${key}, using built-in template:`, error)
+      return { text: renderTemplate(PROMPT_DEFAULTS[key].template, variables), versionId: null }
+    }
+
+    return { text: renderTemplate(version.body, variables), versionId: version.id }
+  }
+
+  /**
+   * Every prompt key with its active and latest version
+   */
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    for (const key of PROMPT_KEYS) {
+      await this.ensureTemplate(key)
+    }
+
+    const templates = await this.prisma.promptTemplate.findMany({
+      include: {
+        pinnedVersion: { select: { version: true } },
+        versions: { select: { version: true }, orderBy: { version: 'desc' }, take: 1 }
+      }
+    })
+    const byKey = new Map(templates.map(template => [template.key, template]))
+
+    return PROMPT_KEYS.map(key => {
+      const template = byKey.get(key)
+      const latestVersion = template?.versions[0]?.version ?? null
+
+      return {
+        ...this.describe(key),
+        pinnedVersionId: template?.pinnedVersionId ?? null,
+        activeVersion: template?.pinnedVersion?.version ?? latestVersion,
+        latestVersion,
+        updatedAt: template?.updatedAt.toISOString() ?? null
+      }
+    })
+  }
+
+  /**
+   * A prompt key with all of its versions, newest first
+   */
+  async getTemplate(key: PromptKey): Promise<PromptTemplateDetail> {
+    const template = await this.ensureTemplate(key)
+    const versions = await this.prisma.promptTemplateVersion.findMany({
+      where: { templateId: template.id },
+      include: { createdBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { version: 'desc' }
+    })
+    const activeId = template.pinnedVersionId ?? versions[0]?.id ?? null
+    const active = versions.find(version => version.id === activeId)
+
+    return {
+      ...this.describe(key),
+      pinnedVersionId: template.pinnedVersionId,
+      activeVersion: active?.version ?? null,
+      latestVersion: versions[0]?.version ?? null,
+      updatedAt: template.updatedAt.toISOString(),
+      variables: PROMPT_DEFAULTS[key].variables,
+      defaultTemplate: PROMPT_DEFAULTS[key].template,
+      versions: versions.map(version => ({
+        id: version.id,
+        version: version.version,
+        body: version.body,
+        notes: version.notes,
+        createdAt: version.createdAt.toISOString(),
+        createdBy: version.createdBy,
+        isPinned: version.id === template.pinnedVersionId,
+        isActive: version.id === activeId
+      }))
+    }
+  }
+
+  /**
+   * Save an edited template as the next version, optionally pinning it
+   */
+  async createVersion(
+    key: PromptKey,
+    data: { body: string; notes?: string | null; pin?: boolean },
+    createdById?: string
+  ): Promise<PromptTemplateVersion> {
+    const errors = validateTemplate(data.body, Object.keys(PROMPT_DEFAULTS[key].variables))
+    if (errors.length > 0) {
+      throw new Error(`Invalid template: ${errors.join('; ')}`)
+    }
+
+    const template = await this.ensureTemplate(key)
+    const version = await this.prisma.$transaction(async (tx) => {
+      const latest = await tx.promptTemplateVersion.findFirst({
+        where: { templateId: template.id },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      })
+
+      const created = await tx.promptTemplateVersion.create({
+        data: {
+          templateId: template.id,
+          version: (latest?.version ?? 0) + 1,
+          body: data.body,
+          notes: data.notes || null,
+          createdById: createdById ?? null
+        }
+      })
+
+      await tx.promptTemplate.update({
+        where: { id: template.id },
+        data: {
+          updatedAt: new Date(),
+          ...(data.pin ? { pinnedVersionId: created.id } : {})
+        }
+      })
+
+      return created
+    })
+
+    this.activeCache.delete(key)
+    console.log(`📝 [PromptTemplates] Saved ${key} v${version.version}${data.pin ? ' (pinned)' : ''}`)
+    return version
+  }
+
+  /**
+   * Pin a version so generation uses it regardless of later edits, or unpin
+   * (null) to follow the latest version
+   */
+  async pinVersion(key: PromptKey, versionId: string | null): Promise<void> {
+    const template = await this.ensureTemplate(key)
+    if (versionId) {
+      await this.getVersion(key, versionId)
+    }
+
+    await this.prisma.promptTemplate.update({
+      where: { id: template.id },
+      data: { pinnedVersionId: versionId }
+    })
+
+    this.activeCache.delete(key)
+    console.log(`📌 [PromptTemplates] ${versionId ? `Pinned ${key} to ${versionId}` : `Unpinned ${key}`}`)
+  }
+
+  /**
+   * Line diff of a version against another version, or against the version
+   * before it when none is given
+   */
+  async compareVersions(
+    key: PromptKey,
+    versionId: string,
+    compareToId?: string
+  ): Promise<PromptVersionComparison> {
+    const version = await this.getVersion(key, versionId)
+    const compareTo = compareToId
+      ? await this.getVersion(key, compareToId)
+      : await this.prisma.promptTemplateVersion.findFirst({
+          where: { templateId: version.templateId, version: { lt: version.version } },
+          orderBy: { version: 'desc' }
+        })
+
+    return {
+      version: { id: version.id, version: version.version, body: version.body },
+      compareTo: compareTo ? { id: compareTo.id, version: compareTo.version, body: compareTo.body } : null,
+      diff: diffLines(compareTo?.body ?? '', version.body)
+    }
+  }
+
+  async getVersion(key: PromptKey, versionId: string): Promise<PromptTemplateVersion> {
+    const version = await this.prisma.promptTemplateVersion.findFirst({
+      where: { id: versionId, template: { key } }
+    })
+
+    if (!version) {
+      throw new Error(`Prompt version not found: ${versionId}`)
+    }
+
+    return version
+  }
+
+  private describe(key: PromptKey) {
+    const { title, description, feature } = PROMPT_DEFAULTS[key]
+    return { key, title, description, feature }
+  }
+
+  /**
+   * The pinned version, else the latest; cached briefly as every generation
+   * call resolves it
+   */
+  private async getActiveVersion(key: PromptKey): Promise<ActiveVersion> {
+    const cached = this.activeCache.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.version
+    }
+
+    const template = await this.ensureTemplate(key)
+    const version = await this.prisma.promptTemplateVersion.findFirst({
+      where: template.pinnedVersionId ? { id: template.pinnedVersionId } : { templateId: template.id },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, body: true }
+    })
+
+    if (!version) {
+      throw new Error(`Prompt template has no versions: ${key}`)
+    }
+
+    this.activeCache.set(key, { version, expiresAt: Date.now() + ACTIVE_VERSION_CACHE_MS })
+    return version
+  }
+
+  /**
+   * Seed a key with its built-in template as version 1 the first time it is used
+   */
+  private async ensureTemplate(key: PromptKey): Promise<PromptTemplate> {
+    const existing = await this.prisma.promptTemplate.findUnique({ where: { key } })
+    if (existing) return existing
+
+    try {
+      const template = await this.prisma.promptTemplate.create({
+        data: {
+          key,
+          versions: {
+            create: { version: 1, body: PROMPT_DEFAULTS[key].template, notes: 'Built-in default' }
+          }
+        }
+      })
+      console.log(`🌱 [PromptTemplates] Seeded ${key} with the built-in template`)
+      return template
+    } catch (error) {
+      // Another request seeded it first
+      const seeded = await this.prisma.promptTemplate.findUnique({ where: { key } })
+      if (seeded) return seeded
+      throw error
+    }
+  }
+}
+
+// Export singleton instance
+export const promptTemplateService = new PromptTemplateService()
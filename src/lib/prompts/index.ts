@@ -0,0 +1,51 @@
+/**
+ * Prompt Templates
+ *
+ * Built-in prompts for the AI features. Each key is seeded into the database
+ * as version 1 and edited from Settings → Prompts (see
+ * prompt-template-service.ts); features render prompts by key.
+ */
+
+import { contentGenerationPrompt } from './templates/content-generation'
+import { paraphrasingPrompt } from './templates/paraphrasing'
+import { minimalParaphrasePrompt } from './templates/minimal-paraphrase'
+import { ocrPrompt, ocrSlideTypeRulesPrompt, ocrTextRulesPrompt } from './templates/ocr'
+import {
+  smartAutoFillConceptsPrompt,
+  smartAutoFillExamplePrompt,
+  smartAutoFillGeneratePrompt
+} from './templates/smart-auto-fill'
+import { multiPostAnalysisPrompt, multiPostVariationPrompt } from './templates/multi-post-generation'
+import { conceptDraftPrompt } from './templates/concept-draft'
+import type { PromptDefinition, PromptKey } from './types'
+
+export type { PromptDefinition, PromptKey } from './types'
+export {
+  renderTemplate,
+  getTemplateVariables,
+  validateTemplate,
+  diffLines,
+  type PromptVariables,
+  type LineDiff
+} from './template'
+
+export const PROMPT_DEFAULTS: Record<PromptKey, PromptDefinition> = {
+  'content-generation': contentGenerationPrompt,
+  'paraphrasing': paraphrasingPrompt,
+  'minimal-paraphrase': minimalParaphrasePrompt,
+  'ocr': ocrPrompt,
+  'ocr-slide-type-rules': ocrSlideTypeRulesPrompt,
+  'ocr-text-rules': ocrTextRulesPrompt,
+  'smart-auto-fill-concepts': smartAutoFillConceptsPrompt,
+  'smart-auto-fill-example': smartAutoFillExamplePrompt,
+  'smart-auto-fill-generate': smartAutoFillGeneratePrompt,
+  'multi-post-analysis': multiPostAnalysisPrompt,
+  'multi-post-generation': multiPostVariationPrompt,
+  'concept-draft': conceptDraftPrompt
+}
+
+export const PROMPT_KEYS = Object.keys(PROMPT_DEFAULTS) as PromptKey[]
+
+export function isPromptKey(key: string): key is PromptKey {
+  return Object.prototype.hasOwnProperty.call(PROMPT_DEFAULTS, key)
+}
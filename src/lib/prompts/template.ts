@@ -0,0 +1,156 @@
+/**
+ * Prompt Template Rendering
+ *
+ * Templates are plain text with mustache-style placeholders:
+ *
+ *   {{name}}                 - the variable's value
+ *   {{#name}}...{{/name}}    - the block when the variable is set (non-empty, true, non-zero)
+ *   {{^name}}...{{/name}}    - the block when it is not
+ *
+ * Values are inserted as-is and never parsed as template syntax.
+ */
+
+export type PromptVariables = Record<string, string | number | boolean | null | undefined>
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] }
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+const TAG_PATTERN = /\{\{\s*([#^/]?)\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/**
+ * Parse a template, throwing on unclosed or mismatched sections
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }]
+  let lastIndex = 0
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name] = match
+    const current = stack[stack.length - 1]
+
+    if (match.index > lastIndex) {
+      current.children.push({ type: 'text', text: template.slice(lastIndex, match.index) })
+    }
+    lastIndex = match.index + tag.length
+
+    if (kind === '') {
+      current.children.push({ type: 'variable', name })
+    } else if (kind === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected {{/${name}}}${stack.length > 1 ? `, expected {{/${current.name}}}` : ''}`)
+      }
+      stack.pop()
+    } else {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] }
+      current.children.push(section)
+      stack.push({ name, children: section.children })
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}}`)
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', text: template.slice(lastIndex) })
+  }
+
+  return root
+}
+
+function isSet(value: PromptVariables[string]): boolean {
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0
+}
+
+function renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'variable':
+        return isSet(variables[node.name]) || variables[node.name] === 0 ? String(variables[node.name]) : ''
+      case 'section':
+        return isSet(variables[node.name]) !== node.inverted ? renderNodes(node.children, variables) : ''
+    }
+  }).join('')
+}
+
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return renderNodes(parseTemplate(template), variables)
+}
+
+/**
+ * Every variable name a template refers to, in order of first use
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>()
+  const collect = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type !== 'text') names.add(node.name)
+      if (node.type === 'section') collect(node.children)
+    }
+  }
+  collect(parseTemplate(template))
+  return [...names]
+}
+
+/**
+ * Problems that would stop a template from rendering as intended: syntax
+ * errors and variables the feature does not provide
+ */
+export function validateTemplate(template: string, allowedVariables: string[]): string[] {
+  if (!template.trim()) return ['Template is empty']
+
+  let used: string[]
+  try {
+    used = getTemplateVariables(template)
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid template']
+  }
+
+  return used
+    .filter(name => !allowedVariables.includes(name))
+    .map(name => `Unknown variable {{${name}}}`)
+}
+
+/**
+ * Line diff between two template bodies (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const diff: LineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', text: a[i++] })
+    } else {
+      diff.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) diff.push({ type: 'added', text: b[j++] })
+
+  return diff
+}
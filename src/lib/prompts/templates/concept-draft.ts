@@ -0,0 +1,66 @@
+/**
+ * Concept Draft Prompt
+ *
+ * Draft generation from a topic and a concept per slide
+ * (api/remixes/generate-with-concepts)
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const conceptDraftPrompt: PromptDefinition = {
+  feature: 'concept-draft',
+  title: 'Concept-guided draft',
+  description: 'Writes a project draft on a topic, following the concept chosen (or offered) for each slide',
+  variables: {
+    topic: 'Topic of the carousel',
+    slideCount: 'Number of slides',
+    referencePosts: 'Category, description and OCR text of the project\'s reference posts',
+    slidesDescription: 'Per-slide instructions: the assigned concept, concepts to choose from, or free creation',
+    languageStyle: 'Requested language style'
+  },
+  template: `You are creating a TikTok carousel about: "{{topic}}"
+
+**YOUR TASK:**
+Generate content for {{slideCount}} slides, using the specified concepts for each slide.
+The concepts provide the PATTERN and MESSAGE - adapt them to fit the TOPIC.
+{{#referencePosts}}
+
+**REFERENCE POSTS FOR STYLE:**
+Study these posts for tone, voice, and style. Mirror their casual, authentic energy.
+
+{{referencePosts}}
+{{/referencePosts}}
+**SLIDE STRUCTURE:**
+{{slidesDescription}}
+
+**LANGUAGE STYLE:**
+{{languageStyle}}
+
+**CRITICAL RULES FOR FLOW:**
+
+1. **COHESIVE NARRATIVE**: All slides must flow as one story. Each slide should naturally lead to the next.
+
+2. **SLIDE TYPE PATTERNS:**
+   - HOOK: Create curiosity gap, establish authority, end with "heres what..." pattern
+   - CONTENT: Bold statement → Why it matters → Personal reaction (use "i" lowercase)
+   - CTA: If last slide, provide satisfying closure. If product mention needed, keep it authentic.
+
+3. **AUTHENTICITY (CRITICAL):**
+   - Always lowercase "i" (never "I")
+   - Drop apostrophes: "heres", "ive", "dont", "youre", "thats"
+   - Use casual grammar - write like texting a friend
+   - Include authenticity markers: "honestly", "literally", "ngl", "i swear"
+   - Emojis only at end of slides if appropriate: 🫶💗🥺✨
+
+4. **CONCEPT ADAPTATION:**
+   - Don't copy examples literally - use them as PATTERNS
+   - Adapt the core message to fit "{{topic}}"
+   - Maintain the essence while making it fresh
+
+5. **OPEN LOOPS:**
+   - Each slide should create curiosity for the next
+   - Never reveal everything in one slide
+   - Build anticipation throughout
+
+Generate the draft now. Make it feel authentic, like a real creator sharing insights - not marketing copy.`
+}
@@ -0,0 +1,89 @@
+/**
+ * Minimal Paraphrase Prompt
+ *
+ * Single-example paraphrase at a chosen intensity (minimal-paraphrase-service.ts)
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const minimalParaphrasePrompt: PromptDefinition = {
+  feature: 'minimal-paraphrase',
+  title: 'Example paraphrase',
+  description: 'Paraphrases a single Concept Bank example for a HOOK, CONTENT or CTA slide',
+  variables: {
+    slideType: 'HOOK, CONTENT or CTA',
+    text: 'Original text to paraphrase',
+    productTitle: 'Product to promote (only set for CTA slides with a product context)',
+    productDescription: 'Product description (only set for CTA slides with a product context)',
+    intensityInstruction: 'Instruction for the chosen intensity (minimal, medium, high)',
+    lengthVariance: 'Allowed length difference for the chosen intensity',
+    slideRules: 'Rules for the slide type'
+  },
+  template: `You are a TikTok carousel content expert. Paraphrase the following {{slideType}} slide text while maintaining its core message and impact.
+
+ORIGINAL TEXT:
+"{{text}}"{{#productTitle}}
+
+PRODUCT CONTEXT - CRITICAL FOR CTA:
+Product Name: {{productTitle}}
+Product Description: {{productDescription}}
+
+MANDATORY PRODUCT REPLACEMENT RULES - THIS IS YOUR PRIMARY TASK:
+1. IDENTIFY: Find ANY product, brand, tool, service, or app name mentioned in the original text
+2. REPLACE: Substitute ALL such names with "{{productTitle}}" (keep exact capitalization)
+3. CONTEXT: Make sure the paraphrased text naturally promotes "{{productTitle}}"
+4. CONSISTENCY: Every mention of a product name must become "{{productTitle}}"
+5. NATURAL: The result should read as if originally written for "{{productTitle}}"
+
+Common patterns to replace:
+- Direct mentions: "Go Viral" → "{{productTitle}}"
+- With verbs: "try Skillshare" → "try {{productTitle}}"
+- With verbs: "get Canva Pro" → "get {{productTitle}}"
+- With verbs: "check out Notion" → "check out {{productTitle}}"
+- With verbs: "grab ChatGPT" → "grab {{productTitle}}"
+- Possessive: "Skillshare's courses" → "{{productTitle}}'s courses"
+- Generic: "this tool" → "{{productTitle}}"
+- Generic: "the product" → "{{productTitle}}"
+- Generic: "this app" → "{{productTitle}}"
+
+IMPORTANT: Look for capitalized words that are product/tool names (like "Go Viral", "Canva", "Notion") and replace them!
+
+EXAMPLE - If original says:
+"check out this tool called Go Viral
+it shows your estimated likes, hook rating, even whats hurting your views"
+
+And the product to promote is "ContentIQ", output could be:
+"heres a tool you need to try called ContentIQ
+it gives you estimated likes, hook scores, and shows whats killing your views"
+
+Notice how:
+1. "Go Viral" → "ContentIQ" (product replacement)
+2. "check out this tool" → "heres a tool you need to try" (paraphrased)
+3. "shows your" → "gives you" (paraphrased)
+4. "hook rating" → "hook scores" (paraphrased)
+5. "whats hurting" → "whats killing" (paraphrased)
+
+CRITICAL: For CTA slides with product context, you must do TWO things:
+1. FIRST: Replace the product name with "{{productTitle}}"
+2. SECOND: Apply minimal paraphrasing to the rest of the text (small word changes, slightly different phrasing)
+The result should feel fresh but maintain the same persuasive structure and flow.{{/productTitle}}
+
+PARAPHRASE INTENSITY:
+{{#productTitle}}MINIMAL - Replace the product name AND paraphrase the rest minimally. Change some words and phrases while keeping the same structure and message.{{/productTitle}}{{^productTitle}}{{intensityInstruction}}{{/productTitle}}
+
+SLIDE TYPE REQUIREMENTS ({{slideType}}):
+{{slideRules}}
+
+LENGTH REQUIREMENT:
+{{#productTitle}}Keep similar length to the original (within 20% variance). Replace the product name AND paraphrase the text.{{/productTitle}}{{^productTitle}}Keep length similar to original ({{lengthVariance}} variance acceptable).{{/productTitle}}
+
+CRITICAL RULES:
+- Maintain the core message and intent
+- Apply all slide type requirements listed above
+- Use casual, conversational tone throughout
+- Do NOT add emojis unless the original has them
+- Do NOT add hashtags
+- Keep the authentic, real-person voice
+
+Respond with ONLY the paraphrased text. No explanation, no metadata, no quotes around it.`
+}
@@ -0,0 +1,111 @@
+/**
+ * Multi-Post Generation Prompts
+ *
+ * Pattern analysis and variation generation for creating remixes from several
+ * source posts at once (multi-post-generation-service.ts)
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const multiPostAnalysisPrompt: PromptDefinition = {
+  feature: 'multi-post-generation',
+  title: 'Multi-post pattern analysis',
+  description: 'Learns the structure and language style shared by the selected source posts',
+  variables: {
+    postsJson: 'Source posts as JSON (id, description, slide count and OCR text of each slide)'
+  },
+  template: `You are an expert at analyzing TikTok carousel content patterns.
+
+ANALYZE THESE SUCCESSFUL POSTS:
+{{postsJson}}
+
+IDENTIFY:
+1. Common structural patterns (slide counts, hook/content/CTA distribution)
+2. Language style patterns (tone, sentence length, emoji usage, punctuation)
+3. Content themes and categories
+4. Hook strategies
+5. CTA approaches
+6. Common phrases and writing patterns
+
+RESPOND WITH VALID JSON ONLY (no markdown):
+{
+  "structuralPatterns": {
+    "avgSlideCount": 6,
+    "slideCountRange": { "min": 5, "max": 8 },
+    "commonPattern": "1 hook + 4-6 content + 1 cta"
+  },
+  "languageStyle": {
+    "tone": "casual-professional",
+    "avgSentenceLength": 12,
+    "emojiUsage": "moderate",
+    "commonPhrases": ["here's the truth", "game changer"],
+    "punctuationStyle": "exclamatory",
+    "writingPatterns": "Short punchy sentences with personal voice"
+  },
+  "contentThemes": ["lessons learned", "tips and tricks", "mistakes to avoid"],
+  "hookStrategies": ["bold claims", "personal stories", "shocking stats"],
+  "ctaApproaches": ["feature highlight", "problem solution"],
+  "styleProfile": "Educational content with authentic personal experience, using casual but authoritative tone"
+}`
+}
+
+export const multiPostVariationPrompt: PromptDefinition = {
+  feature: 'multi-post-generation',
+  title: 'Multi-post variation',
+  description: 'Writes one new carousel in the learned style; runs once per requested variation',
+  variables: {
+    sourceContent: 'Slide texts of the source posts as JSON',
+    languageStyle: 'Language style learned by the pattern analysis, as JSON',
+    productContext: 'Product context description',
+    additionalPrompt: 'Additional instructions from the user',
+    slideCount: 'Number of slides to write',
+    variationNumber: 'Number of this variation (1-based)'
+  },
+  template: `You are an expert content creator specializing in viral TikTok carousels.
+
+SOURCE POSTS FOR REFERENCE (learn the style, don't copy):
+{{sourceContent}}
+
+LEARNED STYLE PROFILE:
+{{languageStyle}}
+{{#productContext}}
+
+PRODUCT CONTEXT:
+{{productContext}}
+{{/productContext}}{{#additionalPrompt}}
+
+ADDITIONAL INSTRUCTIONS:
+{{additionalPrompt}}
+{{/additionalPrompt}}
+
+CREATE A NEW {{slideCount}}-SLIDE CAROUSEL:
+
+CRITICAL STRUCTURE REQUIREMENTS:
+1. Exactly ONE HOOK slide (must be the first slide)
+2. Exactly ONE CTA slide (must be the last slide){{#productContext}} - mention the product ONLY here{{/productContext}}
+3. All middle slides must be CONTENT slides
+
+CONTENT FLOW REQUIREMENTS:
+4. Create a natural conversation that builds progressively - each slide should flow into the next
+5. H slide: Create curiosity with the main topic
+6. CONTENT slides: Build knowledge step-by-step, each slide expanding on the previous
+7. CTA slide: Compelling call-to-action{{#productContext}} that naturally incorporates the product{{/productContext}}
+
+STYLE REQUIREMENTS:
+8. Match the learned language style exactly (tone, sentence length, emoji usage, punctuation)
+9. Use similar writing patterns but with completely unique content
+10. Make each slide engaging and swipeable
+11. Variation {{variationNumber}} should be unique from other variations
+
+RESPOND WITH VALID JSON ONLY (no markdown):
+{
+  "slides": [
+    {
+      "text": "Slide text here",
+      "type": "HOOK" | "CONTENT" | "CTA",
+      "suggestedCategory": "Category name"
+    }
+  ],
+  "languageStyleTags": ["casual", "emoji-moderate", "short-punchy"]
+}`
+}
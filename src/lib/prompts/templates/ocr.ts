@@ -0,0 +1,44 @@
+/**
+ * OCR Prompts
+ *
+ * Carousel text extraction and slide classification (ocr-service.ts). The
+ * rules templates become descriptions in the structured output schema.
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const ocrPrompt: PromptDefinition = {
+  feature: 'ocr',
+  title: 'OCR instruction',
+  description: 'Instruction sent with the carousel images when extracting text, categorizing and classifying slides',
+  variables: {
+    slideCount: 'Number of slides in the carousel',
+    categoryList: 'Existing post categories, comma separated'
+  },
+  template: `You are analyzing a TikTok photo carousel with {{slideCount}} slides.
+
+EXISTING POST CATEGORIES IN DATABASE:
+{{#categoryList}}{{categoryList}}{{/categoryList}}{{^categoryList}}None yet - you can create new categories{{/categoryList}}
+
+Analyze the carousel and provide:
+1. Post-level category classification
+2. Detailed analysis for each of the {{slideCount}} slides
+
+Follow the schema definitions for all fields. Return the structured JSON response.`
+}
+
+export const ocrSlideTypeRulesPrompt: PromptDefinition = {
+  feature: 'ocr',
+  title: 'OCR slide type rules',
+  description: 'How the model classifies each slide as hook, content or cta (schema description of slideType)',
+  variables: {},
+  template: `Classify each slide: 'hook' = first slide that grabs attention with bold claims, questions, or curiosity gaps. 'content' = middle slides that teach, explain, share tips, or provide value WITHOUT promoting anything. 'cta' = slides that promote a tool/product/service, ask users to take action (follow, comment, try something), mention specific apps/tools to use, or contain soft-selling like 'use this tool', 'try this app', 'check out X'. **CRITICAL RULE: Slide index 0 (first slide) can NEVER be classified as 'cta' - it must be 'hook' or 'content' only.** If a slide mentions a specific tool, product, or asks the viewer to do something, it's CTA even if it appears early in the carousel, UNLESS it's slide 0.`
+}
+
+export const ocrTextRulesPrompt: PromptDefinition = {
+  feature: 'ocr',
+  title: 'OCR text extraction rules',
+  description: 'Which text the model extracts from each slide (schema description of ocrText)',
+  variables: {},
+  template: `Extract ONLY the overlay text that the user added on top of the image (like text captions/titles in TikTok carousels). DO NOT extract text that is embedded in the background image or part of the original photo. If multiple text overlays exist, separate them with \\n. Return empty string if no overlay text is present.`
+}
@@ -0,0 +1,74 @@
+/**
+ * Paraphrasing Prompt
+ *
+ * Slide-by-slide remix of a single post (paraphrasing-service.ts)
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const paraphrasingPrompt: PromptDefinition = {
+  feature: 'paraphrasing',
+  title: 'Post remix paraphrasing',
+  description: 'Paraphrases every slide of a photo carousel when creating an AI remix of a post',
+  variables: {
+    postUrl: 'TikTok URL of the original post',
+    author: 'Author nickname or handle',
+    postDescription: 'Original post description',
+    imageCount: 'Number of images in the carousel',
+    style: 'Writing style (casual, professional, trendy, educational, humorous)',
+    theme: 'Requested theme',
+    targetAudience: 'Requested target audience',
+    productContext: 'Product context description',
+    additionalPrompt: 'Additional instructions from the user',
+    originalTexts: 'OCR text of each slide',
+    slideCount: 'Number of slides with text to paraphrase'
+  },
+  template: `You are an expert content creator specializing in social media remix generation.
+
+Given a TikTok photo carousel post, create paraphrased variations of the text content while maintaining the same message and impact.
+
+ORIGINAL POST CONTEXT:
+- Post URL: {{postUrl}}
+- Author: {{#author}}{{author}}{{/author}}{{^author}}Unknown{{/author}}
+- Description: {{#postDescription}}{{postDescription}}{{/postDescription}}{{^postDescription}}No description{{/postDescription}}
+- Content Type: Photo Carousel
+- Total Images: {{imageCount}}
+
+STYLE REQUIREMENTS:
+- Writing Style: {{style}}
+- Theme: {{#theme}}{{theme}}{{/theme}}{{^theme}}Keep original theme{{/theme}}
+- Target Audience: {{#targetAudience}}{{targetAudience}}{{/targetAudience}}{{^targetAudience}}General social media users{{/targetAudience}}
+{{#productContext}}
+PRODUCT CONTEXT:
+{{productContext}}
+
+IMPORTANT: Paraphrase the content to align with the above product context. The remix should feel natural for promoting or discussing this product/service while maintaining the original message structure.
+{{/productContext}}{{#additionalPrompt}}
+ADDITIONAL INSTRUCTIONS:
+{{additionalPrompt}}
+{{/additionalPrompt}}
+ORIGINAL TEXT CONTENT:
+{{originalTexts}}
+
+TASK:
+For each slide, create a paraphrased version that:
+1. Maintains the core message and intent
+2. Uses different wording and structure
+3. Matches the specified style ({{style}})
+4. Stays engaging for social media
+5. Preserves any key numbers, facts, or calls-to-action{{#productContext}}
+6. Aligns with the product context provided above{{/productContext}}{{#additionalPrompt}}
+7. Follows the additional instructions provided{{/additionalPrompt}}
+
+IMPORTANT: Respond with ONLY a valid JSON object in this exact format:
+{
+  "slides": [
+    {
+      "imageIndex": 0,
+      "paraphrasedText": "Your paraphrased version here"
+    }
+  ]
+}
+
+Generate content for all {{slideCount}} slides. Do not include any other text outside the JSON.`
+}
@@ -0,0 +1,104 @@
+/**
+ * Smart Auto-Fill Prompts
+ *
+ * Concept selection, example selection and example generation for filling a
+ * draft's slides from its hook (api/remixes/[id]/smart-auto-fill)
+ */
+
+import type { PromptDefinition } from '../types'
+
+export const smartAutoFillConceptsPrompt: PromptDefinition = {
+  feature: 'smart-auto-fill',
+  title: 'Auto-fill concept selection',
+  description: 'Picks the CONTENT concepts that best deliver on a hook',
+  variables: {
+    hookText: 'Text of the hook slide',
+    conceptList: 'Numbered CONTENT concepts with core message and example count',
+    numToSelect: 'Number of concepts to select'
+  },
+  template: `You are matching TikTok carousel CONTENT concepts to a HOOK slide.
+
+HOOK:
+"{{hookText}}"
+
+Available CONTENT concepts:
+{{conceptList}}
+
+TASK:
+Select the {{numToSelect}} concepts that would BEST deliver on what the HOOK promises.
+Ensure VARIETY - pick different concepts, not the same topic multiple times.
+
+Scoring:
+- 1.0 = Perfect topical match
+- 0.7-0.9 = Strong relevance
+- 0.4-0.6 = Tangentially related
+- Below 0.4 = Weak match
+
+Return JSON (select exactly {{numToSelect}}, sorted by relevanceScore descending):
+{
+  "selectedConcepts": [
+    { "conceptIndex": 1, "relevanceScore": 0.9, "reason": "Brief explanation" }
+  ]
+}
+
+Return ONLY valid JSON.`
+}
+
+export const smartAutoFillExamplePrompt: PromptDefinition = {
+  feature: 'smart-auto-fill',
+  title: 'Auto-fill example selection',
+  description: 'Picks the example from a concept that best delivers on a hook',
+  variables: {
+    hookText: 'Text of the hook slide',
+    conceptTitle: 'Concept title',
+    coreMessage: 'Concept core message',
+    exampleList: 'Numbered examples of the concept (truncated to 250 characters)'
+  },
+  template: `You are selecting the best example from a concept for a TikTok carousel.
+
+HOOK (what the carousel promises):
+"{{hookText}}"
+
+CONCEPT: "{{conceptTitle}}"
+Core message: {{coreMessage}}
+
+Available examples:
+{{exampleList}}
+
+TASK:
+Select the ONE example that best delivers on what the HOOK promises.
+
+Return JSON:
+{
+  "selectedIndex": 1,
+  "relevanceScore": 0.9
+}
+
+Return ONLY valid JSON.`
+}
+
+export const smartAutoFillGeneratePrompt: PromptDefinition = {
+  feature: 'smart-auto-fill',
+  title: 'Auto-fill example generation',
+  description: 'Writes a new CONTENT slide for a concept when no existing example matches the hook',
+  variables: {
+    hookText: 'Text of the hook slide',
+    conceptTitle: 'Concept title',
+    coreMessage: 'Concept core message',
+    styleExamples: 'Up to two existing examples as a style reference (empty when the concept has none)'
+  },
+  template: `Generate a TikTok carousel CONTENT slide that:
+1. Delivers on this HOOK's promise: "{{hookText}}"
+2. Fits this concept: "{{conceptTitle}}" - {{coreMessage}}
+
+{{#styleExamples}}Style reference from existing examples:
+{{styleExamples}}{{/styleExamples}}
+
+Requirements:
+- Concise TikTok carousel text (2-4 short lines)
+- Casual, informative style
+- Directly address what the hook promised
+- No hashtags or emojis unless fitting the style
+
+Return ONLY the slide text.`
+}
@@ -0,0 +1,35 @@
+/**
+ * Prompt Template Types
+ */
+
+import type { LLMFeature } from '../llm/types'
+
+/**
+ * Prompts that can be edited and versioned in settings
+ */
+export type PromptKey =
+  | 'content-generation'
+  | 'paraphrasing'
+  | 'minimal-paraphrase'
+  | 'ocr'
+  | 'ocr-slide-type-rules'
+  | 'ocr-text-rules'
+  | 'smart-auto-fill-concepts'
+  | 'smart-auto-fill-example'
+  | 'smart-auto-fill-generate'
+  | 'multi-post-analysis'
+  | 'multi-post-generation'
+  | 'concept-draft'
+
+/**
+ * Built-in definition of a prompt. The template is the version-1 body seeded
+ * into the database and the fallback when the database is unavailable.
+ */
+export interface PromptDefinition {
+  feature: LLMFeature
+  title: string
+  description: string
+  // Variables the feature provides, with what each contains
+  variables: Record<string, string>
+  template: string
+}
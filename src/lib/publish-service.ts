@@ -0,0 +1,312 @@
+/**
+ * Publish Service
+ *
+ * Schedules approved remixes for upload to a TikTok account and runs the
+ * publish pipeline (render slides -> upload carousel -> write back status).
+ * The delayed jobs themselves live in the "publish" BullMQ queue.
+ */
+
+import { PrismaClient, PublishStatus, type ScheduledPublish } from '@/generated/prisma'
+import { publishQueue } from './queue/publish-queue'
+import { remixRenderService } from './remix-render-service'
+import { tiktokAccountService } from './tiktok-account-service'
+import { tiktokAPIService } from './tiktok-api-service'
+import { cacheAssetService } from './cache-asset-service'
+
+export interface SchedulePublishInput {
+  remixId: string
+  accountId: string
+  scheduledFor: Date
+  title?: string
+  description?: string
+}
+
+export interface ProcessPublishOptions {
+  isFinalAttempt?: boolean
+}
+
+// Statuses that can still be edited, cancelled or picked up by the worker
+const PENDING_STATUSES: PublishStatus[] = [PublishStatus.SCHEDULED, PublishStatus.FAILED]
+
+class PublishService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Schedule an approved remix for publishing
+   */
+  async schedulePublish(input: SchedulePublishInput): Promise<ScheduledPublish> {
+    const { remixId, accountId, scheduledFor, title, description } = input
+
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, name: true, description: true, approved: true },
+    })
+
+    if (!remix) {
+      throw new Error('Remix not found')
+    }
+
+    if (!remix.approved) {
+      throw new Error('Only approved remixes can be scheduled for publishing')
+    }
+
+    await this.assertActiveAccount(accountId)
+
+    const scheduled = await this.prisma.scheduledPublish.create({
+      data: {
+        remixId,
+        accountId,
+        scheduledFor,
+        title: title ?? remix.name,
+        description: description ?? remix.description,
+      },
+    })
+
+    await publishQueue.addPublishJob(scheduled.id, scheduledFor)
+
+    await this.prisma.remixPost.update({
+      where: { id: remixId },
+      data: { workflowStatus: 'SCHEDULED', workflowUpdatedAt: new Date() },
+    })
+
+    console.log(`📅 [Publish] Scheduled remix ${remixId} for ${scheduledFor.toISOString()} (${scheduled.id})`)
+    return scheduled
+  }
+
+  /**
+   * Move a pending publish to a new time (and optionally a new caption)
+   */
+  async reschedule(
+    id: string,
+    updates: { scheduledFor?: Date; title?: string; description?: string; accountId?: string }
+  ): Promise<ScheduledPublish> {
+    const existing = await this.getPending(id)
+    const scheduledFor = updates.scheduledFor ?? existing.scheduledFor
+
+    if (updates.accountId) {
+      await this.assertActiveAccount(updates.accountId)
+    }
+
+    const scheduled = await this.prisma.scheduledPublish.update({
+      where: { id },
+      data: {
+        scheduledFor,
+        title: updates.title,
+        description: updates.description,
+        accountId: updates.accountId,
+        status: PublishStatus.SCHEDULED,
+        error: null,
+      },
+    })
+
+    await publishQueue.addPublishJob(id, scheduledFor)
+    return scheduled
+  }
+
+  /**
+   * Retry a failed publish right away
+   */
+  async retry(id: string): Promise<ScheduledPublish> {
+    return this.reschedule(id, { scheduledFor: new Date() })
+  }
+
+  /**
+   * Cancel a pending publish
+   */
+  async cancel(id: string): Promise<ScheduledPublish> {
+    const scheduled = await this.getPending(id)
+    await publishQueue.removePublishJob(id)
+
+    const cancelled = await this.prisma.scheduledPublish.update({
+      where: { id },
+      data: { status: PublishStatus.CANCELLED },
+    })
+
+    // Back to approved unless another publish of the remix is still pending
+    const otherPending = await this.prisma.scheduledPublish.count({
+      where: { remixId: scheduled.remixId, status: { in: PENDING_STATUSES } },
+    })
+    if (otherPending === 0) {
+      await this.prisma.remixPost.updateMany({
+        where: { id: scheduled.remixId, workflowStatus: 'SCHEDULED' },
+        data: { workflowStatus: 'APPROVED', workflowUpdatedAt: new Date() },
+      })
+    }
+
+    return cancelled
+  }
+
+  /**
+   * Cancel every pending publish of a remix, e.g. when it leaves SCHEDULED on
+   * the board or loses its approval. Leaves the workflow stage to the caller.
+   */
+  async cancelPendingForRemix(remixId: string): Promise<number> {
+    const pending = await this.prisma.scheduledPublish.findMany({
+      where: { remixId, status: { in: PENDING_STATUSES } },
+      select: { id: true },
+    })
+
+    for (const { id } of pending) {
+      await publishQueue.removePublishJob(id)
+    }
+
+    if (pending.length > 0) {
+      await this.prisma.scheduledPublish.updateMany({
+        where: { id: { in: pending.map(p => p.id) }, status: { in: PENDING_STATUSES } },
+        data: { status: PublishStatus.CANCELLED },
+      })
+      console.log(`🚫 [Publish] Cancelled ${pending.length} pending publish(es) of remix ${remixId}`)
+    }
+
+    return pending.length
+  }
+
+  /**
+   * Number of pending publishes of a remix
+   */
+  async countPendingForRemix(remixId: string): Promise<number> {
+    return this.prisma.scheduledPublish.count({
+      where: { remixId, status: { in: PENDING_STATUSES } },
+    })
+  }
+
+  private async assertActiveAccount(accountId: string): Promise<void> {
+    const account = await this.prisma.tiktokUploadAccount.findUnique({
+      where: { id: accountId },
+      select: { id: true, status: true },
+    })
+
+    if (!account) {
+      throw new Error('Account not found')
+    }
+
+    if (account.status !== 'ACTIVE') {
+      throw new Error('Account is not active. Please reconnect the account.')
+    }
+  }
+
+  private async getPending(id: string): Promise<ScheduledPublish> {
+    const scheduled = await this.prisma.scheduledPublish.findUnique({ where: { id } })
+
+    if (!scheduled) {
+      throw new Error('Scheduled publish not found')
+    }
+
+    if (!PENDING_STATUSES.includes(scheduled.status)) {
+      throw new Error(`Cannot modify a publish with status ${scheduled.status}`)
+    }
+
+    return scheduled
+  }
+
+  /**
+   * Run the publish pipeline for a scheduled publish. Throws on failure so the
+   * queue can retry; the row is only marked FAILED on the final attempt.
+   */
+  async processScheduledPublish(id: string, options: ProcessPublishOptions = {}): Promise<ScheduledPublish> {
+    const scheduled = await this.prisma.scheduledPublish.findUnique({ where: { id } })
+
+    if (!scheduled) {
+      throw new Error(`Scheduled publish not found: ${id}`)
+    }
+
+    if (!PENDING_STATUSES.includes(scheduled.status)) {
+      console.log(`⏭️ [Publish] Skipping ${id}, status is ${scheduled.status}`)
+      return scheduled
+    }
+
+    // The draft may have been pulled back after it was scheduled
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: scheduled.remixId },
+      select: { approved: true, workflowStatus: true },
+    })
+
+    if (!remix?.approved || remix.workflowStatus !== 'SCHEDULED') {
+      console.warn(`🚫 [Publish] Cancelling ${id}, remix ${scheduled.remixId} is no longer scheduled (${remix?.workflowStatus ?? 'deleted'})`)
+      return this.prisma.scheduledPublish.update({
+        where: { id },
+        data: { status: PublishStatus.CANCELLED, error: 'Remix is no longer approved and scheduled' },
+      })
+    }
+
+    try {
+      await this.prisma.scheduledPublish.update({
+        where: { id },
+        data: { status: PublishStatus.RENDERING, attempts: { increment: 1 }, error: null },
+      })
+
+      // Reuse renders from an earlier attempt so retries only redo the upload
+      let renderedAssetIds = scheduled.renderedAssetIds
+      if (renderedAssetIds.length === 0) {
+        const rendered = await remixRenderService.renderRemix(scheduled.remixId)
+        renderedAssetIds = rendered.cacheAssetIds
+      }
+
+      await this.prisma.scheduledPublish.update({
+        where: { id },
+        data: { status: PublishStatus.UPLOADING, renderedAssetIds },
+      })
+
+      const accessToken = await tiktokAccountService.getValidAccessToken(scheduled.accountId)
+
+      // TikTok pulls the images itself, so use public (non-presigned) URLs.
+      // getUrls returns '' for an asset it could not resolve.
+      const photoUrls = await cacheAssetService.getUrls(renderedAssetIds, undefined, true)
+      if (photoUrls.length === 0 || photoUrls.some(url => !url)) {
+        throw new Error('Failed to resolve all rendered image URLs')
+      }
+
+      const uploadResult = await tiktokAPIService.uploadCarouselDraft({
+        accessToken,
+        title: scheduled.title ?? undefined,
+        description: scheduled.description ?? undefined,
+        photoUrls,
+      })
+
+      if (uploadResult.error) {
+        throw new Error(uploadResult.error.message)
+      }
+
+      const now = new Date()
+      const [published] = await this.prisma.$transaction([
+        this.prisma.scheduledPublish.update({
+          where: { id },
+          data: {
+            status: PublishStatus.PUBLISHED,
+            publishId: uploadResult.publish_id,
+            publishedAt: now,
+          },
+        }),
+        this.prisma.remixPost.update({
+          where: { id: scheduled.remixId },
+          data: { postedAt: now, workflowStatus: 'POSTED', workflowUpdatedAt: now },
+        }),
+      ])
+
+      await tiktokAccountService.markUsed(scheduled.accountId)
+
+      console.log(`🎉 [Publish] Published ${id}, publish_id: ${uploadResult.publish_id}`)
+      return published
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ [Publish] Failed to publish ${id}:`, errorMessage)
+
+      await this.prisma.scheduledPublish.update({
+        where: { id },
+        data: {
+          status: options.isFinalAttempt ? PublishStatus.FAILED : PublishStatus.SCHEDULED,
+          error: errorMessage,
+        },
+      })
+
+      throw error
+    }
+  }
+}
+
+export const publishService = new PublishService()
+export default PublishService
@@ -0,0 +1,112 @@
+/**
+ * Account Health Queue
+ *
+ * Manages the recurring TikTok upload account health check (token refresh)
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, AccountHealthJobData, isBuildTime } from './config'
+
+export const ACCOUNT_HEALTH_SCHEDULER_ID = 'account-health-sweep'
+
+// How often every account is checked
+export const ACCOUNT_HEALTH_INTERVAL_MS =
+  parseInt(process.env.TIKTOK_ACCOUNT_HEALTH_INTERVAL_MINUTES || '60') * 60 * 1000
+
+class AccountHealthQueue {
+  private queue: Queue<AccountHealthJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [AccountHealthQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.ACCOUNT_HEALTH, getDefaultQueueOptions())
+  }
+
+  /**
+   * Register (or update) the repeating sweep over all accounts
+   */
+  async scheduleRecurringSweep(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [AccountHealthQueue] Queue not initialized, skipping scheduler')
+      return
+    }
+
+    await this.queue.upsertJobScheduler(
+      ACCOUNT_HEALTH_SCHEDULER_ID,
+      { every: ACCOUNT_HEALTH_INTERVAL_MS },
+      { name: 'account-health-sweep', data: {} }
+    )
+
+    console.log(`⏰ [AccountHealthQueue] Sweep scheduled every ${ACCOUNT_HEALTH_INTERVAL_MS / 60000} minutes`)
+  }
+
+  /**
+   * Queue a one-off health check for a single account
+   */
+  async addHealthCheckJob(accountId: string): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [AccountHealthQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'account-health-check',
+      { accountId },
+      {
+        jobId: `account-health-${accountId}-${Date.now()}`,
+        attempts: 1, // The next sweep retries anyway
+      }
+    )
+
+    console.log(`📋 [AccountHealthQueue] Health check queued for account: ${accountId}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<AccountHealthJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [AccountHealthQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const accountHealthQueue = new AccountHealthQueue()
+export default AccountHealthQueue
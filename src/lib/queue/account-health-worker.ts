@@ -0,0 +1,132 @@
+/**
+ * Account Health Worker
+ *
+ * Background worker that refreshes TikTok upload account tokens before they
+ * expire and flags accounts that need reconnecting. Registers its own
+ * repeating sweep on startup.
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { tiktokAccountService } from '../tiktok-account-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  AccountHealthJobData,
+  AccountHealthJobResult
+} from './config'
+import { accountHealthQueue } from './account-health-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class AccountHealthWorker {
+  private worker: Worker<AccountHealthJobData, AccountHealthJobResult>
+  private queue: Queue<AccountHealthJobData>
+
+  constructor() {
+    console.log('🏗️ [AccountHealthWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Sweeps must not overlap
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.ACCOUNT_HEALTH, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.ACCOUNT_HEALTH,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [AccountHealthWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.ACCOUNT_HEALTH)
+
+    accountHealthQueue.scheduleRecurringSweep().catch((error) => {
+      console.error('❌ [AccountHealthWorker] Failed to schedule recurring sweep:', error)
+    })
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [AccountHealthWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [AccountHealthWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [AccountHealthWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.ACCOUNT_HEALTH, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [AccountHealthWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [AccountHealthWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<AccountHealthJobData>
+  ): Promise<AccountHealthJobResult> {
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.ACCOUNT_HEALTH, job.id!, job.data)
+
+    const accountIds = job.data.accountId
+      ? [job.data.accountId]
+      : await tiktokAccountService.getAccountIdsForHealthCheck()
+
+    console.log(`🩺 [AccountHealthWorker] Checking ${accountIds.length} account(s)`)
+
+    let tokensRefreshed = 0
+    let accountsUnhealthy = 0
+
+    // Sequential - there are only a handful of accounts and TikTok rate-limits the token endpoint
+    for (const accountId of accountIds) {
+      try {
+        const result = await tiktokAccountService.checkAccountHealth(accountId)
+        if (result.refreshed) tokensRefreshed++
+        if (result.status !== 'ACTIVE') accountsUnhealthy++
+      } catch (error) {
+        accountsUnhealthy++
+        console.error(`❌ [AccountHealthWorker] Health check failed for ${accountId}:`, error)
+      }
+    }
+
+    return {
+      success: true,
+      accountsChecked: accountIds.length,
+      tokensRefreshed,
+      accountsUnhealthy,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [AccountHealthWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await accountHealthQueue.close()
+    console.log('✅ [AccountHealthWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<AccountHealthJobData, AccountHealthJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const accountHealthWorker = new AccountHealthWorker()
+export default AccountHealthWorker
@@ -0,0 +1,95 @@
+/**
+ * AI Budget Queue
+ *
+ * Manages the recurring AI budget check that pauses and resumes the
+ * background AI queues
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, AiBudgetJobData, isBuildTime } from './config'
+
+export const AI_BUDGET_SCHEDULER_ID = 'ai-budget-sweep'
+
+// Redis hash of the AI queues paused for the budget (name -> paused at);
+// only these are resumed
+export const AI_BUDGET_PAUSED_QUEUES_KEY = 'ai-budget:paused-queues'
+
+// How often spend is checked against the budgets
+export const AI_BUDGET_INTERVAL_MS =
+  parseInt(process.env.AI_BUDGET_CHECK_INTERVAL_MINUTES || '5') * 60 * 1000
+
+/**
+ * Pause an AI queue because a budget is exceeded. The queue is recorded so
+ * the sweep resumes it once spend is back under, while queues paused by hand
+ * stay paused.
+ */
+export async function pauseQueueForBudget(queue: Queue): Promise<void> {
+  const client = await queue.client
+  await client.hset(AI_BUDGET_PAUSED_QUEUES_KEY, { [queue.name]: new Date().toISOString() })
+  await queue.pause()
+}
+
+class AiBudgetQueue {
+  private queue: Queue<AiBudgetJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [AiBudgetQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.AI_BUDGET, getDefaultQueueOptions())
+  }
+
+  /**
+   * Register (or update) the repeating budget check
+   */
+  async scheduleRecurringSweep(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [AiBudgetQueue] Queue not initialized, skipping scheduler')
+      return
+    }
+
+    await this.queue.upsertJobScheduler(
+      AI_BUDGET_SCHEDULER_ID,
+      { every: AI_BUDGET_INTERVAL_MS },
+      { name: 'ai-budget-sweep', data: {} }
+    )
+
+    console.log(`⏰ [AiBudgetQueue] Budget check scheduled every ${AI_BUDGET_INTERVAL_MS / 60000} minutes`)
+  }
+
+  /**
+   * Queue a one-off check (e.g. right after a budget was changed)
+   */
+  async addCheckJob(reason: string): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [AiBudgetQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'ai-budget-check',
+      { reason },
+      {
+        jobId: `ai-budget-${Date.now()}`,
+        attempts: 1, // The next sweep retries anyway
+      }
+    )
+
+    console.log(`📋 [AiBudgetQueue] Budget check queued (${reason})`)
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [AiBudgetQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const aiBudgetQueue = new AiBudgetQueue()
+export default AiBudgetQueue
@@ -0,0 +1,145 @@
+/**
+ * AI Budget Worker
+ *
+ * Background worker that checks AI spend against the configured budgets and
+ * pauses the background AI queues while a budget is exceeded, resuming them
+ * once spend is back under (e.g. a new day or month, or a raised limit).
+ * Only queues paused for the budget are resumed; a queue paused by hand
+ * stays paused.
+ * Registers its own repeating sweep on startup.
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { aiUsageService, shouldPauseAiQueues } from '../ai-usage-service'
+import {
+  QUEUE_NAMES,
+  AI_QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  getDefaultQueueOptions,
+  AiBudgetJobData,
+  AiBudgetJobResult
+} from './config'
+import { aiBudgetQueue, pauseQueueForBudget, AI_BUDGET_PAUSED_QUEUES_KEY } from './ai-budget-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class AiBudgetWorker {
+  private worker: Worker<AiBudgetJobData, AiBudgetJobResult>
+  private queue: Queue<AiBudgetJobData>
+  private aiQueues: Queue[]
+
+  constructor() {
+    console.log('🏗️ [AiBudgetWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Checks must not overlap
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.AI_BUDGET, workerOptions)
+    this.aiQueues = AI_QUEUE_NAMES.map(name => new Queue(name, getDefaultQueueOptions()))
+    this.worker = new Worker(
+      QUEUE_NAMES.AI_BUDGET,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [AiBudgetWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.AI_BUDGET)
+
+    aiBudgetQueue.scheduleRecurringSweep().catch((error) => {
+      console.error('❌ [AiBudgetWorker] Failed to schedule recurring sweep:', error)
+    })
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [AiBudgetWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      if (result.pausedQueues.length > 0 || result.resumedQueues.length > 0) {
+        console.log(`✅ [AiBudgetWorker] Job ${job.id} completed:`, result)
+      }
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [AiBudgetWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.AI_BUDGET, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [AiBudgetWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [AiBudgetWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<AiBudgetJobData>
+  ): Promise<AiBudgetJobResult> {
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.AI_BUDGET, job.id!, job.data)
+
+    const overBudget = shouldPauseAiQueues(await aiUsageService.getBudgetStatus())
+    const pausedQueues: string[] = []
+    const resumedQueues: string[] = []
+
+    const redis = await this.queue.client
+    const budgetPaused = await redis.hgetall(AI_BUDGET_PAUSED_QUEUES_KEY)
+
+    for (const queue of this.aiQueues) {
+      const isPaused = await queue.isPaused()
+
+      if (overBudget && !isPaused) {
+        await pauseQueueForBudget(queue)
+        pausedQueues.push(queue.name)
+        console.warn(`⏸️ [AiBudgetWorker] AI budget exceeded, paused queue ${queue.name}`)
+      } else if (!overBudget && queue.name in budgetPaused) {
+        if (isPaused) {
+          await queue.resume()
+          resumedQueues.push(queue.name)
+          console.log(`▶️ [AiBudgetWorker] AI spend within budget, resumed queue ${queue.name}`)
+        }
+        await redis.hdel(AI_BUDGET_PAUSED_QUEUES_KEY, queue.name)
+      }
+    }
+
+    return {
+      success: true,
+      overBudget,
+      pausedQueues,
+      resumedQueues,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [AiBudgetWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await Promise.all(this.aiQueues.map(queue => queue.close()))
+    await aiBudgetQueue.close()
+    console.log('✅ [AiBudgetWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<AiBudgetJobData, AiBudgetJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const aiBudgetWorker = new AiBudgetWorker()
+export default AiBudgetWorker
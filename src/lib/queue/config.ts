@@ -26,8 +26,22 @@ export const QUEUE_NAMES = {
   PROFILE_MONITOR: 'profile-monitor',
   OCR: 'ocr',
   HASH_BACKFILL: 'hash-backfill',
+  PUBLISH: 'publish',
+  ACCOUNT_HEALTH: 'account-health',
+  NOTIFICATION_DELIVERY: 'notification-delivery',
+  RENDER: 'render',
+  VIDEO_EXPORT: 'video-export',
+  PROFILE_BACKFILL: 'profile-backfill',
+  TREND_REFRESH: 'trend-refresh',
+  DUPLICATE_DETECTION: 'duplicate-detection',
+  SLIDE_INDEX_BACKFILL: 'slide-index-backfill',
+  AI_BUDGET: 'ai-budget',
+  OCR_EVAL: 'ocr-eval',
 } as const
 
+// Queues whose jobs call a model; paused while an AI budget is exceeded
+export const AI_QUEUE_NAMES: string[] = [QUEUE_NAMES.OCR, QUEUE_NAMES.OCR_EVAL]
+
 // Get default queue options (creates new connection each time)
 export const getDefaultQueueOptions = (): QueueOptions => ({
   connection: new Redis(redisUrl, redisConfig),
@@ -108,4 +122,144 @@ export interface HashBackfillJobResult {
   assetId: string
   imageHash?: string
   error?: string
-}
\ No newline at end of file
+}
+
+// Scheduled publish job interfaces
+export interface PublishJobData {
+  scheduledPublishId: string
+}
+
+export interface PublishJobResult {
+  success: boolean
+  scheduledPublishId: string
+  publishId?: string
+  error?: string
+}
+
+// TikTok account health job interfaces
+export interface AccountHealthJobData {
+  accountId?: string // Omit to check every connected account
+}
+
+export interface AccountHealthJobResult {
+  success: boolean
+  accountsChecked: number
+  tokensRefreshed: number
+  accountsUnhealthy: number
+  error?: string
+}
+
+// Notification delivery retry job interfaces
+export interface NotificationDeliveryJobData {
+  deliveryId: string
+}
+
+export interface NotificationDeliveryJobResult {
+  success: boolean
+  deliveryId: string
+  error?: string
+}
+
+// Remix slide render job interfaces
+export interface RenderJobData {
+  remixId: string
+  format?: 'png' | 'jpeg'
+}
+
+export interface RenderJobResult {
+  success: boolean
+  remixId: string
+  slidesRendered: number
+  slidesReused: number
+  error?: string
+}
+
+// Remix MP4 slideshow export job interfaces
+export interface VideoExportJobData {
+  exportId: string
+}
+
+export interface VideoExportJobResult {
+  success: boolean
+  exportId: string
+  cacheAssetId?: string
+  durationSeconds?: number
+  error?: string
+}
+
+export interface ProfileBackfillJobData {
+  backfillId: string
+}
+
+export interface ProfileBackfillJobResult {
+  success: boolean
+  backfillId: string
+  status?: string
+  pagesScraped?: number
+  newPosts?: number
+  stopReason?: string | null
+  error?: string
+}
+
+// Sound/hashtag trend refresh sweep interfaces
+export interface TrendRefreshJobData {
+  indexLimit?: number // Max not-yet-indexed posts to index before refreshing stats
+}
+
+export interface TrendRefreshJobResult {
+  success: boolean
+  postsIndexed: number
+  soundsUpdated: number
+  hashtagsUpdated: number
+}
+
+// Carousel hashing / near-duplicate clustering sweep interfaces
+export interface DuplicateDetectionJobData {
+  hashLimit?: number // Max not-yet-hashed posts to hash before clustering
+}
+
+export interface DuplicateDetectionJobResult {
+  success: boolean
+  postsHashed: number
+  clusters: number
+  duplicatePosts: number
+}
+
+// Content ideas library backfill interfaces (one batch per job, chained)
+export interface SlideIndexBackfillJobData {
+  source: 'posts' | 'remixes'
+  cursor?: string | null
+  batchSize?: number
+}
+
+export interface SlideIndexBackfillJobResult {
+  success: boolean
+  source: 'posts' | 'remixes'
+  processed: number
+  rowsIndexed: number
+  nextCursor: string | null
+}
+
+// AI budget sweep interfaces (pauses/resumes AI_QUEUE_NAMES)
+export interface AiBudgetJobData {
+  reason?: string // Why a one-off check was queued (e.g. 'budget-updated'); omitted for the sweep
+}
+
+export interface AiBudgetJobResult {
+  success: boolean
+  overBudget: boolean
+  pausedQueues: string[]
+  resumedQueues: string[]
+}
+
+// OCR evaluation run interfaces (one job scores every case of a run)
+export interface OcrEvalJobData {
+  runId: string
+}
+
+export interface OcrEvalJobResult {
+  success: boolean
+  runId: string
+  cases: number
+  failedCases: number
+}
@@ -0,0 +1,79 @@
+/**
+ * Duplicate Detection Queue
+ *
+ * Manages the recurring carousel hashing and duplicate clustering sweep
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, DuplicateDetectionJobData, isBuildTime } from './config'
+
+export const DUPLICATE_DETECTION_SCHEDULER_ID = 'duplicate-detection-sweep'
+
+// How often new carousels are hashed and clusters rebuilt
+export const DUPLICATE_DETECTION_INTERVAL_MS =
+  parseInt(process.env.DUPLICATE_DETECTION_INTERVAL_MINUTES || '60') * 60 * 1000
+
+class DuplicateDetectionQueue {
+  private queue: Queue<DuplicateDetectionJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [DuplicateDetectionQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.DUPLICATE_DETECTION, getDefaultQueueOptions())
+  }
+
+  /**
+   * Register (or update) the repeating duplicate detection sweep
+   */
+  async scheduleRecurringSweep(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [DuplicateDetectionQueue] Queue not initialized, skipping scheduler')
+      return
+    }
+
+    await this.queue.upsertJobScheduler(
+      DUPLICATE_DETECTION_SCHEDULER_ID,
+      { every: DUPLICATE_DETECTION_INTERVAL_MS },
+      { name: 'duplicate-detection-sweep', data: {} }
+    )
+
+    console.log(`⏰ [DuplicateDetectionQueue] Sweep scheduled every ${DUPLICATE_DETECTION_INTERVAL_MS / 60000} minutes`)
+  }
+
+  /**
+   * Queue a one-off detection run (e.g. after a large backfill)
+   */
+  async addDetectionJob(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [DuplicateDetectionQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'duplicate-detection',
+      {},
+      {
+        jobId: `duplicate-detection-${Date.now()}`,
+        attempts: 1, // The next sweep retries anyway
+      }
+    )
+
+    console.log(`📋 [DuplicateDetectionQueue] Duplicate detection queued`)
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [DuplicateDetectionQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const duplicateDetectionQueue = new DuplicateDetectionQueue()
+export default DuplicateDetectionQueue
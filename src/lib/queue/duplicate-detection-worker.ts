@@ -0,0 +1,115 @@
+/**
+ * Duplicate Detection Worker
+ *
+ * Background worker that hashes the carousel images of newly saved posts and
+ * rebuilds the near-duplicate clusters. Registers its own repeating sweep on startup.
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { duplicateDetectionService } from '../duplicate-detection-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  DuplicateDetectionJobData,
+  DuplicateDetectionJobResult
+} from './config'
+import { duplicateDetectionQueue } from './duplicate-detection-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class DuplicateDetectionWorker {
+  private worker: Worker<DuplicateDetectionJobData, DuplicateDetectionJobResult>
+  private queue: Queue<DuplicateDetectionJobData>
+
+  constructor() {
+    console.log('🏗️ [DuplicateDetectionWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Sweeps must not overlap
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.DUPLICATE_DETECTION, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.DUPLICATE_DETECTION,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [DuplicateDetectionWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.DUPLICATE_DETECTION)
+
+    duplicateDetectionQueue.scheduleRecurringSweep().catch((error) => {
+      console.error('❌ [DuplicateDetectionWorker] Failed to schedule recurring sweep:', error)
+    })
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [DuplicateDetectionWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [DuplicateDetectionWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [DuplicateDetectionWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.DUPLICATE_DETECTION, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [DuplicateDetectionWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [DuplicateDetectionWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<DuplicateDetectionJobData>
+  ): Promise<DuplicateDetectionJobResult> {
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.DUPLICATE_DETECTION, job.id!, job.data)
+
+    console.log(`🧬 [DuplicateDetectionWorker] Hashing new carousels and rebuilding duplicate clusters`)
+
+    const postsHashed = await duplicateDetectionService.hashPendingPosts(job.data.hashLimit)
+    const { clusters, duplicatePosts } = await duplicateDetectionService.detectDuplicates()
+
+    return {
+      success: true,
+      postsHashed,
+      clusters,
+      duplicatePosts,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [DuplicateDetectionWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await duplicateDetectionQueue.close()
+    console.log('✅ [DuplicateDetectionWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<DuplicateDetectionJobData, DuplicateDetectionJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const duplicateDetectionWorker = new DuplicateDetectionWorker()
+export default DuplicateDetectionWorker
@@ -0,0 +1,96 @@
+/**
+ * Notification Delivery Queue
+ *
+ * Retries notification deliveries that failed on their first, inline attempt
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, NotificationDeliveryJobData, isBuildTime } from './config'
+
+// Total attempts per delivery, including the inline one
+export const NOTIFICATION_DELIVERY_MAX_ATTEMPTS = 5
+
+class NotificationDeliveryQueue {
+  private queue: Queue<NotificationDeliveryJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [NotificationDeliveryQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.NOTIFICATION_DELIVERY, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue retries for a delivery, with exponential backoff between attempts
+   */
+  async addRetryJob(deliveryId: string, remainingAttempts: number): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [NotificationDeliveryQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'notification-delivery-retry',
+      { deliveryId },
+      {
+        jobId: `notification-delivery-${deliveryId}-${Date.now()}`,
+        delay: 30000,
+        attempts: remainingAttempts,
+        backoff: {
+          type: 'exponential',
+          delay: 60000, // Webhook outages and rate limits usually clear within minutes
+        },
+      }
+    )
+
+    console.log(`📋 [NotificationDeliveryQueue] Retry queued for delivery: ${deliveryId} (${remainingAttempts} attempts left)`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<NotificationDeliveryJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [NotificationDeliveryQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const notificationDeliveryQueue = new NotificationDeliveryQueue()
+export default NotificationDeliveryQueue
@@ -0,0 +1,102 @@
+/**
+ * Notification Delivery Worker
+ *
+ * Background worker that retries failed notification deliveries
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { notificationDeliveryService } from '../notification-delivery-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  NotificationDeliveryJobData,
+  NotificationDeliveryJobResult
+} from './config'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class NotificationDeliveryWorker {
+  private worker: Worker<NotificationDeliveryJobData, NotificationDeliveryJobResult>
+  private queue: Queue<NotificationDeliveryJobData>
+
+  constructor() {
+    console.log('🏗️ [NotificationDeliveryWorker] Initializing worker...')
+
+    const workerOptions = getDefaultWorkerOptions()
+
+    this.queue = new Queue(QUEUE_NAMES.NOTIFICATION_DELIVERY, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.NOTIFICATION_DELIVERY,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [NotificationDeliveryWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.NOTIFICATION_DELIVERY)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [NotificationDeliveryWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [NotificationDeliveryWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [NotificationDeliveryWorker] Job ${job?.id} failed:`, err.message)
+      // Only report to Sentry once retries are exhausted - channel outages are expected
+      if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+        captureJobError(err, QUEUE_NAMES.NOTIFICATION_DELIVERY, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [NotificationDeliveryWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [NotificationDeliveryWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<NotificationDeliveryJobData>
+  ): Promise<NotificationDeliveryJobResult> {
+    const { deliveryId } = job.data
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.NOTIFICATION_DELIVERY, job.id!, job.data)
+
+    const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+
+    // Errors propagate so BullMQ retries with backoff
+    await notificationDeliveryService.attemptDelivery(deliveryId, { isFinalAttempt })
+
+    return { success: true, deliveryId }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [NotificationDeliveryWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    console.log('✅ [NotificationDeliveryWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<NotificationDeliveryJobData, NotificationDeliveryJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const notificationDeliveryWorker = new NotificationDeliveryWorker()
+export default NotificationDeliveryWorker
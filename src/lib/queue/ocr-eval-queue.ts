@@ -0,0 +1,82 @@
+/**
+ * OCR Eval Queue
+ *
+ * Manages OCR evaluation runs, one job per run
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, OcrEvalJobData, isBuildTime } from './config'
+
+class OcrEvalQueue {
+  private queue: Queue<OcrEvalJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [OcrEvalQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.OCR_EVAL, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue a created run. Not retried: a case whose model call fails is
+   * recorded as failed on the run instead.
+   */
+  async addRunJob(runId: string): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [OcrEvalQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'ocr-eval',
+      { runId },
+      {
+        jobId: `ocr-eval-${runId}-${Date.now()}`,
+        attempts: 1,
+      }
+    )
+
+    console.log(`📋 [OcrEvalQueue] Eval run queued: ${runId}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [OcrEvalQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const ocrEvalQueue = new OcrEvalQueue()
+export default OcrEvalQueue
@@ -0,0 +1,122 @@
+/**
+ * OCR Eval Worker
+ *
+ * Background worker that executes OCR evaluation runs: replays OCR on each
+ * gold set case with the run's model and prompt versions, then scores it
+ */
+
+import { Worker, Job, Queue, DelayedError } from 'bullmq'
+import { ocrEvalService } from '../ocr-eval-service'
+import { aiUsageService } from '../ai-usage-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  OcrEvalJobData,
+  OcrEvalJobResult
+} from './config'
+import { ocrEvalQueue } from './ocr-eval-queue'
+import { AI_BUDGET_INTERVAL_MS, pauseQueueForBudget } from './ai-budget-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class OcrEvalWorker {
+  private worker: Worker<OcrEvalJobData, OcrEvalJobResult>
+  private queue: Queue<OcrEvalJobData>
+
+  constructor() {
+    console.log('🏗️ [OcrEvalWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // One run at a time; each run calls the model once per case
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.OCR_EVAL, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.OCR_EVAL,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [OcrEvalWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.OCR_EVAL)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [OcrEvalWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [OcrEvalWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [OcrEvalWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.OCR_EVAL, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [OcrEvalWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [OcrEvalWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<OcrEvalJobData>,
+    token?: string
+  ): Promise<OcrEvalJobResult> {
+    const { runId } = job.data
+
+    // Over an AI budget: stop taking jobs until the budget sweep resumes the queue
+    if (await aiUsageService.isOverBudget()) {
+      console.warn(`⏸️ [OcrEvalWorker] AI budget exceeded, pausing queue and postponing run ${runId}`)
+      await pauseQueueForBudget(this.queue)
+      await job.moveToDelayed(Date.now() + AI_BUDGET_INTERVAL_MS, token)
+      throw new DelayedError()
+    }
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.OCR_EVAL, job.id!, job.data)
+
+    console.log(`🧪 [OcrEvalWorker] Executing eval run ${runId}`)
+    const report = await ocrEvalService.executeRun(runId)
+
+    return {
+      success: true,
+      runId,
+      cases: report.cases,
+      failedCases: report.failedCases,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [OcrEvalWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await ocrEvalQueue.close()
+    console.log('✅ [OcrEvalWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<OcrEvalJobData, OcrEvalJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const ocrEvalWorker = new OcrEvalWorker()
+export default OcrEvalWorker
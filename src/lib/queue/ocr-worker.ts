@@ -4,14 +4,16 @@
  * Background worker that processes OCR jobs for TikTok posts
  */
 
-import { Worker, Job, Queue } from 'bullmq'
+import { Worker, Job, Queue, DelayedError } from 'bullmq'
 import { performOCRForTikTokPost } from '../ocr-service'
+import { aiUsageService } from '../ai-usage-service'
 import {
   QUEUE_NAMES,
   getDefaultWorkerOptions,
   OCRJobData,
   OCRJobResult
 } from './config'
+import { AI_BUDGET_INTERVAL_MS, pauseQueueForBudget } from './ai-budget-queue'
 import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
 
 class OCRWorker {
@@ -99,10 +101,19 @@ class OCRWorker {
   }
 
   private async processJob(
-    job: Job<OCRJobData>
+    job: Job<OCRJobData>,
+    token?: string
   ): Promise<OCRJobResult> {
     const { postId } = job.data
 
+    // Over an AI budget: stop taking jobs until the budget sweep resumes the queue
+    if (await aiUsageService.isOverBudget()) {
+      console.warn(`⏸️ [OCRWorker] AI budget exceeded, pausing queue and postponing post ${postId}`)
+      await pauseQueueForBudget(this.queue)
+      await job.moveToDelayed(Date.now() + AI_BUDGET_INTERVAL_MS, token)
+      throw new DelayedError()
+    }
+
     console.log(`🚀 [OCRWorker] Starting OCR job for post:`, { postId })
 
     // Set Sentry context for this job
@@ -0,0 +1,93 @@
+/**
+ * Profile Backfill Queue
+ *
+ * Queues full-history backfills of monitored profiles
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, ProfileBackfillJobData, isBuildTime } from './config'
+
+class ProfileBackfillQueue {
+  private queue: Queue<ProfileBackfillJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [ProfileBackfillQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.PROFILE_BACKFILL, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue a run of a recorded ProfileBackfill (resumes from its checkpoint)
+   */
+  async addBackfillJob(backfillId: string): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [ProfileBackfillQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'backfill-profile',
+      { backfillId },
+      {
+        // Unique per run so a resumed backfill is not deduplicated against its last job
+        jobId: `backfill-${backfillId}-${Date.now()}`,
+        attempts: 5,
+        backoff: {
+          type: 'exponential',
+          delay: 60000, // Rate limits need minutes, not seconds
+        },
+      }
+    )
+
+    console.log(`📋 [ProfileBackfillQueue] Backfill queued: ${backfillId}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<ProfileBackfillJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [ProfileBackfillQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const profileBackfillQueue = new ProfileBackfillQueue()
+export default ProfileBackfillQueue
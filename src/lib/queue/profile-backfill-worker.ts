@@ -0,0 +1,119 @@
+/**
+ * Profile Backfill Worker
+ *
+ * Background worker that walks profiles' full post history page by page
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { profileBackfillService } from '../profile-backfill-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  ProfileBackfillJobData,
+  ProfileBackfillJobResult
+} from './config'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class ProfileBackfillWorker {
+  private worker: Worker<ProfileBackfillJobData, ProfileBackfillJobResult>
+  private queue: Queue<ProfileBackfillJobData>
+
+  constructor() {
+    console.log('🏗️ [ProfileBackfillWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // One profile at a time keeps API usage predictable
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.PROFILE_BACKFILL, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.PROFILE_BACKFILL,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [ProfileBackfillWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.PROFILE_BACKFILL)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [ProfileBackfillWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('active', (job) => {
+      console.log(`🔄 [ProfileBackfillWorker] Processing job ${job.id}: ${job.data.backfillId}`)
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [ProfileBackfillWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [ProfileBackfillWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.PROFILE_BACKFILL, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [ProfileBackfillWorker] Worker error:', err)
+    })
+
+    this.worker.on('stalled', (jobId) => {
+      console.warn(`⚠️ [ProfileBackfillWorker] Job ${jobId} stalled`)
+    })
+
+    console.log('🎧 [ProfileBackfillWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<ProfileBackfillJobData>
+  ): Promise<ProfileBackfillJobResult> {
+    const { backfillId } = job.data
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.PROFILE_BACKFILL, job.id!, job.data)
+
+    const result = await profileBackfillService.processBackfill(backfillId, {
+      isFinalAttempt: job.attemptsMade + 1 >= (job.opts.attempts ?? 1)
+    })
+
+    return {
+      success: true,
+      backfillId,
+      status: result.status,
+      pagesScraped: result.pagesScraped,
+      newPosts: result.newPosts,
+      stopReason: result.stopReason,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [ProfileBackfillWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    console.log('✅ [ProfileBackfillWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<ProfileBackfillJobData, ProfileBackfillJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const profileBackfillWorker = new ProfileBackfillWorker()
+export default ProfileBackfillWorker
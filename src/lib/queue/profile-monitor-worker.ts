@@ -6,8 +6,10 @@
 
 import { Worker, Job, Queue } from 'bullmq'
 import { PrismaClient } from '@/generated/prisma'
-import { scrapeProfileVideos } from '../tiktok-scraping'
+import { scrapeProfileVideos, scrapeProfileInfo, type ProfileInfo } from '../tiktok-scraping'
 import { TikTokBulkUpsertService } from '../tiktok-bulk-upsert-service'
+import { outlierService } from '../outlier-service'
+import { calculateNextMonitoringRun } from '../monitoring-schedule'
 import {
   QUEUE_NAMES,
   defaultWorkerOptions,
@@ -16,6 +18,8 @@ import {
 } from './config'
 import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
 
+const MAX_INT32 = 2147483647
+
 class ProfileMonitorWorker {
   private worker: Worker<ProfileMonitorJobData, ProfileMonitorJobResult>
   private queue: Queue<ProfileMonitorJobData>
@@ -126,6 +130,10 @@ class ProfileMonitorWorker {
 
     console.log(`📝 [ProfileMonitorWorker] Created monitoring log: ${monitoringLog.id}`)
 
+    // Progress so far, recorded on the log even when a later page fails
+    let pagesScraped = 0
+    let maxCursor: string | undefined = undefined
+
     try {
       // Fetch profile to get handle
       const profile = await this.prisma.tiktokProfile.findUnique({
@@ -138,9 +146,10 @@ class ProfileMonitorWorker {
 
       console.log(`👤 [ProfileMonitorWorker] Monitoring profile: @${profile.handle}`)
 
+      // Snapshot follower/heart/video counts for growth tracking
+      const profileStats = await this.recordProfileMetrics(profileId, profile.handle)
+
       let totalPostsScraped = 0
-      let pagesScraped = 0
-      let maxCursor: string | undefined = undefined
       let hasMore = true
 
       // Loop through all pages
@@ -185,10 +194,10 @@ class ProfileMonitorWorker {
             avatar: result.profile?.avatar || undefined,
             bio: result.profile?.bio || profile.bio,
             verified: result.profile?.verified ?? profile.verified,
-            followerCount: profile.followerCount,
-            followingCount: profile.followingCount,
-            videoCount: profile.videoCount,
-            likeCount: profile.likeCount
+            followerCount: profileStats?.followerCount ?? profile.followerCount,
+            followingCount: profileStats?.followingCount ?? profile.followingCount,
+            videoCount: profileStats?.videoCount ?? profile.videoCount,
+            likeCount: profileStats?.likeCount ?? profile.likeCount
           }
 
           const postsForUpsert = result.posts.map(post => ({
@@ -211,6 +220,9 @@ class ProfileMonitorWorker {
             videoUrl: post.videoUrl,
             coverUrl: post.coverUrl,
             musicUrl: post.musicUrl,
+            musicTiktokId: post.musicTiktokId,
+            musicTitle: post.musicTitle,
+            musicAuthor: post.musicAuthor,
             images: post.images,
             publishedAt: post.publishedAt instanceof Date ? post.publishedAt.toISOString() : post.publishedAt
           }))
@@ -276,13 +288,21 @@ class ProfileMonitorWorker {
           status: 'completed',
           completedAt: new Date(),
           postsScraped: totalPostsScraped,
-          pagesScraped
+          pagesScraped,
+          maxCursor
         }
       })
 
-      // Update profile with last monitoring run and next scheduled run (24 hours from now)
-      const nextRun = new Date()
-      nextRun.setHours(nextRun.getHours() + 24)
+      // Re-score posts against the author's refreshed baseline
+      try {
+        await outlierService.scoreProfilePosts(profileId)
+      } catch (scoreError) {
+        console.error(`❌ [ProfileMonitorWorker] Failed to score outliers for @${profile.handle}:`, scoreError)
+        // Scores are refreshed again on the next run
+      }
+
+      // Update profile with last monitoring run and next scheduled run (per-profile cadence)
+      const { nextRun, viewsPerHour } = await calculateNextMonitoringRun(this.prisma, profileId)
 
       await this.prisma.tiktokProfile.update({
         where: { id: profileId },
@@ -296,7 +316,8 @@ class ProfileMonitorWorker {
       console.log(`✅ [ProfileMonitorWorker] Successfully monitored profile @${profile.handle}:`, {
         postsScraped: totalPostsScraped,
         pagesScraped,
-        nextRun: nextRun.toISOString()
+        nextRun: nextRun.toISOString(),
+        viewsPerHour: Math.round(viewsPerHour)
       })
 
       return {
@@ -325,6 +346,8 @@ class ProfileMonitorWorker {
           data: {
             status: 'failed',
             completedAt: new Date(),
+            pagesScraped,
+            maxCursor,
             error: errorMessage
           }
         })
@@ -341,6 +364,50 @@ class ProfileMonitorWorker {
     }
   }
 
+  /**
+   * Fetch profile-level stats, store them on the profile and append a history
+   * snapshot. Failures are logged and skipped so post monitoring still runs.
+   */
+  private async recordProfileMetrics(profileId: string, handle: string): Promise<ProfileInfo | null> {
+    try {
+      const stats = await scrapeProfileInfo(handle)
+
+      await this.prisma.$transaction([
+        this.prisma.tikTokProfileMetricsHistory.create({
+          data: {
+            profileId,
+            followerCount: stats.followerCount,
+            followingCount: stats.followingCount,
+            likeCount: BigInt(stats.likeCount),
+            videoCount: stats.videoCount,
+            recordedAt: new Date()
+          }
+        }),
+        this.prisma.tiktokProfile.update({
+          where: { id: profileId },
+          data: {
+            followerCount: stats.followerCount,
+            followingCount: stats.followingCount,
+            videoCount: stats.videoCount,
+            // Int column; the history row keeps hearts past 2^31 exactly
+            likeCount: Math.min(stats.likeCount, MAX_INT32)
+          }
+        })
+      ])
+
+      console.log(`📈 [ProfileMonitorWorker] Recorded profile stats for @${handle}:`, {
+        followers: stats.followerCount,
+        likes: stats.likeCount,
+        videos: stats.videoCount
+      })
+
+      return stats
+    } catch (error) {
+      console.warn(`⚠️ [ProfileMonitorWorker] Failed to record profile stats for @${handle}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
   /**
    * Save current metrics to history before upserting new data
    */
@@ -0,0 +1,133 @@
+/**
+ * Publish Queue
+ *
+ * Manages delayed jobs that publish scheduled remixes to TikTok upload accounts
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, PublishJobData, isBuildTime } from './config'
+
+export const PUBLISH_MAX_ATTEMPTS = 3
+
+class PublishQueue {
+  private queue: Queue<PublishJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [PublishQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.PUBLISH, getDefaultQueueOptions())
+  }
+
+  private jobId(scheduledPublishId: string): string {
+    return `publish-${scheduledPublishId}`
+  }
+
+  /**
+   * Add a publish job that runs at the scheduled time.
+   * Replaces any existing job for the same scheduled publish.
+   */
+  async addPublishJob(scheduledPublishId: string, scheduledFor: Date): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [PublishQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.removePublishJob(scheduledPublishId)
+
+    const delay = Math.max(0, scheduledFor.getTime() - Date.now())
+    console.log(`📋 [PublishQueue] Scheduling publish ${scheduledPublishId} in ${Math.round(delay / 1000)}s`)
+
+    await this.queue.add(
+      'publish-remix',
+      { scheduledPublishId },
+      {
+        delay,
+        jobId: this.jobId(scheduledPublishId), // One job per scheduled publish
+        attempts: PUBLISH_MAX_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 60000, // Upload failures are usually rate limits or TikTok outages
+        },
+      }
+    )
+
+    console.log(`✅ [PublishQueue] Publish job added for: ${scheduledPublishId}`)
+  }
+
+  /**
+   * Remove a pending publish job (cancel / reschedule)
+   */
+  async removePublishJob(scheduledPublishId: string): Promise<void> {
+    if (!this.queue) return
+
+    const job = await this.queue.getJob(this.jobId(scheduledPublishId))
+    if (!job) return
+
+    const state = await job.getState()
+    if (state === 'active') {
+      console.warn(`⚠️ [PublishQueue] Publish ${scheduledPublishId} is already running, not removing`)
+      return
+    }
+
+    await job.remove()
+    console.log(`🗑️ [PublishQueue] Removed publish job for: ${scheduledPublishId}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Clear all jobs in the queue
+   */
+  async clearQueue(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.obliterate({ force: true })
+    console.log(`🗑️ [PublishQueue] Queue cleared`)
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<PublishJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [PublishQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const publishQueue = new PublishQueue()
+export default PublishQueue
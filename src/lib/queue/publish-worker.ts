@@ -0,0 +1,119 @@
+/**
+ * Publish Worker
+ *
+ * Background worker that publishes scheduled remixes to TikTok
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { publishService } from '../publish-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  PublishJobData,
+  PublishJobResult
+} from './config'
+import { PUBLISH_MAX_ATTEMPTS } from './publish-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class PublishWorker {
+  private worker: Worker<PublishJobData, PublishJobResult>
+  private queue: Queue<PublishJobData>
+
+  constructor() {
+    console.log('🏗️ [PublishWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Renders are heavy and TikTok rate-limits uploads per account
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.PUBLISH, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.PUBLISH,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [PublishWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.PUBLISH)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [PublishWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('active', (job) => {
+      console.log(`🔄 [PublishWorker] Processing job ${job.id}: ${job.data.scheduledPublishId} (attempt ${job.attemptsMade + 1})`)
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [PublishWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [PublishWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.PUBLISH, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [PublishWorker] Worker error:', err)
+    })
+
+    this.worker.on('stalled', (jobId) => {
+      console.warn(`⚠️ [PublishWorker] Job ${jobId} stalled`)
+    })
+
+    console.log('🎧 [PublishWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<PublishJobData>
+  ): Promise<PublishJobResult> {
+    const { scheduledPublishId } = job.data
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.PUBLISH, job.id!, job.data)
+
+    const maxAttempts = job.opts.attempts ?? PUBLISH_MAX_ATTEMPTS
+    const isFinalAttempt = job.attemptsMade + 1 >= maxAttempts
+
+    // Errors propagate so BullMQ retries with backoff
+    const published = await publishService.processScheduledPublish(scheduledPublishId, { isFinalAttempt })
+
+    return {
+      success: published.status === 'PUBLISHED',
+      scheduledPublishId,
+      publishId: published.publishId ?? undefined,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [PublishWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    console.log('✅ [PublishWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<PublishJobData, PublishJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const publishWorker = new PublishWorker()
+export default PublishWorker
@@ -0,0 +1,100 @@
+/**
+ * Render Queue
+ *
+ * Queues server-side rendering of a remix's slides to images
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, RenderJobData, isBuildTime } from './config'
+
+// Edits arrive in bursts while a draft is open in the editor
+const RENDER_DEBOUNCE_MS = 30000
+
+class RenderQueue {
+  private queue: Queue<RenderJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [RenderQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.RENDER, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue a render of every slide of a remix. Repeated calls for the same
+   * remix within the debounce window collapse into one job.
+   */
+  async addRenderJob(remixId: string, options: { format?: 'png' | 'jpeg'; debounce?: boolean } = {}): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [RenderQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    const { format, debounce = false } = options
+    const delay = debounce ? RENDER_DEBOUNCE_MS : 0
+
+    await this.queue.add(
+      'render-remix',
+      { remixId, format },
+      {
+        delay,
+        deduplication: {
+          id: `render-${remixId}-${format ?? 'default'}`,
+          ttl: Math.max(delay, 1000),
+          extend: debounce,
+          replace: debounce,
+        },
+      }
+    )
+
+    console.log(`📋 [RenderQueue] Render queued for remix: ${remixId}${debounce ? ` (in ${RENDER_DEBOUNCE_MS / 1000}s)` : ''}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<RenderJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [RenderQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const renderQueue = new RenderQueue()
+export default RenderQueue
@@ -0,0 +1,115 @@
+/**
+ * Render Worker
+ *
+ * Background worker that renders remix slides to images and stores them in R2
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { remixRenderService } from '../remix-render-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  RenderJobData,
+  RenderJobResult
+} from './config'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class RenderWorker {
+  private worker: Worker<RenderJobData, RenderJobResult>
+  private queue: Queue<RenderJobData>
+
+  constructor() {
+    console.log('🏗️ [RenderWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Satori + resvg renders are CPU heavy
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.RENDER, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.RENDER,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [RenderWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.RENDER)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [RenderWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('active', (job) => {
+      console.log(`🔄 [RenderWorker] Processing job ${job.id}: ${job.data.remixId}`)
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [RenderWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [RenderWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.RENDER, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [RenderWorker] Worker error:', err)
+    })
+
+    this.worker.on('stalled', (jobId) => {
+      console.warn(`⚠️ [RenderWorker] Job ${jobId} stalled`)
+    })
+
+    console.log('🎧 [RenderWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<RenderJobData>
+  ): Promise<RenderJobResult> {
+    const { remixId, format } = job.data
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.RENDER, job.id!, job.data)
+
+    const result = await remixRenderService.renderRemix(remixId, { format })
+
+    return {
+      success: true,
+      remixId,
+      slidesRendered: result.slidesRendered,
+      slidesReused: result.slidesReused,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [RenderWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    console.log('✅ [RenderWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<RenderJobData, RenderJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const renderWorker = new RenderWorker()
+export default RenderWorker
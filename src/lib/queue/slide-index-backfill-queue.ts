@@ -0,0 +1,85 @@
+/**
+ * Slide Index Backfill Queue
+ *
+ * Manages the chained batches that index existing posts and remixes into the
+ * content ideas library
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, SlideIndexBackfillJobData, isBuildTime } from './config'
+
+// Posts or remixes indexed per job
+export const SLIDE_INDEX_BACKFILL_BATCH_SIZE = 100
+
+class SlideIndexBackfillQueue {
+  private queue: Queue<SlideIndexBackfillJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [SlideIndexBackfillQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.SLIDE_INDEX_BACKFILL, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue a backfill batch. Without a cursor the source is indexed from the start;
+   * the worker queues the following batch itself.
+   */
+  async addBackfillJob(data: SlideIndexBackfillJobData): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [SlideIndexBackfillQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'slide-index-backfill',
+      { batchSize: SLIDE_INDEX_BACKFILL_BATCH_SIZE, ...data },
+      {
+        jobId: `slide-index-backfill-${data.source}-${data.cursor ?? 'start'}-${Date.now()}`,
+      }
+    )
+
+    console.log(`📋 [SlideIndexBackfillQueue] Backfill batch queued for ${data.source}${data.cursor ? ` after ${data.cursor}` : ''}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [SlideIndexBackfillQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const slideIndexBackfillQueue = new SlideIndexBackfillQueue()
+export default SlideIndexBackfillQueue
@@ -0,0 +1,122 @@
+/**
+ * Slide Index Backfill Worker
+ *
+ * Background worker that indexes existing scraped posts and remixes into the
+ * content ideas library one batch at a time. Each job queues the next batch;
+ * posts are indexed first, then remixes, then every category is recounted.
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { slideIndexService } from '../slide-index-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  SlideIndexBackfillJobData,
+  SlideIndexBackfillJobResult
+} from './config'
+import { slideIndexBackfillQueue, SLIDE_INDEX_BACKFILL_BATCH_SIZE } from './slide-index-backfill-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class SlideIndexBackfillWorker {
+  private worker: Worker<SlideIndexBackfillJobData, SlideIndexBackfillJobResult>
+  private queue: Queue<SlideIndexBackfillJobData>
+
+  constructor() {
+    console.log('🏗️ [SlideIndexBackfillWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Batches run one after another
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.SLIDE_INDEX_BACKFILL, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.SLIDE_INDEX_BACKFILL,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [SlideIndexBackfillWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.SLIDE_INDEX_BACKFILL)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [SlideIndexBackfillWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [SlideIndexBackfillWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [SlideIndexBackfillWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.SLIDE_INDEX_BACKFILL, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [SlideIndexBackfillWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [SlideIndexBackfillWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<SlideIndexBackfillJobData>
+  ): Promise<SlideIndexBackfillJobResult> {
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.SLIDE_INDEX_BACKFILL, job.id!, job.data)
+
+    const { source, cursor = null, batchSize = SLIDE_INDEX_BACKFILL_BATCH_SIZE } = job.data
+    console.log(`📚 [SlideIndexBackfillWorker] Indexing ${source}${cursor ? ` after ${cursor}` : ' from the start'}`)
+
+    const { processed, rowsIndexed, nextCursor } = await slideIndexService.backfillBatch(source, cursor, batchSize)
+
+    if (nextCursor) {
+      await slideIndexBackfillQueue.addBackfillJob({ source, cursor: nextCursor, batchSize })
+    } else if (source === 'posts') {
+      await slideIndexBackfillQueue.addBackfillJob({ source: 'remixes', batchSize })
+    } else {
+      await slideIndexService.recountCategories()
+      console.log('🏁 [SlideIndexBackfillWorker] Backfill finished, category counts recomputed')
+    }
+
+    return {
+      success: true,
+      source,
+      processed,
+      rowsIndexed,
+      nextCursor,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [SlideIndexBackfillWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await slideIndexBackfillQueue.close()
+    console.log('✅ [SlideIndexBackfillWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<SlideIndexBackfillJobData, SlideIndexBackfillJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const slideIndexBackfillWorker = new SlideIndexBackfillWorker()
+export default SlideIndexBackfillWorker
@@ -0,0 +1,79 @@
+/**
+ * Trend Refresh Queue
+ *
+ * Manages the recurring sound/hashtag trend stats sweep
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, TrendRefreshJobData, isBuildTime } from './config'
+
+export const TREND_REFRESH_SCHEDULER_ID = 'trend-refresh-sweep'
+
+// How often usage counts and momentum are recomputed
+export const TREND_REFRESH_INTERVAL_MS =
+  parseInt(process.env.TREND_REFRESH_INTERVAL_MINUTES || '60') * 60 * 1000
+
+class TrendRefreshQueue {
+  private queue: Queue<TrendRefreshJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [TrendRefreshQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.TREND_REFRESH, getDefaultQueueOptions())
+  }
+
+  /**
+   * Register (or update) the repeating trend refresh sweep
+   */
+  async scheduleRecurringSweep(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [TrendRefreshQueue] Queue not initialized, skipping scheduler')
+      return
+    }
+
+    await this.queue.upsertJobScheduler(
+      TREND_REFRESH_SCHEDULER_ID,
+      { every: TREND_REFRESH_INTERVAL_MS },
+      { name: 'trend-refresh-sweep', data: {} }
+    )
+
+    console.log(`⏰ [TrendRefreshQueue] Sweep scheduled every ${TREND_REFRESH_INTERVAL_MS / 60000} minutes`)
+  }
+
+  /**
+   * Queue a one-off refresh (e.g. from the trending page)
+   */
+  async addRefreshJob(): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [TrendRefreshQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'trend-refresh',
+      {},
+      {
+        jobId: `trend-refresh-${Date.now()}`,
+        attempts: 1, // The next sweep retries anyway
+      }
+    )
+
+    console.log(`📋 [TrendRefreshQueue] Trend refresh queued`)
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [TrendRefreshQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const trendRefreshQueue = new TrendRefreshQueue()
+export default TrendRefreshQueue
@@ -0,0 +1,116 @@
+/**
+ * Trend Refresh Worker
+ *
+ * Background worker that indexes posts missing from the sound/hashtag index
+ * and recomputes usage counts and momentum for every sound and hashtag.
+ * Registers its own repeating sweep on startup.
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { trendIndexService } from '../trend-index-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  TrendRefreshJobData,
+  TrendRefreshJobResult
+} from './config'
+import { trendRefreshQueue } from './trend-refresh-queue'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class TrendRefreshWorker {
+  private worker: Worker<TrendRefreshJobData, TrendRefreshJobResult>
+  private queue: Queue<TrendRefreshJobData>
+
+  constructor() {
+    console.log('🏗️ [TrendRefreshWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // Sweeps must not overlap
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.TREND_REFRESH, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.TREND_REFRESH,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [TrendRefreshWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.TREND_REFRESH)
+
+    trendRefreshQueue.scheduleRecurringSweep().catch((error) => {
+      console.error('❌ [TrendRefreshWorker] Failed to schedule recurring sweep:', error)
+    })
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [TrendRefreshWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [TrendRefreshWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [TrendRefreshWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.TREND_REFRESH, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [TrendRefreshWorker] Worker error:', err)
+    })
+
+    console.log('🎧 [TrendRefreshWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<TrendRefreshJobData>
+  ): Promise<TrendRefreshJobResult> {
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.TREND_REFRESH, job.id!, job.data)
+
+    console.log(`📈 [TrendRefreshWorker] Refreshing sound and hashtag trends`)
+
+    const postsIndexed = await trendIndexService.indexPendingPosts(job.data.indexLimit)
+    const { soundsUpdated, hashtagsUpdated } = await trendIndexService.refreshTrendStats()
+
+    return {
+      success: true,
+      postsIndexed,
+      soundsUpdated,
+      hashtagsUpdated,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [TrendRefreshWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    await trendRefreshQueue.close()
+    console.log('✅ [TrendRefreshWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<TrendRefreshJobData, TrendRefreshJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const trendRefreshWorker = new TrendRefreshWorker()
+export default TrendRefreshWorker
@@ -0,0 +1,88 @@
+/**
+ * Video Export Queue
+ *
+ * Queues MP4 slideshow exports of remixes
+ */
+
+import { Queue } from 'bullmq'
+import { QUEUE_NAMES, getDefaultQueueOptions, VideoExportJobData, isBuildTime } from './config'
+
+class VideoExportQueue {
+  private queue: Queue<VideoExportJobData> | null = null
+
+  constructor() {
+    // Skip queue creation during build
+    if (isBuildTime) {
+      console.log('⏭️ [VideoExportQueue] Skipping queue creation during build')
+      return
+    }
+    this.queue = new Queue(QUEUE_NAMES.VIDEO_EXPORT, getDefaultQueueOptions())
+  }
+
+  /**
+   * Queue encoding of a recorded VideoExport
+   */
+  async addVideoExportJob(exportId: string): Promise<void> {
+    if (!this.queue) {
+      console.warn('⚠️ [VideoExportQueue] Queue not initialized, skipping job')
+      return
+    }
+
+    await this.queue.add(
+      'export-video',
+      { exportId },
+      {
+        jobId: `video-export-${exportId}`,
+        attempts: 2, // ffmpeg failures are rarely transient
+      }
+    )
+
+    console.log(`📋 [VideoExportQueue] Video export queued: ${exportId}`)
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats() {
+    if (!this.queue) {
+      return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0, total: 0 }
+    }
+
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaiting(),
+      this.queue.getActive(),
+      this.queue.getCompleted(),
+      this.queue.getFailed(),
+      this.queue.getDelayed(),
+    ])
+
+    return {
+      waiting: waiting.length,
+      active: active.length,
+      completed: completed.length,
+      failed: failed.length,
+      delayed: delayed.length,
+      total: waiting.length + active.length + completed.length + failed.length + delayed.length,
+    }
+  }
+
+  /**
+   * Get the underlying BullMQ queue instance
+   */
+  getQueue(): Queue<VideoExportJobData> | null {
+    return this.queue
+  }
+
+  /**
+   * Close the queue connection
+   */
+  async close(): Promise<void> {
+    if (!this.queue) return
+    await this.queue.close()
+    console.log(`🔌 [VideoExportQueue] Queue connection closed`)
+  }
+}
+
+// Export singleton instance
+export const videoExportQueue = new VideoExportQueue()
+export default VideoExportQueue
@@ -0,0 +1,115 @@
+/**
+ * Video Export Worker
+ *
+ * Background worker that encodes remixes into MP4 slideshows with ffmpeg
+ */
+
+import { Worker, Job, Queue } from 'bullmq'
+import { videoExportService } from '../video-export-service'
+import {
+  QUEUE_NAMES,
+  getDefaultWorkerOptions,
+  VideoExportJobData,
+  VideoExportJobResult
+} from './config'
+import { setJobContext, captureJobError, setupQueueSentryListeners } from '../sentry-worker'
+
+class VideoExportWorker {
+  private worker: Worker<VideoExportJobData, VideoExportJobResult>
+  private queue: Queue<VideoExportJobData>
+
+  constructor() {
+    console.log('🏗️ [VideoExportWorker] Initializing worker...')
+
+    const workerOptions = {
+      ...getDefaultWorkerOptions(),
+      concurrency: 1, // ffmpeg encodes use every core
+    }
+
+    this.queue = new Queue(QUEUE_NAMES.VIDEO_EXPORT, workerOptions)
+    this.worker = new Worker(
+      QUEUE_NAMES.VIDEO_EXPORT,
+      this.processJob.bind(this),
+      workerOptions
+    )
+
+    console.log('✅ [VideoExportWorker] Worker instance created')
+
+    // Set up event listeners
+    this.setupEventListeners()
+
+    // Setup Sentry monitoring for this queue
+    setupQueueSentryListeners(this.queue, QUEUE_NAMES.VIDEO_EXPORT)
+  }
+
+  private setupEventListeners(): void {
+    this.worker.on('ready', () => {
+      console.log('🚀 [VideoExportWorker] Worker is ready and waiting for jobs')
+    })
+
+    this.worker.on('active', (job) => {
+      console.log(`🔄 [VideoExportWorker] Processing job ${job.id}: ${job.data.exportId}`)
+    })
+
+    this.worker.on('completed', (job, result) => {
+      console.log(`✅ [VideoExportWorker] Job ${job.id} completed:`, result)
+    })
+
+    this.worker.on('failed', (job, err) => {
+      console.error(`❌ [VideoExportWorker] Job ${job?.id} failed:`, err)
+      // Capture error in Sentry with job context
+      if (job) {
+        captureJobError(err, QUEUE_NAMES.VIDEO_EXPORT, job.id!, job.data)
+      }
+    })
+
+    this.worker.on('error', (err) => {
+      console.error('❌ [VideoExportWorker] Worker error:', err)
+    })
+
+    this.worker.on('stalled', (jobId) => {
+      console.warn(`⚠️ [VideoExportWorker] Job ${jobId} stalled`)
+    })
+
+    console.log('🎧 [VideoExportWorker] Event listeners registered')
+  }
+
+  private async processJob(
+    job: Job<VideoExportJobData>
+  ): Promise<VideoExportJobResult> {
+    const { exportId } = job.data
+
+    // Set Sentry context for this job
+    setJobContext(QUEUE_NAMES.VIDEO_EXPORT, job.id!, job.data)
+
+    const result = await videoExportService.processExport(exportId)
+
+    return {
+      success: true,
+      exportId,
+      cacheAssetId: result.cacheAssetId,
+      durationSeconds: result.durationSeconds,
+    }
+  }
+
+  /**
+   * Gracefully close the worker
+   */
+  async close(): Promise<void> {
+    console.log('🛑 [VideoExportWorker] Closing worker...')
+    await this.worker.close()
+    await this.queue.close()
+    console.log('✅ [VideoExportWorker] Worker closed successfully')
+  }
+
+  /**
+   * Get worker instance for monitoring
+   */
+  getWorker(): Worker<VideoExportJobData, VideoExportJobResult> {
+    return this.worker
+  }
+}
+
+// Export singleton instance
+export const videoExportWorker = new VideoExportWorker()
+export default VideoExportWorker
@@ -87,6 +87,40 @@ export async function deleteCachedData(endpoint: string, params?: Record<string,
   }
 }
 
+/**
+ * Increment a counter whose window starts at its first increment and lasts
+ * `windowSeconds`. Returns the new count and the seconds left in the window.
+ * Unlike the cache helpers this throws when Redis is unavailable.
+ */
+export async function incrementCounter(
+  key: string,
+  windowSeconds: number
+): Promise<{ count: number; ttlSeconds: number }> {
+  const client = await getRedisClient()
+
+  const count = await client.incr(key)
+  if (count === 1) {
+    await client.expire(key, windowSeconds)
+  }
+
+  return { count, ttlSeconds: await client.ttl(key) }
+}
+
+/**
+ * Current value of a counter and the seconds left in its window (0 when unset)
+ */
+export async function getCounter(key: string): Promise<{ count: number; ttlSeconds: number }> {
+  const client = await getRedisClient()
+
+  const [value, ttlSeconds] = await Promise.all([client.get(key), client.ttl(key)])
+  return { count: typeof value === 'string' ? parseInt(value, 10) : 0, ttlSeconds: Math.max(ttlSeconds, 0) }
+}
+
+export async function deleteCounter(key: string): Promise<void> {
+  const client = await getRedisClient()
+  await client.del(key)
+}
+
 export async function clearAllCache(): Promise<void> {
   try {
     const client = await getRedisClient()
@@ -0,0 +1,201 @@
+/**
+ * Remix Comment Service
+ *
+ * Threaded review comments on RemixPosts. A thread starts with a root
+ * comment, optionally anchored to a slide (by id, with its position as a
+ * fallback) or to a text box on that slide. Replies inherit the thread's
+ * anchor; resolving applies to the whole thread.
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+import type { AuthUser } from './auth-service'
+import { parseSlides } from './remix-revision-service'
+
+export interface AddCommentInput {
+  remixId: string
+  authorId: string
+  body: string
+  parentId?: string | null
+  slideId?: string | null
+  slideIndex?: number | null
+  textBoxId?: string | null
+}
+
+const authorSelect = { id: true, name: true, email: true } as const
+
+const commentInclude = {
+  author: { select: authorSelect },
+  resolvedBy: { select: authorSelect }
+} as const
+
+class RemixCommentService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Threads of a draft, oldest first, each with its replies
+   */
+  async listThreads(remixId: string, options: { includeResolved?: boolean } = {}) {
+    return this.prisma.remixComment.findMany({
+      where: {
+        remixId,
+        parentId: null,
+        ...(!options.includeResolved && { resolvedAt: null })
+      },
+      include: {
+        ...commentInclude,
+        replies: {
+          include: commentInclude,
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  async addComment(input: AddCommentInput) {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: input.remixId },
+      select: { id: true, slides: true }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${input.remixId}`)
+    }
+
+    if (input.parentId) {
+      const parent = await this.prisma.remixComment.findFirst({
+        where: { id: input.parentId, remixId: input.remixId }
+      })
+
+      if (!parent) {
+        throw new Error(`Comment not found: ${input.parentId}`)
+      }
+
+      // Replies always attach to the thread root and share its anchor
+      const root = parent.parentId
+        ? await this.prisma.remixComment.findUniqueOrThrow({ where: { id: parent.parentId } })
+        : parent
+
+      return this.prisma.remixComment.create({
+        data: {
+          remixId: input.remixId,
+          parentId: root.id,
+          slideId: root.slideId,
+          slideIndex: root.slideIndex,
+          textBoxId: root.textBoxId,
+          body: input.body,
+          authorId: input.authorId
+        },
+        include: commentInclude
+      })
+    }
+
+    const anchor = this.resolveAnchor(parseSlides(remix.slides), input)
+
+    return this.prisma.remixComment.create({
+      data: {
+        remixId: input.remixId,
+        ...anchor,
+        body: input.body,
+        authorId: input.authorId
+      },
+      include: commentInclude
+    })
+  }
+
+  /**
+   * Edit a comment's body (author only) or resolve/reopen a thread
+   */
+  async updateComment(
+    remixId: string,
+    commentId: string,
+    user: AuthUser,
+    data: { body?: string; resolved?: boolean }
+  ) {
+    const comment = await this.getComment(remixId, commentId)
+
+    if (data.body !== undefined && comment.authorId !== user.id) {
+      throw new Error('Only the author can edit a comment')
+    }
+
+    if (data.resolved !== undefined && comment.parentId) {
+      throw new Error('Only threads can be resolved, not replies')
+    }
+
+    return this.prisma.remixComment.update({
+      where: { id: commentId },
+      data: {
+        ...(data.body !== undefined && { body: data.body }),
+        ...(data.resolved !== undefined && {
+          resolvedAt: data.resolved ? new Date() : null,
+          resolvedById: data.resolved ? user.id : null
+        })
+      },
+      include: commentInclude
+    })
+  }
+
+  /**
+   * Delete a comment (and its replies, for a thread root)
+   */
+  async deleteComment(remixId: string, commentId: string, user: AuthUser): Promise<void> {
+    const comment = await this.getComment(remixId, commentId)
+
+    if (comment.authorId !== user.id && user.role !== 'admin') {
+      throw new Error('Only the author or an admin can delete a comment')
+    }
+
+    await this.prisma.remixComment.delete({ where: { id: commentId } })
+  }
+
+  private async getComment(remixId: string, commentId: string) {
+    const comment = await this.prisma.remixComment.findFirst({
+      where: { id: commentId, remixId }
+    })
+
+    if (!comment) {
+      throw new Error(`Comment not found: ${commentId}`)
+    }
+
+    return comment
+  }
+
+  /**
+   * Fill in the slide id from its position or vice versa, and check the text
+   * box belongs to the slide
+   */
+  private resolveAnchor(slides: Array<Record<string, any>>, input: AddCommentInput) {
+    if (input.slideId == null && input.slideIndex == null) {
+      if (input.textBoxId) {
+        throw new Error('A text box anchor needs a slide')
+      }
+      return { slideId: null, slideIndex: null, textBoxId: null }
+    }
+
+    const slideIndex = input.slideId
+      ? slides.findIndex(slide => slide?.id === input.slideId)
+      : input.slideIndex!
+
+    const slide = slides[slideIndex]
+    if (!slide) {
+      throw new Error(`Slide not found: ${input.slideId ?? input.slideIndex}`)
+    }
+
+    if (input.textBoxId && !(slide.textBoxes ?? []).some((box: { id?: string }) => box?.id === input.textBoxId)) {
+      throw new Error(`Text box not found: ${input.textBoxId}`)
+    }
+
+    return {
+      slideId: slide.id ?? null,
+      slideIndex,
+      textBoxId: input.textBoxId ?? null
+    }
+  }
+}
+
+// Export singleton instance
+export const remixCommentService = new RemixCommentService()
@@ -6,6 +6,7 @@
 
 import { PrismaClient } from '@/generated/prisma'
 import { cacheAssetService } from './cache-asset-service'
+import { fontLoader, type PoppinsStyle, type PoppinsWeight } from './font-loader'
 import JSZip from 'jszip'
 
 const prisma = new PrismaClient()
@@ -153,6 +154,14 @@ function degToRad(degrees: number = 0) {
   return degrees * DEG_TO_RAD
 }
 
+// Keyword font weights as the numeric weights of the Poppins files
+const FONT_WEIGHT_KEYWORDS: Record<string, number> = { normal: 400, bold: 700, bolder: 800, lighter: 300 }
+
+function toNumericWeight(value?: string): PoppinsWeight {
+  const weight = FONT_WEIGHT_KEYWORDS[value ?? ''] ?? parseInt(value ?? '', 10)
+  return (weight >= 100 && weight <= 900 ? Math.round(weight / 100) * 100 : 400) as PoppinsWeight
+}
+
 function hexToRgba(hex: string, alpha = 1): string {
   if (!hex) {
     return `rgba(0, 0, 0, ${alpha})`
@@ -188,6 +197,7 @@ function drawRoundedRect(ctx: any, x: number, y: number, width: number, height:
 export class RemixExportService {
   private canvas: any = null
   private ctx: any = null
+  private registeredFonts = new Set<string>()
 
   async initCanvas() {
     if (!this.canvas) {
@@ -328,16 +338,18 @@ export class RemixExportService {
             const halfH = baseHeight / 2
 
             if (gradientConfig.type === 'linear') {
+              // CSS angles, as in the editor and Satori: 0deg points up, 90deg
+              // right, and the gradient line reaches the box's corners
               const angle = degToRad(gradientConfig.angle || 0)
-              const x1 = -Math.cos(angle) * halfW
-              const y1 = -Math.sin(angle) * halfH
-              const x2 = Math.cos(angle) * halfW
-              const y2 = Math.sin(angle) * halfH
-              gradient = this.ctx.createLinearGradient(x1, y1, x2, y2)
+              const dx = Math.sin(angle)
+              const dy = -Math.cos(angle)
+              const halfLength = Math.abs(halfW * dx) + Math.abs(halfH * dy)
+              gradient = this.ctx.createLinearGradient(-dx * halfLength, -dy * halfLength, dx * halfLength, dy * halfLength)
             } else {
               const centerX = (gradientConfig.centerX ?? 0.5) * baseWidth - halfW
               const centerY = (gradientConfig.centerY ?? 0.5) * baseHeight - halfH
-              const radius = Math.max(baseWidth, baseHeight) / 2
+              // A CSS `circle` gradient ends at the farthest corner
+              const radius = Math.hypot(halfW + Math.abs(centerX), halfH + Math.abs(centerY))
               gradient = this.ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius)
             }
 
@@ -431,9 +443,9 @@ export class RemixExportService {
 
     const fontSize = textBox.fontSize || 24
     const fontFamily = textBox.fontFamily || 'Arial'
-    const weightValue = textBox.fontWeight || '400'
-    const fontWeight = ['bold', 'bolder', '600', '700', '800', '900'].includes(weightValue) ? 'bold' : weightValue
+    const fontWeight = toNumericWeight(textBox.fontWeight)
     const fontStyle = textBox.fontStyle === 'italic' ? 'italic' : 'normal'
+    await this.ensureFont(fontFamily, fontWeight, fontStyle)
     const lineHeight = fontSize * (textBox.lineHeight || 1.2)
 
     // Set font before measuring text
@@ -607,6 +619,24 @@ export class RemixExportService {
     this.ctx.lineWidth = 1
   }
 
+  /**
+   * Register the Poppins face a text box uses, so the canvas draws the same
+   * font as Satori and the editor rather than a system fallback
+   */
+  private async ensureFont(fontFamily: string, weight: PoppinsWeight, style: PoppinsStyle): Promise<void> {
+    const family = fontFamily.split(',')[0].trim().replace(/['"]/g, '')
+    const key = `${weight}-${style}`
+    if (family !== 'Poppins' || this.registeredFonts.has(key)) return
+
+    try {
+      const { GlobalFonts } = await getCanvasModule()
+      GlobalFonts.registerFromPath(await fontLoader.getFontFile(weight, style), 'Poppins')
+      this.registeredFonts.add(key)
+    } catch (error) {
+      console.error(`❌ [Export] Failed to register Poppins ${key}:`, error)
+    }
+  }
+
   private wrapText(text: string, maxWidth: number, mode: 'none' | 'wrap' | 'ellipsis' = 'wrap'): string[] {
     const lines: string[] = []
     if (mode === 'none') {
@@ -0,0 +1,347 @@
+/**
+ * Remix Render Service
+ *
+ * Renders a RemixPost's slides to final images server-side (Satori) and stores
+ * them in R2 as CacheAssets. This is the canonical renderer for everything that
+ * needs the finished slide (export ZIPs, Telegram, Canva, TikTok uploads).
+ *
+ * Renders are keyed by a content hash of the slide JSON: a SlideRender is
+ * current while its hash matches the slide, so editing a slide invalidates its
+ * render and identical slides (e.g. duplicated drafts) share one image.
+ * Export presets render a re-flowed copy of each slide and are cached
+ * separately from the original renders.
+ */
+
+import { createHash } from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import sharp from 'sharp'
+import { PrismaClient, CacheStatus } from '@/generated/prisma'
+import { uploadToR2 } from './r2'
+import { cacheAssetService } from './cache-asset-service'
+import { satoriExportService } from './satori-export-service'
+import { renderQueue } from './queue/render-queue'
+import { applyExportPreset, type ExportPresetId } from './export-presets'
+import type { SlideData, BackgroundLayer, TextBox } from './satori-renderer'
+import type { RemixSlideType } from './validations/remix-schema'
+
+// Bump when renderer output changes so existing renders are redrawn
+export const RENDERER_VERSION = 1
+
+export type RenderFormat = 'png' | 'jpeg'
+
+const DEFAULT_FORMAT: RenderFormat = 'jpeg'
+const DEFAULT_PRESET: ExportPresetId = 'original'
+const JPEG_QUALITY = 95
+
+export interface RenderRemixOptions {
+  format?: RenderFormat
+  /** Redraw every slide even when a current render exists */
+  force?: boolean
+  /** Re-flow slides to an export preset's canvas before rendering */
+  preset?: ExportPresetId
+}
+
+export interface RenderRemixResult {
+  remixId: string
+  cacheAssetIds: string[] // In slide display order
+  slidesRendered: number
+  slidesReused: number
+}
+
+export interface SlideRenderStatus {
+  slideId: string
+  slideIndex: number
+  contentHash: string
+  cacheAssetId: string | null // Null when the slide has no current render
+}
+
+/**
+ * JSON.stringify with object keys sorted, so the hash does not depend on
+ * key order (Postgres jsonb and the editor order keys differently)
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash of everything that affects a slide's rendered pixels. Editor-only
+ * state (viewport, ids, source text) is left out.
+ */
+export function getSlideContentHash(slide: RemixSlideType): string {
+  const content = {
+    version: RENDERER_VERSION,
+    canvas: {
+      width: slide.canvas?.width || 1080,
+      height: slide.canvas?.height || 1920,
+    },
+    backgroundLayers: (slide.backgroundLayers || []).map(({ id: _id, ...layer }) => layer),
+    textBoxes: (slide.textBoxes || []).map(({ id: _id, ...textBox }) => textBox),
+  }
+
+  return createHash('sha256').update(stableStringify(content)).digest('hex')
+}
+
+const getSlideId = (slide: RemixSlideType, index: number) => slide.id || `slide-${index}`
+
+class RemixRenderService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Convert a stored remix slide into Satori slide data, resolving image
+   * background layers to URLs
+   */
+  async toSlideData(slide: RemixSlideType): Promise<SlideData> {
+    const canvas = {
+      width: slide.canvas?.width || 1080,
+      height: slide.canvas?.height || 1920,
+    }
+
+    const backgroundLayers: BackgroundLayer[] = await Promise.all(
+      (slide.backgroundLayers || []).map(async (layer, index) => {
+        const imageUrl = layer.type === 'image' && layer.cacheAssetId
+          ? await cacheAssetService.getUrl(layer.cacheAssetId, undefined, true)
+          : undefined
+
+        // A render without its background would be cached under the slide's hash
+        if (layer.type === 'image' && layer.cacheAssetId && !imageUrl) {
+          throw new Error(`No URL available for background image: ${layer.cacheAssetId}`)
+        }
+
+        return {
+          id: layer.id || `bg-${index}`,
+          type: layer.type,
+          imageUrl,
+          color: layer.color,
+          gradient: layer.gradient,
+          x: layer.x ?? 0,
+          y: layer.y ?? 0,
+          width: layer.width ?? 1,
+          height: layer.height ?? 1,
+          opacity: layer.opacity ?? 1,
+          zIndex: layer.zIndex ?? 1,
+        }
+      })
+    )
+
+    const textBoxes: TextBox[] = (slide.textBoxes || []).map((textBox, index) => ({
+      ...textBox,
+      id: textBox.id || `text-${index}`,
+      fontStyle: textBox.fontStyle === 'italic' ? 'italic' : 'normal',
+      textAlign: textBox.textAlign === 'justify' ? 'left' : textBox.textAlign,
+    }))
+
+    return { canvas, backgroundLayers, textBoxes }
+  }
+
+  /**
+   * Render one slide to an encoded image
+   */
+  async renderSlide(slide: RemixSlideType, format: RenderFormat = DEFAULT_FORMAT): Promise<Buffer> {
+    const slideData = await this.toSlideData(slide)
+    const png = await satoriExportService.exportSlide(slideData, { format: 'png' })
+
+    // Satori only produces PNG
+    return format === 'jpeg'
+      ? sharp(png).flatten({ background: '#ffffff' }).jpeg({ quality: JPEG_QUALITY }).toBuffer()
+      : png
+  }
+
+  private async loadSlides(remixId: string, preset: ExportPresetId = DEFAULT_PRESET): Promise<RemixSlideType[]> {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, slides: true },
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    // Most routes store slides as a JSON string inside the Json column
+    const slides: RemixSlideType[] = typeof remix.slides === 'string'
+      ? JSON.parse(remix.slides)
+      : (Array.isArray(remix.slides) ? remix.slides as unknown as RemixSlideType[] : [])
+
+    return slides
+      .slice()
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .map(slide => applyExportPreset(slide, preset))
+  }
+
+  /**
+   * Per-slide render state for a remix, without rendering anything
+   */
+  async getRenderStatus(
+    remixId: string,
+    format: RenderFormat = DEFAULT_FORMAT,
+    preset: ExportPresetId = DEFAULT_PRESET
+  ): Promise<SlideRenderStatus[]> {
+    const slides = await this.loadSlides(remixId, preset)
+    const renders = await this.prisma.slideRender.findMany({
+      where: { remixId, format, preset },
+      include: { cacheAsset: { select: { status: true } } },
+    })
+
+    return slides.map((slide, index) => {
+      const slideId = getSlideId(slide, index)
+      const contentHash = getSlideContentHash(slide)
+      const render = renders.find(r => r.slideId === slideId)
+      const isCurrent = render?.contentHash === contentHash && render.cacheAsset.status === CacheStatus.CACHED
+
+      return {
+        slideId,
+        slideIndex: index,
+        contentHash,
+        cacheAssetId: isCurrent ? render.cacheAssetId : null,
+      }
+    })
+  }
+
+  /**
+   * Rendered images for every slide, or null when any slide is missing a
+   * current render. Never renders; use for listings that must stay fast.
+   */
+  async getCurrentRenders(remixId: string, format: RenderFormat = DEFAULT_FORMAT): Promise<string[] | null> {
+    const status = await this.getRenderStatus(remixId, format)
+    if (status.length === 0 || status.some(slide => !slide.cacheAssetId)) {
+      return null
+    }
+    return status.map(slide => slide.cacheAssetId!)
+  }
+
+  /**
+   * Render every slide of a remix, reusing renders whose content hash still
+   * matches, and upload new images to R2
+   */
+  async renderRemix(remixId: string, options: RenderRemixOptions = {}): Promise<RenderRemixResult> {
+    const { format = DEFAULT_FORMAT, force = false, preset = DEFAULT_PRESET } = options
+    const slides = await this.loadSlides(remixId, preset)
+
+    if (slides.length === 0) {
+      throw new Error(`Remix ${remixId} has no slides to render`)
+    }
+
+    const status = force ? [] : await this.getRenderStatus(remixId, format, preset)
+    const contentType = format === 'png' ? 'image/png' : 'image/jpeg'
+    const extension = format === 'png' ? 'png' : 'jpg'
+    const cacheAssetIds: string[] = []
+    let slidesRendered = 0
+    let slidesReused = 0
+
+    console.log(`🎨 [RemixRender] Rendering ${slides.length} slides for remix ${remixId}${preset === DEFAULT_PRESET ? '' : ` (${preset})`}`)
+
+    for (const [index, slide] of slides.entries()) {
+      const slideId = getSlideId(slide, index)
+      const contentHash = getSlideContentHash(slide)
+      const width = slide.canvas?.width || 1080
+      const height = slide.canvas?.height || 1920
+
+      let cacheAssetId = status[index]?.cacheAssetId ?? null
+
+      // Identical content rendered for another slide or remix
+      if (!cacheAssetId && !force) {
+        const shared = await this.prisma.slideRender.findFirst({
+          where: { contentHash, format, cacheAsset: { status: CacheStatus.CACHED } },
+          select: { cacheAssetId: true },
+        })
+        cacheAssetId = shared?.cacheAssetId ?? null
+      }
+
+      if (cacheAssetId) {
+        slidesReused++
+      } else {
+        const buffer = await this.renderSlide(slide, format)
+
+        const { url, key } = await uploadToR2(
+          buffer,
+          'renders',
+          `${contentHash}.${extension}`,
+          contentType
+        )
+
+        const cacheAsset = await this.prisma.cacheAsset.create({
+          data: {
+            id: uuidv4(),
+            originalUrl: url,
+            cacheKey: key,
+            status: CacheStatus.CACHED,
+            contentType,
+            fileSize: buffer.length,
+            cachedAt: new Date(),
+          },
+        })
+
+        cacheAssetId = cacheAsset.id
+        slidesRendered++
+      }
+
+      await this.prisma.slideRender.upsert({
+        where: { remixId_slideId_format_preset: { remixId, slideId, format, preset } },
+        create: { remixId, slideId, slideIndex: index, contentHash, format, preset, cacheAssetId, width, height },
+        update: { slideIndex: index, contentHash, cacheAssetId, width, height },
+      })
+
+      cacheAssetIds.push(cacheAssetId)
+      console.log(`✅ [RemixRender] Slide ${index + 1}/${slides.length}: ${cacheAssetId}`)
+    }
+
+    // Drop renders of slides that were removed from the remix
+    await this.prisma.slideRender.deleteMany({
+      where: {
+        remixId,
+        format,
+        preset,
+        slideId: { notIn: slides.map((slide, index) => getSlideId(slide, index)) },
+      },
+    })
+
+    console.log(`✅ [RemixRender] Remix ${remixId}: ${slidesRendered} rendered, ${slidesReused} reused`)
+
+    return { remixId, cacheAssetIds, slidesRendered, slidesReused }
+  }
+
+  /**
+   * Called after a remix's slides are edited. Remixes that have been rendered
+   * before get a debounced re-render so their images stay ready; others are
+   * rendered on demand.
+   */
+  async invalidate(remixId: string): Promise<void> {
+    try {
+      const hasRenders = await this.prisma.slideRender.count({ where: { remixId, preset: DEFAULT_PRESET } })
+      if (hasRenders > 0) {
+        await renderQueue.addRenderJob(remixId, { debounce: true })
+      }
+    } catch (error) {
+      // Renders are derived data - never fail the edit because of them
+      console.error(`❌ [RemixRender] Failed to invalidate renders for ${remixId}:`, error)
+    }
+  }
+
+  /**
+   * URLs of the current rendered slides, rendering missing slides first
+   */
+  async getRenderedSlideUrls(
+    remixId: string,
+    format: RenderFormat = DEFAULT_FORMAT,
+    preferPublic = false,
+    preset: ExportPresetId = DEFAULT_PRESET
+  ): Promise<string[]> {
+    const { cacheAssetIds } = await this.renderRemix(remixId, { format, preset })
+    return cacheAssetService.getUrls(cacheAssetIds, undefined, preferPublic)
+  }
+}
+
+export const remixRenderService = new RemixRenderService()
+export default RemixRenderService
@@ -0,0 +1,374 @@
+/**
+ * Remix Revision Service
+ *
+ * Append-only slide history for RemixPosts. Every route that rewrites a
+ * draft's slides records the result here, so any earlier version can be
+ * compared slide by slide and restored. The first change to a draft also
+ * records its pre-existing slides as an 'initial' revision.
+ */
+
+import { PrismaClient, Prisma } from '@/generated/prisma'
+import { remixRenderService } from './remix-render-service'
+
+export const REVISION_SOURCES = [
+  'initial',
+  'manual_edit',
+  'slide_edit',
+  'coherence_fix',
+  'auto_fill',
+  'restore'
+] as const
+export type RevisionSource = typeof REVISION_SOURCES[number]
+
+type Slide = Record<string, any>
+
+export type SlideDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface TextBoxDiff {
+  index: number
+  status: SlideDiffStatus
+  textBefore: string | null
+  textAfter: string | null
+  layoutChanges: string[] // Changed keys other than the text, e.g. x, fontSize
+}
+
+export interface SlideDiff {
+  index: number
+  status: SlideDiffStatus
+  textBefore: string | null // paraphrasedText
+  textAfter: string | null
+  layoutChanges: string[] // Changed slide-level keys, e.g. backgroundLayers
+  textBoxes: TextBoxDiff[]
+}
+
+// Slide-level keys compared as layout; text and text boxes are diffed separately
+const SLIDE_LAYOUT_KEYS = ['canvas', 'backgroundLayers', 'originalImageIndex']
+// Text box keys that are not layout
+const TEXT_BOX_IGNORED_KEYS = new Set(['id', 'text'])
+
+/**
+ * Parse a RemixPost.slides column (stored as a JSON string or an array)
+ */
+export function parseSlides(slides: unknown): Slide[] {
+  const parsed = typeof slides === 'string' ? JSON.parse(slides) : slides
+  return Array.isArray(parsed) ? parsed : []
+}
+
+/**
+ * JSON.stringify with object keys sorted, so jsonb round-trips compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+const isSame = (a: unknown, b: unknown) => stableStringify(a ?? null) === stableStringify(b ?? null)
+
+/**
+ * Pair items of two lists by id, falling back to position for items without one
+ */
+function pairItems(before: Slide[], after: Slide[]): Array<[Slide | undefined, Slide | undefined, number]> {
+  const afterById = new Map(after.filter(item => item?.id).map(item => [item.id, item]))
+  const pairs: Array<[Slide | undefined, Slide | undefined, number]> = []
+  const usedAfter = new Set<Slide>()
+
+  before.forEach((item, index) => {
+    const match = item?.id && afterById.has(item.id)
+      ? afterById.get(item.id)
+      : !item?.id && after[index] && !after[index].id ? after[index] : undefined
+    if (match) usedAfter.add(match)
+    pairs.push([item, match, match ? after.indexOf(match) : index])
+  })
+
+  after.forEach((item, index) => {
+    if (!usedAfter.has(item)) pairs.push([undefined, item, index])
+  })
+
+  return pairs.sort((a, b) => a[2] - b[2])
+}
+
+function diffTextBoxes(before: Slide[], after: Slide[]): TextBoxDiff[] {
+  return pairItems(before, after).map(([a, b, index]) => {
+    if (!a || !b) {
+      return {
+        index,
+        status: a ? 'removed' : 'added',
+        textBefore: a?.text ?? null,
+        textAfter: b?.text ?? null,
+        layoutChanges: []
+      }
+    }
+
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+    const layoutChanges = [...keys].filter(key => !TEXT_BOX_IGNORED_KEYS.has(key) && !isSame(a[key], b[key]))
+    const textChanged = (a.text ?? '') !== (b.text ?? '')
+
+    return {
+      index,
+      status: textChanged || layoutChanges.length > 0 ? 'changed' : 'unchanged',
+      textBefore: a.text ?? null,
+      textAfter: b.text ?? null,
+      layoutChanges
+    }
+  })
+}
+
+/**
+ * Slide-by-slide text and layout diff between two versions of a draft
+ */
+export function diffSlides(before: Slide[], after: Slide[]): SlideDiff[] {
+  return pairItems(before, after).map(([a, b, index]) => {
+    const textBoxes = diffTextBoxes(a?.textBoxes ?? [], b?.textBoxes ?? [])
+
+    if (!a || !b) {
+      return {
+        index,
+        status: a ? 'removed' : 'added',
+        textBefore: a?.paraphrasedText ?? null,
+        textAfter: b?.paraphrasedText ?? null,
+        layoutChanges: [],
+        textBoxes
+      }
+    }
+
+    const layoutChanges = SLIDE_LAYOUT_KEYS.filter(key => !isSame(a[key], b[key]))
+    const textChanged = (a.paraphrasedText ?? '') !== (b.paraphrasedText ?? '')
+    const changed = textChanged || layoutChanges.length > 0 || textBoxes.some(box => box.status !== 'unchanged')
+
+    return {
+      index,
+      status: changed ? 'changed' : 'unchanged',
+      textBefore: a.paraphrasedText ?? null,
+      textAfter: b.paraphrasedText ?? null,
+      layoutChanges,
+      textBoxes
+    }
+  })
+}
+
+export interface RecordRevisionInput {
+  remixId: string
+  /** Slides before the change - recorded as the 'initial' revision when the draft has no history yet */
+  previousSlides?: unknown
+  slides: unknown
+  source: RevisionSource
+  createdById?: string | null
+  summary?: string | null
+  restoredFromId?: string | null
+}
+
+// Attempts at allocating a revision number before giving up
+const REVISION_NUMBER_ATTEMPTS = 3
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+
+const revisionListSelect = {
+  id: true,
+  revisionNumber: true,
+  source: true,
+  summary: true,
+  restoredFromId: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true, email: true } }
+} as const
+
+class RemixRevisionService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Append a revision for a draft's new slides. Returns null when the slides
+   * did not change since the latest revision. Concurrent saves race for the
+   * next revision number; the loser retries with a fresh one.
+   */
+  async recordRevision(input: RecordRevisionInput) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.$transaction(tx => this.appendRevision(tx, input))
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= REVISION_NUMBER_ATTEMPTS) {
+          throw error
+        }
+        console.warn(`⚠️ [RemixRevision] Revision number taken for ${input.remixId}, retrying (${attempt}/${REVISION_NUMBER_ATTEMPTS})`)
+      }
+    }
+  }
+
+  private async appendRevision(tx: Prisma.TransactionClient, input: RecordRevisionInput) {
+    const slides = parseSlides(input.slides)
+
+    const latest = await tx.remixPostRevision.findFirst({
+      where: { remixId: input.remixId },
+      orderBy: { revisionNumber: 'desc' }
+    })
+
+    let nextNumber = (latest?.revisionNumber ?? 0) + 1
+
+    if (!latest && input.previousSlides !== undefined) {
+      const previousSlides = parseSlides(input.previousSlides)
+      if (previousSlides.length > 0 && !isSame(previousSlides, slides)) {
+        await tx.remixPostRevision.create({
+          data: {
+            remixId: input.remixId,
+            revisionNumber: nextNumber++,
+            slides: JSON.stringify(previousSlides),
+            source: 'initial',
+            summary: 'Before first tracked change'
+          }
+        })
+      }
+    }
+
+    if (latest && isSame(parseSlides(latest.slides), slides)) {
+      return null
+    }
+
+    return tx.remixPostRevision.create({
+      data: {
+        remixId: input.remixId,
+        revisionNumber: nextNumber,
+        slides: JSON.stringify(slides),
+        source: input.source,
+        summary: input.summary ?? null,
+        restoredFromId: input.restoredFromId ?? null,
+        createdById: input.createdById ?? null
+      }
+    })
+  }
+
+  /**
+   * Record a revision without failing the caller - the edit itself already succeeded
+   */
+  async recordRevisionSafe(input: RecordRevisionInput): Promise<void> {
+    try {
+      await this.recordRevision(input)
+    } catch (error) {
+      console.error(`❌ [RemixRevision] Failed to record ${input.source} revision for ${input.remixId}:`, error)
+    }
+  }
+
+  async listRevisions(remixId: string) {
+    return this.prisma.remixPostRevision.findMany({
+      where: { remixId },
+      select: revisionListSelect,
+      orderBy: { revisionNumber: 'desc' }
+    })
+  }
+
+  /**
+   * A revision with its slides and a diff against another revision
+   * (default: the one before it; 'current' compares to the draft as it is now)
+   */
+  async getRevisionWithDiff(remixId: string, revisionId: string, compareTo?: string) {
+    const revision = await this.prisma.remixPostRevision.findFirst({
+      where: { id: revisionId, remixId },
+      select: { ...revisionListSelect, slides: true }
+    })
+
+    if (!revision) {
+      throw new Error(`Revision not found: ${revisionId}`)
+    }
+
+    let baseSlides: Slide[] = []
+    let base: { id: string; revisionNumber: number } | 'current' | null = null
+
+    if (compareTo === 'current') {
+      const remix = await this.prisma.remixPost.findUnique({
+        where: { id: remixId },
+        select: { slides: true }
+      })
+      baseSlides = parseSlides(remix?.slides)
+      base = 'current'
+    } else {
+      const baseRevision = await this.prisma.remixPostRevision.findFirst({
+        where: compareTo
+          ? { id: compareTo, remixId }
+          : { remixId, revisionNumber: { lt: revision.revisionNumber } },
+        orderBy: { revisionNumber: 'desc' },
+        select: { id: true, revisionNumber: true, slides: true }
+      })
+
+      if (compareTo && !baseRevision) {
+        throw new Error(`Revision not found: ${compareTo}`)
+      }
+
+      if (baseRevision) {
+        baseSlides = parseSlides(baseRevision.slides)
+        base = { id: baseRevision.id, revisionNumber: baseRevision.revisionNumber }
+      }
+    }
+
+    // Against 'current' this shows what restoring the revision would change
+    const slides = parseSlides(revision.slides)
+
+    return {
+      revision: { ...revision, slides },
+      comparedTo: base,
+      diff: diffSlides(baseSlides, slides)
+    }
+  }
+
+  /**
+   * Put a revision's slides back on the draft. The restore is itself recorded
+   * as a new revision, so it can be undone the same way.
+   */
+  async restoreRevision(remixId: string, revisionId: string, userId?: string | null) {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, slides: true }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    const revision = await this.prisma.remixPostRevision.findFirst({
+      where: { id: revisionId, remixId }
+    })
+
+    if (!revision) {
+      throw new Error(`Revision not found: ${revisionId}`)
+    }
+
+    const slides = parseSlides(revision.slides)
+
+    const updated = await this.prisma.remixPost.update({
+      where: { id: remixId },
+      data: {
+        slides: JSON.stringify(slides),
+        updatedById: userId ?? null
+      }
+    })
+
+    await this.recordRevision({
+      remixId,
+      previousSlides: remix.slides,
+      slides,
+      source: 'restore',
+      summary: `Restored revision ${revision.revisionNumber}`,
+      restoredFromId: revision.id,
+      createdById: userId
+    })
+
+    await remixRenderService.invalidate(remixId)
+
+    console.log(`⏪ [RemixRevision] Restored revision ${revision.revisionNumber} of remix ${remixId}`)
+
+    return updated
+  }
+}
+
+// Export singleton instance
+export const remixRevisionService = new RemixRevisionService()
@@ -0,0 +1,214 @@
+/**
+ * Remix Workflow Service
+ *
+ * Review workflow for RemixPosts: a draft moves from idea to posted through
+ * a fixed set of stages, can be assigned to a reviewer, and is shown on the
+ * workflow board. The legacy `approved` flag is derived from the stage so
+ * existing filters and the publish scheduler keep working.
+ */
+
+import { PrismaClient, NotificationType, type Prisma, type RemixWorkflowStatus } from '@/generated/prisma'
+import { hasRole, type AuthUser } from './auth-service'
+import { notificationService } from './notification-service'
+import { publishService } from './publish-service'
+import { WORKFLOW_STATUSES, canTransition, isApprovedStatus, requiredRoleForTransition } from './remix-workflow'
+
+export interface WorkflowBoardFilters {
+  projectId?: string
+  sessionId?: string
+  reviewerId?: string
+  limit?: number
+}
+
+const userSelect = { id: true, name: true, email: true } as const
+
+class RemixWorkflowService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Move a draft to another stage. Throws when the move is not allowed from
+   * the current stage or the user's role is too low for it.
+   */
+  async transition(remixId: string, to: RemixWorkflowStatus, user: AuthUser) {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, name: true, workflowStatus: true, reviewerId: true }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    const from = remix.workflowStatus
+    if (from === to) {
+      return this.setStatus(remixId, to, user.id)
+    }
+
+    if (!canTransition(from, to)) {
+      throw new Error(`Invalid transition: ${from} -> ${to}`)
+    }
+
+    const requiredRole = requiredRoleForTransition(from, to)
+    if (!hasRole(user.role, requiredRole)) {
+      throw new Error(`Insufficient permissions: ${requiredRole} required to move from ${from} to ${to}`)
+    }
+
+    // SCHEDULED is set by scheduling a publish; the board can't move a draft there on its own
+    if (to === 'SCHEDULED' && await publishService.countPendingForRemix(remixId) === 0) {
+      throw new Error(`Invalid transition: ${from} -> ${to} without a scheduled publish`)
+    }
+
+    // Leaving SCHEDULED (pulled back, or marked posted by hand) drops the pending upload
+    if (from === 'SCHEDULED') {
+      await publishService.cancelPendingForRemix(remixId)
+    }
+
+    const updated = await this.setStatus(remixId, to, user.id)
+
+    if (to === 'IN_REVIEW' && remix.reviewerId) {
+      await this.notifyReviewRequested(remix, remix.reviewerId)
+    }
+
+    console.log(`🔀 [Workflow] ${remix.name} (${remixId}): ${from} -> ${to} by ${user.email}`)
+
+    return updated
+  }
+
+  /**
+   * Set the stage without transition checks, keeping `approved` in sync
+   */
+  async setStatus(remixId: string, status: RemixWorkflowStatus, userId?: string | null) {
+    return this.prisma.remixPost.update({
+      where: { id: remixId },
+      data: {
+        workflowStatus: status,
+        workflowUpdatedAt: new Date(),
+        approved: isApprovedStatus(status),
+        ...(userId && { updatedById: userId })
+      },
+      select: {
+        id: true,
+        workflowStatus: true,
+        workflowUpdatedAt: true,
+        approved: true,
+        reviewer: { select: userSelect }
+      }
+    })
+  }
+
+  /**
+   * Assign (or with null, unassign) the reviewer of a draft
+   */
+  async assignReviewer(remixId: string, reviewerId: string | null, assignedById: string) {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true, name: true, reviewerId: true }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    if (reviewerId) {
+      const reviewer = await this.prisma.user.findUnique({
+        where: { id: reviewerId },
+        select: { id: true, role: true, isActive: true }
+      })
+
+      if (!reviewer || !reviewer.isActive) {
+        throw new Error(`User not found: ${reviewerId}`)
+      }
+
+      if (!hasRole(reviewer.role, 'reviewer')) {
+        throw new Error(`User cannot review drafts: ${reviewer.role}`)
+      }
+    }
+
+    const updated = await this.prisma.remixPost.update({
+      where: { id: remixId },
+      data: { reviewerId, updatedById: assignedById },
+      select: { id: true, workflowStatus: true, reviewer: { select: userSelect } }
+    })
+
+    if (reviewerId && reviewerId !== remix.reviewerId) {
+      await this.notifyReviewRequested(remix, reviewerId)
+    }
+
+    return updated
+  }
+
+  /**
+   * Active users who can be assigned as reviewers
+   */
+  async listReviewers() {
+    return this.prisma.user.findMany({
+      where: { isActive: true, role: { in: ['reviewer', 'editor', 'admin'] } },
+      select: { ...userSelect, role: true },
+      orderBy: [{ name: 'asc' }, { email: 'asc' }]
+    })
+  }
+
+  /**
+   * Drafts grouped by stage, across projects and draft sessions
+   */
+  async getBoard(filters: WorkflowBoardFilters = {}) {
+    const where: Prisma.RemixPostWhereInput = {
+      ...(filters.projectId && { projectId: filters.projectId }),
+      ...(filters.sessionId && { sessionId: filters.sessionId }),
+      ...(filters.reviewerId && { reviewerId: filters.reviewerId })
+    }
+
+    const remixes = await this.prisma.remixPost.findMany({
+      where,
+      select: {
+        id: true,
+        name: true,
+        workflowStatus: true,
+        workflowUpdatedAt: true,
+        postedUrl: true,
+        updatedAt: true,
+        project: { select: { id: true, name: true, color: true } },
+        session: { select: { id: true, name: true } },
+        reviewer: { select: userSelect },
+        _count: {
+          select: { comments: { where: { parentId: null, resolvedAt: null } } }
+        }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: filters.limit ?? 500
+    })
+
+    return WORKFLOW_STATUSES.map(status => ({
+      status,
+      remixes: remixes
+        .filter(remix => remix.workflowStatus === status)
+        .map(({ _count, ...remix }) => ({ ...remix, openComments: _count.comments }))
+    }))
+  }
+
+  private async notifyReviewRequested(remix: { id: string; name: string }, reviewerId: string): Promise<void> {
+    try {
+      const reviewer = await this.prisma.user.findUnique({
+        where: { id: reviewerId },
+        select: { name: true, email: true }
+      })
+
+      await notificationService.createNotification({
+        type: NotificationType.REVIEW_REQUESTED,
+        title: '👀 Review Requested',
+        message: `${reviewer?.name || reviewer?.email || 'A reviewer'} was asked to review "${remix.name}"`,
+        metadata: { remixId: remix.id, reviewerId }
+      })
+    } catch (error) {
+      // The assignment itself already succeeded
+      console.error(`❌ [Workflow] Failed to notify reviewer for ${remix.id}:`, error)
+    }
+  }
+}
+
+// Export singleton instance
+export const remixWorkflowService = new RemixWorkflowService()
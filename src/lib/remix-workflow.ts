@@ -0,0 +1,59 @@
+/**
+ * Remix review workflow stages and the moves allowed between them.
+ * Shared by the workflow service and the board/review UI.
+ */
+
+import type { UserRole } from './auth-service'
+
+// Board column order
+export const WORKFLOW_STATUSES = [
+  'IDEA',
+  'DRAFTING',
+  'IN_REVIEW',
+  'CHANGES_REQUESTED',
+  'APPROVED',
+  'SCHEDULED',
+  'POSTED'
+] as const
+export type WorkflowStatus = typeof WORKFLOW_STATUSES[number]
+
+export const WORKFLOW_LABELS: Record<WorkflowStatus, string> = {
+  IDEA: 'Idea',
+  DRAFTING: 'Drafting',
+  IN_REVIEW: 'In Review',
+  CHANGES_REQUESTED: 'Changes Requested',
+  APPROVED: 'Approved',
+  SCHEDULED: 'Scheduled',
+  POSTED: 'Posted'
+}
+
+export const WORKFLOW_TRANSITIONS: Record<WorkflowStatus, WorkflowStatus[]> = {
+  IDEA: ['DRAFTING'],
+  DRAFTING: ['IDEA', 'IN_REVIEW'],
+  IN_REVIEW: ['DRAFTING', 'CHANGES_REQUESTED', 'APPROVED'],
+  CHANGES_REQUESTED: ['DRAFTING', 'IN_REVIEW'],
+  APPROVED: ['DRAFTING', 'IN_REVIEW', 'CHANGES_REQUESTED', 'SCHEDULED', 'POSTED'],
+  SCHEDULED: ['APPROVED', 'POSTED'],
+  POSTED: ['APPROVED']
+}
+
+// Stages in which the draft counts as approved (RemixPost.approved)
+const APPROVED_STATUSES: WorkflowStatus[] = ['APPROVED', 'SCHEDULED', 'POSTED']
+
+export function canTransition(from: WorkflowStatus, to: WorkflowStatus): boolean {
+  return WORKFLOW_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Review decisions (approving, requesting changes, reopening an approved
+ * draft) need a reviewer; every other move is an edit
+ */
+export function requiredRoleForTransition(from: WorkflowStatus, to: WorkflowStatus): UserRole {
+  if (to === 'APPROVED' || to === 'CHANGES_REQUESTED') return 'reviewer'
+  if (from === 'APPROVED' && to === 'IN_REVIEW') return 'reviewer'
+  return 'editor'
+}
+
+export function isApprovedStatus(status: WorkflowStatus): boolean {
+  return APPROVED_STATUSES.includes(status)
+}
@@ -182,7 +182,8 @@ function renderTextBox(textBox: TextBox, canvasWidth: number, canvasHeight: numb
     textAlign: textBox.textAlign,
     textDecoration: textBox.textDecoration,
     lineHeight: textBox.lineHeight ?? 1.2,
-    letterSpacing: textBox.letterSpacing ? `${textBox.letterSpacing}px` : undefined,
+    // Satori throws on an undefined letterSpacing, so 0 is spelled out
+    letterSpacing: `${textBox.letterSpacing ?? 0}px`,
     paddingTop: `${paddingTop}px`,
     paddingRight: `${paddingRight}px`,
     paddingBottom: `${paddingBottom}px`,
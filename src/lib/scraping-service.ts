@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { mediaCacheServiceV2 } from './media-cache-service-v2'
+import { getScrapingProvider } from './scraping'
 
 const ImageSchema = z.object({
   display_image: z.object({
@@ -86,26 +87,9 @@ interface ScrapedData {
 }
 
 export async function scrapeCarousel(url: string): Promise<ScrapedData> {
-  const apiKey = process.env.SCRAPECREATORS_API_KEY
-  if (!apiKey) {
-    throw new Error('SCRAPECREATORS_API_KEY is not configured')
-  }
-
   try {
-    const response = await fetch(`https://api.scrapecreators.com/v2/tiktok/video?url=${encodeURIComponent(url)}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'x-api-key': apiKey
-      }
-    })
+    const rawData = await getScrapingProvider().fetchPost(url)
 
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`)
-    }
-
-    const rawData = await response.json()
-    
     // Validate the response structure
     const data = ApiResponseSchema.parse(rawData)
     
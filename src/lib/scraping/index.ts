@@ -0,0 +1,56 @@
+/**
+ * Scraping Provider Registry
+ *
+ * Single entry point for every TikTok data fetch. Configured per environment:
+ *
+ *   SCRAPING_PROVIDER=replay                      - serve recorded responses (default: scrapecreators)
+ *   SCRAPING_RECORD=true                          - save every live response as a replay fixture
+ *   SCRAPING_FIXTURES_DIR=./fixtures/scraping     - where fixtures are recorded and replayed from
+ */
+
+import { ScrapeCreatorsProvider } from './scrapecreators-provider'
+import { ReplayProvider, DEFAULT_FIXTURES_DIR } from './replay-provider'
+import { RecordingProvider } from './recording-provider'
+import type { ScrapingProvider, ScrapingProviderName } from './types'
+
+export * from './types'
+export { ScrapeCreatorsProvider } from './scrapecreators-provider'
+export { ReplayProvider, getFixtureKey, getFixturePath } from './replay-provider'
+export { RecordingProvider } from './recording-provider'
+
+const providers: Record<ScrapingProviderName, ScrapingProvider> = {
+  scrapecreators: new ScrapeCreatorsProvider(),
+  replay: new ReplayProvider(),
+}
+
+/**
+ * Resolve the configured provider, wrapped for recording when enabled
+ */
+export function getScrapingProvider(): ScrapingProvider {
+  const name = (process.env.SCRAPING_PROVIDER || 'scrapecreators') as ScrapingProviderName
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown scraping provider "${name}"`)
+  }
+
+  // Replaying into the fixtures it reads from would be a no-op at best
+  if (process.env.SCRAPING_RECORD === 'true' && name !== 'replay') {
+    return new RecordingProvider(provider, process.env.SCRAPING_FIXTURES_DIR || DEFAULT_FIXTURES_DIR)
+  }
+
+  return provider
+}
+
+/**
+ * Replace a provider implementation (tests, custom backends)
+ */
+export function setScrapingProvider(name: ScrapingProviderName, provider: ScrapingProvider): void {
+  providers[name] = provider
+}
+
+/**
+ * Shared replay provider instance, for registering responses in tests
+ */
+export function getReplayProvider(): ReplayProvider {
+  return providers.replay as ReplayProvider
+}
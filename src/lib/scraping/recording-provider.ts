@@ -0,0 +1,53 @@
+/**
+ * Recording Scraping Provider
+ *
+ * Wraps another provider and saves every raw response where the replay
+ * provider looks for it, so a live session can be replayed offline later.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { getFixturePath } from './replay-provider'
+import type { ScrapingProvider, ScrapingRequest } from './types'
+
+export class RecordingProvider implements ScrapingProvider {
+  constructor(
+    private readonly inner: ScrapingProvider,
+    private readonly fixturesDir: string
+  ) {}
+
+  get name() {
+    return this.inner.name
+  }
+
+  private async record(request: ScrapingRequest, response: Promise<unknown>): Promise<unknown> {
+    const data = await response
+
+    try {
+      const filePath = getFixturePath(this.fixturesDir, request)
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(data, null, 2))
+      console.log(`⏺️ [Scraping:record] Saved ${path.relative(this.fixturesDir, filePath)}`)
+    } catch (error) {
+      // Recording is best-effort and must never break a live scrape
+      console.error('❌ [Scraping:record] Failed to save response:', error)
+    }
+
+    return data
+  }
+
+  async fetchProfileVideos(handle: string, maxCursor: string | undefined, trim: boolean): Promise<unknown> {
+    return this.record(
+      { kind: 'profile-videos', handle, maxCursor, trim },
+      this.inner.fetchProfileVideos(handle, maxCursor, trim)
+    )
+  }
+
+  async fetchPost(url: string): Promise<unknown> {
+    return this.record({ kind: 'post', url }, this.inner.fetchPost(url))
+  }
+
+  async fetchProfileInfo(handle: string): Promise<unknown> {
+    return this.record({ kind: 'profile-info', handle }, this.inner.fetchProfileInfo(handle))
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Replay Scraping Provider
+ *
+ * Serves previously recorded raw responses instead of calling an API, so
+ * monitoring, add-profile and bulk upsert flows run locally and in tests
+ * without spending credits. Responses come from, in order:
+ *   1. responses registered in code via `register()` (tests)
+ *   2. `<fixturesDir>/<kind>/<key>.json` files written by record mode
+ *
+ * Fixture keys:
+ *   profile-videos/<handle>.json             - first page
+ *   profile-videos/<handle>@<maxCursor>.json - later pages
+ *   post/<tiktokId>.json                     - single post (URL hash for short links)
+ *   profile-info/<handle>.json
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { extractTikTokId } from '../tiktok-url-parser'
+import type { ScrapingProvider, ScrapingRequest } from './types'
+
+export const DEFAULT_FIXTURES_DIR = path.join('fixtures', 'scraping')
+
+const safeName = (value: string) => value.replace(/[^\w.@-]/g, '_')
+
+/**
+ * Fixture key for a request (pagination cursor included, `trim` ignored)
+ */
+export function getFixtureKey(request: ScrapingRequest): string {
+  switch (request.kind) {
+    case 'profile-videos':
+      return safeName(request.maxCursor ? `${request.handle}@${request.maxCursor}` : request.handle)
+    case 'post':
+      return safeName(
+        extractTikTokId(request.url) ??
+        crypto.createHash('sha1').update(request.url).digest('hex').slice(0, 16)
+      )
+    case 'profile-info':
+      return safeName(request.handle)
+  }
+}
+
+/**
+ * Path of a request's fixture file within a fixtures directory
+ */
+export function getFixturePath(fixturesDir: string, request: ScrapingRequest): string {
+  return path.join(fixturesDir, request.kind, `${getFixtureKey(request)}.json`)
+}
+
+export class ReplayProvider implements ScrapingProvider {
+  readonly name = 'replay' as const
+  private responses = new Map<string, unknown>()
+
+  constructor(
+    private readonly fixturesDir: string = process.env.SCRAPING_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+  ) {}
+
+  /**
+   * Register a raw response for a request (overrides any on-disk fixture)
+   */
+  register(request: ScrapingRequest, response: unknown): this {
+    this.responses.set(`${request.kind}/${getFixtureKey(request)}`, response)
+    return this
+  }
+
+  /**
+   * Remove all registered responses
+   */
+  reset(): void {
+    this.responses.clear()
+  }
+
+  private replay(request: ScrapingRequest): unknown {
+    const key = `${request.kind}/${getFixtureKey(request)}`
+    if (this.responses.has(key)) {
+      return structuredClone(this.responses.get(key))
+    }
+
+    const filePath = getFixturePath(this.fixturesDir, request)
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`No recorded ${request.kind} response for ${key} (expected ${filePath})`)
+    }
+
+    console.log(`📼 [Scraping:replay] ${key}`)
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  }
+
+  async fetchProfileVideos(handle: string, maxCursor: string | undefined, trim: boolean): Promise<unknown> {
+    return this.replay({ kind: 'profile-videos', handle, maxCursor, trim })
+  }
+
+  async fetchPost(url: string): Promise<unknown> {
+    return this.replay({ kind: 'post', url })
+  }
+
+  async fetchProfileInfo(handle: string): Promise<unknown> {
+    return this.replay({ kind: 'profile-info', handle })
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * ScrapeCreators Scraping Provider
+ *
+ * Live TikTok data via api.scrapecreators.com (billed per request).
+ * Requires SCRAPECREATORS_API_KEY.
+ */
+
+import type { ScrapingProvider } from './types'
+
+const BASE_URL = 'https://api.scrapecreators.com'
+
+export class ScrapeCreatorsProvider implements ScrapingProvider {
+  readonly name = 'scrapecreators' as const
+
+  private getApiKey(): string {
+    const apiKey = process.env.SCRAPECREATORS_API_KEY
+    if (!apiKey) {
+      throw new Error('SCRAPECREATORS_API_KEY is not configured')
+    }
+    return apiKey
+  }
+
+  private async get(path: string, params: URLSearchParams): Promise<unknown> {
+    const apiKey = this.getApiKey()
+    const apiUrl = `${BASE_URL}${path}?${params.toString()}`
+
+    console.log('Fetching from ScrapeCreators API:', apiUrl)
+
+    const response = await fetch(apiUrl, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'x-api-key': apiKey
+      }
+    })
+
+    if (!response.ok) {
+      console.error(`API request failed with status ${response.status}: ${response.statusText}`)
+      const errorText = await response.text()
+      console.error('Error response body:', errorText)
+      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`)
+    }
+
+    return response.json()
+  }
+
+  async fetchProfileVideos(handle: string, maxCursor: string | undefined, trim: boolean): Promise<unknown> {
+    const params = new URLSearchParams({ handle, trim: trim.toString() })
+    if (maxCursor) {
+      params.append('max_cursor', maxCursor)
+    }
+    return this.get('/v3/tiktok/profile/videos', params)
+  }
+
+  async fetchPost(url: string): Promise<unknown> {
+    return this.get('/v2/tiktok/video', new URLSearchParams({ url }))
+  }
+
+  async fetchProfileInfo(handle: string): Promise<unknown> {
+    return this.get('/v1/tiktok/profile', new URLSearchParams({ handle }))
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Scraping Provider Types
+ *
+ * Providers return the raw upstream payload for each request. Parsing into
+ * app types stays in tiktok-scraping.ts / scraping-service.ts, so recorded
+ * responses replay through exactly the same validation as live ones.
+ */
+
+export type ScrapingProviderName = 'scrapecreators' | 'replay'
+
+export type ScrapingRequest =
+  | { kind: 'profile-videos'; handle: string; maxCursor?: string; trim: boolean }
+  | { kind: 'post'; url: string }
+  | { kind: 'profile-info'; handle: string }
+
+export type ScrapingRequestKind = ScrapingRequest['kind']
+
+export interface ScrapingProvider {
+  readonly name: ScrapingProviderName
+
+  /** One page of a profile's posts (v3 profile videos payload) */
+  fetchProfileVideos(handle: string, maxCursor: string | undefined, trim: boolean): Promise<unknown>
+
+  /** A single post by URL (v2 video payload, `aweme_detail`) */
+  fetchPost(url: string): Promise<unknown>
+
+  /** Profile details and follower stats (v1 profile payload) */
+  fetchProfileInfo(handle: string): Promise<unknown>
+}
@@ -0,0 +1,363 @@
+/**
+ * Slide Index Service
+ *
+ * Keeps SlideClassificationIndex - the searchable swipe file behind
+ * /api/content-ideas/library - in step with its sources. Every classified,
+ * non-empty slide of a scraped post (once OCR has run) or of a remix gets
+ * one row, filed under a ContentIdeaCategory, and the categories' slideCount
+ * is recounted whenever their rows change.
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+
+export type IndexSlideType = 'HOOK' | 'CONTENT' | 'CTA'
+
+export type SlideIndexSource = 'posts' | 'remixes'
+
+export const UNCATEGORIZED = 'Uncategorized'
+
+export interface IndexedSlide {
+  slideIndex: number
+  type: IndexSlideType
+  contentText: string
+  categoryId?: string
+  categoryName?: string
+}
+
+type SlideIndexOwner = { remixPostId: string } | { tiktokPostId: string }
+
+interface IndexRow {
+  slideIndex: number
+  type: IndexSlideType
+  categoryId: string
+  contentText: string
+  sourcePostId: string | null
+  languageStyleTags: string[]
+}
+
+function parseJsonArray(value: unknown): any[] {
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export function normalizeSlideType(value: unknown): IndexSlideType | null {
+  switch (typeof value === 'string' ? value.toUpperCase() : null) {
+    case 'HOOK': return 'HOOK'
+    case 'CONTENT': return 'CONTENT'
+    case 'CTA': return 'CTA'
+    default: return null
+  }
+}
+
+/**
+ * Classified slides of a scraped post with their OCR text
+ */
+export function extractPostSlides(post: { ocrTexts: unknown; slideClassifications: unknown }): IndexedSlide[] {
+  const texts = parseJsonArray(post.ocrTexts)
+
+  return parseJsonArray(post.slideClassifications).flatMap(classification => {
+    const type = normalizeSlideType(classification?.slideType)
+    const text = texts.find(entry => entry?.imageIndex === classification?.slideIndex)?.text
+    const contentText = typeof text === 'string' ? text.trim() : ''
+
+    return type && contentText && typeof classification.slideIndex === 'number'
+      ? [{ slideIndex: classification.slideIndex, type, contentText }]
+      : []
+  })
+}
+
+/**
+ * Classified slides of a remix with their text: the paraphrased text, or the
+ * slide's text boxes when it has none
+ */
+export function extractRemixSlides(remix: { slides: unknown; slideClassifications: unknown }): IndexedSlide[] {
+  const slides = parseJsonArray(remix.slides)
+
+  return parseJsonArray(remix.slideClassifications).flatMap(classification => {
+    const type = normalizeSlideType(classification?.type)
+    const slide = slides[classification?.slideIndex]
+    if (!type || !slide) return []
+
+    const boxText = Array.isArray(slide.textBoxes)
+      ? slide.textBoxes.map((textBox: { text?: string }) => textBox?.text?.trim()).filter(Boolean).join('\n')
+      : ''
+    const contentText = (slide.paraphrasedText?.trim() || boxText) as string
+    if (!contentText) return []
+
+    // A category name equal to the slide type (e.g. "HOOK") is only a placeholder
+    const categoryName = typeof classification.categoryName === 'string'
+      && classification.categoryName.trim()
+      && !normalizeSlideType(classification.categoryName.trim())
+      ? classification.categoryName.trim()
+      : undefined
+
+    return [{
+      slideIndex: classification.slideIndex,
+      type,
+      contentText,
+      ...(typeof classification.categoryId === 'string' && { categoryId: classification.categoryId }),
+      ...(categoryName && { categoryName })
+    }]
+  })
+}
+
+class SlideIndexService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Re-index a scraped post from its OCR text and slide classifications,
+   * filing its slides under the post's category
+   */
+  async indexTiktokPost(postId: string): Promise<number> {
+    const post = await this.prisma.tiktokPost.findUnique({
+      where: { id: postId },
+      select: {
+        ocrStatus: true,
+        ocrTexts: true,
+        slideClassifications: true,
+        postCategory: { select: { name: true } }
+      }
+    })
+
+    if (!post) {
+      throw new Error(`TikTok post not found: ${postId}`)
+    }
+
+    const slides = post.ocrStatus === 'completed' ? extractPostSlides(post) : []
+    const categoryName = post.postCategory?.name ?? UNCATEGORIZED
+
+    const rows: IndexRow[] = []
+    for (const slide of slides) {
+      rows.push({
+        slideIndex: slide.slideIndex,
+        type: slide.type,
+        categoryId: await this.resolveCategoryId(categoryName, slide.type),
+        contentText: slide.contentText,
+        sourcePostId: postId,
+        languageStyleTags: []
+      })
+    }
+
+    return this.syncRows({ tiktokPostId: postId }, rows)
+  }
+
+  /**
+   * Re-index a remix from its slides and slide classifications. A slide keeps
+   * the category it was classified with; otherwise it falls back to the
+   * category of the post it was remixed from.
+   */
+  async indexRemix(remixId: string): Promise<number> {
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: {
+        slides: true,
+        slideClassifications: true,
+        languageStyleTags: true,
+        originalPostId: true,
+        sourcePostIds: true
+      }
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    const sourcePostId = remix.originalPostId ?? remix.sourcePostIds[0] ?? null
+    const sourcePost = sourcePostId
+      ? await this.prisma.tiktokPost.findUnique({
+          where: { id: sourcePostId },
+          select: { postCategory: { select: { name: true } } }
+        })
+      : null
+    const fallbackCategory = sourcePost?.postCategory?.name ?? UNCATEGORIZED
+
+    const rows: IndexRow[] = []
+    for (const slide of extractRemixSlides(remix)) {
+      const category = slide.categoryId
+        ? await this.prisma.contentIdeaCategory.findUnique({
+            where: { id: slide.categoryId },
+            select: { id: true, type: true }
+          })
+        : null
+
+      rows.push({
+        slideIndex: slide.slideIndex,
+        type: slide.type,
+        categoryId: category?.type === slide.type
+          ? category.id
+          : await this.resolveCategoryId(slide.categoryName ?? fallbackCategory, slide.type),
+        contentText: slide.contentText,
+        sourcePostId,
+        languageStyleTags: remix.languageStyleTags
+      })
+    }
+
+    return this.syncRows({ remixPostId: remixId }, rows)
+  }
+
+  /**
+   * Indexing keeps the library fresh but must never fail the edit or OCR
+   * run that triggered it; errors are logged and the backfill catches up
+   */
+  async indexTiktokPostSafe(postId: string): Promise<void> {
+    try {
+      await this.indexTiktokPost(postId)
+    } catch (error) {
+      console.error(`❌ [SlideIndex] Failed to index post ${postId}:`, error)
+    }
+  }
+
+  async indexRemixSafe(remixId: string): Promise<void> {
+    try {
+      await this.indexRemix(remixId)
+    } catch (error) {
+      console.error(`❌ [SlideIndex] Failed to index remix ${remixId}:`, error)
+    }
+  }
+
+  /**
+   * Drop a remix's rows before it is deleted so category counts stay right
+   * (the cascade would remove the rows without recounting)
+   */
+  async removeRemixSafe(remixId: string): Promise<void> {
+    try {
+      await this.syncRows({ remixPostId: remixId }, [])
+    } catch (error) {
+      console.error(`❌ [SlideIndex] Failed to remove remix ${remixId} from index:`, error)
+    }
+  }
+
+  /**
+   * Drop the rows of several remixes at once, before a draft session and its
+   * remixes are deleted
+   */
+  async removeRemixesSafe(remixIds: string[]): Promise<void> {
+    if (remixIds.length === 0) return
+
+    try {
+      const where = { remixPostId: { in: remixIds } }
+      const previous = await this.prisma.slideClassificationIndex.findMany({
+        where,
+        select: { categoryId: true }
+      })
+
+      await this.prisma.slideClassificationIndex.deleteMany({ where })
+      await this.recountCategories(previous.map(entry => entry.categoryId))
+    } catch (error) {
+      console.error(`❌ [SlideIndex] Failed to remove ${remixIds.length} remixes from index:`, error)
+    }
+  }
+
+  /**
+   * Index one batch of existing posts (OCR completed) or remixes, in id order.
+   * Returns the cursor to continue from, or null when the source is done.
+   */
+  async backfillBatch(
+    source: SlideIndexSource,
+    cursor: string | null,
+    batchSize: number
+  ): Promise<{ processed: number; rowsIndexed: number; nextCursor: string | null }> {
+    const page = { take: batchSize, orderBy: { id: 'asc' as const }, select: { id: true } }
+    const ids = source === 'posts'
+      ? await this.prisma.tiktokPost.findMany({
+          ...page,
+          where: { ocrStatus: 'completed', ...(cursor && { id: { gt: cursor } }) }
+        })
+      : await this.prisma.remixPost.findMany({
+          ...page,
+          where: cursor ? { id: { gt: cursor } } : undefined
+        })
+
+    let rowsIndexed = 0
+    for (const { id } of ids) {
+      try {
+        rowsIndexed += source === 'posts' ? await this.indexTiktokPost(id) : await this.indexRemix(id)
+      } catch (error) {
+        console.error(`❌ [SlideIndex] Backfill failed for ${source} ${id}:`, error)
+      }
+    }
+
+    console.log(`📚 [SlideIndex] Backfilled ${ids.length} ${source} (${rowsIndexed} slides)`)
+
+    return {
+      processed: ids.length,
+      rowsIndexed,
+      nextCursor: ids.length === batchSize ? ids[ids.length - 1].id : null
+    }
+  }
+
+  /**
+   * Set slideCount from the index rows, for the given categories or all of them
+   */
+  async recountCategories(categoryIds?: string[]): Promise<void> {
+    const ids = categoryIds
+      ? [...new Set(categoryIds)]
+      : (await this.prisma.contentIdeaCategory.findMany({ select: { id: true } })).map(category => category.id)
+    if (ids.length === 0) return
+
+    const counts = await this.prisma.slideClassificationIndex.groupBy({
+      by: ['categoryId'],
+      where: { categoryId: { in: ids } },
+      _count: { _all: true }
+    })
+
+    await this.prisma.$transaction(
+      ids.map(id => this.prisma.contentIdeaCategory.update({
+        where: { id },
+        data: { slideCount: counts.find(count => count.categoryId === id)?._count._all ?? 0 }
+      }))
+    )
+  }
+
+  /**
+   * Replace a source's rows: upsert the current slides (keeping createdAt of
+   * slides already indexed), delete the rest and recount touched categories
+   */
+  private async syncRows(owner: SlideIndexOwner, rows: IndexRow[]): Promise<number> {
+    const previous = await this.prisma.slideClassificationIndex.findMany({
+      where: owner,
+      select: { categoryId: true }
+    })
+
+    await this.prisma.$transaction([
+      this.prisma.slideClassificationIndex.deleteMany({
+        where: { ...owner, slideIndex: { notIn: rows.map(row => row.slideIndex) } }
+      }),
+      ...rows.map(row => this.prisma.slideClassificationIndex.upsert({
+        where: 'remixPostId' in owner
+          ? { remixPostId_slideIndex: { remixPostId: owner.remixPostId, slideIndex: row.slideIndex } }
+          : { tiktokPostId_slideIndex: { tiktokPostId: owner.tiktokPostId, slideIndex: row.slideIndex } },
+        create: { ...owner, ...row },
+        update: row
+      }))
+    ])
+
+    await this.recountCategories([
+      ...previous.map(entry => entry.categoryId),
+      ...rows.map(row => row.categoryId)
+    ])
+
+    return rows.length
+  }
+
+  private async resolveCategoryId(name: string, type: IndexSlideType): Promise<string> {
+    const category = await this.prisma.contentIdeaCategory.upsert({
+      where: { name_type: { name, type } },
+      create: { name, type, aiGenerated: true },
+      update: {},
+      select: { id: true }
+    })
+    return category.id
+  }
+}
+
+// Export singleton instance
+export const slideIndexService = new SlideIndexService()
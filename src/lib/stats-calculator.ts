@@ -1,6 +1,6 @@
 /**
  * Stats Calculator Utility
- * Calculates performance metrics and comparisons for TikTok posts
+ * Calculates performance metrics and comparisons for TikTok posts and profiles
  */
 
 export interface PostMetrics {
@@ -150,6 +150,75 @@ export function calculateTrend(history: Array<{ viewCount: number }>): 'up' | 'd
   return 'stable'
 }
 
+export interface ProfileMetricsSnapshot {
+  followerCount: number
+  recordedAt: Date | string
+}
+
+export interface FollowerGrowth {
+  change: number
+  changePercent: number
+  perDay: number
+}
+
+/**
+ * Calculates average views per follower, i.e. how far posts reach beyond
+ * the existing audience
+ * @param avgViews - Average views per post
+ * @param followerCount - Current follower count
+ * @returns Views per follower (1 = each post is seen as often as there are followers)
+ */
+export function calculateViewsPerFollower(avgViews: number, followerCount: number): number {
+  if (followerCount === 0) return 0
+  return avgViews / followerCount
+}
+
+/**
+ * Calculates engagement rate against followers rather than views, so
+ * accounts of different sizes can be compared
+ * @param metrics - Post metrics (or per-post averages)
+ * @param followerCount - Current follower count
+ * @returns Engagement rate as a percentage of followers
+ */
+export function calculateFollowerEngagementRate(metrics: PostMetrics, followerCount: number): number {
+  if (followerCount === 0) return 0
+
+  const totalEngagements =
+    metrics.likeCount +
+    metrics.shareCount +
+    metrics.commentCount +
+    metrics.saveCount
+
+  return (totalEngagements / followerCount) * 100
+}
+
+/**
+ * Calculates follower growth over the last `days` of profile snapshots
+ * @param history - Profile snapshots ordered by date
+ * @param days - Window size in days
+ * @returns Growth within the window, or null with fewer than two snapshots in it
+ */
+export function calculateFollowerGrowth(history: ProfileMetricsSnapshot[], days: number): FollowerGrowth | null {
+  if (history.length < 2) return null
+
+  const latest = history[history.length - 1]
+  const latestTime = new Date(latest.recordedAt).getTime()
+  const windowStart = latestTime - days * 24 * 60 * 60 * 1000
+
+  // Oldest snapshot inside the window
+  const baseline = history.find(snapshot => new Date(snapshot.recordedAt).getTime() >= windowStart)
+  if (!baseline || baseline === latest) return null
+
+  const elapsedDays = (latestTime - new Date(baseline.recordedAt).getTime()) / (24 * 60 * 60 * 1000)
+  const change = latest.followerCount - baseline.followerCount
+
+  return {
+    change,
+    changePercent: calculatePercentChange(latest.followerCount, baseline.followerCount),
+    perDay: elapsedDays > 0 ? change / elapsedDays : 0
+  }
+}
+
 /**
  * Normalizes BigInt values to numbers for JSON serialization
  * @param value - BigInt, number, or string value
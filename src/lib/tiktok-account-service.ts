@@ -0,0 +1,218 @@
+/**
+ * TikTok Account Service
+ *
+ * Token handling and health checks for connected TikTok upload accounts.
+ * Tokens are refreshed ahead of expiry by the account-health worker; accounts
+ * whose refresh fails for good are marked EXPIRED/REVOKED and a notification
+ * is raised so someone reconnects them.
+ */
+
+import { PrismaClient, TiktokAccountStatus, type TiktokUploadAccount } from '@/generated/prisma'
+import { tiktokAPIService } from './tiktok-api-service'
+import { notificationService } from './notification-service'
+
+// Refresh access tokens this long before they expire (TikTok access tokens last 24h)
+const REFRESH_AHEAD_MS = parseFloat(process.env.TIKTOK_TOKEN_REFRESH_AHEAD_HOURS || '6') * 60 * 60 * 1000
+
+// TikTok OAuth errors meaning the user withdrew our authorization
+const REVOKED_ERROR_PATTERN = /invalid_grant|access_token_invalid|scope_not_authorized|revoked/i
+
+export interface AccountHealthResult {
+  accountId: string
+  status: TiktokAccountStatus
+  refreshed: boolean
+  error?: string
+}
+
+/**
+ * Decide what a failed token refresh means for an account.
+ * Returns null for transient failures that should not change the status.
+ */
+export function classifyRefreshFailure(
+  account: Pick<TiktokUploadAccount, 'tokenExpiresAt' | 'refreshExpiresAt'>,
+  errorMessage: string,
+  now: Date = new Date()
+): 'EXPIRED' | 'REVOKED' | null {
+  if (account.refreshExpiresAt < now) {
+    return TiktokAccountStatus.EXPIRED
+  }
+
+  if (REVOKED_ERROR_PATTERN.test(errorMessage)) {
+    return TiktokAccountStatus.REVOKED
+  }
+
+  // Transient failure (network, 5xx): only fatal once the access token is unusable
+  return account.tokenExpiresAt < now ? TiktokAccountStatus.EXPIRED : null
+}
+
+class TikTokAccountService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Return a usable access token for an account, refreshing it when expired.
+   * Marks the account EXPIRED/REVOKED and throws when the refresh fails.
+   */
+  async getValidAccessToken(accountId: string): Promise<string> {
+    const account = await this.prisma.tiktokUploadAccount.findUnique({
+      where: { id: accountId },
+    })
+
+    if (!account) {
+      throw new Error('Account not found')
+    }
+
+    if (account.status === TiktokAccountStatus.REVOKED) {
+      throw new Error('Account access was revoked. Please reconnect your account.')
+    }
+
+    if (account.tokenExpiresAt >= new Date()) {
+      return account.accessToken
+    }
+
+    try {
+      return await this.refreshAccount(account)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      await this.handleRefreshFailure(account, errorMessage)
+      throw new Error('Account token expired. Please reconnect your account.')
+    }
+  }
+
+  /**
+   * Refresh the account's token if it is close to expiry and record the outcome
+   */
+  async checkAccountHealth(accountId: string): Promise<AccountHealthResult> {
+    const account = await this.prisma.tiktokUploadAccount.findUnique({
+      where: { id: accountId },
+    })
+
+    if (!account) {
+      throw new Error(`Account not found: ${accountId}`)
+    }
+
+    const now = new Date()
+
+    if (account.status === TiktokAccountStatus.REVOKED) {
+      await this.prisma.tiktokUploadAccount.update({
+        where: { id: accountId },
+        data: { lastHealthCheckAt: now },
+      })
+      return { accountId, status: account.status, refreshed: false }
+    }
+
+    const needsRefresh =
+      account.status === TiktokAccountStatus.EXPIRED ||
+      account.tokenExpiresAt.getTime() - now.getTime() < REFRESH_AHEAD_MS
+
+    if (!needsRefresh) {
+      await this.prisma.tiktokUploadAccount.update({
+        where: { id: accountId },
+        data: { lastHealthCheckAt: now },
+      })
+      return { accountId, status: account.status, refreshed: false }
+    }
+
+    try {
+      await this.refreshAccount(account)
+      return { accountId, status: TiktokAccountStatus.ACTIVE, refreshed: true }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      const status = await this.handleRefreshFailure(account, errorMessage)
+      return { accountId, status, refreshed: false, error: errorMessage }
+    }
+  }
+
+  /**
+   * IDs of every account the health worker should look at
+   */
+  async getAccountIdsForHealthCheck(): Promise<string[]> {
+    const accounts = await this.prisma.tiktokUploadAccount.findMany({
+      where: {
+        OR: [
+          { status: TiktokAccountStatus.ACTIVE },
+          // Expired accounts can recover while their refresh token is still valid
+          { status: TiktokAccountStatus.EXPIRED, refreshExpiresAt: { gt: new Date() } },
+        ],
+      },
+      select: { id: true },
+    })
+
+    return accounts.map(account => account.id)
+  }
+
+  /**
+   * Record that an account was just used for an upload
+   */
+  async markUsed(accountId: string): Promise<void> {
+    await this.prisma.tiktokUploadAccount.update({
+      where: { id: accountId },
+      data: { lastUsedAt: new Date() },
+    })
+  }
+
+  private async refreshAccount(account: TiktokUploadAccount): Promise<string> {
+    const tokenData = await tiktokAPIService.refreshAccessToken(account.refreshToken)
+    const now = new Date()
+
+    await this.prisma.tiktokUploadAccount.update({
+      where: { id: account.id },
+      data: {
+        accessToken: tokenData.access_token,
+        refreshToken: tokenData.refresh_token,
+        tokenExpiresAt: new Date(now.getTime() + tokenData.expires_in * 1000),
+        refreshExpiresAt: new Date(now.getTime() + tokenData.refresh_expires_in * 1000),
+        status: TiktokAccountStatus.ACTIVE,
+        lastRefreshedAt: now,
+        lastHealthCheckAt: now,
+        healthError: null,
+      },
+    })
+
+    console.log(`🔄 [TikTokAccount] Refreshed access token for @${account.username}`)
+    return tokenData.access_token
+  }
+
+  /**
+   * Store the refresh error and, when it is fatal, flip the status and notify.
+   * Returns the account's resulting status.
+   */
+  private async handleRefreshFailure(account: TiktokUploadAccount, errorMessage: string): Promise<TiktokAccountStatus> {
+    console.error(`❌ [TikTokAccount] Failed to refresh token for @${account.username}:`, errorMessage)
+
+    const newStatus = classifyRefreshFailure(account, errorMessage)
+
+    await this.prisma.tiktokUploadAccount.update({
+      where: { id: account.id },
+      data: {
+        healthError: errorMessage,
+        lastHealthCheckAt: new Date(),
+        ...(newStatus && { status: newStatus }),
+      },
+    })
+
+    if (!newStatus) {
+      console.warn(`⚠️ [TikTokAccount] Transient refresh failure for @${account.username}, will retry`)
+      return account.status
+    }
+
+    // Only notify on the transition, not on every failed retry
+    if (newStatus !== account.status) {
+      await notificationService.notifyAccountHealth({
+        id: account.id,
+        username: account.username,
+        displayName: account.displayName,
+        status: newStatus,
+        reason: errorMessage,
+      })
+    }
+
+    return newStatus
+  }
+}
+
+export const tiktokAccountService = new TikTokAccountService()
+export default TikTokAccountService
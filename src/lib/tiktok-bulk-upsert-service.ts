@@ -8,7 +8,8 @@
 import { PrismaClient, Prisma } from '@/generated/prisma'
 import { mediaCacheServiceV2 } from './media-cache-service-v2'
 import { ocrQueue } from './queue/ocr-queue'
-import { notificationService } from './notification-service'
+import { alertEngine } from './alert-engine'
+import { trendIndexService } from './trend-index-service'
 
 /**
  * Split array into chunks
@@ -89,6 +90,9 @@ export interface PostData {
   videoUrl?: string
   coverUrl?: string
   musicUrl?: string
+  musicTiktokId?: string
+  musicTitle?: string
+  musicAuthor?: string
   images: Array<{ url: string; width: number; height: number; cacheAssetId?: string }>
   publishedAt?: string | Date
 }
@@ -148,12 +152,13 @@ export class TikTokBulkUpsertService {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Bulk upsert profile and posts
+   * Bulk upsert profile and posts. `skipAlerts` leaves alert rules alone, for
+   * imports of old posts that would otherwise fire alerts in bulk.
    */
   async bulkUpsert(
     profileData: ProfileData,
     postsData: PostData[],
-    options?: { forceRecache?: boolean }
+    options?: { forceRecache?: boolean; skipAlerts?: boolean }
   ): Promise<BulkUpsertResult> {
     const forceRecache = options?.forceRecache || false
     console.log(`🔄 [BulkUpsertService] Bulk upsert starting`, {
@@ -309,6 +314,9 @@ export class TikTokBulkUpsertService {
               videoId: cachedMedia.cachedVideo,
               coverId: cachedMedia.cachedCover,
               musicId: cachedMedia.cachedMusic,
+              musicTitle: sanitizeString(postData.musicTitle),
+              musicAuthor: sanitizeString(postData.musicAuthor),
+              musicTiktokId: postData.musicTiktokId,
               images: safeStringify(cachedMedia.cachedImages.length > 0 ? cachedMedia.cachedImages : postData.images),
               publishedAt: postData.publishedAt ? new Date(postData.publishedAt) : null
             }
@@ -331,6 +339,10 @@ export class TikTokBulkUpsertService {
               commentCount: postData.commentCount,
               saveCount: postData.saveCount,
               duration: postData.duration,
+              // Keep known music metadata when a payload omits it
+              musicTitle: sanitizeString(postData.musicTitle) ?? undefined,
+              musicAuthor: sanitizeString(postData.musicAuthor) ?? undefined,
+              musicTiktokId: postData.musicTiktokId ?? undefined,
               publishedAt: postData.publishedAt ? new Date(postData.publishedAt) : null,
               updatedAt: new Date()
             }
@@ -470,37 +482,37 @@ export class TikTokBulkUpsertService {
       profileAvatarCached: !!profileAvatarId
     })
 
-    // Check for high views and send notifications if needed
-    console.log(`🔔 [BulkUpsertService] Checking for high views notifications`)
+    const upsertedPosts = await this.prisma.tiktokPost.findMany({
+      where: {
+        tiktokId: { in: postsData.map(p => p.tiktokId) }
+      },
+      select: { id: true }
+    })
+    const upsertedPostIds = upsertedPosts.map(post => post.id)
+
+    // Link posts to their sound and hashtags for the trends tracker
+    console.log(`🏷️ [BulkUpsertService] Indexing sounds and hashtags`)
     try {
-      // Fetch all posts that were just upserted to check their metrics
-      const tiktokIds = postsData.map(p => p.tiktokId)
-      const postsToCheck = await this.prisma.tiktokPost.findMany({
-        where: {
-          tiktokId: { in: tiktokIds }
-        },
-        select: {
-          id: true,
-          tiktokUrl: true,
-          viewCount: true,
-          likeCount: true,
-          shareCount: true,
-          commentCount: true,
-          title: true,
-          description: true,
-          coverId: true
-        }
-      })
+      const indexedCount = await trendIndexService.indexPosts(upsertedPostIds)
+      console.log(`✅ [BulkUpsertService] Indexed sounds and hashtags for ${indexedCount} posts`)
+    } catch (error) {
+      console.error(`❌ [BulkUpsertService] Failed to index sounds and hashtags:`, error)
+      // Unindexed posts are picked up by the next trend refresh sweep
+    }
 
-      // Check each post for high views (non-blocking)
-      await Promise.allSettled(
-        postsToCheck.map(post => notificationService.checkAndNotifyHighViews(post))
-      )
+    // Evaluate alert rules against the freshly upserted posts
+    if (options?.skipAlerts) {
+      console.log(`⏭️ [BulkUpsertService] Skipping alert rules`)
+    } else {
+      console.log(`🔔 [BulkUpsertService] Evaluating alert rules`)
+      try {
+        await alertEngine.evaluatePosts(upsertedPostIds)
 
-      console.log(`✅ [BulkUpsertService] High views check completed`)
-    } catch (error) {
-      console.error(`❌ [BulkUpsertService] Failed to check for notifications:`, error)
-      // Don't fail the whole operation if notifications fail
+        console.log(`✅ [BulkUpsertService] Alert rules evaluated`)
+      } catch (error) {
+        console.error(`❌ [BulkUpsertService] Failed to evaluate alert rules:`, error)
+        // Don't fail the whole operation if notifications fail
+      }
     }
 
     return {
@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { getCachedData, setCachedData, CACHE_KEYS, CACHE_TTL } from './redis-cache'
+import { getScrapingProvider } from './scraping'
 
 // Zod schemas for TikTok Profile Videos API
 
@@ -107,6 +108,9 @@ export interface TikTokPost {
   videoUrl?: string
   coverUrl?: string
   musicUrl?: string
+  musicTiktokId?: string
+  musicTitle?: string
+  musicAuthor?: string
   images: Array<{
     url: string
     width: number
@@ -170,11 +174,6 @@ export async function scrapeProfileVideos(
   maxCursor?: string,
   trim: boolean = true
 ): Promise<ProfileVideosResult> {
-  const apiKey = process.env.SCRAPECREATORS_API_KEY
-  if (!apiKey) {
-    throw new Error('SCRAPECREATORS_API_KEY is not configured')
-  }
-
   // Build cache params
   const cacheParams = { handle, max_cursor: maxCursor || '', trim }
 
@@ -188,33 +187,7 @@ export async function scrapeProfileVideos(
   let rawData: any = null
 
   try {
-    // Build API URL
-    const baseUrl = 'https://api.scrapecreators.com/v3/tiktok/profile/videos'
-    const params = new URLSearchParams({ handle, trim: trim.toString() })
-    if (maxCursor) {
-      params.append('max_cursor', maxCursor)
-    }
-
-    const apiUrl = `${baseUrl}?${params.toString()}`
-
-    console.log('Fetching profile videos from TikTok API:', apiUrl)
-
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'x-api-key': apiKey
-      }
-    })
-
-    if (!response.ok) {
-      console.error(`API request failed with status ${response.status}: ${response.statusText}`)
-      const errorText = await response.text()
-      console.error('Error response body:', errorText)
-      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`)
-    }
-
-    rawData = await response.json()
+    rawData = await getScrapingProvider().fetchProfileVideos(handle, maxCursor, trim)
     console.log('Raw API response:', JSON.stringify(rawData, null, 2))
 
     // Validate the response structure
@@ -281,6 +254,9 @@ export async function scrapeProfileVideos(
         videoUrl,
         coverUrl,
         musicUrl: item.music?.play_url?.url_list[0],
+        musicTiktokId: item.music?.id,
+        musicTitle: item.music?.title,
+        musicAuthor: item.music?.author,
         images,
         publishedAt: new Date(item.create_time * 1000) // Convert from Unix timestamp
       }
@@ -324,4 +300,59 @@ export async function scrapeProfileVideos(
     console.error('Error scraping profile videos:', error)
     throw error instanceof Error ? error : new Error('Failed to scrape profile videos')
   }
-}
\ No newline at end of file
+}
+
+// Zod schema for TikTok Profile API (user details and follower stats)
+
+const ProfileInfoResponseSchema = z.object({
+  user: z.object({
+    id: z.string().optional(),
+    uniqueId: z.string(),
+    nickname: z.string().optional(),
+    avatarLarger: z.string().optional(),
+    avatarMedium: z.string().optional(),
+    signature: z.string().optional(),
+    verified: z.boolean().optional()
+  }).passthrough(),
+  stats: z.object({
+    followerCount: z.number().optional().default(0),
+    followingCount: z.number().optional().default(0),
+    heartCount: z.number().optional(),
+    heart: z.number().optional(),
+    videoCount: z.number().optional().default(0)
+  }).passthrough().optional()
+}).passthrough()
+
+export interface ProfileInfo extends ProfileData {
+  followerCount: number
+  followingCount: number
+  likeCount: number
+  videoCount: number
+}
+
+export async function scrapeProfileInfo(handle: string): Promise<ProfileInfo> {
+  try {
+    const rawData = await getScrapingProvider().fetchProfileInfo(handle)
+    const data = ProfileInfoResponseSchema.parse(rawData)
+
+    return {
+      handle: data.user.uniqueId || handle,
+      nickname: data.user.nickname || undefined,
+      avatar: data.user.avatarMedium || data.user.avatarLarger || undefined,
+      bio: data.user.signature || undefined,
+      verified: data.user.verified || undefined,
+      followerCount: data.stats?.followerCount ?? 0,
+      followingCount: data.stats?.followingCount ?? 0,
+      likeCount: data.stats?.heartCount ?? data.stats?.heart ?? 0,
+      videoCount: data.stats?.videoCount ?? 0
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error('API response validation failed:', error.issues)
+      const validationErrors = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')
+      throw new Error(`Invalid API response structure: ${validationErrors}`)
+    }
+    console.error('Error scraping profile info:', error)
+    throw error instanceof Error ? error : new Error('Failed to scrape profile info')
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Trend Index Service
+ *
+ * Indexes the sound and hashtags of every monitored post into Sound / Hashtag
+ * rows, and refreshes their usage counts and views-weighted momentum from the
+ * post metrics history.
+ */
+
+import { PrismaClient } from '@/generated/prisma'
+import { normalizeBigInt } from './stats-calculator'
+
+const HOUR_MS = 60 * 60 * 1000
+export const TREND_WINDOW_24H_MS = 24 * HOUR_MS
+export const TREND_WINDOW_7D_MS = 7 * 24 * HOUR_MS
+
+// Posts indexed per transaction
+const INDEX_BATCH_SIZE = 100
+// Sound/hashtag stat rows written per transaction
+const STATS_BATCH_SIZE = 200
+
+export interface PostViewSnapshot {
+  viewCount: bigint | number | null
+  recordedAt: Date
+}
+
+export interface PostViewGains {
+  gained24h: number
+  gained7d: number
+}
+
+export interface TrendStats {
+  postCount: number
+  recentPostCount: number
+  totalViews: number
+  viewsGained24h: number
+  viewsGained7d: number
+  lastPostedAt: Date | null
+}
+
+/**
+ * Normalize a hashtag to its index name: lowercase, without the leading '#'
+ */
+export function normalizeHashtag(text: string): string | null {
+  const name = text.trim().replace(/^#+/, '').trim().toLowerCase()
+  return name.length > 0 ? name : null
+}
+
+/**
+ * Unique hashtag names from a post's hashtags column, which holds either an
+ * array of { text, url } objects or that array serialized as a string
+ */
+export function parseHashtagNames(hashtags: unknown): string[] {
+  let entries: unknown = hashtags
+  if (typeof entries === 'string') {
+    try {
+      entries = JSON.parse(entries || '[]')
+    } catch {
+      return []
+    }
+  }
+  if (!Array.isArray(entries)) return []
+
+  const names = new Set<string>()
+  for (const entry of entries) {
+    const text = typeof entry === 'string' ? entry : (entry as { text?: unknown })?.text
+    if (typeof text !== 'string') continue
+    const name = normalizeHashtag(text)
+    if (name) names.add(name)
+  }
+  return [...names]
+}
+
+/**
+ * Stable key for a post's sound. TikTok's music id when known, otherwise the
+ * lowercased title and author (posts saved from the extension only carry those).
+ */
+export function getSoundKey(music: {
+  musicTiktokId?: string | null
+  musicTitle?: string | null
+  musicAuthor?: string | null
+}): string | null {
+  if (music.musicTiktokId) return music.musicTiktokId
+
+  const title = music.musicTitle?.trim().toLowerCase()
+  if (!title) return null
+  return `${title}|${music.musicAuthor?.trim().toLowerCase() ?? ''}`
+}
+
+/**
+ * Views a post gained since windowStart. The baseline is the last snapshot
+ * taken at or before the window start, falling back to the first snapshot
+ * inside the window. Posts published inside the window gained all their views.
+ */
+export function calculateViewsGained(
+  currentViews: number,
+  history: PostViewSnapshot[],
+  windowStart: Date,
+  publishedAt: Date | null
+): number {
+  if (publishedAt && publishedAt >= windowStart) return currentViews
+
+  let baseline: number | null = null
+  for (const snapshot of history) {
+    if (snapshot.recordedAt <= windowStart) {
+      baseline = normalizeBigInt(snapshot.viewCount)
+    } else {
+      if (baseline === null) baseline = normalizeBigInt(snapshot.viewCount)
+      break
+    }
+  }
+
+  if (baseline === null) return 0
+  return Math.max(0, currentViews - baseline)
+}
+
+/**
+ * Views gained over the last 24 hours and 7 days. History must be sorted by recordedAt ascending.
+ */
+export function calculatePostViewGains(
+  post: { viewCount: bigint | number | null; publishedAt: Date | null },
+  history: PostViewSnapshot[],
+  now: Date = new Date()
+): PostViewGains {
+  const currentViews = normalizeBigInt(post.viewCount)
+  return {
+    gained24h: calculateViewsGained(currentViews, history, new Date(now.getTime() - TREND_WINDOW_24H_MS), post.publishedAt),
+    gained7d: calculateViewsGained(currentViews, history, new Date(now.getTime() - TREND_WINDOW_7D_MS), post.publishedAt)
+  }
+}
+
+/**
+ * Momentum: views gained in the last 24h relative to the 7-day daily average.
+ * Above 1 means the sound/hashtag is accelerating.
+ */
+export function calculateMomentum(gained24h: number, gained7d: number): number {
+  if (gained7d <= 0) return 0
+  return Math.round((gained24h / (gained7d / 7)) * 100) / 100
+}
+
+function emptyTrendStats(): TrendStats {
+  return {
+    postCount: 0,
+    recentPostCount: 0,
+    totalViews: 0,
+    viewsGained24h: 0,
+    viewsGained7d: 0,
+    lastPostedAt: null
+  }
+}
+
+function chunkArray<T>(array: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < array.length; i += size) {
+    chunks.push(array.slice(i, i + size))
+  }
+  return chunks
+}
+
+class TrendIndexService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Link posts to their Sound and Hashtag rows, creating any that are new
+   */
+  async indexPosts(postIds: string[]): Promise<number> {
+    let indexed = 0
+
+    for (const batchIds of chunkArray(postIds, INDEX_BATCH_SIZE)) {
+      const posts = await this.prisma.tiktokPost.findMany({
+        where: { id: { in: batchIds } },
+        select: {
+          id: true,
+          hashtags: true,
+          musicTiktokId: true,
+          musicTitle: true,
+          musicAuthor: true
+        }
+      })
+      if (posts.length === 0) continue
+
+      const soundsByKey = new Map<string, { tiktokMusicId: string | null; title: string | null; author: string | null }>()
+      const postSoundKeys = new Map<string, string>()
+      const postHashtagNames = new Map<string, string[]>()
+
+      for (const post of posts) {
+        const soundKey = getSoundKey(post)
+        if (soundKey) {
+          postSoundKeys.set(post.id, soundKey)
+          if (!soundsByKey.has(soundKey)) {
+            soundsByKey.set(soundKey, {
+              tiktokMusicId: post.musicTiktokId,
+              title: post.musicTitle,
+              author: post.musicAuthor
+            })
+          }
+        }
+        postHashtagNames.set(post.id, parseHashtagNames(post.hashtags))
+      }
+
+      const hashtagNames = [...new Set([...postHashtagNames.values()].flat())]
+
+      // createMany + skipDuplicates is safe when several workers index the same sound at once
+      if (soundsByKey.size > 0) {
+        await this.prisma.sound.createMany({
+          data: [...soundsByKey].map(([key, sound]) => ({ key, ...sound })),
+          skipDuplicates: true
+        })
+      }
+      if (hashtagNames.length > 0) {
+        await this.prisma.hashtag.createMany({
+          data: hashtagNames.map(name => ({ name })),
+          skipDuplicates: true
+        })
+      }
+
+      const [sounds, hashtags] = await Promise.all([
+        this.prisma.sound.findMany({ where: { key: { in: [...soundsByKey.keys()] } }, select: { id: true, key: true } }),
+        this.prisma.hashtag.findMany({ where: { name: { in: hashtagNames } }, select: { id: true, name: true } })
+      ])
+      const soundIds = new Map(sounds.map(sound => [sound.key, sound.id]))
+      const hashtagIds = new Map(hashtags.map(hashtag => [hashtag.name, hashtag.id]))
+
+      const indexedAt = new Date()
+      await this.prisma.$transaction([
+        ...posts.map(post => {
+          const soundKey = postSoundKeys.get(post.id)
+          return this.prisma.tiktokPost.update({
+            where: { id: post.id },
+            data: {
+              soundId: soundKey ? soundIds.get(soundKey) ?? null : null,
+              trendsIndexedAt: indexedAt
+            }
+          })
+        }),
+        this.prisma.postHashtag.deleteMany({ where: { postId: { in: posts.map(post => post.id) } } }),
+        this.prisma.postHashtag.createMany({
+          data: posts.flatMap(post =>
+            (postHashtagNames.get(post.id) ?? [])
+              .filter(name => hashtagIds.has(name))
+              .map(name => ({ postId: post.id, hashtagId: hashtagIds.get(name)! }))
+          ),
+          skipDuplicates: true
+        })
+      ])
+
+      indexed += posts.length
+    }
+
+    return indexed
+  }
+
+  /**
+   * Index posts saved before the trend index existed (or whose indexing failed)
+   */
+  async indexPendingPosts(limit = 1000): Promise<number> {
+    const pending = await this.prisma.tiktokPost.findMany({
+      where: { trendsIndexedAt: null },
+      select: { id: true },
+      take: limit
+    })
+
+    if (pending.length === 0) return 0
+
+    console.log(`🏷️ [TrendIndexService] Indexing ${pending.length} pending posts`)
+    return this.indexPosts(pending.map(post => post.id))
+  }
+
+  /**
+   * Recompute usage counts and views gained over the 24h / 7d windows for every sound and hashtag
+   */
+  async refreshTrendStats(now: Date = new Date()): Promise<{ soundsUpdated: number; hashtagsUpdated: number }> {
+    const recentSince = new Date(now.getTime() - TREND_WINDOW_7D_MS)
+    // One extra day so the 7-day window has a baseline snapshot from before it started
+    const historySince = new Date(now.getTime() - TREND_WINDOW_7D_MS - TREND_WINDOW_24H_MS)
+
+    const [posts, snapshots] = await Promise.all([
+      this.prisma.tiktokPost.findMany({
+        where: {
+          OR: [
+            { soundId: { not: null } },
+            { postHashtags: { some: {} } }
+          ]
+        },
+        select: {
+          id: true,
+          soundId: true,
+          viewCount: true,
+          publishedAt: true,
+          postHashtags: { select: { hashtagId: true } }
+        }
+      }),
+      this.prisma.tikTokPostMetricsHistory.findMany({
+        where: { recordedAt: { gte: historySince } },
+        select: { postId: true, viewCount: true, recordedAt: true },
+        orderBy: { recordedAt: 'asc' }
+      })
+    ])
+
+    const historyByPost = new Map<string, PostViewSnapshot[]>()
+    for (const snapshot of snapshots) {
+      const history = historyByPost.get(snapshot.postId) ?? []
+      history.push(snapshot)
+      historyByPost.set(snapshot.postId, history)
+    }
+
+    const soundStats = new Map<string, TrendStats>()
+    const hashtagStats = new Map<string, TrendStats>()
+
+    const addPost = (statsById: Map<string, TrendStats>, id: string, views: number, gains: PostViewGains, publishedAt: Date | null) => {
+      const stats = statsById.get(id) ?? emptyTrendStats()
+      stats.postCount++
+      stats.totalViews += views
+      stats.viewsGained24h += gains.gained24h
+      stats.viewsGained7d += gains.gained7d
+      if (publishedAt && publishedAt >= recentSince) stats.recentPostCount++
+      if (publishedAt && (!stats.lastPostedAt || publishedAt > stats.lastPostedAt)) stats.lastPostedAt = publishedAt
+      statsById.set(id, stats)
+    }
+
+    for (const post of posts) {
+      const views = normalizeBigInt(post.viewCount)
+      const gains = calculatePostViewGains(post, historyByPost.get(post.id) ?? [], now)
+
+      if (post.soundId) addPost(soundStats, post.soundId, views, gains, post.publishedAt)
+      for (const { hashtagId } of post.postHashtags) {
+        addPost(hashtagStats, hashtagId, views, gains, post.publishedAt)
+      }
+    }
+
+    const toData = (stats: TrendStats) => ({
+      postCount: stats.postCount,
+      recentPostCount: stats.recentPostCount,
+      totalViews: BigInt(stats.totalViews),
+      viewsGained24h: BigInt(stats.viewsGained24h),
+      viewsGained7d: BigInt(stats.viewsGained7d),
+      momentum: calculateMomentum(stats.viewsGained24h, stats.viewsGained7d),
+      lastPostedAt: stats.lastPostedAt,
+      statsUpdatedAt: now
+    })
+
+    for (const batch of chunkArray([...soundStats], STATS_BATCH_SIZE)) {
+      await this.prisma.$transaction(
+        batch.map(([id, stats]) => this.prisma.sound.update({ where: { id }, data: toData(stats) }))
+      )
+    }
+    for (const batch of chunkArray([...hashtagStats], STATS_BATCH_SIZE)) {
+      await this.prisma.$transaction(
+        batch.map(([id, stats]) => this.prisma.hashtag.update({ where: { id }, data: toData(stats) }))
+      )
+    }
+
+    // Anything not touched above no longer has posts
+    const staleWhere = { OR: [{ statsUpdatedAt: null }, { statsUpdatedAt: { lt: now } }] }
+    const emptyData = toData(emptyTrendStats())
+    await this.prisma.sound.updateMany({ where: staleWhere, data: emptyData })
+    await this.prisma.hashtag.updateMany({ where: staleWhere, data: emptyData })
+
+    console.log(`📈 [TrendIndexService] Refreshed stats for ${soundStats.size} sounds and ${hashtagStats.size} hashtags`)
+
+    return { soundsUpdated: soundStats.size, hashtagsUpdated: hashtagStats.size }
+  }
+}
+
+// Export singleton instance
+export const trendIndexService = new TrendIndexService()
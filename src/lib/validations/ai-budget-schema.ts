@@ -0,0 +1,19 @@
+/**
+ * AI Budget Validation
+ *
+ * Request schema for setting the daily or monthly AI spend budget.
+ */
+
+import { z } from 'zod'
+
+export const AiBudgetPeriodSchema = z.enum(['daily', 'monthly'])
+
+export const UpsertAiBudgetSchema = z.object({
+  period: AiBudgetPeriodSchema,
+  limitUsd: z.number().positive().max(1_000_000),
+  warnAtPercent: z.number().int().min(1).max(100).optional(),
+  pauseQueues: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+})
+
+export type UpsertAiBudgetInput = z.infer<typeof UpsertAiBudgetSchema>
@@ -0,0 +1,54 @@
+/**
+ * Alert Rule Validation
+ *
+ * Request schemas for creating and updating alert rules.
+ */
+
+import { z } from 'zod'
+import { AlertCondition, AlertMetric, NotificationType } from '@/generated/prisma'
+
+const HoursSchema = z.number().int().min(1).max(24 * 90)
+
+const AlertRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  enabled: z.boolean().optional(),
+  metric: z.enum(AlertMetric),
+  condition: z.enum(AlertCondition),
+  threshold: z.number().min(0),
+  windowHours: HoursSchema.nullable().optional(),
+  minPostAgeHours: HoursSchema.nullable().optional(),
+  maxPostAgeHours: HoursSchema.nullable().optional(),
+  profileId: z.string().min(1).nullable().optional(),
+  profileGroupId: z.string().min(1).nullable().optional(),
+  postCategoryId: z.string().min(1).nullable().optional(),
+  notificationType: z.enum(NotificationType).refine(
+    type => type !== NotificationType.ACCOUNT_HEALTH,
+    'ACCOUNT_HEALTH is reserved for account notifications'
+  ).optional(),
+  inApp: z.boolean().optional(),
+  useDefaultChannels: z.boolean().optional(),
+  channelIds: z.array(z.string().min(1)).optional(),
+  cooldownHours: HoursSchema.nullable().optional(),
+})
+
+const hasValidAgeRange = (data: { minPostAgeHours?: number | null; maxPostAgeHours?: number | null }) =>
+  data.minPostAgeHours == null || data.maxPostAgeHours == null || data.minPostAgeHours <= data.maxPostAgeHours
+
+export const CreateAlertRuleSchema = AlertRuleFieldsSchema.refine(hasValidAgeRange, {
+  message: 'minPostAgeHours must not exceed maxPostAgeHours',
+})
+
+export const UpdateAlertRuleSchema = AlertRuleFieldsSchema.partial().refine(hasValidAgeRange, {
+  message: 'minPostAgeHours must not exceed maxPostAgeHours',
+})
+
+export const SnoozeAlertRuleSchema = z.object({
+  hours: z.number().positive().max(24 * 90).optional(),
+  until: z.coerce.date().optional(),
+}).refine(data => data.hours !== undefined || data.until !== undefined, {
+  message: 'Either hours or until is required',
+})
+
+export type CreateAlertRuleInput = z.infer<typeof CreateAlertRuleSchema>
+export type UpdateAlertRuleInput = z.infer<typeof UpdateAlertRuleSchema>
@@ -0,0 +1,79 @@
+/**
+ * Brand Kit Validation
+ *
+ * Request schemas for brand kits and the text style presets they carry.
+ */
+
+import { z } from 'zod'
+import { BackgroundLayerSchema, RemixTextBoxSchema } from './remix-schema'
+
+const HexColorSchema = z.string().regex(/^#[0-9A-Fa-f]{6}$/)
+
+// Text box fields a brand text style sets; position, size and text are left
+// to the slide
+const TextStyleFieldsSchema = RemixTextBoxSchema.pick({
+  fontSize: true,
+  fontFamily: true,
+  fontWeight: true,
+  fontStyle: true,
+  textDecoration: true,
+  color: true,
+  textAlign: true,
+  enableShadow: true,
+  shadowColor: true,
+  shadowBlur: true,
+  shadowOffsetX: true,
+  shadowOffsetY: true,
+  outlineWidth: true,
+  outlineColor: true,
+  backgroundColor: true,
+  backgroundOpacity: true,
+  borderRadius: true,
+  borderWidth: true,
+  borderColor: true,
+  paddingTop: true,
+  paddingRight: true,
+  paddingBottom: true,
+  paddingLeft: true,
+  lineHeight: true,
+  letterSpacing: true,
+  wordSpacing: true,
+})
+
+export const BRAND_TEXT_STYLE_FIELDS = Object.keys(TextStyleFieldsSchema.shape) as Array<
+  keyof typeof TextStyleFieldsSchema.shape
+>
+
+export const BrandTextStyleSchema = TextStyleFieldsSchema.extend({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+  isDefault: z.boolean().default(false),
+  // Slide role the style is meant for; the default style covers the rest
+  slideType: z.enum(['Hook', 'Content', 'CTA']).nullable().optional(),
+})
+
+const BrandKitFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  palette: z.array(HexColorSchema).max(24).optional(),
+  headingFont: z.string().min(1).max(100).nullable().optional(),
+  bodyFont: z.string().min(1).max(100).nullable().optional(),
+  textStyles: z.array(BrandTextStyleSchema).max(50).optional(),
+  logoAssetIds: z.array(z.string().min(1)).max(20).optional(),
+  backgroundLayers: z.array(BackgroundLayerSchema).max(10).optional(),
+})
+
+const hasOneDefaultStyle = (data: { textStyles?: Array<{ isDefault: boolean }> }) =>
+  (data.textStyles ?? []).filter(style => style.isDefault).length <= 1
+
+export const CreateBrandKitSchema = BrandKitFieldsSchema.refine(hasOneDefaultStyle, {
+  message: 'Only one text style can be the default',
+})
+
+export const UpdateBrandKitSchema = BrandKitFieldsSchema.partial().refine(hasOneDefaultStyle, {
+  message: 'Only one text style can be the default',
+})
+
+export type BrandTextStyle = z.infer<typeof BrandTextStyleSchema>
+export type CreateBrandKitInput = z.infer<typeof CreateBrandKitSchema>
+export type UpdateBrandKitInput = z.infer<typeof UpdateBrandKitSchema>
@@ -0,0 +1,45 @@
+/**
+ * Monitoring Schedule Validation
+ *
+ * Shared request schema for per-profile and per-group monitoring settings.
+ * Every field is optional; null clears an override so the value is inherited.
+ */
+
+import { z } from 'zod'
+import {
+  isValidTimezone,
+  MIN_MONITORING_INTERVAL_HOURS,
+  MAX_MONITORING_INTERVAL_HOURS,
+  type MonitoringScheduleFields,
+} from '@/lib/monitoring-schedule'
+
+const HourSchema = z.number().int().min(0).max(23)
+
+const MonitoringSettingsSchema = z.object({
+  intervalHours: z.number().min(MIN_MONITORING_INTERVAL_HOURS).max(MAX_MONITORING_INTERVAL_HOURS).nullable().optional(),
+  activeStart: HourSchema.nullable().optional(),
+  activeEnd: HourSchema.nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid IANA timezone').nullable().optional(),
+  adaptive: z.boolean().nullable().optional(),
+}).refine(
+  data => (data.activeStart === undefined) === (data.activeEnd === undefined),
+  { message: 'activeStart and activeEnd must be set together' }
+)
+
+type MonitoringSettingsInput = z.infer<typeof MonitoringSettingsSchema>
+
+/**
+ * Map validated settings to Prisma fields, skipping ones that were not sent
+ */
+function toMonitoringScheduleData(settings: MonitoringSettingsInput): Partial<MonitoringScheduleFields> {
+  return {
+    ...(settings.intervalHours !== undefined && { monitoringIntervalHours: settings.intervalHours }),
+    ...(settings.activeStart !== undefined && { monitoringActiveStart: settings.activeStart }),
+    ...(settings.activeEnd !== undefined && { monitoringActiveEnd: settings.activeEnd }),
+    ...(settings.timezone !== undefined && { monitoringTimezone: settings.timezone }),
+    ...(settings.adaptive !== undefined && { monitoringAdaptive: settings.adaptive }),
+  }
+}
+
+export type { MonitoringSettingsInput }
+export { MonitoringSettingsSchema, toMonitoringScheduleData }
@@ -0,0 +1,30 @@
+/**
+ * Notification Channel Validation
+ *
+ * Request schemas for notification channels. The per-type `config` is
+ * validated separately by the channel's adapter.
+ */
+
+import { z } from 'zod'
+import { DeliveryStatus, NotificationChannelType } from '@/generated/prisma'
+
+export const CreateNotificationChannelSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(NotificationChannelType),
+  enabled: z.boolean().optional(),
+  isDefault: z.boolean().optional(),
+  config: z.record(z.string(), z.unknown()),
+})
+
+export const UpdateNotificationChannelSchema = CreateNotificationChannelSchema
+  .omit({ type: true })
+  .partial()
+
+export const DeliveryLogQuerySchema = z.object({
+  channelId: z.string().min(1).optional(),
+  status: z.enum(DeliveryStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+export type CreateNotificationChannelInput = z.infer<typeof CreateNotificationChannelSchema>
+export type UpdateNotificationChannelInput = z.infer<typeof UpdateNotificationChannelSchema>
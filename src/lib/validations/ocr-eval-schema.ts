@@ -0,0 +1,44 @@
+/**
+ * OCR Evaluation Validation
+ *
+ * Request schemas for gold set cases and evaluation runs.
+ */
+
+import { z } from 'zod'
+import { EVAL_SLIDE_TYPES } from '../ocr-eval-metrics'
+
+export const EvalSlideSchema = z.object({
+  imageIndex: z.number().int().min(0),
+  slideType: z.enum(EVAL_SLIDE_TYPES),
+  ocrText: z.string().max(5000),
+})
+
+export const CreateOcrEvalCaseSchema = z.object({
+  post: z.string().trim().min(1), // Post id or TikTok URL
+})
+
+export const UpdateOcrEvalCaseSchema = z.object({
+  category: z.string().trim().min(1).max(100).nullable().optional(), // null = category not scored
+  slides: z.array(EvalSlideSchema).min(1).max(35)
+    .refine(
+      slides => new Set(slides.map(slide => slide.imageIndex)).size === slides.length,
+      'Each image index can only be labeled once'
+    )
+    .optional(),
+  notes: z.string().max(1000).nullable().optional(),
+})
+
+export const CreateOcrEvalRunSchema = z.object({
+  model: z.string().trim().min(1).max(100).optional(), // Defaults to the model configured for OCR
+  // Prompt versions to evaluate; keys left out use the pinned (or latest) version
+  promptVersionIds: z.object({
+    'ocr': z.string().min(1).optional(),
+    'ocr-slide-type-rules': z.string().min(1).optional(),
+    'ocr-text-rules': z.string().min(1).optional(),
+  }).optional(),
+  caseIds: z.array(z.string().min(1)).min(1).optional(), // Defaults to the whole gold set
+  notes: z.string().max(500).optional(),
+})
+
+export type UpdateOcrEvalCaseInput = z.infer<typeof UpdateOcrEvalCaseSchema>
+export type CreateOcrEvalRunInput = z.infer<typeof CreateOcrEvalRunSchema>
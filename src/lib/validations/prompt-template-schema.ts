@@ -0,0 +1,19 @@
+/**
+ * Prompt Template Validation
+ *
+ * Request schemas for saving prompt template versions and pinning them.
+ */
+
+import { z } from 'zod'
+
+export const CreatePromptVersionSchema = z.object({
+  body: z.string().min(1).max(100_000),
+  notes: z.string().max(500).optional(),
+  pin: z.boolean().optional(),
+})
+
+export const PinPromptVersionSchema = z.object({
+  versionId: z.string().min(1).nullable(), // null follows the latest version
+})
+
+export type CreatePromptVersionInput = z.infer<typeof CreatePromptVersionSchema>
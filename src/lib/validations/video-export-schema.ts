@@ -0,0 +1,42 @@
+/**
+ * Video Export Validation
+ *
+ * Options for turning a remix into an MP4 slideshow
+ */
+
+import { z } from 'zod'
+
+// ffmpeg xfade transitions offered in the UI; 'none' is a hard cut
+export const VIDEO_TRANSITIONS = [
+  'none',
+  'fade',
+  'fadeblack',
+  'dissolve',
+  'slideleft',
+  'slideright',
+  'slideup',
+  'wipeleft',
+  'circleopen',
+  'zoomin',
+] as const
+
+export const VideoExportOptionsSchema = z.object({
+  // Seconds each slide stays on screen
+  slideDuration: z.number().min(0.5).max(30).default(3),
+  // Per-slide overrides, by display order; missing entries use slideDuration
+  slideDurations: z.array(z.number().min(0.5).max(30)).max(35).optional(),
+  transition: z.enum(VIDEO_TRANSITIONS).default('fade'),
+  transitionDuration: z.number().min(0.1).max(2).default(0.5),
+  fps: z.union([z.literal(24), z.literal(30), z.literal(60)]).default(30),
+  // Use the source TikTok post's music as the soundtrack
+  includeMusic: z.boolean().default(true),
+  // Take the music from a different TikTok post than the remix's original
+  musicPostId: z.string().min(1).optional(),
+}).refine(
+  options => options.transition === 'none'
+    || options.transitionDuration < Math.min(options.slideDuration, ...(options.slideDurations ?? [])),
+  { message: 'Transition must be shorter than every slide', path: ['transitionDuration'] }
+)
+
+export type VideoExportOptions = z.infer<typeof VideoExportOptionsSchema>
+export type VideoTransition = (typeof VIDEO_TRANSITIONS)[number]
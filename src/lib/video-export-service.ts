@@ -0,0 +1,380 @@
+/**
+ * Video Export Service
+ *
+ * Turns a remix into an MP4 slideshow: the slides are rendered by the remix
+ * render service, stitched together with ffmpeg (per-slide timing, xfade
+ * transitions, optional soundtrack from the source post's music) and the
+ * result is stored in R2 as a CacheAsset.
+ *
+ * Requires an ffmpeg binary on the worker (FFMPEG_PATH, or `ffmpeg` on PATH).
+ */
+
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import sharp from 'sharp'
+import { PrismaClient, CacheStatus, VideoExportStatus } from '@/generated/prisma'
+import { uploadToR2, generatePresignedGetUrl } from './r2'
+import { cacheAssetService } from './cache-asset-service'
+import { remixRenderService } from './remix-render-service'
+import { videoExportQueue } from './queue/video-export-queue'
+import {
+  VideoExportOptionsSchema,
+  type VideoExportOptions,
+  type VideoTransition,
+} from './validations/video-export-schema'
+
+const DOWNLOAD_LINK_TTL_SECONDS = 86400 // 1 day, same as ZIP exports
+const AUDIO_FADE_OUT_SECONDS = 1
+const FFMPEG_STDERR_TAIL_LINES = 15
+
+export interface SlideshowInput {
+  imagePaths: string[]
+  durations: number[] // Seconds on screen per slide
+  width: number
+  height: number
+  fps: number
+  transition: VideoTransition
+  transitionDuration: number
+  audioPath?: string
+  outputPath: string
+}
+
+export interface ProcessVideoExportResult {
+  exportId: string
+  cacheAssetId: string
+  durationSeconds: number
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+// libx264 with yuv420p needs even dimensions
+const toEven = (value: number) => Math.max(2, Math.floor(value / 2) * 2)
+
+/**
+ * Seconds each slide stays on screen, applying per-slide overrides
+ */
+export function getSlideDurations(slideCount: number, options: VideoExportOptions): number[] {
+  return Array.from({ length: slideCount }, (_, index) =>
+    options.slideDurations?.[index] ?? options.slideDuration
+  )
+}
+
+/**
+ * ffmpeg arguments for a slideshow.
+ *
+ * Each image is looped for its duration plus the following transition, so
+ * every xfade starts exactly when the next slide is due and the video runs
+ * for the sum of the slide durations.
+ */
+export function buildSlideshowArgs(input: SlideshowInput): string[] {
+  const { imagePaths, durations, fps, transition, audioPath, outputPath } = input
+  const width = toEven(input.width)
+  const height = toEven(input.height)
+  const count = imagePaths.length
+  const useTransitions = transition !== 'none' && count > 1
+  const overlap = useTransitions ? input.transitionDuration : 0
+  const totalDuration = round(durations.reduce((sum, duration) => sum + duration, 0))
+
+  const args: string[] = ['-y', '-hide_banner', '-loglevel', 'error']
+
+  imagePaths.forEach((imagePath, index) => {
+    const length = durations[index] + (index < count - 1 ? overlap : 0)
+    args.push('-loop', '1', '-t', String(round(length)), '-i', imagePath)
+  })
+
+  if (audioPath) {
+    // Loop short tracks; the output is trimmed to the video length
+    args.push('-stream_loop', '-1', '-i', audioPath)
+  }
+
+  const filters = imagePaths.map((_, index) =>
+    `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+    `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${fps},format=yuv420p[v${index}]`
+  )
+
+  if (useTransitions) {
+    let previous = 'v0'
+    let offset = 0
+    for (let index = 1; index < count; index++) {
+      offset += durations[index - 1]
+      const label = index === count - 1 ? 'vout' : `x${index}`
+      filters.push(
+        `[${previous}][v${index}]xfade=transition=${transition}:duration=${overlap}:offset=${round(offset)}[${label}]`
+      )
+      previous = label
+    }
+  } else {
+    filters.push(`${imagePaths.map((_, index) => `[v${index}]`).join('')}concat=n=${count}:v=1:a=0[vout]`)
+  }
+
+  if (audioPath) {
+    const fade = Math.min(AUDIO_FADE_OUT_SECONDS, totalDuration)
+    filters.push(
+      `[${count}:a]atrim=0:${totalDuration},asetpts=PTS-STARTPTS,` +
+      `afade=t=out:st=${round(totalDuration - fade)}:d=${fade}[aout]`
+    )
+  }
+
+  args.push('-filter_complex', filters.join(';'), '-map', '[vout]')
+  if (audioPath) {
+    args.push('-map', '[aout]', '-c:a', 'aac', '-b:a', '192k')
+  }
+
+  args.push(
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '20',
+    '-pix_fmt', 'yuv420p',
+    '-r', String(fps),
+    '-t', String(totalDuration),
+    '-movflags', '+faststart',
+    outputPath
+  )
+
+  return args
+}
+
+/**
+ * Run ffmpeg, rejecting with the tail of its stderr when it fails
+ */
+function runFfmpeg(args: string[]): Promise<void> {
+  const binary = process.env.FFMPEG_PATH || 'ffmpeg'
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { stdio: ['ignore', 'ignore', 'pipe'] })
+    let stderr = ''
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf8')).slice(-8000)
+    })
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error(`ffmpeg not found (${binary}); install ffmpeg or set FFMPEG_PATH`)
+        : error)
+    })
+
+    child.on('close', (code) => {
+      if (code === 0) return resolve()
+      const tail = stderr.trim().split('\n').slice(-FFMPEG_STDERR_TAIL_LINES).join('\n')
+      reject(new Error(`ffmpeg exited with code ${code}: ${tail}`))
+    })
+  })
+}
+
+async function downloadTo(url: string, filePath: string): Promise<Buffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`)
+  }
+  const buffer = Buffer.from(await response.arrayBuffer())
+  await fs.writeFile(filePath, buffer)
+  return buffer
+}
+
+class VideoExportService {
+  private prisma: PrismaClient
+
+  constructor() {
+    this.prisma = new PrismaClient()
+  }
+
+  /**
+   * Record a video export and queue it for the worker
+   */
+  async createExport(remixId: string, input: unknown) {
+    const options = VideoExportOptionsSchema.parse(input ?? {})
+
+    const remix = await this.prisma.remixPost.findUnique({
+      where: { id: remixId },
+      select: { id: true },
+    })
+
+    if (!remix) {
+      throw new Error(`Remix not found: ${remixId}`)
+    }
+
+    const videoExport = await this.prisma.videoExport.create({
+      data: { remixId, options },
+    })
+
+    await videoExportQueue.addVideoExportJob(videoExport.id)
+    console.log(`🎬 [VideoExport] Queued export ${videoExport.id} for remix ${remixId}`)
+
+    return videoExport
+  }
+
+  /**
+   * Music CacheAsset for an export: the chosen post's music, falling back to
+   * the remix's original post. Null when the post has no cached music.
+   */
+  private async resolveMusicAssetId(originalPostId: string | null, options: VideoExportOptions): Promise<string | null> {
+    if (!options.includeMusic) return null
+
+    const postId = options.musicPostId ?? originalPostId
+    if (!postId) return null
+
+    const post = await this.prisma.tiktokPost.findUnique({
+      where: { id: postId },
+      select: { musicId: true },
+    })
+
+    if (!post?.musicId) {
+      console.warn(`⚠️ [VideoExport] Post ${postId} has no cached music, exporting without audio`)
+      return null
+    }
+
+    return post.musicId
+  }
+
+  /**
+   * Render, encode and upload a queued export. Called by the worker.
+   */
+  async processExport(exportId: string): Promise<ProcessVideoExportResult> {
+    const videoExport = await this.prisma.videoExport.findUnique({
+      where: { id: exportId },
+      include: { remix: { select: { id: true, name: true, originalPostId: true } } },
+    })
+
+    if (!videoExport) {
+      throw new Error(`Video export not found: ${exportId}`)
+    }
+
+    const options = VideoExportOptionsSchema.parse(videoExport.options)
+    const { remix } = videoExport
+
+    await this.prisma.videoExport.update({
+      where: { id: exportId },
+      data: { status: VideoExportStatus.PROCESSING, error: null },
+    })
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'video-export-'))
+
+    try {
+      console.log(`🎬 [VideoExport] Rendering slides for remix ${remix.id}`)
+      const { cacheAssetIds } = await remixRenderService.renderRemix(remix.id, { format: 'jpeg' })
+      const slideUrls = await cacheAssetService.getUrls(cacheAssetIds)
+
+      const imagePaths: string[] = []
+      let firstSlide: Buffer | null = null
+      for (const [index, url] of slideUrls.entries()) {
+        const imagePath = path.join(workDir, `slide-${String(index).padStart(3, '0')}.jpg`)
+        const buffer = await downloadTo(url, imagePath)
+        firstSlide ??= buffer
+        imagePaths.push(imagePath)
+      }
+
+      const { width = 1080, height = 1920 } = await sharp(firstSlide!).metadata()
+
+      const musicAssetId = await this.resolveMusicAssetId(remix.originalPostId, options)
+      let audioPath: string | undefined
+      if (musicAssetId) {
+        const musicUrl = await cacheAssetService.getUrl(musicAssetId)
+        audioPath = path.join(workDir, 'music')
+        await downloadTo(musicUrl, audioPath)
+      }
+
+      const durations = getSlideDurations(imagePaths.length, options)
+      const durationSeconds = round(durations.reduce((sum, duration) => sum + duration, 0))
+      const outputPath = path.join(workDir, 'output.mp4')
+
+      console.log(`🎬 [VideoExport] Encoding ${imagePaths.length} slides (${durationSeconds}s, ${options.transition}${audioPath ? ', with music' : ''})`)
+      await runFfmpeg(buildSlideshowArgs({
+        imagePaths,
+        durations,
+        width,
+        height,
+        fps: options.fps,
+        transition: options.transition,
+        transitionDuration: options.transitionDuration,
+        audioPath,
+        outputPath,
+      }))
+
+      const video = await fs.readFile(outputPath)
+      const filename = `${remix.name.replace(/[^a-z0-9]/gi, '-') || 'remix'}.mp4`
+      const { url, key } = await uploadToR2(video, 'exports/videos', filename, 'video/mp4')
+
+      const cacheAsset = await this.prisma.cacheAsset.create({
+        data: {
+          id: uuidv4(),
+          originalUrl: url,
+          cacheKey: key,
+          status: CacheStatus.CACHED,
+          contentType: 'video/mp4',
+          fileSize: video.length,
+          cachedAt: new Date(),
+        },
+      })
+
+      await this.prisma.videoExport.update({
+        where: { id: exportId },
+        data: {
+          status: VideoExportStatus.COMPLETED,
+          cacheAssetId: cacheAsset.id,
+          musicAssetId,
+          durationSeconds,
+          completedAt: new Date(),
+        },
+      })
+
+      console.log(`✅ [VideoExport] Export ${exportId} completed: ${video.length} bytes`)
+
+      return { exportId, cacheAssetId: cacheAsset.id, durationSeconds }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ [VideoExport] Export ${exportId} failed:`, error)
+
+      await this.prisma.videoExport.update({
+        where: { id: exportId },
+        data: { status: VideoExportStatus.FAILED, error: message },
+      })
+
+      throw error
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true })
+    }
+  }
+
+  private async withDownloadUrl<T extends { cacheAsset: { cacheKey: string | null } | null }>(videoExport: T) {
+    const { cacheAsset, ...rest } = videoExport
+    const downloadUrl = cacheAsset?.cacheKey
+      ? await generatePresignedGetUrl(cacheAsset.cacheKey, DOWNLOAD_LINK_TTL_SECONDS)
+      : null
+
+    return { ...rest, downloadUrl }
+  }
+
+  /**
+   * An export with a time-limited download link once it has completed
+   */
+  async getExport(exportId: string) {
+    const videoExport = await this.prisma.videoExport.findUnique({
+      where: { id: exportId },
+      include: { cacheAsset: { select: { cacheKey: true } } },
+    })
+
+    if (!videoExport) {
+      throw new Error(`Video export not found: ${exportId}`)
+    }
+
+    return this.withDownloadUrl(videoExport)
+  }
+
+  async listExports(remixId: string, limit = 20) {
+    const videoExports = await this.prisma.videoExport.findMany({
+      where: { remixId },
+      include: { cacheAsset: { select: { cacheKey: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return Promise.all(videoExports.map(videoExport => this.withDownloadUrl(videoExport)))
+  }
+}
+
+export const videoExportService = new VideoExportService()
+export default VideoExportService
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+// Keep in sync with SESSION_COOKIE in src/lib/auth.ts (not imported - that module pulls in Prisma)
+const SESSION_COOKIE = 'session'
+
+/**
+ * Send visitors without a session cookie to the login page. This is only a
+ * redirect for pages - API routes check the session and role themselves
+ * (see requireRole in src/lib/auth.ts).
+ */
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next()
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  const next = request.nextUrl.pathname + request.nextUrl.search
+  if (next !== '/') {
+    loginUrl.searchParams.set('next', next)
+  }
+
+  return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+  // Everything except API routes, the login page, Next.js internals and static files
+  matcher: ['/((?!api|login|_next/static|_next/image|favicon.ico|icon.png|.*\\.(?:png|jpg|jpeg|svg|webp|ico|woff2?)$).*)']
+}
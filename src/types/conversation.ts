@@ -10,11 +10,24 @@ export type GeminiModel =
   | "gemini-2.5-pro"
   | "gemini-2.5-pro-thinking"
 
+/**
+ * A database tool the assistant called while answering, kept in the transcript
+ */
+export interface ToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+  result?: Record<string, unknown>
+  error?: string
+  durationMs?: number
+}
+
 export interface Message {
   id?: string // Optional unique ID for client-side use
   role: "user" | "assistant"
   content: string
   thinking?: string // For thinking models
+  toolCalls?: ToolCall[] // Tools called before answering (assistant only)
   model: GeminiModel
   inputTokens: number
   outputTokens: number
@@ -52,7 +65,7 @@ export interface ModelPricing {
  */
 export interface AnalyzeRequest {
   conversationId?: string | null
-  postIds: string[]
+  postIds?: string[] // Selected posts, passed to the model as a hint; tools can reach every post
   prompt: string
   model: GeminiModel
 }
@@ -63,6 +76,8 @@ export interface AnalyzeRequest {
 export type StreamEventType =
   | { type: "chunk"; content: string }
   | { type: "thinking"; content: string }
+  | { type: "tool_call"; call: ToolCall }
+  | { type: "tool_result"; call: ToolCall }
   | { type: "usage"; inputTokens: number; outputTokens: number; cost: number }
   | { type: "conversationId"; id: string }
   | { type: "done" }
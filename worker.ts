@@ -9,7 +9,7 @@
  *   bun worker.ts
  *
  * Environment Variables:
- *   QUEUE_NAME - Queue to process: 'all', 'media-cache', 'profile-monitor', 'ocr', 'hash-backfill' (default: 'all')
+ *   QUEUE_NAME - Queue to process: 'all', 'media-cache', 'profile-monitor', 'ocr', 'hash-backfill', 'publish', 'account-health', 'notification-delivery', 'render', 'video-export', 'profile-backfill', 'trend-refresh', 'duplicate-detection', 'slide-index-backfill', 'ai-budget', 'ocr-eval' (default: 'all')
  *   REDIS_HOST - Redis server host (default: localhost)
  *   REDIS_PORT - Redis server port (default: 6379)
  *   REDIS_PASSWORD - Redis password (optional)
@@ -21,6 +21,17 @@ import { mediaCacheWorker } from './src/lib/queue/media-cache-worker'
 import { profileMonitorWorker } from './src/lib/queue/profile-monitor-worker'
 import { ocrWorker } from './src/lib/queue/ocr-worker'
 import { hashBackfillWorker } from './src/lib/queue/hash-backfill-worker'
+import { publishWorker } from './src/lib/queue/publish-worker'
+import { accountHealthWorker } from './src/lib/queue/account-health-worker'
+import { notificationDeliveryWorker } from './src/lib/queue/notification-delivery-worker'
+import { renderWorker } from './src/lib/queue/render-worker'
+import { videoExportWorker } from './src/lib/queue/video-export-worker'
+import { profileBackfillWorker } from './src/lib/queue/profile-backfill-worker'
+import { trendRefreshWorker } from './src/lib/queue/trend-refresh-worker'
+import { duplicateDetectionWorker } from './src/lib/queue/duplicate-detection-worker'
+import { slideIndexBackfillWorker } from './src/lib/queue/slide-index-backfill-worker'
+import { aiBudgetWorker } from './src/lib/queue/ai-budget-worker'
+import { ocrEvalWorker } from './src/lib/queue/ocr-eval-worker'
 import * as Sentry from '@sentry/node'
 
 // Initialize Sentry for error tracking
@@ -62,8 +73,74 @@ if (queueName === 'all' || queueName === 'hash-backfill') {
   console.log('✅ Hash Backfill Worker added to active workers')
 }
 
+if (queueName === 'all' || queueName === 'publish') {
+  console.log('📤 Starting Publish Worker...')
+  activeWorkers.push(publishWorker)
+  console.log('✅ Publish Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'account-health') {
+  console.log('🩺 Starting Account Health Worker...')
+  activeWorkers.push(accountHealthWorker)
+  console.log('✅ Account Health Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'notification-delivery') {
+  console.log('📣 Starting Notification Delivery Worker...')
+  activeWorkers.push(notificationDeliveryWorker)
+  console.log('✅ Notification Delivery Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'render') {
+  console.log('🎨 Starting Render Worker...')
+  activeWorkers.push(renderWorker)
+  console.log('✅ Render Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'video-export') {
+  console.log('🎬 Starting Video Export Worker...')
+  activeWorkers.push(videoExportWorker)
+  console.log('✅ Video Export Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'profile-backfill') {
+  console.log('📚 Starting Profile Backfill Worker...')
+  activeWorkers.push(profileBackfillWorker)
+  console.log('✅ Profile Backfill Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'trend-refresh') {
+  console.log('📈 Starting Trend Refresh Worker...')
+  activeWorkers.push(trendRefreshWorker)
+  console.log('✅ Trend Refresh Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'duplicate-detection') {
+  console.log('🧬 Starting Duplicate Detection Worker...')
+  activeWorkers.push(duplicateDetectionWorker)
+  console.log('✅ Duplicate Detection Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'slide-index-backfill') {
+  console.log('📚 Starting Slide Index Backfill Worker...')
+  activeWorkers.push(slideIndexBackfillWorker)
+  console.log('✅ Slide Index Backfill Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'ai-budget') {
+  console.log('💰 Starting AI Budget Worker...')
+  activeWorkers.push(aiBudgetWorker)
+  console.log('✅ AI Budget Worker added to active workers')
+}
+
+if (queueName === 'all' || queueName === 'ocr-eval') {
+  console.log('🧪 Starting OCR Eval Worker...')
+  activeWorkers.push(ocrEvalWorker)
+  console.log('✅ OCR Eval Worker added to active workers')
+}
+
 if (activeWorkers.length === 0) {
-  console.error(`❌ Invalid QUEUE_NAME: ${queueName}. Valid values: 'all', 'media-cache', 'profile-monitor', 'ocr', 'hash-backfill'`)
+  console.error(`❌ Invalid QUEUE_NAME: ${queueName}. Valid values: 'all', 'media-cache', 'profile-monitor', 'ocr', 'hash-backfill', 'publish', 'account-health', 'notification-delivery', 'render', 'video-export', 'profile-backfill', 'trend-refresh', 'duplicate-detection', 'slide-index-backfill', 'ai-budget', 'ocr-eval'`)
   process.exit(1)
 }
 